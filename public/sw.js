@@ -16,6 +16,7 @@ const STATIC_ASSETS = [
   '/en',
   '/de',
   '/fr',
+  '/cs',
   '/offline',
   '/manifest.json',
   '/images/icon-192x192.png',
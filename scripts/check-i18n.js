@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+
+// Build-time translation check
+// The locales come from the registry in src/lib/i18n.ts. Paraglide's project settings must list the same ones,
+// every message file must have every key, and every localized field in content/ must be filled for every locale.
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const root = process.cwd();
+const problems = [];
+
+// Keys of the LOCALE_REGISTRY object literal
+function readRegistryLocales() {
+  const file = path.join(root, 'src/lib/i18n.ts');
+  const source = ts.createSourceFile(file, fs.readFileSync(file, 'utf8'), ts.ScriptTarget.Latest, true);
+  let locales = null;
+
+  const visit = (node) => {
+    if (ts.isVariableDeclaration(node) && node.name.getText() === 'LOCALE_REGISTRY') {
+      let initializer = node.initializer;
+      while (initializer && !ts.isObjectLiteralExpression(initializer)) {
+        initializer = initializer.expression;
+      }
+      locales = initializer.properties.map(property => property.name.getText().replace(/['"]/g, ''));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  if (!locales) {
+    console.error('❌ LOCALE_REGISTRY not found in src/lib/i18n.ts');
+    process.exit(1);
+  }
+  return locales;
+}
+
+// "a.b.c" paths of the string values in a message tree
+function flattenKeys(tree, prefix = '') {
+  return Object.entries(tree).flatMap(([key, value]) =>
+    value && typeof value === 'object'
+      ? flattenKeys(value, `${prefix}${key}.`)
+      : [[`${prefix}${key}`, value]]
+  );
+}
+
+const readJson = (file) => JSON.parse(fs.readFileSync(file, 'utf8'));
+const relative = (file) => path.relative(root, file);
+
+const locales = readRegistryLocales();
+const [baseLocale] = locales;
+console.log(`🌍 Checking translations for ${locales.join(', ')}\n`);
+
+// Paraglide project settings
+const settings = readJson(path.join(root, 'project.inlang/settings.json'));
+if (settings.baseLocale !== baseLocale) {
+  problems.push(`project.inlang/settings.json: baseLocale is "${settings.baseLocale}", expected "${baseLocale}"`);
+}
+if (settings.locales.join(',') !== locales.join(',')) {
+  problems.push(`project.inlang/settings.json: locales are [${settings.locales.join(', ')}], expected [${locales.join(', ')}]`);
+}
+
+// Message files
+const messagesDir = path.join(root, 'messages');
+const baseKeys = new Map(flattenKeys(readJson(path.join(messagesDir, `${baseLocale}.json`))));
+
+for (const file of fs.readdirSync(messagesDir).filter(name => name.endsWith('.json'))) {
+  const locale = path.basename(file, '.json');
+  if (!locales.includes(locale)) {
+    problems.push(`messages/${file}: "${locale}" is not in the locale registry`);
+  }
+}
+
+for (const locale of locales) {
+  const file = path.join(messagesDir, `${locale}.json`);
+  if (!fs.existsSync(file)) {
+    problems.push(`messages/${locale}.json is missing`);
+    continue;
+  }
+
+  const messages = new Map(flattenKeys(readJson(file)));
+  for (const key of baseKeys.keys()) {
+    if (!messages.has(key)) problems.push(`messages/${locale}.json: missing "${key}"`);
+    else if (typeof messages.get(key) !== 'string' || !messages.get(key).trim()) problems.push(`messages/${locale}.json: "${key}" is empty`);
+  }
+  for (const key of messages.keys()) {
+    if (!baseKeys.has(key)) problems.push(`messages/${locale}.json: "${key}" is not in messages/${baseLocale}.json`);
+  }
+}
+
+// Localized content fields: any object with a base locale entry, e.g. { "en": "...", "de": "...", "fr": "..." }
+function checkLocalizedFields(value, file, fieldPath) {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => checkLocalizedFields(item, file, `${fieldPath}.${index}`));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  if (baseLocale in value) {
+    for (const locale of locales) {
+      const text = value[locale];
+      const filled = Array.isArray(text) ? text.length > 0 : typeof text === 'string' && text.trim() !== '';
+      if (!filled) problems.push(`${relative(file)}: ${fieldPath.slice(1)}.${locale} is missing`);
+    }
+    return;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    checkLocalizedFields(child, file, `${fieldPath}.${key}`);
+  }
+}
+
+const contentDir = path.join(root, 'content');
+for (const dir of ['tours', 'reviews']) {
+  const fullDir = path.join(contentDir, dir);
+  if (!fs.existsSync(fullDir)) continue;
+  for (const name of fs.readdirSync(fullDir).filter(file => file.endsWith('.json'))) {
+    const file = path.join(fullDir, name);
+    checkLocalizedFields(readJson(file), file, '');
+  }
+}
+
+const manifest = readJson(path.join(contentDir, 'content-manifest.json'));
+if (manifest.languages.join(',') !== locales.join(',')) {
+  problems.push(`content/content-manifest.json: languages are [${manifest.languages.join(', ')}], expected [${locales.join(', ')}]`);
+}
+
+if (problems.length > 0) {
+  problems.forEach(problem => console.log(`❌ ${problem}`));
+  console.log(`\n⚠️  ${problems.length} translation problem(s) found.`);
+  process.exit(1);
+}
+
+console.log(`✅ ${baseKeys.size} messages and all localized content are translated for every locale.`);
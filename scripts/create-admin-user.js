@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+
+/**
+ * Creates an admin account for the CMS, usually the first owner.
+ * Usage: node scripts/create-admin-user.js <email> <name> [role]
+ * The password is read from ADMIN_PASSWORD; the authenticator secret is printed once.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const ROLES = ['owner', 'editor', 'assistant-guide'];
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const ISSUER = 'Prague Tours CMS';
+
+const DATA_PATH = process.env.DATA_PATH || path.join(process.cwd(), 'data');
+const fileName = process.env.ADMIN_USERS_FILE || 'admin-users.json';
+const USERS_FILE = path.isAbsolute(fileName) ? fileName : path.join(DATA_PATH, fileName);
+
+function base32Encode(buffer) {
+  let bits = '';
+  for (const byte of buffer) bits += byte.toString(2).padStart(8, '0');
+
+  let output = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return output;
+}
+
+// Same "scrypt:<salt>:<hash>" format as src/lib/admin-auth.ts
+function hashPassword(password) {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, 64);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+function main() {
+  const [email, name, role = 'owner'] = process.argv.slice(2);
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (!email || !name) {
+    console.error('Usage: ADMIN_PASSWORD=... node scripts/create-admin-user.js <email> <name> [role]');
+    process.exit(1);
+  }
+  if (!ROLES.includes(role)) {
+    console.error(`Role must be one of: ${ROLES.join(', ')}`);
+    process.exit(1);
+  }
+  if (!password || password.length < 12) {
+    console.error('Set ADMIN_PASSWORD to a password of at least 12 characters');
+    process.exit(1);
+  }
+
+  const data = fs.existsSync(USERS_FILE)
+    ? JSON.parse(fs.readFileSync(USERS_FILE, 'utf8'))
+    : { users: [] };
+
+  const normalizedEmail = email.trim().toLowerCase();
+  if (data.users.some(user => user.email === normalizedEmail)) {
+    console.error(`An admin with email ${normalizedEmail} already exists`);
+    process.exit(1);
+  }
+
+  const now = new Date().toISOString();
+  const totpSecret = base32Encode(crypto.randomBytes(20));
+  data.users.push({
+    id: `adm_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    email: normalizedEmail,
+    name: name.trim(),
+    role,
+    passwordHash: hashPassword(password),
+    totpSecret,
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  fs.mkdirSync(path.dirname(USERS_FILE), { recursive: true });
+  fs.writeFileSync(USERS_FILE, JSON.stringify(data, null, 2));
+
+  const label = encodeURIComponent(`${ISSUER}:${normalizedEmail}`);
+  const params = new URLSearchParams({ secret: totpSecret, issuer: ISSUER, digits: '6', period: '30' });
+
+  console.log(`✅ Created ${role} ${normalizedEmail} in ${USERS_FILE}`);
+  console.log('Add this to an authenticator app; it will not be shown again:');
+  console.log(`  Secret: ${totpSecret}`);
+  console.log(`  URI:    otpauth://totp/${label}?${params}`);
+}
+
+main();
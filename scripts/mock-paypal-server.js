@@ -0,0 +1,133 @@
+#!/usr/bin/env node
+
+// Local mock of the PayPal REST endpoints used by the booking flow
+// Run: node scripts/mock-paypal-server.js, then start the app with PAYPAL_API_BASE_URL=http://localhost:4010
+const http = require('http');
+
+const MOCK_WEBHOOK_SIGNATURE = 'mock-signature';
+
+function createMockPayPalServer() {
+  const orders = new Map();
+  const captures = new Map();
+  let counter = 0;
+
+  const nextId = (prefix) => `${prefix}-${Date.now()}-${++counter}`;
+
+  const send = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const notFound = (res) => send(res, 404, { name: 'RESOURCE_NOT_FOUND', message: 'Resource not found' });
+
+  const routes = [
+    ['POST', /^\/v1\/oauth2\/token$/, (req, res) => {
+      send(res, 200, { access_token: 'mock-access-token', token_type: 'Bearer', expires_in: 32400 });
+    }],
+
+    ['POST', /^\/v2\/checkout\/orders$/, (req, res, body) => {
+      const order = {
+        id: nextId('ORDER'),
+        status: 'CREATED',
+        intent: body.intent,
+        purchase_units: body.purchase_units || [],
+      };
+      orders.set(order.id, order);
+
+      send(res, 201, {
+        ...order,
+        links: [{ rel: 'approve', href: `http://${req.headers.host}/mock/orders/${order.id}/approve`, method: 'POST' }],
+      });
+    }],
+
+    // Stands in for the buyer approving the payment on paypal.com
+    ['POST', /^\/mock\/orders\/([^/]+)\/approve$/, (req, res, body, [orderId]) => {
+      const order = orders.get(orderId);
+      if (!order) return notFound(res);
+
+      order.status = 'APPROVED';
+      send(res, 200, order);
+    }],
+
+    ['GET', /^\/v2\/checkout\/orders\/([^/]+)$/, (req, res, body, [orderId]) => {
+      const order = orders.get(orderId);
+      return order ? send(res, 200, order) : notFound(res);
+    }],
+
+    ['POST', /^\/v2\/checkout\/orders\/([^/]+)\/capture$/, (req, res, body, [orderId]) => {
+      const order = orders.get(orderId);
+      if (!order) return notFound(res);
+
+      // Repeated captures return the completed order, like a PayPal-Request-Id replay
+      if (order.status === 'COMPLETED') return send(res, 201, order);
+      if (order.status !== 'APPROVED') {
+        return send(res, 422, { name: 'UNPROCESSABLE_ENTITY', message: 'ORDER_NOT_APPROVED' });
+      }
+
+      const unit = order.purchase_units[0];
+      const capture = {
+        id: nextId('CAPTURE'),
+        status: 'COMPLETED',
+        amount: unit.amount,
+        supplementary_data: { related_ids: { order_id: order.id } },
+      };
+      captures.set(capture.id, capture);
+
+      unit.payments = { captures: [capture] };
+      order.status = 'COMPLETED';
+      send(res, 201, order);
+    }],
+
+    ['GET', /^\/v2\/payments\/captures\/([^/]+)$/, (req, res, body, [captureId]) => {
+      const capture = captures.get(captureId);
+      return capture ? send(res, 200, capture) : notFound(res);
+    }],
+
+    ['POST', /^\/v2\/payments\/captures\/([^/]+)\/refund$/, (req, res, body, [captureId]) => {
+      const capture = captures.get(captureId);
+      if (!capture) return notFound(res);
+
+      send(res, 201, {
+        id: nextId('REFUND'),
+        status: 'COMPLETED',
+        amount: body.amount || capture.amount,
+        links: [{ rel: 'up', href: `http://${req.headers.host}/v2/payments/captures/${capture.id}` }],
+      });
+    }],
+
+    ['POST', /^\/v1\/notifications\/verify-webhook-signature$/, (req, res, body) => {
+      send(res, 200, {
+        verification_status: body.transmission_sig === MOCK_WEBHOOK_SIGNATURE ? 'SUCCESS' : 'FAILURE',
+      });
+    }],
+  ];
+
+  return http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url, `http://${req.headers.host}`);
+      const route = routes.find(([method, pattern]) => method === req.method && pattern.test(url.pathname));
+      if (!route) return notFound(res);
+
+      let body = {};
+      try {
+        body = raw && req.headers['content-type']?.includes('json') ? JSON.parse(raw) : {};
+      } catch {
+        return send(res, 400, { name: 'INVALID_REQUEST', message: 'Malformed JSON' });
+      }
+
+      const params = url.pathname.match(route[1]).slice(1);
+      route[2](req, res, body, params);
+    });
+  });
+}
+
+module.exports = { createMockPayPalServer, MOCK_WEBHOOK_SIGNATURE };
+
+if (require.main === module) {
+  const port = parseInt(process.env.MOCK_PAYPAL_PORT || '4010');
+  createMockPayPalServer().listen(port, () => {
+    console.log(`Mock PayPal API listening on http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,131 @@
+// Tests for admin accounts, TOTP sign-in and role access
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+jest.mock('jose', () => ({}));
+jest.mock('next/server', () => ({ NextResponse: { json: jest.fn() } }));
+
+const usersFile = path.join(os.tmpdir(), `admin-users-test-${process.pid}.json`);
+process.env.ADMIN_USERS_FILE = usersFile;
+
+import {
+  authenticateAdmin,
+  createAdminUser,
+  updateAdminUser,
+  generateTotp,
+  getTotpStep,
+  verifyTotp,
+  hashPassword,
+  verifyPassword,
+  AdminUserError,
+} from '@/lib/admin-auth';
+import { canAccess, getAdminPageArea } from '@/lib/admin-access';
+
+const PASSWORD = 'correct horse battery';
+
+describe('admin auth', () => {
+  beforeEach(async () => {
+    await fs.rm(usersFile, { force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(usersFile, { force: true });
+  });
+
+  it('should match the RFC 6238 SHA-1 test vector', () => {
+    // "12345678901234567890" in base32
+    const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+    expect(generateTotp(secret, getTotpStep(59 * 1000))).toBe('287082');
+    expect(verifyTotp(secret, '287082', 59 * 1000)).toBe(1);
+    expect(verifyTotp(secret, '287083', 59 * 1000)).toBeNull();
+  });
+
+  it('should hash passwords with a salt', async () => {
+    const first = await hashPassword(PASSWORD);
+    const second = await hashPassword(PASSWORD);
+
+    expect(first).not.toBe(second);
+    expect(await verifyPassword(PASSWORD, first)).toBe(true);
+    expect(await verifyPassword('wrong password', first)).toBe(false);
+  });
+
+  it('should sign in with password and code and reject a replayed code', async () => {
+    const { user, totpSecret } = await createAdminUser({
+      email: 'Filip@Example.com',
+      name: 'Filip',
+      role: 'owner',
+      password: PASSWORD,
+    });
+    const now = new Date();
+    const code = generateTotp(totpSecret, getTotpStep(now.getTime()));
+
+    expect(await authenticateAdmin('filip@example.com', 'wrong password', code, now)).toBeNull();
+    expect(await authenticateAdmin('filip@example.com', PASSWORD, '000000', now)).toBeNull();
+
+    const signedIn = await authenticateAdmin('filip@example.com', PASSWORD, code, now);
+    expect(signedIn).toMatchObject({ id: user.id, role: 'owner' });
+    expect(signedIn).not.toHaveProperty('passwordHash');
+
+    expect(await authenticateAdmin('filip@example.com', PASSWORD, code, now)).toBeNull();
+  });
+
+  it('should refuse to sign in a disabled account', async () => {
+    await createAdminUser({ email: 'owner@example.com', name: 'Owner', role: 'owner', password: PASSWORD });
+    const { user, totpSecret } = await createAdminUser({
+      email: 'guide@example.com',
+      name: 'Guide',
+      role: 'assistant-guide',
+      password: PASSWORD,
+    });
+    await updateAdminUser(user.id, { active: false });
+
+    const code = generateTotp(totpSecret);
+    expect(await authenticateAdmin('guide@example.com', PASSWORD, code)).toBeNull();
+  });
+
+  it('should keep at least one active owner', async () => {
+    const { user: owner } = await createAdminUser({
+      email: 'owner@example.com',
+      name: 'Owner',
+      role: 'owner',
+      password: PASSWORD,
+    });
+
+    await expect(updateAdminUser(owner.id, { role: 'editor' })).rejects.toThrow(AdminUserError);
+    await expect(updateAdminUser(owner.id, { active: false })).rejects.toThrow('At least one active owner is required');
+
+    const { user: second } = await createAdminUser({
+      email: 'second@example.com',
+      name: 'Second',
+      role: 'owner',
+      password: PASSWORD,
+    });
+    const result = await updateAdminUser(second.id, { role: 'editor' });
+    expect(result?.user.role).toBe('editor');
+  });
+
+  it('should reject duplicate emails', async () => {
+    await createAdminUser({ email: 'owner@example.com', name: 'Owner', role: 'owner', password: PASSWORD });
+
+    await expect(
+      createAdminUser({ email: 'OWNER@example.com', name: 'Again', role: 'editor', password: PASSWORD })
+    ).rejects.toThrow('An admin with this email already exists');
+  });
+
+  it('should limit each role to its admin areas', () => {
+    expect(canAccess('owner', 'users')).toBe(true);
+    expect(canAccess('editor', 'content')).toBe(true);
+    expect(canAccess('editor', 'payments')).toBe(false);
+    expect(canAccess('assistant-guide', 'inquiries')).toBe(true);
+    expect(canAccess('assistant-guide', 'content')).toBe(false);
+
+    expect(getAdminPageArea('')).toBe('dashboard');
+    expect(getAdminPageArea('blog/new')).toBe('content');
+    expect(getAdminPageArea('refunds')).toBe('payments');
+    expect(getAdminPageArea('something-new')).toBe('users');
+  });
+});
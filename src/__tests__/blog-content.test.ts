@@ -0,0 +1,183 @@
+// Tests for saving blog posts with per-locale bodies and moving them through the publishing workflow
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import matter from 'gray-matter';
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+const contentDir = path.join(os.tmpdir(), `blog-content-test-${process.pid}`);
+process.env.CONTENT_PATH = contentDir;
+
+import {
+  BlogValidationError,
+  changeBlogStatus,
+  deleteBlogPost,
+  publishDueBlogPosts,
+  readBlogSource,
+  saveBlogPost,
+} from '@/lib/blog-content';
+import { getBlogTranslationStatus } from '@/lib/blog-translations';
+import { isBlogPostLive } from '@/lib/blog-workflow';
+import { createBlogPreviewPath, verifyBlogPreviewSignature } from '@/lib/preview-links';
+
+const repoContent = path.join(process.cwd(), 'content');
+const blogDir = path.join(contentDir, 'blog');
+
+async function readManifest() {
+  return JSON.parse(await fs.readFile(path.join(contentDir, 'content-manifest.json'), 'utf-8'));
+}
+
+async function loadPost(slug: string) {
+  const source = await readBlogSource(slug);
+  return { slug, frontmatter: source!.frontmatter, content: source!.content };
+}
+
+describe('blog content', () => {
+  beforeEach(async () => {
+    await fs.rm(contentDir, { recursive: true, force: true });
+    await fs.mkdir(blogDir, { recursive: true });
+    await fs.copyFile(path.join(repoContent, 'content-manifest.json'), path.join(contentDir, 'content-manifest.json'));
+    await fs.copyFile(
+      path.join(repoContent, 'blog', 'prague-hidden-gems.mdx'),
+      path.join(blogDir, 'prague-hidden-gems.mdx')
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(contentDir, { recursive: true, force: true });
+  });
+
+  it('should count a locale as complete only when every field is translated', () => {
+    const post = {
+      title: { en: 'Title', de: 'Titel', fr: 'Titre' },
+      excerpt: { en: 'Excerpt', de: 'Auszug', fr: 'Extrait' },
+      content: { en: 'Body', de: 'Text', fr: '' },
+      seoTitle: { en: 'SEO', de: 'SEO', fr: 'SEO' },
+      seoDescription: { en: 'Description', de: 'Beschreibung', fr: 'Description' },
+    };
+
+    expect(getBlogTranslationStatus(post)).toEqual({ en: 'complete', de: 'complete', fr: 'pending', cs: 'pending' });
+  });
+
+  it('should write translated bodies beside the post and update the manifest', async () => {
+    const post = await loadPost('prague-hidden-gems');
+    expect(post.content.de).toBe('');
+
+    post.content.de = '# Prags versteckte Juwelen\n\nText auf Deutsch.';
+    const result = await saveBlogPost(post, { isNew: false });
+
+    expect(result?.isUpdate).toBe(true);
+    expect(await fs.readFile(path.join(blogDir, 'prague-hidden-gems.de.mdx'), 'utf-8')).toBe(`${post.content.de}\n`);
+    await expect(fs.access(path.join(blogDir, 'prague-hidden-gems.fr.mdx'))).rejects.toThrow();
+
+    const saved = matter(await fs.readFile(path.join(blogDir, 'prague-hidden-gems.mdx'), 'utf-8'));
+    expect(saved.data.title.de).toBe('Prags versteckte Juwelen: Geheime Orte, die nur Einheimische kennen');
+    expect(saved.content.trim()).toBe(post.content.en);
+    expect(await fs.readdir(path.join(contentDir, 'backups', 'blog'))).toHaveLength(1);
+
+    const manifest = await readManifest();
+    const entry = manifest.content.blog.items.find((item: { slug: string }) => item.slug === 'prague-hidden-gems');
+    expect(entry.translations).toEqual({ en: 'complete', de: 'complete', fr: 'pending', cs: 'pending' });
+    expect(entry.lastModified).toBe(manifest.lastUpdated);
+    expect(manifest.translation.status.de.blog).toBe('17%');
+  });
+
+  it('should remove a translation that was cleared', async () => {
+    const post = await loadPost('prague-hidden-gems');
+    post.content.fr = 'Texte en français.';
+    await saveBlogPost(post, { isNew: false });
+
+    post.content.fr = '';
+    await saveBlogPost(post, { isNew: false });
+
+    await expect(fs.access(path.join(blogDir, 'prague-hidden-gems.fr.mdx'))).rejects.toThrow();
+    expect((await readBlogSource('prague-hidden-gems'))?.content.fr).toBe('');
+  });
+
+  it('should reject posts without English text and report the field', async () => {
+    const post = await loadPost('prague-hidden-gems');
+    (post.frontmatter.title as Record<string, string>).en = ' ';
+
+    await expect(saveBlogPost(post, { isNew: false })).rejects.toThrow(BlogValidationError);
+    await saveBlogPost(post, { isNew: false }).catch((error: BlogValidationError) => {
+      expect(error.fieldErrors).toEqual({ 'frontmatter.title.en': 'English text is required' });
+    });
+  });
+
+  it('should create, refuse duplicates and delete posts with their translations', async () => {
+    const post = await loadPost('prague-hidden-gems');
+
+    await expect(saveBlogPost(post, { isNew: true })).rejects.toThrow(BlogValidationError);
+    expect(await saveBlogPost({ ...post, slug: 'missing' }, { isNew: false })).toBeNull();
+
+    await saveBlogPost({ ...post, slug: 'vysehrad', content: { ...post.content, de: 'Vyšehrad' } }, { isNew: true });
+    expect((await readManifest()).content.blog.total).toBe(7);
+
+    expect(await deleteBlogPost('vysehrad')).toBe(true);
+    expect(await fs.readdir(blogDir)).toEqual(['prague-hidden-gems.mdx']);
+    expect((await readManifest()).content.blog.total).toBe(6);
+    expect(await deleteBlogPost('vysehrad')).toBe(false);
+  });
+
+  it('should start new posts as drafts and move them through review to published', async () => {
+    const post = await loadPost('prague-hidden-gems');
+    await saveBlogPost({ ...post, slug: 'vysehrad' }, { isNew: true });
+    expect((await readBlogSource('vysehrad'))?.frontmatter.status).toBe('draft');
+
+    await expect(changeBlogStatus('vysehrad', 'unpublish')).rejects.toThrow(BlogValidationError);
+    expect((await changeBlogStatus('vysehrad', 'submit'))?.frontmatter.status).toBe('in-review');
+
+    const now = new Date('2024-05-01T10:00:00Z');
+    const published = await changeBlogStatus('vysehrad', 'publish', { now });
+    expect(published?.frontmatter).toMatchObject({ status: 'published' });
+
+    // Saving from the editor keeps the status
+    await saveBlogPost(await loadPost('vysehrad'), { isNew: false });
+    expect((await readBlogSource('vysehrad'))?.frontmatter.status).toBe('published');
+
+    const entry = (await readManifest()).content.blog.items.find((item: { slug: string }) => item.slug === 'vysehrad');
+    expect(entry.status).toBe('published');
+    expect(await changeBlogStatus('missing', 'publish')).toBeNull();
+  });
+
+  it('should schedule posts in the future and publish them when due', async () => {
+    const now = new Date('2024-05-01T10:00:00Z');
+    await changeBlogStatus('prague-hidden-gems', 'unpublish', { now });
+
+    await expect(
+      changeBlogStatus('prague-hidden-gems', 'schedule', { publishAt: '2024-04-30T10:00:00Z', now })
+    ).rejects.toMatchObject({ fieldErrors: { publishAt: 'Choose a publish time in the future' } });
+
+    const scheduled = await changeBlogStatus('prague-hidden-gems', 'schedule', { publishAt: '2024-05-02T08:00:00Z', now });
+    expect(scheduled?.frontmatter).toMatchObject({
+      status: 'scheduled',
+      publishAt: '2024-05-02T08:00:00.000Z',
+      publishedAt: '2024-05-02',
+    });
+    expect(isBlogPostLive(scheduled!.frontmatter, now)).toBe(false);
+    expect(isBlogPostLive(scheduled!.frontmatter, new Date('2024-05-02T08:00:00Z'))).toBe(true);
+
+    expect(await publishDueBlogPosts(now)).toEqual([]);
+    expect(await publishDueBlogPosts(new Date('2024-05-02T09:00:00Z'))).toEqual(['prague-hidden-gems']);
+
+    const saved = (await readBlogSource('prague-hidden-gems'))!.frontmatter;
+    expect(saved.status).toBe('published');
+    expect(saved.publishAt).toBeUndefined();
+  });
+
+  it('should accept preview links only with a valid, unexpired signature', () => {
+    const now = Date.parse('2024-05-01T10:00:00Z');
+    const params = new URLSearchParams(createBlogPreviewPath('vysehrad', now).path.split('?')[1]);
+    const expires = params.get('expires')!;
+    const signature = params.get('signature')!;
+
+    expect(verifyBlogPreviewSignature('vysehrad', expires, signature, now)).toBe(true);
+    expect(verifyBlogPreviewSignature('prague-hidden-gems', expires, signature, now)).toBe(false);
+    expect(verifyBlogPreviewSignature('vysehrad', String(Number(expires) + 1), signature, now)).toBe(false);
+    expect(verifyBlogPreviewSignature('vysehrad', expires, signature, Number(expires) + 1)).toBe(false);
+    expect(verifyBlogPreviewSignature('vysehrad', expires, undefined, now)).toBe(false);
+  });
+});
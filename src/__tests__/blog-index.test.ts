@@ -0,0 +1,101 @@
+// Tests for the in-memory blog index that serves the public blog pages
+
+import { describe, it, expect, beforeEach, afterAll, afterEach } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+const contentDir = path.join(os.tmpdir(), `blog-index-test-${process.pid}`);
+process.env.CONTENT_PATH = contentDir;
+
+import { changeBlogStatus, deleteBlogPost, readBlogSource, saveBlogPost } from '@/lib/blog-content';
+import {
+  blogIndex,
+  getAllBlogPosts,
+  getBlogPostBySlug,
+  getBlogPostsByCategory,
+  getRelatedBlogPosts,
+  searchBlogPosts,
+} from '@/lib/blog-index';
+
+const repoBlog = path.join(process.cwd(), 'content', 'blog');
+const blogDir = path.join(contentDir, 'blog');
+const POSTS = ['prague-hidden-gems', 'charles-bridge-legends', 'prague-food-guide'];
+
+describe('blog index', () => {
+  beforeEach(async () => {
+    await fs.rm(contentDir, { recursive: true, force: true });
+    await fs.mkdir(blogDir, { recursive: true });
+    await fs.copyFile(
+      path.join(process.cwd(), 'content', 'content-manifest.json'),
+      path.join(contentDir, 'content-manifest.json')
+    );
+    for (const slug of POSTS) {
+      await fs.copyFile(path.join(repoBlog, `${slug}.mdx`), path.join(blogDir, `${slug}.mdx`));
+    }
+    blogIndex.invalidate();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await fs.rm(contentDir, { recursive: true, force: true });
+  });
+
+  it('should serve live posts newest first with category, related and search lookups', async () => {
+    const posts = await getAllBlogPosts();
+    expect(posts.map(post => post.slug).sort()).toEqual([...POSTS].sort());
+    expect(posts[0].publishedAt >= posts[posts.length - 1].publishedAt).toBe(true);
+
+    const gems = await getBlogPostBySlug('prague-hidden-gems');
+    expect(gems?.content.de).toBe('');
+    expect(await getBlogPostsByCategory(gems!.frontmatter.category)).toContainEqual(gems);
+
+    const related = await getRelatedBlogPosts('prague-hidden-gems', 2);
+    expect(related).toHaveLength(2);
+    expect(related.map(post => post.slug)).not.toContain('prague-hidden-gems');
+
+    const results = await searchBlogPosts('goulash', 'en');
+    expect(results.map(post => post.slug)).toContain('prague-food-guide');
+  });
+
+  it('should update posts in place when they are saved, unpublished or deleted', async () => {
+    await getAllBlogPosts();
+    const readFile = jest.spyOn(fs, 'readFile');
+
+    const source = await readBlogSource('prague-hidden-gems');
+    readFile.mockClear();
+    await saveBlogPost({ ...source!, content: { ...source!.content, fr: 'Texte en français.' } }, { isNew: false });
+    expect((await getBlogPostBySlug('prague-hidden-gems'))?.content.fr).toBe('Texte en français.');
+
+    // Only the saved post is parsed again, not the whole directory
+    const reparsed = readFile.mock.calls.map(([file]) => path.basename(String(file)));
+    expect(reparsed.some(file => file.startsWith('prague-food-guide'))).toBe(false);
+
+    await changeBlogStatus('prague-hidden-gems', 'unpublish');
+    expect(await getBlogPostBySlug('prague-hidden-gems')).toBeNull();
+
+    await deleteBlogPost('prague-food-guide');
+    expect((await getAllBlogPosts()).map(post => post.slug)).toEqual(['charles-bridge-legends']);
+  });
+
+  it('should pick up files changed outside the process after the freshness window', async () => {
+    await getAllBlogPosts();
+
+    const original = await fs.readFile(path.join(repoBlog, 'prague-hidden-gems.mdx'), 'utf-8');
+    await fs.writeFile(path.join(blogDir, 'vysehrad.mdx'), original);
+    await fs.rm(path.join(blogDir, 'prague-food-guide.mdx'));
+
+    // Still within the window, so nothing has been reread yet
+    expect(await getBlogPostBySlug('vysehrad')).toBeNull();
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 10000);
+    expect(await getBlogPostBySlug('vysehrad')).not.toBeNull();
+    expect(await getBlogPostBySlug('prague-food-guide')).toBeNull();
+  });
+});
@@ -1,4 +1,5 @@
 import { BookingValidator } from '@/lib/booking-validation';
+import { getTourConfig } from '@/lib/tour-catalog';
 
 describe('BookingValidator', () => {
   describe('validateBookingDate', () => {
@@ -31,12 +32,12 @@ describe('BookingValidator', () => {
 
   describe('validateGroupSize', () => {
     it('should accept valid group sizes', () => {
-      const result = BookingValidator.validateGroupSize(4, 'prague-castle');
+      const result = BookingValidator.validateGroupSize(4, getTourConfig('prague-castle'));
       expect(result.valid).toBe(true);
     });
 
     it('should reject group sizes exceeding tour maximum', () => {
-      const result = BookingValidator.validateGroupSize(15, 'prague-castle');
+      const result = BookingValidator.validateGroupSize(15, getTourConfig('prague-castle'));
       expect(result.valid).toBe(false);
       expect(result.error).toContain('Maximum group size');
     });
@@ -44,22 +45,22 @@ describe('BookingValidator', () => {
 
   describe('calculateTotalPrice', () => {
     it('should calculate base price correctly', () => {
-      const price = BookingValidator.calculateTotalPrice('prague-castle', 2, '2024-03-15');
+      const price = BookingValidator.calculateTotalPrice(getTourConfig('prague-castle'), 2, '2024-03-15');
       expect(price).toBe(90); // 45 * 2
     });
 
     it('should apply group discount for 4+ people', () => {
-      const price = BookingValidator.calculateTotalPrice('prague-castle', 4, '2024-03-15');
+      const price = BookingValidator.calculateTotalPrice(getTourConfig('prague-castle'), 4, '2024-03-15');
       expect(price).toBe(171); // (45 * 4) * 0.95 = 171
     });
 
     it('should apply group discount for 6+ people', () => {
-      const price = BookingValidator.calculateTotalPrice('prague-castle', 6, '2024-03-15');
+      const price = BookingValidator.calculateTotalPrice(getTourConfig('prague-castle'), 6, '2024-03-15');
       expect(price).toBe(243); // (45 * 6) * 0.9 = 243
     });
 
     it('should apply summer premium', () => {
-      const price = BookingValidator.calculateTotalPrice('prague-castle', 2, '2024-07-15');
+      const price = BookingValidator.calculateTotalPrice(getTourConfig('prague-castle'), 2, '2024-07-15');
       expect(price).toBe(103.5); // (45 * 2) * 1.15 = 103.5
     });
   });
@@ -67,18 +68,23 @@ describe('BookingValidator', () => {
   describe('validateTourAvailability', () => {
     it('should validate Prague Castle availability (Monday-Saturday)', () => {
       // Monday (day 1)
-      const monday = BookingValidator.validateTourAvailability('prague-castle', '2024-03-18');
+      const monday = BookingValidator.validateTourAvailability(getTourConfig('prague-castle'), '2024-03-18');
       expect(monday.valid).toBe(true);
 
       // Sunday (day 0)
-      const sunday = BookingValidator.validateTourAvailability('prague-castle', '2024-03-17');
+      const sunday = BookingValidator.validateTourAvailability(getTourConfig('prague-castle'), '2024-03-17');
       expect(sunday.valid).toBe(false);
     });
 
-    it('should validate Old Town availability (every day)', () => {
+    it('should validate Lesser Town availability (every day)', () => {
       // Sunday (day 0)
-      const sunday = BookingValidator.validateTourAvailability('old-town', '2024-03-17');
+      const sunday = BookingValidator.validateTourAvailability(getTourConfig('lesser-town-castle-district'), '2024-03-17');
       expect(sunday.valid).toBe(true);
     });
+
+    it('should reject unknown tours', () => {
+      const result = BookingValidator.validateTourAvailability(getTourConfig('old-town'), '2024-03-18');
+      expect(result.valid).toBe(false);
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,76 @@
+// Tests for checkout seat holds
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { SeatHoldManager, SeatHoldRequest } from '@/lib/booking-holds';
+
+// Session signing isn't exercised here; jose ships ESM only
+jest.mock('jose', () => ({}));
+
+const slot: SeatHoldRequest = {
+  tourId: 'prague-castle',
+  date: '2030-03-18',
+  startTime: '10:00',
+  groupSize: 4,
+};
+
+describe('SeatHoldManager', () => {
+  let filePath: string;
+  let holds: SeatHoldManager;
+
+  beforeEach(() => {
+    filePath = path.join(os.tmpdir(), `holds-test-${process.pid}-${Date.now()}.json`);
+    holds = new SeatHoldManager(filePath, 60 * 1000);
+  });
+
+  afterEach(async () => {
+    await fs.rm(filePath, { force: true });
+  });
+
+  it('should subtract active holds from availability', async () => {
+    await holds.createHold(slot, 12);
+
+    const [adjusted] = await holds.applyHolds(slot.tourId, slot.date, [
+      { startTime: '10:00', endTime: '13:00', availableSpots: 12, price: 45 },
+    ]);
+    expect(adjusted.availableSpots).toBe(8);
+  });
+
+  it('should not let concurrent checkouts hold the same last seats', async () => {
+    const results = await Promise.allSettled([
+      holds.createHold(slot, 6),
+      holds.createHold(slot, 6),
+    ]);
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+  });
+
+  it('should ignore the customer\'s own hold when booking', async () => {
+    const hold = await holds.createHold(slot, 4);
+
+    const held = await holds.getHeldSpots(slot.tourId, slot.date, hold.id);
+    expect(held['10:00']).toBeUndefined();
+  });
+
+  it('should release holds by payment intent', async () => {
+    const hold = await holds.createHold(slot, 4);
+    await holds.attachPayment(hold.id, 'pi_123');
+
+    const released = await holds.releaseHoldsForPayment('pi_123', 'payment_failed');
+    expect(released.map(h => h.id)).toEqual([hold.id]);
+    expect(await holds.getActiveHold(hold.id)).toBeNull();
+
+    // Seats are free again
+    await expect(holds.createHold(slot, 4)).resolves.toBeDefined();
+  });
+
+  it('should stop counting holds once they expire', async () => {
+    const shortHolds = new SeatHoldManager(filePath, -1);
+    await shortHolds.createHold(slot, 4).catch(() => undefined);
+
+    const held = await shortHolds.getHeldSpots(slot.tourId, slot.date);
+    expect(held).toEqual({});
+  });
+});
@@ -0,0 +1,108 @@
+// Tests for looking up a booking by confirmation code or ID
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+process.env.BOOKING_STORE = 'memory';
+
+import { GET } from '@/app/api/booking/route';
+import { getBookingRepository, StoredBooking } from '@/lib/booking-store';
+
+// Session signing isn't exercised here; jose ships ESM only
+jest.mock('jose', () => ({}));
+
+const mockGetBooking = jest.fn();
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({
+      status: init?.status || 200,
+      body,
+      headers: new Map(),
+    }),
+  },
+}));
+
+jest.mock('@/lib/booking-providers', () => ({
+  getBookingProvider: () => ({
+    name: 'test',
+    getBooking: mockGetBooking,
+  }),
+}));
+
+interface LookupResponse {
+  status: number;
+  body: { booking?: { currency?: string; customerInfo: Record<string, string> } };
+}
+
+async function lookUp(query: string) {
+  const request = { url: `http://localhost/api/booking?${query}` };
+  return GET(request as never) as unknown as Promise<LookupResponse>;
+}
+
+describe('Booking lookup', () => {
+  let booking: StoredBooking;
+
+  beforeAll(async () => {
+    booking = await getBookingRepository().save({
+      provider: 'test',
+      providerBookingId: 'prov_lookup',
+      tourId: 'prague-castle',
+      date: '2030-05-06',
+      startTime: '10:00',
+      groupSize: 2,
+      totalPrice: 90,
+      currency: 'EUR',
+      status: 'confirmed',
+      customerInfo: { firstName: 'Jana', lastName: 'Novak', email: 'jana@example.com', phone: '+420123456789' },
+    });
+  });
+
+  it('should leave contact details and payments out of the response', async () => {
+    const response = await lookUp(`confirmation=${booking.confirmationCode}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.booking).toEqual({
+      id: booking.id,
+      confirmationCode: booking.confirmationCode,
+      tourId: 'prague-castle',
+      date: '2030-05-06',
+      startTime: '10:00',
+      groupSize: 2,
+      totalPrice: 90,
+      currency: 'EUR',
+      status: 'confirmed',
+      customerInfo: { firstName: 'Jana' },
+    });
+  });
+
+  it('should refuse a lookup with an email that does not match', async () => {
+    const matching = await lookUp(`confirmation=${booking.confirmationCode}&email=JANA@example.com`);
+    const other = await lookUp(`confirmation=${booking.confirmationCode}&email=someone@example.com`);
+
+    expect(matching.status).toBe(200);
+    expect(other.status).toBe(403);
+    expect(other.body.booking).toBeUndefined();
+  });
+
+  it('should redact bookings that only the provider knows', async () => {
+    mockGetBooking.mockResolvedValue({
+      success: true,
+      booking: {
+        id: 'prov_only',
+        tourId: 'prague-castle',
+        date: '2030-05-06',
+        startTime: '14:00',
+        groupSize: 3,
+        totalPrice: 135,
+        status: 'confirmed',
+        customerInfo: { firstName: 'Petr', lastName: 'Svoboda', email: 'petr@example.com', phone: '' },
+      },
+    });
+
+    const response = await lookUp('id=prov_only');
+
+    expect(response.status).toBe(200);
+    expect(response.body.booking?.customerInfo).toEqual({ firstName: 'Petr' });
+    expect(response.body.booking?.currency).toBeDefined();
+  });
+});
@@ -0,0 +1,167 @@
+// Tests for paid booking finalization and compensation
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const incidentsFile = path.join(os.tmpdir(), `incidents-test-${process.pid}.json`);
+const holdsFile = path.join(os.tmpdir(), `incidents-holds-test-${process.pid}.json`);
+process.env.BOOKING_STORE = 'memory';
+process.env.INCIDENTS_FILE = incidentsFile;
+
+import {
+  finalizePaidBooking,
+  getIncidents,
+  RECOVERY_CONFIG,
+  PaidBookingRequest,
+  SLOT_TAKEN_ERROR,
+} from '@/lib/booking-recovery';
+import { seatHolds } from '@/lib/booking-holds';
+import { executeRefund } from '@/lib/refunds';
+import { sendBookingFailureEmail } from '@/lib/email-service';
+
+// Session signing isn't exercised here; jose ships ESM only
+jest.mock('jose', () => ({}));
+
+const mockCreateBooking = jest.fn();
+const mockCheckAvailability = jest.fn();
+
+jest.mock('@/lib/booking-providers', () => ({
+  getBookingProvider: () => ({
+    name: 'test',
+    createBooking: mockCreateBooking,
+    checkAvailability: mockCheckAvailability,
+    getBooking: jest.fn(async () => ({ success: false })),
+  }),
+}));
+
+// The shared hold manager picks its file when the module loads, before HOLDS_FILE could be set
+jest.mock('@/lib/booking-holds', () => {
+  const actual = jest.requireActual<typeof import('@/lib/booking-holds')>('@/lib/booking-holds');
+  const { tmpdir } = jest.requireActual<typeof import('os')>('os');
+  return {
+    ...actual,
+    seatHolds: new actual.SeatHoldManager(`${tmpdir()}/incidents-holds-test-${process.pid}.json`),
+  };
+});
+
+jest.mock('@/lib/refunds', () => ({
+  executeRefund: jest.fn(async () => ({
+    success: true,
+    refundId: 're_1',
+    amount: 90,
+    currency: 'eur',
+    status: 'succeeded',
+  })),
+}));
+
+jest.mock('@/lib/email-service', () => ({
+  sendBookingFailureEmail: jest.fn(),
+}));
+
+jest.mock('@/lib/jobs', () => ({
+  scheduleBookingJobs: jest.fn(),
+}));
+
+const bookingData: PaidBookingRequest = {
+  tourId: 'prague-castle',
+  date: '2030-03-18',
+  startTime: '10:00',
+  groupSize: 2,
+  totalPrice: 90,
+  customerInfo: {
+    firstName: 'Jana',
+    lastName: 'Novak',
+    email: 'jana@example.com',
+    phone: '+420123456789',
+  },
+};
+
+const payment = (transactionId: string) => ({
+  method: 'stripe' as const,
+  transactionId,
+  amount: 90,
+  currency: 'eur',
+});
+
+describe('finalizePaidBooking', () => {
+  beforeEach(() => {
+    RECOVERY_CONFIG.baseDelayMs = 0;
+    mockCreateBooking.mockReset();
+    mockCheckAvailability.mockReset();
+    mockCheckAvailability.mockResolvedValue({
+      success: true,
+      availableSlots: [{ startTime: '10:00', availableSpots: 10, maxCapacity: 10 }],
+    });
+    (executeRefund as jest.Mock).mockClear();
+    (sendBookingFailureEmail as jest.Mock).mockClear();
+  });
+
+  afterAll(async () => {
+    await fs.rm(incidentsFile, { force: true });
+    await fs.rm(holdsFile, { force: true });
+  });
+
+  it('should retry the provider and book once per payment', async () => {
+    mockCreateBooking
+      .mockResolvedValueOnce({ success: false, error: 'Timeout' })
+      .mockResolvedValueOnce({ success: true, bookingId: 'prov_1', confirmationCode: 'PRG-TEST' });
+
+    const first = await finalizePaidBooking(bookingData, payment('pi_retry'));
+    expect(first.status).toBe('booked');
+    expect(mockCreateBooking).toHaveBeenCalledTimes(2);
+
+    // Redelivery finds the existing booking instead of booking again
+    const second = await finalizePaidBooking(bookingData, payment('pi_retry'));
+    expect(second.status === 'booked' && second.duplicate).toBe(true);
+    expect(mockCreateBooking).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refund once and record an incident when retries run out', async () => {
+    mockCreateBooking.mockResolvedValue({ success: false, error: 'Slot gone' });
+
+    const [first, concurrent] = await Promise.all([
+      finalizePaidBooking(bookingData, payment('pi_fail')),
+      finalizePaidBooking(bookingData, payment('pi_fail')),
+    ]);
+    const redelivered = await finalizePaidBooking(bookingData, payment('pi_fail'));
+
+    expect(first.status).toBe('failed');
+    expect(concurrent).toBe(first);
+    expect(redelivered.status).toBe('failed');
+    expect(mockCreateBooking).toHaveBeenCalledTimes(RECOVERY_CONFIG.maxAttempts);
+    expect(executeRefund).toHaveBeenCalledTimes(1);
+    expect(sendBookingFailureEmail).toHaveBeenCalledTimes(1);
+
+    const incidents = (await getIncidents()).filter(i => i.payment.transactionId === 'pi_fail');
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0].status).toBe('refunded');
+    expect(incidents[0].customerNotified).toBe(true);
+  });
+
+  it('should refund instead of booking when the slot filled up after the hold expired', async () => {
+    mockCheckAvailability.mockResolvedValue({
+      success: true,
+      availableSlots: [{ startTime: '10:00', availableSpots: 3, maxCapacity: 10 }],
+    });
+    // Another customer is paying for two of the three remaining seats
+    await seatHolds.createHold({ tourId: 'prague-castle', date: '2030-03-18', startTime: '10:00', groupSize: 2 }, 3);
+
+    const outcome = await finalizePaidBooking({ ...bookingData, holdId: 'hold_expired' }, payment('pi_late'));
+
+    expect(outcome.status === 'failed' && outcome.incident.error).toBe(SLOT_TAKEN_ERROR);
+    expect(mockCreateBooking).not.toHaveBeenCalled();
+    expect(executeRefund).toHaveBeenCalledTimes(1);
+  });
+
+  it('should book without re-checking while the hold is still active', async () => {
+    mockCreateBooking.mockResolvedValue({ success: true, bookingId: 'prov_held', confirmationCode: 'PRG-HELD' });
+    const hold = await seatHolds.createHold({ tourId: 'prague-castle', date: '2030-03-18', startTime: '14:00', groupSize: 2 }, 2);
+
+    const outcome = await finalizePaidBooking({ ...bookingData, startTime: '14:00', holdId: hold.id }, payment('pi_held'));
+
+    expect(outcome.status).toBe('booked');
+    expect(mockCheckAvailability).not.toHaveBeenCalled();
+  });
+});
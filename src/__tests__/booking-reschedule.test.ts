@@ -0,0 +1,282 @@
+// Tests for the reschedule route and its price difference payments
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const incidentsFile = path.join(os.tmpdir(), `reschedule-incidents-test-${process.pid}.json`);
+const holdsFile = path.join(os.tmpdir(), `reschedule-holds-test-${process.pid}.json`);
+process.env.BOOKING_STORE = 'memory';
+process.env.INCIDENTS_FILE = incidentsFile;
+
+import { POST } from '@/app/api/booking/reschedule/route';
+import { getBookingRepository, StoredBooking } from '@/lib/booking-store';
+import { BookingValidator } from '@/lib/booking-validation';
+import { executeRefund } from '@/lib/refunds';
+
+// Session signing isn't exercised here; jose ships ESM only
+jest.mock('jose', () => ({}));
+
+const mockCreateIntent = jest.fn();
+const mockRetrieveIntent = jest.fn();
+const mockGetBooking = jest.fn();
+const mockCheckAvailability = jest.fn();
+const mockRescheduleBooking = jest.fn();
+
+jest.mock('stripe', () =>
+  jest.fn().mockImplementation(() => ({
+    paymentIntents: {
+      create: (...args: unknown[]) => mockCreateIntent(...args),
+      retrieve: (...args: unknown[]) => mockRetrieveIntent(...args),
+    },
+  }))
+);
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({ status: init?.status || 200, body }),
+  },
+}));
+
+jest.mock('@/lib/booking-providers', () => ({
+  getBookingProvider: () => ({
+    name: 'test',
+    getBooking: mockGetBooking,
+    checkAvailability: mockCheckAvailability,
+    rescheduleBooking: mockRescheduleBooking,
+  }),
+}));
+
+// The shared hold manager picks its file when the module loads, before HOLDS_FILE could be set
+jest.mock('@/lib/booking-holds', () => {
+  const actual = jest.requireActual<typeof import('@/lib/booking-holds')>('@/lib/booking-holds');
+  const { tmpdir } = jest.requireActual<typeof import('os')>('os');
+  return {
+    ...actual,
+    seatHolds: new actual.SeatHoldManager(`${tmpdir()}/reschedule-holds-test-${process.pid}.json`),
+  };
+});
+
+jest.mock('@/lib/refunds', () => ({
+  REFUND_ESTIMATED_ARRIVAL: '5-10 business days',
+  refundBooking: jest.fn(),
+  executeRefund: jest.fn(async () => ({
+    success: true,
+    refundId: 're_1',
+    amount: 20,
+    currency: 'eur',
+    status: 'succeeded',
+  })),
+}));
+
+jest.mock('@/lib/email-service', () => ({
+  sendBookingRescheduledEmail: jest.fn(),
+  sendBookingFailureEmail: jest.fn(),
+}));
+
+jest.mock('@/lib/jobs', () => ({
+  scheduleBookingJobs: jest.fn(),
+}));
+
+// The next Monday at least `days` ahead, when the tour runs
+function mondayIn(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setDate(date.getDate() + ((8 - date.getDay()) % 7));
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+const currentDate = mondayIn(14);
+const newDate = mondayIn(28);
+
+let requestCount = 0;
+
+// Each request comes from its own address so the rate limiter stays out of the way
+async function reschedule(body: Record<string, unknown>) {
+  const request = {
+    headers: new Map([['x-forwarded-for', `10.0.0.${++requestCount}`]]),
+    json: async () => body,
+  };
+  return POST(request as never) as unknown as Promise<{ status: number; body: Record<string, unknown> }>;
+}
+
+async function saveBooking(): Promise<StoredBooking> {
+  const booking = await getBookingRepository().save({
+    provider: 'test',
+    providerBookingId: `prov_${++requestCount}`,
+    tourId: 'prague-castle',
+    date: currentDate,
+    startTime: '10:00',
+    groupSize: 2,
+    totalPrice: 90,
+    currency: 'EUR',
+    status: 'confirmed',
+    customerInfo: { firstName: 'Jana', lastName: 'Novak', email: 'jana@example.com', phone: '' },
+  });
+
+  mockGetBooking.mockResolvedValue({
+    success: true,
+    booking: {
+      id: booking.providerBookingId,
+      tourId: 'prague-castle',
+      date: currentDate,
+      startTime: '10:00',
+      groupSize: 2,
+      totalPrice: 90,
+      status: 'confirmed',
+      customerInfo: booking.customerInfo,
+    },
+  });
+
+  return booking;
+}
+
+function paidIntent(booking: StoredBooking, id: string, amount = 2000) {
+  return {
+    id,
+    status: 'succeeded',
+    amount,
+    currency: 'eur',
+    metadata: {
+      purpose: 'reschedule',
+      bookingId: booking.id,
+      newDate,
+      newStartTime: '10:00',
+      customerEmail: 'jana@example.com',
+    },
+  };
+}
+
+const moveRequest = (booking: StoredBooking, paymentIntentId?: string) => ({
+  bookingId: booking.id,
+  customerEmail: 'jana@example.com',
+  newDate,
+  newStartTime: '10:00',
+  paymentIntentId,
+});
+
+describe('Reschedule route', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // The new date costs 20 EUR more
+    jest.spyOn(BookingValidator, 'calculateTotalPrice').mockReturnValue(110);
+    mockCheckAvailability.mockResolvedValue({
+      success: true,
+      availableSlots: [{ startTime: '10:00', availableSpots: 10, maxCapacity: 10 }],
+    });
+    mockRescheduleBooking.mockResolvedValue({ success: true });
+    mockCreateIntent.mockResolvedValue({ id: 'pi_new', client_secret: 'pi_new_secret' });
+  });
+
+  afterAll(async () => {
+    await fs.rm(incidentsFile, { force: true });
+    await fs.rm(holdsFile, { force: true });
+  });
+
+  it('should ask for the price difference before moving the booking', async () => {
+    const booking = await saveBooking();
+
+    const response = await reschedule(moveRequest(booking));
+
+    expect(response.status).toBe(402);
+    expect(response.body.requiresPayment).toBe(true);
+    expect(mockCreateIntent).toHaveBeenCalledWith(expect.objectContaining({
+      amount: 2000,
+      currency: 'eur',
+      metadata: expect.objectContaining({ purpose: 'reschedule', bookingId: booking.id }),
+    }));
+    expect(mockRescheduleBooking).not.toHaveBeenCalled();
+  });
+
+  it('should not take a payment for a booking it has no record of', async () => {
+    await saveBooking();
+
+    const response = await reschedule(moveRequest({ id: 'prov_unknown' } as StoredBooking));
+
+    expect(response.status).toBe(409);
+    expect(mockCreateIntent).not.toHaveBeenCalled();
+  });
+
+  it('should move the booking once per payment', async () => {
+    const booking = await saveBooking();
+    mockRetrieveIntent.mockResolvedValue(paidIntent(booking, 'pi_move'));
+
+    const first = await reschedule(moveRequest(booking, 'pi_move'));
+    expect(first.status).toBe(200);
+    expect((await getBookingRepository().findById(booking.id))?.date).toBe(newDate);
+
+    // The same payment again is the confirmation arriving after the webhook, not a second move
+    const second = await reschedule(moveRequest(booking, 'pi_move'));
+    expect(second.status).toBe(200);
+    expect(mockRescheduleBooking).toHaveBeenCalledTimes(1);
+    expect(executeRefund).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a payment already used by another booking', async () => {
+    const booking = await saveBooking();
+    const other = await saveBooking();
+    await getBookingRepository().claimChangePayment(other.id, {
+      method: 'stripe',
+      transactionId: 'pi_used',
+      amount: 20,
+      currency: 'eur',
+    });
+    mockRetrieveIntent.mockResolvedValue(paidIntent(booking, 'pi_used'));
+
+    const response = await reschedule(moveRequest(booking, 'pi_used'));
+
+    expect(response.status).toBe(409);
+    expect(mockRescheduleBooking).not.toHaveBeenCalled();
+    expect(executeRefund).not.toHaveBeenCalled();
+  });
+
+  it('should refund the difference when the provider cannot move the booking', async () => {
+    const booking = await saveBooking();
+    mockRetrieveIntent.mockResolvedValue(paidIntent(booking, 'pi_provider'));
+    mockRescheduleBooking.mockResolvedValue({ success: false, error: 'Provider unavailable' });
+
+    const response = await reschedule(moveRequest(booking, 'pi_provider'));
+
+    expect(response.status).toBe(502);
+    expect(response.body.error).toContain('being refunded');
+    expect(executeRefund).toHaveBeenCalledWith(
+      'stripe',
+      expect.objectContaining({ paymentId: 'pi_provider' }),
+      'eur',
+      'reschedule_pi_provider'
+    );
+    expect((await getBookingRepository().findById(booking.id))?.date).toBe(currentDate);
+  });
+
+  it('should refund the difference when the slot filled up while paying', async () => {
+    const booking = await saveBooking();
+    mockRetrieveIntent.mockResolvedValue(paidIntent(booking, 'pi_full'));
+    mockCheckAvailability.mockResolvedValue({
+      success: true,
+      availableSlots: [{ startTime: '10:00', availableSpots: 1, maxCapacity: 10 }],
+    });
+
+    const response = await reschedule(moveRequest(booking, 'pi_full'));
+
+    expect(response.status).toBe(409);
+    expect(mockRescheduleBooking).not.toHaveBeenCalled();
+    expect(executeRefund).toHaveBeenCalledWith(
+      'stripe',
+      expect.objectContaining({ paymentId: 'pi_full' }),
+      'eur',
+      'reschedule_pi_full'
+    );
+  });
+
+  it('should refund a payment short of the difference', async () => {
+    const booking = await saveBooking();
+    mockRetrieveIntent.mockResolvedValue(paidIntent(booking, 'pi_short', 1000));
+
+    const response = await reschedule(moveRequest(booking, 'pi_short'));
+
+    expect(response.status).toBe(402);
+    expect(mockRescheduleBooking).not.toHaveBeenCalled();
+    expect(executeRefund).toHaveBeenCalledTimes(1);
+  });
+});
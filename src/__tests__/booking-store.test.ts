@@ -0,0 +1,140 @@
+// Tests for the local bookings repository
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import {
+  FileBookingRepository,
+  InMemoryBookingRepository,
+  NewStoredBooking,
+} from '@/lib/booking-store';
+
+function createBooking(overrides: Partial<NewStoredBooking> = {}): NewStoredBooking {
+  return {
+    provider: 'Acuity Scheduling',
+    providerBookingId: '12345',
+    tourId: 'prague-castle',
+    date: '2030-03-15',
+    startTime: '09:00',
+    groupSize: 2,
+    totalPrice: 90,
+    currency: 'EUR',
+    status: 'pending',
+    customerInfo: {
+      firstName: 'John',
+      lastName: 'Doe',
+      email: 'John@Example.com',
+      phone: '+1234567890',
+      country: 'US',
+    },
+    ...overrides,
+  };
+}
+
+describe('Bookings Store', () => {
+  describe('InMemoryBookingRepository', () => {
+    let repo: InMemoryBookingRepository;
+
+    beforeEach(() => {
+      repo = new InMemoryBookingRepository();
+    });
+
+    it('should generate a confirmation code when the provider has none', async () => {
+      const booking = await repo.save(createBooking());
+
+      expect(booking.confirmationCode).toMatch(/^PRG-[A-Z0-9]{8}$/);
+      expect(booking.statusHistory).toHaveLength(1);
+    });
+
+    it('should find bookings by confirmation code case-insensitively', async () => {
+      const saved = await repo.save(createBooking({ confirmationCode: 'ABC123' }));
+
+      const found = await repo.findByConfirmationCode(' abc123 ');
+      expect(found?.id).toBe(saved.id);
+    });
+
+    it('should find bookings by email and provider ID', async () => {
+      await repo.save(createBooking());
+
+      expect(await repo.findByEmail('john@example.com')).toHaveLength(1);
+      expect(await repo.findByProviderBookingId('12345')).not.toBeNull();
+    });
+
+    it('should return bookings within a date range in tour order', async () => {
+      await repo.save(createBooking({ date: '2030-03-20', startTime: '14:00' }));
+      await repo.save(createBooking({ date: '2030-03-10' }));
+      await repo.save(createBooking({ date: '2030-04-01' }));
+
+      const results = await repo.findByDateRange('2030-03-01', '2030-03-31');
+      expect(results.map(b => b.date)).toEqual(['2030-03-10', '2030-03-20']);
+    });
+
+    it('should record status transitions and payment references', async () => {
+      const saved = await repo.save(createBooking());
+
+      await repo.attachPayment(saved.id, {
+        method: 'stripe',
+        transactionId: 'pi_123',
+        amount: 90,
+        currency: 'eur',
+      });
+      const updated = await repo.updateStatus(saved.id, 'cancelled', 'Change of plans');
+
+      expect(updated?.status).toBe('cancelled');
+      expect(updated?.payment?.transactionId).toBe('pi_123');
+      expect(updated?.statusHistory.map(s => s.status)).toEqual(['pending', 'cancelled']);
+    });
+
+    it('should accept each reschedule payment once across all bookings', async () => {
+      const first = await repo.save(createBooking({ providerBookingId: 'a' }));
+      const second = await repo.save(createBooking({ providerBookingId: 'b' }));
+      const payment = { method: 'stripe' as const, transactionId: 'pi_diff', amount: 20, currency: 'eur' };
+
+      expect(await repo.claimChangePayment(first.id, payment)).toBe(true);
+      expect(await repo.claimChangePayment(first.id, payment)).toBe(false);
+      expect(await repo.claimChangePayment(second.id, payment)).toBe(false);
+      expect((await repo.findByPaymentId('pi_diff'))?.id).toBe(first.id);
+    });
+  });
+
+  describe('FileBookingRepository', () => {
+    const filePath = path.join(os.tmpdir(), `bookings-test-${process.pid}.json`);
+
+    afterAll(async () => {
+      await fs.rm(filePath, { force: true });
+    });
+
+    it('should persist bookings across repository instances', async () => {
+      const saved = await new FileBookingRepository(filePath).save(createBooking());
+
+      const found = await new FileBookingRepository(filePath).findByConfirmationCode(
+        saved.confirmationCode
+      );
+      expect(found?.customerInfo.email).toBe('john@example.com');
+    });
+
+    it('should not lose writes made concurrently', async () => {
+      const repo = new FileBookingRepository(filePath);
+
+      await Promise.all(
+        Array.from({ length: 5 }, (_, i) => repo.save(createBooking({ providerBookingId: `c${i}` })))
+      );
+
+      const all = await repo.findByDateRange('2030-01-01', '2030-12-31');
+      expect(all.filter(b => b.providerBookingId?.startsWith('c'))).toHaveLength(5);
+    });
+
+    it('should refuse to overwrite a file it cannot parse', async () => {
+      const corruptPath = path.join(os.tmpdir(), `bookings-corrupt-${process.pid}.json`);
+      await fs.writeFile(corruptPath, '{"bookings": [{"id": "bk_1"');
+
+      try {
+        await expect(new FileBookingRepository(corruptPath).save(createBooking())).rejects.toThrow();
+        expect(await fs.readFile(corruptPath, 'utf-8')).toBe('{"bookings": [{"id": "bk_1"');
+      } finally {
+        await fs.rm(corruptPath, { force: true });
+      }
+    });
+  });
+});
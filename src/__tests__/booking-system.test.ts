@@ -2,6 +2,7 @@
 
 import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
 import { BookingValidator } from '@/lib/booking-validation';
+import { getTourConfig } from '@/lib/tour-catalog';
 import { AcuitySchedulingProvider, PeekProProvider } from '@/lib/booking-providers';
 import { bookingMonitor } from '@/lib/booking-monitoring';
 
@@ -76,31 +77,31 @@ describe('Booking System Integration', () => {
 
     describe('validateGroupSize', () => {
       it('should reject group sizes exceeding tour limits', () => {
-        const result = BookingValidator.validateGroupSize(15, 'prague-castle');
+        const result = BookingValidator.validateGroupSize(15, getTourConfig('prague-castle'));
         expect(result.valid).toBe(false);
         expect(result.error).toContain('Maximum group size');
       });
 
       it('should accept valid group sizes', () => {
-        const result = BookingValidator.validateGroupSize(4, 'prague-castle');
+        const result = BookingValidator.validateGroupSize(4, getTourConfig('prague-castle'));
         expect(result.valid).toBe(true);
       });
     });
 
     describe('calculateTotalPrice', () => {
       it('should calculate base price correctly', () => {
-        const price = BookingValidator.calculateTotalPrice('prague-castle', 2, '2024-03-15');
+        const price = BookingValidator.calculateTotalPrice(getTourConfig('prague-castle'), 2, '2024-03-15');
         expect(price).toBe(90); // 45 * 2
       });
 
       it('should apply group discounts', () => {
-        const price = BookingValidator.calculateTotalPrice('prague-castle', 6, '2024-03-15');
+        const price = BookingValidator.calculateTotalPrice(getTourConfig('prague-castle'), 6, '2024-03-15');
         expect(price).toBe(243); // 45 * 6 * 0.9 (10% discount)
       });
 
       it('should apply seasonal pricing', () => {
-        const summerPrice = BookingValidator.calculateTotalPrice('prague-castle', 2, '2024-07-15');
-        const winterPrice = BookingValidator.calculateTotalPrice('prague-castle', 2, '2024-01-15');
+        const summerPrice = BookingValidator.calculateTotalPrice(getTourConfig('prague-castle'), 2, '2024-07-15');
+        const winterPrice = BookingValidator.calculateTotalPrice(getTourConfig('prague-castle'), 2, '2024-01-15');
         expect(summerPrice).toBeGreaterThan(winterPrice);
       });
     });
@@ -136,7 +137,7 @@ describe('Booking System Integration', () => {
         expect(result.available).toBe(true);
         expect(result.availableSlots).toHaveLength(2);
         expect(result.availableSlots[0].startTime).toBe('09:00');
-        expect(result.maxGroupSize).toBe(8);
+        expect(result.maxGroupSize).toBe(12); // from content/tours/prague-castle.json
       });
 
       it('should handle API errors gracefully', async () => {
@@ -391,7 +392,7 @@ describe('Booking System Integration', () => {
         totalPrice: -10,
       };
 
-      const validation = BookingValidator.validateCompleteBooking(invalidBookingData);
+      const validation = BookingValidator.validateCompleteBooking(invalidBookingData, getTourConfig(invalidBookingData.tourId));
       expect(validation.valid).toBe(false);
       expect(validation.errors.length).toBeGreaterThan(0);
     });
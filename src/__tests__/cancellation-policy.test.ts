@@ -0,0 +1,64 @@
+// Tests for per-tour cancellation policies
+
+import { describe, it, expect } from '@jest/globals';
+import { CancellationPolicy } from '@/types';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  calculateRefund,
+  canChangeBooking,
+  getCancellationTiers,
+  getRefundPercent,
+  resolveCancellationPolicy,
+} from '@/lib/cancellation-policy';
+
+const policy: CancellationPolicy = {
+  minimumNoticeHours: 24,
+  windows: [
+    { minHoursBefore: 72, refundPercent: 100 },
+    { minHoursBefore: 24, refundPercent: 50 },
+  ],
+  depositPercent: 10,
+  weatherRefundPercent: 100,
+  seasonalRules: [
+    {
+      name: 'christmas-markets',
+      startMonth: 12,
+      endMonth: 12,
+      minimumNoticeHours: 48,
+      windows: [{ minHoursBefore: 168, refundPercent: 100 }],
+    },
+  ],
+};
+
+describe('cancellation policy', () => {
+  it('should keep the default 48/24 hour tiers', () => {
+    expect(getRefundPercent(60)).toBe(100);
+    expect(getRefundPercent(30)).toBe(50);
+    expect(getRefundPercent(12)).toBe(0);
+    expect(canChangeBooking(12)).toBe(false);
+
+    expect(getCancellationTiers(DEFAULT_CANCELLATION_POLICY)).toEqual([
+      { timeframe: '48+ hours before tour', refundPercent: 100 },
+      { timeframe: '24-48 hours before tour', refundPercent: 50 },
+      { timeframe: 'Less than 24 hours before tour', refundPercent: 0 },
+    ]);
+  });
+
+  it('should apply seasonal rules on top of the tour policy', () => {
+    const winter = resolveCancellationPolicy(policy, '2030-12-20');
+    expect(winter.minimumNoticeHours).toBe(48);
+    expect(winter.depositPercent).toBe(10);
+    expect(getRefundPercent(100, winter)).toBe(0);
+
+    const spring = resolveCancellationPolicy(policy, '2030-04-20');
+    expect(getRefundPercent(100, spring)).toBe(100);
+  });
+
+  it('should keep the deposit except for weather cancellations', () => {
+    const terms = resolveCancellationPolicy(policy, '2030-04-20');
+
+    expect(calculateRefund(200, 100, terms)).toEqual({ percent: 100, amount: 180, depositRetained: 20 });
+    expect(calculateRefund(200, 30, terms)).toEqual({ percent: 50, amount: 90, depositRetained: 20 });
+    expect(calculateRefund(200, 2, terms, { weather: true })).toEqual({ percent: 100, amount: 200, depositRetained: 0 });
+  });
+});
@@ -13,17 +13,20 @@ const mockTour: Tour = {
   title: {
     en: 'Prague Castle Tour',
     de: 'Prager Burg Tour',
-    fr: 'Visite du Château de Prague'
+    fr: 'Visite du Château de Prague',
+    cs: 'Prohlídka Pražského hradu'
   },
   description: {
     en: 'Explore Prague Castle',
     de: 'Erkunden Sie die Prager Burg',
-    fr: 'Explorez le Château de Prague'
+    fr: 'Explorez le Château de Prague',
+    cs: 'Prozkoumejte Pražský hrad'
   },
   highlights: {
     en: ['Castle grounds', 'St. Vitus Cathedral'],
     de: ['Burggelände', 'St. Veits-Dom'],
-    fr: ['Terrain du château', 'Cathédrale Saint-Guy']
+    fr: ['Terrain du château', 'Cathédrale Saint-Guy'],
+    cs: ['Areál hradu', 'Katedrála svatého Víta']
   },
   duration: 180,
   maxGroupSize: 12,
@@ -33,7 +36,7 @@ const mockTour: Tour = {
   images: [{
     id: 'img1',
     url: '/test-image.jpg',
-    alt: { en: 'Test image', de: 'Testbild', fr: 'Image de test' },
+    alt: { en: 'Test image', de: 'Testbild', fr: 'Image de test', cs: 'Testovací obrázek' },
     width: 400,
     height: 300
   }],
@@ -41,8 +44,8 @@ const mockTour: Tour = {
   availability: [],
   reviews: [],
   seoMetadata: {
-    title: { en: 'Test', de: 'Test', fr: 'Test' },
-    description: { en: 'Test', de: 'Test', fr: 'Test' },
+    title: { en: 'Test', de: 'Test', fr: 'Test', cs: 'Test' },
+    description: { en: 'Test', de: 'Test', fr: 'Test', cs: 'Test' },
     keywords: []
   }
 };
@@ -0,0 +1,161 @@
+// Tests for the outbound email queue and its delivery log
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const outboxFile = path.join(os.tmpdir(), `email-outbox-test-${process.pid}.json`);
+process.env.EMAIL_OUTBOX_FILE = outboxFile;
+process.env.EMAIL_TRANSPORT = 'memory';
+process.env.BOOKING_STORE = 'memory';
+
+import {
+  enqueueEmail,
+  processOutbox,
+  recordEmailBounce,
+  retryEmail,
+  getOutboxEmails,
+  waitForDeliveries,
+  OUTBOX_CONFIG,
+} from '@/lib/email-outbox';
+import { getEmailTransport, InMemoryEmailTransport, PermanentEmailError } from '@/lib/email-transport';
+import { getBookingRepository, NewStoredBooking } from '@/lib/booking-store';
+
+const transport = getEmailTransport() as InMemoryEmailTransport;
+
+const message = {
+  from: { name: 'Filip Kareta - Prague Tours', address: 'noreply@guidefilip-prague.com' },
+  to: 'jana@example.com',
+  subject: 'Booking Confirmed',
+  html: '<p>See you soon</p>',
+  text: 'See you soon',
+};
+
+const newBooking: NewStoredBooking = {
+  provider: 'Local',
+  tourId: 'prague-castle',
+  date: '2030-05-14',
+  startTime: '10:00',
+  groupSize: 2,
+  totalPrice: 110,
+  currency: 'EUR',
+  status: 'confirmed',
+  customerInfo: {
+    firstName: 'Jana',
+    lastName: 'Novak',
+    email: 'jana@example.com',
+    phone: '+420123456789',
+  },
+};
+
+// Enqueue, then let the delivery started in the background finish
+async function send(options: { template: string; bookingId?: string }) {
+  const queued = await enqueueEmail(message, options);
+  await waitForDeliveries();
+  return (await getOutboxEmails()).find(email => email.id === queued.id)!;
+}
+
+describe('email outbox', () => {
+  beforeEach(async () => {
+    jest.restoreAllMocks();
+    transport.clear();
+    await fs.rm(outboxFile, { force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(outboxFile, { force: true });
+  });
+
+  it('should persist a message and deliver it without holding up the caller', async () => {
+    let finishSend: () => void = () => {};
+    const sendFinished = new Promise<void>(resolve => { finishSend = resolve; });
+    jest.spyOn(transport, 'send').mockImplementationOnce(async () => {
+      await sendFinished;
+      return { messageId: 'slow' };
+    });
+
+    // A hanging mail server doesn't keep enqueueEmail from returning
+    const queued = await enqueueEmail(message, { template: 'booking-confirmation' });
+    expect(queued.status).toBe('queued');
+
+    finishSend();
+    await waitForDeliveries();
+    expect((await getOutboxEmails())[0]).toMatchObject({ status: 'sent', messageId: 'slow' });
+  });
+
+  it('should deliver a message right away', async () => {
+    const email = await send({ template: 'booking-confirmation' });
+
+    expect(email.status).toBe('sent');
+    expect(email.messageId).toBe(transport.sent[0].messageId);
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0]).toMatchObject({ to: 'jana@example.com', subject: 'Booking Confirmed' });
+  });
+
+  it('should keep a message queued when the mail server is down instead of throwing', async () => {
+    jest.spyOn(transport, 'send').mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+    const email = await send({ template: 'booking-confirmation' });
+
+    expect(email.status).toBe('queued');
+    expect(email.lastError).toBe('connect ECONNREFUSED');
+    expect(transport.sent).toHaveLength(0);
+
+    // Not due again until the backoff has passed
+    expect((await processOutbox(new Date())).processed).toBe(0);
+
+    const later = new Date(Date.now() + OUTBOX_CONFIG.retryBaseMs + 1000);
+    expect(await processOutbox(later)).toMatchObject({ processed: 1, sent: 1 });
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it('should give up after the last attempt', async () => {
+    jest.spyOn(transport, 'send').mockRejectedValue(new Error('timeout'));
+    await send({ template: 'booking-reminder' });
+
+    let now = Date.now();
+    for (let attempt = 2; attempt <= OUTBOX_CONFIG.maxAttempts; attempt++) {
+      now += 24 * 60 * 60 * 1000;
+      await processOutbox(new Date(now));
+    }
+
+    const [email] = await getOutboxEmails();
+    expect(email.status).toBe('failed');
+    expect(email.attempts).toBe(OUTBOX_CONFIG.maxAttempts);
+  });
+
+  it('should record delivery status and bounces on the booking', async () => {
+    const booking = await getBookingRepository().save(newBooking);
+    const email = await send({ template: 'booking-confirmation', bookingId: booking.id });
+
+    expect((await getBookingRepository().findById(booking.id))?.emails).toEqual([
+      expect.objectContaining({ emailId: email.id, template: 'booking-confirmation', status: 'sent' }),
+    ]);
+
+    await recordEmailBounce(email.messageId!, '550 Mailbox unavailable');
+
+    const [recorded] = (await getBookingRepository().findById(booking.id))!.emails!;
+    expect(recorded).toMatchObject({ status: 'bounced', error: '550 Mailbox unavailable' });
+  });
+
+  it('should mark permanent rejections as bounced without retrying', async () => {
+    jest.spyOn(transport, 'send').mockRejectedValueOnce(new PermanentEmailError('550 No such user'));
+
+    const email = await send({ template: 'review-request' });
+
+    expect(email.status).toBe('bounced');
+    expect((await processOutbox(new Date(Date.now() + 24 * 60 * 60 * 1000))).processed).toBe(0);
+  });
+
+  it('should send a bounced message again on request', async () => {
+    jest.spyOn(transport, 'send').mockRejectedValueOnce(new PermanentEmailError('550 No such user'));
+    const email = await send({ template: 'review-request' });
+
+    const retried = await retryEmail(email.id);
+
+    expect(retried?.status).toBe('sent');
+    expect(transport.sent).toHaveLength(1);
+    expect(await retryEmail(email.id)).toBeNull();
+  });
+});
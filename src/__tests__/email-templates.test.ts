@@ -0,0 +1,75 @@
+// Snapshot tests for the localized transactional email templates
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import {
+  renderEmail,
+  renderInquiryAcknowledgement,
+  getInquiryReplySubject,
+  getEmailLocale,
+  EMAIL_TEMPLATES,
+  EMAIL_LOCALES,
+  SAMPLE_EMAIL_DATA,
+} from '@/lib/email-templates';
+
+describe('email templates', () => {
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_BASE_URL = 'https://guidefilip-prague.com';
+  });
+
+  const cases = EMAIL_TEMPLATES.flatMap(template =>
+    EMAIL_LOCALES.map(locale => [template, locale] as const)
+  );
+
+  it.each(cases)('should render %s in %s', (template, locale) => {
+    const { subject, text } = renderEmail(template, locale, SAMPLE_EMAIL_DATA[template]);
+    expect({ subject, text }).toMatchSnapshot();
+  });
+
+  it('should render the confirmation layout as HTML', () => {
+    const { html } = renderEmail('booking-confirmation', 'en', SAMPLE_EMAIL_DATA['booking-confirmation']);
+    expect(html).toMatchSnapshot();
+  });
+
+  it('should use the tour title and meeting point from the tour content', () => {
+    const { text } = renderEmail('booking-reminder', 'de', SAMPLE_EMAIL_DATA['booking-reminder']);
+
+    expect(text).toContain('Prager Burg: Geschichten von Königen & Legenden');
+    expect(text).toContain('Haupttor der Burg (Hradčanské náměstí)');
+    expect(text).not.toContain('Old Town Square');
+  });
+
+  it('should escape customer input in HTML', () => {
+    const data = SAMPLE_EMAIL_DATA['review-request'];
+    const { html } = renderEmail('review-request', 'en', {
+      ...data,
+      booking: { ...data.booking, firstName: '<script>alert(1)</script>' },
+    });
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+  });
+
+  it('should leave the confirmation code out of the failure email', () => {
+    const { text } = renderEmail('booking-failure', 'en', SAMPLE_EMAIL_DATA['booking-failure']);
+
+    expect(text).toContain('Tuesday, May 14, 2030 at 10:00');
+    expect(text).not.toContain('Booking undefined');
+    expect(text).toContain('Filip Kareta Prague Tours | Prague, Czech Republic\n');
+  });
+
+  it('should acknowledge inquiries in the visitor\'s language', () => {
+    const { subject, text, html } = renderInquiryAcknowledgement('cz', '<b>Jana</b>');
+
+    expect(subject).toBe('Děkuji za vaši zprávu');
+    expect(text).toContain('Dobrý den, <b>Jana</b>,');
+    expect(html).not.toContain('<b>Jana</b>');
+    expect(getInquiryReplySubject('de')).toBe('Re: Vielen Dank für Ihre Nachricht');
+  });
+
+  it('should resolve locale aliases and fall back to English for unknown locales', () => {
+    expect(getEmailLocale('cz')).toBe('cs');
+    expect(getEmailLocale('es')).toBe('en');
+    expect(getEmailLocale(undefined)).toBe('en');
+    expect(getEmailLocale('fr')).toBe('fr');
+  });
+});
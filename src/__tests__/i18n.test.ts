@@ -0,0 +1,64 @@
+// Tests for the locale registry and its agreement with the Paraglide project and message files
+
+import { describe, it, expect } from '@jest/globals';
+import path from 'path';
+import { promises as fs } from 'fs';
+import {
+  DEFAULT_LOCALE,
+  getPathLocale,
+  isLocale,
+  localizePath,
+  LOCALES,
+  negotiateLocale,
+  resolveLocaleAlias,
+  stripLocale,
+} from '@/lib/i18n';
+
+const readJson = async (file: string) => JSON.parse(await fs.readFile(path.join(process.cwd(), file), 'utf-8'));
+
+describe('locale registry', () => {
+  it('should recognise locales and locale prefixes', () => {
+    expect(isLocale('de')).toBe(true);
+    expect(isLocale('cz')).toBe(false);
+    expect(isLocale('toString')).toBe(false);
+
+    expect(getPathLocale('/fr/tours')).toBe('fr');
+    expect(getPathLocale('/tours')).toBeNull();
+    expect(getPathLocale('/english/tours')).toBeNull();
+  });
+
+  it('should move a path between locales', () => {
+    expect(stripLocale('/de/tours/prague-castle')).toBe('/tours/prague-castle');
+    expect(stripLocale('/de')).toBe('/');
+    expect(stripLocale('/tours')).toBe('/tours');
+
+    expect(localizePath('/de/blog/charles-bridge-legends', 'fr')).toBe('/fr/blog/charles-bridge-legends');
+    expect(localizePath('/en', 'de')).toBe('/de');
+    // "/events" starts with "/e" but has no locale prefix
+    expect(localizePath('/events', 'fr')).toBe('/fr/events');
+  });
+
+  it('should send the "cz" alias to Czech', () => {
+    expect(resolveLocaleAlias('/cz/tours/prague-castle')).toBe('/cs/tours/prague-castle');
+    expect(resolveLocaleAlias('/cz')).toBe('/cs');
+    expect(resolveLocaleAlias('/cs/tours')).toBeNull();
+    expect(resolveLocaleAlias('/czech-food')).toBeNull();
+  });
+
+  it('should pick the preferred supported language from Accept-Language', () => {
+    expect(negotiateLocale('de-AT,de;q=0.9,en;q=0.8')).toBe('de');
+    expect(negotiateLocale('es-ES,es;q=0.9,fr;q=0.7,en;q=0.8')).toBe('en');
+    expect(negotiateLocale('ja,fr;q=0.5')).toBe('fr');
+    expect(negotiateLocale('cs-CZ,cs;q=0.9,en;q=0.8')).toBe('cs');
+    expect(negotiateLocale(null)).toBe(DEFAULT_LOCALE);
+  });
+
+  it('should match the Paraglide project and message files', async () => {
+    const settings = await readJson('project.inlang/settings.json');
+    expect(settings.locales).toEqual(LOCALES);
+    expect(settings.baseLocale).toBe(DEFAULT_LOCALE);
+
+    const messageFiles = (await fs.readdir(path.join(process.cwd(), 'messages'))).sort();
+    expect(messageFiles).toEqual(LOCALES.map(locale => `${locale}.json`).sort());
+  });
+});
@@ -0,0 +1,126 @@
+// Tests for contact form spam checks and the inquiry inbox
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const inquiriesFile = path.join(os.tmpdir(), `inquiries-test-${process.pid}.json`);
+process.env.INQUIRIES_FILE = inquiriesFile;
+
+import {
+  detectSpam,
+  createInquiry,
+  answerInquiry,
+  archiveInquiry,
+  getInquiries,
+  MIN_FORM_FILL_MS,
+  FORM_TOKEN_TTL_MS,
+  createFormToken,
+  needsNewFormToken,
+} from '@/lib/inquiries';
+import {
+  sendInquiryNotificationEmail,
+  sendInquiryAcknowledgementEmail,
+  sendInquiryReplyEmail,
+} from '@/lib/email-service';
+
+jest.mock('@/lib/email-service', () => ({
+  sendInquiryNotificationEmail: jest.fn(),
+  sendInquiryAcknowledgementEmail: jest.fn(),
+  sendInquiryReplyEmail: jest.fn(),
+}));
+
+const newInquiry = {
+  name: 'Jana Novak',
+  email: 'Jana@Example.com',
+  message: 'Do you run the castle tour on Sunday mornings?',
+  locale: 'de' as const,
+};
+
+describe('detectSpam', () => {
+  const now = 1_700_000_000_000;
+
+  it('should flag a filled honeypot', () => {
+    expect(detectSpam({ honeypot: 'https://spam.example', formToken: createFormToken(now - 60000) }, now)).toBe('honeypot');
+  });
+
+  it('should flag forms submitted too quickly', () => {
+    expect(detectSpam({ formToken: createFormToken(now - MIN_FORM_FILL_MS + 500) }, now)).toBe('too_fast');
+  });
+
+  it('should flag missing, forged and expired form tokens', () => {
+    const forged = `${now - 60000}.${createFormToken(now).split('.')[1]}`;
+
+    expect(detectSpam({}, now)).toBe('invalid_token');
+    expect(detectSpam({ formToken: forged }, now)).toBe('invalid_token');
+    expect(detectSpam({ formToken: createFormToken(now - FORM_TOKEN_TTL_MS - 1) }, now)).toBe('invalid_token');
+  });
+
+  it('should accept a normal submission', () => {
+    expect(detectSpam({ honeypot: '', formToken: createFormToken(now - 45000) }, now)).toBeNull();
+  });
+
+  it('should ask for a new token when the form went stale rather than treat it as spam', () => {
+    const forged = `${now - 60000}.${createFormToken(now).split('.')[1]}`;
+
+    expect(needsNewFormToken(null, now)).toBe(true);
+    expect(needsNewFormToken(createFormToken(now - FORM_TOKEN_TTL_MS - 1), now)).toBe(true);
+    expect(needsNewFormToken(createFormToken(now - 45000), now)).toBe(false);
+    expect(needsNewFormToken(forged, now)).toBe(false);
+  });
+});
+
+describe('inquiry inbox', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await fs.rm(inquiriesFile, { force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(inquiriesFile, { force: true });
+  });
+
+  it('should store inquiries and send both emails', async () => {
+    const inquiry = await createInquiry(newInquiry);
+
+    expect(inquiry.status).toBe('new');
+    expect(inquiry.email).toBe('jana@example.com');
+    expect(sendInquiryNotificationEmail).toHaveBeenCalledWith(inquiry);
+    expect(sendInquiryAcknowledgementEmail).toHaveBeenCalledWith(inquiry);
+    expect(await getInquiries('new')).toHaveLength(1);
+  });
+
+  it('should keep the inquiry when an email fails', async () => {
+    (sendInquiryAcknowledgementEmail as jest.Mock).mockRejectedValueOnce(new Error('SMTP down'));
+
+    await createInquiry(newInquiry);
+
+    expect(await getInquiries()).toHaveLength(1);
+  });
+
+  it('should email replies and move inquiries through the inbox', async () => {
+    const inquiry = await createInquiry(newInquiry);
+
+    const answered = await answerInquiry(inquiry.id, 'Yes, every Sunday at 10:00.');
+    expect(sendInquiryReplyEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ id: inquiry.id }),
+      'Yes, every Sunday at 10:00.'
+    );
+    expect(answered?.status).toBe('answered');
+    expect(answered?.replies).toHaveLength(1);
+
+    const archived = await archiveInquiry(inquiry.id);
+    expect(archived?.status).toBe('archived');
+    expect(await getInquiries('new')).toHaveLength(0);
+    expect(await answerInquiry('inq_missing', 'Hello')).toBeNull();
+  });
+
+  it('should not mark an inquiry answered when the reply email fails', async () => {
+    const inquiry = await createInquiry(newInquiry);
+    (sendInquiryReplyEmail as jest.Mock).mockRejectedValueOnce(new Error('SMTP down'));
+
+    await expect(answerInquiry(inquiry.id, 'Yes')).rejects.toThrow('SMTP down');
+    expect((await getInquiries())[0].status).toBe('new');
+  });
+});
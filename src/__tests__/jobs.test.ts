@@ -0,0 +1,172 @@
+// Tests for scheduled booking reminders and follow-ups
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const jobsFile = path.join(os.tmpdir(), `jobs-test-${process.pid}.json`);
+process.env.JOBS_FILE = jobsFile;
+process.env.BOOKING_STORE = 'memory';
+
+import {
+  scheduleBookingJobs,
+  cancelBookingJobs,
+  runDueJobs,
+  getJobs,
+  JOB_CONFIG,
+} from '@/lib/jobs';
+import { getBookingRepository, NewStoredBooking } from '@/lib/booking-store';
+import {
+  sendBookingReminderEmail,
+  sendTourDayEmail,
+  sendReviewRequestEmail,
+} from '@/lib/email-service';
+
+jest.mock('@/lib/email-service', () => ({
+  sendBookingReminderEmail: jest.fn(),
+  sendTourDayEmail: jest.fn(),
+  sendReviewRequestEmail: jest.fn(),
+}));
+
+const newBooking: NewStoredBooking = {
+  provider: 'Local',
+  tourId: 'prague-castle',
+  date: '2030-05-14',
+  startTime: '10:00',
+  groupSize: 2,
+  totalPrice: 110,
+  currency: 'EUR',
+  status: 'confirmed',
+  customerInfo: {
+    firstName: 'Jana',
+    lastName: 'Novak',
+    email: 'jana@example.com',
+    phone: '+420123456789',
+  },
+  locale: 'de',
+};
+
+// Local wall-clock time, matching how tour slots are interpreted
+const at = (date: string, time: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+describe('scheduled booking jobs', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await fs.rm(jobsFile, { force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(jobsFile, { force: true });
+  });
+
+  it('should plan a reminder, a morning-of message and a follow-up', async () => {
+    const booking = await getBookingRepository().save(newBooking);
+    const jobs = await scheduleBookingJobs(booking, at('2030-05-01', '12:00'));
+
+    expect(jobs.map(job => [job.type, job.runAt])).toEqual([
+      ['booking-reminder', at('2030-05-13', '10:00').toISOString()],
+      ['tour-day', at('2030-05-14', '08:00').toISOString()],
+      // 3 hour tour plus the follow-up delay
+      ['review-request', at('2030-05-14', '16:00').toISOString()],
+    ]);
+  });
+
+  it('should not schedule the same jobs twice', async () => {
+    const booking = await getBookingRepository().save(newBooking);
+    await scheduleBookingJobs(booking, at('2030-05-01', '12:00'));
+    await scheduleBookingJobs(booking, at('2030-05-01', '12:05'));
+
+    expect(await getJobs({ bookingId: booking.id })).toHaveLength(3);
+  });
+
+  it('should skip jobs whose time has already passed', async () => {
+    const booking = await getBookingRepository().save(newBooking);
+    const jobs = await scheduleBookingJobs(booking, at('2030-05-14', '07:00'));
+
+    expect(jobs.map(job => job.type)).toEqual(['tour-day', 'review-request']);
+  });
+
+  it('should send each due job exactly once', async () => {
+    const booking = await getBookingRepository().save(newBooking);
+    await scheduleBookingJobs(booking, at('2030-05-01', '12:00'));
+
+    const summary = await runDueJobs(at('2030-05-13', '10:05'));
+    await runDueJobs(at('2030-05-13', '10:10'));
+
+    expect(summary).toMatchObject({ processed: 1, completed: 1 });
+    expect(sendBookingReminderEmail).toHaveBeenCalledTimes(1);
+    expect(sendTourDayEmail).not.toHaveBeenCalled();
+
+    await runDueJobs(at('2030-05-14', '17:00'));
+
+    expect(sendTourDayEmail).not.toHaveBeenCalled(); // the tour had started by then
+    expect(sendReviewRequestEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ id: booking.id }),
+      expect.stringMatching(new RegExp(`/de/reviews/write\\?booking=${booking.id}&expires=\\d+&signature=[a-f0-9]{64}$`))
+    );
+  });
+
+  it('should retry failed jobs with backoff and give up after the last attempt', async () => {
+    (sendBookingReminderEmail as jest.Mock).mockRejectedValue(new Error('SMTP down'));
+    const booking = await getBookingRepository().save(newBooking);
+    await scheduleBookingJobs(booking, at('2030-05-01', '12:00'));
+
+    let now = at('2030-05-13', '10:00');
+    const first = await runDueJobs(now);
+    expect(first.retried).toBe(1);
+
+    const [retry] = await getJobs({ status: 'pending' });
+    expect(retry.runAt).toBe(new Date(now.getTime() + JOB_CONFIG.retryBaseMs).toISOString());
+
+    for (let attempt = 2; attempt <= JOB_CONFIG.maxAttempts; attempt++) {
+      now = new Date(now.getTime() + 3 * 60 * 60 * 1000);
+      await runDueJobs(now);
+    }
+
+    const [failed] = await getJobs({ status: 'failed' });
+    expect(failed.type).toBe('booking-reminder');
+    expect(failed.attempts).toBe(JOB_CONFIG.maxAttempts);
+    expect(failed.lastError).toBe('SMTP down');
+  });
+
+  it('should cancel pending jobs when the booking is cancelled', async () => {
+    const booking = await getBookingRepository().save(newBooking);
+    await scheduleBookingJobs(booking, at('2030-05-01', '12:00'));
+
+    expect(await cancelBookingJobs(booking.id, 'Booking cancelled')).toBe(3);
+
+    await runDueJobs(at('2030-05-20', '12:00'));
+    expect(sendBookingReminderEmail).not.toHaveBeenCalled();
+    expect(sendReviewRequestEmail).not.toHaveBeenCalled();
+  });
+
+  it('should replace the plan when a booking is rescheduled', async () => {
+    const repo = getBookingRepository();
+    const booking = await repo.save(newBooking);
+    await scheduleBookingJobs(booking, at('2030-05-01', '12:00'));
+
+    const moved = await repo.reschedule(booking.id, { date: '2030-05-20', startTime: '14:00', totalPrice: 110 });
+    await scheduleBookingJobs(moved!, at('2030-05-02', '12:00'));
+
+    expect(await getJobs({ bookingId: booking.id, status: 'cancelled' })).toHaveLength(3);
+    expect((await getJobs({ bookingId: booking.id, status: 'pending' })).map(job => job.slot))
+      .toEqual(['2030-05-20 14:00', '2030-05-20 14:00', '2030-05-20 14:00']);
+  });
+
+  it('should skip jobs for a booking that changed since they were planned', async () => {
+    const repo = getBookingRepository();
+    const booking = await repo.save(newBooking);
+    await scheduleBookingJobs(booking, at('2030-05-01', '12:00'));
+    await repo.updateStatus(booking.id, 'cancelled');
+
+    const summary = await runDueJobs(at('2030-05-13', '10:05'));
+
+    expect(summary.cancelled).toBe(1);
+    expect(sendBookingReminderEmail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+// Tests for the built-in local booking provider
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { LocalBookingProvider, CreateBookingRequest } from '@/lib/booking-providers';
+
+// Monday - prague-castle runs at 10:00 and 14:00, max 12 people, 2 bookings per slot
+const MONDAY = '2030-03-18';
+
+function createRequest(overrides: Partial<CreateBookingRequest> = {}): CreateBookingRequest {
+  return {
+    tourId: 'prague-castle',
+    date: MONDAY,
+    startTime: '10:00',
+    groupSize: 2,
+    totalPrice: 90,
+    customerInfo: {
+      firstName: 'John',
+      lastName: 'Doe',
+      email: 'john@example.com',
+      phone: '+1234567890',
+      country: 'US',
+    },
+    ...overrides,
+  };
+}
+
+describe('LocalBookingProvider', () => {
+  let filePath: string;
+  let provider: LocalBookingProvider;
+
+  beforeEach(() => {
+    filePath = path.join(os.tmpdir(), `local-inventory-${process.pid}-${Date.now()}.json`);
+    provider = new LocalBookingProvider(filePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(filePath, { force: true });
+  });
+
+  it('should compute slots from the tour availability rules', async () => {
+    const result = await provider.checkAvailability('prague-castle', new Date(MONDAY));
+
+    expect(result.available).toBe(true);
+    expect(result.availableSlots.map(s => s.startTime)).toEqual(['10:00', '14:00']);
+    expect(result.availableSlots[0].availableSpots).toBe(12);
+    expect(result.availableSlots[0].endTime).toBe('13:00');
+  });
+
+  it('should have no slots on days the tour does not run', async () => {
+    const result = await provider.checkAvailability('prague-castle', new Date('2030-03-17'));
+    expect(result.available).toBe(false);
+  });
+
+  it('should decrement remaining spots and reject departures that do not exist', async () => {
+    const booking = await provider.createBooking(createRequest({ groupSize: 5 }));
+    expect(booking.success).toBe(true);
+    expect(booking.confirmationCode).toMatch(/^PRG-/);
+
+    const result = await provider.checkAvailability('prague-castle', new Date(MONDAY));
+    expect(result.availableSlots[0].availableSpots).toBe(7);
+
+    const invalid = await provider.createBooking(createRequest({ startTime: '11:00' }));
+    expect(invalid.success).toBe(false);
+  });
+
+  it('should never oversell a slot under concurrent bookings', async () => {
+    const results = await Promise.all(
+      Array.from({ length: 4 }, () => provider.createBooking(createRequest({ groupSize: 5 })))
+    );
+
+    // 12 spots and 2 bookings per slot - only two groups of 5 fit
+    expect(results.filter(r => r.success)).toHaveLength(2);
+
+    const result = await provider.checkAvailability('prague-castle', new Date(MONDAY));
+    expect(result.availableSlots.map(s => s.startTime)).toEqual(['14:00']);
+  });
+
+  it('should restore spots when a booking is cancelled', async () => {
+    const booking = await provider.createBooking(createRequest({ groupSize: 12 }));
+
+    const full = await provider.checkAvailability('prague-castle', new Date(MONDAY));
+    expect(full.availableSlots.map(s => s.startTime)).toEqual(['14:00']);
+
+    const cancellation = await provider.cancelBooking(booking.bookingId!);
+    expect(cancellation.success).toBe(true);
+    expect((await provider.getBooking(booking.bookingId!)).booking?.status).toBe('cancelled');
+
+    const restored = await provider.checkAvailability('prague-castle', new Date(MONDAY));
+    expect(restored.availableSlots[0].availableSpots).toBe(12);
+
+    const again = await provider.cancelBooking(booking.bookingId!);
+    expect(again.success).toBe(false);
+  });
+
+  it('should move spots to the new slot when rescheduling', async () => {
+    const booking = await provider.createBooking(createRequest({ groupSize: 8 }));
+
+    const moved = await provider.rescheduleBooking(booking.bookingId!, {
+      date: MONDAY,
+      startTime: '14:00',
+      totalPrice: 360,
+    });
+    expect(moved.success).toBe(true);
+    expect(moved.booking?.startTime).toBe('14:00');
+
+    const result = await provider.checkAvailability('prague-castle', new Date(MONDAY));
+    expect(result.availableSlots.map(s => s.availableSpots)).toEqual([12, 4]);
+
+    // Only 4 spots left at 14:00
+    const other = await provider.createBooking(createRequest({ groupSize: 6 }));
+    const blocked = await provider.rescheduleBooking(other.bookingId!, {
+      date: MONDAY,
+      startTime: '14:00',
+      totalPrice: 243,
+    });
+    expect(blocked.success).toBe(false);
+    expect((await provider.getBooking(other.bookingId!)).booking?.startTime).toBe('10:00');
+  });
+
+  it('should keep the spots when rescheduling to the same slot', async () => {
+    const booking = await provider.createBooking(createRequest({ groupSize: 8 }));
+
+    const same = await provider.rescheduleBooking(booking.bookingId!, {
+      date: MONDAY,
+      startTime: '10:00',
+      totalPrice: 360,
+    });
+    expect(same.success).toBe(true);
+
+    const result = await provider.checkAvailability('prague-castle', new Date(MONDAY));
+    expect(result.availableSlots.map(s => s.availableSpots)).toEqual([4, 12]);
+  });
+});
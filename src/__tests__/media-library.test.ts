@@ -0,0 +1,95 @@
+// Tests for media uploads with responsive derivatives, per-locale text and usage tracking
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+
+const rootDir = path.join(os.tmpdir(), `media-library-test-${process.pid}`);
+process.env.CONTENT_PATH = path.join(rootDir, 'content');
+process.env.MEDIA_PATH = path.join(rootDir, 'media');
+
+import { generateResponsiveSrcSet, MEDIA_DERIVATIVE_WIDTHS } from '@/lib/cdn';
+import {
+  deleteMediaFile,
+  listMediaFiles,
+  MediaInUseError,
+  saveMediaUpload,
+  updateMediaText,
+} from '@/lib/media-library';
+
+async function uploadPng(width: number) {
+  const buffer = await sharp({
+    create: { width, height: Math.round(width / 2), channels: 3, background: '#336699' },
+  }).png().toBuffer();
+
+  return saveMediaUpload({ buffer, originalName: 'Old Town Square.png', mimeType: 'image/png', optimize: true });
+}
+
+describe('media library', () => {
+  beforeEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+    await fs.mkdir(path.join(rootDir, 'content', 'blog'), { recursive: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should write AVIF and WebP derivatives with a placeholder and dominant color', async () => {
+    const file = await uploadPng(800);
+
+    expect(file.name).toMatch(/^old-town-square-\d+\.png$/);
+    expect(file.dimensions).toEqual({ width: 800, height: 400 });
+    expect(file.derivatives).toHaveLength(MEDIA_DERIVATIVE_WIDTHS.length * 2);
+    expect(file.placeholder).toMatch(/^data:image\/webp;base64,/);
+    expect(file.dominantColor).toMatch(/^#[0-9a-f]{6}$/);
+
+    // Derivatives are never upscaled past the original
+    const widest = file.derivatives!.find(derivative => derivative.width === 1920 && derivative.format === 'avif')!;
+    expect(widest.url).toBe(file.url.replace(/\.png$/, '-1920.avif'));
+    expect((await sharp(path.join(rootDir, 'media', path.basename(widest.url))).metadata()).width).toBe(800);
+
+    const small = file.derivatives!.find(derivative => derivative.width === 400 && derivative.format === 'webp')!;
+    expect((await sharp(path.join(rootDir, 'media', path.basename(small.url))).metadata()).width).toBe(400);
+  });
+
+  it('should build the srcset from stored derivatives and fall back to the original', async () => {
+    const file = await uploadPng(800);
+
+    const srcSet = generateResponsiveSrcSet(file.url, [320, 640], 'avif', file.derivatives);
+    expect(srcSet).toBe(`${file.url.replace(/\.png$/, '-320.avif')} 320w, ${file.url.replace(/\.png$/, '-640.avif')} 640w`);
+    expect(generateResponsiveSrcSet(file.url, [320, 640], 'avif', [])).toBe(file.url);
+  });
+
+  it('should store alt text and captions per locale', async () => {
+    const file = await uploadPng(320);
+
+    const updated = await updateMediaText(file.id, {
+      alt: { en: 'Old Town Square at dusk', de: 'Altstädter Ring in der Dämmerung', fr: '' },
+      caption: {},
+    });
+
+    expect(updated?.alt).toEqual({ en: 'Old Town Square at dusk', de: 'Altstädter Ring in der Dämmerung' });
+    expect((await listMediaFiles())[0].alt?.de).toBe('Altstädter Ring in der Dämmerung');
+    expect(await updateMediaText('missing', { alt: {}, caption: {} })).toBeNull();
+  });
+
+  it('should block deleting files that content still references', async () => {
+    const file = await uploadPng(320);
+    const derivative = file.derivatives![0].url;
+    const postPath = path.join(rootDir, 'content', 'blog', 'old-town.de.mdx');
+    await fs.writeFile(postPath, `![Platz](${derivative})\n`);
+
+    const [listed] = await listMediaFiles();
+    expect(listed.usage).toEqual([{ type: 'blog', id: 'old-town', label: 'Blog post: old-town' }]);
+    await expect(deleteMediaFile(file.id)).rejects.toThrow(MediaInUseError);
+
+    await fs.rm(postPath);
+    expect(await deleteMediaFile(file.id)).toBe(true);
+    expect(await fs.readdir(path.join(rootDir, 'media'))).toEqual([]);
+    expect(await listMediaFiles()).toEqual([]);
+    expect(await deleteMediaFile(file.id)).toBe(false);
+  });
+});
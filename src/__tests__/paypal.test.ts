@@ -0,0 +1,119 @@
+// Tests for PayPal order verification and webhook signatures against the local mock server
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  confirmPayPalOrder,
+  getPayPalExpectation,
+  verifyPayPalWebhookSignature,
+} from '@/lib/paypal';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { createMockPayPalServer, MOCK_WEBHOOK_SIGNATURE } = require('../../scripts/mock-paypal-server');
+
+// jsdom has no network fetch - forward requests to the mock server over http
+const httpFetch = (url: string, init: RequestInit = {}) =>
+  new Promise<Response>((resolve, reject) => {
+    const request = http.request(url, {
+      method: init.method || 'GET',
+      headers: init.headers as Record<string, string>,
+    }, response => {
+      let body = '';
+      response.on('data', chunk => { body += chunk; });
+      response.on('end', () => resolve({
+        ok: (response.statusCode || 500) < 300,
+        status: response.statusCode,
+        json: async () => JSON.parse(body),
+      } as Response));
+    });
+    request.on('error', reject);
+    request.end(init.body as string | undefined);
+  });
+
+const booking = {
+  tourId: 'prague-castle',
+  date: '2030-03-18',
+  startTime: '10:00',
+  groupSize: 2,
+};
+
+describe('PayPal integration', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  const createApprovedOrder = async (value: string, referenceId: string) => {
+    const response = await httpFetch(`${baseUrl}/v2/checkout/orders`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        intent: 'CAPTURE',
+        purchase_units: [{ reference_id: referenceId, amount: { currency_code: 'EUR', value } }],
+      }),
+    });
+    const order = await response.json();
+    await httpFetch(`${baseUrl}/mock/orders/${order.id}/approve`, { method: 'POST' });
+    return order.id as string;
+  };
+
+  beforeAll(async () => {
+    server = createMockPayPalServer();
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    process.env.PAYPAL_API_BASE_URL = baseUrl;
+    process.env.PAYPAL_WEBHOOK_ID = 'WH-TEST';
+  });
+
+  beforeEach(() => {
+    (fetch as jest.Mock).mockImplementation(httpFetch as never);
+  });
+
+  afterAll(async () => {
+    delete process.env.PAYPAL_API_BASE_URL;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should capture an approved order that matches the booking', async () => {
+    const expected = getPayPalExpectation(booking);
+    const orderId = await createApprovedOrder(expected.amount.toFixed(2), expected.referenceId);
+
+    const verification = await confirmPayPalOrder(orderId, expected);
+    expect(verification.valid).toBe(true);
+    expect(verification.capture?.status).toBe('COMPLETED');
+
+    // Confirming again sees the completed order without capturing twice
+    const repeated = await confirmPayPalOrder(orderId, expected);
+    expect(repeated.capture?.id).toBe(verification.capture?.id);
+  });
+
+  it('should reject orders with a different amount or reference', async () => {
+    const expected = getPayPalExpectation(booking);
+
+    const cheapOrder = await createApprovedOrder('1.00', expected.referenceId);
+    expect((await confirmPayPalOrder(cheapOrder, expected)).error).toBe('PayPal payment amount mismatch');
+
+    const otherOrder = await createApprovedOrder(expected.amount.toFixed(2), 'other-tour');
+    expect((await confirmPayPalOrder(otherOrder, expected)).error).toBe('PayPal order does not match this booking');
+
+    // Neither was captured, so the buyer was never charged
+    for (const orderId of [cheapOrder, otherOrder]) {
+      const order = await (await httpFetch(`${baseUrl}/v2/checkout/orders/${orderId}`)).json();
+      expect(order.status).toBe('APPROVED');
+    }
+  });
+
+  it('should verify webhook signatures with PayPal', async () => {
+    const headers = (signature: string) => new Headers({
+      'paypal-auth-algo': 'SHA256withRSA',
+      'paypal-cert-url': 'https://api.paypal.com/cert.pem',
+      'paypal-transmission-id': 'tx-1',
+      'paypal-transmission-sig': signature,
+      'paypal-transmission-time': new Date().toISOString(),
+    });
+    const event = { id: 'WH-EVENT-1', event_type: 'PAYMENT.CAPTURE.COMPLETED' };
+
+    expect(await verifyPayPalWebhookSignature(headers(MOCK_WEBHOOK_SIGNATURE), event)).toBe(true);
+    expect(await verifyPayPalWebhookSignature(headers('forged'), event)).toBe(false);
+  });
+});
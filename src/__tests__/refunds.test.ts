@@ -0,0 +1,134 @@
+// Tests for cancellation refunds and the retry queue
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const queueFile = path.join(os.tmpdir(), `refund-queue-test-${process.pid}.json`);
+process.env.BOOKING_STORE = 'memory';
+process.env.REFUND_QUEUE_FILE = queueFile;
+
+import { getBookingRepository, StoredBooking } from '@/lib/booking-store';
+import { refundBooking, getRefundQueue, retryQueuedRefund, getRefundableAmount } from '@/lib/refunds';
+import { sendRefundConfirmationEmail } from '@/lib/email-service';
+
+jest.mock('@/lib/email-service', () => ({
+  sendRefundConfirmationEmail: jest.fn(),
+}));
+
+const jsonResponse = (body: unknown, ok = true) =>
+  ({ ok, status: ok ? 200 : 500, json: async () => body }) as Response;
+
+// Token, order lookup, then the refund call itself
+const mockPayPal = (refundResponse: Response) => {
+  (fetch as jest.Mock)
+    .mockResolvedValueOnce(jsonResponse({ access_token: 'token' }))
+    .mockResolvedValueOnce(jsonResponse({
+      purchase_units: [{ payments: { captures: [{ id: 'CAPTURE-1' }] } }],
+    }))
+    .mockResolvedValueOnce(refundResponse);
+};
+
+describe('refundBooking', () => {
+  let booking: StoredBooking;
+
+  beforeAll(() => {
+    process.env.PAYPAL_CLIENT_ID = 'client';
+    process.env.PAYPAL_CLIENT_SECRET = 'secret';
+  });
+
+  beforeEach(async () => {
+    (fetch as jest.Mock).mockReset();
+    (sendRefundConfirmationEmail as jest.Mock).mockClear();
+
+    booking = await getBookingRepository().save({
+      provider: 'local',
+      confirmationCode: `PRG-${Date.now()}`,
+      tourId: 'prague-castle',
+      date: '2030-03-18',
+      startTime: '10:00',
+      groupSize: 2,
+      totalPrice: 100,
+      currency: 'EUR',
+      status: 'cancelled',
+      customerInfo: {
+        firstName: 'Jana',
+        lastName: 'Novak',
+        email: 'jana@example.com',
+        phone: '+420123456789',
+      },
+      payment: {
+        method: 'paypal',
+        transactionId: 'ORDER-1',
+        amount: 100,
+        currency: 'eur',
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await fs.rm(queueFile, { force: true });
+  });
+
+  it('should refund the capture and record it on the booking', async () => {
+    mockPayPal(jsonResponse({ id: 'REFUND-1', status: 'COMPLETED', amount: { value: '50.00', currency_code: 'EUR' } }));
+
+    const refund = await refundBooking(booking, 50, 'Change of plans');
+
+    expect(refund?.status).toBe('succeeded');
+    expect((fetch as jest.Mock).mock.calls[2][0]).toContain('/v2/payments/captures/CAPTURE-1/refund');
+    expect(sendRefundConfirmationEmail).toHaveBeenCalledTimes(1);
+
+    const stored = await getBookingRepository().findById(booking.id);
+    expect(stored?.refunds).toHaveLength(1);
+    expect(getRefundableAmount(stored!)).toBe(50);
+  });
+
+  it('should queue failed refunds and retry them', async () => {
+    mockPayPal(jsonResponse({ message: 'Service unavailable' }, false));
+
+    const refund = await refundBooking(booking, 100, 'Change of plans');
+    expect(refund?.status).toBe('failed');
+    expect(sendRefundConfirmationEmail).not.toHaveBeenCalled();
+
+    const entry = (await getRefundQueue()).find(e => e.bookingId === booking.id);
+    expect(entry?.status).toBe('failed');
+
+    mockPayPal(jsonResponse({ id: 'REFUND-2', status: 'COMPLETED' }));
+    const retried = await retryQueuedRefund(entry!.id);
+
+    expect(retried?.status).toBe('succeeded');
+    expect(retried?.attempts).toBe(2);
+
+    // Both attempts carry the queue entry ID, so PayPal refunds at most once
+    const requestIds = (fetch as jest.Mock).mock.calls
+      .filter(([url]) => String(url).endsWith('/refund'))
+      .map(([, init]) => (init as RequestInit & { headers: Record<string, string> }).headers['PayPal-Request-Id']);
+    expect(requestIds).toEqual([entry!.id, entry!.id]);
+
+    const stored = await getBookingRepository().findById(booking.id);
+    expect(stored?.refunds?.[0].status).toBe('succeeded');
+    expect(stored?.refunds?.[0].providerRefundId).toBe('REFUND-2');
+  });
+
+  it('should call the provider once when the same entry is retried twice at once', async () => {
+    mockPayPal(jsonResponse({ message: 'Service unavailable' }, false));
+    await refundBooking(booking, 100, 'Change of plans');
+    const entry = (await getRefundQueue()).find(e => e.bookingId === booking.id);
+
+    mockPayPal(jsonResponse({ id: 'REFUND-3', status: 'COMPLETED' }));
+    const [first, second] = await Promise.all([retryQueuedRefund(entry!.id), retryQueuedRefund(entry!.id)]);
+
+    expect([first?.status, second?.status].sort()).toEqual(['processing', 'succeeded']);
+    expect((fetch as jest.Mock).mock.calls.filter(([url]) => String(url).endsWith('/refund'))).toHaveLength(2);
+    expect((await retryQueuedRefund(entry!.id))?.attempts).toBe(2);
+  });
+
+  it('should skip bookings without a payment', async () => {
+    const unpaid = await getBookingRepository().save({ ...booking, payment: undefined });
+
+    expect(await refundBooking(unpaid, 50, 'Change of plans')).toBeNull();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
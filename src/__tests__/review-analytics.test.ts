@@ -0,0 +1,103 @@
+// Tests for review rating trends, sentiment, themes and low-rating alerts
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildReviewAnalytics,
+  calculateRatingTrend,
+  classifySentiment,
+  findRatingAlerts,
+  findReviewThemes,
+  scoreSentiment,
+} from '@/lib/review-analytics';
+import type { Review } from '@/types';
+
+let nextId = 0;
+const review = (overrides: Partial<Review>): Review => ({
+  id: `review-${++nextId}`,
+  tourId: 'prague-castle',
+  customerName: 'Guest',
+  rating: 5,
+  comment: 'A lovely morning',
+  date: new Date('2024-05-01T10:00:00Z'),
+  source: 'google',
+  verified: true,
+  ...overrides,
+});
+
+describe('review analytics', () => {
+  it('should build monthly trends with a rolling average', () => {
+    const trend = calculateRatingTrend([
+      review({ rating: 3, date: new Date('2024-04-20T10:00:00Z') }),
+      review({ rating: 5, date: new Date('2024-03-02T10:00:00Z') }),
+      review({ rating: 4, date: new Date('2024-04-02T10:00:00Z') }),
+    ]);
+
+    expect(trend).toEqual([
+      { period: '2024-03', count: 1, averageRating: 5, rollingAverage: 5 },
+      { period: '2024-04', count: 2, averageRating: 3.5, rollingAverage: 4 },
+    ]);
+  });
+
+  it('should score sentiment across languages and handle negation', () => {
+    expect(classifySentiment(scoreSentiment('Amazing tour, Filip is a fantastic storyteller'))).toBe('positive');
+    expect(classifySentiment(scoreSentiment('Leider etwas langweilig und zu teuer'))).toBe('negative');
+    expect(classifySentiment(scoreSentiment('Une visite magnifique, je recommande'))).toBe('positive');
+    expect(classifySentiment(scoreSentiment('The tour was not great'))).toBe('negative');
+    expect(scoreSentiment('We met at ten')).toBe(0);
+  });
+
+  it('should find recurring praise and complaints', () => {
+    const { praise, complaints } = findReviewThemes([
+      review({ comment: 'Great stories about the castle', rating: 5 }),
+      review({ comment: 'Filip is a wonderful storyteller', rating: 5, tourId: 'old-town-jewish-quarter' }),
+      review({ comment: 'Tolle Geschichten, aber zu lang', rating: 4 }),
+      review({ comment: 'The history was interesting but it felt too long', rating: 3 }),
+    ]);
+
+    expect(praise[0]).toMatchObject({
+      id: 'great-stories',
+      mentions: 3,
+      averageRating: 4.7,
+      byTour: { 'prague-castle': 2, 'old-town-jewish-quarter': 1 },
+    });
+    expect(complaints.map(theme => [theme.id, theme.mentions])).toEqual([['too-long', 2]]);
+  });
+
+  it('should alert when a tour\'s recent ratings drop below the threshold', () => {
+    const reviews = [
+      ...[5, 5, 5, 5].map((rating, i) => review({ rating, date: new Date(Date.UTC(2024, 0, i + 1)) })),
+      ...[5, 3, 3, 4].map((rating, i) => review({
+        rating,
+        tourId: 'lesser-town',
+        date: new Date(Date.UTC(2024, 1, i + 1)),
+      })),
+      // Not tied to a tour
+      review({ rating: 1, tourId: 'general' }),
+      review({ rating: 1, tourId: 'general' }),
+      review({ rating: 1, tourId: 'general' }),
+    ];
+
+    expect(findRatingAlerts(reviews)).toEqual([{
+      tourId: 'lesser-town',
+      rollingAverage: 3.8,
+      reviewCount: 4,
+      threshold: 4.2,
+      latestReviewAt: '2024-02-04T00:00:00.000Z',
+    }]);
+    expect(findRatingAlerts(reviews, 3.5)).toEqual([]);
+  });
+
+  it('should bundle trends by tour and source with key phrases', () => {
+    const analytics = buildReviewAnalytics([
+      review({ comment: 'Amazing guide, hidden gems everywhere', source: 'tripadvisor' }),
+      review({ comment: 'Fantastic walk with hidden gems and great humour' }),
+      review({ comment: 'Disappointing, the group was larger than promised', rating: 2 }),
+    ]);
+
+    expect(Object.keys(analytics.trends.byTour)).toEqual(['prague-castle']);
+    expect(Object.keys(analytics.trends.bySource).sort()).toEqual(['google', 'tripadvisor']);
+    expect(analytics.sentiment).toMatchObject({ positive: 2, neutral: 0, negative: 1 });
+    expect(analytics.phrases.positive).toEqual([{ phrase: 'hidden gems', mentions: 2 }]);
+    expect(analytics.themes.complaints.map(theme => theme.id)).toEqual(['group-size']);
+  });
+});
@@ -0,0 +1,179 @@
+// Tests for review providers against recorded API responses and the persistent review cache
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import googlePlaceDetails from './fixtures/reviews/google-place-details.json';
+import tripAdvisorReviewsEn from './fixtures/reviews/tripadvisor-reviews-en.json';
+import tripAdvisorReviewsDe from './fixtures/reviews/tripadvisor-reviews-de.json';
+
+const rootDir = path.join(os.tmpdir(), `review-sync-test-${process.pid}`);
+process.env.REVIEW_CACHE_FILE = path.join(rootDir, 'review-cache.json');
+process.env.REVIEWS_FILE = path.join(rootDir, 'reviews.json');
+
+import { getGoogleReviews, getTripAdvisorReviews } from '@/lib/review-providers';
+import {
+  attributeReviewToTour,
+  getReviews,
+  getReviewSyncStatus,
+  queryReviews,
+  syncReviews,
+  syncReviewsIfDue,
+} from '@/lib/review-aggregation';
+
+const fetchMock = fetch as jest.Mock;
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status < 400,
+  status,
+  json: async () => body,
+});
+
+// Serve the recorded responses by host and language
+function replayFixtures({ googleStatus = 200 } = {}) {
+  fetchMock.mockImplementation(async (url: string) => {
+    if (url.startsWith('https://maps.googleapis.com/')) {
+      return jsonResponse(googleStatus === 200 ? googlePlaceDetails : { status: 'REQUEST_DENIED' }, googleStatus);
+    }
+    const language = new URL(url).searchParams.get('language');
+    if (language === 'en') return jsonResponse(tripAdvisorReviewsEn);
+    if (language === 'de') return jsonResponse(tripAdvisorReviewsDe);
+    return jsonResponse({ data: [] });
+  });
+}
+
+function configureSources() {
+  process.env.GOOGLE_PLACE_ID = 'ChIJ-test-place';
+  process.env.GOOGLE_PLACES_API_KEY = 'google-key';
+  process.env.TRIPADVISOR_LOCATION_ID = '12345678';
+  process.env.TRIPADVISOR_API_KEY = 'tripadvisor-key';
+}
+
+describe('review sync', () => {
+  beforeEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+    configureSources();
+    replayFixtures();
+  });
+
+  afterAll(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should map the recorded Google and TripAdvisor responses', async () => {
+    const google = await getGoogleReviews();
+    expect(google).toHaveLength(3);
+    expect(google[0]).toMatchObject({
+      id: 'google-1715594400-hannah-keller',
+      customerName: 'Hannah Keller',
+      rating: 5,
+      source: 'google',
+      language: 'de',
+      date: new Date(1715594400 * 1000),
+    });
+    expect(fetchMock.mock.calls[0][0]).toContain('reviews_no_translations=true');
+
+    const tripAdvisor = await getTripAdvisorReviews();
+    expect(tripAdvisor.map(review => [review.id, review.language])).toEqual([
+      ['tripadvisor-951234567', 'en'],
+      ['tripadvisor-948765432', 'en'],
+      ['tripadvisor-950112233', 'de'],
+    ]);
+    expect(tripAdvisor[1].photos).toBeUndefined();
+  });
+
+  it('should attribute reviews to the tour they talk about', () => {
+    expect(attributeReviewToTour('We loved the castle tour and Golden Lane')).toBe('prague-castle');
+    expect(attributeReviewToTour('Die Führung durch die Altstadt war spannend')).toBe('old-town-jewish-quarter');
+    expect(attributeReviewToTour('A wonderful guide')).toBe('general');
+    // One keyword for each of two tours is ambiguous
+    expect(attributeReviewToTour('From the Old Town to Kampa')).toBe('general');
+  });
+
+  it('should store synced reviews persistently and serve them by tour', async () => {
+    const summary = await syncReviews(new Date('2024-05-20T10:00:00Z'));
+
+    expect(summary.totalReviews).toBe(6);
+    expect(summary.sources).toEqual({
+      google: { syncedAt: '2024-05-20T10:00:00.000Z', count: 3 },
+      tripadvisor: { syncedAt: '2024-05-20T10:00:00.000Z', count: 3 },
+    });
+
+    const cache = JSON.parse(await fs.readFile(process.env.REVIEW_CACHE_FILE!, 'utf-8'));
+    expect(cache.reviews).toHaveLength(6);
+
+    const castle = await getReviews('prague-castle');
+    expect(castle.map(review => review.customerName)).toEqual(['Hannah Keller']);
+    expect(castle[0].date).toBeInstanceOf(Date);
+
+    const oldTown = await getReviews('old-town-jewish-quarter');
+    expect(oldTown.map(review => review.customerName)).toEqual(['James O\'Connor', 'KlausAusMuenchen']);
+  });
+
+  it('should keep cached reviews when a source fails and merge later syncs', async () => {
+    await syncReviews(new Date('2024-05-20T10:00:00Z'));
+
+    replayFixtures({ googleStatus: 500 });
+    const summary = await syncReviews(new Date('2024-05-21T10:00:00Z'));
+
+    expect(summary.sources.google).toEqual({
+      syncedAt: '2024-05-20T10:00:00.000Z',
+      count: 3,
+      error: 'Google Places API error: 500',
+    });
+    expect(summary.sources.tripadvisor?.syncedAt).toBe('2024-05-21T10:00:00.000Z');
+    expect(summary.totalReviews).toBe(6);
+    expect((await getReviewSyncStatus()).syncedAt).toBe('2024-05-21T10:00:00.000Z');
+  });
+
+  it('should only sync when the cache is older than the interval', async () => {
+    const now = new Date('2024-05-20T10:00:00Z');
+    expect(await syncReviewsIfDue(60 * 60 * 1000, now)).not.toBeNull();
+
+    fetchMock.mockClear();
+    expect(await syncReviewsIfDue(60 * 60 * 1000, new Date(now.getTime() + 30 * 60 * 1000))).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    expect(await syncReviewsIfDue(60 * 60 * 1000, new Date(now.getTime() + 2 * 60 * 60 * 1000))).not.toBeNull();
+  });
+
+  it('should filter by source, rating and language and paginate', async () => {
+    await syncReviews(new Date('2024-05-20T10:00:00Z'));
+    const reviews = await getReviews();
+
+    expect(queryReviews(reviews, { source: 'tripadvisor' }).totalCount).toBe(3);
+    expect(queryReviews(reviews, { minRating: 5 }).totalCount).toBe(4);
+    expect(queryReviews(reviews, { rating: 3 }).reviews.map(review => review.id)).toEqual(['tripadvisor-948765432']);
+    expect(queryReviews(reviews, { language: 'de' }).reviews.map(review => review.customerName))
+      .toEqual(['Hannah Keller', 'KlausAusMuenchen']);
+
+    const secondPage = queryReviews(reviews, { page: 2, limit: 4 });
+    expect(secondPage).toMatchObject({ totalCount: 6, page: 2, totalPages: 2 });
+    expect(secondPage.reviews).toHaveLength(2);
+    expect(queryReviews(reviews, { page: 9, limit: 4 }).page).toBe(2);
+  });
+
+  it('should fall back to mock reviews while no source is configured', async () => {
+    delete process.env.GOOGLE_PLACE_ID;
+    delete process.env.TRIPADVISOR_LOCATION_ID;
+
+    const reviews = await getReviews('prague-castle');
+    expect(reviews.length).toBeGreaterThan(0);
+    expect(reviews.every(review => review.id.startsWith('mock-'))).toBe(true);
+    expect(await syncReviewsIfDue()).toBeNull();
+  });
+
+  it('should never show mock reviews in production', async () => {
+    delete process.env.GOOGLE_PLACE_ID;
+    delete process.env.TRIPADVISOR_LOCATION_ID;
+    const nodeEnv = process.env.NODE_ENV;
+    Object.assign(process.env, { NODE_ENV: 'production' });
+
+    try {
+      expect(await getReviews('prague-castle')).toEqual([]);
+    } finally {
+      Object.assign(process.env, { NODE_ENV: nodeEnv });
+    }
+  });
+});
@@ -0,0 +1,111 @@
+// Tests for tour schema validation and saving tours from the admin editor
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const contentDir = path.join(os.tmpdir(), `tour-content-test-${process.pid}`);
+process.env.CONTENT_PATH = contentDir;
+
+import { validateTour } from '@/lib/tour-schema';
+import { listTourContent, readTourContent, saveTourContent, TourValidationError } from '@/lib/tour-content';
+import { getTourConfig } from '@/lib/tour-catalog';
+
+const repoContent = path.join(process.cwd(), 'content');
+
+async function loadRepoTour(id: string) {
+  return JSON.parse(await fs.readFile(path.join(repoContent, 'tours', `${id}.json`), 'utf-8'));
+}
+
+describe('tour content', () => {
+  beforeEach(async () => {
+    await fs.rm(contentDir, { recursive: true, force: true });
+    await fs.mkdir(path.join(contentDir, 'tours'), { recursive: true });
+    await fs.copyFile(path.join(repoContent, 'content-manifest.json'), path.join(contentDir, 'content-manifest.json'));
+    await fs.copyFile(
+      path.join(repoContent, 'tours', 'prague-castle.json'),
+      path.join(contentDir, 'tours', 'prague-castle.json')
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(contentDir, { recursive: true, force: true });
+  });
+
+  it('should accept every tour in the repository', async () => {
+    for (const file of await fs.readdir(path.join(repoContent, 'tours'))) {
+      const result = validateTour(await loadRepoTour(file.replace('.json', '')));
+      expect(result.errors).toBeUndefined();
+    }
+  });
+
+  it('should report problems per field', async () => {
+    const tour = await loadRepoTour('prague-castle');
+    tour.title.de = '';
+    tour.route[2].lat = 120;
+    tour.images[0].alt.fr = ' ';
+    tour.availability[0].endTime = '09:00';
+
+    const result = validateTour(tour);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual({
+      'title.de': 'German text is required',
+      'route.2.lat': 'Latitude must be between -90 and 90',
+      'images.0.alt.fr': 'French text is required',
+      'availability.0.endTime': 'End time must be after start time',
+    });
+  });
+
+  it('should back up the old file, keep unmodelled fields and update the manifest', async () => {
+    const tour = await loadRepoTour('prague-castle');
+    tour.basePrice = 49;
+
+    const result = await saveTourContent(tour, { isNew: false });
+
+    expect(result?.isUpdate).toBe(true);
+    const saved = await readTourContent('prague-castle');
+    expect(saved?.basePrice).toBe(49);
+    expect(getTourConfig('prague-castle')?.basePrice).toBe(49);
+    expect(saved?.detailedItinerary).toEqual(tour.detailedItinerary);
+
+    const backups = await fs.readdir(path.join(contentDir, 'backups', 'tours'));
+    expect(backups).toHaveLength(1);
+    const backup = JSON.parse(await fs.readFile(path.join(contentDir, 'backups', 'tours', backups[0]), 'utf-8'));
+    expect(backup.basePrice).toBe(45);
+
+    const manifest = JSON.parse(await fs.readFile(path.join(contentDir, 'content-manifest.json'), 'utf-8'));
+    const entry = manifest.content.tours.items.find((item: { id: string }) => item.id === 'prague-castle');
+    expect(entry.status).toBe('published');
+    expect(entry.lastModified).toBe(manifest.lastUpdated);
+    expect(manifest.content.blog.total).toBe(6);
+  });
+
+  it('should not write an invalid tour', async () => {
+    const tour = await loadRepoTour('prague-castle');
+    tour.basePrice = -5;
+
+    await expect(saveTourContent(tour, { isNew: false })).rejects.toThrow(TourValidationError);
+    expect((await readTourContent('prague-castle'))?.basePrice).toBe(45);
+  });
+
+  it('should make new tours bookable and refuse duplicate IDs', async () => {
+    const tour = await loadRepoTour('prague-castle');
+
+    await expect(saveTourContent(tour, { isNew: true })).rejects.toThrow(TourValidationError);
+    expect(await saveTourContent({ ...tour, id: 'missing' }, { isNew: false })).toBeNull();
+
+    expect(getTourConfig('prague-castle')).toBeDefined();
+    await saveTourContent({ ...tour, id: 'vysehrad', slug: 'vysehrad' }, { isNew: true });
+
+    expect(getTourConfig('vysehrad')?.slug).toBe('vysehrad');
+    const tours = await listTourContent();
+    expect(tours.map(t => [t.id, t.status])).toEqual(
+      expect.arrayContaining([['prague-castle', 'published'], ['vysehrad', 'published']])
+    );
+
+    const manifest = JSON.parse(await fs.readFile(path.join(contentDir, 'content-manifest.json'), 'utf-8'));
+    expect(manifest.content.tours).toMatchObject({ total: 4, published: 4 });
+  });
+});
@@ -0,0 +1,144 @@
+// Tests for verified review links, submission and moderation
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+
+const rootDir = path.join(os.tmpdir(), `verified-reviews-test-${process.pid}`);
+process.env.REVIEWS_FILE = path.join(rootDir, 'reviews.json');
+process.env.MEDIA_PATH = path.join(rootDir, 'media');
+process.env.BOOKING_STORE = 'memory';
+
+import { getBookingRepository, NewStoredBooking, StoredBooking } from '@/lib/booking-store';
+import {
+  createReviewPath,
+  getApprovedReviews,
+  getStoredReviews,
+  isReadableReviewPhoto,
+  moderateReview,
+  replyToReview,
+  ReviewLink,
+  submitReview,
+  verifyReviewLink,
+} from '@/lib/verified-reviews';
+
+const newBooking: NewStoredBooking = {
+  provider: 'Local',
+  tourId: 'prague-castle',
+  date: '2030-05-14',
+  startTime: '10:00',
+  groupSize: 2,
+  totalPrice: 110,
+  currency: 'EUR',
+  status: 'confirmed',
+  customerInfo: {
+    firstName: 'Anna',
+    lastName: 'Schmidt',
+    email: 'anna@example.com',
+    phone: '+49 170 1234567',
+    country: 'DE',
+  },
+  locale: 'de',
+};
+
+const afterTour = new Date(2030, 4, 14, 16, 0).getTime();
+
+function linkFor(booking: StoredBooking, now: number = afterTour): ReviewLink {
+  return Object.fromEntries(new URLSearchParams(createReviewPath(booking.id, now).split('?')[1]));
+}
+
+const submission = {
+  rating: 5,
+  comment: 'Filip made the castle come alive with stories we had never heard before.',
+};
+
+describe('verified reviews', () => {
+  let booking: StoredBooking;
+
+  beforeEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+    booking = await getBookingRepository().save(newBooking);
+  });
+
+  afterAll(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should only accept signed, unexpired links once the tour has taken place', async () => {
+    const link = linkFor(booking);
+
+    await expect(verifyReviewLink(link, afterTour)).resolves.toMatchObject({ id: booking.id });
+    await expect(verifyReviewLink({ ...link, booking: 'bk_other' }, afterTour)).rejects.toMatchObject({ problem: 'invalid' });
+    await expect(verifyReviewLink({ ...link, signature: undefined }, afterTour)).rejects.toMatchObject({ problem: 'invalid' });
+    await expect(verifyReviewLink(link, Number(link.expires) + 1)).rejects.toMatchObject({ problem: 'invalid' });
+
+    const early = new Date(2030, 4, 14, 9, 0).getTime();
+    await expect(verifyReviewLink(linkFor(booking, early), early)).rejects.toMatchObject({ problem: 'too-early' });
+
+    await getBookingRepository().updateStatus(booking.id, 'cancelled');
+    await expect(verifyReviewLink(link, afterTour)).rejects.toMatchObject({ problem: 'cancelled' });
+  });
+
+  it('should store one pending, verified review per booking with its photos', async () => {
+    const photo = await sharp({
+      create: { width: 2000, height: 1000, channels: 3, background: '#336699' },
+    }).jpeg().toBuffer();
+
+    const review = await submitReview(linkFor(booking), submission, [{ buffer: photo, mimeType: 'image/jpeg' }], afterTour);
+
+    expect(review).toMatchObject({
+      bookingId: booking.id,
+      tourId: 'prague-castle',
+      customerName: 'Anna S.',
+      country: 'DE',
+      locale: 'de',
+      status: 'pending',
+    });
+    expect(review.photos).toEqual([`/media/reviews/${review.id}-1.webp`]);
+    const stored = await sharp(path.join(rootDir, 'media', 'reviews', `${review.id}-1.webp`)).metadata();
+    expect(stored.width).toBe(1280);
+
+    // The link stops working once it has been used, and a rejected submission leaves no photos behind
+    await expect(
+      submitReview(linkFor(booking), submission, [{ buffer: photo, mimeType: 'image/jpeg' }], afterTour + 1)
+    ).rejects.toMatchObject({ problem: 'already-reviewed' });
+    expect(await getStoredReviews()).toHaveLength(1);
+    expect(await fs.readdir(path.join(rootDir, 'media', 'reviews'))).toEqual([`${review.id}-1.webp`]);
+  });
+
+  it('should only accept photos sharp can read as their declared type', async () => {
+    const png = await sharp({
+      create: { width: 40, height: 20, channels: 3, background: '#336699' },
+    }).png().toBuffer();
+
+    expect(await isReadableReviewPhoto({ buffer: png, mimeType: 'image/png' })).toBe(true);
+    expect(await isReadableReviewPhoto({ buffer: png, mimeType: 'image/jpeg' })).toBe(false);
+    expect(await isReadableReviewPhoto({ buffer: Buffer.from('<svg onload="x">'), mimeType: 'image/webp' })).toBe(false);
+  });
+
+  it('should only publish approved reviews, with the reply', async () => {
+    const review = await submitReview(linkFor(booking), { ...submission, country: 'at' }, [], afterTour);
+    expect(await getApprovedReviews()).toEqual([]);
+
+    await replyToReview(review.id, 'Danke, Anna!');
+    await moderateReview(review.id, 'approved');
+
+    const [published] = await getApprovedReviews('prague-castle');
+    expect(published).toMatchObject({
+      id: review.id,
+      source: 'direct',
+      verified: true,
+      country: 'AT',
+      countryName: 'Austria',
+      reply: { message: 'Danke, Anna!' },
+    });
+    expect(published.photos).toBeUndefined();
+    expect(await getApprovedReviews('old-town')).toEqual([]);
+
+    await moderateReview(review.id, 'rejected');
+    expect(await getApprovedReviews()).toEqual([]);
+    expect(await moderateReview('rev_missing', 'approved')).toBeNull();
+  });
+});
@@ -0,0 +1,332 @@
+// Tests for the processed webhook event log and the Stripe and PayPal webhook handlers
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const eventsFile = path.join(os.tmpdir(), `webhook-events-test-${process.pid}.json`);
+const incidentsFile = path.join(os.tmpdir(), `webhook-incidents-test-${process.pid}.json`);
+const checkoutsFile = path.join(os.tmpdir(), `webhook-paypal-checkouts-test-${process.pid}.json`);
+process.env.WEBHOOK_EVENTS_FILE = eventsFile;
+process.env.INCIDENTS_FILE = incidentsFile;
+process.env.PAYPAL_CHECKOUTS_FILE = checkoutsFile;
+process.env.BOOKING_STORE = 'memory';
+
+import { isWebhookEventProcessed, markWebhookEventProcessed } from '@/lib/webhook-events';
+import { POST } from '@/app/api/payment/webhook/route';
+import { POST as postPayPalWebhook } from '@/app/api/payment/paypal/webhook/route';
+import { savePayPalCheckout } from '@/lib/paypal-checkouts';
+import { getBookingRepository } from '@/lib/booking-store';
+import { getIncidents, RECOVERY_CONFIG } from '@/lib/booking-recovery';
+import { executeRefund } from '@/lib/refunds';
+import { sendDisputeAlertEmail } from '@/lib/email-service';
+
+// Session signing isn't exercised here; jose ships ESM only
+jest.mock('jose', () => ({}));
+
+const mockCreateBooking = jest.fn();
+const mockListRefunds = jest.fn();
+
+// Events are taken as signed; the body is the event itself
+jest.mock('stripe', () =>
+  jest.fn().mockImplementation(() => ({
+    webhooks: { constructEvent: (body: string) => JSON.parse(body) },
+    refunds: { list: (...args: unknown[]) => mockListRefunds(...args) },
+  }))
+);
+
+jest.mock('next/headers', () => ({
+  headers: async () => new Map([['stripe-signature', 't=1,v1=test']]),
+}));
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({ status: init?.status || 200, body }),
+  },
+}));
+
+jest.mock('@/lib/booking-providers', () => ({
+  getBookingProvider: () => ({
+    name: 'test',
+    createBooking: mockCreateBooking,
+    getBooking: jest.fn(async () => ({ success: false })),
+    checkAvailability: jest.fn(async () => ({
+      success: true,
+      availableSlots: [{ startTime: '10:00', availableSpots: 10 }],
+    })),
+  }),
+}));
+
+jest.mock('@/lib/refunds', () => ({
+  executeRefund: jest.fn(async () => ({
+    success: true,
+    refundId: 're_1',
+    amount: 90,
+    currency: 'eur',
+    status: 'succeeded',
+  })),
+}));
+
+// PayPal deliveries are taken as verified
+jest.mock('@/lib/paypal', () => ({
+  verifyPayPalWebhookSignature: jest.fn(async () => true),
+  getPayPalCapture: jest.fn(),
+}));
+
+jest.mock('@/lib/email-service', () => ({
+  sendBookingConfirmationEmail: jest.fn(),
+  sendBookingFailureEmail: jest.fn(),
+  sendDisputeAlertEmail: jest.fn(),
+}));
+
+jest.mock('@/lib/jobs', () => ({
+  scheduleBookingJobs: jest.fn(),
+}));
+
+let eventCount = 0;
+
+function stripeEvent(type: string, object: Record<string, unknown>, id = `evt_${++eventCount}`) {
+  return { id, type, data: { object } };
+}
+
+async function deliver(event: ReturnType<typeof stripeEvent>) {
+  const request = { text: async () => JSON.stringify(event) };
+  return POST(request as never) as unknown as Promise<{ status: number; body: Record<string, unknown> }>;
+}
+
+// Two people on a March weekday: 2 x 45 EUR, no seasonal surcharge
+function paymentIntent(id: string, amount = 9000) {
+  return {
+    id,
+    amount,
+    currency: 'eur',
+    metadata: {
+      tourId: 'prague-castle',
+      bookingDate: '2030-03-18',
+      startTime: '10:00',
+      groupSize: '2',
+      totalPrice: '90',
+      customerEmail: 'jana@example.com',
+      firstName: 'Jana',
+      lastName: 'Novak',
+    },
+  };
+}
+
+async function savePaidBooking(transactionId: string) {
+  const repo = getBookingRepository();
+  const booking = await repo.save({
+    provider: 'test',
+    tourId: 'prague-castle',
+    date: '2030-03-18',
+    startTime: '10:00',
+    groupSize: 2,
+    totalPrice: 90,
+    currency: 'EUR',
+    status: 'confirmed',
+    customerInfo: { firstName: 'Jana', lastName: 'Novak', email: 'jana@example.com', phone: '' },
+  });
+  await repo.attachPayment(booking.id, { method: 'stripe', transactionId, amount: 90, currency: 'eur' });
+  return booking;
+}
+
+function paypalCapture(orderId: string, value = '90.00', id = `WH-${++eventCount}`) {
+  return {
+    id,
+    event_type: 'PAYMENT.CAPTURE.COMPLETED',
+    resource: {
+      id: `CAP-${orderId}`,
+      status: 'COMPLETED',
+      amount: { currency_code: 'EUR', value },
+      supplementary_data: { related_ids: { order_id: orderId } },
+    },
+  };
+}
+
+async function deliverPayPal(event: ReturnType<typeof paypalCapture>) {
+  const request = { text: async () => JSON.stringify(event), headers: new Map() };
+  return postPayPalWebhook(request as never) as unknown as Promise<{ status: number; body: Record<string, unknown> }>;
+}
+
+async function savePayPalOrder(orderId: string) {
+  await savePayPalCheckout(orderId, {
+    tourId: 'prague-castle',
+    date: '2030-03-18',
+    startTime: '10:00',
+    groupSize: 2,
+    totalPrice: 90,
+    customerInfo: { firstName: 'Jana', lastName: 'Novak', email: 'jana@example.com', phone: '' },
+  });
+}
+
+afterAll(async () => {
+  await fs.rm(eventsFile, { force: true });
+  await fs.rm(incidentsFile, { force: true });
+  await fs.rm(checkoutsFile, { force: true });
+});
+
+describe('webhook event log', () => {
+  it('should remember processed events per source', async () => {
+    expect(await isWebhookEventProcessed('stripe', 'evt_1')).toBe(false);
+
+    await markWebhookEventProcessed('stripe', 'evt_1', 'payment_intent.succeeded');
+    await markWebhookEventProcessed('stripe', 'evt_1', 'payment_intent.succeeded');
+
+    expect(await isWebhookEventProcessed('stripe', 'evt_1')).toBe(true);
+    expect(await isWebhookEventProcessed('paypal', 'evt_1')).toBe(false);
+
+    const stored = JSON.parse(await fs.readFile(eventsFile, 'utf-8'));
+    expect(stored.events).toHaveLength(1);
+  });
+
+  it('should forget events past the retention period', async () => {
+    await fs.writeFile(eventsFile, JSON.stringify({
+      events: [{ source: 'stripe', eventId: 'evt_old', type: 'charge.refunded', processedAt: '2020-01-01T00:00:00.000Z' }],
+    }));
+
+    await markWebhookEventProcessed('stripe', 'evt_new', 'charge.refunded');
+
+    expect(await isWebhookEventProcessed('stripe', 'evt_old')).toBe(false);
+    expect(await isWebhookEventProcessed('stripe', 'evt_new')).toBe(true);
+  });
+});
+
+describe('Stripe payment webhook', () => {
+  beforeEach(() => {
+    RECOVERY_CONFIG.baseDelayMs = 0;
+    mockCreateBooking.mockReset();
+    mockListRefunds.mockReset();
+    (executeRefund as jest.Mock).mockClear();
+    (sendDisputeAlertEmail as jest.Mock).mockClear();
+  });
+
+  it('should create the booking once for a paid checkout', async () => {
+    mockCreateBooking.mockResolvedValue({ success: true, bookingId: 'prov_1', confirmationCode: 'PRG-PAID' });
+    const event = stripeEvent('payment_intent.succeeded', paymentIntent('pi_paid'));
+
+    expect((await deliver(event)).status).toBe(200);
+    const booking = await getBookingRepository().findByPaymentId('pi_paid');
+    expect(booking?.confirmationCode).toBe('PRG-PAID');
+
+    // The same delivery again, and a second event for the same payment
+    const redelivered = await deliver(event);
+    await deliver(stripeEvent('payment_intent.succeeded', paymentIntent('pi_paid')));
+
+    expect(redelivered.body).toMatchObject({ duplicate: true });
+    expect(mockCreateBooking).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refund instead of booking when the amount is wrong', async () => {
+    await deliver(stripeEvent('payment_intent.succeeded', paymentIntent('pi_cheap', 100)));
+
+    expect(mockCreateBooking).not.toHaveBeenCalled();
+    expect(await getBookingRepository().findByPaymentId('pi_cheap')).toBeNull();
+    expect(executeRefund).toHaveBeenCalledTimes(1);
+
+    const incidents = (await getIncidents()).filter(i => i.payment.transactionId === 'pi_cheap');
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0].error).toBe('Payment amount mismatch');
+  });
+
+  it('should refund a reschedule payment the booking can no longer use', async () => {
+    const booking = await savePaidBooking('pi_original');
+
+    // The provider no longer knows the booking, so the move cannot happen
+    await deliver(stripeEvent('payment_intent.succeeded', {
+      id: 'pi_reschedule',
+      amount: 2000,
+      currency: 'eur',
+      metadata: {
+        purpose: 'reschedule',
+        bookingId: booking.id,
+        newDate: '2030-03-25',
+        newStartTime: '10:00',
+        customerEmail: 'jana@example.com',
+      },
+    }));
+
+    expect(executeRefund).toHaveBeenCalledWith(
+      'stripe',
+      expect.objectContaining({ paymentId: 'pi_reschedule' }),
+      'eur',
+      'reschedule_pi_reschedule'
+    );
+    expect((await getBookingRepository().findById(booking.id))?.changePayments).toHaveLength(1);
+  });
+
+  it('should record refunds made in the Stripe dashboard', async () => {
+    const booking = await savePaidBooking('pi_refunded');
+    mockListRefunds.mockResolvedValue({
+      data: [
+        { id: 're_dashboard', amount: 4500, currency: 'eur', status: 'succeeded', metadata: {} },
+        { id: 're_ours', amount: 4500, currency: 'eur', status: 'succeeded', metadata: { bookingId: booking.id } },
+      ],
+    });
+
+    await deliver(stripeEvent('charge.refunded', { id: 'ch_1', payment_intent: 'pi_refunded' }));
+
+    const updated = await getBookingRepository().findById(booking.id);
+    expect(updated?.refunds).toEqual([
+      expect.objectContaining({ providerRefundId: 're_dashboard', amount: 45, currency: 'EUR', status: 'succeeded' }),
+    ]);
+  });
+
+  it('should flag disputed bookings and alert the guide', async () => {
+    const booking = await savePaidBooking('pi_disputed');
+
+    await deliver(stripeEvent('charge.dispute.created', {
+      id: 'dp_1',
+      payment_intent: 'pi_disputed',
+      charge: 'ch_2',
+      amount: 9000,
+      currency: 'eur',
+      reason: 'fraudulent',
+      status: 'needs_response',
+      evidence_details: { due_by: 1900000000 },
+    }));
+
+    const updated = await getBookingRepository().findById(booking.id);
+    expect(updated?.disputes).toEqual([
+      expect.objectContaining({ providerDisputeId: 'dp_1', amount: 90, reason: 'fraudulent' }),
+    ]);
+    expect(sendDisputeAlertEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ confirmationCode: booking.confirmationCode, disputeId: 'dp_1' })
+    );
+  });
+});
+
+describe('PayPal payment webhook', () => {
+  beforeEach(() => {
+    RECOVERY_CONFIG.baseDelayMs = 0;
+    mockCreateBooking.mockReset();
+    (executeRefund as jest.Mock).mockClear();
+  });
+
+  it('should book a capture once when the customer never came back to capture', async () => {
+    mockCreateBooking.mockResolvedValue({ success: true, bookingId: 'prov_pp', confirmationCode: 'PRG-PAYPAL' });
+    await savePayPalOrder('ORDER-LOST');
+    const event = paypalCapture('ORDER-LOST');
+
+    expect((await deliverPayPal(event)).status).toBe(200);
+    expect((await getBookingRepository().findByPaymentId('ORDER-LOST'))?.confirmationCode).toBe('PRG-PAYPAL');
+
+    // The same delivery again, and a second event for the same order
+    const redelivered = await deliverPayPal(event);
+    await deliverPayPal(paypalCapture('ORDER-LOST'));
+
+    expect(redelivered.body).toMatchObject({ duplicate: true });
+    expect(mockCreateBooking).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refund a capture that does not match its checkout', async () => {
+    await savePayPalOrder('ORDER-CHEAP');
+
+    await deliverPayPal(paypalCapture('ORDER-CHEAP', '1.00'));
+
+    expect(mockCreateBooking).not.toHaveBeenCalled();
+    expect(executeRefund).toHaveBeenCalledTimes(1);
+    const incidents = (await getIncidents()).filter(i => i.payment.transactionId === 'ORDER-CHEAP');
+    expect(incidents.map(i => i.error)).toEqual(['Payment amount mismatch']);
+  });
+});
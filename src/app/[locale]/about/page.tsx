@@ -5,9 +5,10 @@ import { LanguageSwitcher } from '@/components/LanguageSwitcher';
 import { generateMetadata as generateSEOMetadata, generateAlternateUrls } from '@/lib/seo';
 import { StructuredData } from '@/components/seo/structured-data';
 import { generatePersonSchema, generateBreadcrumbSchema } from '@/lib/structured-data';
+import type { Locale } from '@/types';
 
 interface AboutPageProps {
-  params: Promise<{ locale: 'en' | 'de' | 'fr' }>;
+  params: Promise<{ locale: Locale }>;
 }
 
 export async function generateMetadata({ params }: AboutPageProps): Promise<Metadata> {
@@ -2,8 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { BlogEditor, BlogPostData } from '@/components/admin/blog-editor';
-import { getBlogPostBySlug } from '@/lib/generated-blog-data';
+import { BlogEditor, BlogPostData, toBlogPostPayload } from '@/components/admin/blog-editor';
+import type { BlogFieldErrors, BlogSource } from '@/lib/blog-content';
+import type { BlogPostFrontmatter } from '@/lib/blog';
 import type { Locale } from '@/types';
 
 interface EditBlogPostProps {
@@ -14,8 +15,8 @@ export default function EditBlogPost({ params }: EditBlogPostProps) {
   const router = useRouter();
   const [initialData, setInitialData] = useState<{
     slug: string;
-    frontmatter: any;
-    content: string;
+    frontmatter: BlogPostFrontmatter;
+    content: Record<Locale, string>;
   } | null>(null);
   const [loading, setLoading] = useState(true);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
@@ -27,11 +28,14 @@ export default function EditBlogPost({ params }: EditBlogPostProps) {
 
   const loadBlogPost = async () => {
     try {
-      const post = getBlogPostBySlug(params.slug);
-      if (post) {
+      // Read the source files so unpublished edits and translations are included
+      const response = await fetch(`/api/admin/blog?slug=${encodeURIComponent(params.slug)}`);
+      const data = await response.json();
+      if (data.success) {
+        const post: BlogSource = data.post;
         setInitialData({
           slug: post.slug,
-          frontmatter: post.frontmatter,
+          frontmatter: post.frontmatter as unknown as BlogPostFrontmatter,
           content: post.content
         });
       } else {
@@ -46,26 +50,22 @@ export default function EditBlogPost({ params }: EditBlogPostProps) {
     }
   };
 
-  const handleSave = async (data: BlogPostData) => {
+  const handleSave = async (data: BlogPostData): Promise<BlogFieldErrors | void> => {
     try {
-      // Convert the data to MDX format
-      const mdxContent = generateMDXContent(data);
-      
-      // Update the blog post
       const response = await fetch('/api/admin/blog', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          slug: data.slug,
-          content: mdxContent,
-          locale: params.locale,
-        }),
+        body: JSON.stringify({ post: toBlogPostPayload(data), isNew: false }),
       });
 
+      const result = await response.json();
+      if (result.fieldErrors) {
+        return result.fieldErrors;
+      }
       if (!response.ok) {
-        throw new Error('Failed to update blog post');
+        throw new Error(result.error || 'Failed to update blog post');
       }
 
       // Redirect to blog management page
@@ -128,48 +128,6 @@ export default function EditBlogPost({ params }: EditBlogPostProps) {
   );
 }
 
-function generateMDXContent(data: BlogPostData): string {
-  const frontmatter = {
-    title: data.title,
-    excerpt: data.excerpt,
-    publishedAt: data.publishedAt,
-    updatedAt: new Date().toISOString(),
-    category: data.category,
-    tags: data.tags,
-    featuredImage: data.featuredImage,
-    author: data.author,
-    relatedTours: data.relatedTours,
-    seoTitle: data.seoTitle,
-    seoDescription: data.seoDescription,
-    seoKeywords: data.seoKeywords,
-  };
-
-  const yamlFrontmatter = Object.entries(frontmatter)
-    .map(([key, value]) => {
-      if (typeof value === 'object' && !Array.isArray(value)) {
-        // Handle multilingual objects
-        const entries = Object.entries(value)
-          .map(([lang, text]) => `  ${lang}: "${text}"`)
-          .join('\n');
-        return `${key}:\n${entries}`;
-      } else if (Array.isArray(value)) {
-        // Handle arrays
-        const items = value.map(item => `"${item}"`).join(', ');
-        return `${key}: [${items}]`;
-      } else {
-        // Handle simple values
-        return `${key}: "${value}"`;
-      }
-    })
-    .join('\n');
-
-  return `---
-${yamlFrontmatter}
----
-
-${data.content.en}`;
-}
-
 interface PreviewModalProps {
   data: BlogPostData;
   locale: Locale;
@@ -2,7 +2,8 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { BlogEditor, BlogPostData } from '@/components/admin/blog-editor';
+import { BlogEditor, BlogPostData, toBlogPostPayload } from '@/components/admin/blog-editor';
+import type { BlogFieldErrors } from '@/lib/blog-content';
 import type { Locale } from '@/types';
 
 interface NewBlogPostProps {
@@ -14,26 +15,22 @@ export default function NewBlogPost({ params }: NewBlogPostProps) {
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [previewData, setPreviewData] = useState<BlogPostData | null>(null);
 
-  const handleSave = async (data: BlogPostData) => {
+  const handleSave = async (data: BlogPostData): Promise<BlogFieldErrors | void> => {
     try {
-      // Convert the data to MDX format
-      const mdxContent = generateMDXContent(data);
-      
-      // Save the blog post
       const response = await fetch('/api/admin/blog', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          slug: data.slug,
-          content: mdxContent,
-          locale: params.locale,
-        }),
+        body: JSON.stringify({ post: toBlogPostPayload(data), isNew: true }),
       });
 
+      const result = await response.json();
+      if (result.fieldErrors) {
+        return result.fieldErrors;
+      }
       if (!response.ok) {
-        throw new Error('Failed to save blog post');
+        throw new Error(result.error || 'Failed to save blog post');
       }
 
       // Redirect to blog management page
@@ -69,47 +66,6 @@ export default function NewBlogPost({ params }: NewBlogPostProps) {
   );
 }
 
-function generateMDXContent(data: BlogPostData): string {
-  const frontmatter = {
-    title: data.title,
-    excerpt: data.excerpt,
-    publishedAt: data.publishedAt,
-    category: data.category,
-    tags: data.tags,
-    featuredImage: data.featuredImage,
-    author: data.author,
-    relatedTours: data.relatedTours,
-    seoTitle: data.seoTitle,
-    seoDescription: data.seoDescription,
-    seoKeywords: data.seoKeywords,
-  };
-
-  const yamlFrontmatter = Object.entries(frontmatter)
-    .map(([key, value]) => {
-      if (typeof value === 'object' && !Array.isArray(value)) {
-        // Handle multilingual objects
-        const entries = Object.entries(value)
-          .map(([lang, text]) => `  ${lang}: "${text}"`)
-          .join('\n');
-        return `${key}:\n${entries}`;
-      } else if (Array.isArray(value)) {
-        // Handle arrays
-        const items = value.map(item => `"${item}"`).join(', ');
-        return `${key}: [${items}]`;
-      } else {
-        // Handle simple values
-        return `${key}: "${value}"`;
-      }
-    })
-    .join('\n');
-
-  return `---
-${yamlFrontmatter}
----
-
-${data.content.en}`;
-}
-
 interface PreviewModalProps {
   data: BlogPostData;
   locale: Locale;
@@ -13,8 +13,11 @@ import {
   FileText,
   Globe
 } from 'lucide-react';
-import { getAllBlogPosts } from '@/lib/generated-blog-data';
-import { getLocalizedContent } from '@/lib/generated-blog-data';
+import { BlogStatusActions } from '@/components/admin/blog-status-actions';
+import { listBlogPosts } from '@/lib/blog-content';
+import { BLOG_STATUS_LABELS, BlogStatus } from '@/lib/blog-workflow';
+import { createBlogPreviewPath } from '@/lib/preview-links';
+import { LOCALES } from '@/lib/i18n';
 import type { Locale } from '@/types';
 
 export const metadata: Metadata = {
@@ -27,9 +30,22 @@ interface BlogManagementProps {
   params: { locale: string };
 }
 
-export default function BlogManagement({ params }: BlogManagementProps) {
+// Admin edits change the content files directly, so always read them fresh
+export const dynamic = 'force-dynamic';
+
+export default async function BlogManagement({ params }: BlogManagementProps) {
   const { locale } = params;
-  const blogPosts = getAllBlogPosts();
+  const blogPosts = await listBlogPosts();
+
+  const getStatusColor = (status: BlogStatus) => {
+    const colors: Record<BlogStatus, string> = {
+      'draft': 'bg-yellow-100 text-yellow-800',
+      'in-review': 'bg-purple-100 text-purple-800',
+      'scheduled': 'bg-indigo-100 text-indigo-800',
+      'published': 'bg-green-100 text-green-800',
+    };
+    return colors[status];
+  };
 
   const getCategoryColor = (category: string) => {
     const colors: Record<string, string> = {
@@ -67,21 +83,28 @@ export default function BlogManagement({ params }: BlogManagementProps) {
               <div className="flex-1">
                 <div className="flex items-center space-x-3 mb-2">
                   <h3 className="text-lg font-semibold text-gray-900">
-                    {getLocalizedContent(post.frontmatter.title, locale as Locale)}
+                    {post.title[locale as Locale] || post.title.en}
                   </h3>
-                  <Badge className={getCategoryColor(post.frontmatter.category)}>
-                    {post.frontmatter.category}
+                  <Badge className={getStatusColor(post.status)}>
+                    {BLOG_STATUS_LABELS[post.status]}
+                  </Badge>
+                  <Badge className={getCategoryColor(post.category)}>
+                    {post.category}
                   </Badge>
                 </div>
                 
                 <p className="text-gray-600 mb-3">
-                  {getLocalizedContent(post.frontmatter.excerpt, locale as Locale)}
+                  {post.excerpt[locale as Locale] || post.excerpt.en}
                 </p>
                 
                 <div className="flex items-center space-x-4 text-sm text-gray-500">
                   <div className="flex items-center space-x-1">
                     <Calendar className="h-4 w-4" />
-                    <span>{new Date(post.publishedAt).toLocaleDateString()}</span>
+                    <span>
+                      {post.status === 'scheduled' && post.publishAt
+                        ? `Goes live ${new Date(post.publishAt).toLocaleString()}`
+                        : new Date(post.publishedAt).toLocaleDateString()}
+                    </span>
                   </div>
                   <div className="flex items-center space-x-1">
                     <FileText className="h-4 w-4" />
@@ -89,27 +112,32 @@ export default function BlogManagement({ params }: BlogManagementProps) {
                   </div>
                   <div className="flex items-center space-x-1">
                     <Tag className="h-4 w-4" />
-                    <span>{post.frontmatter.tags.length} tags</span>
+                    <span>{post.tags.length} tags</span>
                   </div>
                 </div>
                 
                 {/* Tags */}
                 <div className="flex flex-wrap gap-2 mt-3">
-                  {post.frontmatter.tags.slice(0, 5).map((tag) => (
+                  {post.tags.slice(0, 5).map((tag) => (
                     <Badge key={tag} variant="outline" className="text-xs">
                       {tag}
                     </Badge>
                   ))}
-                  {post.frontmatter.tags.length > 5 && (
+                  {post.tags.length > 5 && (
                     <Badge variant="outline" className="text-xs">
-                      +{post.frontmatter.tags.length - 5} more
+                      +{post.tags.length - 5} more
                     </Badge>
                   )}
                 </div>
               </div>
               
               <div className="flex items-center space-x-2 ml-4">
-                <Link href={`/${locale}/blog/${post.slug}`} target="_blank">
+                <Link
+                  href={post.status === 'published'
+                    ? `/${locale}/blog/${post.slug}`
+                    : `/${locale}${createBlogPreviewPath(post.slug).path}`}
+                  target="_blank"
+                >
                   <Button variant="outline" size="sm">
                     <Eye className="h-4 w-4" />
                   </Button>
@@ -125,24 +153,25 @@ export default function BlogManagement({ params }: BlogManagementProps) {
               </div>
             </div>
             
-            {/* Language Status */}
-            <div className="mt-4 pt-4 border-t">
+            {/* Language Status and Workflow */}
+            <div className="mt-4 pt-4 border-t flex flex-wrap items-center justify-between gap-4">
               <div className="flex items-center space-x-4">
                 <span className="text-sm font-medium text-gray-700">Languages:</span>
                 <div className="flex space-x-2">
-                  {(['en', 'de', 'fr'] as Locale[]).map((lang) => (
+                  {LOCALES.map((lang) => (
                     <div key={lang} className="flex items-center space-x-1">
                       <Globe className="h-3 w-3" />
                       <span className="text-xs font-medium text-gray-600 uppercase">
                         {lang}
                       </span>
                       <div className={`w-2 h-2 rounded-full ${
-                        post.frontmatter.title[lang] ? 'bg-green-500' : 'bg-red-500'
+                        post.translations[lang] === 'complete' ? 'bg-green-500' : 'bg-yellow-500'
                       }`}></div>
                     </div>
                   ))}
                 </div>
               </div>
+              <BlogStatusActions slug={post.slug} status={post.status} publishAt={post.publishAt} />
             </div>
           </Card>
         ))}
@@ -17,8 +17,8 @@ import {
   Euro
 } from 'lucide-react';
 import Link from 'next/link';
+import { LOCALES } from '@/lib/i18n';
 import type { Locale } from '@/types';
-import { sampleTours } from '@/lib/content';
 
 interface Tour {
   id: string;
@@ -31,9 +31,9 @@ interface Tour {
   basePrice: number;
   currency: string;
   difficulty: 'easy' | 'moderate' | 'challenging';
-  images: string[];
   lastModified?: string;
-  status: 'published' | 'draft' | 'modified';
+  status: 'published' | 'draft';
+  valid: boolean;
 }
 
 export default function ContentManagement({ params }: { params: { locale: string } }) {
@@ -46,13 +46,11 @@ export default function ContentManagement({ params }: { params: { locale: string
 
   const loadTours = async () => {
     try {
-      // For now, use sample data with added status and lastModified
-      const toursWithStatus = sampleTours.map(tour => ({
-        ...tour,
-        lastModified: new Date().toISOString(),
-        status: 'published' as const
-      }));
-      setTours(toursWithStatus);
+      const response = await fetch('/api/admin/tours');
+      const data = await response.json();
+      if (data.success) {
+        setTours(data.tours);
+      }
     } catch (error) {
       console.error('Error loading tours:', error);
     } finally {
@@ -130,6 +128,11 @@ export default function ContentManagement({ params }: { params: { locale: string
                   <Badge className={getDifficultyColor(tour.difficulty)}>
                     {tour.difficulty}
                   </Badge>
+                  {!tour.valid && (
+                    <Badge className="bg-red-100 text-red-800">
+                      needs fixes
+                    </Badge>
+                  )}
                 </div>
                 
                 <h3 className="text-xl font-semibold text-gray-900 mb-2">
@@ -147,7 +150,7 @@ export default function ContentManagement({ params }: { params: { locale: string
                     <Eye className="h-4 w-4" />
                   </Button>
                 </Link>
-                <Link href={`/${params.locale}/admin/content/tours/${tour.slug}`}>
+                <Link href={`/${params.locale}/admin/content/tours/${tour.id}`}>
                   <Button variant="outline" size="sm">
                     <Edit className="h-4 w-4" />
                   </Button>
@@ -198,7 +201,7 @@ export default function ContentManagement({ params }: { params: { locale: string
                 <div className="flex items-center space-x-4">
                   <span className="text-sm font-medium text-gray-700">Languages:</span>
                   <div className="flex space-x-2">
-                    {(['en', 'de', 'fr'] as Locale[]).map((lang) => (
+                    {LOCALES.map((lang) => (
                       <div key={lang} className="flex items-center space-x-1">
                         <Globe className="h-3 w-3" />
                         <span className="text-xs font-medium text-gray-600 uppercase">
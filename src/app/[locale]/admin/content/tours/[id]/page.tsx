@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { TourEditor } from '@/components/admin/tour-editor';
+import type { TourFieldErrors } from '@/lib/tour-schema';
+import type { Locale, Tour } from '@/types';
+
+interface EditTourProps {
+  params: { locale: string; id: string };
+}
+
+export default function EditTour({ params }: EditTourProps) {
+  const router = useRouter();
+  const isNew = params.id === 'new';
+  const [initialData, setInitialData] = useState<Partial<Tour> | null>(null);
+  const [loading, setLoading] = useState(!isNew);
+
+  useEffect(() => {
+    if (!isNew) {
+      loadTour();
+    }
+  }, [params.id]);
+
+  const loadTour = async () => {
+    try {
+      const response = await fetch(`/api/admin/tours?id=${encodeURIComponent(params.id)}`);
+      const data = await response.json();
+      if (data.success) {
+        setInitialData(data.tour);
+      }
+    } catch (error) {
+      console.error('Error loading tour:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (tour: Tour): Promise<TourFieldErrors | void> => {
+    try {
+      const response = await fetch('/api/admin/tours', {
+        method: isNew ? 'POST' : 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ tour }),
+      });
+
+      const data = await response.json();
+      if (data.fieldErrors) {
+        return data.fieldErrors;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save tour');
+      }
+
+      router.push(`/${params.locale}/admin/content`);
+    } catch (error) {
+      console.error('Error saving tour:', error);
+      alert('Failed to save tour. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="text-gray-600 mt-2">Loading tour...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isNew && !initialData) {
+    return (
+      <div className="text-center py-12">
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">Tour Not Found</h1>
+        <p className="text-gray-600 mb-6">The tour you&apos;re looking for doesn&apos;t exist.</p>
+        <button
+          onClick={() => router.push(`/${params.locale}/admin/content`)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Back to Tour Content
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <TourEditor
+      initialData={initialData || undefined}
+      locale={params.locale as Locale}
+      onSave={handleSave}
+    />
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Mail, Code, FileText } from 'lucide-react';
+import { LOCALES } from '@/lib/i18n';
+
+interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const TEMPLATE_LABELS: Record<string, string> = {
+  'booking-confirmation': 'Booking confirmation',
+  'booking-reminder': 'Tour reminder',
+  'tour-day': 'Morning of the tour',
+  'booking-cancellation': 'Cancellation',
+  'refund-confirmation': 'Refund',
+  'booking-rescheduled': 'Reschedule',
+  'review-request': 'Review request',
+};
+
+export default function EmailPreviewPage() {
+  const [templates, setTemplates] = useState<string[]>(Object.keys(TEMPLATE_LABELS));
+  const [locales, setLocales] = useState<string[]>(LOCALES);
+  const [template, setTemplate] = useState('booking-confirmation');
+  const [locale, setLocale] = useState('en');
+  const [format, setFormat] = useState<'html' | 'text'>('html');
+  const [email, setEmail] = useState<RenderedEmail | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadPreview();
+  }, [template, locale]);
+
+  const loadPreview = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ template, locale });
+      const response = await fetch(`/api/admin/emails?${params}`);
+      const data = await response.json();
+      if (data.success) {
+        setEmail(data.email);
+        setTemplates(data.templates);
+        setLocales(data.locales);
+      } else {
+        alert(data.error || 'Failed to render preview');
+      }
+    } catch (error) {
+      console.error('Error loading email preview:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Email Templates</h1>
+        <p className="text-gray-600 mt-2">
+          Preview customer emails in every language, rendered with sample booking data
+        </p>
+      </div>
+
+      <Card className="p-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <select
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            {templates.map((name) => (
+              <option key={name} value={name}>{TEMPLATE_LABELS[name] || name}</option>
+            ))}
+          </select>
+
+          <div className="flex space-x-2">
+            {locales.map((code) => (
+              <Button
+                key={code}
+                variant={locale === code ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setLocale(code)}
+              >
+                {code.toUpperCase()}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex space-x-2 ml-auto">
+            <Button
+              variant={format === 'html' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFormat('html')}
+            >
+              <Code className="h-3 w-3 mr-1" />
+              HTML
+            </Button>
+            <Button
+              variant={format === 'text' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFormat('text')}
+            >
+              <FileText className="h-3 w-3 mr-1" />
+              Plain text
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {loading || !email ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <Card className="p-4">
+          <div className="flex items-center space-x-2 mb-4 text-sm">
+            <Mail className="h-4 w-4 text-gray-500" />
+            <span className="font-medium text-gray-900">{email.subject}</span>
+          </div>
+
+          {format === 'html' ? (
+            <iframe
+              title="Email preview"
+              srcDoc={email.html}
+              sandbox=""
+              className="w-full h-[700px] border rounded"
+            />
+          ) : (
+            <pre className="whitespace-pre-wrap text-sm text-gray-800 bg-gray-50 p-4 rounded">{email.text}</pre>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
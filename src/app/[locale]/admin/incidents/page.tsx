@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  CheckCircle,
+  Calendar,
+  CreditCard,
+  User,
+  RefreshCw
+} from 'lucide-react';
+
+interface BookingIncident {
+  id: string;
+  payment: {
+    method: 'stripe' | 'paypal';
+    transactionId: string;
+    amount: number;
+    currency: string;
+  };
+  bookingData: {
+    tourId: string;
+    date: string;
+    startTime: string;
+    groupSize: number;
+    customerInfo: {
+      firstName: string;
+      lastName: string;
+      email: string;
+    };
+  };
+  attempts: number;
+  error: string;
+  status: 'refunded' | 'refund_pending' | 'refund_failed' | 'resolved';
+  refund?: {
+    refundId?: string;
+    status: string;
+    error?: string;
+    attempts: number;
+  };
+  customerNotified: boolean;
+  note?: string;
+  createdAt: string;
+}
+
+const STATUS_LABELS: Record<BookingIncident['status'], string> = {
+  refunded: 'Refunded',
+  refund_pending: 'Refund pending',
+  refund_failed: 'Refund failed',
+  resolved: 'Resolved',
+};
+
+export default function IncidentsPage() {
+  const [incidents, setIncidents] = useState<BookingIncident[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadIncidents();
+  }, []);
+
+  const loadIncidents = async () => {
+    try {
+      const response = await fetch('/api/admin/incidents');
+      const data = await response.json();
+      if (data.success) {
+        setIncidents(data.incidents);
+      }
+    } catch (error) {
+      console.error('Error loading incidents:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateIncident = async (incidentId: string, action: 'retry-refund' | 'resolve') => {
+    let note: string | null = null;
+    if (action === 'resolve') {
+      note = prompt('How was this incident handled?');
+      if (note === null) return;
+    }
+
+    setUpdating(incidentId);
+    try {
+      const response = await fetch('/api/admin/incidents', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: incidentId, action, note }),
+      });
+
+      const data = await response.json();
+      if (data.incident) {
+        setIncidents(incidents.map(i => i.id === incidentId ? data.incident : i));
+      }
+      if (!data.success) {
+        alert(data.incident?.refund?.error || data.error || 'Refund failed again');
+      }
+    } catch (error) {
+      console.error('Error updating incident:', error);
+      alert('Failed to update incident');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const getStatusColor = (status: BookingIncident['status']) => {
+    const colors: Record<string, string> = {
+      'refunded': 'bg-green-100 text-green-800',
+      'refund_pending': 'bg-yellow-100 text-yellow-800',
+      'refund_failed': 'bg-red-100 text-red-800',
+      'resolved': 'bg-gray-100 text-gray-800',
+    };
+    return colors[status];
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="text-gray-600 mt-2">Loading incidents...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Booking Incidents</h1>
+          <p className="text-gray-600 mt-2">
+            Payments that went through but could not be turned into a booking
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadIncidents} className="flex items-center space-x-2">
+          <RefreshCw className="h-4 w-4" />
+          <span>Refresh</span>
+        </Button>
+      </div>
+
+      {incidents.length === 0 ? (
+        <Card className="p-8 text-center">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No incidents</h3>
+          <p className="text-gray-600">
+            Every payment so far has resulted in a booking.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {incidents.map((incident) => (
+            <Card key={incident.id} className="p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <Badge className={getStatusColor(incident.status)}>
+                      {STATUS_LABELS[incident.status]}
+                    </Badge>
+                    <span className="text-sm text-gray-500">{incident.payment.transactionId}</span>
+                  </div>
+
+                  <h3 className="font-medium text-gray-900 mb-1">
+                    {incident.bookingData.tourId} · {incident.bookingData.date} {incident.bookingData.startTime} · {incident.bookingData.groupSize} people
+                  </h3>
+                  <p className="text-sm text-gray-600 mb-2">
+                    Booking failed after {incident.attempts} attempts: {incident.error}
+                  </p>
+
+                  {incident.refund?.error && incident.status === 'refund_failed' && (
+                    <p className="text-sm text-red-600 mb-2">Refund: {incident.refund.error}</p>
+                  )}
+                  {incident.note && (
+                    <p className="text-sm text-gray-600 mb-2">Note: {incident.note}</p>
+                  )}
+
+                  <div className="flex items-center space-x-4 text-xs text-gray-500">
+                    <div className="flex items-center space-x-1">
+                      <Calendar className="h-3 w-3" />
+                      <span>{new Date(incident.createdAt).toLocaleString()}</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <User className="h-3 w-3" />
+                      <span>
+                        {incident.bookingData.customerInfo.firstName} {incident.bookingData.customerInfo.lastName} ({incident.bookingData.customerInfo.email})
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <CreditCard className="h-3 w-3" />
+                      <span>
+                        {incident.payment.amount.toFixed(2)} {incident.payment.currency.toUpperCase()} via {incident.payment.method}
+                      </span>
+                    </div>
+                    <span>{incident.customerNotified ? 'Customer notified' : 'Customer not notified'}</span>
+                  </div>
+                </div>
+
+                {incident.status !== 'resolved' && (
+                  <div className="flex items-center space-x-2 ml-4">
+                    {incident.status === 'refund_failed' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateIncident(incident.id, 'retry-refund')}
+                        disabled={updating === incident.id}
+                      >
+                        <RefreshCw className={`h-3 w-3 mr-1 ${updating === incident.id ? 'animate-spin' : ''}`} />
+                        Retry Refund
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateIncident(incident.id, 'resolve')}
+                      disabled={updating === incident.id}
+                    >
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      Resolve
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Archive,
+  Calendar,
+  Inbox,
+  Mail,
+  Phone,
+  RefreshCw,
+  Reply,
+  Send
+} from 'lucide-react';
+
+interface Inquiry {
+  id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  tourId?: string;
+  message: string;
+  locale: string;
+  status: 'new' | 'answered' | 'archived';
+  replies: Array<{ message: string; sentAt: string }>;
+  createdAt: string;
+}
+
+type StatusFilter = Inquiry['status'] | 'all';
+
+const FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'new', label: 'New' },
+  { value: 'answered', label: 'Answered' },
+  { value: 'archived', label: 'Archived' },
+  { value: 'all', label: 'All' },
+];
+
+export default function InquiriesPage() {
+  const [inquiries, setInquiries] = useState<Inquiry[]>([]);
+  const [filter, setFilter] = useState<StatusFilter>('new');
+  const [loading, setLoading] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInquiries();
+  }, [filter]);
+
+  const loadInquiries = async () => {
+    try {
+      const query = filter === 'all' ? '' : `?status=${filter}`;
+      const response = await fetch(`/api/admin/inquiries${query}`);
+      const data = await response.json();
+      if (data.success) {
+        setInquiries(data.inquiries);
+      }
+    } catch (error) {
+      console.error('Error loading inquiries:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateInquiry = async (inquiryId: string, action: 'answer' | 'archive') => {
+    setUpdating(inquiryId);
+    try {
+      const response = await fetch('/api/admin/inquiries', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: inquiryId, action, message: replyText }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        // Drop it from the list once it no longer matches the filter
+        setInquiries(inquiries
+          .map(i => i.id === inquiryId ? data.inquiry : i)
+          .filter(i => filter === 'all' || i.status === filter));
+        setReplyingTo(null);
+        setReplyText('');
+      } else {
+        alert(data.error || 'Failed to update inquiry');
+      }
+    } catch (error) {
+      console.error('Error updating inquiry:', error);
+      alert('Failed to update inquiry');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const getStatusColor = (status: Inquiry['status']) => {
+    const colors: Record<string, string> = {
+      'new': 'bg-blue-100 text-blue-800',
+      'answered': 'bg-green-100 text-green-800',
+      'archived': 'bg-gray-100 text-gray-800',
+    };
+    return colors[status];
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="text-gray-600 mt-2">Loading inquiries...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Inquiries</h1>
+          <p className="text-gray-600 mt-2">
+            Messages sent through the contact form
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadInquiries} className="flex items-center space-x-2">
+          <RefreshCw className="h-4 w-4" />
+          <span>Refresh</span>
+        </Button>
+      </div>
+
+      <div className="flex space-x-2">
+        {FILTERS.map(({ value, label }) => (
+          <Button
+            key={value}
+            variant={filter === value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setFilter(value)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {inquiries.length === 0 ? (
+        <Card className="p-8 text-center">
+          <Inbox className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Inbox is empty</h3>
+          <p className="text-gray-600">
+            No inquiries to show here.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {inquiries.map((inquiry) => (
+            <Card key={inquiry.id} className="p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <Badge className={getStatusColor(inquiry.status)}>
+                      {inquiry.status}
+                    </Badge>
+                    <span className="text-sm text-gray-500 uppercase">{inquiry.locale}</span>
+                    {inquiry.tourId && (
+                      <span className="text-sm text-gray-500">{inquiry.tourId}</span>
+                    )}
+                  </div>
+
+                  <h3 className="font-medium text-gray-900 mb-1">{inquiry.name}</h3>
+                  <p className="text-sm text-gray-700 whitespace-pre-line mb-2">{inquiry.message}</p>
+
+                  {inquiry.replies.map((reply, index) => (
+                    <div key={index} className="border-l-2 border-green-300 pl-3 mb-2">
+                      <p className="text-sm text-gray-600 whitespace-pre-line">{reply.message}</p>
+                      <p className="text-xs text-gray-400">Replied {new Date(reply.sentAt).toLocaleString()}</p>
+                    </div>
+                  ))}
+
+                  <div className="flex items-center space-x-4 text-xs text-gray-500">
+                    <div className="flex items-center space-x-1">
+                      <Calendar className="h-3 w-3" />
+                      <span>{new Date(inquiry.createdAt).toLocaleString()}</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Mail className="h-3 w-3" />
+                      <span>{inquiry.email}</span>
+                    </div>
+                    {inquiry.phone && (
+                      <div className="flex items-center space-x-1">
+                        <Phone className="h-3 w-3" />
+                        <span>{inquiry.phone}</span>
+                      </div>
+                    )}
+                  </div>
+
+                  {replyingTo === inquiry.id && (
+                    <div className="mt-4 space-y-2">
+                      <Textarea
+                        value={replyText}
+                        onChange={(e) => setReplyText(e.target.value)}
+                        rows={5}
+                        placeholder={`Reply to ${inquiry.name}...`}
+                      />
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          onClick={() => updateInquiry(inquiry.id, 'answer')}
+                          disabled={updating === inquiry.id || !replyText.trim()}
+                        >
+                          <Send className="h-3 w-3 mr-1" />
+                          Send Reply
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setReplyingTo(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {inquiry.status !== 'archived' && replyingTo !== inquiry.id && (
+                  <div className="flex items-center space-x-2 ml-4">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setReplyingTo(inquiry.id);
+                        setReplyText('');
+                      }}
+                    >
+                      <Reply className="h-3 w-3 mr-1" />
+                      Reply
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateInquiry(inquiry.id, 'archive')}
+                      disabled={updating === inquiry.id}
+                    >
+                      <Archive className="h-3 w-3 mr-1" />
+                      Archive
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { Metadata } from 'next';
 import Link from 'next/link';
-// import { useTranslations } from 'next-intl'; // TODO: Replace with Paraglide
+import { cookies } from 'next/headers';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { 
@@ -12,8 +12,18 @@ import {
   Upload,
   Eye,
   Archive,
-  Home
+  Home,
+  ReceiptText,
+  AlertTriangle,
+  Inbox,
+  Mail,
+  Send,
+  Star,
+  Users
 } from 'lucide-react';
+import { SessionManager, SESSION_CONFIG } from '@/lib/session-management';
+import { AdminArea, ADMIN_ROLE_LABELS, canAccess, isAdminRole } from '@/lib/admin-access';
+import { SignOutButton } from '@/components/admin/sign-out-button';
 
 export const metadata: Metadata = {
   title: 'Admin Dashboard - Prague Tour Guide',
@@ -26,52 +36,113 @@ interface AdminLayoutProps {
   params: { locale: string };
 }
 
-export default function AdminLayout({ children, params }: AdminLayoutProps) {
-  // TODO: Replace with Paraglide
-  const t = (key: string) => key;
+export default async function AdminLayout({ children, params }: AdminLayoutProps) {
+  // Middleware already keeps signed-out visitors on the login page, which renders without the shell
+  const sessionToken = (await cookies()).get(SESSION_CONFIG.ADMIN_COOKIE_NAME)?.value;
+  const session = sessionToken ? await SessionManager.validateSession(sessionToken) : null;
+  if (!session || !isAdminRole(session.role)) {
+    return <div className="min-h-screen bg-gray-50">{children}</div>;
+  }
+  const role = session.role;
 
-  const navigation = [
+  const navigation: Array<{ name: string; href: string; icon: typeof Home; description: string; area: AdminArea }> = [
     {
       name: 'Dashboard',
       href: `/${params.locale}/admin`,
       icon: Home,
-      description: 'Overview and quick actions'
+      description: 'Overview and quick actions',
+      area: 'dashboard'
     },
     {
       name: 'Content Editor',
       href: `/${params.locale}/admin/content`,
       icon: PenTool,
-      description: 'Edit tours and blog posts'
+      description: 'Edit tours and blog posts',
+      area: 'content'
     },
     {
       name: 'Media Library',
       href: `/${params.locale}/admin/media`,
       icon: Image,
-      description: 'Upload and manage images'
+      description: 'Upload and manage images',
+      area: 'content'
     },
     {
       name: 'Blog Posts',
       href: `/${params.locale}/admin/blog`,
       icon: FileText,
-      description: 'Create and edit blog content'
+      description: 'Create and edit blog content',
+      area: 'content'
     },
     {
       name: 'Preview',
       href: `/${params.locale}/admin/preview`,
       icon: Eye,
-      description: 'Preview content changes'
+      description: 'Preview content changes',
+      area: 'content'
     },
     {
       name: 'Backups',
       href: `/${params.locale}/admin/backups`,
       icon: Archive,
-      description: 'Content versioning and backups'
+      description: 'Content versioning and backups',
+      area: 'backups'
+    },
+    {
+      name: 'Refunds',
+      href: `/${params.locale}/admin/refunds`,
+      icon: ReceiptText,
+      description: 'Retry failed cancellation refunds',
+      area: 'payments'
+    },
+    {
+      name: 'Incidents',
+      href: `/${params.locale}/admin/incidents`,
+      icon: AlertTriangle,
+      description: 'Payments that could not be booked',
+      area: 'payments'
+    },
+    {
+      name: 'Inquiries',
+      href: `/${params.locale}/admin/inquiries`,
+      icon: Inbox,
+      description: 'Contact form messages',
+      area: 'inquiries'
+    },
+    {
+      name: 'Reviews',
+      href: `/${params.locale}/admin/reviews`,
+      icon: Star,
+      description: 'Moderate guest reviews',
+      area: 'reviews'
+    },
+    {
+      name: 'Emails',
+      href: `/${params.locale}/admin/emails`,
+      icon: Mail,
+      description: 'Preview customer email templates',
+      area: 'emails'
+    },
+    {
+      name: 'Outbox',
+      href: `/${params.locale}/admin/outbox`,
+      icon: Send,
+      description: 'Email delivery log',
+      area: 'bookings'
     },
     {
       name: 'Analytics',
       href: `/${params.locale}/admin/analytics`,
       icon: BarChart3,
-      description: 'Website performance metrics'
+      description: 'Website performance metrics',
+      area: 'analytics'
+    },
+    {
+      name: 'Users',
+      href: `/${params.locale}/admin/users`,
+      icon: Users,
+      description: 'Admin accounts and roles',
+      area: 'users'
     },
   ];
 
@@ -95,6 +166,10 @@ export default function AdminLayout({ children, params }: AdminLayoutProps) {
               <div className="text-sm text-gray-500">
                 Language: {params.locale.toUpperCase()}
               </div>
+              <div className="text-sm text-gray-700">
+                {session.name} <span className="text-gray-500">({ADMIN_ROLE_LABELS[role]})</span>
+              </div>
+              <SignOutButton locale={params.locale} />
             </div>
           </div>
         </div>
@@ -105,7 +180,7 @@ export default function AdminLayout({ children, params }: AdminLayoutProps) {
         <nav className="w-64 bg-white shadow-sm min-h-screen">
           <div className="p-6">
             <div className="space-y-2">
-              {navigation.map((item) => {
+              {navigation.filter(item => canAccess(role, item.area)).map((item) => {
                 const Icon = item.icon;
                 return (
                   <Link
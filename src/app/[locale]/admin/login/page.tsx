@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Lock } from 'lucide-react';
+
+export default function AdminLoginPage() {
+  const router = useRouter();
+  const { locale } = useParams<{ locale: string }>();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const signIn = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/auth', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, password, code }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        // Only follow redirects back into the admin area
+        const next = new URLSearchParams(window.location.search).get('next');
+        router.push(next?.startsWith(`/${locale}/admin`) ? next : `/${locale}/admin`);
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to sign in');
+        setCode('');
+      }
+    } catch (signInError) {
+      console.error('Error signing in:', signInError);
+      setError('Failed to sign in');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen px-4">
+      <Card className="w-full max-w-sm p-6">
+        <div className="flex items-center space-x-2 mb-6">
+          <Lock className="h-5 w-5 text-gray-700" />
+          <h1 className="text-xl font-semibold text-gray-900">Prague Tours CMS</h1>
+        </div>
+
+        <form onSubmit={signIn} className="space-y-4">
+          <div>
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              autoComplete="username"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="code">Authenticator code</Label>
+            <Input
+              id="code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              pattern="[0-9]{6}"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              required
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <Button type="submit" className="w-full" disabled={submitting}>
+            {submitting ? 'Signing in...' : 'Sign In'}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
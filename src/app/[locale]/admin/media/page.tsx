@@ -5,6 +5,8 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { MediaDetails } from '@/components/admin/media-details';
+import type { MediaFile, MediaFileWithUsage } from '@/lib/media-library';
 import { 
   Upload, 
   Search, 
@@ -14,34 +16,22 @@ import {
   Trash2,
   Eye,
   Copy,
+  Pencil,
   Filter,
   Image as ImageIcon,
   File,
   Video
 } from 'lucide-react';
 
-interface MediaFile {
-  id: string;
-  name: string;
-  url: string;
-  type: 'image' | 'video' | 'document';
-  size: number;
-  uploadedAt: string;
-  dimensions?: {
-    width: number;
-    height: number;
-  };
-  optimized?: boolean;
-}
-
 export default function MediaLibrary({ params }: { params: { locale: string } }) {
-  const [files, setFiles] = useState<MediaFile[]>([]);
+  const [files, setFiles] = useState<MediaFileWithUsage[]>([]);
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<'all' | 'image' | 'video' | 'document'>('all');
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   useEffect(() => {
     loadMediaFiles();
@@ -104,6 +94,10 @@ export default function MediaLibrary({ params }: { params: { locale: string } })
       if (response.ok) {
         setFiles(files.filter(file => file.id !== fileId));
         setSelectedFiles(selectedFiles.filter(id => id !== fileId));
+      } else {
+        // Files still used by tours, posts or the gallery can't be deleted
+        const data = await response.json();
+        alert(data.error || 'Failed to delete file.');
       }
     } catch (error) {
       console.error('Error deleting file:', error);
@@ -111,6 +105,13 @@ export default function MediaLibrary({ params }: { params: { locale: string } })
     }
   };
 
+  const handleDetailsSaved = (saved: MediaFile) => {
+    setFiles(files.map(file => file.id === saved.id ? { ...file, ...saved } : file));
+    setEditingId(null);
+  };
+
+  const editingFile = files.find(file => file.id === editingId);
+
   const copyToClipboard = (url: string) => {
     navigator.clipboard.writeText(url);
     // You could add a toast notification here
@@ -182,6 +183,15 @@ export default function MediaLibrary({ params }: { params: { locale: string } })
         </div>
       </div>
 
+      {editingFile && (
+        <MediaDetails
+          key={editingFile.id}
+          file={editingFile}
+          onSaved={handleDetailsSaved}
+          onClose={() => setEditingId(null)}
+        />
+      )}
+
       {/* Filters and Search */}
       <Card className="p-4">
         <div className="flex flex-col sm:flex-row gap-4 items-center justify-between">
@@ -232,11 +242,14 @@ export default function MediaLibrary({ params }: { params: { locale: string } })
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
           {filteredFiles.map((file) => (
             <Card key={file.id} className="p-4 hover:shadow-md transition-shadow">
-              <div className="aspect-square bg-gray-100 rounded-lg mb-3 overflow-hidden">
+              <div
+                className="aspect-square bg-gray-100 rounded-lg mb-3 overflow-hidden"
+                style={file.dominantColor ? { backgroundColor: file.dominantColor } : undefined}
+              >
                 {file.type === 'image' ? (
                   <img
                     src={file.url}
-                    alt={file.name}
+                    alt={file.alt?.en || file.name}
                     className="w-full h-full object-cover"
                   />
                 ) : (
@@ -259,6 +272,10 @@ export default function MediaLibrary({ params }: { params: { locale: string } })
                     </Badge>
                   )}
                 </div>
+
+                <div className="text-xs text-gray-500">
+                  {file.usage.length > 0 ? `Used in ${file.usage.length} place${file.usage.length !== 1 ? 's' : ''}` : 'Not used'}
+                </div>
                 
                 {file.dimensions && (
                   <div className="text-xs text-gray-500">
@@ -275,6 +292,13 @@ export default function MediaLibrary({ params }: { params: { locale: string } })
                   >
                     <Copy className="h-3 w-3" />
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditingId(file.id)}
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -343,6 +367,9 @@ export default function MediaLibrary({ params }: { params: { locale: string } })
                               {file.dimensions.width} × {file.dimensions.height}
                             </div>
                           )}
+                          <div className="text-sm text-gray-500">
+                            {file.usage.length > 0 ? `Used in ${file.usage.length} place${file.usage.length !== 1 ? 's' : ''}` : 'Not used'}
+                          </div>
                         </div>
                       </div>
                     </td>
@@ -372,6 +399,13 @@ export default function MediaLibrary({ params }: { params: { locale: string } })
                         >
                           <Copy className="h-3 w-3" />
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingId(file.id)}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertTriangle,
+  Calendar,
+  Mail,
+  RefreshCw,
+  Send
+} from 'lucide-react';
+
+interface OutboxEmail {
+  id: string;
+  template: string;
+  bookingId?: string;
+  to: string;
+  subject: string;
+  status: 'queued' | 'sending' | 'sent' | 'failed' | 'bounced';
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  createdAt: string;
+  sentAt?: string;
+}
+
+type StatusFilter = OutboxEmail['status'] | 'all';
+
+const FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'queued', label: 'Queued' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'bounced', label: 'Bounced' },
+];
+
+export default function OutboxPage() {
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadEmails();
+  }, [filter]);
+
+  const loadEmails = async () => {
+    try {
+      const query = filter === 'all' ? '' : `?status=${filter}`;
+      const response = await fetch(`/api/admin/outbox${query}`);
+      const data = await response.json();
+      if (data.success) {
+        setEmails(data.emails);
+      }
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const retryEmail = async (emailId: string) => {
+    setRetrying(emailId);
+    try {
+      const response = await fetch('/api/admin/outbox', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: emailId }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setEmails(emails
+          .map(e => e.id === emailId ? data.email : e)
+          .filter(e => filter === 'all' || e.status === filter));
+      } else {
+        alert(data.error || 'Failed to retry email');
+      }
+    } catch (error) {
+      console.error('Error retrying email:', error);
+      alert('Failed to retry email');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const getStatusColor = (status: OutboxEmail['status']) => {
+    const colors: Record<string, string> = {
+      'queued': 'bg-yellow-100 text-yellow-800',
+      'sending': 'bg-blue-100 text-blue-800',
+      'sent': 'bg-green-100 text-green-800',
+      'failed': 'bg-red-100 text-red-800',
+      'bounced': 'bg-orange-100 text-orange-800',
+    };
+    return colors[status];
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="text-gray-600 mt-2">Loading outbox...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Outbox</h1>
+          <p className="text-gray-600 mt-2">
+            Delivery log for every email the site sends
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadEmails} className="flex items-center space-x-2">
+          <RefreshCw className="h-4 w-4" />
+          <span>Refresh</span>
+        </Button>
+      </div>
+
+      <div className="flex space-x-2">
+        {FILTERS.map(({ value, label }) => (
+          <Button
+            key={value}
+            variant={filter === value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setFilter(value)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {emails.length === 0 ? (
+        <Card className="p-8 text-center">
+          <Mail className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No emails</h3>
+          <p className="text-gray-600">
+            Nothing to show for this filter.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {emails.map((email) => (
+            <Card key={email.id} className="p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <Badge className={getStatusColor(email.status)}>
+                      {email.status}
+                    </Badge>
+                    <span className="text-sm text-gray-500">{email.template}</span>
+                    {email.bookingId && (
+                      <span className="text-sm text-gray-500">{email.bookingId}</span>
+                    )}
+                  </div>
+
+                  <h3 className="font-medium text-gray-900 mb-1">{email.subject}</h3>
+
+                  {email.lastError && (
+                    <div className="flex items-center space-x-1 text-sm text-red-700 mb-2">
+                      <AlertTriangle className="h-3 w-3" />
+                      <span>{email.lastError}</span>
+                    </div>
+                  )}
+
+                  <div className="flex items-center space-x-4 text-xs text-gray-500">
+                    <div className="flex items-center space-x-1">
+                      <Mail className="h-3 w-3" />
+                      <span>{email.to}</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Calendar className="h-3 w-3" />
+                      <span>
+                        {email.sentAt
+                          ? `Sent ${new Date(email.sentAt).toLocaleString()}`
+                          : `Queued ${new Date(email.createdAt).toLocaleString()}`}
+                      </span>
+                    </div>
+                    <span>{email.attempts} {email.attempts === 1 ? 'attempt' : 'attempts'}</span>
+                    {email.status === 'queued' && email.attempts > 0 && (
+                      <span>Next try {new Date(email.nextAttemptAt).toLocaleString()}</span>
+                    )}
+                  </div>
+                </div>
+
+                {(email.status === 'failed' || email.status === 'bounced') && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => retryEmail(email.id)}
+                    disabled={retrying === email.id}
+                    className="ml-4"
+                  >
+                    <Send className="h-3 w-3 mr-1" />
+                    Send Again
+                  </Button>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
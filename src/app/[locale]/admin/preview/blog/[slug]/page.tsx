@@ -0,0 +1,63 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { readBlogSource } from '@/lib/blog-content';
+import { verifyBlogPreviewSignature } from '@/lib/preview-links';
+import { BLOG_STATUS_LABELS, BlogLifecycle, getBlogStatus } from '@/lib/blog-workflow';
+import { BlogContent } from '@/components/blog/blog-content';
+import type { Locale } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Blog Preview - Prague Tour Guide CMS',
+  robots: 'noindex, nofollow',
+};
+
+interface BlogPreviewProps {
+  params: Promise<{ locale: Locale; slug: string }>;
+  searchParams: Promise<{ expires?: string; signature?: string }>;
+}
+
+export default async function BlogPreview({ params, searchParams }: BlogPreviewProps) {
+  const { locale, slug } = await params;
+  const { expires, signature } = await searchParams;
+
+  if (!verifyBlogPreviewSignature(slug, expires, signature)) {
+    notFound();
+  }
+
+  const post = await readBlogSource(slug);
+  if (!post) {
+    notFound();
+  }
+
+  const frontmatter = post.frontmatter as BlogLifecycle & {
+    title?: Partial<Record<Locale, string>>;
+    excerpt?: Partial<Record<Locale, string>>;
+    relatedTours?: string[];
+  };
+  const status = getBlogStatus(frontmatter);
+  const body = post.content[locale] || post.content.en;
+
+  return (
+    <div className="max-w-4xl mx-auto px-6 py-10">
+      <div className="mb-8 px-4 py-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-900 text-sm">
+        Preview of a {BLOG_STATUS_LABELS[status].toLowerCase()} post
+        {frontmatter.publishAt && ` going live ${new Date(frontmatter.publishAt).toLocaleString('en-GB')}`}.
+        {' '}This page is not public.
+        {!post.content[locale] && ' The body has not been translated yet and is shown in English.'}
+      </div>
+
+      <h1 className="text-4xl font-bold text-gray-900 mb-4">
+        {frontmatter.title?.[locale] || frontmatter.title?.en || slug}
+      </h1>
+      <p className="text-lg text-gray-600 mb-8 italic">
+        {frontmatter.excerpt?.[locale] || frontmatter.excerpt?.en}
+      </p>
+
+      <div lang={post.content[locale] ? locale : 'en'}>
+        <BlogContent content={body} locale={locale} relatedTours={frontmatter.relatedTours} />
+      </div>
+    </div>
+  );
+}
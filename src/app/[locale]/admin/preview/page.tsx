@@ -22,7 +22,7 @@ interface PreviewItem {
   type: 'blog' | 'tour' | 'page';
   title: string;
   slug: string;
-  status: 'draft' | 'modified' | 'published';
+  status: 'draft' | 'in-review' | 'scheduled' | 'modified' | 'published';
   lastModified: string;
   author: string;
   previewUrl: string;
@@ -70,6 +70,8 @@ export default function PreviewPage({ params }: { params: { locale: string } })
   const getStatusColor = (status: string) => {
     const colors: Record<string, string> = {
       'draft': 'bg-yellow-100 text-yellow-800',
+      'in-review': 'bg-purple-100 text-purple-800',
+      'scheduled': 'bg-indigo-100 text-indigo-800',
       'modified': 'bg-blue-100 text-blue-800',
       'published': 'bg-green-100 text-green-800',
     };
@@ -91,7 +93,10 @@ export default function PreviewPage({ params }: { params: { locale: string } })
     const baseUrl = `/${previewLanguage}`;
     switch (item.type) {
       case 'blog':
-        return `${baseUrl}/blog/${item.slug}?preview=true`;
+        // Unpublished posts come with a signed link to the preview page
+        return item.status === 'published'
+          ? `${baseUrl}/blog/${item.slug}?preview=true`
+          : `${baseUrl}${item.previewUrl}`;
       case 'tour':
         return `${baseUrl}/tours/${item.slug}?preview=true`;
       default:
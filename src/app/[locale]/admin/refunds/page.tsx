@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  CheckCircle,
+  Calendar,
+  CreditCard,
+  AlertTriangle,
+  RefreshCw
+} from 'lucide-react';
+
+interface QueuedRefund {
+  id: string;
+  bookingId: string;
+  confirmationCode: string;
+  method: 'stripe' | 'paypal';
+  currency: string;
+  request: {
+    paymentId: string;
+    amount?: number;
+    reason: string;
+  };
+  status: 'failed' | 'processing' | 'succeeded';
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export default function RefundsPage() {
+  const [refunds, setRefunds] = useState<QueuedRefund[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRefunds();
+  }, []);
+
+  const loadRefunds = async () => {
+    try {
+      const response = await fetch('/api/admin/refunds');
+      const data = await response.json();
+      if (data.success) {
+        setRefunds(data.refunds);
+      }
+    } catch (error) {
+      console.error('Error loading refunds:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const retryRefund = async (refundId: string) => {
+    setRetrying(refundId);
+    try {
+      const response = await fetch('/api/admin/refunds', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: refundId }),
+      });
+
+      const data = await response.json();
+      if (data.refund) {
+        setRefunds(refunds.map(r => r.id === refundId ? data.refund : r));
+      }
+      if (!data.success) {
+        alert(data.refund?.lastError || data.error || 'Refund failed again');
+      }
+    } catch (error) {
+      console.error('Error retrying refund:', error);
+      alert('Failed to retry refund');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const pending = refunds.filter(r => r.status === 'failed');
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="text-gray-600 mt-2">Loading refunds...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Refund Queue</h1>
+          <p className="text-gray-600 mt-2">
+            Refunds that failed at the payment provider and need another attempt
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadRefunds} className="flex items-center space-x-2">
+          <RefreshCw className="h-4 w-4" />
+          <span>Refresh</span>
+        </Button>
+      </div>
+
+      {refunds.length === 0 ? (
+        <Card className="p-8 text-center">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No failed refunds</h3>
+          <p className="text-gray-600">
+            All cancellation refunds have been issued automatically.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {pending.length > 0 && (
+            <Card className="p-4 bg-yellow-50 border-yellow-200">
+              <div className="flex items-center space-x-3">
+                <AlertTriangle className="h-5 w-5 text-yellow-600 flex-shrink-0" />
+                <p className="text-sm text-yellow-800">
+                  {pending.length} {pending.length === 1 ? 'refund is' : 'refunds are'} waiting to be retried
+                </p>
+              </div>
+            </Card>
+          )}
+
+          {refunds.map((refund) => (
+            <Card key={refund.id} className="p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <Badge className={refund.status === 'succeeded'
+                      ? 'bg-green-100 text-green-800'
+                      : refund.status === 'processing'
+                        ? 'bg-yellow-100 text-yellow-800'
+                        : 'bg-red-100 text-red-800'}>
+                      {refund.status.toUpperCase()}
+                    </Badge>
+                    <span className="text-sm text-gray-500">{refund.confirmationCode}</span>
+                  </div>
+
+                  <h3 className="font-medium text-gray-900 mb-1">
+                    {refund.request.amount?.toFixed(2)} {refund.currency.toUpperCase()}
+                  </h3>
+                  <p className="text-sm text-gray-600 mb-2">{refund.request.reason}</p>
+
+                  {refund.lastError && refund.status === 'failed' && (
+                    <p className="text-sm text-red-600 mb-2">{refund.lastError}</p>
+                  )}
+
+                  <div className="flex items-center space-x-4 text-xs text-gray-500">
+                    <div className="flex items-center space-x-1">
+                      <Calendar className="h-3 w-3" />
+                      <span>{new Date(refund.createdAt).toLocaleString()}</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <CreditCard className="h-3 w-3" />
+                      <span className="capitalize">{refund.method}</span>
+                    </div>
+                    <span>{refund.attempts} {refund.attempts === 1 ? 'attempt' : 'attempts'}</span>
+                  </div>
+                </div>
+
+                {refund.status === 'failed' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => retryRefund(refund.id)}
+                    disabled={retrying === refund.id}
+                    className="ml-4"
+                  >
+                    <RefreshCw className={`h-3 w-3 mr-1 ${retrying === refund.id ? 'animate-spin' : ''}`} />
+                    Retry
+                  </Button>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
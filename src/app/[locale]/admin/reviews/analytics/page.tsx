@@ -0,0 +1,23 @@
+import { Metadata } from 'next';
+import { ReviewDashboard } from '@/components/reviews/review-dashboard';
+
+export const metadata: Metadata = {
+  title: 'Review Analytics - Prague Tour Guide',
+  description: 'Rating trends, sentiment and recurring themes across guest reviews',
+  robots: 'noindex, nofollow', // Keep admin pages private
+};
+
+export default function ReviewAnalyticsPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Review Analytics</h1>
+        <p className="text-gray-600 mt-2">
+          Rating trends per tour and source, what guests praise and complain about, and tours whose recent ratings are slipping
+        </p>
+      </div>
+
+      <ReviewDashboard showAnalytics />
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  BarChart3,
+  Calendar,
+  Check,
+  Mail,
+  MessageSquare,
+  RefreshCw,
+  Reply,
+  Send,
+  Star,
+  X
+} from 'lucide-react';
+
+interface Review {
+  id: string;
+  bookingId: string;
+  tourId: string;
+  customerName: string;
+  email: string;
+  rating: number;
+  comment: string;
+  country?: string;
+  photos: string[];
+  locale: string;
+  status: 'pending' | 'approved' | 'rejected';
+  reply?: { message: string; repliedAt: string };
+  createdAt: string;
+}
+
+type StatusFilter = Review['status'] | 'all';
+
+const FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'all', label: 'All' },
+];
+
+export default function ReviewsPage() {
+  const { locale } = useParams<{ locale: string }>();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [filter, setFilter] = useState<StatusFilter>('pending');
+  const [loading, setLoading] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReviews();
+  }, [filter]);
+
+  const loadReviews = async () => {
+    try {
+      const query = filter === 'all' ? '' : `?status=${filter}`;
+      const response = await fetch(`/api/admin/reviews${query}`);
+      const data = await response.json();
+      if (data.success) {
+        setReviews(data.reviews);
+      }
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateReview = async (reviewId: string, action: 'approve' | 'reject' | 'reply') => {
+    setUpdating(reviewId);
+    try {
+      const response = await fetch('/api/admin/reviews', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: reviewId, action, message: replyText }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        // Drop it from the list once it no longer matches the filter
+        setReviews(reviews
+          .map(r => r.id === reviewId ? data.review : r)
+          .filter(r => filter === 'all' || r.status === filter));
+        setReplyingTo(null);
+        setReplyText('');
+      } else {
+        alert(data.error || 'Failed to update review');
+      }
+    } catch (error) {
+      console.error('Error updating review:', error);
+      alert('Failed to update review');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const getStatusColor = (status: Review['status']) => {
+    const colors: Record<string, string> = {
+      'pending': 'bg-yellow-100 text-yellow-800',
+      'approved': 'bg-green-100 text-green-800',
+      'rejected': 'bg-gray-100 text-gray-800',
+    };
+    return colors[status];
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="text-gray-600 mt-2">Loading reviews...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Reviews</h1>
+          <p className="text-gray-600 mt-2">
+            Verified reviews from guests after their tour. Only approved reviews are shown on the site.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" asChild>
+            <Link href={`/${locale}/admin/reviews/analytics`} className="flex items-center space-x-2">
+              <BarChart3 className="h-4 w-4" />
+              <span>Analytics</span>
+            </Link>
+          </Button>
+          <Button variant="outline" onClick={loadReviews} className="flex items-center space-x-2">
+            <RefreshCw className="h-4 w-4" />
+            <span>Refresh</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex space-x-2">
+        {FILTERS.map(({ value, label }) => (
+          <Button
+            key={value}
+            variant={filter === value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setFilter(value)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {reviews.length === 0 ? (
+        <Card className="p-8 text-center">
+          <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing to moderate</h3>
+          <p className="text-gray-600">
+            No reviews to show here.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {reviews.map((review) => (
+            <Card key={review.id} className="p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <Badge className={getStatusColor(review.status)}>
+                      {review.status}
+                    </Badge>
+                    <span className="text-sm text-gray-500">{review.tourId}</span>
+                    <span className="text-sm text-gray-500 uppercase">{review.locale}</span>
+                    {review.country && (
+                      <span className="text-sm text-gray-500">{review.country}</span>
+                    )}
+                  </div>
+
+                  <div className="flex items-center space-x-2 mb-1">
+                    <h3 className="font-medium text-gray-900">{review.customerName}</h3>
+                    <div className="flex items-center">
+                      {Array.from({ length: 5 }, (_, i) => (
+                        <Star
+                          key={i}
+                          className={`h-4 w-4 ${i < review.rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-sm text-gray-700 whitespace-pre-line mb-2">{review.comment}</p>
+
+                  {review.photos.length > 0 && (
+                    <div className="flex space-x-2 mb-2">
+                      {review.photos.map((photo) => (
+                        <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                          <div
+                            className="h-16 w-16 rounded bg-cover bg-center bg-gray-100"
+                            style={{ backgroundImage: `url(${photo})` }}
+                          />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+
+                  {review.reply && (
+                    <div className="border-l-2 border-green-300 pl-3 mb-2">
+                      <p className="text-sm text-gray-600 whitespace-pre-line">{review.reply.message}</p>
+                      <p className="text-xs text-gray-400">Replied {new Date(review.reply.repliedAt).toLocaleString()}</p>
+                    </div>
+                  )}
+
+                  <div className="flex items-center space-x-4 text-xs text-gray-500">
+                    <div className="flex items-center space-x-1">
+                      <Calendar className="h-3 w-3" />
+                      <span>{new Date(review.createdAt).toLocaleString()}</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Mail className="h-3 w-3" />
+                      <span>{review.email}</span>
+                    </div>
+                    <span>Booking {review.bookingId}</span>
+                  </div>
+
+                  {replyingTo === review.id && (
+                    <div className="mt-4 space-y-2">
+                      <Textarea
+                        value={replyText}
+                        onChange={(e) => setReplyText(e.target.value)}
+                        rows={4}
+                        placeholder={`Public reply to ${review.customerName}...`}
+                      />
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          onClick={() => updateReview(review.id, 'reply')}
+                          disabled={updating === review.id || !replyText.trim()}
+                        >
+                          <Send className="h-3 w-3 mr-1" />
+                          Save Reply
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setReplyingTo(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {replyingTo !== review.id && (
+                  <div className="flex items-center space-x-2 ml-4">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setReplyingTo(review.id);
+                        setReplyText(review.reply?.message || '');
+                      }}
+                    >
+                      <Reply className="h-3 w-3 mr-1" />
+                      {review.reply ? 'Edit Reply' : 'Reply'}
+                    </Button>
+                    {review.status !== 'approved' && (
+                      <Button
+                        size="sm"
+                        onClick={() => updateReview(review.id, 'approve')}
+                        disabled={updating === review.id}
+                      >
+                        <Check className="h-3 w-3 mr-1" />
+                        Approve
+                      </Button>
+                    )}
+                    {review.status !== 'rejected' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateReview(review.id, 'reject')}
+                        disabled={updating === review.id}
+                      >
+                        <X className="h-3 w-3 mr-1" />
+                        Reject
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Calendar,
+  KeyRound,
+  Mail,
+  Plus,
+  Smartphone,
+  UserCheck,
+  UserX,
+  Users
+} from 'lucide-react';
+import { ADMIN_ROLES, ADMIN_ROLE_LABELS, AdminRole } from '@/lib/admin-access';
+
+interface AdminUser {
+  id: string;
+  email: string;
+  name: string;
+  role: AdminRole;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+}
+
+interface UserChanges {
+  role?: AdminRole;
+  active?: boolean;
+  password?: string;
+  resetTotp?: boolean;
+}
+
+// Authenticator setup is only returned once, when created or reset
+interface TotpSetup {
+  email: string;
+  totpSecret: string;
+  totpUri: string;
+}
+
+const EMPTY_FORM = { email: '', name: '', role: 'editor' as AdminRole, password: '' };
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [totpSetup, setTotpSetup] = useState<TotpSetup | null>(null);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      const response = await fetch('/api/admin/users');
+      const data = await response.json();
+      if (data.success) {
+        setUsers(data.users);
+      }
+    } catch (error) {
+      console.error('Error loading admin users:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createUser = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving('new');
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setUsers([...users, data.user].sort((a, b) => a.name.localeCompare(b.name)));
+        setTotpSetup({ email: data.user.email, totpSecret: data.totpSecret, totpUri: data.totpUri });
+        setForm(EMPTY_FORM);
+        setShowForm(false);
+      } else {
+        alert(data.error || 'Failed to create admin user');
+      }
+    } catch (error) {
+      console.error('Error creating admin user:', error);
+      alert('Failed to create admin user');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const updateUser = async (userId: string, changes: UserChanges) => {
+    setSaving(userId);
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: userId, ...changes }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setUsers(users.map(u => u.id === userId ? data.user : u));
+        if (data.totpSecret) {
+          setTotpSetup({ email: data.user.email, totpSecret: data.totpSecret, totpUri: data.totpUri });
+        }
+      } else {
+        alert(data.error || 'Failed to update admin user');
+      }
+    } catch (error) {
+      console.error('Error updating admin user:', error);
+      alert('Failed to update admin user');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const resetPassword = (user: AdminUser) => {
+    const password = prompt(`New password for ${user.name} (at least 12 characters)`);
+    if (password) {
+      updateUser(user.id, { password });
+    }
+  };
+
+  const resetTotp = (user: AdminUser) => {
+    if (confirm(`Issue a new authenticator secret for ${user.name}? Their current app entry will stop working.`)) {
+      updateUser(user.id, { resetTotp: true });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="text-gray-600 mt-2">Loading users...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Users</h1>
+          <p className="text-gray-600 mt-2">
+            Who can sign in to the CMS and what they can change
+          </p>
+        </div>
+        <Button onClick={() => setShowForm(!showForm)} className="flex items-center space-x-2">
+          <Plus className="h-4 w-4" />
+          <span>Add User</span>
+        </Button>
+      </div>
+
+      {totpSetup && (
+        <Card className="p-4 border-blue-200 bg-blue-50">
+          <div className="flex items-start justify-between">
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Smartphone className="h-4 w-4 text-blue-700" />
+                <h3 className="font-medium text-blue-900">Authenticator setup for {totpSetup.email}</h3>
+              </div>
+              <p className="text-sm text-blue-800">
+                Add this secret to an authenticator app now. It will not be shown again.
+              </p>
+              <p className="font-mono text-sm break-all">{totpSetup.totpSecret}</p>
+              <p className="font-mono text-xs text-gray-600 break-all">{totpSetup.totpUri}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setTotpSetup(null)}>
+              Done
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {showForm && (
+        <Card className="p-4">
+          <form onSubmit={createUser} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="role">Role</Label>
+              <select
+                id="role"
+                value={form.role}
+                onChange={(e) => setForm({ ...form, role: e.target.value as AdminRole })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              >
+                {ADMIN_ROLES.map(role => (
+                  <option key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="password">Initial password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="new-password"
+                minLength={12}
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                required
+              />
+            </div>
+            <div className="md:col-span-2 flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving === 'new'}>
+                Create User
+              </Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      {users.length === 0 ? (
+        <Card className="p-8 text-center">
+          <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No users</h3>
+          <p className="text-gray-600">
+            Create the first owner with scripts/create-admin-user.js.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {users.map((user) => (
+            <Card key={user.id} className="p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <h3 className="font-medium text-gray-900">{user.name}</h3>
+                    <Badge className={user.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                      {user.active ? 'active' : 'disabled'}
+                    </Badge>
+                  </div>
+
+                  <div className="flex items-center space-x-4 text-xs text-gray-500">
+                    <div className="flex items-center space-x-1">
+                      <Mail className="h-3 w-3" />
+                      <span>{user.email}</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Calendar className="h-3 w-3" />
+                      <span>
+                        {user.lastLoginAt
+                          ? `Last sign-in ${new Date(user.lastLoginAt).toLocaleString()}`
+                          : 'Never signed in'}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2 ml-4">
+                  <select
+                    value={user.role}
+                    onChange={(e) => updateUser(user.id, { role: e.target.value as AdminRole })}
+                    disabled={saving === user.id}
+                    className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                  >
+                    {ADMIN_ROLES.map(role => (
+                      <option key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => resetPassword(user)}
+                    disabled={saving === user.id}
+                  >
+                    <KeyRound className="h-3 w-3 mr-1" />
+                    Password
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => resetTotp(user)}
+                    disabled={saving === user.id}
+                  >
+                    <Smartphone className="h-3 w-3 mr-1" />
+                    Authenticator
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateUser(user.id, { active: !user.active })}
+                    disabled={saving === user.id}
+                  >
+                    {user.active ? (
+                      <>
+                        <UserX className="h-3 w-3 mr-1" />
+                        Disable
+                      </>
+                    ) : (
+                      <>
+                        <UserCheck className="h-3 w-3 mr-1" />
+                        Enable
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,20 +10,30 @@ import { Badge } from '@/components/ui/badge';
 import { RelatedPosts, BlogCTA } from '@/components/blog';
 import { LazySection } from '@/components/ui/lazy-wrapper';
 
-import { getBlogPostBySlug, getAllBlogPosts, getLocalizedContent } from '@/lib/generated-blog-data';
+import { getLocalizedBody, getLocalizedContent } from '@/lib/blog';
+import { getAllBlogPosts, getBlogPostBySlug } from '@/lib/blog-index';
 import { generateMetadata as generateSEOMetadata, generateAlternateUrls } from '@/lib/seo';
 import { BlogContent } from '@/components/blog/blog-content';
+import { LOCALES } from '@/lib/i18n';
 import type { Locale } from '@/types';
 
+// Shown above the article when its body has not been translated yet
+const translationFallbackNotice: Record<Locale, string> = {
+  en: '',
+  de: 'Dieser Artikel ist noch nicht auf Deutsch verfügbar. Sie lesen die englische Originalfassung.',
+  fr: "Cet article n'est pas encore disponible en français. Vous lisez la version originale en anglais.",
+  cs: 'Tento článek zatím není dostupný v češtině. Čtete původní anglickou verzi.',
+};
+
 interface BlogPostPageProps {
   params: Promise<{ locale: Locale; slug: string }>;
 }
 
 export async function generateStaticParams() {
-  const posts = getAllBlogPosts();
+  const posts = await getAllBlogPosts();
 
   return posts.flatMap((post) =>
-    ['en', 'de', 'fr'].map((locale) => ({
+    LOCALES.map((locale) => ({
       locale,
       slug: post.slug,
     }))
@@ -36,7 +46,7 @@ export const revalidate = 7200; // Revalidate every 2 hours
 
 export async function generateMetadata({ params }: BlogPostPageProps): Promise<Metadata> {
   const { locale, slug } = await params;
-  const post = getBlogPostBySlug(slug);
+  const post = await getBlogPostBySlug(slug);
   
   if (!post) {
     return {
@@ -67,13 +77,14 @@ export async function generateMetadata({ params }: BlogPostPageProps): Promise<M
 
 export default async function BlogPostPage({ params }: BlogPostPageProps) {
   const { locale, slug } = await params;
-  const post = getBlogPostBySlug(slug);
+  const post = await getBlogPostBySlug(slug);
 
   if (!post) {
     notFound();
   }
 
   const title = getLocalizedContent(post.frontmatter.title, locale);
+  const body = getLocalizedBody(post, locale);
 
   return (
     <div className="min-h-screen bg-white">
@@ -145,12 +156,21 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
             />
           </div>
 
+          {/* Untranslated body notice */}
+          {body.isFallback && (
+            <div role="note" className="mb-8 px-4 py-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-900">
+              {translationFallbackNotice[locale]}
+            </div>
+          )}
+
           {/* Article Content */}
-          <BlogContent 
-            content={post.content} 
-            locale={locale}
-            relatedTours={post.frontmatter.relatedTours}
-          />
+          <div lang={body.locale}>
+            <BlogContent 
+              content={body.content} 
+              locale={locale}
+              relatedTours={post.frontmatter.relatedTours}
+            />
+          </div>
 
           {/* Tags - Lazy loaded */}
           {post.frontmatter.tags.length > 0 && (
@@ -1,9 +1,10 @@
 import { Metadata } from 'next';
-import { getTranslations } from 'next-intl/server';
+import * as m from '@/paraglide/messages';
+import { setLocale } from '@/paraglide/runtime';
 import { LanguageSwitcher } from '@/components/LanguageSwitcher';
 import { Footer } from '@/components/layout/footer';
 import { BlogPostCard } from '@/components/blog';
-import { getAllBlogPosts } from '@/lib/generated-blog-data';
+import { getAllBlogPosts } from '@/lib/blog-index';
 import { generateMetadata as generateSEOMetadata, generateAlternateUrls } from '@/lib/seo';
 import type { Locale } from '@/types';
 
@@ -13,11 +14,11 @@ interface BlogArchivePageProps {
 
 export async function generateMetadata({ params }: BlogArchivePageProps): Promise<Metadata> {
   const { locale } = await params;
-  const t = await getTranslations({ locale, namespace: 'blog' });
+  setLocale(locale);
   
   const seoData = {
-    title: `${t('archive.title')} | Filip Kareta Prague Tours`,
-    description: t('archive.description'),
+    title: `${m['blog.archive.title']()} | Filip Kareta Prague Tours`,
+    description: m['blog.archive.description'](),
     keywords: ['Prague blog', 'travel stories', 'Prague guide', 'blog archive'],
     image: '/images/og-blog-archive.jpg',
     url: 'blog/archive',
@@ -31,9 +32,9 @@ export async function generateMetadata({ params }: BlogArchivePageProps): Promis
 
 export default async function BlogArchivePage({ params }: BlogArchivePageProps) {
   const { locale } = await params;
-  const t = await getTranslations({ locale, namespace: 'blog' });
+  setLocale(locale);
   
-  const allPosts = getAllBlogPosts();
+  const allPosts = await getAllBlogPosts();
   
   // Group posts by year and month
   const postsByDate = allPosts.reduce((acc, post) => {
@@ -67,10 +68,10 @@ export default async function BlogArchivePage({ params }: BlogArchivePageProps)
         {/* Archive Header */}
         <div className="text-center mb-12">
           <h1 className="text-4xl font-bold text-gray-900 mb-4">
-            {t('archive.title')}
+            {m['blog.archive.title']()}
           </h1>
           <p className="text-xl text-gray-600 max-w-3xl mx-auto">
-            {t('archive.description')}
+            {m['blog.archive.description']()}
           </p>
           <div className="mt-6">
             <span className="inline-block bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-medium">
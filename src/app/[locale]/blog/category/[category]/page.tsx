@@ -1,10 +1,9 @@
 import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
-// import { getTranslations } from 'next-intl/server';
 import { LanguageSwitcher } from '@/components/LanguageSwitcher';
 import { Footer } from '@/components/layout/footer';
 import { BlogPostCard, BlogFilters, BlogPagination } from '@/components/blog';
-import { getBlogPostsByCategory, getAllBlogTags } from '@/lib/generated-blog-data';
+import { getBlogPostsByCategory, getAllBlogTags } from '@/lib/blog-index';
 import { generateMetadata as generateSEOMetadata, generateAlternateUrls } from '@/lib/seo';
 
 // Blog categories for static params generation
@@ -14,6 +13,7 @@ const blogCategories = [
   { slug: 'history-legends' },
   { slug: 'practical-tips' },
 ];
+import { LOCALES } from '@/lib/i18n';
 import type { Locale } from '@/types';
 
 interface BlogCategoryPageProps {
@@ -23,7 +23,7 @@ interface BlogCategoryPageProps {
 
 export async function generateStaticParams() {
   return blogCategories.flatMap((category) => 
-    ['en', 'de', 'fr'].map((locale) => ({
+    LOCALES.map((locale) => ({
       locale,
       category: category.slug,
     }))
@@ -32,7 +32,7 @@ export async function generateStaticParams() {
 
 export async function generateMetadata({ params }: BlogCategoryPageProps): Promise<Metadata> {
   const { locale, category } = await params;
-  const posts = getBlogPostsByCategory(category);
+  const posts = await getBlogPostsByCategory(category);
   
   if (posts.length === 0) {
     return {
@@ -61,7 +61,7 @@ export default async function BlogCategoryPage({ params, searchParams }: BlogCat
   const { locale, category } = await params;
   const { page = '1' } = await searchParams;
   
-  const allCategoryPosts = getBlogPostsByCategory(category);
+  const allCategoryPosts = await getBlogPostsByCategory(category);
   
   if (allCategoryPosts.length === 0) {
     notFound();
@@ -76,7 +76,7 @@ export default async function BlogCategoryPage({ params, searchParams }: BlogCat
   
   const categoryName = category.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase());
   const categoryDescription = `Discover ${categoryName.toLowerCase()} stories and insights about Prague`;
-  const allTags = getAllBlogTags();
+  const allTags = await getAllBlogTags();
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -4,7 +4,7 @@ import { setLocale } from '@/paraglide/runtime';
 import { LanguageSwitcher } from '@/components/LanguageSwitcher';
 import { Footer } from '@/components/layout/footer';
 import { BlogPostCard, BlogFilters, BlogPagination, BlogSearch } from '@/components/blog';
-import { getPaginatedBlogPosts, getAllBlogTags } from '@/lib/generated-blog-data';
+import { getPaginatedBlogPosts, getAllBlogTags } from '@/lib/blog-index';
 import { generateMetadata as generateSEOMetadata, generateAlternateUrls } from '@/lib/seo';
 import { LazySection } from '@/components/ui/lazy-wrapper';
 import type { Locale } from '@/types';
@@ -52,9 +52,9 @@ export default async function BlogPage({ params, searchParams }: BlogPageProps)
   const currentPage = parseInt(page, 10) || 1;
   
   // Get posts based on filters
-  const paginationData = getPaginatedBlogPosts(currentPage, 6, category, tag);
+  const paginationData = await getPaginatedBlogPosts(currentPage, 6, category, tag);
   const { posts, totalPages, hasNextPage, hasPrevPage, totalPosts } = paginationData;
-  const allTags = getAllBlogTags();
+  const allTags = await getAllBlogTags();
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect } from 'react';
-// import { useTranslations } from 'next-intl'; // TODO: Replace with Paraglide
+import * as m from '@/paraglide/messages';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CreditCard, AlertTriangle, RefreshCw, Phone, Mail, Calendar } from 'lucide-react';
@@ -14,9 +14,6 @@ interface BookingErrorProps {
 }
 
 export default function BookingError({ error, reset }: BookingErrorProps) {
-  // TODO: Replace with Paraglide
-  const t = (key: string) => key;
-
   useEffect(() => {
     // Log booking-specific error
     ErrorReporting.bookingError(error, {
@@ -32,14 +29,12 @@ export default function BookingError({ error, reset }: BookingErrorProps) {
     if (message.includes('payment') || message.includes('card')) {
       return {
         icon: CreditCard,
-        title: t('paymentError.title', { default: 'Payment Issue' }),
-        description: t('paymentError.description', { 
-          default: 'There was a problem processing your payment. Please check your payment details and try again.' 
-        }),
+        title: m['bookingError.paymentError.title'](),
+        description: m['bookingError.paymentError.description'](),
         suggestions: [
-          t('paymentError.suggestion1', { default: 'Verify your card details are correct' }),
-          t('paymentError.suggestion2', { default: 'Check if your card has sufficient funds' }),
-          t('paymentError.suggestion3', { default: 'Try a different payment method' }),
+          m['bookingError.paymentError.suggestion1'](),
+          m['bookingError.paymentError.suggestion2'](),
+          m['bookingError.paymentError.suggestion3'](),
         ],
       };
     }
@@ -47,14 +42,12 @@ export default function BookingError({ error, reset }: BookingErrorProps) {
     if (message.includes('availability') || message.includes('sold out')) {
       return {
         icon: Calendar,
-        title: t('availabilityError.title', { default: 'Tour Unavailable' }),
-        description: t('availabilityError.description', { 
-          default: 'This tour is no longer available for your selected date and time.' 
-        }),
+        title: m['bookingError.availabilityError.title'](),
+        description: m['bookingError.availabilityError.description'](),
         suggestions: [
-          t('availabilityError.suggestion1', { default: 'Try selecting a different date' }),
-          t('availabilityError.suggestion2', { default: 'Consider a smaller group size' }),
-          t('availabilityError.suggestion3', { default: 'Contact us for alternative options' }),
+          m['bookingError.availabilityError.suggestion1'](),
+          m['bookingError.availabilityError.suggestion2'](),
+          m['bookingError.availabilityError.suggestion3'](),
         ],
       };
     }
@@ -62,14 +55,12 @@ export default function BookingError({ error, reset }: BookingErrorProps) {
     // Generic booking error
     return {
       icon: AlertTriangle,
-      title: t('genericError.title', { default: 'Booking Error' }),
-      description: t('genericError.description', { 
-        default: 'We encountered an issue while processing your booking. Please try again or contact us for assistance.' 
-      }),
+      title: m['bookingError.genericError.title'](),
+      description: m['bookingError.genericError.description'](),
       suggestions: [
-        t('genericError.suggestion1', { default: 'Refresh the page and try again' }),
-        t('genericError.suggestion2', { default: 'Clear your browser cache' }),
-        t('genericError.suggestion3', { default: 'Contact us directly to complete your booking' }),
+        m['bookingError.genericError.suggestion1'](),
+        m['bookingError.genericError.suggestion2'](),
+        m['bookingError.genericError.suggestion3'](),
       ],
     };
   };
@@ -93,7 +84,7 @@ export default function BookingError({ error, reset }: BookingErrorProps) {
           {/* Suggestions */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <h4 className="font-semibold text-blue-900 mb-3">
-              {t('suggestions.title', { default: 'What you can try:' })}
+              {m['bookingError.suggestions.title']()}
             </h4>
             <ul className="space-y-2 text-sm text-blue-800">
               {errorDetails.suggestions.map((suggestion, index) => (
@@ -113,7 +104,7 @@ export default function BookingError({ error, reset }: BookingErrorProps) {
               variant="default"
             >
               <RefreshCw className="mr-2 h-4 w-4" />
-              {t('tryAgain', { default: 'Try Again' })}
+              {m['bookingError.tryAgain']()}
             </Button>
             <Button 
               asChild
@@ -122,7 +113,7 @@ export default function BookingError({ error, reset }: BookingErrorProps) {
             >
               <Link href="/tours">
                 <Calendar className="mr-2 h-4 w-4" />
-                {t('browseTours', { default: 'Browse Tours' })}
+                {m['bookingError.browseTours']()}
               </Link>
             </Button>
           </div>
@@ -130,14 +121,14 @@ export default function BookingError({ error, reset }: BookingErrorProps) {
           {/* Direct Contact Options */}
           <div className="border-t pt-6">
             <h4 className="font-semibold text-center mb-4">
-              {t('directContact.title', { default: 'Need immediate help?' })}
+              {m['bookingError.directContact.title']()}
             </h4>
             <div className="grid gap-3 sm:grid-cols-2">
               <Button asChild variant="outline" size="lg" className="h-auto p-4">
                 <a href="tel:+420123456789" className="flex flex-col items-center gap-2">
                   <Phone className="h-5 w-5" />
                   <span className="font-semibold">
-                    {t('directContact.phone', { default: 'Call Filip' })}
+                    {m['bookingError.directContact.phone']()}
                   </span>
                   <span className="text-xs opacity-80">+420 123 456 789</span>
                 </a>
@@ -147,10 +138,10 @@ export default function BookingError({ error, reset }: BookingErrorProps) {
                 <Link href="/contact" className="flex flex-col items-center gap-2">
                   <Mail className="h-5 w-5" />
                   <span className="font-semibold">
-                    {t('directContact.email', { default: 'Send Message' })}
+                    {m['bookingError.directContact.email']()}
                   </span>
                   <span className="text-xs opacity-80">
-                    {t('directContact.emailDescription', { default: 'Get personal assistance' })}
+                    {m['bookingError.directContact.emailDescription']()}
                   </span>
                 </Link>
               </Button>
@@ -160,21 +151,17 @@ export default function BookingError({ error, reset }: BookingErrorProps) {
           {/* Reassurance */}
           <div className="text-center text-sm text-gray-600 bg-gray-50 rounded-lg p-4">
             <p className="mb-2">
-              {t('reassurance', { 
-                default: 'Don\'t worry - your tour spot isn\'t lost! We\'re here to help you complete your booking.' 
-              })}
+              {m['bookingError.reassurance']()}
             </p>
             <p className="text-xs">
-              {t('responseTime', { 
-                default: 'We typically respond within 2 hours during business hours.' 
-              })}
+              {m['bookingError.responseTime']()}
             </p>
           </div>
 
           {process.env.NODE_ENV === 'development' && (
             <details className="mt-6">
               <summary className="cursor-pointer text-sm text-gray-600 hover:text-gray-800">
-                {t('technicalDetails', { default: 'Technical Details' })}
+                {m['bookingError.technicalDetails']()}
               </summary>
               <div className="mt-3 rounded bg-gray-100 p-4 text-xs font-mono">
                 <div className="mb-2">
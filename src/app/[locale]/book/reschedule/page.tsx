@@ -0,0 +1,36 @@
+import { RescheduleBooking } from '@/components/booking';
+
+interface ReschedulePageProps {
+  searchParams: Promise<{
+    code?: string;
+  }>;
+}
+
+export default async function ReschedulePage({ searchParams }: ReschedulePageProps) {
+  const { code } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-2xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Change Your Tour Date
+          </h1>
+          <p className="text-gray-600">
+            Move your booking up to 24 hours before the tour. Any price difference is settled automatically.
+          </p>
+        </div>
+
+        <RescheduleBooking initialConfirmationCode={code} />
+      </div>
+    </div>
+  );
+}
+
+export async function generateMetadata() {
+  return {
+    title: 'Reschedule Booking - Prague Tours with Filip',
+    description: 'Change the date or time of your Prague tour booking.',
+    robots: 'noindex, nofollow', // Booking pages shouldn't be indexed
+  };
+}
@@ -5,6 +5,7 @@ import { LanguageSwitcher } from '@/components/LanguageSwitcher';
 import { generateMetadata as generateSEOMetadata, generateAlternateUrls } from '@/lib/seo';
 import { generateLocalBusinessSchema } from '@/lib/structured-data';
 import { StructuredData } from '@/components/seo/structured-data';
+import { ContactForm } from '@/components/contact/contact-form';
 import { Locale } from '@/types';
 
 interface ContactPageProps {
@@ -22,12 +23,14 @@ export async function generateMetadata({ params }: ContactPageProps): Promise<Me
     en: 'Contact Filip Kareta - Prague Tour Guide | Book Your Tour',
     de: 'Kontakt Filip Kareta - Prag Reiseführer | Buchen Sie Ihre Tour',
     fr: 'Contacter Filip Kareta - Guide Touristique Prague | Réservez Votre Tour',
+    cs: 'Kontakt Filip Kareta - průvodce Prahou | Rezervujte si prohlídku',
   };
 
   const descriptions = {
     en: 'Contact Filip Kareta, your local Prague tour guide. Get in touch to book authentic storytelling tours, ask questions, or plan your perfect Prague experience.',
     de: 'Kontaktieren Sie Filip Kareta, Ihren lokalen Prag-Reiseführer. Nehmen Sie Kontakt auf, um authentische Erzähltouren zu buchen, Fragen zu stellen oder Ihr perfektes Prag-Erlebnis zu planen.',
     fr: 'Contactez Filip Kareta, votre guide touristique local de Prague. Prenez contact pour réserver des tours de narration authentiques, poser des questions ou planifier votre expérience parfaite à Prague.',
+    cs: 'Kontaktujte Filipa Karetu, vašeho místního průvodce Prahou. Ozvěte se a zarezervujte si autentickou prohlídku s příběhy, zeptejte se na cokoli nebo si naplánujte dokonalý zážitek v Praze.',
   };
 
   return generateSEOMetadata({
@@ -145,44 +148,7 @@ export default async function ContactPage({ params }: ContactPageProps) {
             </div>
 
             <div>
-              <form className="space-y-6">
-                <div>
-                  <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
-                    Name
-                  </label>
-                  <input
-                    type="text"
-                    id="name"
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                </div>
-                <div>
-                  <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                    Email
-                  </label>
-                  <input
-                    type="email"
-                    id="email"
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                </div>
-                <div>
-                  <label htmlFor="message" className="block text-sm font-medium text-gray-700 mb-2">
-                    Message
-                  </label>
-                  <textarea
-                    id="message"
-                    rows={4}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  ></textarea>
-                </div>
-                <button
-                  type="submit"
-                  className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-6 rounded-md transition-colors"
-                >
-                  Send Message
-                </button>
-              </form>
+              <ContactForm locale={locale} />
             </div>
           </div>
         </div>
@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect } from 'react';
-// import { useTranslations } from 'next-intl'; // TODO: Replace with Paraglide
+import * as m from '@/paraglide/messages';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { AlertTriangle, RefreshCw, Home, Mail } from 'lucide-react';
@@ -14,9 +14,6 @@ interface ErrorProps {
 }
 
 export default function Error({ error, reset }: ErrorProps) {
-  // TODO: Replace with Paraglide
-  const t = (key: string) => key;
-
   useEffect(() => {
     // Log error to Sentry and analytics
     sentry.captureException(error, {
@@ -50,12 +47,10 @@ export default function Error({ error, reset }: ErrorProps) {
             <AlertTriangle className="h-8 w-8 text-red-600" />
           </div>
           <CardTitle className="text-2xl">
-            {t('title', { default: 'Something went wrong' })}
+            {m['error.title']()}
           </CardTitle>
           <CardDescription className="text-base">
-            {t('description', { 
-              default: 'We encountered an unexpected error. Please try refreshing the page or contact us if the problem persists.' 
-            })}
+            {m['error.description']()}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -66,7 +61,7 @@ export default function Error({ error, reset }: ErrorProps) {
               variant="default"
             >
               <RefreshCw className="mr-2 h-4 w-4" />
-              {t('tryAgain', { default: 'Try Again' })}
+              {m['error.tryAgain']()}
             </Button>
             <Button 
               asChild
@@ -75,38 +70,36 @@ export default function Error({ error, reset }: ErrorProps) {
             >
               <Link href="/">
                 <Home className="mr-2 h-4 w-4" />
-                {t('goHome', { default: 'Go Home' })}
+                {m['error.goHome']()}
               </Link>
             </Button>
           </div>
 
           <div className="text-center">
             <p className="text-sm text-gray-600 mb-3">
-              {t('contactPrompt', { 
-                default: 'If the problem persists, please contact us:' 
-              })}
+              {m['error.contactPrompt']()}
             </p>
             <Button asChild variant="ghost" size="sm">
               <Link href="/contact">
                 <Mail className="mr-2 h-4 w-4" />
-                {t('contactSupport', { default: 'Contact Support' })}
+                {m['error.contactSupport']()}
               </Link>
             </Button>
           </div>
 
           <div className="text-center">
             <p className="text-sm text-gray-600 mb-2">
-              {t('alternativeContact', { default: 'Or reach out directly:' })}
+              {m['error.alternativeContact']()}
             </p>
             <div className="space-y-1 text-sm">
               <p>
-                <strong>{t('phone', { default: 'Phone' })}:</strong>{' '}
+                <strong>{m['error.phone']()}:</strong>{' '}
                 <a href="tel:+420123456789" className="text-prague-600 hover:underline">
                   +420 123 456 789
                 </a>
               </p>
               <p>
-                <strong>{t('email', { default: 'Email' })}:</strong>{' '}
+                <strong>{m['error.email']()}:</strong>{' '}
                 <a href="mailto:filip@guidefilip-prague.com" className="text-prague-600 hover:underline">
                   filip@guidefilip-prague.com
                 </a>
@@ -117,7 +110,7 @@ export default function Error({ error, reset }: ErrorProps) {
           {process.env.NODE_ENV === 'development' && (
             <details className="mt-6">
               <summary className="cursor-pointer text-sm text-gray-600 hover:text-gray-800">
-                {t('technicalDetails', { default: 'Technical Details' })}
+                {m['error.technicalDetails']()}
               </summary>
               <div className="mt-3 rounded bg-gray-100 p-4 text-xs font-mono">
                 <div className="mb-2">
@@ -141,7 +134,7 @@ export default function Error({ error, reset }: ErrorProps) {
           )}
 
           <div className="text-center text-xs text-gray-500">
-            {t('errorId', { default: 'Error ID' })}: {error.digest || 'N/A'}
+            {m['error.errorId']()}: {error.digest || 'N/A'}
           </div>
         </CardContent>
       </Card>
@@ -1,11 +1,12 @@
 import { notFound } from 'next/navigation';
-import { locales, setLocale } from '@/paraglide/runtime';
+import { setLocale } from '@/paraglide/runtime';
+import { isLocale, LOCALES } from '@/lib/i18n';
 import { PageHead } from '@/components/seo/page-head';
 import { Header } from '@/components/layout/header';
 import { Footer } from '@/components/layout/footer';
 
 export function generateStaticParams() {
-  return locales.map((locale) => ({ locale }));
+  return LOCALES.map((locale) => ({ locale }));
 }
 
 export default async function LocaleLayout({
@@ -18,12 +19,12 @@ export default async function LocaleLayout({
   const { locale } = await params;
 
   // Ensure that the incoming `locale` is valid
-  if (!locales.includes(locale as any)) {
+  if (!isLocale(locale)) {
     notFound();
   }
 
   // Set the locale for Paraglide
-  setLocale(locale as any);
+  setLocale(locale);
 
   return (
     <>
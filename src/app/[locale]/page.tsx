@@ -13,9 +13,10 @@ import { generateMetadata as generateSEOMetadata, generateAlternateUrls } from '
 import { LazySection } from '@/components/ui/lazy-wrapper';
 import { StructuredData } from '@/components/seo/structured-data';
 import { generateLocalBusinessSchema, generateWebsiteSchema, generatePersonSchema } from '@/lib/structured-data';
+import type { Locale } from '@/types';
 
 interface HomePageProps {
-  params: Promise<{ locale: 'en' | 'de' | 'fr' }>;
+  params: Promise<{ locale: Locale }>;
 }
 
 // Enable Static Site Generation for homepage
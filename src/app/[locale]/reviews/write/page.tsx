@@ -0,0 +1,74 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { ReviewForm } from '@/components/reviews/review-form';
+import { MAX_REVIEW_PHOTOS, ReviewLinkError, verifyReviewLink } from '@/lib/verified-reviews';
+import { getTourConfig } from '@/lib/tour-catalog';
+import type { StoredBooking } from '@/lib/booking-store';
+import type { Locale } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+interface WriteReviewPageProps {
+  params: Promise<{ locale: Locale }>;
+  searchParams: Promise<{
+    booking?: string;
+    expires?: string;
+    signature?: string;
+  }>;
+}
+
+export default async function WriteReviewPage({ params, searchParams }: WriteReviewPageProps) {
+  const { locale } = await params;
+  const link = await searchParams;
+
+  let booking: StoredBooking | null = null;
+  let problem: string | null = null;
+  try {
+    booking = await verifyReviewLink(link);
+  } catch (error) {
+    if (!(error instanceof ReviewLinkError)) throw error;
+    problem = error.message;
+  }
+
+  const tourTitle = booking
+    ? getTourConfig(booking.tourId)?.title[locale] || booking.tourId
+    : '';
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-2xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Review Your Tour
+          </h1>
+          <p className="text-gray-600">
+            Tell future guests what the tour was like. Reviews are published once they have been checked.
+          </p>
+        </div>
+
+        {booking ? (
+          <ReviewForm
+            link={{ booking: link.booking!, expires: link.expires!, signature: link.signature! }}
+            tourTitle={tourTitle}
+            firstName={booking.customerInfo.firstName}
+            defaultCountry={booking.customerInfo.country}
+            maxPhotos={MAX_REVIEW_PHOTOS}
+          />
+        ) : (
+          <Card>
+            <CardContent className="p-8 text-center text-gray-600">
+              {problem}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export async function generateMetadata() {
+  return {
+    title: 'Review Your Tour - Prague Tours with Filip',
+    description: 'Share your experience of a Prague tour with Filip.',
+    robots: 'noindex, nofollow', // Personal review links shouldn't be indexed
+  };
+}
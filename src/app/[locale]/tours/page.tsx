@@ -4,9 +4,10 @@ import { setLocale } from '@/paraglide/runtime';
 import { LanguageSwitcher } from '@/components/LanguageSwitcher';
 import { generateMetadata as generateSEOMetadata, generateAlternateUrls } from '@/lib/seo';
 import { LazySection } from '@/components/ui/lazy-wrapper';
+import type { Locale } from '@/types';
 
 interface ToursPageProps {
-  params: Promise<{ locale: 'en' | 'de' | 'fr' }>;
+  params: Promise<{ locale: Locale }>;
 }
 
 // Enable Static Site Generation for tours listing page
@@ -0,0 +1,75 @@
+// Admin sign-in API route
+// Password plus authenticator code; the session lives in an HTTP-only cookie
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateAdmin, requireAdmin, startAdminSession } from '@/lib/admin-auth';
+import { SessionManager } from '@/lib/session-management';
+import { checkRateLimit, RATE_LIMIT_CONFIGS, SECURITY_HEADERS } from '@/lib/security-middleware';
+
+const loginSchema = z.object({
+  email: z.string().trim().email('Invalid email address'),
+  password: z.string().min(1, 'Password is required').max(200),
+  code: z.string().trim().min(1, 'Authenticator code is required').max(10),
+});
+
+// GET - The signed-in admin
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'dashboard');
+  if (auth.response) return auth.response;
+
+  return NextResponse.json({ success: true, user: auth.user });
+}
+
+// POST - Sign in
+export async function POST(request: NextRequest) {
+  try {
+    const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
+    const rateLimitCheck = checkRateLimit(`admin-login:${clientIP}`, RATE_LIMIT_CONFIGS.adminLogin);
+    if (!rateLimitCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Too many sign-in attempts. Please try again later.',
+          resetTime: rateLimitCheck.resetTime
+        },
+        { status: 429, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const { email, password, code } = loginSchema.parse(await request.json());
+    const user = await authenticateAdmin(email, password, code);
+
+    if (!user) {
+      console.warn('Admin sign-in failed:', { email, clientIP });
+      return NextResponse.json(
+        { error: 'Invalid email, password or authenticator code' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true, user });
+    await startAdminSession(user, request, response);
+    return response;
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid sign-in request', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error signing in admin:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Sign out
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  SessionManager.clearAdminSessionCookie(response);
+  return response;
+}
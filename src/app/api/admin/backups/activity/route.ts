@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs';
 import path from 'path';
+import { requireAdmin } from '@/lib/admin-auth';
 
 const BACKUP_PATH = path.join(process.cwd(), 'content/backups');
 const BACKUP_METADATA_PATH = path.join(BACKUP_PATH, 'metadata.json');
@@ -30,6 +31,9 @@ function loadBackupMetadata(): { backups: any[]; activity: ActivityLog[] } {
 
 // GET - Get activity log
 export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'backups');
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '50');
@@ -4,6 +4,9 @@ import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { requireAdmin } from '@/lib/admin-auth';
+import { revalidateBlogPages } from '@/lib/blog-content';
+import { blogIndex } from '@/lib/blog-index';
 
 const execAsync = promisify(exec);
 
@@ -161,16 +164,10 @@ async function restoreFiles(extractPath: string, backupType: string): Promise<vo
         throw new Error(`Unknown backup type: ${backupType}`);
     }
 
-    // Regenerate blog data if blog content was restored
+    // Reindex the blog if blog content was restored
     if (backupType === 'blog' || backupType === 'full') {
-      try {
-        await execAsync('node scripts/process-blog-posts.js', {
-          cwd: projectRoot
-        });
-      } catch (error) {
-        console.error('Error regenerating blog data:', error);
-        // Don't fail the restore if blog regeneration fails
-      }
+      blogIndex.invalidate();
+      revalidateBlogPages();
     }
 
   } catch (error) {
@@ -181,6 +178,9 @@ async function restoreFiles(extractPath: string, backupType: string): Promise<vo
 
 // POST - Restore backup
 export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request, 'restore');
+  if (auth.response) return auth.response;
+
   try {
     const { backupId } = await request.json();
 
@@ -227,7 +227,7 @@ export async function POST(request: NextRequest) {
         type: backup.type,
         filename: backup.originalFilename,
         timestamp: new Date().toISOString(),
-        author: 'Filip Kareta',
+        author: auth.user.name,
         description: `Restored ${backup.type} backup from ${new Date(backup.createdAt).toLocaleDateString()}`
       };
 
@@ -3,6 +3,7 @@ import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import archiver from 'archiver';
+import { requireAdmin } from '@/lib/admin-auth';
 
 const BACKUP_PATH = path.join(process.cwd(), 'content/backups');
 const BACKUP_METADATA_PATH = path.join(BACKUP_PATH, 'metadata.json');
@@ -133,6 +134,9 @@ async function createBackupArchive(type: string, outputPath: string): Promise<nu
 
 // GET - List backups and activity
 export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'backups');
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type');
@@ -166,6 +170,9 @@ export async function GET(request: NextRequest) {
 
 // POST - Create backup
 export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request, 'backups');
+  if (auth.response) return auth.response;
+
   try {
     const { type } = await request.json();
 
@@ -199,7 +206,7 @@ export async function POST(request: NextRequest) {
       size,
       createdAt: new Date().toISOString(),
       description: `${type.charAt(0).toUpperCase() + type.slice(1)} backup created automatically`,
-      author: 'Filip Kareta',
+      author: auth.user.name,
       version
     };
 
@@ -210,7 +217,7 @@ export async function POST(request: NextRequest) {
       type: type as any,
       filename: backup.originalFilename,
       timestamp: new Date().toISOString(),
-      author: 'Filip Kareta',
+      author: auth.user.name,
       description: `Created ${type} backup`
     };
 
@@ -253,6 +260,9 @@ export async function POST(request: NextRequest) {
 
 // DELETE - Delete backup
 export async function DELETE(request: NextRequest) {
+  const auth = await requireAdmin(request, 'backups');
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const backupId = searchParams.get('id');
@@ -292,7 +302,7 @@ export async function DELETE(request: NextRequest) {
       type: backup.type,
       filename: backup.originalFilename,
       timestamp: new Date().toISOString(),
-      author: 'Filip Kareta',
+      author: auth.user.name,
       description: `Deleted ${backup.type} backup`
     };
 
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  renderEmail,
+  EMAIL_TEMPLATES,
+  EMAIL_LOCALES,
+  SAMPLE_EMAIL_DATA,
+  EmailTemplateName,
+} from '@/lib/email-templates';
+import { Locale } from '@/types';
+import { requireAdmin } from '@/lib/admin-auth';
+
+// GET - Render a transactional email template with sample data for previewing
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'emails');
+  if (auth.response) return auth.response;
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const template = (searchParams.get('template') || EMAIL_TEMPLATES[0]) as EmailTemplateName;
+    const locale = (searchParams.get('locale') || 'en') as Locale;
+
+    if (!EMAIL_TEMPLATES.includes(template)) {
+      return NextResponse.json(
+        { error: 'Unknown email template' },
+        { status: 400 }
+      );
+    }
+
+    if (!EMAIL_LOCALES.includes(locale)) {
+      return NextResponse.json(
+        { error: 'Unsupported locale' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      templates: EMAIL_TEMPLATES,
+      locales: EMAIL_LOCALES,
+      email: renderEmail(template, locale, SAMPLE_EMAIL_DATA[template]),
+    });
+
+  } catch (error) {
+    console.error('Error rendering email preview:', error);
+    return NextResponse.json(
+      { error: 'Failed to render email preview' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIncidents, resolveIncident, retryIncidentRefund } from '@/lib/booking-recovery';
+import { requireAdmin } from '@/lib/admin-auth';
+
+// GET - List payments that could not be turned into bookings
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'payments');
+  if (auth.response) return auth.response;
+
+  try {
+    const incidents = await getIncidents();
+
+    return NextResponse.json({
+      success: true,
+      incidents,
+    });
+
+  } catch (error) {
+    console.error('Error listing incidents:', error);
+    return NextResponse.json(
+      { error: 'Failed to list incidents' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Retry an incident's refund or mark it resolved
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request, 'payments');
+  if (auth.response) return auth.response;
+
+  try {
+    const { id, action, note } = await request.json();
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json(
+        { error: 'Incident ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!['retry-refund', 'resolve'].includes(action)) {
+      return NextResponse.json(
+        { error: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    const incident = action === 'retry-refund'
+      ? await retryIncidentRefund(id)
+      : await resolveIncident(id, typeof note === 'string' ? note : undefined);
+
+    if (!incident) {
+      return NextResponse.json(
+        { error: 'Incident not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: incident.status !== 'refund_failed',
+      incident,
+    });
+
+  } catch (error) {
+    console.error('Error updating incident:', error);
+    return NextResponse.json(
+      { error: 'Failed to update incident' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getInquiries, answerInquiry, archiveInquiry, InquiryStatus } from '@/lib/inquiries';
+import { requireAdmin } from '@/lib/admin-auth';
+
+// GET - List contact form inquiries, optionally by status
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'inquiries');
+  if (auth.response) return auth.response;
+
+  try {
+    const status = request.nextUrl.searchParams.get('status') as InquiryStatus | null;
+    const inquiries = await getInquiries(status || undefined);
+
+    return NextResponse.json({
+      success: true,
+      inquiries,
+    });
+
+  } catch (error) {
+    console.error('Error listing inquiries:', error);
+    return NextResponse.json(
+      { error: 'Failed to list inquiries' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Answer or archive an inquiry
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request, 'inquiries');
+  if (auth.response) return auth.response;
+
+  try {
+    const { id, action, message } = await request.json();
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json(
+        { error: 'Inquiry ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!['answer', 'archive'].includes(action)) {
+      return NextResponse.json(
+        { error: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'answer' && (typeof message !== 'string' || !message.trim())) {
+      return NextResponse.json(
+        { error: 'Reply message is required' },
+        { status: 400 }
+      );
+    }
+
+    const inquiry = action === 'answer'
+      ? await answerInquiry(id, message.trim())
+      : await archiveInquiry(id);
+
+    if (!inquiry) {
+      return NextResponse.json(
+        { error: 'Inquiry not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      inquiry,
+    });
+
+  } catch (error) {
+    console.error('Error updating inquiry:', error);
+    return NextResponse.json(
+      { error: 'Failed to update inquiry' },
+      { status: 500 }
+    );
+  }
+}
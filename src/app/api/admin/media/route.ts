@@ -1,113 +1,79 @@
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
-
-const MEDIA_PATH = path.join(process.cwd(), 'public/media');
-const MEDIA_METADATA_PATH = path.join(process.cwd(), 'content/media-metadata.json');
-
-interface MediaFile {
-  id: string;
-  name: string;
-  originalName: string;
-  url: string;
-  type: 'image' | 'video' | 'document';
-  size: number;
-  uploadedAt: string;
-  dimensions?: {
-    width: number;
-    height: number;
-  };
-  optimized?: boolean;
-  mimeType: string;
-}
-
-// Ensure directories exist
-function ensureDirectoryExists(dirPath: string) {
-  if (!fs.existsSync(dirPath)) {
-    fs.mkdirSync(dirPath, { recursive: true });
-  }
-}
+import { requireAdmin } from '@/lib/admin-auth';
+import {
+  deleteMediaFile,
+  listMediaFiles,
+  MediaInUseError,
+  MediaUsage,
+  mediaTextSchema,
+  updateMediaText,
+} from '@/lib/media-library';
+
+// GET - List all media files with where each one is used
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'content');
+  if (auth.response) return auth.response;
 
-// Load media metadata
-function loadMediaMetadata(): MediaFile[] {
   try {
-    if (fs.existsSync(MEDIA_METADATA_PATH)) {
-      const data = fs.readFileSync(MEDIA_METADATA_PATH, 'utf8');
-      return JSON.parse(data);
-    }
-  } catch (error) {
-    console.error('Error loading media metadata:', error);
-  }
-  return [];
-}
+    const files = await listMediaFiles();
+
+    return NextResponse.json({
+      success: true,
+      files
+    });
 
-// Save media metadata
-function saveMediaMetadata(files: MediaFile[]) {
-  try {
-    ensureDirectoryExists(path.dirname(MEDIA_METADATA_PATH));
-    fs.writeFileSync(MEDIA_METADATA_PATH, JSON.stringify(files, null, 2));
   } catch (error) {
-    console.error('Error saving media metadata:', error);
-    throw error;
+    console.error('Error listing media files:', error);
+    return NextResponse.json(
+      { error: 'Failed to list media files' },
+      { status: 500 }
+    );
   }
 }
 
-// Get file type from mime type
-function getFileType(mimeType: string): 'image' | 'video' | 'document' {
-  if (mimeType.startsWith('image/')) return 'image';
-  if (mimeType.startsWith('video/')) return 'video';
-  return 'document';
-}
-
-// Generate safe filename
-function generateSafeFilename(originalName: string): string {
-  const ext = path.extname(originalName);
-  const name = path.basename(originalName, ext);
-  const safeName = name
-    .toLowerCase()
-    .replace(/[^a-z0-9-]/g, '-')
-    .replace(/-+/g, '-')
-    .replace(/^-|-$/g, '');
-  
-  const timestamp = Date.now();
-  return `${safeName}-${timestamp}${ext}`;
-}
+// PATCH - Update per-locale alt text and caption
+export async function PATCH(request: NextRequest) {
+  const auth = await requireAdmin(request, 'content');
+  if (auth.response) return auth.response;
 
-// GET - List all media files
-export async function GET(request: NextRequest) {
   try {
-    const files = loadMediaMetadata();
-    
-    // Verify files still exist and update metadata
-    const existingFiles = files.filter(file => {
-      const filePath = path.join(process.cwd(), 'public', file.url.replace(/^\//, ''));
-      return fs.existsSync(filePath);
-    });
+    const { id, ...text } = await request.json();
+    const parsed = mediaTextSchema.safeParse(text);
 
-    // Save updated metadata if files were removed
-    if (existingFiles.length !== files.length) {
-      saveMediaMetadata(existingFiles);
+    if (!id || !parsed.success) {
+      return NextResponse.json(
+        { error: parsed.success ? 'File ID is required' : parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const file = await updateMediaText(id, parsed.data);
+    if (!file) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
     }
 
     return NextResponse.json({
       success: true,
-      files: existingFiles.sort((a, b) => 
-        new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime()
-      )
+      file
     });
 
   } catch (error) {
-    console.error('Error listing media files:', error);
+    console.error('Error updating media file:', error);
     return NextResponse.json(
-      { error: 'Failed to list media files' },
+      { error: 'Failed to update file' },
       { status: 500 }
     );
   }
 }
 
-// DELETE - Delete media file
+// DELETE - Delete media file unless content still uses it
 export async function DELETE(request: NextRequest) {
+  const auth = await requireAdmin(request, 'content');
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const fileId = searchParams.get('id');
@@ -119,28 +85,13 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const files = loadMediaMetadata();
-    const fileIndex = files.findIndex(file => file.id === fileId);
-
-    if (fileIndex === -1) {
+    if (!(await deleteMediaFile(fileId))) {
       return NextResponse.json(
         { error: 'File not found' },
         { status: 404 }
       );
     }
 
-    const file = files[fileIndex];
-    const filePath = path.join(process.cwd(), 'public', file.url.replace(/^\//, ''));
-
-    // Delete physical file
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-    }
-
-    // Remove from metadata
-    files.splice(fileIndex, 1);
-    saveMediaMetadata(files);
-
     return NextResponse.json({
       success: true,
       message: 'File deleted successfully',
@@ -148,6 +99,13 @@ export async function DELETE(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof MediaInUseError) {
+      return NextResponse.json(
+        { error: error.message, usage: error.usage },
+        { status: 409 }
+      );
+    }
+
     console.error('Error deleting media file:', error);
     return NextResponse.json(
       { error: 'Failed to delete file' },
@@ -158,6 +116,9 @@ export async function DELETE(request: NextRequest) {
 
 // POST - Bulk operations (delete multiple files, etc.)
 export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request, 'content');
+  if (auth.response) return auth.response;
+
   try {
     const { action, fileIds } = await request.json();
 
@@ -169,32 +130,26 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      const files = loadMediaMetadata();
       const deletedFiles: string[] = [];
+      // Files still in use are left in place and reported back
+      const blockedFiles: Array<{ id: string; usage: MediaUsage[] }> = [];
 
       for (const fileId of fileIds) {
-        const fileIndex = files.findIndex(file => file.id === fileId);
-        if (fileIndex !== -1) {
-          const file = files[fileIndex];
-          const filePath = path.join(process.cwd(), 'public', file.url.replace(/^\//, ''));
-
-          // Delete physical file
-          if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
+        try {
+          if (await deleteMediaFile(fileId)) {
+            deletedFiles.push(fileId);
           }
-
-          // Remove from array
-          files.splice(fileIndex, 1);
-          deletedFiles.push(fileId);
+        } catch (error) {
+          if (!(error instanceof MediaInUseError)) throw error;
+          blockedFiles.push({ id: fileId, usage: error.usage });
         }
       }
 
-      saveMediaMetadata(files);
-
       return NextResponse.json({
         success: true,
         message: `${deletedFiles.length} files deleted successfully`,
-        deletedFiles
+        deletedFiles,
+        blockedFiles
       });
     }
 
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOutboxEmails, retryEmail, OutboxEmail, OutboxStatus } from '@/lib/email-outbox';
+import { requireAdmin } from '@/lib/admin-auth';
+
+// Bodies are large and not needed for the log
+const toLogEntry = ({
+  id, template, bookingId, to, subject, status, attempts, nextAttemptAt, lastError, createdAt, sentAt, bouncedAt,
+}: OutboxEmail) => ({
+  id, template, bookingId, to, subject, status, attempts, nextAttemptAt, lastError, createdAt, sentAt, bouncedAt,
+});
+
+// GET - Email delivery log, optionally by status or booking
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'bookings');
+  if (auth.response) return auth.response;
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const emails = await getOutboxEmails({
+      status: (searchParams.get('status') as OutboxStatus | null) || undefined,
+      bookingId: searchParams.get('bookingId') || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      emails: emails.map(toLogEntry),
+    });
+
+  } catch (error) {
+    console.error('Error listing outbox emails:', error);
+    return NextResponse.json(
+      { error: 'Failed to list emails' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Send a failed or bounced email again
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request, 'bookings');
+  if (auth.response) return auth.response;
+
+  try {
+    const { id } = await request.json();
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json(
+        { error: 'Email ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const email = await retryEmail(id);
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email not found or already sent' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      email: toLogEntry(email),
+    });
+
+  } catch (error) {
+    console.error('Error retrying email:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry email' },
+      { status: 500 }
+    );
+  }
+}
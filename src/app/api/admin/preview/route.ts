@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllBlogPosts } from '@/lib/generated-blog-data';
 import { sampleTours } from '@/lib/content';
+import { LOCALES } from '@/lib/i18n';
 import type { Locale } from '@/types';
+import { requireAdmin } from '@/lib/admin-auth';
+import { listBlogPosts } from '@/lib/blog-content';
+import { createBlogPreviewPath } from '@/lib/preview-links';
 
 interface PreviewItem {
   id: string;
   type: 'blog' | 'tour' | 'page';
   title: string;
   slug: string;
-  status: 'draft' | 'modified' | 'published';
+  status: 'draft' | 'in-review' | 'scheduled' | 'modified' | 'published';
   lastModified: string;
   author: string;
   previewUrl: string;
@@ -17,23 +20,26 @@ interface PreviewItem {
 
 // GET - List all content items available for preview
 export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'content');
+  if (auth.response) return auth.response;
+
   try {
     const items: PreviewItem[] = [];
 
-    // Add blog posts
-    const blogPosts = getAllBlogPosts();
+    // Add blog posts from the content files, drafts included; unpublished ones get a signed preview link
+    const blogPosts = await listBlogPosts();
     for (const post of blogPosts) {
       items.push({
         id: `blog-${post.slug}`,
         type: 'blog',
-        title: post.frontmatter.title.en || 'Untitled Blog Post',
+        title: post.title.en || 'Untitled Blog Post',
         slug: post.slug,
-        status: post.updatedAt ? 'modified' : 'published',
-        lastModified: post.updatedAt || post.publishedAt,
-        author: post.frontmatter.author,
-        previewUrl: `/blog/${post.slug}`,
-        languages: Object.keys(post.frontmatter.title).filter(lang => 
-          post.frontmatter.title[lang as Locale]
+        status: post.status,
+        lastModified: post.lastModified,
+        author: post.author,
+        previewUrl: post.status === 'published' ? `/blog/${post.slug}` : createBlogPreviewPath(post.slug).path,
+        languages: Object.keys(post.title).filter(lang => 
+          post.title[lang as Locale]
         )
       });
     }
@@ -66,7 +72,7 @@ export async function GET(request: NextRequest) {
         lastModified: new Date().toISOString(),
         author: 'Filip Kareta',
         previewUrl: '/',
-        languages: ['en', 'de', 'fr']
+        languages: LOCALES
       },
       {
         id: 'page-about',
@@ -77,7 +83,7 @@ export async function GET(request: NextRequest) {
         lastModified: new Date().toISOString(),
         author: 'Filip Kareta',
         previewUrl: '/about',
-        languages: ['en', 'de', 'fr']
+        languages: LOCALES
       },
       {
         id: 'page-contact',
@@ -88,7 +94,7 @@ export async function GET(request: NextRequest) {
         lastModified: new Date().toISOString(),
         author: 'Filip Kareta',
         previewUrl: '/contact',
-        languages: ['en', 'de', 'fr']
+        languages: LOCALES
       }
     ];
 
@@ -108,6 +114,8 @@ export async function GET(request: NextRequest) {
         tour: items.filter(item => item.type === 'tour').length,
         page: items.filter(item => item.type === 'page').length,
         draft: items.filter(item => item.status === 'draft').length,
+        inReview: items.filter(item => item.status === 'in-review').length,
+        scheduled: items.filter(item => item.status === 'scheduled').length,
         modified: items.filter(item => item.status === 'modified').length,
         published: items.filter(item => item.status === 'published').length
       }
@@ -124,6 +132,9 @@ export async function GET(request: NextRequest) {
 
 // POST - Update preview status or create preview session
 export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request, 'content');
+  if (auth.response) return auth.response;
+
   try {
     const { action, itemId, previewData } = await request.json();
 
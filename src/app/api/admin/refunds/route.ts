@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRefundQueue, retryQueuedRefund } from '@/lib/refunds';
+import { requireAdmin } from '@/lib/admin-auth';
+
+// GET - List refunds that could not be issued automatically
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'payments');
+  if (auth.response) return auth.response;
+
+  try {
+    const refunds = await getRefundQueue();
+
+    return NextResponse.json({
+      success: true,
+      refunds,
+    });
+
+  } catch (error) {
+    console.error('Error listing refund queue:', error);
+    return NextResponse.json(
+      { error: 'Failed to list refunds' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Retry a failed refund
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request, 'payments');
+  if (auth.response) return auth.response;
+
+  try {
+    const { id } = await request.json();
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json(
+        { error: 'Refund ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const refund = await retryQueuedRefund(id);
+
+    if (!refund) {
+      return NextResponse.json(
+        { error: 'Refund not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: refund.status === 'succeeded',
+      refund,
+    });
+
+  } catch (error) {
+    console.error('Error retrying refund:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry refund' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateReviewStats, getReviews } from '@/lib/review-aggregation';
+import { buildReviewAnalytics, REVIEW_ANALYTICS_CONFIG } from '@/lib/review-analytics';
+import { requireAdmin } from '@/lib/admin-auth';
+
+// GET - Rating trends, sentiment, recurring themes and low-rating alerts, optionally for one tour
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'reviews');
+  if (auth.response) return auth.response;
+
+  try {
+    const tourId = request.nextUrl.searchParams.get('tourId');
+    const reviews = await getReviews(tourId);
+
+    return NextResponse.json({
+      success: true,
+      stats: calculateReviewStats(reviews),
+      ...buildReviewAnalytics(reviews),
+      config: REVIEW_ANALYTICS_CONFIG,
+    });
+
+  } catch (error) {
+    console.error('Error building review analytics:', error);
+    return NextResponse.json(
+      { error: 'Failed to build review analytics' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getStoredReviews,
+  moderateReview,
+  replyToReview,
+  ReviewStatus,
+} from '@/lib/verified-reviews';
+import { requireAdmin } from '@/lib/admin-auth';
+
+// GET - List submitted reviews, optionally by moderation status
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'reviews');
+  if (auth.response) return auth.response;
+
+  try {
+    const status = request.nextUrl.searchParams.get('status') as ReviewStatus | null;
+    const reviews = await getStoredReviews(status || undefined);
+
+    return NextResponse.json({
+      success: true,
+      reviews,
+    });
+
+  } catch (error) {
+    console.error('Error listing reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to list reviews' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Approve, reject or reply to a review
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request, 'reviews');
+  if (auth.response) return auth.response;
+
+  try {
+    const { id, action, message } = await request.json();
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json(
+        { error: 'Review ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!['approve', 'reject', 'reply'].includes(action)) {
+      return NextResponse.json(
+        { error: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'reply' && (typeof message !== 'string' || !message.trim())) {
+      return NextResponse.json(
+        { error: 'Reply message is required' },
+        { status: 400 }
+      );
+    }
+
+    const review = action === 'reply'
+      ? await replyToReview(id, message.trim())
+      : await moderateReview(id, action === 'approve' ? 'approved' : 'rejected');
+
+    if (!review) {
+      return NextResponse.json(
+        { error: 'Review not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      review,
+    });
+
+  } catch (error) {
+    console.error('Error updating review:', error);
+    return NextResponse.json(
+      { error: 'Failed to update review' },
+      { status: 500 }
+    );
+  }
+}
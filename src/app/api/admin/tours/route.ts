@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import {
+  listTourContent,
+  readTourContent,
+  saveTourContent,
+  TourValidationError,
+} from '@/lib/tour-content';
+
+async function saveTour(request: NextRequest, isNew: boolean) {
+  try {
+    const { tour } = await request.json();
+    const result = await saveTourContent(tour, { isNew });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Tour not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.isUpdate ? 'Tour updated successfully' : 'Tour created successfully',
+      tour: result.tour,
+    }, { status: result.isUpdate ? 200 : 201 });
+
+  } catch (error) {
+    if (error instanceof TourValidationError) {
+      return NextResponse.json(
+        { error: 'Please fix the highlighted fields', fieldErrors: error.fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error saving tour:', error);
+    return NextResponse.json(
+      { error: 'Failed to save tour' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET - List tours, or one tour's full content with ?id=
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'content');
+  if (auth.response) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      const tour = await readTourContent(id);
+      if (!tour) {
+        return NextResponse.json(
+          { error: 'Tour not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, tour });
+    }
+
+    const tours = await listTourContent();
+    return NextResponse.json({
+      success: true,
+      tours,
+      total: tours.length
+    });
+
+  } catch (error) {
+    console.error('Error loading tours:', error);
+    return NextResponse.json(
+      { error: 'Failed to load tours' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a tour
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request, 'content');
+  if (auth.response) return auth.response;
+
+  return saveTour(request, true);
+}
+
+// PUT - Update a tour; the previous file is backed up first
+export async function PUT(request: NextRequest) {
+  const auth = await requireAdmin(request, 'content');
+  if (auth.response) return auth.response;
+
+  return saveTour(request, false);
+}
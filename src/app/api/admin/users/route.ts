@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  requireAdmin,
+  getAdminUsers,
+  createAdminUser,
+  updateAdminUser,
+  AdminUserError,
+} from '@/lib/admin-auth';
+import { ADMIN_ROLES } from '@/lib/admin-access';
+
+const MIN_PASSWORD_LENGTH = 12;
+
+const createUserSchema = z.object({
+  email: z.string().trim().email('Invalid email address'),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  role: z.enum(ADMIN_ROLES),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`).max(200),
+});
+
+const updateUserSchema = z.object({
+  id: z.string().min(1, 'User ID is required'),
+  name: z.string().trim().min(1).max(100).optional(),
+  role: z.enum(ADMIN_ROLES).optional(),
+  active: z.boolean().optional(),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`).max(200).optional(),
+  resetTotp: z.boolean().optional(),
+});
+
+function handleUserError(error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: error.issues[0]?.message || 'Invalid request', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof AdminUserError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`Error ${action} admin user:`, error);
+  return NextResponse.json(
+    { error: `Failed to ${action === 'creating' ? 'create' : 'update'} admin user` },
+    { status: 500 }
+  );
+}
+
+// GET - List admin accounts
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin(request, 'users');
+  if (auth.response) return auth.response;
+
+  try {
+    return NextResponse.json({
+      success: true,
+      users: await getAdminUsers(),
+    });
+  } catch (error) {
+    console.error('Error listing admin users:', error);
+    return NextResponse.json(
+      { error: 'Failed to list admin users' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create an account; the authenticator secret is only returned here
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request, 'users');
+  if (auth.response) return auth.response;
+
+  try {
+    const input = createUserSchema.parse(await request.json());
+    const result = await createAdminUser(input);
+
+    return NextResponse.json({ success: true, ...result }, { status: 201 });
+  } catch (error) {
+    return handleUserError(error, 'creating');
+  }
+}
+
+// PATCH - Change role or access, or reset the password or authenticator
+export async function PATCH(request: NextRequest) {
+  const auth = await requireAdmin(request, 'users');
+  if (auth.response) return auth.response;
+
+  try {
+    const { id, ...changes } = updateUserSchema.parse(await request.json());
+    const result = await updateAdminUser(id, changes);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Admin user not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return handleUserError(error, 'updating');
+  }
+}
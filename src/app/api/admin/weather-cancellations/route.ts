@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getBookingProvider } from '@/lib/booking-providers';
+import { getBookingRepository } from '@/lib/booking-store';
+import { calculateRefund, getHoursUntilTour } from '@/lib/cancellation-policy';
+import { getCancellationPolicy } from '@/lib/tour-catalog';
+import { refundBooking } from '@/lib/refunds';
+import { sendBookingCancellationEmail } from '@/lib/email-service';
+import { cancelBookingJobs } from '@/lib/jobs';
+
+const weatherCancellationSchema = z.object({
+  tourId: z.string().min(1, 'Tour ID is required'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, 'Start time must be HH:MM').optional(),
+  note: z.string().max(500).optional(),
+});
+
+// POST - Call off a departure for severe weather, cancelling and refunding every booking on it
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request, 'payments');
+  if (auth.response) return auth.response;
+
+  try {
+    const parsed = weatherCancellationSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.issues.map(issue => issue.message) },
+        { status: 400 }
+      );
+    }
+
+    const { tourId, date, startTime, note } = parsed.data;
+    const reason = note || 'Cancelled for severe weather';
+    const repo = getBookingRepository();
+    const provider = getBookingProvider();
+
+    const bookings = (await repo.findByDateRange(date, date)).filter(booking =>
+      booking.tourId === tourId &&
+      booking.status !== 'cancelled' &&
+      (!startTime || booking.startTime === startTime)
+    );
+
+    const results = [];
+    for (const booking of bookings) {
+      const cancellation = await provider.cancelBooking(booking.providerBookingId || booking.id);
+      if (!cancellation.success) {
+        results.push({ bookingId: booking.id, cancelled: false, error: cancellation.error || 'Cancellation failed' });
+        continue;
+      }
+
+      // The weather share of the policy applies, not the notice-based tiers
+      const { amount: refundAmount } = calculateRefund(
+        booking.totalPrice,
+        getHoursUntilTour(booking.date, booking.startTime),
+        getCancellationPolicy(booking.tourId, booking.date),
+        { weather: true }
+      );
+
+      await repo.updateStatus(booking.id, 'cancelled', reason);
+
+      try {
+        await cancelBookingJobs(booking.id, 'Booking cancelled');
+      } catch (jobError) {
+        console.error('Failed to cancel booking reminders:', jobError);
+      }
+
+      try {
+        await sendBookingCancellationEmail(booking, refundAmount);
+      } catch (emailError) {
+        console.error('Cancellation email failed:', emailError);
+      }
+
+      const refund = refundAmount > 0 ? await refundBooking(booking, refundAmount, reason) : null;
+
+      results.push({
+        bookingId: booking.id,
+        cancelled: true,
+        refundAmount,
+        // 'failed' refunds are retried from the admin refund queue
+        refundStatus: refund?.status,
+      });
+    }
+
+    console.log('Departure cancelled for weather:', {
+      tourId,
+      date,
+      startTime,
+      admin: auth.user.name,
+      bookings: results.length,
+    });
+
+    return NextResponse.json({
+      success: results.every(result => result.cancelled),
+      results,
+    });
+
+  } catch (error) {
+    console.error('Error cancelling departure for weather:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel departure' },
+      { status: 500 }
+    );
+  }
+}
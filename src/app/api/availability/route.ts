@@ -9,6 +9,14 @@ import {
   availabilityRequestSchema 
 } from '@/lib/booking-validation';
 import { bookingMonitor, measurePerformance } from '@/lib/booking-monitoring';
+import { seatHolds } from '@/lib/booking-holds';
+import { getTourConfig } from '@/lib/tour-catalog';
+import {
+  getPricingOptions,
+  getPricingInfo,
+  parseTourDate,
+  DAY_NAMES,
+} from '@/lib/tour-pricing';
 
 export async function GET(request: NextRequest) {
   try {
@@ -47,7 +55,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const tourAvailabilityValidation = BookingValidator.validateTourAvailability(tourId, date);
+    const tourAvailabilityValidation = BookingValidator.validateTourAvailability(getTourConfig(tourId), date);
     if (!tourAvailabilityValidation.valid) {
       return NextResponse.json(
         { 
@@ -67,8 +75,11 @@ export async function GET(request: NextRequest) {
       { tourId, date }
     );
 
+    // Seats held by customers currently paying are not available to others
+    const unheldSlots = await seatHolds.applyHolds(tourId, date, availability.availableSlots);
+
     // Enhance availability data with business logic
-    const enhancedSlots = availability.availableSlots.map(slot => {
+    const enhancedSlots = unheldSlots.map(slot => {
       const timeValidation = BookingValidator.validateBookingTime(
         slot.startTime.split('T')[1]?.slice(0, 5) || slot.startTime,
         date
@@ -81,25 +92,22 @@ export async function GET(request: NextRequest) {
       };
     }).filter(slot => slot.available); // Only return available slots
 
-    // Calculate pricing for different group sizes
-    const pricingOptions = [1, 2, 4, 6, 8].map(groupSize => ({
-      groupSize,
-      totalPrice: BookingValidator.calculateTotalPrice(tourId, groupSize, date),
-      pricePerPerson: BookingValidator.calculateTotalPrice(tourId, groupSize, date) / groupSize,
-    }));
+    // Calculate pricing for different group sizes from the tour's pricing rules
+    const tour = getTourConfig(tourId)!;
+    const pricingOptions = getPricingOptions(tour, date);
 
     return NextResponse.json({
       available: enhancedSlots.length > 0,
       availableSlots: enhancedSlots,
-      maxGroupSize: availability.maxGroupSize,
+      maxGroupSize: tour.maxGroupSize,
       pricing: {
-        ...availability.pricing,
+        ...getPricingInfo(tour),
         options: pricingOptions,
       },
       tourInfo: {
         id: tourId,
         date,
-        dayOfWeek: new Date(date).toLocaleDateString('en-US', { weekday: 'long' }),
+        dayOfWeek: DAY_NAMES[parseTourDate(date).getDay()],
       },
     });
 
@@ -159,7 +167,7 @@ export async function POST(request: NextRequest) {
       try {
         // Check business rules first
         const dateValidation = BookingValidator.validateBookingDate(dateStr);
-        const tourValidation = BookingValidator.validateTourAvailability(tourId, dateStr);
+        const tourValidation = BookingValidator.validateTourAvailability(getTourConfig(tourId), dateStr);
 
         if (!dateValidation.valid || !tourValidation.valid) {
           availabilityMap[dateStr] = {
@@ -169,9 +177,12 @@ export async function POST(request: NextRequest) {
         } else {
           // Check with provider
           const availability = await provider.checkAvailability(tourId, currentDate);
+          const openSlots = (
+            await seatHolds.applyHolds(tourId, dateStr, availability.availableSlots)
+          ).filter(slot => slot.availableSpots > 0);
           availabilityMap[dateStr] = {
-            available: availability.available && availability.availableSlots.length > 0,
-            slotsCount: availability.availableSlots.length,
+            available: availability.available && openSlots.length > 0,
+            slotsCount: openSlots.length,
             maxGroupSize: availability.maxGroupSize,
           };
         }
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchBlogPosts } from '@/lib/blog-index';
+import { LOCALES } from '@/lib/constants';
+import type { Locale } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+    const requested = searchParams.get('locale');
+    const locale: Locale = LOCALES.includes(requested as Locale) ? (requested as Locale) : 'en';
+
+    if (query.length < 2) {
+      return NextResponse.json({ success: true, posts: [] });
+    }
+
+    const posts = await searchBlogPosts(query, locale);
+
+    return NextResponse.json({ success: true, posts });
+  } catch (error) {
+    console.error('Blog search API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to search blog posts', posts: [] },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getBookingProvider } from '@/lib/booking-providers';
+import { getBookingRepository, findStoredBooking } from '@/lib/booking-store';
 import { 
   BookingError, 
   BookingErrorCodes, 
@@ -10,6 +11,18 @@ import {
   BookingRateLimiter 
 } from '@/lib/booking-validation';
 import { bookingMonitor } from '@/lib/booking-monitoring';
+import {
+  calculateRefund,
+  canChangeBooking,
+  describeCancellationPolicy,
+  getCancellationTiers,
+  getHoursUntilTour,
+} from '@/lib/cancellation-policy';
+import { getCancellationPolicy, getTourConfig } from '@/lib/tour-catalog';
+import { CancellationTerms } from '@/types';
+import { refundBooking, REFUND_ESTIMATED_ARRIVAL } from '@/lib/refunds';
+import { sendBookingCancellationEmail } from '@/lib/email-service';
+import { cancelBookingJobs } from '@/lib/jobs';
 import { z } from 'zod';
 
 const cancelBookingSchema = z.object({
@@ -18,6 +31,17 @@ const cancelBookingSchema = z.object({
   customerEmail: z.string().email('Valid email required for verification'),
 });
 
+// Public description of a policy, shared by both GET responses
+function formatPolicy(policy: CancellationTerms) {
+  return {
+    minimumNoticeHours: policy.minimumNoticeHours,
+    tiers: getCancellationTiers(policy),
+    depositPercent: policy.depositPercent || 0,
+    weatherRefundPercent: policy.weatherRefundPercent,
+    summary: describeCancellationPolicy(policy),
+  };
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Get client IP for rate limiting
@@ -55,8 +79,12 @@ export async function POST(request: NextRequest) {
     const { bookingId, reason, customerEmail } = requestData;
     const provider = getBookingProvider();
 
+    // Callers may pass our booking ID or the provider's; the provider only knows its own
+    const storedBooking = await findStoredBooking(bookingId);
+    const providerBookingId = storedBooking?.providerBookingId || bookingId;
+
     // First, get the booking to verify ownership and cancellation eligibility
-    const bookingResult = await provider.getBooking(bookingId);
+    const bookingResult = await provider.getBooking(providerBookingId);
     
     if (!bookingResult.success || !bookingResult.booking) {
       return NextResponse.json(
@@ -83,15 +111,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check cancellation policy (24 hours before tour)
-    const bookingDateTime = new Date(`${booking.date}T${booking.startTime}`);
-    const now = new Date();
-    const hoursUntilTour = (bookingDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
+    // Check the tour's cancellation policy
+    const policy = getCancellationPolicy(booking.tourId, booking.date);
+    const hoursUntilTour = getHoursUntilTour(booking.date, booking.startTime);
 
-    if (hoursUntilTour < 24) {
+    if (!canChangeBooking(hoursUntilTour, policy)) {
       return NextResponse.json(
         { 
-          error: 'Cancellations must be made at least 24 hours before the tour',
+          error: `Cancellations must be made at least ${policy.minimumNoticeHours} hours before the tour`,
           hoursUntilTour: Math.round(hoursUntilTour * 10) / 10
         },
         { status: 409 }
@@ -99,15 +126,14 @@ export async function POST(request: NextRequest) {
     }
 
     // Calculate refund amount based on cancellation policy
-    let refundPercent = 100;
-    if (hoursUntilTour < 48) {
-      refundPercent = 50; // 50% refund if cancelled within 48 hours
-    }
-
-    const refundAmount = (booking.totalPrice * refundPercent) / 100;
+    const {
+      percent: refundPercent,
+      amount: refundAmount,
+      depositRetained,
+    } = calculateRefund(booking.totalPrice, hoursUntilTour, policy);
 
     // Cancel the booking with the provider
-    const cancellationResult = await provider.cancelBooking(bookingId);
+    const cancellationResult = await provider.cancelBooking(providerBookingId);
 
     if (!cancellationResult.success) {
       throw new BookingError(
@@ -117,6 +143,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Record the status transition locally
+    if (storedBooking) {
+      await getBookingRepository().updateStatus(storedBooking.id, 'cancelled', reason);
+
+      try {
+        await cancelBookingJobs(storedBooking.id, 'Booking cancelled');
+      } catch (jobError) {
+        console.error('Failed to cancel booking reminders:', jobError);
+      }
+
+      try {
+        await sendBookingCancellationEmail(storedBooking, refundAmount);
+      } catch (emailError) {
+        console.error('Cancellation email failed:', emailError);
+      }
+    }
+
+    // Return the refundable share through the original payment method
+    const refund = storedBooking && refundAmount > 0
+      ? await refundBooking(storedBooking, refundAmount, reason || 'Customer cancellation')
+      : null;
+
     // Track cancellation
     bookingMonitor.trackCancellation({
       bookingId,
@@ -124,13 +172,13 @@ export async function POST(request: NextRequest) {
       reason,
     });
 
-    // Log cancellation (in production, this would trigger refund processing)
     console.log('Booking cancelled successfully:', {
       bookingId,
       customerEmail,
       reason,
       refundAmount,
       refundPercent,
+      refundStatus: refund?.status,
       hoursUntilTour,
     });
 
@@ -138,10 +186,13 @@ export async function POST(request: NextRequest) {
       success: true,
       message: 'Booking cancelled successfully',
       refund: {
-        amount: refundAmount,
+        amount: refund?.amount ?? refundAmount,
         percent: refundPercent,
-        currency: 'EUR',
-        processingTime: '3-5 business days',
+        depositRetained,
+        currency: getTourConfig(booking.tourId)?.currency,
+        // 'failed' refunds are retried by staff from the admin queue
+        status: refund?.status,
+        processingTime: REFUND_ESTIMATED_ARRIVAL,
       },
       cancellation: {
         cancelledAt: new Date().toISOString(),
@@ -175,30 +226,21 @@ export async function GET(request: NextRequest) {
     const bookingId = searchParams.get('bookingId');
 
     if (!bookingId) {
-      // Return general cancellation policy
+      // Return the policy for a tour (and date), or the default policy
+      const tourId = searchParams.get('tourId') || '';
+      const date = searchParams.get('date') || undefined;
+
       return NextResponse.json({
-        policy: {
-          fullRefund: {
-            timeframe: '48+ hours before tour',
-            refundPercent: 100,
-          },
-          partialRefund: {
-            timeframe: '24-48 hours before tour',
-            refundPercent: 50,
-          },
-          noRefund: {
-            timeframe: 'Less than 24 hours before tour',
-            refundPercent: 0,
-          },
-        },
-        processingTime: '3-5 business days',
-        currency: 'EUR',
+        policy: formatPolicy(getCancellationPolicy(tourId, date)),
+        processingTime: REFUND_ESTIMATED_ARRIVAL,
+        currency: getTourConfig(tourId)?.currency,
       });
     }
 
     // Get specific booking cancellation info
+    const storedBooking = await findStoredBooking(bookingId);
     const provider = getBookingProvider();
-    const bookingResult = await provider.getBooking(bookingId);
+    const bookingResult = await provider.getBooking(storedBooking?.providerBookingId || bookingId);
     
     if (!bookingResult.success || !bookingResult.booking) {
       return NextResponse.json(
@@ -208,32 +250,22 @@ export async function GET(request: NextRequest) {
     }
 
     const booking = bookingResult.booking;
-    const bookingDateTime = new Date(`${booking.date}T${booking.startTime}`);
-    const now = new Date();
-    const hoursUntilTour = (bookingDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-
-    let refundPercent = 0;
-    let canCancel = false;
-
-    if (hoursUntilTour >= 48) {
-      refundPercent = 100;
-      canCancel = true;
-    } else if (hoursUntilTour >= 24) {
-      refundPercent = 50;
-      canCancel = true;
-    }
-
-    const refundAmount = (booking.totalPrice * refundPercent) / 100;
+    const policy = getCancellationPolicy(booking.tourId, booking.date);
+    const hoursUntilTour = getHoursUntilTour(booking.date, booking.startTime);
+    const canCancel = canChangeBooking(hoursUntilTour, policy);
+    const refund = calculateRefund(booking.totalPrice, hoursUntilTour, policy);
 
     return NextResponse.json({
       bookingId,
       canCancel,
       hoursUntilTour: Math.round(hoursUntilTour * 10) / 10,
       refund: {
-        amount: refundAmount,
-        percent: refundPercent,
-        currency: 'EUR',
+        amount: refund.amount,
+        percent: refund.percent,
+        depositRetained: refund.depositRetained,
+        currency: getTourConfig(booking.tourId)?.currency,
       },
+      policy: formatPolicy(policy),
       booking: {
         date: booking.date,
         startTime: booking.startTime,
@@ -0,0 +1,134 @@
+// Seat hold API route
+// Reserves spots while the customer pays and releases them when checkout is abandoned
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getBookingProvider } from '@/lib/booking-providers';
+import { seatHolds, getSlotTime } from '@/lib/booking-holds';
+import {
+  BookingValidator,
+  BookingError,
+  BookingErrorCodes,
+  handleBookingError,
+} from '@/lib/booking-validation';
+import { getTourConfig } from '@/lib/tour-catalog';
+import { SECURITY_HEADERS } from '@/lib/security-middleware';
+import { checkPaymentRateLimit } from '@/lib/payment-security';
+
+const createHoldSchema = z.object({
+  tourId: z.string().min(1, 'Tour ID is required'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format'),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, 'Invalid time format'),
+  groupSize: z.number().int().min(1).max(50),
+});
+
+// Create a hold for the slot the customer is about to pay for
+export async function POST(request: NextRequest) {
+  try {
+    const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
+    const rateLimitCheck = checkPaymentRateLimit(clientIP);
+    if (!rateLimitCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Too many booking attempts. Please try again later.',
+          resetTime: rateLimitCheck.resetTime
+        },
+        { status: 429, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const holdRequest = createHoldSchema.parse(await request.json());
+
+    const tour = getTourConfig(holdRequest.tourId);
+    const groupSizeValidation = BookingValidator.validateGroupSize(holdRequest.groupSize, tour);
+    const availabilityValidation = BookingValidator.validateTourAvailability(tour, holdRequest.date);
+    if (!groupSizeValidation.valid || !availabilityValidation.valid) {
+      throw new BookingError(
+        groupSizeValidation.error || availabilityValidation.error || 'Invalid booking data',
+        BookingErrorCodes.VALIDATION_ERROR,
+        400
+      );
+    }
+
+    const provider = getBookingProvider();
+    const availability = await provider.checkAvailability(
+      holdRequest.tourId,
+      new Date(holdRequest.date)
+    );
+
+    const slot = availability.availableSlots.find(
+      s => getSlotTime(s.startTime) === holdRequest.startTime
+    );
+
+    if (!slot) {
+      throw new BookingError(
+        'Requested time slot not available',
+        BookingErrorCodes.AVAILABILITY_ERROR,
+        409
+      );
+    }
+
+    const hold = await seatHolds.createHold(holdRequest, slot.availableSpots);
+
+    return NextResponse.json(
+      {
+        holdId: hold.id,
+        expiresAt: hold.expiresAt,
+      },
+      { status: 201, headers: SECURITY_HEADERS }
+    );
+
+  } catch (error) {
+    const bookingError = handleBookingError(error);
+
+    console.error('Seat hold creation failed:', {
+      error: bookingError.message,
+      code: bookingError.code,
+    });
+
+    return NextResponse.json(
+      {
+        error: bookingError.message,
+        code: bookingError.code
+      },
+      { status: bookingError.statusCode, headers: SECURITY_HEADERS }
+    );
+  }
+}
+
+// Release a hold when the customer leaves checkout
+export async function DELETE(request: NextRequest) {
+  try {
+    const holdId = request.nextUrl.searchParams.get('id');
+
+    if (!holdId) {
+      return NextResponse.json(
+        { error: 'Hold ID is required' },
+        { status: 400, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const hold = await seatHolds.releaseHold(holdId, 'cancelled');
+
+    return NextResponse.json(
+      { success: true, released: Boolean(hold) },
+      { headers: SECURITY_HEADERS }
+    );
+
+  } catch (error) {
+    const bookingError = handleBookingError(error);
+
+    console.error('Seat hold release failed:', {
+      error: bookingError.message,
+      code: bookingError.code,
+    });
+
+    return NextResponse.json(
+      {
+        error: bookingError.message,
+        code: bookingError.code
+      },
+      { status: bookingError.statusCode, headers: SECURITY_HEADERS }
+    );
+  }
+}
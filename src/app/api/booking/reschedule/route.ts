@@ -0,0 +1,231 @@
+// Booking reschedule API route
+// Moves a booking to a new slot and settles the price difference under the cancellation-window rules
+
+import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { z } from 'zod';
+import {
+  BookingError,
+  BookingErrorCodes,
+  handleBookingError,
+  BookingRateLimiter
+} from '@/lib/booking-validation';
+import { findStoredBooking, BookingPaymentReference } from '@/lib/booking-store';
+import {
+  applyReschedule,
+  completePaidReschedule,
+  prepareReschedule,
+  RescheduleRequest,
+} from '@/lib/booking-reschedule';
+import { REFUND_ESTIMATED_ARRIVAL } from '@/lib/refunds';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-12-18.acacia',
+});
+
+const rescheduleSchema = z.object({
+  bookingId: z.string().min(1, 'Booking ID is required'),
+  customerEmail: z.string().email('Valid email required for verification'),
+  newDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)'),
+  newStartTime: z.string().regex(/^\d{2}:\d{2}$/, 'Invalid time format (HH:MM)'),
+  paymentIntentId: z.string().optional(),
+});
+
+// The price difference payment, if it was made by this customer for this move
+async function getChangePayment(
+  paymentIntentId: string,
+  request: RescheduleRequest
+): Promise<BookingPaymentReference> {
+  const storedBooking = await findStoredBooking(request.bookingId);
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  const metadata = paymentIntent.metadata || {};
+
+  const paymentMatches =
+    paymentIntent.status === 'succeeded' &&
+    metadata.purpose === 'reschedule' &&
+    metadata.bookingId === storedBooking?.id &&
+    metadata.newDate === request.newDate &&
+    metadata.newStartTime === request.newStartTime &&
+    metadata.customerEmail?.toLowerCase() === request.customerEmail.toLowerCase();
+
+  if (!paymentMatches) {
+    throw new BookingError(
+      'Price difference payment not completed',
+      BookingErrorCodes.PAYMENT_ERROR,
+      402
+    );
+  }
+
+  return {
+    method: 'stripe',
+    transactionId: paymentIntent.id,
+    amount: paymentIntent.amount / 100,
+    currency: paymentIntent.currency,
+  };
+}
+
+// Reschedule a booking
+export async function POST(request: NextRequest) {
+  try {
+    const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
+
+    const rateLimitCheck = BookingRateLimiter.checkRateLimit(`reschedule_${clientIP}`);
+    if (!rateLimitCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Too many reschedule attempts. Please try again later.',
+          resetTime: rateLimitCheck.resetTime
+        },
+        { status: 429 }
+      );
+    }
+
+    const { paymentIntentId, ...requestData } = rescheduleSchema.parse(await request.json());
+    const { newDate, newStartTime } = requestData;
+
+    // The difference has been paid - the move is applied, or the payment refunded
+    if (paymentIntentId) {
+      const changePayment = await getChangePayment(paymentIntentId, requestData);
+      const outcome = await completePaidReschedule(requestData, changePayment);
+
+      if (outcome.status === 'failed') {
+        return NextResponse.json(
+          {
+            error: outcome.refunded
+              ? `We could not move your booking: ${outcome.error.message}. It stays at the original time and the price difference is being refunded.`
+              : outcome.error.message,
+            code: outcome.error.code,
+            incidentId: outcome.incidentId,
+          },
+          { status: outcome.error.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Booking rescheduled successfully',
+        booking: outcome.booking,
+        confirmationCode: outcome.confirmationCode,
+        priceChange: outcome.quote && {
+          ...outcome.quote,
+          charged: changePayment.amount,
+        },
+      });
+    }
+
+    const prepared = await prepareReschedule(requestData);
+    const { storedBooking, booking, quote } = prepared;
+
+    // A more expensive date has to be paid before the booking moves
+    if (quote.amountDue > 0) {
+      // Without a local record the payment could not be tied to the booking or refunded
+      if (!storedBooking) {
+        throw new BookingError(
+          'This booking cannot be moved to a more expensive date online. Please contact us to reschedule.',
+          BookingErrorCodes.VALIDATION_ERROR,
+          409
+        );
+      }
+
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: Math.round(quote.amountDue * 100),
+        currency: quote.currency.toLowerCase(),
+        metadata: {
+          purpose: 'reschedule',
+          bookingId: storedBooking.id,
+          newDate,
+          newStartTime,
+          customerEmail: booking.customerInfo.email,
+        },
+        description: `Reschedule ${booking.tourId} to ${newDate} ${newStartTime}`,
+        receipt_email: booking.customerInfo.email,
+      });
+
+      return NextResponse.json(
+        {
+          error: 'Payment required for the price difference',
+          requiresPayment: true,
+          clientSecret: paymentIntent.client_secret,
+          paymentIntentId: paymentIntent.id,
+          quote,
+        },
+        { status: 402 }
+      );
+    }
+
+    const { refund, ...result } = await applyReschedule(prepared, requestData);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Booking rescheduled successfully',
+      ...result,
+      priceChange: {
+        ...quote,
+        charged: 0,
+        refundStatus: refund?.status,
+        processingTime: quote.refund.amount > 0 ? REFUND_ESTIMATED_ARRIVAL : undefined,
+      },
+    });
+
+  } catch (error) {
+    const bookingError = handleBookingError(error);
+
+    console.error('Booking reschedule failed:', {
+      error: bookingError.message,
+      code: bookingError.code,
+    });
+
+    return NextResponse.json(
+      {
+        error: bookingError.message,
+        code: bookingError.code
+      },
+      { status: bookingError.statusCode }
+    );
+  }
+}
+
+// Quote a reschedule without changing anything
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const requestData = rescheduleSchema.parse({
+      bookingId: searchParams.get('bookingId'),
+      customerEmail: searchParams.get('customerEmail'),
+      newDate: searchParams.get('newDate'),
+      newStartTime: searchParams.get('newStartTime'),
+    });
+
+    const { booking, quote } = await prepareReschedule(requestData);
+
+    return NextResponse.json({
+      booking: {
+        date: booking.date,
+        startTime: booking.startTime,
+        groupSize: booking.groupSize,
+        totalPrice: booking.totalPrice,
+      },
+      newSlot: {
+        date: requestData.newDate,
+        startTime: requestData.newStartTime,
+      },
+      quote,
+    });
+
+  } catch (error) {
+    const bookingError = handleBookingError(error);
+
+    console.error('Reschedule quote failed:', {
+      error: bookingError.message,
+      code: bookingError.code,
+    });
+
+    return NextResponse.json(
+      {
+        error: bookingError.message,
+        code: bookingError.code
+      },
+      { status: bookingError.statusCode }
+    );
+  }
+}
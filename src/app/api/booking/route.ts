@@ -2,7 +2,10 @@
 // Handles booking creation, retrieval, and management with security measures
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getBookingProvider } from '@/lib/booking-providers';
+import { getBookingProvider, BookingResponse } from '@/lib/booking-providers';
+import { getBookingRepository, recordProviderBooking, findStoredBooking } from '@/lib/booking-store';
+import { seatHolds } from '@/lib/booking-holds';
+import { scheduleBookingJobs } from '@/lib/jobs';
 import {
   BookingValidator,
   BookingError,
@@ -11,6 +14,7 @@ import {
   BookingRateLimiter,
   bookingRequestSchema
 } from '@/lib/booking-validation';
+import { getTourConfig } from '@/lib/tour-catalog';
 import { bookingMonitor, measurePerformance, BookingAlerts } from '@/lib/booking-monitoring';
 import { SessionManager, sessionCSRF } from '@/lib/session-management';
 import { SECURITY_HEADERS, securityValidators } from '@/lib/security-middleware';
@@ -88,7 +92,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate booking data with enhanced security
-    const validation = BookingValidator.validateCompleteBooking(bookingData);
+    const validation = BookingValidator.validateCompleteBooking(bookingData, getTourConfig(bookingData.tourId));
     if (!validation.valid) {
       return NextResponse.json(
         {
@@ -118,9 +122,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Other customers' seat holds reduce what this booking can take; its own hold does not
+    const unheldSlots = await seatHolds.applyHolds(
+      bookingData.tourId,
+      bookingData.date,
+      availability.availableSlots,
+      bookingData.holdId
+    );
+
     // Verify the requested time slot is available
     const requestedTime = bookingData.startTime;
-    const availableSlot = availability.availableSlots.find(
+    const availableSlot = unheldSlots.find(
       slot => slot.startTime.includes(requestedTime)
     );
 
@@ -170,6 +182,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (bookingData.holdId) {
+      await seatHolds.convertHold(bookingData.holdId);
+    }
+
     // Track successful booking
     BookingAlerts.trackSuccess();
     bookingMonitor.trackBookingSuccess(
@@ -181,6 +197,24 @@ export async function POST(request: NextRequest) {
       0
     );
 
+    // Persist locally so lookups don't depend on the provider
+    let confirmationCode = bookingResult.confirmationCode;
+    try {
+      const storedBooking = await recordProviderBooking(provider.name, bookingData, bookingResult);
+      confirmationCode = storedBooking.confirmationCode;
+
+      try {
+        await scheduleBookingJobs(storedBooking);
+      } catch (jobError) {
+        console.error('Failed to schedule booking reminders:', jobError);
+      }
+    } catch (storeError) {
+      console.error('Failed to persist booking locally:', {
+        bookingId: bookingResult.bookingId,
+        error: storeError instanceof Error ? storeError.message : storeError,
+      });
+    }
+
     // Log successful booking
     console.log('Booking created successfully:', {
       bookingId: bookingResult.bookingId,
@@ -194,7 +228,7 @@ export async function POST(request: NextRequest) {
     const response = NextResponse.json({
       success: true,
       booking: bookingResult.booking,
-      confirmationCode: bookingResult.confirmationCode,
+      confirmationCode,
     });
 
     // Set security headers
@@ -240,12 +274,41 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Get booking details
+type LookedUpBooking = NonNullable<BookingResponse['booking']> & {
+  confirmationCode?: string;
+  currency?: string;
+};
+
+// What a lookup by confirmation code or ID shows. Anyone holding the code can ask, so contact
+// details, payments and the email log are left out.
+function toPublicBooking(booking: LookedUpBooking) {
+  return {
+    id: booking.id,
+    confirmationCode: booking.confirmationCode,
+    tourId: booking.tourId,
+    date: booking.date,
+    startTime: booking.startTime,
+    groupSize: booking.groupSize,
+    totalPrice: booking.totalPrice,
+    currency: booking.currency || getTourConfig(booking.tourId)?.currency,
+    status: booking.status,
+    customerInfo: { firstName: booking.customerInfo.firstName },
+  };
+}
+
+// Confirmation codes are only known locally, so a provider lookup needs the ID
+async function lookUpProviderBooking(bookingId: string): Promise<LookedUpBooking | undefined> {
+  const bookingResult = await getBookingProvider().getBooking(bookingId);
+  return bookingResult.success ? bookingResult.booking : undefined;
+}
+
+// Get booking details. With `email`, the lookup also fails unless it matches the booking.
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const bookingId = searchParams.get('id');
     const confirmationCode = searchParams.get('confirmation');
+    const email = searchParams.get('email');
 
     if (!bookingId && !confirmationCode) {
       return NextResponse.json(
@@ -254,38 +317,39 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const provider = getBookingProvider();
+    // Local store first - it answers without a provider round-trip
+    const storedBooking = bookingId
+      ? await findStoredBooking(bookingId)
+      : await getBookingRepository().findByConfirmationCode(confirmationCode!);
 
-    // If we have a booking ID, use it directly
-    if (bookingId) {
-      const bookingResult = await provider.getBooking(bookingId);
-      
-      if (!bookingResult.success) {
-        return NextResponse.json(
-          { error: bookingResult.error || 'Booking not found' },
-          { status: 404, headers: SECURITY_HEADERS }
-        );
-      }
-
-      const response = NextResponse.json({
-        success: true,
-        booking: bookingResult.booking,
-      });
+    const booking: LookedUpBooking | undefined = storedBooking
+      || (bookingId ? await lookUpProviderBooking(bookingId) : undefined);
 
-      // Set security headers
-      Object.entries(SECURITY_HEADERS).forEach(([key, value]) => {
-        response.headers.set(key, value);
-      });
+    if (!booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404, headers: SECURITY_HEADERS }
+      );
+    }
 
-      return response;
+    if (email && booking.customerInfo.email.toLowerCase() !== email.trim().toLowerCase()) {
+      return NextResponse.json(
+        { error: 'Email does not match booking records' },
+        { status: 403, headers: SECURITY_HEADERS }
+      );
     }
 
-    // If we only have confirmation code, we'd need to implement a lookup
-    // For now, return an error as this requires additional database setup
-    return NextResponse.json(
-      { error: 'Booking lookup by confirmation code not yet implemented' },
-      { status: 501, headers: SECURITY_HEADERS }
-    );
+    const response = NextResponse.json({
+      success: true,
+      booking: toPublicBooking(booking),
+    });
+
+    // Set security headers
+    Object.entries(SECURITY_HEADERS).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
 
   } catch (error) {
     const bookingError = handleBookingError(error);
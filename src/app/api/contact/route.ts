@@ -0,0 +1,92 @@
+// Contact form API route
+// Validates and spam-checks inquiries, stores them and sends the notification emails
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { LOCALES } from '@/lib/i18n';
+import {
+  createFormToken,
+  createInquiry,
+  detectSpam,
+  needsNewFormToken,
+  FORM_TOKEN_TTL_MS,
+  MIN_FORM_FILL_MS,
+} from '@/lib/inquiries';
+import { checkRateLimit, RATE_LIMIT_CONFIGS, SECURITY_HEADERS } from '@/lib/security-middleware';
+
+const contactSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  email: z.string().trim().email('Invalid email address'),
+  phone: z.string().trim().max(30).optional(),
+  tourId: z.string().max(100).optional(),
+  message: z.string().trim().min(10, 'Message is too short').max(5000),
+  locale: z.enum(LOCALES).default('en'),
+  // Spam signals: a field hidden from humans and the signed time the form was rendered
+  website: z.string().optional(),
+  formToken: z.string().max(200).nullish(),
+});
+
+// GET - A signed render time for the form, so the fill-time check can't be faked
+export async function GET() {
+  return NextResponse.json(
+    { formToken: createFormToken(), expiresInMs: FORM_TOKEN_TTL_MS, minFillMs: MIN_FORM_FILL_MS },
+    { headers: { ...SECURITY_HEADERS, 'Cache-Control': 'no-store' } }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
+    const rateLimitCheck = checkRateLimit(`contact:${clientIP}`, RATE_LIMIT_CONFIGS.contact);
+    if (!rateLimitCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Too many messages. Please try again later.',
+          resetTime: rateLimitCheck.resetTime
+        },
+        { status: 429, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const { website, formToken, ...inquiry } = contactSchema.parse(await request.json());
+
+    // A stale form is sent again with a fresh token rather than silently dropped
+    if (!website && needsNewFormToken(formToken)) {
+      return NextResponse.json(
+        { error: 'This form has expired. Please send your message again.', code: 'FORM_EXPIRED' },
+        { status: 409, headers: SECURITY_HEADERS }
+      );
+    }
+
+    // Bots get the same answer as people so they don't learn what gave them away
+    const spamReason = detectSpam({ honeypot: website, formToken });
+    if (spamReason) {
+      console.warn('Contact form submission rejected as spam:', { reason: spamReason, clientIP });
+      return NextResponse.json({ success: true }, { headers: SECURITY_HEADERS });
+    }
+
+    const stored = await createInquiry(inquiry);
+
+    return NextResponse.json(
+      { success: true, inquiryId: stored.id },
+      { status: 201, headers: SECURITY_HEADERS }
+    );
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.issues
+        },
+        { status: 400, headers: SECURITY_HEADERS }
+      );
+    }
+
+    console.error('Contact form submission failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to send your message' },
+      { status: 500, headers: SECURITY_HEADERS }
+    );
+  }
+}
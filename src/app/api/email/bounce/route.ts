@@ -0,0 +1,39 @@
+// Email bounce notifications
+// The mail provider reports messages it accepted but could not deliver
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { recordEmailBounce } from '@/lib/email-outbox';
+
+const bounceSchema = z.object({
+  messageId: z.string().min(1),
+  reason: z.string().max(1000).default('Bounced'),
+});
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.EMAIL_WEBHOOK_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { messageId, reason } = bounceSchema.parse(await request.json());
+    const email = await recordEmailBounce(messageId, reason);
+
+    // Unknown IDs are acknowledged so the provider stops retrying
+    return NextResponse.json({ received: true, matched: Boolean(email) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid bounce notification', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error recording email bounce:', error);
+    return NextResponse.json(
+      { error: 'Failed to record bounce' },
+      { status: 500 }
+    );
+  }
+}
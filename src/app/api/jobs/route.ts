@@ -0,0 +1,77 @@
+// Scheduled job runner API
+// Called by cron every few minutes to send due reminders and follow-ups, drain the email outbox, publish scheduled posts
+// and refresh the external review cache
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueJobs, getJobs, JobStatus } from '@/lib/jobs';
+import { processOutbox } from '@/lib/email-outbox';
+import { publishDueBlogPosts, revalidateBlogPages } from '@/lib/blog-content';
+import { syncReviewsIfDue } from '@/lib/review-aggregation';
+
+const JOB_STATUSES: JobStatus[] = ['pending', 'running', 'completed', 'failed', 'cancelled'];
+
+// Cron requests carry the shared secret; without one configured only development is open
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return process.env.NODE_ENV !== 'production';
+  }
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+// POST - Run every job that is due, deliver queued emails including the ones just created,
+// publish blog posts whose scheduled time has passed and sync reviews every few hours
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const jobs = await runDueJobs();
+    const emails = await processOutbox();
+    const publishedPosts = await publishDueBlogPosts();
+    if (publishedPosts.length > 0) {
+      revalidateBlogPages();
+    }
+    const reviews = await syncReviewsIfDue();
+    return NextResponse.json({ success: true, jobs, emails, publishedPosts, reviews });
+  } catch (error) {
+    console.error('Error running scheduled jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to run scheduled jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET - List jobs, optionally by status or booking
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const status = searchParams.get('status') as JobStatus | null;
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'Invalid job status' },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await getJobs({
+      status: status || undefined,
+      bookingId: searchParams.get('bookingId') || undefined,
+    });
+
+    return NextResponse.json({ success: true, jobs });
+  } catch (error) {
+    console.error('Error loading scheduled jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to load scheduled jobs' },
+      { status: 500 }
+    );
+  }
+}
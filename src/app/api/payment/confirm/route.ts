@@ -4,9 +4,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import { z } from 'zod';
-import { getBookingProvider } from '@/lib/booking-providers';
+import { finalizePaidBooking, getPaymentMismatch, SLOT_TAKEN_ERROR } from '@/lib/booking-recovery';
+import { confirmPayPalOrder, getPayPalExpectation } from '@/lib/paypal';
 import { BookingValidator, handleBookingError, BookingErrorCodes } from '@/lib/booking-validation';
 import { sendBookingConfirmationEmail } from '@/lib/email-service';
+import { LOCALES } from '@/lib/i18n';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2024-12-18.acacia',
@@ -28,6 +30,8 @@ const confirmPaymentSchema = z.object({
       phone: z.string(),
     }),
     specialRequests: z.string().optional(),
+    locale: z.enum(LOCALES).optional(),
+    holdId: z.string().optional(),
   }),
 });
 
@@ -59,15 +63,35 @@ export async function POST(request: NextRequest) {
         currency: paymentIntent.currency,
         receiptUrl: paymentIntent.charges.data[0]?.receipt_url,
       };
+
+      // The payment webhook books from the intent's own metadata if these don't match
+      const mismatch = getPaymentMismatch(validatedData.bookingData, paymentDetails);
+      if (mismatch) {
+        return NextResponse.json(
+          { error: 'Payment does not match this booking' },
+          { status: 400 }
+        );
+      }
     } else if (validatedData.paymentMethod === 'paypal') {
-      // For PayPal, we would verify the payment here
-      // This is a placeholder for PayPal verification logic
+      // Verify the PayPal order against the booking instead of trusting the client
+      const verification = await confirmPayPalOrder(
+        validatedData.paymentIntentId,
+        getPayPalExpectation(validatedData.bookingData)
+      );
+
+      if (!verification.valid || !verification.capture) {
+        return NextResponse.json(
+          { error: verification.error || 'Payment not completed' },
+          { status: 400 }
+        );
+      }
+
       paymentConfirmed = true;
       paymentDetails = {
         method: 'paypal',
         transactionId: validatedData.paymentIntentId,
-        amount: validatedData.bookingData.totalPrice,
-        currency: 'eur',
+        amount: parseFloat(verification.capture.amount.value),
+        currency: verification.capture.amount.currency_code,
       };
     }
 
@@ -78,44 +102,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create booking with provider
-    const provider = getBookingProvider();
-    const bookingResult = await provider.createBooking(validatedData.bookingData);
-
-    if (!bookingResult.success) {
-      // Payment succeeded but booking failed - this needs manual intervention
-      console.error('Critical: Payment succeeded but booking failed', {
-        paymentIntentId: validatedData.paymentIntentId,
-        bookingData: validatedData.bookingData,
-        error: bookingResult.error,
-      });
+    // Create the booking - retried, and refunded if it can't be made
+    const outcome = await finalizePaidBooking(validatedData.bookingData, paymentDetails);
 
+    if (outcome.status === 'failed') {
+      const slotTaken = outcome.incident.error === SLOT_TAKEN_ERROR;
       return NextResponse.json(
         { 
-          error: 'Booking creation failed after payment. Please contact support.',
+          error: slotTaken
+            ? 'This time slot filled up while you were paying. Your payment is being refunded.'
+            : 'We could not complete your booking. Your payment is being refunded.',
           paymentId: validatedData.paymentIntentId,
-          requiresManualIntervention: true,
+          incidentId: outcome.incident.id,
+          refundStatus: outcome.incident.refund?.status,
         },
-        { status: 500 }
+        { status: slotTaken ? 409 : 502 }
       );
     }
 
-    // Send confirmation email
-    try {
-      await sendBookingConfirmationEmail({
-        booking: bookingResult.booking!,
-        paymentDetails,
-        customerEmail: validatedData.bookingData.customerInfo.email,
-      });
-    } catch (emailError) {
-      console.error('Email confirmation failed:', emailError);
-      // Don't fail the booking if email fails
+    // Send confirmation email (once - repeated confirmations reuse the first booking)
+    if (!outcome.duplicate && outcome.booking) {
+      try {
+        await sendBookingConfirmationEmail({
+          booking: outcome.booking,
+          paymentDetails,
+          customerEmail: validatedData.bookingData.customerInfo.email,
+          confirmationCode: outcome.confirmationCode,
+          locale: validatedData.bookingData.locale,
+          bookingId: outcome.storedBooking?.id,
+        });
+      } catch (emailError) {
+        console.error('Email confirmation failed:', emailError);
+        // Don't fail the booking if email fails
+      }
     }
 
     return NextResponse.json({
       success: true,
-      booking: bookingResult.booking,
-      confirmationCode: bookingResult.confirmationCode,
+      booking: outcome.booking,
+      confirmationCode: outcome.confirmationCode,
       payment: paymentDetails,
     });
 
@@ -4,16 +4,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import { z } from 'zod';
+import { LOCALES } from '@/lib/i18n';
 import { BookingValidator, handleBookingError } from '@/lib/booking-validation';
+import { getTourConfig } from '@/lib/tour-catalog';
+import { seatHolds } from '@/lib/booking-holds';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2024-12-18.acacia',
 });
 
+// The amount is priced here from the booking, never taken from the client
 const createPaymentIntentSchema = z.object({
-  amount: z.number().min(1, 'Amount must be greater than 0'),
-  currency: z.string().default('eur'),
-  tourId: z.string().min(1, 'Tour ID is required'),
   bookingData: z.object({
     tourId: z.string(),
     date: z.string(),
@@ -27,6 +28,8 @@ const createPaymentIntentSchema = z.object({
       phone: z.string(),
     }),
     specialRequests: z.string().optional(),
+    locale: z.enum(LOCALES).optional(),
+    holdId: z.string().optional(),
   }),
 });
 
@@ -36,8 +39,9 @@ export async function POST(request: NextRequest) {
     const validatedData = createPaymentIntentSchema.parse(body);
 
     // Validate booking data
-    const bookingValidation = BookingValidator.validateCompleteBooking(validatedData.bookingData);
-    if (!bookingValidation.valid) {
+    const tour = getTourConfig(validatedData.bookingData.tourId);
+    const bookingValidation = BookingValidator.validateCompleteBooking(validatedData.bookingData, tour);
+    if (!bookingValidation.valid || !tour) {
       return NextResponse.json(
         { 
           error: 'Invalid booking data',
@@ -47,21 +51,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const totalPrice = BookingValidator.calculateTotalPrice(
+      tour,
+      validatedData.bookingData.groupSize,
+      validatedData.bookingData.date
+    );
+
     // Create payment intent with Stripe
     const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(validatedData.amount * 100), // Convert to cents
-      currency: validatedData.currency,
+      amount: Math.round(totalPrice * 100), // Convert to cents
+      currency: tour.currency.toLowerCase(),
+      // Everything the payment webhook needs to create the booking on its own
       metadata: {
-        tourId: validatedData.tourId,
+        tourId: tour.id,
         bookingDate: validatedData.bookingData.date,
+        startTime: validatedData.bookingData.startTime,
         groupSize: validatedData.bookingData.groupSize.toString(),
+        totalPrice: totalPrice.toString(),
         customerEmail: validatedData.bookingData.customerInfo.email,
         customerName: `${validatedData.bookingData.customerInfo.firstName} ${validatedData.bookingData.customerInfo.lastName}`,
+        firstName: validatedData.bookingData.customerInfo.firstName,
+        lastName: validatedData.bookingData.customerInfo.lastName,
+        phone: validatedData.bookingData.customerInfo.phone,
+        // Stripe caps metadata values at 500 characters
+        ...(validatedData.bookingData.specialRequests && {
+          specialRequests: validatedData.bookingData.specialRequests.slice(0, 500),
+        }),
+        ...(validatedData.bookingData.holdId && { holdId: validatedData.bookingData.holdId }),
+        ...(validatedData.bookingData.locale && { locale: validatedData.bookingData.locale }),
       },
-      description: `Prague Tour: ${validatedData.tourId} for ${validatedData.bookingData.groupSize} people`,
+      description: `Prague Tour: ${tour.id} for ${validatedData.bookingData.groupSize} people`,
       receipt_email: validatedData.bookingData.customerInfo.email,
     });
 
+    // Link the seat hold so payment webhooks can release it
+    if (validatedData.bookingData.holdId) {
+      await seatHolds.attachPayment(validatedData.bookingData.holdId, paymentIntent.id);
+    }
+
     return NextResponse.json({
       clientSecret: paymentIntent.client_secret,
       paymentIntentId: paymentIntent.id,
@@ -4,10 +4,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { BookingValidator, handleBookingError } from '@/lib/booking-validation';
+import { getTourConfig } from '@/lib/tour-catalog';
+import {
+  confirmPayPalOrder,
+  getPayPalAccessToken,
+  getPayPalBaseUrl,
+  getPayPalExpectation,
+  getPayPalReferenceId,
+} from '@/lib/paypal';
+import { finalizePaidBooking, SLOT_TAKEN_ERROR } from '@/lib/booking-recovery';
+import { savePayPalCheckout } from '@/lib/paypal-checkouts';
+import { BookingPaymentReference } from '@/lib/booking-store';
+import { sendBookingConfirmationEmail } from '@/lib/email-service';
+import { LOCALES } from '@/lib/i18n';
 
 const createPayPalOrderSchema = z.object({
   amount: z.number().min(1, 'Amount must be greater than 0'),
-  currency: z.string().default('EUR'),
   tourId: z.string().min(1, 'Tour ID is required'),
   bookingData: z.object({
     tourId: z.string(),
@@ -22,6 +34,8 @@ const createPayPalOrderSchema = z.object({
       phone: z.string(),
     }),
     specialRequests: z.string().optional(),
+    locale: z.enum(LOCALES).optional(),
+    holdId: z.string().optional(),
   }),
 });
 
@@ -40,34 +54,11 @@ const capturePayPalOrderSchema = z.object({
       phone: z.string(),
     }),
     specialRequests: z.string().optional(),
+    locale: z.enum(LOCALES).optional(),
+    holdId: z.string().optional(),
   }),
 });
 
-// Get PayPal access token
-async function getPayPalAccessToken(): Promise<string> {
-  const clientId = process.env.PAYPAL_CLIENT_ID!;
-  const clientSecret = process.env.PAYPAL_CLIENT_SECRET!;
-  const baseUrl = process.env.NODE_ENV === 'production' 
-    ? 'https://api-m.paypal.com' 
-    : 'https://api-m.sandbox.paypal.com';
-
-  const response = await fetch(`${baseUrl}/v1/oauth2/token`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
-    },
-    body: 'grant_type=client_credentials',
-  });
-
-  if (!response.ok) {
-    throw new Error('Failed to get PayPal access token');
-  }
-
-  const data = await response.json();
-  return data.access_token;
-}
-
 // Create PayPal order
 export async function POST(request: NextRequest) {
   try {
@@ -75,7 +66,10 @@ export async function POST(request: NextRequest) {
     const validatedData = createPayPalOrderSchema.parse(body);
 
     // Validate booking data
-    const bookingValidation = BookingValidator.validateCompleteBooking(validatedData.bookingData);
+    const bookingValidation = BookingValidator.validateCompleteBooking(
+      validatedData.bookingData,
+      getTourConfig(validatedData.bookingData.tourId)
+    );
     if (!bookingValidation.valid) {
       return NextResponse.json(
         { 
@@ -86,19 +80,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The order must charge exactly the validated booking price
+    if (Math.abs(validatedData.amount - validatedData.bookingData.totalPrice) > 0.01) {
+      return NextResponse.json(
+        { error: 'Payment amount does not match booking total' },
+        { status: 400 }
+      );
+    }
+
     const accessToken = await getPayPalAccessToken();
-    const baseUrl = process.env.NODE_ENV === 'production' 
-      ? 'https://api-m.paypal.com' 
-      : 'https://api-m.sandbox.paypal.com';
+    const baseUrl = getPayPalBaseUrl();
 
     const orderData = {
       intent: 'CAPTURE',
       purchase_units: [{
         amount: {
-          currency_code: validatedData.currency,
+          // Charged in the tour's own currency, which the capture is verified against
+          currency_code: getPayPalExpectation(validatedData.bookingData).currency,
           value: validatedData.amount.toFixed(2),
         },
         description: `Prague Tour: ${validatedData.tourId} for ${validatedData.bookingData.groupSize} people`,
+        reference_id: getPayPalReferenceId(validatedData.bookingData),
         custom_id: `tour_${validatedData.tourId}_${Date.now()}`,
       }],
       application_context: {
@@ -124,6 +126,9 @@ export async function POST(request: NextRequest) {
 
     const order = await response.json();
 
+    // The capture webhook books from this if the customer never comes back to capture
+    await savePayPalCheckout(order.id, validatedData.bookingData);
+
     return NextResponse.json({
       orderId: order.id,
       approvalUrl: order.links.find((link: any) => link.rel === 'approve')?.href,
@@ -159,76 +164,69 @@ export async function PUT(request: NextRequest) {
     const body = await request.json();
     const validatedData = capturePayPalOrderSchema.parse(body);
 
-    const accessToken = await getPayPalAccessToken();
-    const baseUrl = process.env.NODE_ENV === 'production' 
-      ? 'https://api-m.paypal.com' 
-      : 'https://api-m.sandbox.paypal.com';
-
-    // Capture the PayPal order
-    const response = await fetch(`${baseUrl}/v2/checkout/orders/${validatedData.orderId}/capture`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to capture PayPal payment');
-    }
+    // Capture the order and check it against the server-side booking price
+    const verification = await confirmPayPalOrder(
+      validatedData.orderId,
+      getPayPalExpectation(validatedData.bookingData)
+    );
 
-    const captureData = await response.json();
+    if (!verification.valid || !verification.capture) {
+      console.error('PayPal order verification failed:', {
+        orderId: validatedData.orderId,
+        error: verification.error,
+      });
 
-    if (captureData.status !== 'COMPLETED') {
       return NextResponse.json(
-        { error: 'PayPal payment not completed' },
+        { error: verification.error || 'PayPal payment not completed' },
         { status: 400 }
       );
     }
 
-    // Create booking with provider
-    const provider = getBookingProvider();
-    const bookingResult = await provider.createBooking(validatedData.bookingData);
+    const paymentDetails: BookingPaymentReference = {
+      method: 'paypal',
+      transactionId: validatedData.orderId,
+      amount: parseFloat(verification.capture.amount.value),
+      currency: verification.capture.amount.currency_code,
+    };
 
-    if (!bookingResult.success) {
-      console.error('Critical: PayPal payment succeeded but booking failed', {
-        orderId: validatedData.orderId,
-        bookingData: validatedData.bookingData,
-        error: bookingResult.error,
-      });
+    // Create the booking - retried, and refunded if it can't be made
+    const outcome = await finalizePaidBooking(validatedData.bookingData, paymentDetails);
 
+    if (outcome.status === 'failed') {
+      const slotTaken = outcome.incident.error === SLOT_TAKEN_ERROR;
       return NextResponse.json(
         { 
-          error: 'Booking creation failed after payment. Please contact support.',
+          error: slotTaken
+            ? 'This time slot filled up while you were paying. Your payment is being refunded.'
+            : 'We could not complete your booking. Your payment is being refunded.',
           paymentId: validatedData.orderId,
-          requiresManualIntervention: true,
+          incidentId: outcome.incident.id,
+          refundStatus: outcome.incident.refund?.status,
         },
-        { status: 500 }
+        { status: slotTaken ? 409 : 502 }
       );
     }
 
-    const paymentDetails = {
-      method: 'paypal',
-      transactionId: captureData.id,
-      amount: parseFloat(captureData.purchase_units[0].payments.captures[0].amount.value),
-      currency: captureData.purchase_units[0].payments.captures[0].amount.currency_code,
-    };
-
-    // Send confirmation email
-    try {
-      await sendBookingConfirmationEmail({
-        booking: bookingResult.booking!,
-        paymentDetails,
-        customerEmail: validatedData.bookingData.customerInfo.email,
-      });
-    } catch (emailError) {
-      console.error('Email confirmation failed:', emailError);
+    // Send confirmation email (once - repeated confirmations reuse the first booking)
+    if (!outcome.duplicate && outcome.booking) {
+      try {
+        await sendBookingConfirmationEmail({
+          booking: outcome.booking,
+          paymentDetails,
+          customerEmail: validatedData.bookingData.customerInfo.email,
+          confirmationCode: outcome.confirmationCode,
+          locale: validatedData.bookingData.locale,
+          bookingId: outcome.storedBooking?.id,
+        });
+      } catch (emailError) {
+        console.error('Email confirmation failed:', emailError);
+      }
     }
 
     return NextResponse.json({
       success: true,
-      booking: bookingResult.booking,
-      confirmationCode: bookingResult.confirmationCode,
+      booking: outcome.booking,
+      confirmationCode: outcome.confirmationCode,
       payment: paymentDetails,
     });
 
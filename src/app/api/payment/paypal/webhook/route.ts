@@ -0,0 +1,242 @@
+// PayPal webhook handler for capture events
+// Verifies each delivery with PayPal and keeps local bookings in step with captures and refunds - each event is handled once
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getBookingProvider } from '@/lib/booking-providers';
+import { getBookingRepository, BookingPaymentReference, BookingRefund } from '@/lib/booking-store';
+import { finalizePaidBooking, getPaymentMismatch, rejectPaidBooking } from '@/lib/booking-recovery';
+import { getPayPalCapture, verifyPayPalWebhookSignature } from '@/lib/paypal';
+import { findPayPalCheckout } from '@/lib/paypal-checkouts';
+import { sendBookingConfirmationEmail } from '@/lib/email-service';
+import { cancelBookingJobs } from '@/lib/jobs';
+import { isWebhookEventProcessed, markWebhookEventProcessed } from '@/lib/webhook-events';
+
+interface PayPalLink {
+  href: string;
+  rel: string;
+}
+
+interface PayPalWebhookEvent {
+  id: string;
+  event_type: string;
+  resource: {
+    id: string;
+    status?: string;
+    amount?: { currency_code: string; value: string };
+    supplementary_data?: { related_ids?: { order_id?: string } };
+    links?: PayPalLink[];
+  };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.text();
+
+    let event: PayPalWebhookEvent;
+    try {
+      event = JSON.parse(body);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid payload' },
+        { status: 400 }
+      );
+    }
+
+    let verified = false;
+    try {
+      verified = await verifyPayPalWebhookSignature(request.headers, event);
+    } catch (err) {
+      console.error('PayPal webhook verification request failed:', err);
+    }
+
+    if (!verified) {
+      console.error('PayPal webhook signature verification failed');
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 400 }
+      );
+    }
+
+    // PayPal redelivers events until it gets a 2xx - only the first delivery does anything
+    if (await isWebhookEventProcessed('paypal', event.id)) {
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+
+    // Handle the event - handlers throw on failure so PayPal retries the delivery
+    switch (event.event_type) {
+      case 'PAYMENT.CAPTURE.COMPLETED':
+        await handleCaptureCompleted(event);
+        break;
+
+      case 'PAYMENT.CAPTURE.DENIED':
+        await handleCaptureDenied(event);
+        break;
+
+      case 'PAYMENT.CAPTURE.REFUNDED':
+        await handleCaptureRefunded(event);
+        break;
+
+      default:
+        console.log(`Unhandled PayPal event type: ${event.event_type}`);
+    }
+
+    await markWebhookEventProcessed('paypal', event.id, event.event_type);
+
+    return NextResponse.json({ received: true });
+
+  } catch (error) {
+    console.error('PayPal webhook processing failed:', error);
+    return NextResponse.json(
+      { error: 'Webhook processing failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Bookings store the PayPal order ID as their transaction ID
+function getOrderId(event: PayPalWebhookEvent): string | undefined {
+  return event.resource.supplementary_data?.related_ids?.order_id;
+}
+
+async function findBookingForEvent(event: PayPalWebhookEvent) {
+  let orderId = getOrderId(event);
+
+  // Refund resources only link back to their capture
+  const captureLink = event.resource.links?.find(link => link.rel === 'up');
+  if (!orderId && captureLink) {
+    const capture = await getPayPalCapture(captureLink.href.split('/').pop() || '');
+    orderId = capture.supplementary_data?.related_ids?.order_id;
+  }
+
+  return orderId ? getBookingRepository().findByPaymentId(orderId) : null;
+}
+
+async function handleCaptureCompleted(event: PayPalWebhookEvent) {
+  const orderId = getOrderId(event);
+  console.log('PayPal capture completed:', {
+    captureId: event.resource.id,
+    orderId,
+    amount: event.resource.amount,
+  });
+
+  // Captures that were pending at checkout confirm their booking here
+  const booking = await findBookingForEvent(event);
+  if (booking) {
+    if (booking.status === 'pending') {
+      await getBookingRepository().updateStatus(booking.id, 'confirmed', 'PayPal capture completed');
+    }
+    return;
+  }
+
+  // No booking yet: the customer paid but never came back to capture, so book it from the saved checkout
+  const checkout = orderId ? await findPayPalCheckout(orderId) : null;
+  if (!orderId || !checkout || !event.resource.amount) {
+    console.error('PayPal capture without a saved checkout:', {
+      captureId: event.resource.id,
+      orderId,
+    });
+    return;
+  }
+
+  const { bookingData } = checkout;
+  const payment: BookingPaymentReference = {
+    method: 'paypal',
+    transactionId: orderId,
+    amount: parseFloat(event.resource.amount.value),
+    currency: event.resource.amount.currency_code,
+  };
+
+  // Only book what was paid for at the server-side price; anything else is refunded
+  const mismatch = getPaymentMismatch(bookingData, payment);
+  if (mismatch) {
+    const incident = await rejectPaidBooking(bookingData, payment, mismatch);
+    console.error('PayPal capture does not match its booking:', {
+      orderId,
+      error: mismatch,
+      incidentId: incident.id,
+    });
+    return;
+  }
+
+  const outcome = await finalizePaidBooking(bookingData, payment);
+
+  if (outcome.status === 'failed') {
+    console.error('Booking failed after PayPal capture:', {
+      orderId,
+      incidentId: outcome.incident.id,
+      refundStatus: outcome.incident.refund?.status,
+    });
+    return;
+  }
+
+  // Whoever creates the booking sends the confirmation
+  if (!outcome.duplicate && outcome.booking) {
+    try {
+      await sendBookingConfirmationEmail({
+        booking: outcome.booking,
+        paymentDetails: payment,
+        customerEmail: bookingData.customerInfo.email,
+        confirmationCode: outcome.confirmationCode,
+        locale: bookingData.locale,
+        bookingId: outcome.storedBooking?.id,
+      });
+    } catch (emailError) {
+      console.error('Email confirmation failed:', emailError);
+    }
+  }
+}
+
+async function handleCaptureDenied(event: PayPalWebhookEvent) {
+  console.error('PayPal capture denied:', {
+    captureId: event.resource.id,
+    orderId: getOrderId(event),
+  });
+
+  // No money was received - free the seats again
+  const booking = await findBookingForEvent(event);
+  if (!booking || booking.status === 'cancelled') {
+    return;
+  }
+
+  if (booking.providerBookingId) {
+    const result = await getBookingProvider().cancelBooking(booking.providerBookingId);
+    if (!result.success) {
+      console.error('Failed to cancel booking after denied capture:', {
+        bookingId: booking.id,
+        error: result.error,
+      });
+    }
+  }
+
+  await getBookingRepository().updateStatus(booking.id, 'cancelled', 'PayPal capture denied');
+  await cancelBookingJobs(booking.id, 'PayPal capture denied');
+}
+
+// Refunds issued from the PayPal dashboard are recorded like our own
+async function handleCaptureRefunded(event: PayPalWebhookEvent) {
+  const refundResource = event.resource;
+  const booking = await findBookingForEvent(event);
+
+  if (!booking) {
+    console.log('PayPal refund for unknown order:', { refundId: refundResource.id });
+    return;
+  }
+
+  if (booking.refunds?.some(refund => refund.providerRefundId === refundResource.id)) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const refund: BookingRefund = {
+    id: `rf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    providerRefundId: refundResource.id,
+    amount: parseFloat(refundResource.amount?.value || '0'),
+    currency: refundResource.amount?.currency_code || booking.currency,
+    status: 'succeeded',
+    reason: 'Refunded in PayPal',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getBookingRepository().recordRefund(booking.id, refund);
+}
@@ -1,9 +1,26 @@
 // Stripe webhook handler for payment events
-// Handles payment confirmations and failures securely
+// Drives booking state from payments, refunds and disputes - each event is handled once
 
 import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import { headers } from 'next/headers';
+import { seatHolds } from '@/lib/booking-holds';
+import {
+  finalizePaidBooking,
+  getPaymentMismatch,
+  PaidBookingRequest,
+  rejectPaidBooking,
+} from '@/lib/booking-recovery';
+import {
+  getBookingRepository,
+  BookingPaymentReference,
+  BookingRefund,
+  BookingRefundStatus,
+} from '@/lib/booking-store';
+import { completePaidReschedule } from '@/lib/booking-reschedule';
+import { sendBookingConfirmationEmail, sendDisputeAlertEmail } from '@/lib/email-service';
+import { getEmailLocale } from '@/lib/email-templates';
+import { isWebhookEventProcessed, markWebhookEventProcessed } from '@/lib/webhook-events';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2024-12-18.acacia',
@@ -37,27 +54,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Handle the event
+    // Stripe redelivers events until it gets a 2xx - only the first delivery does anything
+    if (await isWebhookEventProcessed('stripe', event.id)) {
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+
+    // Handle the event - handlers throw on failure so Stripe retries the delivery
     switch (event.type) {
       case 'payment_intent.succeeded':
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        await handlePaymentSuccess(paymentIntent);
+        await handlePaymentSuccess(event.data.object as Stripe.PaymentIntent);
         break;
 
       case 'payment_intent.payment_failed':
-        const failedPayment = event.data.object as Stripe.PaymentIntent;
-        await handlePaymentFailure(failedPayment);
+        await handlePaymentFailure(event.data.object as Stripe.PaymentIntent);
         break;
 
       case 'payment_intent.canceled':
-        const canceledPayment = event.data.object as Stripe.PaymentIntent;
-        await handlePaymentCancellation(canceledPayment);
+        await handlePaymentCancellation(event.data.object as Stripe.PaymentIntent);
+        break;
+
+      case 'charge.refunded':
+        await handleChargeRefunded(event.data.object as Stripe.Charge);
+        break;
+
+      case 'charge.dispute.created':
+        await handleDisputeCreated(event.data.object as Stripe.Dispute);
         break;
 
       default:
         console.log(`Unhandled event type: ${event.type}`);
     }
 
+    await markWebhookEventProcessed('stripe', event.id, event.type);
+
     return NextResponse.json({ received: true });
 
   } catch (error) {
@@ -69,66 +98,271 @@ export async function POST(request: NextRequest) {
   }
 }
 
+function getPaymentIntentId(
+  paymentIntent: string | Stripe.PaymentIntent | null
+): string | null {
+  if (!paymentIntent) return null;
+  return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id;
+}
+
+// Rebuild the checkout's booking request from the metadata set in create-intent
+function getBookingRequest(paymentIntent: Stripe.PaymentIntent): PaidBookingRequest | null {
+  const metadata = paymentIntent.metadata || {};
+  const required = ['tourId', 'bookingDate', 'startTime', 'groupSize', 'totalPrice', 'customerEmail', 'firstName', 'lastName'];
+
+  if (required.some(key => !metadata[key])) {
+    return null;
+  }
+
+  return {
+    tourId: metadata.tourId,
+    date: metadata.bookingDate,
+    startTime: metadata.startTime,
+    groupSize: parseInt(metadata.groupSize),
+    totalPrice: parseFloat(metadata.totalPrice),
+    customerInfo: {
+      firstName: metadata.firstName,
+      lastName: metadata.lastName,
+      email: metadata.customerEmail,
+      phone: metadata.phone || '',
+    },
+    specialRequests: metadata.specialRequests,
+    holdId: metadata.holdId,
+    locale: getEmailLocale(metadata.locale),
+  };
+}
+
+// Create the booking for a successful checkout payment, unless the confirm route already did
 async function handlePaymentSuccess(paymentIntent: Stripe.PaymentIntent) {
-  try {
-    console.log('Payment succeeded:', {
+  console.log('Payment succeeded:', {
+    id: paymentIntent.id,
+    amount: paymentIntent.amount / 100,
+    currency: paymentIntent.currency,
+    customerEmail: paymentIntent.receipt_email,
+    metadata: paymentIntent.metadata,
+  });
+
+  // Reschedule top-ups are applied here too, so a customer who never confirms is moved or refunded
+  if (paymentIntent.metadata?.purpose === 'reschedule') {
+    await handleReschedulePayment(paymentIntent);
+    return;
+  }
+
+  const bookingData = getBookingRequest(paymentIntent);
+  if (!bookingData) {
+    console.error('Payment succeeded without booking metadata:', { id: paymentIntent.id });
+    return;
+  }
+
+  const payment: BookingPaymentReference = {
+    method: 'stripe',
+    transactionId: paymentIntent.id,
+    amount: paymentIntent.amount / 100,
+    currency: paymentIntent.currency,
+  };
+
+  // Only book what was paid for at the server-side price; anything else is refunded
+  const mismatch = getPaymentMismatch(bookingData, payment);
+  if (mismatch) {
+    const incident = await rejectPaidBooking(bookingData, payment, mismatch);
+    console.error('Stripe payment does not match its booking:', {
       id: paymentIntent.id,
-      amount: paymentIntent.amount / 100,
-      currency: paymentIntent.currency,
-      customerEmail: paymentIntent.receipt_email,
-      metadata: paymentIntent.metadata,
+      error: mismatch,
+      incidentId: incident.id,
     });
+    return;
+  }
 
-    // Log successful payment for monitoring
-    // In a production system, you might want to:
-    // 1. Update booking status in database
-    // 2. Send additional confirmation emails
-    // 3. Trigger analytics events
-    // 4. Update inventory/availability
+  const outcome = await finalizePaidBooking(bookingData, payment);
 
-  } catch (error) {
-    console.error('Failed to handle payment success:', error);
+  if (outcome.status === 'failed') {
+    console.error('Booking failed after Stripe payment:', {
+      id: paymentIntent.id,
+      incidentId: outcome.incident.id,
+      refundStatus: outcome.incident.refund?.status,
+    });
+    return;
+  }
+
+  // Whoever creates the booking sends the confirmation
+  if (!outcome.duplicate && outcome.booking) {
+    try {
+      await sendBookingConfirmationEmail({
+        booking: outcome.booking,
+        paymentDetails: payment,
+        customerEmail: bookingData.customerInfo.email,
+        confirmationCode: outcome.confirmationCode,
+        locale: bookingData.locale,
+        bookingId: outcome.storedBooking?.id,
+      });
+    } catch (emailError) {
+      console.error('Email confirmation failed:', emailError);
+    }
   }
 }
 
-async function handlePaymentFailure(paymentIntent: Stripe.PaymentIntent) {
-  try {
-    console.error('Payment failed:', {
-      id: paymentIntent.id,
+async function handleReschedulePayment(paymentIntent: Stripe.PaymentIntent) {
+  const { bookingId, customerEmail, newDate, newStartTime } = paymentIntent.metadata;
+  if (!bookingId || !customerEmail || !newDate || !newStartTime) {
+    console.error('Reschedule payment without its metadata:', { id: paymentIntent.id });
+    return;
+  }
+
+  const outcome = await completePaidReschedule(
+    { bookingId, customerEmail, newDate, newStartTime },
+    {
+      method: 'stripe',
+      transactionId: paymentIntent.id,
       amount: paymentIntent.amount / 100,
       currency: paymentIntent.currency,
-      lastPaymentError: paymentIntent.last_payment_error,
-      metadata: paymentIntent.metadata,
+    }
+  );
+
+  if (outcome.status === 'failed') {
+    console.error('Reschedule payment could not be applied:', {
+      id: paymentIntent.id,
+      error: outcome.error.message,
+      refunded: outcome.refunded,
+      incidentId: outcome.incidentId,
     });
+  }
+}
 
-    // Log failed payment for monitoring
-    // In a production system, you might want to:
-    // 1. Send failure notification to customer
-    // 2. Alert administrators
-    // 3. Release held inventory
-    // 4. Trigger retry mechanisms
+async function handlePaymentFailure(paymentIntent: Stripe.PaymentIntent) {
+  console.error('Payment failed:', {
+    id: paymentIntent.id,
+    amount: paymentIntent.amount / 100,
+    currency: paymentIntent.currency,
+    lastPaymentError: paymentIntent.last_payment_error,
+    metadata: paymentIntent.metadata,
+  });
 
-  } catch (error) {
-    console.error('Failed to handle payment failure:', error);
-  }
+  // Give the held seats back to other customers
+  await releasePaymentHolds(paymentIntent, 'payment_failed');
 }
 
 async function handlePaymentCancellation(paymentIntent: Stripe.PaymentIntent) {
+  console.log('Payment canceled:', {
+    id: paymentIntent.id,
+    amount: paymentIntent.amount / 100,
+    currency: paymentIntent.currency,
+    metadata: paymentIntent.metadata,
+  });
+
+  await releasePaymentHolds(paymentIntent, 'payment_cancelled');
+}
+
+function toRefundStatus(status: string | null): BookingRefundStatus {
+  if (status === 'succeeded') return 'succeeded';
+  if (status === 'failed' || status === 'canceled') return 'failed';
+  return 'pending';
+}
+
+// Keep the booking's refunds in step with Stripe, including ones issued from the dashboard
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+  const booking = paymentIntentId
+    ? await getBookingRepository().findByPaymentId(paymentIntentId)
+    : null;
+
+  if (!booking) {
+    console.log('Stripe refund for unknown payment:', { chargeId: charge.id, paymentIntentId });
+    return;
+  }
+
+  const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+  const now = new Date().toISOString();
+
+  for (const stripeRefund of refunds.data) {
+    const status = toRefundStatus(stripeRefund.status);
+    const existing = booking.refunds?.find(refund => refund.providerRefundId === stripeRefund.id);
+
+    if (existing) {
+      if (existing.status !== status) {
+        await getBookingRepository().recordRefund(booking.id, { ...existing, status, updatedAt: now });
+      }
+      continue;
+    }
+
+    // Refunds we issued carry the booking ID and are recorded by the refund flow itself
+    if (stripeRefund.metadata?.bookingId) {
+      continue;
+    }
+
+    const refund: BookingRefund = {
+      id: `rf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      providerRefundId: stripeRefund.id,
+      amount: stripeRefund.amount / 100,
+      currency: stripeRefund.currency.toUpperCase(),
+      status,
+      reason: 'Refunded in Stripe',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await getBookingRepository().recordRefund(booking.id, refund);
+  }
+}
+
+// Chargebacks need evidence before a deadline, so flag the booking and alert the guide
+async function handleDisputeCreated(dispute: Stripe.Dispute) {
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+  const booking = paymentIntentId
+    ? await getBookingRepository().findByPaymentId(paymentIntentId)
+    : null;
+
+  const now = new Date().toISOString();
+  const evidenceDueBy = dispute.evidence_details?.due_by
+    ? new Date(dispute.evidence_details.due_by * 1000).toISOString()
+    : undefined;
+
+  console.error('Payment disputed:', {
+    disputeId: dispute.id,
+    paymentIntentId,
+    bookingId: booking?.id,
+    amount: dispute.amount / 100,
+    reason: dispute.reason,
+  });
+
+  if (booking) {
+    await getBookingRepository().recordDispute(booking.id, {
+      providerDisputeId: dispute.id,
+      amount: dispute.amount / 100,
+      currency: dispute.currency.toUpperCase(),
+      reason: dispute.reason,
+      status: dispute.status,
+      evidenceDueBy,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
   try {
-    console.log('Payment canceled:', {
-      id: paymentIntent.id,
-      amount: paymentIntent.amount / 100,
-      currency: paymentIntent.currency,
-      metadata: paymentIntent.metadata,
+    await sendDisputeAlertEmail({
+      confirmationCode: booking?.confirmationCode,
+      customerName: booking
+        ? `${booking.customerInfo.firstName} ${booking.customerInfo.lastName}`
+        : undefined,
+      tourId: booking?.tourId,
+      date: booking?.date,
+      paymentId: paymentIntentId
+        || (typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id),
+      disputeId: dispute.id,
+      amount: dispute.amount / 100,
+      currency: dispute.currency,
+      reason: dispute.reason,
+      evidenceDueBy,
     });
+  } catch (emailError) {
+    console.error('Dispute alert email failed:', emailError);
+  }
+}
 
-    // Log canceled payment for monitoring
-    // In a production system, you might want to:
-    // 1. Release held inventory
-    // 2. Send cancellation confirmation
-    // 3. Update analytics
+// Release seat holds linked to a payment intent, by ID or by the hold recorded in its metadata
+async function releasePaymentHolds(paymentIntent: Stripe.PaymentIntent, reason: string) {
+  const released = await seatHolds.releaseHoldsForPayment(paymentIntent.id, reason);
 
-  } catch (error) {
-    console.error('Failed to handle payment cancellation:', error);
+  if (released.length === 0 && paymentIntent.metadata?.holdId) {
+    await seatHolds.releaseHold(paymentIntent.metadata.holdId, reason);
   }
 }
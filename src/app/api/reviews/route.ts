@@ -1,25 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getMockReviews } from '@/lib/review-providers';
-import { aggregateReviews } from '@/lib/review-aggregation';
+import { z } from 'zod';
+import {
+  getReviews,
+  getReviewSyncStatus,
+  queryReviews,
+  REVIEW_SYNC_CONFIG,
+  syncReviewsIfDue,
+} from '@/lib/review-aggregation';
+import {
+  MAX_REVIEW_PHOTO_BYTES,
+  MAX_REVIEW_PHOTOS,
+  isReadableReviewPhoto,
+  ReviewLinkError,
+  reviewSubmissionSchema,
+  submitReview,
+} from '@/lib/verified-reviews';
+import { checkRateLimit, RATE_LIMIT_CONFIGS, SECURITY_HEADERS } from '@/lib/security-middleware';
 import type { Review } from '@/types';
 
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const REVIEW_SOURCES: Array<Review['source']> = ['google', 'tripadvisor', 'direct'];
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const tourId = searchParams.get('tourId');
-    const limit = parseInt(searchParams.get('limit') || '10');
+    const source = searchParams.get('source');
+    const number = (name: string) => {
+      const value = parseInt(searchParams.get(name) || '');
+      return Number.isFinite(value) ? value : undefined;
+    };
+
+    if (source && source !== 'all' && !REVIEW_SOURCES.includes(source as Review['source'])) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid review source', reviews: [] },
+        { status: 400 }
+      );
+    }
 
-    // Always use mock reviews for now
-    const reviews = getMockReviews(tourId);
+    // cache=false asks for a fresh sync, at most once every few minutes
+    const refreshed = searchParams.get('cache') === 'false'
+      ? await syncReviewsIfDue(REVIEW_SYNC_CONFIG.minIntervalMs)
+      : null;
 
-    // Aggregate and sort reviews
-    const aggregatedReviews = aggregateReviews(reviews);
+    const result = queryReviews(await getReviews(tourId), {
+      source: source && source !== 'all' ? source as Review['source'] : undefined,
+      rating: number('rating'),
+      minRating: number('minRating'),
+      language: searchParams.get('language') || undefined,
+      page: number('page'),
+      limit: number('limit'),
+    });
+    const { syncedAt } = await getReviewSyncStatus();
 
     return NextResponse.json({
       success: true,
-      reviews: aggregatedReviews.slice(0, limit),
-      cached: false,
-      totalCount: aggregatedReviews.length
+      ...result,
+      cached: !refreshed,
+      syncedAt: syncedAt || null
     });
 
   } catch (error) {
@@ -33,4 +71,96 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// POST - Submit a review from a signed link (multipart form data, photos optional)
+export async function POST(request: NextRequest) {
+  try {
+    const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
+    const rateLimitCheck = checkRateLimit(`review:${clientIP}`, RATE_LIMIT_CONFIGS.contact);
+    if (!rateLimitCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Too many submissions. Please try again later.',
+          resetTime: rateLimitCheck.resetTime
+        },
+        { status: 429, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const formData = await request.formData();
+    const text = (name: string) => {
+      const value = formData.get(name);
+      return typeof value === 'string' && value !== '' ? value : undefined;
+    };
+
+    const submission = reviewSubmissionSchema.parse({
+      rating: text('rating'),
+      comment: text('comment') || '',
+      country: text('country'),
+    });
+
+    const files = formData.getAll('photos').filter((value): value is File => typeof value !== 'string');
+    if (files.length > MAX_REVIEW_PHOTOS) {
+      return NextResponse.json(
+        { error: `Up to ${MAX_REVIEW_PHOTOS} photos can be added` },
+        { status: 400, headers: SECURITY_HEADERS }
+      );
+    }
+    if (files.some(file => !PHOTO_TYPES.includes(file.type) || file.size > MAX_REVIEW_PHOTO_BYTES)) {
+      return NextResponse.json(
+        { error: 'Photos must be JPEG, PNG or WebP images under 8MB' },
+        { status: 400, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const photos = await Promise.all(files.map(async file => ({
+      buffer: Buffer.from(await file.arrayBuffer()),
+      mimeType: file.type,
+    })));
+
+    const readable = await Promise.all(photos.map(isReadableReviewPhoto));
+    if (readable.includes(false)) {
+      return NextResponse.json(
+        { error: 'One of the photos could not be read as an image' },
+        { status: 400, headers: SECURITY_HEADERS }
+      );
+    }
+
+    const review = await submitReview(
+      { booking: text('booking'), expires: text('expires'), signature: text('signature') },
+      submission,
+      photos
+    );
+
+    return NextResponse.json(
+      { success: true, reviewId: review.id, status: review.status },
+      { status: 201, headers: SECURITY_HEADERS }
+    );
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: error.issues[0].message,
+          details: error.issues
+        },
+        { status: 400, headers: SECURITY_HEADERS }
+      );
+    }
+
+    if (error instanceof ReviewLinkError) {
+      const status = error.problem === 'already-reviewed' ? 409 : error.problem === 'invalid' ? 403 : 400;
+      return NextResponse.json(
+        { error: error.message, problem: error.problem },
+        { status, headers: SECURITY_HEADERS }
+      );
+    }
+
+    console.error('Review submission failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit your review' },
+      { status: 500, headers: SECURITY_HEADERS }
+    );
+  }
+}
@@ -1,14 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getMockReviews } from '@/lib/review-providers';
-import { generateTrustSignals, calculateReviewStats } from '@/lib/review-aggregation';
+import { generateTrustSignals, calculateReviewStats, getReviews } from '@/lib/review-aggregation';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const tourId = searchParams.get('tourId');
 
-    // Always use mock reviews for now
-    const reviews = getMockReviews(tourId);
+    const reviews = await getReviews(tourId);
 
     const trustSignals = generateTrustSignals(reviews);
     const stats = calculateReviewStats(reviews);
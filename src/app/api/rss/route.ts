@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LOCALES } from '@/lib/constants';
+import { getBlogPostUrl, getLocalizedContent } from '@/lib/blog';
+import { getAllBlogPosts } from '@/lib/blog-index';
+import type { Locale } from '@/types';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export async function GET(request: NextRequest) {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://guidefilip-prague.com';
+  const requested = request.nextUrl.searchParams.get('locale');
+  const locale: Locale = LOCALES.includes(requested as Locale) ? (requested as Locale) : 'en';
+
+  // Only live posts; drafts and posts scheduled for later never reach the feed
+  const posts = await getAllBlogPosts();
+
+  let xml = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>Guide Filip Prague Blog</title>
+    <link>${baseUrl}/${locale}/blog</link>
+    <description>Stories and tips from a local Prague guide</description>
+    <language>${locale}</language>
+    <atom:link href="${baseUrl}/api/rss?locale=${locale}" rel="self" type="application/rss+xml" />`;
+
+  posts.forEach((post) => {
+    const url = `${baseUrl}${getBlogPostUrl(post.slug, locale)}`;
+
+    xml += `
+    <item>
+      <title>${escapeXml(getLocalizedContent(post.frontmatter.title, locale))}</title>
+      <link>${url}</link>
+      <guid isPermaLink="true">${url}</guid>
+      <description>${escapeXml(getLocalizedContent(post.frontmatter.excerpt, locale))}</description>
+      <pubDate>${new Date(post.publishedAt).toUTCString()}</pubDate>
+      <category>${escapeXml(post.frontmatter.category)}</category>
+    </item>`;
+  });
+
+  xml += `
+  </channel>
+</rss>`;
+
+  return new NextResponse(xml, {
+    headers: {
+      'Content-Type': 'application/rss+xml; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600, s-maxage=3600',
+    },
+  });
+}
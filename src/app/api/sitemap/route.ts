@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
-import { routing } from '@/i18n/routing';
+import { LOCALES } from '@/lib/i18n';
 import { 
+  generateAlternateLanguages,
   generateStaticPagesSitemap, 
   getToursSitemapData, 
   getBlogPostsSitemapData 
@@ -42,14 +43,9 @@ export async function GET() {
 
   // Add tour pages
   tours.forEach((tour) => {
-    routing.locales.forEach((locale) => {
+    LOCALES.forEach((locale) => {
       const url = `${baseUrl}/${locale}/tours/${tour.slug}`;
-      const alternates: Record<string, string> = {};
-      
-      routing.locales.forEach((altLocale) => {
-        alternates[altLocale] = `${baseUrl}/${altLocale}/tours/${tour.slug}`;
-      });
-      alternates['x-default'] = `${baseUrl}/en/tours/${tour.slug}`;
+      const alternates = generateAlternateLanguages(`/tours/${tour.slug}`);
 
       xml += `
   <url>
@@ -70,14 +66,9 @@ export async function GET() {
 
   // Add blog posts
   blogPosts.forEach((post) => {
-    routing.locales.forEach((locale) => {
+    LOCALES.forEach((locale) => {
       const url = `${baseUrl}/${locale}/blog/${post.slug}`;
-      const alternates: Record<string, string> = {};
-      
-      routing.locales.forEach((altLocale) => {
-        alternates[altLocale] = `${baseUrl}/${altLocale}/blog/${post.slug}`;
-      });
-      alternates['x-default'] = `${baseUrl}/en/blog/${post.slug}`;
+      const alternates = generateAlternateLanguages(`/blog/${post.slug}`);
 
       xml += `
   <url>
@@ -1,6 +1,7 @@
 import { MetadataRoute } from 'next';
-import { routing } from '@/i18n/routing';
+import { LOCALES } from '@/lib/i18n';
 import { 
+  generateAlternateLanguages,
   generateStaticPagesSitemap, 
   getToursSitemapData, 
   getBlogPostsSitemapData 
@@ -16,7 +17,7 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   // Add dynamic tour pages
   const tours = await getToursSitemapData();
   tours.forEach((tour) => {
-    routing.locales.forEach((locale) => {
+    LOCALES.forEach((locale) => {
       const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://guidefilip-prague.com';
       const url = `${baseUrl}/${locale}/tours/${tour.slug}`;
       sitemap.push({
@@ -34,7 +35,7 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   // Add dynamic blog pages
   const blogPosts = await getBlogPostsSitemapData();
   blogPosts.forEach((post) => {
-    routing.locales.forEach((locale) => {
+    LOCALES.forEach((locale) => {
       const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://guidefilip-prague.com';
       const url = `${baseUrl}/${locale}/blog/${post.slug}`;
       sitemap.push({
@@ -51,17 +52,3 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 
   return sitemap;
 }
-
-function generateAlternateLanguages(path: string): Record<string, string> {
-  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://guidefilip-prague.com';
-  const alternates: Record<string, string> = {};
-  
-  routing.locales.forEach((locale) => {
-    alternates[locale] = `${baseUrl}/${locale}${path}`;
-  });
-  
-  // Add x-default
-  alternates['x-default'] = `${baseUrl}/en${path}`;
-  
-  return alternates;
-}
\ No newline at end of file
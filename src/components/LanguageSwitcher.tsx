@@ -1,32 +1,20 @@
 'use client';
 
-import { getLocale, locales } from '@/paraglide/runtime';
+import { getLocale } from '@/paraglide/runtime';
 import { useRouter } from 'next/navigation';
 import { useState } from 'react';
 import { usePathname as useNextPathname } from 'next/navigation';
-
-const localeNames = {
-  en: 'English',
-  de: 'Deutsch',
-  fr: 'Français',
-} as const;
-
-const localeFlags = {
-  en: '🇺🇸',
-  de: '🇩🇪',
-  fr: '🇫🇷',
-} as const;
+import { isLocale, Locale, LOCALE_REGISTRY, LOCALES, localizePath } from '@/lib/i18n';
 
 export function LanguageSwitcher() {
-  const locale = getLocale();
+  const currentLocale = getLocale();
+  const locale = isLocale(currentLocale) ? currentLocale : LOCALES[0];
   const router = useRouter();
   const pathname = useNextPathname();
   const [isOpen, setIsOpen] = useState(false);
 
-  const handleLocaleChange = (newLocale: string) => {
-    // Extract the path without locale prefix
-    const pathWithoutLocale = pathname.replace(/^\/[a-z]{2}/, '') || '/';
-    router.push(`/${newLocale}${pathWithoutLocale}`);
+  const handleLocaleChange = (newLocale: Locale) => {
+    router.push(localizePath(pathname, newLocale));
     setIsOpen(false);
   };
 
@@ -38,8 +26,8 @@ export function LanguageSwitcher() {
         aria-expanded={isOpen}
         aria-haspopup="true"
       >
-        <span className="text-lg">{localeFlags[locale as keyof typeof localeFlags]}</span>
-        <span>{localeNames[locale as keyof typeof localeNames]}</span>
+        <span className="text-lg">{LOCALE_REGISTRY[locale].flag}</span>
+        <span>{LOCALE_REGISTRY[locale].name}</span>
         <svg
           className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`}
           fill="none"
@@ -61,7 +49,7 @@ export function LanguageSwitcher() {
           {/* Dropdown */}
           <div className="absolute right-0 z-20 mt-2 w-48 bg-white border border-gray-200 rounded-md shadow-lg">
             <div className="py-1">
-              {locales.map((loc) => (
+              {LOCALES.map((loc) => (
                 <button
                   key={loc}
                   onClick={() => handleLocaleChange(loc)}
@@ -69,8 +57,8 @@ export function LanguageSwitcher() {
                     locale === loc ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
                   }`}
                 >
-                  <span className="text-lg">{localeFlags[loc as keyof typeof localeFlags]}</span>
-                  <span>{localeNames[loc as keyof typeof localeNames]}</span>
+                  <span className="text-lg">{LOCALE_REGISTRY[loc].flag}</span>
+                  <span>{LOCALE_REGISTRY[loc].name}</span>
                   {locale === loc && (
                     <svg className="w-4 h-4 ml-auto" fill="currentColor" viewBox="0 0 20 20">
                       <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, type ReactNode } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,19 +16,23 @@ import {
   Globe,
   Calendar,
   Tag,
-  Image as ImageIcon
+  Image as ImageIcon,
+  AlertCircle
 } from 'lucide-react';
+import { LOCALES } from '@/lib/constants';
+import { getBlogTranslationProgress } from '@/lib/blog-translations';
+import type { BlogFieldErrors } from '@/lib/blog-content';
 import type { Locale } from '@/types';
-import type { BlogPostFrontmatter } from '@/lib/generated-blog-data';
+import type { BlogPostFrontmatter } from '@/lib/blog';
 
 interface BlogEditorProps {
   initialData?: {
     slug: string;
     frontmatter: BlogPostFrontmatter;
-    content: string;
+    content: Record<Locale, string>;
   };
   locale: Locale;
-  onSave: (data: BlogPostData) => Promise<void>;
+  onSave: (data: BlogPostData) => Promise<BlogFieldErrors | void>;
   onPreview: (data: BlogPostData) => void;
 }
 
@@ -48,6 +52,16 @@ export interface BlogPostData {
   publishedAt: string;
 }
 
+// Request body for POST /api/admin/blog
+export function toBlogPostPayload(data: BlogPostData) {
+  const { slug, content, ...frontmatter } = data;
+  return { slug, frontmatter, content };
+}
+
+// Saved posts only carry the locales that have text
+const withAllLocales = (value?: Partial<Record<Locale, string>>) =>
+  ({ ...Object.fromEntries(LOCALES.map(locale => [locale, ''])), ...value }) as Record<Locale, string>;
+
 const categories = [
   { id: 'travel-guides', name: 'Travel Guides' },
   { id: 'food-drink', name: 'Food & Drink' },
@@ -65,19 +79,20 @@ export function BlogEditor({ initialData, locale, onSave, onPreview }: BlogEdito
   const [activeLocale, setActiveLocale] = useState<Locale>(locale);
   const [isSaving, setIsSaving] = useState(false);
   const [newTag, setNewTag] = useState('');
+  const [errors, setErrors] = useState<BlogFieldErrors>({});
   
   const [formData, setFormData] = useState<BlogPostData>({
     slug: initialData?.slug || '',
-    title: initialData?.frontmatter.title || { en: '', de: '', fr: '' },
-    excerpt: initialData?.frontmatter.excerpt || { en: '', de: '', fr: '' },
-    content: { en: initialData?.content || '', de: '', fr: '' },
+    title: withAllLocales(initialData?.frontmatter.title),
+    excerpt: withAllLocales(initialData?.frontmatter.excerpt),
+    content: withAllLocales(initialData?.content),
     category: initialData?.frontmatter.category || 'travel-guides',
     tags: initialData?.frontmatter.tags || [],
     featuredImage: initialData?.frontmatter.featuredImage || '',
     author: initialData?.frontmatter.author || 'Filip Kareta',
     relatedTours: initialData?.frontmatter.relatedTours || [],
-    seoTitle: initialData?.frontmatter.seoTitle || { en: '', de: '', fr: '' },
-    seoDescription: initialData?.frontmatter.seoDescription || { en: '', de: '', fr: '' },
+    seoTitle: withAllLocales(initialData?.frontmatter.seoTitle),
+    seoDescription: withAllLocales(initialData?.frontmatter.seoDescription),
     seoKeywords: initialData?.frontmatter.seoKeywords || [],
     publishedAt: initialData?.frontmatter.publishedAt || new Date().toISOString().split('T')[0],
   });
@@ -98,7 +113,7 @@ export function BlogEditor({ initialData, locale, onSave, onPreview }: BlogEdito
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      await onSave(formData);
+      setErrors((await onSave(formData)) || {});
     } finally {
       setIsSaving(false);
     }
@@ -125,6 +140,10 @@ export function BlogEditor({ initialData, locale, onSave, onPreview }: BlogEdito
     }));
   };
 
+  // English original shown beside a translation; undefined while editing English
+  const sourceFor = (field: 'title' | 'excerpt' | 'content' | 'seoTitle' | 'seoDescription') =>
+    activeLocale === 'en' ? undefined : formData[field].en;
+
   const toggleRelatedTour = (tourId: string) => {
     setFormData(prev => ({
       ...prev,
@@ -158,22 +177,53 @@ export function BlogEditor({ initialData, locale, onSave, onPreview }: BlogEdito
         </div>
       </div>
 
-      {/* Language Tabs */}
+      {/* Server-side validation problems */}
+      {Object.keys(errors).length > 0 && (
+        <Card className="p-4 border-red-200 bg-red-50">
+          <div className="flex items-start space-x-2 text-red-800">
+            <AlertCircle className="h-5 w-5 mt-0.5" />
+            <div>
+              <p className="font-medium">Please fix the following before saving:</p>
+              <ul className="list-disc list-inside text-sm mt-1">
+                {Object.entries(errors).map(([field, message]) => (
+                  <li key={field}>{field}: {message}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {/* Language Tabs with translation completeness */}
       <Card className="p-4">
         <div className="flex space-x-2">
-          {(['en', 'de', 'fr'] as Locale[]).map((lang) => (
-            <Button
-              key={lang}
-              variant={activeLocale === lang ? 'default' : 'outline'}
-              size="sm"
-              onClick={() => setActiveLocale(lang)}
-              className="flex items-center space-x-1"
-            >
-              <Globe className="h-3 w-3" />
-              <span className="uppercase">{lang}</span>
-            </Button>
-          ))}
+          {LOCALES.map((lang) => {
+            const progress = Math.round(getBlogTranslationProgress(formData, lang) * 100);
+            return (
+              <Button
+                key={lang}
+                variant={activeLocale === lang ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setActiveLocale(lang)}
+                className="flex items-center space-x-1"
+              >
+                <Globe className="h-3 w-3" />
+                <span className="uppercase">{lang}</span>
+                <Badge
+                  variant="outline"
+                  className={`ml-1 text-xs ${progress === 100 ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}
+                >
+                  {progress}%
+                </Badge>
+              </Button>
+            );
+          })}
         </div>
+        {activeLocale !== 'en' && (
+          <p className="text-sm text-gray-500 mt-3">
+            The English original is shown on the left. Untranslated fields fall back to English on the site.
+          </p>
+        )}
       </Card>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -186,8 +236,7 @@ export function BlogEditor({ initialData, locale, onSave, onPreview }: BlogEdito
             </h2>
             
             <div className="space-y-4">
-              <div>
-                <Label htmlFor="title">Title</Label>
+              <TranslationField label="Title" htmlFor="title" source={sourceFor('title')}>
                 <Input
                   id="title"
                   value={formData.title[activeLocale]}
@@ -197,10 +246,9 @@ export function BlogEditor({ initialData, locale, onSave, onPreview }: BlogEdito
                   }))}
                   placeholder="Enter blog post title"
                 />
-              </div>
+              </TranslationField>
 
-              <div>
-                <Label htmlFor="excerpt">Excerpt</Label>
+              <TranslationField label="Excerpt" htmlFor="excerpt" source={sourceFor('excerpt')}>
                 <Textarea
                   id="excerpt"
                   value={formData.excerpt[activeLocale]}
@@ -211,10 +259,14 @@ export function BlogEditor({ initialData, locale, onSave, onPreview }: BlogEdito
                   placeholder="Brief description for social media and search results"
                   rows={3}
                 />
-              </div>
+              </TranslationField>
 
-              <div>
-                <Label htmlFor="content">Content (MDX)</Label>
+              <TranslationField
+                label="Content (MDX)"
+                htmlFor="content"
+                source={sourceFor('content')}
+                sourceClassName="font-mono max-h-[30rem]"
+              >
                 <Textarea
                   id="content"
                   value={formData.content[activeLocale]}
@@ -226,7 +278,7 @@ export function BlogEditor({ initialData, locale, onSave, onPreview }: BlogEdito
                   rows={20}
                   className="font-mono text-sm"
                 />
-              </div>
+              </TranslationField>
             </div>
           </Card>
 
@@ -237,8 +289,7 @@ export function BlogEditor({ initialData, locale, onSave, onPreview }: BlogEdito
             </h2>
             
             <div className="space-y-4">
-              <div>
-                <Label htmlFor="seoTitle">SEO Title</Label>
+              <TranslationField label="SEO Title" htmlFor="seoTitle" source={sourceFor('seoTitle')}>
                 <Input
                   id="seoTitle"
                   value={formData.seoTitle[activeLocale]}
@@ -248,10 +299,9 @@ export function BlogEditor({ initialData, locale, onSave, onPreview }: BlogEdito
                   }))}
                   placeholder="Optimized title for search engines"
                 />
-              </div>
+              </TranslationField>
 
-              <div>
-                <Label htmlFor="seoDescription">SEO Description</Label>
+              <TranslationField label="SEO Description" htmlFor="seoDescription" source={sourceFor('seoDescription')}>
                 <Textarea
                   id="seoDescription"
                   value={formData.seoDescription[activeLocale]}
@@ -262,7 +312,7 @@ export function BlogEditor({ initialData, locale, onSave, onPreview }: BlogEdito
                   placeholder="Meta description for search results"
                   rows={3}
                 />
-              </div>
+              </TranslationField>
             </div>
           </Card>
         </div>
@@ -405,3 +455,38 @@ export function BlogEditor({ initialData, locale, onSave, onPreview }: BlogEdito
     </div>
   );
 }
+
+interface TranslationFieldProps {
+  label: string;
+  htmlFor: string;
+  source?: string;
+  sourceClassName?: string;
+  children: ReactNode;
+}
+
+// Puts the English original next to the translation input
+function TranslationField({ label, htmlFor, source, sourceClassName = 'max-h-40', children }: TranslationFieldProps) {
+  if (source === undefined) {
+    return (
+      <div>
+        <Label htmlFor={htmlFor}>{label}</Label>
+        {children}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Label htmlFor={htmlFor}>{label}</Label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div
+          className={`px-3 py-2 border border-gray-200 bg-gray-50 rounded-md text-sm text-gray-600 whitespace-pre-wrap overflow-y-auto ${sourceClassName}`}
+          aria-label={`${label} (English original)`}
+        >
+          {source || <span className="italic text-gray-400">No English text yet</span>}
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  BLOG_ACTION_LABELS,
+  BlogStatus,
+  BlogWorkflowAction,
+  getBlogWorkflowActions,
+} from '@/lib/blog-workflow';
+
+interface BlogStatusActionsProps {
+  slug: string;
+  status: BlogStatus;
+  publishAt?: string;
+}
+
+// "YYYY-MM-DDTHH:MM" in local time, as datetime-local inputs expect
+function toLocalInputValue(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+export function BlogStatusActions({ slug, status, publishAt }: BlogStatusActionsProps) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+  const [scheduling, setScheduling] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState(
+    toLocalInputValue(publishAt ? new Date(publishAt) : new Date(Date.now() + 24 * 60 * 60 * 1000))
+  );
+
+  const runAction = async (action: BlogWorkflowAction) => {
+    if (action === 'unpublish' && !confirm('Take this post off the site and move it back to draft?')) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const response = await fetch('/api/admin/blog', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          slug,
+          action,
+          ...(action === 'schedule' && { publishAt: new Date(scheduleAt).toISOString() }),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to change the post status');
+        return;
+      }
+
+      setScheduling(false);
+      router.refresh();
+    } catch (error) {
+      console.error('Error changing blog post status:', error);
+      alert('Failed to change the post status. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (scheduling) {
+    return (
+      <div className="flex items-center space-x-2">
+        <Input
+          type="datetime-local"
+          value={scheduleAt}
+          onChange={(e) => setScheduleAt(e.target.value)}
+          className="w-56"
+        />
+        <Button size="sm" onClick={() => runAction('schedule')} disabled={busy || !scheduleAt}>
+          Confirm
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setScheduling(false)} disabled={busy}>
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {getBlogWorkflowActions({ status }).map((action) => (
+        <Button
+          key={action}
+          size="sm"
+          variant={action === 'publish' ? 'default' : 'outline'}
+          disabled={busy}
+          onClick={() => action === 'schedule' ? setScheduling(true) : runAction(action)}
+        >
+          {action === 'schedule' && status === 'scheduled' ? 'Reschedule' : BLOG_ACTION_LABELS[action]}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { LOCALES } from '@/lib/constants';
+import type { MediaFile, MediaFileWithUsage } from '@/lib/media-library';
+import type { Locale } from '@/types';
+
+interface MediaDetailsProps {
+  file: MediaFileWithUsage;
+  onSaved: (file: MediaFile) => void;
+  onClose: () => void;
+}
+
+const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  cs: 'Czech',
+};
+
+export function MediaDetails({ file, onSaved, onClose }: MediaDetailsProps) {
+  const [alt, setAlt] = useState<Partial<Record<Locale, string>>>(file.alt || {});
+  const [caption, setCaption] = useState<Partial<Record<Locale, string>>>(file.caption || {});
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/admin/media', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: file.id, alt, caption }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to save the file details');
+        return;
+      }
+
+      onSaved(data.file);
+    } catch (error) {
+      console.error('Error saving media details:', error);
+      alert('Failed to save the file details. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const widths = Array.from(new Set((file.derivatives || []).map(derivative => derivative.width)));
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{file.name}</h2>
+          <p className="text-sm text-gray-500">{file.originalName}</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+
+      {file.type === 'image' && (
+        <div className="flex items-center gap-4">
+          {file.placeholder && (
+            <div
+              className="h-12 w-16 rounded bg-cover bg-center"
+              style={{ backgroundImage: `url(${file.placeholder})` }}
+              title="Blur placeholder"
+            />
+          )}
+          {file.dominantColor && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <span className="h-6 w-6 rounded border" style={{ backgroundColor: file.dominantColor }} />
+              {file.dominantColor}
+            </div>
+          )}
+          <div className="text-sm text-gray-600">
+            {widths.length > 0
+              ? `AVIF and WebP at ${widths.join(', ')}px`
+              : 'No responsive versions'}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {LOCALES.map((locale) => (
+          <div key={locale} className="grid gap-2 md:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Alt text ({LOCALE_LABELS[locale]})
+              </label>
+              <Input
+                value={alt[locale] || ''}
+                onChange={(e) => setAlt({ ...alt, [locale]: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Caption ({LOCALE_LABELS[locale]})
+              </label>
+              <Input
+                value={caption[locale] || ''}
+                onChange={(e) => setCaption({ ...caption, [locale]: e.target.value })}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Used in</h3>
+        {file.usage.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {file.usage.map((item) => (
+              <Badge key={`${item.type}:${item.id}`} variant="secondary">
+                {item.label}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Not used anywhere yet; it can be deleted.</p>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save details'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { LogOut } from 'lucide-react';
+
+interface SignOutButtonProps {
+  locale: string;
+}
+
+export function SignOutButton({ locale }: SignOutButtonProps) {
+  const router = useRouter();
+  const [signingOut, setSigningOut] = useState(false);
+
+  const signOut = async () => {
+    setSigningOut(true);
+    try {
+      await fetch('/api/admin/auth', { method: 'DELETE' });
+      router.push(`/${locale}/admin/login`);
+      router.refresh();
+    } catch (error) {
+      console.error('Error signing out:', error);
+      setSigningOut(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={signOut} disabled={signingOut}>
+      <LogOut className="h-4 w-4 mr-1" />
+      Sign Out
+    </Button>
+  );
+}
@@ -0,0 +1,625 @@
+'use client';
+
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertTriangle,
+  Globe,
+  Plus,
+  Save,
+  Trash2
+} from 'lucide-react';
+import type { AvailabilityRule, GeoLocation, Locale, LocalizedContent, Tour, TourImage } from '@/types';
+import { validateTour, TourFieldErrors } from '@/lib/tour-schema';
+import { DAY_NAMES } from '@/lib/tour-pricing';
+import { LOCALES } from '@/lib/i18n';
+
+interface TourEditorProps {
+  initialData?: Partial<Tour>;
+  locale: Locale;
+  onSave: (tour: Tour) => Promise<TourFieldErrors | void>;
+}
+
+const LANGUAGES: Locale[] = LOCALES;
+
+const emptyText = (): LocalizedContent =>
+  Object.fromEntries(LOCALES.map(locale => [locale, ''])) as LocalizedContent;
+
+const EMPTY_TOUR: Tour = {
+  id: '',
+  slug: '',
+  title: emptyText(),
+  description: emptyText(),
+  highlights: Object.fromEntries(LOCALES.map(locale => [locale, [] as string[]])) as Tour['highlights'],
+  duration: 120,
+  maxGroupSize: 12,
+  basePrice: 0,
+  currency: 'EUR',
+  difficulty: 'easy',
+  images: [],
+  route: [],
+  availability: [],
+  meetingPoint: emptyText(),
+  reviews: [],
+  seoMetadata: {
+    title: emptyText(),
+    description: emptyText(),
+    keywords: [],
+  },
+};
+
+const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function FieldError({ errors, path }: { errors: TourFieldErrors; path: string }) {
+  if (!errors[path]) return null;
+  return <p className="text-xs text-red-600 mt-1">{errors[path]}</p>;
+}
+
+export function TourEditor({ initialData, locale, onSave }: TourEditorProps) {
+  const [activeLocale, setActiveLocale] = useState<Locale>(locale);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<TourFieldErrors>({});
+  const [tour, setTour] = useState<Tour>({ ...EMPTY_TOUR, ...initialData } as Tour);
+
+  const isNew = !initialData;
+
+  const update = (changes: Partial<Tour>) => setTour(prev => ({ ...prev, ...changes }));
+
+  const setText = (field: 'title' | 'description' | 'meetingPoint', value: string) => {
+    setTour(prev => ({
+      ...prev,
+      [field]: { ...(prev[field] || emptyText()), [activeLocale]: value },
+    }));
+  };
+
+  const setSeoText = (field: 'title' | 'description', value: string) => {
+    setTour(prev => ({
+      ...prev,
+      seoMetadata: {
+        ...prev.seoMetadata,
+        [field]: { ...prev.seoMetadata[field], [activeLocale]: value },
+      },
+    }));
+  };
+
+  const updateImage = (index: number, changes: Partial<TourImage>) => {
+    update({ images: tour.images.map((image, i) => i === index ? { ...image, ...changes } : image) });
+  };
+
+  const updateStop = (index: number, changes: Partial<GeoLocation>) => {
+    update({ route: tour.route.map((stop, i) => i === index ? { ...stop, ...changes } : stop) });
+  };
+
+  const updateRule = (index: number, changes: Partial<AvailabilityRule>) => {
+    update({ availability: tour.availability.map((rule, i) => i === index ? { ...rule, ...changes } : rule) });
+  };
+
+  const handleSave = async () => {
+    // Blank lines are left over from editing highlights one per line
+    const cleaned: Tour = {
+      ...tour,
+      highlights: Object.fromEntries(
+        LANGUAGES.map(lang => [lang, tour.highlights[lang].map(h => h.trim()).filter(Boolean)])
+      ) as Tour['highlights'],
+    };
+    setTour(cleaned);
+
+    // Same schema as the server, so most problems show up before the request
+    const result = validateTour(cleaned);
+    if (!result.success) {
+      setErrors(result.errors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      setErrors((await onSave(cleaned)) || {});
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Error counts per language, so problems in another tab are not missed
+  const errorsForLocale = (lang: Locale) =>
+    Object.keys(errors).filter(path => path.split('.').includes(lang)).length;
+
+  const errorList = Object.entries(errors);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            {isNew ? 'Create New Tour' : 'Edit Tour'}
+          </h1>
+          <p className="text-gray-600 mt-2">
+            {isNew ? 'Describe a new tour in every language' : 'Update tour details, route and schedule'}
+          </p>
+        </div>
+        <Button onClick={handleSave} disabled={isSaving}>
+          <Save className="h-4 w-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+
+      {errorList.length > 0 && (
+        <Card className="p-4 border-red-200 bg-red-50">
+          <div className="flex items-center space-x-2 mb-2">
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+            <h2 className="font-medium text-red-900">
+              {errorList.length} {errorList.length === 1 ? 'field needs' : 'fields need'} attention
+            </h2>
+          </div>
+          <ul className="text-sm text-red-800 space-y-1">
+            {errorList.map(([path, message]) => (
+              <li key={path}><span className="font-mono">{path}</span>: {message}</li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {/* Language Tabs */}
+      <Card className="p-4">
+        <div className="flex space-x-2">
+          {LANGUAGES.map((lang) => (
+            <Button
+              key={lang}
+              variant={activeLocale === lang ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setActiveLocale(lang)}
+              className="flex items-center space-x-1"
+            >
+              <Globe className="h-3 w-3" />
+              <span className="uppercase">{lang}</span>
+              {errorsForLocale(lang) > 0 && (
+                <span className="ml-1 text-xs text-red-600">({errorsForLocale(lang)})</span>
+              )}
+            </Button>
+          ))}
+        </div>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Main Content Editor */}
+        <div className="lg:col-span-2 space-y-6">
+          <Card className="p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Content ({activeLocale.toUpperCase()})
+            </h2>
+
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="title">Title</Label>
+                <Input
+                  id="title"
+                  value={tour.title[activeLocale]}
+                  onChange={(e) => setText('title', e.target.value)}
+                />
+                <FieldError errors={errors} path={`title.${activeLocale}`} />
+              </div>
+
+              <div>
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  value={tour.description[activeLocale]}
+                  onChange={(e) => setText('description', e.target.value)}
+                  rows={6}
+                />
+                <FieldError errors={errors} path={`description.${activeLocale}`} />
+              </div>
+
+              <div>
+                <Label htmlFor="highlights">Highlights (one per line)</Label>
+                <Textarea
+                  id="highlights"
+                  value={tour.highlights[activeLocale].join('\n')}
+                  onChange={(e) => update({
+                    highlights: { ...tour.highlights, [activeLocale]: e.target.value.split('\n') }
+                  })}
+                  rows={7}
+                />
+                <FieldError errors={errors} path={`highlights.${activeLocale}`} />
+              </div>
+
+              <div>
+                <Label htmlFor="meetingPoint">Meeting Point</Label>
+                <Input
+                  id="meetingPoint"
+                  value={tour.meetingPoint?.[activeLocale] || ''}
+                  onChange={(e) => setText('meetingPoint', e.target.value)}
+                />
+                <FieldError errors={errors} path={`meetingPoint.${activeLocale}`} />
+              </div>
+            </div>
+          </Card>
+
+          {/* Images */}
+          <Card className="p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Images</h2>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({
+                  images: [...tour.images, { id: '', url: '', alt: emptyText(), width: 1200, height: 800 }]
+                })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Image
+              </Button>
+            </div>
+            <FieldError errors={errors} path="images" />
+
+            <div className="space-y-4">
+              {tour.images.map((image, index) => (
+                <div key={index} className="border rounded-md p-4 space-y-3">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div>
+                      <Label>ID</Label>
+                      <Input value={image.id} onChange={(e) => updateImage(index, { id: e.target.value })} />
+                      <FieldError errors={errors} path={`images.${index}.id`} />
+                    </div>
+                    <div className="md:col-span-3">
+                      <Label>URL</Label>
+                      <Input
+                        value={image.url}
+                        onChange={(e) => updateImage(index, { url: e.target.value })}
+                        placeholder="/images/tours/example.webp"
+                      />
+                      <FieldError errors={errors} path={`images.${index}.url`} />
+                    </div>
+                    <div>
+                      <Label>Width</Label>
+                      <Input
+                        type="number"
+                        value={image.width}
+                        onChange={(e) => updateImage(index, { width: Number(e.target.value) })}
+                      />
+                      <FieldError errors={errors} path={`images.${index}.width`} />
+                    </div>
+                    <div>
+                      <Label>Height</Label>
+                      <Input
+                        type="number"
+                        value={image.height}
+                        onChange={(e) => updateImage(index, { height: Number(e.target.value) })}
+                      />
+                      <FieldError errors={errors} path={`images.${index}.height`} />
+                    </div>
+                  </div>
+                  <div>
+                    <Label>Alt text ({activeLocale.toUpperCase()})</Label>
+                    <Input
+                      value={image.alt[activeLocale]}
+                      onChange={(e) => updateImage(index, { alt: { ...image.alt, [activeLocale]: e.target.value } })}
+                    />
+                    <FieldError errors={errors} path={`images.${index}.alt.${activeLocale}`} />
+                  </div>
+                  <div>
+                    <Label>Caption ({activeLocale.toUpperCase()}, optional)</Label>
+                    <Input
+                      value={image.caption?.[activeLocale] || ''}
+                      onChange={(e) => updateImage(index, {
+                        caption: { ...(image.caption || emptyText()), [activeLocale]: e.target.value }
+                      })}
+                    />
+                    <FieldError errors={errors} path={`images.${index}.caption.${activeLocale}`} />
+                  </div>
+                  <div className="flex justify-end">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => update({ images: tour.images.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          {/* Route */}
+          <Card className="p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Route</h2>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ route: [...tour.route, { lat: 50.0875, lng: 14.4213, name: emptyText() }] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Stop
+              </Button>
+            </div>
+            <FieldError errors={errors} path="route" />
+
+            <div className="space-y-3">
+              {tour.route.map((stop, index) => (
+                <div key={index} className="grid grid-cols-12 gap-3 items-start">
+                  <div className="col-span-5">
+                    {index === 0 && <Label>Name ({activeLocale.toUpperCase()})</Label>}
+                    <Input
+                      value={stop.name[activeLocale]}
+                      onChange={(e) => updateStop(index, { name: { ...stop.name, [activeLocale]: e.target.value } })}
+                    />
+                    <FieldError errors={errors} path={`route.${index}.name.${activeLocale}`} />
+                  </div>
+                  <div className="col-span-3">
+                    {index === 0 && <Label>Latitude</Label>}
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      value={stop.lat}
+                      onChange={(e) => updateStop(index, { lat: Number(e.target.value) })}
+                    />
+                    <FieldError errors={errors} path={`route.${index}.lat`} />
+                  </div>
+                  <div className="col-span-3">
+                    {index === 0 && <Label>Longitude</Label>}
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      value={stop.lng}
+                      onChange={(e) => updateStop(index, { lng: Number(e.target.value) })}
+                    />
+                    <FieldError errors={errors} path={`route.${index}.lng`} />
+                  </div>
+                  <div className={`col-span-1 ${index === 0 ? 'pt-6' : ''}`}>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => update({ route: tour.route.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          {/* Availability */}
+          <Card className="p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Availability</h2>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({
+                  availability: [...tour.availability, { dayOfWeek: 1, startTime: '10:00', endTime: '13:00', maxBookings: 2 }]
+                })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Slot
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              {tour.availability.map((rule, index) => (
+                <div key={index} className="grid grid-cols-12 gap-3 items-start">
+                  <div className="col-span-4">
+                    {index === 0 && <Label>Day</Label>}
+                    <select
+                      value={rule.dayOfWeek}
+                      onChange={(e) => updateRule(index, { dayOfWeek: Number(e.target.value) })}
+                      className={selectClass}
+                    >
+                      {DAY_NAMES.map((day, dayIndex) => (
+                        <option key={day} value={dayIndex}>{day}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="col-span-2">
+                    {index === 0 && <Label>Start</Label>}
+                    <Input
+                      type="time"
+                      value={rule.startTime}
+                      onChange={(e) => updateRule(index, { startTime: e.target.value })}
+                    />
+                    <FieldError errors={errors} path={`availability.${index}.startTime`} />
+                  </div>
+                  <div className="col-span-2">
+                    {index === 0 && <Label>End</Label>}
+                    <Input
+                      type="time"
+                      value={rule.endTime}
+                      onChange={(e) => updateRule(index, { endTime: e.target.value })}
+                    />
+                    <FieldError errors={errors} path={`availability.${index}.endTime`} />
+                  </div>
+                  <div className="col-span-3">
+                    {index === 0 && <Label>Max bookings</Label>}
+                    <Input
+                      type="number"
+                      min={1}
+                      value={rule.maxBookings}
+                      onChange={(e) => updateRule(index, { maxBookings: Number(e.target.value) })}
+                    />
+                    <FieldError errors={errors} path={`availability.${index}.maxBookings`} />
+                  </div>
+                  <div className={`col-span-1 ${index === 0 ? 'pt-6' : ''}`}>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => update({ availability: tour.availability.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          {/* SEO Settings */}
+          <Card className="p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              SEO Settings ({activeLocale.toUpperCase()})
+            </h2>
+
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="seoTitle">SEO Title</Label>
+                <Input
+                  id="seoTitle"
+                  value={tour.seoMetadata.title[activeLocale]}
+                  onChange={(e) => setSeoText('title', e.target.value)}
+                />
+                <FieldError errors={errors} path={`seoMetadata.title.${activeLocale}`} />
+              </div>
+
+              <div>
+                <Label htmlFor="seoDescription">SEO Description</Label>
+                <Textarea
+                  id="seoDescription"
+                  value={tour.seoMetadata.description[activeLocale]}
+                  onChange={(e) => setSeoText('description', e.target.value)}
+                  rows={3}
+                />
+                <FieldError errors={errors} path={`seoMetadata.description.${activeLocale}`} />
+              </div>
+            </div>
+          </Card>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Tour Details</h3>
+
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="id">Tour ID</Label>
+                <Input
+                  id="id"
+                  value={tour.id}
+                  onChange={(e) => update({ id: e.target.value })}
+                  disabled={!isNew}
+                  placeholder="prague-castle"
+                />
+                <FieldError errors={errors} path="id" />
+              </div>
+
+              <div>
+                <Label htmlFor="slug">URL Slug</Label>
+                <Input
+                  id="slug"
+                  value={tour.slug}
+                  onChange={(e) => update({ slug: e.target.value })}
+                />
+                <FieldError errors={errors} path="slug" />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="basePrice">Price per person</Label>
+                  <Input
+                    id="basePrice"
+                    type="number"
+                    value={tour.basePrice}
+                    onChange={(e) => update({ basePrice: Number(e.target.value) })}
+                  />
+                  <FieldError errors={errors} path="basePrice" />
+                </div>
+                <div>
+                  <Label htmlFor="currency">Currency</Label>
+                  <Input
+                    id="currency"
+                    value={tour.currency}
+                    onChange={(e) => update({ currency: e.target.value.toUpperCase() })}
+                  />
+                  <FieldError errors={errors} path="currency" />
+                </div>
+                <div>
+                  <Label htmlFor="duration">Duration (min)</Label>
+                  <Input
+                    id="duration"
+                    type="number"
+                    value={tour.duration}
+                    onChange={(e) => update({ duration: Number(e.target.value) })}
+                  />
+                  <FieldError errors={errors} path="duration" />
+                </div>
+                <div>
+                  <Label htmlFor="maxGroupSize">Max group</Label>
+                  <Input
+                    id="maxGroupSize"
+                    type="number"
+                    value={tour.maxGroupSize}
+                    onChange={(e) => update({ maxGroupSize: Number(e.target.value) })}
+                  />
+                  <FieldError errors={errors} path="maxGroupSize" />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="difficulty">Difficulty</Label>
+                <select
+                  id="difficulty"
+                  value={tour.difficulty}
+                  onChange={(e) => update({ difficulty: e.target.value as Tour['difficulty'] })}
+                  className={selectClass}
+                >
+                  <option value="easy">Easy</option>
+                  <option value="moderate">Moderate</option>
+                  <option value="challenging">Challenging</option>
+                </select>
+              </div>
+            </div>
+          </Card>
+
+          {/* SEO Keywords */}
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">SEO</h3>
+
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="seoKeywords">Keywords</Label>
+                <Textarea
+                  id="seoKeywords"
+                  value={tour.seoMetadata.keywords.join(', ')}
+                  onChange={(e) => update({
+                    seoMetadata: {
+                      ...tour.seoMetadata,
+                      keywords: e.target.value.split(',').map(k => k.trim()).filter(Boolean),
+                    }
+                  })}
+                  placeholder="keyword1, keyword2, keyword3"
+                  rows={3}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="ogImage">Social image</Label>
+                <Input
+                  id="ogImage"
+                  value={tour.seoMetadata.ogImage || ''}
+                  onChange={(e) => update({ seoMetadata: { ...tour.seoMetadata, ogImage: e.target.value || undefined } })}
+                  placeholder="/images/tours/example-og.jpg"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="canonicalUrl">Canonical URL</Label>
+                <Input
+                  id="canonicalUrl"
+                  value={tour.seoMetadata.canonicalUrl || ''}
+                  onChange={(e) => update({ seoMetadata: { ...tour.seoMetadata, canonicalUrl: e.target.value || undefined } })}
+                  placeholder="/tours/example"
+                />
+              </div>
+            </div>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import { Filter, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import type { Locale } from '@/types';
-import { getLocalizedContent } from '@/lib/generated-blog-data';
+import { getLocalizedContent } from '@/lib/blog';
 
 // Blog categories for filtering
 const blogCategories = [
@@ -17,6 +17,7 @@ const blogCategories = [
       en: 'Travel Guides',
       de: 'Reiseführer',
       fr: 'Guides de voyage',
+      cs: 'Cestovní průvodci',
     },
   },
   {
@@ -26,6 +27,7 @@ const blogCategories = [
       en: 'Food & Drink',
       de: 'Essen & Trinken',
       fr: 'Nourriture & Boisson',
+      cs: 'Jídlo a pití',
     },
   },
   {
@@ -35,6 +37,7 @@ const blogCategories = [
       en: 'History & Legends',
       de: 'Geschichte & Legenden',
       fr: 'Histoire & Légendes',
+      cs: 'Historie a legendy',
     },
   },
   {
@@ -44,6 +47,7 @@ const blogCategories = [
       en: 'Practical Tips',
       de: 'Praktische Tipps',
       fr: 'Conseils pratiques',
+      cs: 'Praktické tipy',
     },
   },
 ];
@@ -1,6 +1,7 @@
 import Link from 'next/link';
 import { FileText, ExternalLink } from 'lucide-react';
-import { getBlogPostBySlug, getLocalizedContent } from '@/lib/generated-blog-data';
+import { getLocalizedContent } from '@/lib/blog';
+import { getBlogPostBySlug } from '@/lib/blog-index';
 import type { Locale } from '@/types';
 
 interface BlogLinkProps {
@@ -11,14 +12,14 @@ interface BlogLinkProps {
   showExcerpt?: boolean;
 }
 
-export function BlogLink({ 
+export async function BlogLink({ 
   slug, 
   children, 
   locale = 'en', 
   variant = 'inline',
   showExcerpt = false 
 }: BlogLinkProps) {
-  const post = getBlogPostBySlug(slug);
+  const post = await getBlogPostBySlug(slug);
   const blogUrl = `/${locale}/blog/${slug}`;
 
   if (!post) {
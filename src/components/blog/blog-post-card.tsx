@@ -3,9 +3,9 @@ import Link from 'next/link';
 import { Clock, Calendar, Tag, User } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import type { ProcessedBlogPost } from '@/lib/generated-blog-data';
+import type { ProcessedBlogPost } from '@/lib/blog';
 import type { Locale } from '@/types';
-import { getLocalizedContent } from '@/lib/generated-blog-data';
+import { getLocalizedContent } from '@/lib/blog';
 
 interface BlogPostCardProps {
   post: ProcessedBlogPost;
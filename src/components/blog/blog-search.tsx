@@ -6,9 +6,8 @@ import { Search, X } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { BlogPostCard } from './blog-post-card';
-import { searchBlogPosts } from '@/lib/generated-blog-data';
+import type { ProcessedBlogPost } from '@/lib/blog';
 import type { Locale } from '@/types';
-import type { ProcessedBlogPost } from '@/lib/generated-blog-data';
 
 interface BlogSearchProps {
   locale: Locale;
@@ -30,16 +29,29 @@ export function BlogSearch({ locale, placeholder = 'Search blog posts...' }: Blo
     }
 
     setIsSearching(true);
+    const controller = new AbortController();
     
-    // Debounce search
-    const timeoutId = setTimeout(() => {
-      const searchResults = searchBlogPosts(query, locale);
-      setResults(searchResults);
-      setShowResults(true);
-      setIsSearching(false);
+    // Debounce search; the posts are searched on the server
+    const timeoutId = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: query.trim(), locale });
+        const response = await fetch(`/api/blog/search?${params}`, { signal: controller.signal });
+        const data = await response.json();
+        setResults(data.posts || []);
+        setShowResults(true);
+        setIsSearching(false);
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') return;
+        console.error('Error searching blog posts:', error);
+        setResults([]);
+        setIsSearching(false);
+      }
     }, 300);
 
-    return () => clearTimeout(timeoutId);
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
   }, [query, locale]);
 
   const handleSearch = (e: React.FormEvent) => {
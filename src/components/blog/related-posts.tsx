@@ -1,5 +1,5 @@
 import { BlogPostCard } from './blog-post-card';
-import { getRelatedBlogPosts } from '@/lib/generated-blog-data';
+import { getRelatedBlogPosts } from '@/lib/blog-index';
 import type { Locale } from '@/types';
 
 interface RelatedPostsProps {
@@ -8,8 +8,8 @@ interface RelatedPostsProps {
   limit?: number;
 }
 
-export function RelatedPosts({ currentSlug, locale, limit = 3 }: RelatedPostsProps) {
-  const relatedPosts = getRelatedBlogPosts(currentSlug, limit);
+export async function RelatedPosts({ currentSlug, locale, limit = 3 }: RelatedPostsProps) {
+  const relatedPosts = await getRelatedBlogPosts(currentSlug, limit);
 
   if (relatedPosts.length === 0) {
     return null;
@@ -14,11 +14,13 @@ const tourData: Record<string, {
       en: 'Prague Castle Tour',
       de: 'Prager Burg Tour',
       fr: 'Visite du Château de Prague',
+      cs: 'Prohlídka Pražského hradu',
     },
     shortDescription: {
       en: 'Explore the largest ancient castle complex in the world',
       de: 'Erkunden Sie den größten antiken Burgkomplex der Welt',
       fr: 'Explorez le plus grand complexe de château antique au monde',
+      cs: 'Prozkoumejte největší starobylý hradní komplex na světě',
     },
     duration: '3 hours',
     price: 'From €45',
@@ -28,11 +30,13 @@ const tourData: Record<string, {
       en: 'Old Town & Jewish Quarter',
       de: 'Altstadt & Jüdisches Viertel',
       fr: 'Vieille Ville & Quartier Juif',
+      cs: 'Staré Město a Židovské Město',
     },
     shortDescription: {
       en: 'Discover medieval streets and Jewish heritage',
       de: 'Entdecken Sie mittelalterliche Straßen und jüdisches Erbe',
       fr: 'Découvrez les rues médiévales et le patrimoine juif',
+      cs: 'Objevte středověké uličky a židovské dědictví',
     },
     duration: '2.5 hours',
     price: 'From €40',
@@ -42,11 +46,13 @@ const tourData: Record<string, {
       en: 'Charles Bridge & Lesser Town',
       de: 'Karlsbrücke & Kleinseite',
       fr: 'Pont Charles & Petite Ville',
+      cs: 'Karlův most a Malá Strana',
     },
     shortDescription: {
       en: 'Walk the famous bridge and baroque Lesser Town',
       de: 'Spazieren Sie über die berühmte Brücke und die barocke Kleinseite',
       fr: 'Promenez-vous sur le célèbre pont et la ville baroque',
+      cs: 'Projděte se po slavném mostě a barokní Malé Straně',
     },
     duration: '2 hours',
     price: 'From €35',
@@ -22,6 +22,7 @@ export interface BookingData {
   totalPrice: number;
   customerInfo?: CustomerInfo;
   specialRequests?: string;
+  holdId?: string; // seats reserved while paying
 }
 
 interface BookingFlowProps {
@@ -82,13 +83,13 @@ export function BookingFlow({ tour, locale, initialData, onComplete }: BookingFl
             newErrors.push(timeValidation.error);
           }
 
-          const availabilityValidation = BookingValidator.validateTourAvailability(tour.id, bookingData.date);
+          const availabilityValidation = BookingValidator.validateTourAvailability(tour, bookingData.date);
           if (!availabilityValidation.valid && availabilityValidation.error) {
             newErrors.push(availabilityValidation.error);
           }
         }
 
-        const groupSizeValidation = BookingValidator.validateGroupSize(bookingData.groupSize, tour.id);
+        const groupSizeValidation = BookingValidator.validateGroupSize(bookingData.groupSize, tour);
         if (!groupSizeValidation.valid && groupSizeValidation.error) {
           newErrors.push(groupSizeValidation.error);
         }
@@ -122,7 +123,7 @@ export function BookingFlow({ tour, locale, initialData, onComplete }: BookingFl
 
       case 3:
         // Final validation before submission
-        const completeValidation = BookingValidator.validateCompleteBooking(bookingData);
+        const completeValidation = BookingValidator.validateCompleteBooking(bookingData, tour);
         if (!completeValidation.valid) {
           newErrors.push(...completeValidation.errors);
         }
@@ -131,7 +132,7 @@ export function BookingFlow({ tour, locale, initialData, onComplete }: BookingFl
 
     setErrors(newErrors);
     return newErrors.length === 0;
-  }, [currentStep, bookingData, tour.id]);
+  }, [currentStep, bookingData, tour]);
 
   const handleNext = useCallback(async () => {
     if (!validateCurrentStep()) {
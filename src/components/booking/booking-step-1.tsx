@@ -9,6 +9,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Tour, Locale } from '@/types';
 import { BookingData } from './booking-flow';
 import { BookingValidator } from '@/lib/booking-validation';
+import { calculateTourPrice, getScheduledSlots, getOperatingDays, DAY_NAMES } from '@/lib/tour-pricing';
 
 interface BookingStep1Props {
   tour: Tour;
@@ -31,7 +32,8 @@ export function BookingStep1({ tour, locale: _locale, bookingData, onUpdate }: B
   const [groupSize, setGroupSize] = useState(bookingData.groupSize);
 
   // Calculate total price whenever group size changes
-  const totalPrice = BookingValidator.calculateTotalPrice(tour.id, groupSize, selectedDate);
+  const priceQuote = calculateTourPrice(tour, groupSize, selectedDate);
+  const totalPrice = priceQuote.total;
 
   // Update parent component when local state changes
   useEffect(() => {
@@ -55,39 +57,21 @@ export function BookingStep1({ tour, locale: _locale, bookingData, onUpdate }: B
       // Simulate API call - in real implementation, this would call the booking provider API
       await new Promise(resolve => setTimeout(resolve, 500));
       
-      // Mock availability data based on tour and date
-      const mockSlots: AvailableSlot[] = [
-        { time: '09:00', available: true, spotsLeft: 6 },
-        { time: '10:00', available: true, spotsLeft: 4 },
-        { time: '11:00', available: false },
-        { time: '14:00', available: true, spotsLeft: 8 },
-        { time: '15:00', available: true, spotsLeft: 3 },
-        { time: '16:00', available: true, spotsLeft: 7 },
-      ];
+      // Slots follow the tour's weekly schedule
+      const scheduledSlots: AvailableSlot[] = getScheduledSlots(tour, date).map(slot => ({
+        time: slot.startTime,
+        available: true,
+        spotsLeft: tour.maxGroupSize,
+      }));
 
-      // Filter based on tour availability rules
-      const dayOfWeek = new Date(date).getDay();
-      const tourAvailability: Record<string, number[]> = {
-        'prague-castle': [1, 2, 3, 4, 5, 6], // Monday to Saturday
-        'old-town': [0, 1, 2, 3, 4, 5, 6], // Every day
-        'jewish-quarter': [1, 2, 3, 4, 5], // Monday to Friday
-        'food-tour': [4, 5, 6], // Thursday to Saturday
-      };
-
-      const availableDays = tourAvailability[tour.id] || [1, 2, 3, 4, 5, 6];
-      
-      if (availableDays.includes(dayOfWeek)) {
-        setAvailableSlots(mockSlots);
-      } else {
-        setAvailableSlots([]);
-      }
+      setAvailableSlots(scheduledSlots);
     } catch (error) {
       console.error('Error fetching availability:', error);
       setAvailableSlots([]);
     } finally {
       setIsLoadingAvailability(false);
     }
-  }, [tour.id]);
+  }, [tour]);
 
   useEffect(() => {
     if (selectedDate) {
@@ -120,7 +104,10 @@ export function BookingStep1({ tour, locale: _locale, bookingData, onUpdate }: B
 
   // Check if selected date is valid
   const dateValidation = selectedDate ? BookingValidator.validateBookingDate(selectedDate) : { valid: true };
-  const availabilityValidation = selectedDate ? BookingValidator.validateTourAvailability(tour.id, selectedDate) : { valid: true };
+  const operatingDays = getOperatingDays(tour);
+  const availabilityValidation = selectedDate && getScheduledSlots(tour, selectedDate).length === 0
+    ? { valid: false, error: `This tour is only available on: ${operatingDays.map(day => DAY_NAMES[day]).join(', ')}` }
+    : { valid: true };
 
   return (
     <div className="space-y-6">
@@ -273,13 +260,13 @@ export function BookingStep1({ tour, locale: _locale, bookingData, onUpdate }: B
         </div>
 
         {/* Group Size Discounts */}
-        {groupSize >= 4 && (
+        {priceQuote.groupDiscountPercent > 0 && (
           <div className="bg-green-50 border border-green-200 rounded-md p-3">
             <p className="text-sm text-green-800 font-medium">
               🎉 Group Discount Applied!
             </p>
             <p className="text-sm text-green-700">
-              {groupSize >= 6 ? '10% discount for groups of 6+' : '5% discount for groups of 4-5'}
+              {priceQuote.groupDiscountPercent}% discount for groups of {groupSize}
             </p>
           </div>
         )}
@@ -291,26 +278,24 @@ export function BookingStep1({ tour, locale: _locale, bookingData, onUpdate }: B
           <div className="space-y-2">
             <div className="flex justify-between items-center">
               <span>Base price ({groupSize} × €{tour.basePrice})</span>
-              <span>€{(tour.basePrice * groupSize).toFixed(2)}</span>
+              <span>€{priceQuote.subtotal.toFixed(2)}</span>
             </div>
             
-            {groupSize >= 4 && (
+            {priceQuote.groupDiscountAmount > 0 && (
               <div className="flex justify-between items-center text-green-600">
                 <span>Group discount</span>
-                <span>-€{((tour.basePrice * groupSize) - (tour.basePrice * groupSize * (groupSize >= 6 ? 0.9 : 0.95))).toFixed(2)}</span>
+                <span>-€{priceQuote.groupDiscountAmount.toFixed(2)}</span>
               </div>
             )}
             
-            {selectedDate && (() => {
-              const month = new Date(selectedDate).getMonth();
-              const isSummer = month >= 5 && month <= 8;
-              return isSummer && (
-                <div className="flex justify-between items-center text-amber-600">
-                  <span>Summer season (15%)</span>
-                  <span>+€{(totalPrice * 0.15 / 1.15).toFixed(2)}</span>
-                </div>
-              );
-            })()}
+            {priceQuote.seasonalAdjustmentAmount !== 0 && (
+              <div className="flex justify-between items-center text-amber-600">
+                <span>Seasonal pricing ({priceQuote.seasonalAdjustmentPercent}%)</span>
+                <span>
+                  {priceQuote.seasonalAdjustmentAmount > 0 ? '+' : '-'}€{Math.abs(priceQuote.seasonalAdjustmentAmount).toFixed(2)}
+                </span>
+              </div>
+            )}
             
             <div className="border-t pt-2 flex justify-between items-center font-bold text-lg">
               <span className="flex items-center gap-1">
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Calendar, Clock, Users, Euro, User, Mail, Phone, MapPin, MessageSquare, Shield, CreditCard, CheckCircle } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -10,6 +10,8 @@ import { Tour, Locale } from '@/types';
 import { BookingData } from './booking-flow';
 import { StripePayment } from '@/components/payment/stripe-payment';
 import { PayPalPayment } from '@/components/payment/paypal-payment';
+import { calculateTourPrice } from '@/lib/tour-pricing';
+import { describeCancellationPolicy, resolveCancellationPolicy } from '@/lib/cancellation-policy';
 
 interface BookingStep3Props {
   tour: Tour;
@@ -19,12 +21,13 @@ interface BookingStep3Props {
   onBookingComplete?: (booking: any) => void;
 }
 
-export function BookingStep3({ tour, locale: _locale, bookingData, onUpdate: _onUpdate, onBookingComplete }: BookingStep3Props) {
+export function BookingStep3({ tour, locale, bookingData, onUpdate, onBookingComplete }: BookingStep3Props) {
   const [paymentMethod, setPaymentMethod] = useState<'stripe' | 'paypal'>('stripe');
   const [agreeToTerms, setAgreeToTerms] = useState(false);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [paymentError, setPaymentError] = useState<string | null>(null);
   const [showPaymentForm, setShowPaymentForm] = useState(false);
+  const [isReservingSeats, setIsReservingSeats] = useState(false);
 
   const formatDate = (dateString: string): string => {
     if (!dateString) return '';
@@ -85,36 +88,27 @@ export function BookingStep3({ tour, locale: _locale, bookingData, onUpdate: _on
   };
 
   const calculatePriceBreakdown = () => {
-    const baseTotal = tour.basePrice * bookingData.groupSize;
-    let discountAmount = 0;
-    let seasonalAmount = 0;
-
-    // Group discount
-    if (bookingData.groupSize >= 6) {
-      discountAmount = baseTotal * 0.1; // 10% discount
-    } else if (bookingData.groupSize >= 4) {
-      discountAmount = baseTotal * 0.05; // 5% discount
-    }
-
-    // Seasonal pricing
-    if (bookingData.date) {
-      const month = new Date(bookingData.date).getMonth();
-      if (month >= 5 && month <= 8) { // June to September
-        const afterDiscount = baseTotal - discountAmount;
-        seasonalAmount = afterDiscount * 0.15; // 15% summer premium
-      }
-    }
+    const quote = calculateTourPrice(tour, bookingData.groupSize, bookingData.date);
 
     return {
-      baseTotal,
-      discountAmount,
-      seasonalAmount,
+      baseTotal: quote.subtotal,
+      discountPercent: quote.groupDiscountPercent,
+      discountAmount: quote.groupDiscountAmount,
+      seasonalPercent: quote.seasonalAdjustmentPercent,
+      seasonalAmount: quote.seasonalAdjustmentAmount,
       finalTotal: bookingData.totalPrice,
     };
   };
 
   const priceBreakdown = calculatePriceBreakdown();
 
+  const cancellationPolicy = resolveCancellationPolicy(tour.cancellationPolicy, bookingData.date);
+  const fullRefundWindow = cancellationPolicy.windows.find(window => window.refundPercent === 100);
+
+  // The customer's language travels with the booking so emails are sent in it.
+  // Memoized because the payment components re-create their intent when this changes.
+  const checkoutData = useMemo(() => ({ ...bookingData, locale }), [bookingData, locale]);
+
   const handlePaymentSuccess = async (paymentResult: any) => {
     setIsProcessingPayment(true);
     setPaymentError(null);
@@ -129,7 +123,7 @@ export function BookingStep3({ tour, locale: _locale, bookingData, onUpdate: _on
         body: JSON.stringify({
           paymentIntentId: paymentResult.paymentIntentId || paymentResult.orderId,
           paymentMethod,
-          bookingData,
+          bookingData: checkoutData,
         }),
       });
 
@@ -156,13 +150,54 @@ export function BookingStep3({ tour, locale: _locale, bookingData, onUpdate: _on
     setIsProcessingPayment(false);
   };
 
-  const handleProceedToPayment = () => {
+  const handleProceedToPayment = async () => {
     if (!agreeToTerms) {
       setPaymentError('Please agree to the Terms and Conditions to proceed');
       return;
     }
     setPaymentError(null);
-    setShowPaymentForm(true);
+    setIsReservingSeats(true);
+
+    try {
+      // Hold the seats while the customer pays
+      const response = await fetch('/api/booking/hold', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          tourId: bookingData.tourId,
+          date: bookingData.date,
+          startTime: bookingData.startTime,
+          groupSize: bookingData.groupSize,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'These seats are no longer available');
+      }
+
+      const hold = await response.json();
+      onUpdate({ holdId: hold.holdId });
+      setShowPaymentForm(true);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'These seats are no longer available';
+      setPaymentError(errorMessage);
+    } finally {
+      setIsReservingSeats(false);
+    }
+  };
+
+  const handleBackToReview = () => {
+    // Release the held seats - fire and forget, the hold expires anyway
+    if (bookingData.holdId) {
+      fetch(`/api/booking/hold?id=${encodeURIComponent(bookingData.holdId)}`, {
+        method: 'DELETE',
+      }).catch(() => undefined);
+      onUpdate({ holdId: undefined });
+    }
+    setShowPaymentForm(false);
   };
 
   return (
@@ -272,16 +307,18 @@ export function BookingStep3({ tour, locale: _locale, bookingData, onUpdate: _on
             {priceBreakdown.discountAmount > 0 && (
               <div className="flex justify-between text-green-600">
                 <span>
-                  Group discount ({bookingData.groupSize >= 6 ? '10%' : '5%'} for {bookingData.groupSize}+ people)
+                  Group discount ({priceBreakdown.discountPercent}% for {bookingData.groupSize} people)
                 </span>
                 <span>-€{priceBreakdown.discountAmount.toFixed(2)}</span>
               </div>
             )}
             
-            {priceBreakdown.seasonalAmount > 0 && (
+            {priceBreakdown.seasonalAmount !== 0 && (
               <div className="flex justify-between text-amber-600">
-                <span>Summer season premium (15%)</span>
-                <span>+€{priceBreakdown.seasonalAmount.toFixed(2)}</span>
+                <span>Seasonal pricing ({priceBreakdown.seasonalPercent}%)</span>
+                <span>
+                  {priceBreakdown.seasonalAmount > 0 ? '+' : '-'}€{Math.abs(priceBreakdown.seasonalAmount).toFixed(2)}
+                </span>
               </div>
             )}
             
@@ -302,7 +339,9 @@ export function BookingStep3({ tour, locale: _locale, bookingData, onUpdate: _on
               <li>• Professional local guide (Filip)</li>
               <li>• Personalized storytelling experience</li>
               <li>• Small group tour (max {tour.maxGroupSize} people)</li>
-              <li>• Free cancellation up to 24 hours before</li>
+              {fullRefundWindow && (
+                <li>• Free cancellation up to {fullRefundWindow.minHoursBefore} hours before</li>
+              )}
               <li>• Instant confirmation</li>
             </ul>
           </div>
@@ -402,8 +441,10 @@ export function BookingStep3({ tour, locale: _locale, bookingData, onUpdate: _on
             <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
               <h4 className="font-medium text-sm mb-2">Key Policies:</h4>
               <ul className="text-xs text-gray-600 space-y-1">
-                <li>• <strong>Free Cancellation:</strong> Cancel up to 24 hours before your tour for a full refund</li>
-                <li>• <strong>Weather Policy:</strong> Tours run rain or shine. In extreme weather, we'll reschedule or refund</li>
+                {describeCancellationPolicy(cancellationPolicy).map(line => (
+                  <li key={line}>• <strong>Cancellation:</strong> {line}</li>
+                ))}
+                <li>• <strong>Changes:</strong> Reschedule online up to {cancellationPolicy.minimumNoticeHours} hours before your tour</li>
                 <li>• <strong>Group Size:</strong> Minimum 1 person, maximum {tour.maxGroupSize} people per booking</li>
                 <li>• <strong>Age Requirements:</strong> All ages welcome. Children under 12 receive 20% discount</li>
                 <li>• <strong>Meeting Point:</strong> Exact location will be provided in your confirmation email</li>
@@ -448,10 +489,12 @@ export function BookingStep3({ tour, locale: _locale, bookingData, onUpdate: _on
 
           <Button
             onClick={handleProceedToPayment}
-            disabled={!agreeToTerms || isProcessingPayment}
+            disabled={!agreeToTerms || isProcessingPayment || isReservingSeats}
             className="w-full bg-prague-600 hover:bg-prague-700 text-white py-3 text-lg"
           >
-            Proceed to Payment - €{priceBreakdown.finalTotal.toFixed(2)}
+            {isReservingSeats
+              ? 'Reserving your seats...'
+              : `Proceed to Payment - €${priceBreakdown.finalTotal.toFixed(2)}`}
           </Button>
         </div>
       ) : (
@@ -462,7 +505,7 @@ export function BookingStep3({ tour, locale: _locale, bookingData, onUpdate: _on
               amount={bookingData.totalPrice}
               currency="eur"
               tourId={tour.id}
-              bookingData={bookingData}
+              bookingData={checkoutData}
               onPaymentSuccess={handlePaymentSuccess}
               onPaymentError={handlePaymentError}
             />
@@ -471,14 +514,14 @@ export function BookingStep3({ tour, locale: _locale, bookingData, onUpdate: _on
               amount={bookingData.totalPrice}
               currency="eur"
               tourId={tour.id}
-              bookingData={bookingData}
+              bookingData={checkoutData}
               onPaymentSuccess={handlePaymentSuccess}
               onPaymentError={handlePaymentError}
             />
           )}
 
           <Button
-            onClick={() => setShowPaymentForm(false)}
+            onClick={handleBackToReview}
             variant="outline"
             className="w-full"
             disabled={isProcessingPayment}
@@ -4,5 +4,6 @@ export { BookingFlow } from './booking-flow';
 export { BookingStep1 } from './booking-step-1';
 export { BookingStep2 } from './booking-step-2';
 export { BookingStep3 } from './booking-step-3';
+export { RescheduleBooking } from './reschedule-booking';
 
 export type { BookingData } from './booking-flow';
\ No newline at end of file
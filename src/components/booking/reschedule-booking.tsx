@@ -0,0 +1,349 @@
+'use client';
+
+// Customer self-service reschedule
+// Find a booking by confirmation code, pick a new slot and settle any price difference
+
+import { useState } from 'react';
+import { Calendar, Clock, Search, CheckCircle, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { StripePayment } from '@/components/payment/stripe-payment';
+import { formatCurrency } from '@/lib/payment-utils';
+
+interface RescheduleBookingProps {
+  initialConfirmationCode?: string;
+}
+
+interface BookingSummary {
+  id: string;
+  tourId: string;
+  date: string;
+  startTime: string;
+  groupSize: number;
+  totalPrice: number;
+  currency: string;
+}
+
+interface RescheduleQuote {
+  currentTotal: number;
+  newTotal: number;
+  priceDifference: number;
+  amountDue: number;
+  refund: { amount: number; percent: number };
+  currency: string;
+}
+
+interface RescheduleResult {
+  confirmationCode?: string;
+  priceChange?: RescheduleQuote & { processingTime?: string };
+}
+
+interface SlotOption {
+  startTime: string;
+  availableSpots: number;
+}
+
+export function RescheduleBooking({ initialConfirmationCode = '' }: RescheduleBookingProps) {
+  const [confirmationCode, setConfirmationCode] = useState(initialConfirmationCode);
+  const [email, setEmail] = useState('');
+  const [booking, setBooking] = useState<BookingSummary | null>(null);
+  const [newDate, setNewDate] = useState('');
+  const [slots, setSlots] = useState<SlotOption[]>([]);
+  const [newStartTime, setNewStartTime] = useState('');
+  const [quote, setQuote] = useState<RescheduleQuote | null>(null);
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [result, setResult] = useState<RescheduleResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const formatDate = (dateString: string): string => {
+    if (!dateString) return '';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const readError = async (response: Response, fallback: string) => {
+    const data = await response.json().catch(() => ({}));
+    return data.error || fallback;
+  };
+
+  const handleLookup = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // The lookup only answers when the email matches the booking
+      const params = new URLSearchParams({ confirmation: confirmationCode.trim(), email: email.trim() });
+      const response = await fetch(`/api/booking?${params}`);
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Booking not found'));
+      }
+
+      const data = await response.json();
+      setBooking(data.booking);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Booking not found');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDateChange = async (date: string) => {
+    if (!booking) return;
+
+    setNewDate(date);
+    setNewStartTime('');
+    setQuote(null);
+    setSlots([]);
+    setError(null);
+
+    if (!date) return;
+
+    try {
+      const response = await fetch(
+        `/api/availability?tourId=${encodeURIComponent(booking.tourId)}&date=${date}`
+      );
+      const data = await response.json();
+
+      const options: SlotOption[] = (data.availableSlots || [])
+        .filter((slot: SlotOption) => slot.availableSpots >= booking.groupSize);
+
+      setSlots(options);
+      if (options.length === 0) {
+        setError(data.error || 'No departures with enough spots on this date');
+      }
+    } catch {
+      setError('Could not load availability');
+    }
+  };
+
+  const handleSlotSelect = async (startTime: string) => {
+    if (!booking) return;
+
+    setNewStartTime(startTime);
+    setQuote(null);
+    setError(null);
+
+    const params = new URLSearchParams({
+      bookingId: booking.id,
+      customerEmail: email.trim(),
+      newDate,
+      newStartTime: startTime,
+    });
+
+    try {
+      const response = await fetch(`/api/booking/reschedule?${params}`);
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Could not price this change'));
+      }
+
+      const data = await response.json();
+      setQuote(data.quote);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not price this change');
+    }
+  };
+
+  const submitReschedule = async (paymentIntentId?: string) => {
+    if (!booking) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/booking/reschedule', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          bookingId: booking.id,
+          customerEmail: email.trim(),
+          newDate,
+          newStartTime,
+          paymentIntentId,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.status === 402 && data.requiresPayment) {
+        setClientSecret(data.clientSecret);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Reschedule failed');
+      }
+
+      setClientSecret(null);
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Reschedule failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center space-y-3">
+          <CheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+          <h2 className="text-2xl font-semibold">Your tour has been moved</h2>
+          <p className="text-gray-600">
+            {formatDate(newDate)} at {newStartTime}
+          </p>
+          {result.priceChange && result.priceChange.refund.amount > 0 && (
+            <p className="text-sm text-gray-600">
+              {formatCurrency(result.priceChange.refund.amount, result.priceChange.currency)} will be refunded within {result.priceChange.processingTime}.
+            </p>
+          )}
+          <p className="text-sm text-gray-600">
+            Your confirmation code stays the same: <strong>{result.confirmationCode || confirmationCode}</strong>
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!booking ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Search className="w-5 h-5" />
+              Find Your Booking
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleLookup} className="space-y-4">
+              <div>
+                <Label htmlFor="confirmationCode">Confirmation code</Label>
+                <Input
+                  id="confirmationCode"
+                  value={confirmationCode}
+                  onChange={(e) => setConfirmationCode(e.target.value)}
+                  placeholder="PRG-XXXXXXXX"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="email">Email used for the booking</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={isLoading} className="w-full">
+                {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+                Find Booking
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="w-5 h-5" />
+                Current Booking
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-1">
+              <p>{formatDate(booking.date)} at {booking.startTime}</p>
+              <p>{booking.groupSize} {booking.groupSize === 1 ? 'person' : 'people'} · {formatCurrency(booking.totalPrice, booking.currency)}</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="w-5 h-5" />
+                Choose a New Time
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="newDate">New date</Label>
+                <Input
+                  id="newDate"
+                  type="date"
+                  value={newDate}
+                  min={new Date().toISOString().split('T')[0]}
+                  onChange={(e) => handleDateChange(e.target.value)}
+                />
+              </div>
+
+              {slots.length > 0 && (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {slots.map(slot => (
+                    <Button
+                      key={slot.startTime}
+                      variant={slot.startTime === newStartTime ? 'default' : 'outline'}
+                      onClick={() => handleSlotSelect(slot.startTime)}
+                    >
+                      {slot.startTime}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {quote && (
+                <div className="rounded-md bg-gray-50 p-4 text-sm space-y-1">
+                  <p>New price: {formatCurrency(quote.newTotal, quote.currency)}</p>
+                  {quote.amountDue > 0 && (
+                    <p>Amount to pay: <strong>{formatCurrency(quote.amountDue, quote.currency)}</strong></p>
+                  )}
+                  {quote.priceDifference < 0 && (
+                    <p>
+                      Refund: <strong>{formatCurrency(quote.refund.amount, quote.currency)}</strong> ({quote.refund.percent}% of the difference)
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {quote && !clientSecret && (
+                <Button onClick={() => submitReschedule()} disabled={isLoading} className="w-full">
+                  {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+                  {quote.amountDue > 0 ? 'Continue to Payment' : 'Confirm New Time'}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {clientSecret && quote && (
+            <StripePayment
+              amount={quote.amountDue}
+              currency={quote.currency.toLowerCase()}
+              tourId={booking.tourId}
+              bookingData={booking}
+              clientSecret={clientSecret}
+              onPaymentSuccess={(payment) => submitReschedule(payment.paymentIntentId)}
+              onPaymentError={setError}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
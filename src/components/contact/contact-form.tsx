@@ -0,0 +1,190 @@
+'use client';
+
+// Contact form
+// Posts to /api/contact with a hidden honeypot field and a server-signed token for when the form was shown
+
+import { useState, useEffect } from 'react';
+import { CheckCircle, Loader2 } from 'lucide-react';
+import { Locale } from '@/types';
+
+interface ContactFormProps {
+  locale: Locale;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Replace a token this close to expiring before sending
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+interface FormToken {
+  value: string;
+  fetchedAt: number;
+  expiresInMs: number;
+  minFillMs: number;
+}
+
+async function fetchFormToken(): Promise<FormToken> {
+  const response = await fetch('/api/contact', { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error('Failed to send your message. Please try again.');
+  }
+
+  const data = await response.json();
+  return {
+    value: data.formToken,
+    fetchedAt: Date.now(),
+    expiresInMs: data.expiresInMs,
+    minFillMs: data.minFillMs,
+  };
+}
+
+export function ContactForm({ locale }: ContactFormProps) {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [message, setMessage] = useState('');
+  const [website, setWebsite] = useState('');
+  const [formToken, setFormToken] = useState<FormToken | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetched on load so a statically rendered page doesn't carry a stale token
+  useEffect(() => {
+    fetchFormToken()
+      .then(setFormToken)
+      .catch(() => setFormToken(null));
+  }, []);
+
+  // A token that failed to load or went stale while the form was open is fetched again,
+  // then the server's fill-time check is waited out
+  const getFreshFormToken = async (): Promise<string> => {
+    let token = formToken;
+    if (!token || Date.now() - token.fetchedAt > token.expiresInMs - TOKEN_REFRESH_MARGIN_MS) {
+      token = await fetchFormToken();
+      setFormToken(token);
+    }
+
+    const wait = token.minFillMs - (Date.now() - token.fetchedAt);
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    return token.value;
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const token = await getFreshFormToken();
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, email, message, locale, website, formToken: token }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        // Sending again fetches a new token
+        if (data.code === 'FORM_EXPIRED') {
+          setFormToken(null);
+        }
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to send your message');
+      }
+
+      setSent(true);
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Failed to send your message');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="text-center py-8">
+        <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">Message sent</h3>
+        <p className="text-gray-600">
+          Thanks, {name}! I&apos;ll get back to you within 24 hours. A confirmation is on its way to {email}.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+          Name
+        </label>
+        <input
+          type="text"
+          id="name"
+          required
+          maxLength={100}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+          Email
+        </label>
+        <input
+          type="email"
+          id="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label htmlFor="message" className="block text-sm font-medium text-gray-700 mb-2">
+          Message
+        </label>
+        <textarea
+          id="message"
+          rows={4}
+          required
+          minLength={10}
+          maxLength={5000}
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          className={inputClassName}
+        ></textarea>
+      </div>
+
+      {/* Honeypot - hidden from people, filled in by bots */}
+      <div className="hidden" aria-hidden="true">
+        <label htmlFor="website">Website</label>
+        <input
+          type="text"
+          id="website"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold py-3 px-6 rounded-md transition-colors flex items-center justify-center"
+      >
+        {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Send Message
+      </button>
+    </form>
+  );
+}
@@ -7,7 +7,7 @@ import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Container } from '@/components/ui/container';
 import { ResponsiveImage } from '@/components/ui/responsive-image';
-import type { Tour } from '@/types';
+import type { Locale, Tour } from '@/types';
 
 // Mock tour data - in real implementation, this would come from props or API
 const mockTours: Partial<Tour>[] = [
@@ -17,7 +17,8 @@ const mockTours: Partial<Tour>[] = [
     title: {
       en: 'Prague Castle: Stories of Kings & Legends',
       de: 'Prager Burg: Geschichten von Königen & Legenden',
-      fr: 'Château de Prague: Histoires de Rois & Légendes'
+      fr: 'Château de Prague: Histoires de Rois & Légendes',
+      cs: 'Pražský hrad: Příběhy králů a legendy'
     },
     basePrice: 45,
     duration: 180,
@@ -27,7 +28,8 @@ const mockTours: Partial<Tour>[] = [
       alt: {
         en: 'Prague Castle with St. Vitus Cathedral',
         de: 'Prager Burg mit St. Veits-Dom',
-        fr: 'Château de Prague avec la cathédrale Saint-Guy'
+        fr: 'Château de Prague avec la cathédrale Saint-Guy',
+        cs: 'Pražský hrad s katedrálou svatého Víta'
       },
       width: 400,
       height: 300
@@ -39,7 +41,8 @@ const mockTours: Partial<Tour>[] = [
     title: {
       en: 'Old Town Mysteries & Hidden Gems',
       de: 'Geheimnisse der Altstadt & Versteckte Juwelen',
-      fr: 'Mystères de la Vieille Ville & Joyaux Cachés'
+      fr: 'Mystères de la Vieille Ville & Joyaux Cachés',
+      cs: 'Tajemství Starého Města a skrytá místa'
     },
     basePrice: 35,
     duration: 150,
@@ -49,7 +52,8 @@ const mockTours: Partial<Tour>[] = [
       alt: {
         en: 'Prague Old Town Square with Astronomical Clock',
         de: 'Prager Altstädter Ring mit Astronomischer Uhr',
-        fr: 'Place de la Vieille Ville de Prague avec Horloge Astronomique'
+        fr: 'Place de la Vieille Ville de Prague avec Horloge Astronomique',
+        cs: 'Staroměstské náměstí s orlojem'
       },
       width: 400,
       height: 300
@@ -61,7 +65,8 @@ const mockTours: Partial<Tour>[] = [
     title: {
       en: 'Jewish Quarter: Heritage & Memory',
       de: 'Jüdisches Viertel: Erbe & Erinnerung',
-      fr: 'Quartier Juif: Patrimoine & Mémoire'
+      fr: 'Quartier Juif: Patrimoine & Mémoire',
+      cs: 'Židovské Město: Dědictví a paměť'
     },
     basePrice: 40,
     duration: 120,
@@ -71,7 +76,8 @@ const mockTours: Partial<Tour>[] = [
       alt: {
         en: 'Old Jewish Cemetery in Prague',
         de: 'Alter Jüdischer Friedhof in Prag',
-        fr: 'Ancien Cimetière Juif à Prague'
+        fr: 'Ancien Cimetière Juif à Prague',
+        cs: 'Starý židovský hřbitov v Praze'
       },
       width: 400,
       height: 300
@@ -83,7 +89,8 @@ const mockTours: Partial<Tour>[] = [
     title: {
       en: 'Charles Bridge: Tales of Stone Saints',
       de: 'Karlsbrücke: Geschichten der Steinheiligen',
-      fr: 'Pont Charles: Contes des Saints de Pierre'
+      fr: 'Pont Charles: Contes des Saints de Pierre',
+      cs: 'Karlův most: Příběhy kamenných světců'
     },
     basePrice: 30,
     duration: 90,
@@ -93,7 +100,8 @@ const mockTours: Partial<Tour>[] = [
       alt: {
         en: 'Charles Bridge with Prague Castle in background',
         de: 'Karlsbrücke mit Prager Burg im Hintergrund',
-        fr: 'Pont Charles avec le Château de Prague en arrière-plan'
+        fr: 'Pont Charles avec le Château de Prague en arrière-plan',
+        cs: 'Karlův most s Pražským hradem v pozadí'
       },
       width: 400,
       height: 300
@@ -102,7 +110,7 @@ const mockTours: Partial<Tour>[] = [
 ];
 
 interface FeaturedToursCarouselProps {
-  locale: 'en' | 'de' | 'fr';
+  locale: Locale;
 }
 
 export function FeaturedToursCarousel({ locale }: FeaturedToursCarouselProps) {
@@ -271,7 +279,7 @@ export function FeaturedToursCarousel({ locale }: FeaturedToursCarouselProps) {
 
 interface TourCardProps {
   tour: Partial<Tour>;
-  locale: 'en' | 'de' | 'fr';
+  locale: Locale;
 }
 
 function TourCard({ tour, locale }: TourCardProps) {
@@ -5,17 +5,13 @@ import { usePathname } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Navigation } from './navigation';
 import * as m from '@/paraglide/messages';
-import { locales, getLocale } from '@/paraglide/runtime';
+import { getLocale } from '@/paraglide/runtime';
+import { LOCALE_REGISTRY, LOCALES, localizePath } from '@/lib/i18n';
 
 export function Header() {
   const pathname = usePathname();
   const currentLocale = getLocale();
 
-  const getLocalizedPath = (locale: string) => {
-    const pathWithoutLocale = pathname.replace(/^\/[a-z]{2}/, '');
-    return `/${locale}${pathWithoutLocale}`;
-  };
-
   return (
     <header className="fixed top-0 left-0 right-0 z-50 bg-gradient-to-b from-black/30 via-stone-900/20 to-transparent backdrop-blur-md border-b border-stone-700/30 shadow-2xl transition-all duration-300">
       <div className="container mx-auto px-6">
@@ -38,8 +34,8 @@ export function Header() {
           {/* Desktop Language Switcher & CTA */}
           <div className="hidden md:flex items-center space-x-6">
             <div className="flex items-center space-x-1 bg-gradient-to-r from-stone-800/40 to-stone-700/40 backdrop-blur-sm border border-stone-600/40 rounded-full p-1 shadow-lg">
-              {locales.map((locale) => (
-                <Link key={locale} href={getLocalizedPath(locale)}>
+              {LOCALES.map((locale) => (
+                <Link key={locale} href={localizePath(pathname, locale)}>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -49,7 +45,7 @@ export function Header() {
                         : "text-stone-200 hover:text-white hover:bg-stone-600/30"
                     }`}
                   >
-                    {locale === 'cz' ? 'CZ' : locale.toUpperCase()}
+                    {LOCALE_REGISTRY[locale].shortName}
                   </Button>
                 </Link>
               ))}
@@ -25,6 +25,7 @@ import {
 import { useMobileDevice, useMobileInteractions } from '@/lib/mobile-interactions';
 import { mobileUtils } from '@/lib/mobile-interactions';
 import * as m from '@/paraglide/messages';
+import { LOCALE_REGISTRY, LOCALES, localizePath } from '@/lib/i18n';
 
 interface MobileNavigationProps {
   locale: string;
@@ -39,29 +40,28 @@ export function MobileNavigation({ locale }: MobileNavigationProps) {
   const navRef = useRef<HTMLDivElement>(null);
   const mobileDevice = useMobileDevice();
   const pathname = usePathname();
-  const t = useTranslations('navigation');
 
   // Navigation items
   const navigationItems = [
     {
       href: `/${locale}`,
-      label: t('home', { default: 'Home' }),
+      label: m['navigation.home'](),
       icon: Home,
       exact: true,
     },
     {
       href: `/${locale}/tours`,
-      label: t('tours', { default: 'Tours' }),
+      label: m['navigation.tours'](),
       icon: MapPin,
     },
     {
       href: `/${locale}/about`,
-      label: t('about', { default: 'About Filip' }),
+      label: m['navigation.about'](),
       icon: User,
     },
     {
       href: `/${locale}/contact`,
-      label: t('contact', { default: 'Contact' }),
+      label: m['navigation.contact'](),
       icon: MessageCircle,
     },
   ];
@@ -265,7 +265,7 @@ export function MobileNavigation({ locale }: MobileNavigationProps) {
                   size="sm"
                 >
                   <Download className="h-4 w-4 mr-2" />
-                  {t('installApp', { default: 'Install App' })}
+                  {m['navigation.installApp']()}
                 </Button>
               )}
               
@@ -277,7 +277,7 @@ export function MobileNavigation({ locale }: MobileNavigationProps) {
                   size="sm"
                 >
                   <Bell className="h-4 w-4 mr-2" />
-                  {t('enableNotifications', { default: 'Enable Notifications' })}
+                  {m['navigation.enableNotifications']()}
                 </Button>
               )}
               
@@ -287,7 +287,7 @@ export function MobileNavigation({ locale }: MobileNavigationProps) {
                 onClick={() => setIsOpen(false)}
               >
                 <Settings className="h-4 w-4" />
-                {t('settings', { default: 'Settings' })}
+                {m['navigation.settings']()}
               </Link>
             </div>
           </div>
@@ -301,7 +301,6 @@ export function MobileNavigation({ locale }: MobileNavigationProps) {
 export function MobileBottomNav({ locale }: { locale: string }) {
   const pathname = usePathname();
   const mobileDevice = useMobileDevice();
-  const t = useTranslations('navigation');
 
   // Don't show on booking flow or if not mobile
   if (!mobileDevice.isMobile || pathname.includes('/booking')) {
@@ -311,22 +310,22 @@ export function MobileBottomNav({ locale }: { locale: string }) {
   const bottomNavItems = [
     {
       href: `/${locale}`,
-      label: t('home', { default: 'Home' }),
+      label: m['navigation.home'](),
       icon: Home,
     },
     {
       href: `/${locale}/tours`,
-      label: t('tours', { default: 'Tours' }),
+      label: m['navigation.tours'](),
       icon: MapPin,
     },
     {
       href: `/${locale}/booking`,
-      label: t('book', { default: 'Book' }),
+      label: m['navigation.book'](),
       icon: Calendar,
     },
     {
       href: `/${locale}/contact`,
-      label: t('contact', { default: 'Contact' }),
+      label: m['navigation.contact'](),
       icon: MessageCircle,
     },
   ];
@@ -364,19 +363,10 @@ export function MobileLanguageSwitcher({ currentLocale }: { currentLocale: strin
   const [isOpen, setIsOpen] = useState(false);
   const pathname = usePathname();
 
-  const languages = [
-    { code: 'en', name: 'English', flag: '🇺🇸' },
-    { code: 'de', name: 'Deutsch', flag: '🇩🇪' },
-    { code: 'fr', name: 'Français', flag: '🇫🇷' },
-  ];
+  const languages = LOCALES.map(code => ({ code, ...LOCALE_REGISTRY[code] }));
 
   const currentLanguage = languages.find(lang => lang.code === currentLocale) || languages[0];
 
-  const getLocalizedPath = (locale: string) => {
-    const pathWithoutLocale = pathname.replace(/^\/[a-z]{2}/, '');
-    return `/${locale}${pathWithoutLocale}`;
-  };
-
   return (
     <div className="relative">
       <Button
@@ -387,7 +377,7 @@ export function MobileLanguageSwitcher({ currentLocale }: { currentLocale: strin
         aria-label="Change language"
       >
         <span className="text-lg">{currentLanguage.flag}</span>
-        <span className="text-sm font-medium">{currentLanguage.code.toUpperCase()}</span>
+        <span className="text-sm font-medium">{currentLanguage.shortName}</span>
       </Button>
 
       {isOpen && (
@@ -403,7 +393,7 @@ export function MobileLanguageSwitcher({ currentLocale }: { currentLocale: strin
             {languages.map((language) => (
               <Link
                 key={language.code}
-                href={getLocalizedPath(language.code)}
+                href={localizePath(pathname, language.code)}
                 className={`flex items-center gap-3 p-3 hover:bg-gray-50 transition-colors first:rounded-t-lg last:rounded-b-lg ${
                   language.code === currentLocale ? 'bg-blue-50 text-blue-700' : ''
                 }`}
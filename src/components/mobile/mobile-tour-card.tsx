@@ -63,7 +63,6 @@ export function MobileTourCard({
   
   const cardRef = useRef<HTMLDivElement>(null);
   const mobileDevice = useMobileDevice();
-  const t = useTranslations('tours');
 
   // Set up mobile interactions
   useMobileInteractions(cardRef, {
@@ -252,7 +251,7 @@ export function MobileTourCard({
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-green-800">
-                {t('nextAvailable', { default: 'Next Available' })}
+                {m['tours.nextAvailable']()}
               </p>
               <p className="text-xs text-green-600">
                 {new Date(tour.availability.nextAvailable).toLocaleDateString(locale, {
@@ -277,7 +276,7 @@ export function MobileTourCard({
               className="w-full justify-between"
               size="sm"
             >
-              {t('viewDetails', { default: 'View Details' })}
+              {m['tours.viewDetails']()}
               <ChevronRight className="h-4 w-4" />
             </Button>
           </Link>
@@ -291,7 +290,7 @@ export function MobileTourCard({
               size="sm"
             >
               <Calendar className="h-4 w-4 mr-2" />
-              {t('bookNow', { default: 'Book Now' })}
+              {m['tours.bookNow']()}
             </Button>
           </Link>
         </div>
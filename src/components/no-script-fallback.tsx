@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Phone, Mail, MapPin, Clock, Users, Euro } from 'lucide-react';
 import Link from 'next/link';
+import { LOCALE_REGISTRY, LOCALES } from '@/lib/i18n';
 
 /**
  * NoScript fallback for booking forms
@@ -234,16 +235,12 @@ export function NoScriptContactForm() {
  * NoScript language switcher fallback
  */
 export function NoScriptLanguageSwitcher({ currentLocale }: { currentLocale: string }) {
-  const languages = [
-    { code: 'en', name: 'English', flag: '🇺🇸' },
-    { code: 'de', name: 'Deutsch', flag: '🇩🇪' },
-    { code: 'fr', name: 'Français', flag: '🇫🇷' },
-  ];
+  const languages = LOCALES.map(code => ({ code, ...LOCALE_REGISTRY[code] }));
 
   return (
     <noscript>
       <div className="bg-gray-100 border rounded p-3">
-        <p className="text-sm font-medium mb-2">Language / Sprache / Langue:</p>
+        <p className="text-sm font-medium mb-2">Language / Sprache / Langue / Jazyk:</p>
         <div className="flex flex-wrap gap-2">
           {languages.map((lang) => (
             <Link
@@ -24,7 +24,6 @@ interface PayPalPaymentProps {
 
 interface PayPalButtonWrapperProps {
   amount: number;
-  currency: string;
   tourId: string;
   bookingData: any;
   onPaymentSuccess: (result: any) => void;
@@ -33,7 +32,6 @@ interface PayPalButtonWrapperProps {
 
 const PayPalButtonWrapper = ({
   amount,
-  currency,
   tourId,
   bookingData,
   onPaymentSuccess,
@@ -70,7 +68,6 @@ const PayPalButtonWrapper = ({
             },
             body: JSON.stringify({
               amount,
-              currency,
               tourId,
               bookingData,
             }),
@@ -169,7 +166,6 @@ export function PayPalPayment({
           <PayPalScriptProvider options={paypalOptions}>
             <PayPalButtonWrapper
               amount={amount}
-              currency={currency}
               tourId={tourId}
               bookingData={bookingData}
               onPaymentSuccess={onPaymentSuccess}
@@ -23,6 +23,7 @@ interface StripePaymentProps {
   currency: string;
   tourId: string;
   bookingData: any;
+  clientSecret?: string; // intent created elsewhere, e.g. a reschedule price difference
   onPaymentSuccess: (result: any) => void;
   onPaymentError: (error: string) => void;
 }
@@ -143,14 +144,19 @@ export function StripePayment({
   currency,
   tourId,
   bookingData,
+  clientSecret: existingClientSecret,
   onPaymentSuccess,
   onPaymentError,
 }: StripePaymentProps) {
-  const [clientSecret, setClientSecret] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const [clientSecret, setClientSecret] = useState<string | null>(existingClientSecret || null);
+  const [isLoading, setIsLoading] = useState(!existingClientSecret);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    if (existingClientSecret) {
+      return;
+    }
+
     const createPaymentIntent = async () => {
       try {
         const response = await fetch('/api/payment/create-intent', {
@@ -183,7 +189,7 @@ export function StripePayment({
     };
 
     createPaymentIntent();
-  }, [amount, currency, tourId, bookingData, onPaymentError]);
+  }, [amount, currency, tourId, bookingData, existingClientSecret, onPaymentError]);
 
   if (isLoading) {
     return (
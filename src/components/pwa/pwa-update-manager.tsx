@@ -8,7 +8,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { RefreshCw, Download, AlertCircle, CheckCircle } from 'lucide-react';
-import { useTranslations } from 'next-intl';
+import * as m from '@/paraglide/messages';
 
 interface UpdateStatus {
   available: boolean;
@@ -27,7 +27,6 @@ export function PWAUpdateManager() {
   const [showUpdatePrompt, setShowUpdatePrompt] = useState(false);
   const [registration, setRegistration] = useState<ServiceWorkerRegistration | null>(null);
   
-  const t = useTranslations('pwa');
 
   useEffect(() => {
     if ('serviceWorker' in navigator) {
@@ -137,12 +136,10 @@ export function PWAUpdateManager() {
               
               <div className="flex-1">
                 <h3 className="font-semibold text-sm mb-1">
-                  {t('updateAvailable', { default: 'Update Available' })}
+                  {m['pwa.updateAvailable']()}
                 </h3>
                 <p className="text-xs text-gray-600 mb-3">
-                  {t('updateDescription', { 
-                    default: 'A new version of the app is available with improvements and bug fixes.' 
-                  })}
+                  {m['pwa.updateDescription']()}
                 </p>
                 
                 <div className="flex gap-2">
@@ -155,12 +152,12 @@ export function PWAUpdateManager() {
                     {updateStatus.installing ? (
                       <>
                         <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
-                        {t('updating', { default: 'Updating...' })}
+                        {m['pwa.updating']()}
                       </>
                     ) : (
                       <>
                         <Download className="h-3 w-3 mr-1" />
-                        {t('update', { default: 'Update' })}
+                        {m['pwa.update']()}
                       </>
                     )}
                   </Button>
@@ -170,7 +167,7 @@ export function PWAUpdateManager() {
                     variant="ghost"
                     size="sm"
                   >
-                    {t('later', { default: 'Later' })}
+                    {m['pwa.later']()}
                   </Button>
                 </div>
               </div>
@@ -191,12 +188,10 @@ export function PWAUpdateManager() {
               <CheckCircle className="h-5 w-5 text-green-600" />
               <div>
                 <h3 className="font-semibold text-sm">
-                  {t('updateInstalled', { default: 'App Updated!' })}
+                  {m['pwa.updateInstalled']()}
                 </h3>
                 <p className="text-xs text-gray-600">
-                  {t('updateInstalledDescription', { 
-                    default: 'You\'re now using the latest version.' 
-                  })}
+                  {m['pwa.updateInstalledDescription']()}
                 </p>
               </div>
             </div>
@@ -216,7 +211,7 @@ export function PWAUpdateManager() {
               <AlertCircle className="h-5 w-5 text-red-600" />
               <div>
                 <h3 className="font-semibold text-sm">
-                  {t('updateError', { default: 'Update Error' })}
+                  {m['pwa.updateError']()}
                 </h3>
                 <p className="text-xs text-gray-600">
                   {updateStatus.error}
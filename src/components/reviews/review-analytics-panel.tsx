@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import type { ReviewAnalytics, RatingTrendPoint, ReviewTheme } from '@/lib/review-analytics';
+import { AlertTriangle, ThumbsDown, ThumbsUp, TrendingUp } from 'lucide-react';
+
+interface ReviewAnalyticsPanelProps {
+  tourId?: string;
+  className?: string;
+}
+
+// The latest months of a trend, newest last
+const RECENT_MONTHS = 12;
+
+function TrendBars({ points }: { points: RatingTrendPoint[] }) {
+  const recent = points.slice(-RECENT_MONTHS);
+  if (recent.length === 0) {
+    return <p className="text-sm text-gray-500">No reviews yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {recent.map((point) => (
+        <div key={point.period} className="flex items-center gap-3 text-sm">
+          <span className="w-16 text-gray-500">{point.period}</span>
+          <Progress value={point.averageRating} max={5} className="flex-1" />
+          <span className="w-10 text-right font-medium">{point.averageRating.toFixed(1)}</span>
+          <span className="w-24 text-right text-xs text-gray-500">
+            {point.count} · avg {point.rollingAverage.toFixed(1)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ThemeList({ themes, empty }: { themes: ReviewTheme[]; empty: string }) {
+  if (themes.length === 0) {
+    return <p className="text-sm text-gray-500">{empty}</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {themes.map((theme) => (
+        <li key={theme.id} className="flex items-center justify-between text-sm">
+          <span className="font-medium">{theme.label}</span>
+          <span className="text-gray-500">
+            {theme.mentions} {theme.mentions === 1 ? 'review' : 'reviews'} · {theme.averageRating.toFixed(1)}★
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ReviewAnalyticsPanel({ tourId, className = '' }: ReviewAnalyticsPanelProps) {
+  const [analytics, setAnalytics] = useState<ReviewAnalytics | null>(null);
+  const [trendKey, setTrendKey] = useState('overall');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchAnalytics() {
+      try {
+        const params = new URLSearchParams();
+        if (tourId) params.append('tourId', tourId);
+
+        const response = await fetch(`/api/admin/reviews/analytics?${params}`);
+        const data = await response.json();
+        if (!data.success) throw new Error(data.error || 'Failed to load review analytics');
+
+        setAnalytics(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load review analytics');
+      }
+    }
+
+    fetchAnalytics();
+  }, [tourId]);
+
+  if (error) {
+    return (
+      <Card className={className}>
+        <CardContent className="p-6 text-center text-red-600">{error}</CardContent>
+      </Card>
+    );
+  }
+
+  if (!analytics) {
+    return (
+      <Card className={className}>
+        <CardContent className="p-6 text-center text-gray-500">Loading review analytics...</CardContent>
+      </Card>
+    );
+  }
+
+  const { trends, sentiment, themes, phrases, alerts } = analytics;
+  const trendOptions: Array<{ key: string; label: string; points: RatingTrendPoint[] }> = [
+    { key: 'overall', label: 'All reviews', points: trends.overall },
+    ...Object.entries(trends.byTour).map(([key, points]) => ({ key: `tour:${key}`, label: key, points })),
+    ...Object.entries(trends.bySource).map(([key, points]) => ({ key: `source:${key}`, label: key, points: points || [] })),
+  ];
+  const selectedTrend = trendOptions.find(option => option.key === trendKey) || trendOptions[0];
+  const sentimentTotal = sentiment.positive + sentiment.neutral + sentiment.negative;
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {/* Alerts */}
+      {alerts.length > 0 && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4 space-y-2">
+            {alerts.map((alert) => (
+              <div key={alert.tourId} className="flex items-center gap-2 text-sm text-red-800">
+                <AlertTriangle className="h-4 w-4" />
+                <span>
+                  <strong>{alert.tourId}</strong> averages {alert.rollingAverage.toFixed(1)} over its last{' '}
+                  {alert.reviewCount} reviews (below {alert.threshold.toFixed(1)})
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Rating Trends */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <TrendingUp className="h-5 w-5" />
+            Rating Trends
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {trendOptions.map((option) => (
+              <button
+                key={option.key}
+                onClick={() => setTrendKey(option.key)}
+                className={`px-3 py-1 rounded-full text-xs ${
+                  option.key === selectedTrend.key
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <TrendBars points={selectedTrend.points} />
+        </CardContent>
+      </Card>
+
+      {/* Sentiment */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Sentiment</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid md:grid-cols-3 gap-4 text-center">
+            {(['positive', 'neutral', 'negative'] as const).map((label) => (
+              <div key={label}>
+                <div className="text-2xl font-bold">
+                  {sentimentTotal > 0 ? Math.round((sentiment[label] / sentimentTotal) * 100) : 0}%
+                </div>
+                <div className="text-sm text-gray-500 capitalize">{label} ({sentiment[label]})</div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Themes */}
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <ThumbsUp className="h-5 w-5 text-green-600" />
+              Recurring Praise
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ThemeList themes={themes.praise} empty="No recurring praise yet." />
+            <div className="flex flex-wrap gap-2">
+              {phrases.positive.map(({ phrase, mentions }) => (
+                <Badge key={phrase} variant="outline">{phrase} ({mentions})</Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <ThumbsDown className="h-5 w-5 text-red-600" />
+              Recurring Complaints
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ThemeList themes={themes.complaints} empty="No recurring complaints." />
+            <div className="flex flex-wrap gap-2">
+              {phrases.negative.map(({ phrase, mentions }) => (
+                <Badge key={phrase} variant="outline">{phrase} ({mentions})</Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -6,14 +6,16 @@ import { Button } from '@/components/ui/button';
 import { RatingVisualization } from '@/components/ui/rating-visualization';
 import { Testimonials } from '@/components/ui/testimonials';
 import { TrustSignals } from '@/components/ui/trust-signals';
+import { ReviewAnalyticsPanel } from '@/components/reviews/review-analytics-panel';
 import { RefreshCw, ExternalLink } from 'lucide-react';
 
 interface ReviewDashboardProps {
   tourId?: string;
   className?: string;
+  showAnalytics?: boolean; // trends, sentiment and alerts from the admin analytics API
 }
 
-export function ReviewDashboard({ tourId, className = '' }: ReviewDashboardProps) {
+export function ReviewDashboard({ tourId, className = '', showAnalytics = false }: ReviewDashboardProps) {
   const { 
     reviews, 
     stats, 
@@ -111,6 +113,9 @@ export function ReviewDashboard({ tourId, className = '' }: ReviewDashboardProps
         </CardContent>
       </Card>
 
+      {/* Analytics */}
+      {showAnalytics && <ReviewAnalyticsPanel tourId={tourId} />}
+
       {/* Trust Signals */}
       <TrustSignals tourId={tourId} variant="full" />
 
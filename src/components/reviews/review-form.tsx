@@ -0,0 +1,160 @@
+'use client';
+
+// Verified review form
+// Reached from the signed link in the thank-you email; the link parameters are posted with the review
+
+import { useState } from 'react';
+import { Star, CheckCircle, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+interface ReviewFormProps {
+  link: { booking: string; expires: string; signature: string };
+  tourTitle: string;
+  firstName: string;
+  defaultCountry?: string;
+  maxPhotos: number;
+}
+
+export function ReviewForm({ link, tourTitle, firstName, defaultCountry = '', maxPhotos }: ReviewFormProps) {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [country, setCountry] = useState(defaultCountry);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitted, setSubmitted] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      Object.entries(link).forEach(([key, value]) => formData.append(key, value));
+      formData.append('rating', String(rating));
+      formData.append('comment', comment);
+      if (country.trim()) formData.append('country', country.trim());
+      photos.forEach(photo => formData.append('photos', photo));
+
+      const response = await fetch('/api/reviews', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || 'Failed to submit your review. Please try again.');
+        return;
+      }
+
+      setSubmitted(true);
+    } catch (submitError) {
+      console.error('Error submitting review:', submitError);
+      setError('Failed to submit your review. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Thank you, {firstName}!</h2>
+          <p className="text-gray-600">
+            Your review has been received and will appear on the site once it has been checked.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{tourTitle}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <Label>Your rating</Label>
+            <div className="flex items-center gap-1 mt-2">
+              {Array.from({ length: 5 }, (_, i) => (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() => setRating(i + 1)}
+                  aria-label={`${i + 1} star${i === 0 ? '' : 's'}`}
+                  aria-pressed={rating === i + 1}
+                >
+                  <Star
+                    className={`w-8 h-8 ${i < rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="review-comment">Your review</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={6}
+              maxLength={3000}
+              placeholder="What did you enjoy most about the tour?"
+              required
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="review-country">Country (two-letter code)</Label>
+            <Input
+              id="review-country"
+              value={country}
+              onChange={(e) => setCountry(e.target.value.toUpperCase())}
+              maxLength={2}
+              placeholder="e.g. DE"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="review-photos">Photos from the tour (up to {maxPhotos})</Label>
+            <Input
+              id="review-photos"
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              multiple
+              onChange={(e) => setPhotos(Array.from(e.target.files || []).slice(0, maxPhotos))}
+            />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button type="submit" disabled={isLoading || rating === 0} className="w-full">
+            {isLoading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              'Submit Review'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
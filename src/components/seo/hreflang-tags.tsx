@@ -1,4 +1,4 @@
-import { locales } from '@/paraglide/runtime';
+import { DEFAULT_LOCALE, LOCALE_REGISTRY, LOCALES } from '@/lib/i18n';
 
 interface HreflangTagsProps {
   pathname: string;
@@ -9,18 +9,18 @@ export function HreflangTags({ pathname }: HreflangTagsProps) {
   
   return (
     <>
-      {locales.map((locale) => (
+      {LOCALES.map((locale) => (
         <link
           key={locale}
           rel="alternate"
-          hrefLang={locale}
+          hrefLang={LOCALE_REGISTRY[locale].hreflang}
           href={`${baseUrl}/${locale}${pathname}`}
         />
       ))}
       <link
         rel="alternate"
         hrefLang="x-default"
-        href={`${baseUrl}/en${pathname}`}
+        href={`${baseUrl}/${DEFAULT_LOCALE}${pathname}`}
       />
     </>
   );
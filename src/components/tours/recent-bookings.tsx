@@ -31,6 +31,11 @@ export function RecentBookings({ tourId: _tourId, locale: _locale }: RecentBooki
         'day ago': 'jour',
         'days ago': 'jours',
       },
+      cs: {
+        'hours ago': 'hodin',
+        'day ago': 'den',
+        'days ago': 'dny',
+      },
     };
 
     // Simple translation logic - in a real app, use proper i18n
@@ -5,6 +5,7 @@ import { Calendar, Users, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Tour } from '@/types';
+import { calculateTourPrice, getScheduledSlots } from '@/lib/tour-pricing';
 
 interface TourBookingWidgetProps {
   tour: Tour;
@@ -16,14 +17,11 @@ export function TourBookingWidget({ tour, locale: _locale }: TourBookingWidgetPr
   const [groupSize, setGroupSize] = useState(2);
   const [selectedTime, setSelectedTime] = useState<string>('');
 
-  const totalPrice = tour.basePrice * groupSize;
+  const totalPrice = calculateTourPrice(tour, groupSize, selectedDate).total;
 
-  const availableTimes = [
-    '09:00',
-    '10:00',
-    '14:00',
-    '15:00',
-  ];
+  const availableTimes = selectedDate
+    ? getScheduledSlots(tour, selectedDate).map(slot => slot.startTime)
+    : Array.from(new Set(tour.availability.map(rule => rule.startTime))).sort();
 
   const handleBooking = () => {
     // This would integrate with the booking system
@@ -42,9 +42,9 @@ export function TourHero({ tour, locale }: TourHeroProps) {
 
   const getDifficultyLabel = (difficulty: string) => {
     const labels = {
-      easy: { en: 'Easy', de: 'Einfach', fr: 'Facile' },
-      moderate: { en: 'Moderate', de: 'Mittel', fr: 'Modéré' },
-      challenging: { en: 'Challenging', de: 'Anspruchsvoll', fr: 'Difficile' }
+      easy: { en: 'Easy', de: 'Einfach', fr: 'Facile', cs: 'Snadná' },
+      moderate: { en: 'Moderate', de: 'Mittel', fr: 'Modéré', cs: 'Středně náročná' },
+      challenging: { en: 'Challenging', de: 'Anspruchsvoll', fr: 'Difficile', cs: 'Náročná' }
     };
     return labels[difficulty as keyof typeof labels]?.[locale] || difficulty;
   };
@@ -78,7 +78,7 @@ export function TourReviews({ tour, locale }: TourReviewsProps) {
         <div className="space-y-4">
           <h4 className="text-lg font-semibold text-gray-900">What customers say</h4>
           <div className="text-sm text-gray-600">
-            Based on {reviews.length} verified reviews from Google and TripAdvisor
+            Based on {reviews.length} verified reviews from guests, Google and TripAdvisor
           </div>
           {averageRating > 0 && (
             <div className="flex items-center gap-2">
@@ -105,7 +105,7 @@ export function Testimonials({
           </blockquote>
           
           <div className="flex items-center gap-3">
-            {showPhotos && featuredReview.photos?.[0] && (
+            {showPhotos && featuredReview.source !== 'direct' && featuredReview.photos?.[0] && (
               <ResponsiveImage
                 src={featuredReview.photos[0]}
                 alt={`${featuredReview.customerName} profile`}
@@ -188,7 +188,7 @@ function TestimonialCard({ review, showPhotos = true, className = '' }: Testimon
       <CardContent className="p-6">
         <div className="flex items-start justify-between mb-4">
           <div className="flex items-center gap-3">
-            {showPhotos && review.photos?.[0] ? (
+            {showPhotos && review.source !== 'direct' && review.photos?.[0] ? (
               <ResponsiveImage
                 src={review.photos[0]}
                 alt={`${review.customerName} profile`}
@@ -232,6 +232,29 @@ function TestimonialCard({ review, showPhotos = true, className = '' }: Testimon
           "{review.comment}"
         </p>
 
+        {/* Guests' own tour photos on verified reviews */}
+        {showPhotos && review.source === 'direct' && review.photos && (
+          <div className="flex gap-2 mb-4">
+            {review.photos.map((photo) => (
+              <ResponsiveImage
+                key={photo}
+                src={photo}
+                alt={`Photo by ${review.customerName}`}
+                width={80}
+                height={80}
+                className="w-20 h-20 rounded object-cover"
+              />
+            ))}
+          </div>
+        )}
+
+        {review.reply && (
+          <div className="border-l-2 border-prague-200 pl-3 mb-4">
+            <div className="text-xs font-medium text-prague-700 mb-1">Reply from Filip</div>
+            <p className="text-sm text-gray-600">{review.reply.message}</p>
+          </div>
+        )}
+
         <div className="flex items-center justify-between text-xs text-gray-500">
           <span className="capitalize">{review.source} Review</span>
           {review.tourId !== 'general' && (
@@ -6,7 +6,10 @@ import type { ReviewStats, TrustSignal } from '@/lib/review-aggregation';
 
 interface UseReviewsOptions {
   tourId?: string;
-  source?: 'google' | 'tripadvisor' | 'all';
+  source?: 'google' | 'tripadvisor' | 'direct' | 'all';
+  minRating?: number;
+  language?: string;
+  page?: number;
   limit?: number;
   autoRefresh?: boolean;
   refreshInterval?: number; // in milliseconds
@@ -16,6 +19,8 @@ interface UseReviewsReturn {
   reviews: Review[];
   stats: ReviewStats | null;
   trustSignals: TrustSignal[];
+  totalCount: number;
+  totalPages: number;
   loading: boolean;
   error: string | null;
   refresh: () => Promise<void>;
@@ -25,6 +30,9 @@ interface UseReviewsReturn {
 export function useReviews({
   tourId,
   source = 'all',
+  minRating,
+  language,
+  page = 1,
   limit = 10,
   autoRefresh = false,
   refreshInterval = 300000 // 5 minutes
@@ -32,6 +40,8 @@ export function useReviews({
   const [reviews, setReviews] = useState<Review[]>([]);
   const [stats, setStats] = useState<ReviewStats | null>(null);
   const [trustSignals, setTrustSignals] = useState<TrustSignal[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -43,6 +53,9 @@ export function useReviews({
       const params = new URLSearchParams();
       if (tourId) params.set('tourId', tourId);
       if (source !== 'all') params.set('source', source);
+      if (minRating) params.set('minRating', minRating.toString());
+      if (language) params.set('language', language);
+      params.set('page', page.toString());
       params.set('limit', limit.toString());
 
       const [reviewsResponse, trustResponse] = await Promise.all([
@@ -61,6 +74,8 @@ export function useReviews({
 
       if (reviewsData.success) {
         setReviews(reviewsData.reviews || []);
+        setTotalCount(reviewsData.totalCount || 0);
+        setTotalPages(reviewsData.totalPages || 1);
       }
 
       if (trustData.success) {
@@ -75,7 +90,7 @@ export function useReviews({
     } finally {
       setLoading(false);
     }
-  }, [tourId, source, limit]);
+  }, [tourId, source, minRating, language, page, limit]);
 
   const clearCache = useCallback(async () => {
     try {
@@ -115,6 +130,8 @@ export function useReviews({
     reviews,
     stats,
     trustSignals,
+    totalCount,
+    totalPages,
     loading,
     error,
     refresh,
@@ -0,0 +1,72 @@
+// Admin roles and what each one may open
+// Free of Node APIs so middleware and the admin layout can share it with API routes
+
+export const ADMIN_ROLES = ['owner', 'editor', 'assistant-guide'] as const;
+
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export type AdminArea =
+  | 'dashboard'
+  | 'content'
+  | 'backups'
+  | 'restore'
+  | 'bookings'
+  | 'payments'
+  | 'inquiries'
+  | 'reviews'
+  | 'emails'
+  | 'analytics'
+  | 'users';
+
+// Owners can do everything; editors run the content, assistant guides handle customers
+export const ADMIN_ACCESS: Record<AdminArea, AdminRole[]> = {
+  dashboard: ['owner', 'editor', 'assistant-guide'],
+  content: ['owner', 'editor'],
+  backups: ['owner', 'editor'],
+  restore: ['owner'],
+  bookings: ['owner', 'assistant-guide'],
+  payments: ['owner'],
+  inquiries: ['owner', 'assistant-guide'],
+  reviews: ['owner', 'assistant-guide'],
+  emails: ['owner', 'editor', 'assistant-guide'],
+  analytics: ['owner'],
+  users: ['owner'],
+};
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  'assistant-guide': 'Assistant guide',
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function canAccess(role: AdminRole, area: AdminArea): boolean {
+  return ADMIN_ACCESS[area].includes(role);
+}
+
+// Admin pages by their first path segment after /[locale]/admin
+const PAGE_AREAS: Record<string, AdminArea> = {
+  '': 'dashboard',
+  content: 'content',
+  media: 'content',
+  blog: 'content',
+  preview: 'content',
+  backups: 'backups',
+  refunds: 'payments',
+  incidents: 'payments',
+  inquiries: 'inquiries',
+  reviews: 'reviews',
+  emails: 'emails',
+  outbox: 'bookings',
+  analytics: 'analytics',
+  users: 'users',
+};
+
+// The area for an admin page path such as "blog/edit/my-post"; unknown pages are owner-only
+export function getAdminPageArea(adminPath: string): AdminArea {
+  const section = adminPath.replace(/^\/+/, '').split('/')[0];
+  return PAGE_AREAS[section] || 'users';
+}
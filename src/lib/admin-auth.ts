@@ -0,0 +1,313 @@
+// Admin accounts and sign-in
+// Password plus TOTP login, issued as a SessionManager JWT and checked by every admin API route
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { getJsonStore } from '@/lib/json-store';
+import { SessionManager, SESSION_CONFIG } from '@/lib/session-management';
+import { AdminArea, AdminRole, canAccess } from '@/lib/admin-access';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const TOTP_CONFIG = {
+  stepSeconds: 30,
+  digits: 6,
+  window: 1, // accept one step either side for clock drift
+  issuer: 'Prague Tours CMS',
+};
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  name: string;
+  role: AdminRole;
+  passwordHash: string;
+  totpSecret: string; // base32
+  lastTotpStep?: number; // a code is never accepted twice
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+}
+
+export type AdminUserSummary = Omit<AdminUser, 'passwordHash' | 'totpSecret' | 'lastTotpStep'>;
+
+export class AdminUserError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'AdminUserError';
+  }
+}
+
+const userStore = () =>
+  getJsonStore<{ users: AdminUser[] }>(
+    process.env.ADMIN_USERS_FILE || 'admin-users.json',
+    () => ({ users: [] })
+  );
+
+// Never hand credentials to a response
+export const toAdminSummary = (user: AdminUser): AdminUserSummary => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  active: user.active,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+  lastLoginAt: user.lastLoginAt,
+});
+
+// scrypt hashes stored as "scrypt:<salt>:<hash>" in hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = '';
+  for (const byte of buffer) bits += byte.toString(2).padStart(8, '0');
+
+  let output = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return output;
+}
+
+function base32Decode(value: string): Buffer {
+  let bits = '';
+  for (const char of value.toUpperCase().replace(/[\s=]/g, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    bits += index.toString(2).padStart(5, '0');
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function getTotpStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_CONFIG.stepSeconds);
+}
+
+// RFC 6238 code for one time step
+export function generateTotp(secret: string, step: number = getTotpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step % 2 ** 32, 4);
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_CONFIG.digits;
+  return code.toString().padStart(TOTP_CONFIG.digits, '0');
+}
+
+// Returns the matching time step, or null when the code is wrong
+export function verifyTotp(secret: string, code: string, time: number = Date.now()): number | null {
+  if (!new RegExp(`^\\d{${TOTP_CONFIG.digits}}$`).test(code)) return null;
+
+  const current = getTotpStep(time);
+  for (let offset = -TOTP_CONFIG.window; offset <= TOTP_CONFIG.window; offset++) {
+    if (generateTotp(secret, current + offset) === code) {
+      return current + offset;
+    }
+  }
+  return null;
+}
+
+// For authenticator apps, usually shown as a QR code
+export function getTotpUri(user: Pick<AdminUser, 'email'>, secret: string): string {
+  const label = encodeURIComponent(`${TOTP_CONFIG.issuer}:${user.email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_CONFIG.issuer,
+    digits: String(TOTP_CONFIG.digits),
+    period: String(TOTP_CONFIG.stepSeconds),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+export async function findAdminUser(id: string): Promise<AdminUser | null> {
+  const data = await userStore().read();
+  return data.users.find(user => user.id === id) || null;
+}
+
+export async function getAdminUsers(): Promise<AdminUserSummary[]> {
+  const data = await userStore().read();
+  return data.users
+    .map(toAdminSummary)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Check password and authenticator code; failures never say which one was wrong
+export async function authenticateAdmin(
+  email: string,
+  password: string,
+  code: string,
+  now: Date = new Date()
+): Promise<AdminUserSummary | null> {
+  const data = await userStore().read();
+  const user = data.users.find(u => u.email === email.trim().toLowerCase() && u.active);
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    return null;
+  }
+
+  const step = verifyTotp(user.totpSecret, code.trim(), now.getTime());
+  if (step === null) {
+    return null;
+  }
+
+  return userStore().update(latest => {
+    const record = latest.users.find(u => u.id === user.id);
+    if (!record || (record.lastTotpStep !== undefined && step <= record.lastTotpStep)) {
+      return null;
+    }
+
+    record.lastTotpStep = step;
+    record.lastLoginAt = now.toISOString();
+    return toAdminSummary(record);
+  });
+}
+
+// Returns the new account with its authenticator secret, which is only shown once
+export async function createAdminUser(input: {
+  email: string;
+  name: string;
+  role: AdminRole;
+  password: string;
+}): Promise<{ user: AdminUserSummary; totpSecret: string; totpUri: string }> {
+  const email = input.email.trim().toLowerCase();
+  const passwordHash = await hashPassword(input.password);
+  const totpSecret = generateTotpSecret();
+
+  const user = await userStore().update(data => {
+    if (data.users.some(u => u.email === email)) {
+      throw new AdminUserError('An admin with this email already exists', 409);
+    }
+
+    const now = new Date().toISOString();
+    const record: AdminUser = {
+      id: `adm_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      email,
+      name: input.name.trim(),
+      role: input.role,
+      passwordHash,
+      totpSecret,
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    data.users.push(record);
+    return record;
+  });
+
+  return { user: toAdminSummary(user), totpSecret, totpUri: getTotpUri(user, totpSecret) };
+}
+
+// Change role, name or access, or issue a new password or authenticator secret
+export async function updateAdminUser(
+  id: string,
+  changes: { name?: string; role?: AdminRole; active?: boolean; password?: string; resetTotp?: boolean }
+): Promise<{ user: AdminUserSummary; totpSecret?: string; totpUri?: string } | null> {
+  const passwordHash = changes.password ? await hashPassword(changes.password) : undefined;
+  const totpSecret = changes.resetTotp ? generateTotpSecret() : undefined;
+
+  const user = await userStore().update(data => {
+    const record = data.users.find(u => u.id === id);
+    if (!record) return null;
+
+    const losesOwner = record.role === 'owner' && record.active &&
+      ((changes.role && changes.role !== 'owner') || changes.active === false);
+    const otherOwners = data.users.filter(u => u.id !== id && u.role === 'owner' && u.active);
+    if (losesOwner && otherOwners.length === 0) {
+      throw new AdminUserError('At least one active owner is required', 409);
+    }
+
+    if (changes.name) record.name = changes.name.trim();
+    if (changes.role) record.role = changes.role;
+    if (changes.active !== undefined) record.active = changes.active;
+    if (passwordHash) record.passwordHash = passwordHash;
+    if (totpSecret) {
+      record.totpSecret = totpSecret;
+      record.lastTotpStep = undefined;
+    }
+    record.updatedAt = new Date().toISOString();
+    return record;
+  });
+
+  if (!user) return null;
+  return {
+    user: toAdminSummary(user),
+    ...(totpSecret && { totpSecret, totpUri: getTotpUri(user, totpSecret) }),
+  };
+}
+
+// Issue the admin session cookie for a signed-in user
+export async function startAdminSession(
+  user: AdminUserSummary,
+  request: NextRequest,
+  response: NextResponse
+): Promise<void> {
+  const { sessionToken } = await SessionManager.createSession({
+    userId: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    expiresAt: new Date(Date.now() + SESSION_CONFIG.ADMIN_SESSION_DURATION_MS),
+  }, request);
+
+  SessionManager.setAdminSessionCookie(response, sessionToken);
+}
+
+type AdminAuthResult =
+  | { user: AdminUserSummary; response?: undefined }
+  | { user?: undefined; response: NextResponse };
+
+// Guard for admin API routes. The account is re-read so deactivation and role changes apply at once.
+export async function requireAdmin(request: NextRequest, area: AdminArea): Promise<AdminAuthResult> {
+  const session = await SessionManager.getAdminSessionFromRequest(request);
+  const user = session?.userId ? await findAdminUser(session.userId) : null;
+
+  if (!user || !user.active) {
+    return {
+      response: NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!canAccess(user.role, area)) {
+    return {
+      response: NextResponse.json(
+        { error: 'You do not have access to this area' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user: toAdminSummary(user) };
+}
@@ -0,0 +1,362 @@
+// Blog content files for the admin editor
+// Reads and writes a post with its translated bodies, backing up each file and keeping content-manifest.json in step
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { revalidatePath } from 'next/cache';
+import matter from 'gray-matter';
+import readingTime from 'reading-time';
+import { z } from 'zod';
+import { blogIndex } from '@/lib/blog-index';
+import { LOCALES } from '@/lib/constants';
+import { contentLoader } from '@/lib/content-loader';
+import { getContentPath, updateManifestItem } from '@/lib/content-manifest';
+import {
+  blogFileName,
+  getBlogTranslationStatus,
+  isTranslationFile,
+  TRANSLATED_LOCALES,
+  TranslationStatus,
+} from '@/lib/blog-translations';
+import {
+  BLOG_ACTION_LABELS,
+  BLOG_STATUS_LABELS,
+  BLOG_WORKFLOW,
+  BlogLifecycle,
+  BlogStatus,
+  BlogWorkflowAction,
+  getBlogStatus,
+} from '@/lib/blog-workflow';
+import type { Locale } from '@/types';
+
+const MAX_BACKUPS_PER_FILE = 10;
+
+// English is the source language; the others may still be waiting for a translation
+const optionalText = z.string().trim().optional().default('');
+
+const localizedDraft = z.object({
+  ...Object.fromEntries(TRANSLATED_LOCALES.map(locale => [locale, optionalText])) as Record<Exclude<Locale, 'en'>, typeof optionalText>,
+  en: z.string().trim().min(1, 'English text is required'),
+});
+
+const stringList = z.array(z.string().trim().min(1)).default([]);
+
+export const blogPostSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9-]+$/, 'Use only lowercase letters, numbers, and hyphens'),
+  frontmatter: z.looseObject({
+    title: localizedDraft,
+    excerpt: localizedDraft,
+    publishedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}/, 'Publish date must be YYYY-MM-DD'),
+    category: z.string().trim().min(1, 'Category is required'),
+    tags: stringList,
+    featuredImage: z.string().trim().default(''),
+    author: z.string().trim().min(1, 'Author is required'),
+    relatedTours: stringList,
+    seoTitle: localizedDraft.partial().default({}),
+    seoDescription: localizedDraft.partial().default({}),
+    seoKeywords: stringList,
+  }),
+  content: localizedDraft,
+});
+
+export type BlogPostInput = z.infer<typeof blogPostSchema>;
+
+export type BlogFieldErrors = Record<string, string>;
+
+export interface BlogSource {
+  slug: string;
+  frontmatter: Record<string, unknown>;
+  content: Record<Locale, string>;
+}
+
+export interface BlogPostSummary {
+  slug: string;
+  title: Partial<Record<Locale, string>>;
+  excerpt: Partial<Record<Locale, string>>;
+  category: string;
+  tags: string[];
+  author: string;
+  publishedAt: string;
+  status: BlogStatus;
+  publishAt?: string;
+  translations: Record<Locale, TranslationStatus>;
+  readingTime: number;
+  lastModified: string;
+}
+
+type SourceFrontmatter = Partial<BlogPostInput['frontmatter']> & BlogLifecycle & Record<string, unknown>;
+
+export class BlogValidationError extends Error {
+  constructor(public fieldErrors: BlogFieldErrors) {
+    super('Blog post is invalid');
+    this.name = 'BlogValidationError';
+  }
+}
+
+const blogPath = () => path.join(getContentPath(), 'blog');
+const backupPath = () => path.join(getContentPath(), 'backups', 'blog');
+
+async function readFileIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return null;
+  }
+}
+
+// Copy a file aside before it changes, keeping the newest backups only
+async function createBackup(fileName: string): Promise<void> {
+  const original = await readFileIfExists(path.join(blogPath(), fileName));
+  if (original === null) return;
+
+  const base = fileName.replace(/\.mdx$/, '');
+  await fs.mkdir(backupPath(), { recursive: true });
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  await fs.writeFile(path.join(backupPath(), `${base}-${timestamp}.mdx`), original, 'utf-8');
+
+  const backups = (await fs.readdir(backupPath()))
+    .filter(file => file.startsWith(`${base}-`) && /^\d{4}-/.test(file.slice(base.length + 1)))
+    .sort()
+    .reverse();
+
+  for (const file of backups.slice(MAX_BACKUPS_PER_FILE)) {
+    await fs.unlink(path.join(backupPath(), file));
+  }
+}
+
+export async function readBlogSource(slug: string): Promise<BlogSource | null> {
+  if (!/^[a-z0-9-]+$/.test(slug)) return null;
+
+  const source = await readFileIfExists(path.join(blogPath(), blogFileName(slug)));
+  if (source === null) return null;
+
+  // Passing options skips gray-matter's cache, which would hand out the same data object to every caller
+  const { data, content } = matter(source, {});
+  const bodies = { en: content.trim() } as Record<Locale, string>;
+  for (const locale of TRANSLATED_LOCALES) {
+    bodies[locale] = (await readFileIfExists(path.join(blogPath(), blogFileName(slug, locale))))?.trim() || '';
+  }
+
+  return { slug, frontmatter: data, content: bodies };
+}
+
+export async function listBlogSlugs(): Promise<string[]> {
+  try {
+    return (await fs.readdir(blogPath()))
+      .filter(file => file.endsWith('.mdx') && !isTranslationFile(file))
+      .map(file => file.replace(/\.mdx$/, ''));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return [];
+  }
+}
+
+// Drop untranslated locales so the frontmatter only carries real text
+function compactLocalized(value: Partial<Record<Locale, string>>): Partial<Record<Locale, string>> {
+  return Object.fromEntries(Object.entries(value).filter(([, text]) => !!text));
+}
+
+async function updateManifest(post: BlogSource, savedAt: string): Promise<void> {
+  const frontmatter = post.frontmatter as SourceFrontmatter;
+  const stats = readingTime(post.content.en);
+
+  await updateManifestItem('blog', post.slug, {
+    slug: post.slug,
+    status: getBlogStatus(frontmatter),
+    category: frontmatter.category || '',
+    lastModified: savedAt,
+    translations: getBlogTranslationStatus({ ...frontmatter, content: post.content }),
+    seoOptimized: !!frontmatter.seoTitle?.en && !!frontmatter.seoDescription?.en && !!frontmatter.seoKeywords?.length,
+    wordCount: stats.words,
+    readingTime: Math.ceil(stats.minutes),
+  }, savedAt);
+}
+
+// Let the in-memory blog index and the content loader pick up a changed or deleted post
+async function refreshCaches(slug: string): Promise<void> {
+  contentLoader.clearCache();
+  await blogIndex.update(slug);
+}
+
+// Rewrite the frontmatter of <slug>.mdx, keeping its English body
+async function writeFrontmatter(post: BlogSource, frontmatter: Record<string, unknown>): Promise<void> {
+  const fileName = blogFileName(post.slug);
+  await createBackup(fileName);
+  await fs.writeFile(path.join(blogPath(), fileName), matter.stringify(`\n${post.content.en}\n`, frontmatter), 'utf-8');
+}
+
+// Validate and write a post with all of its translations. Throws BlogValidationError with
+// per-field messages; returns null when updating a post that does not exist.
+export async function saveBlogPost(
+  data: unknown,
+  options: { isNew: boolean }
+): Promise<{ post: BlogPostInput; isUpdate: boolean } | null> {
+  const result = blogPostSchema.safeParse(data);
+  if (!result.success) {
+    const errors: BlogFieldErrors = {};
+    for (const issue of result.error.issues) {
+      errors[issue.path.join('.')] ??= issue.message;
+    }
+    throw new BlogValidationError(errors);
+  }
+
+  const post = result.data;
+  const existing = await readFileIfExists(path.join(blogPath(), blogFileName(post.slug)));
+  if (options.isNew && existing !== null) {
+    throw new BlogValidationError({ slug: 'A post with this slug already exists' });
+  }
+  if (!options.isNew && existing === null) {
+    return null;
+  }
+
+  // The lifecycle fields only change through changeBlogStatus; new posts start as drafts
+  let lifecycle: BlogLifecycle = { status: 'draft' };
+  if (existing !== null) {
+    const { status, publishAt } = matter(existing, {}).data as BlogLifecycle;
+    lifecycle = { status: getBlogStatus({ status }), ...(publishAt && { publishAt }) };
+  }
+
+  const savedAt = new Date().toISOString();
+  const editable: Record<string, unknown> = { ...post.frontmatter };
+  delete editable.status;
+  delete editable.publishAt;
+  const frontmatter = {
+    ...editable,
+    ...lifecycle,
+    updatedAt: savedAt,
+    title: compactLocalized(post.frontmatter.title),
+    excerpt: compactLocalized(post.frontmatter.excerpt),
+    seoTitle: compactLocalized(post.frontmatter.seoTitle),
+    seoDescription: compactLocalized(post.frontmatter.seoDescription),
+  };
+
+  await fs.mkdir(blogPath(), { recursive: true });
+  for (const locale of LOCALES) {
+    const fileName = blogFileName(post.slug, locale);
+    const filePath = path.join(blogPath(), fileName);
+    const body = post.content[locale];
+
+    await createBackup(fileName);
+    if (locale === 'en') {
+      await fs.writeFile(filePath, matter.stringify(`\n${body}\n`, frontmatter), 'utf-8');
+    } else if (body) {
+      await fs.writeFile(filePath, `${body}\n`, 'utf-8');
+    } else {
+      await fs.rm(filePath, { force: true });
+    }
+  }
+
+  await updateManifest({ slug: post.slug, frontmatter, content: post.content }, savedAt);
+  await refreshCaches(post.slug);
+
+  return { post, isUpdate: existing !== null };
+}
+
+// Remove a post and its translations after backing them up; false when it does not exist
+export async function deleteBlogPost(slug: string): Promise<boolean> {
+  if (!(await readBlogSource(slug))) return false;
+
+  for (const locale of LOCALES) {
+    const fileName = blogFileName(slug, locale);
+    await createBackup(fileName);
+    await fs.rm(path.join(blogPath(), fileName), { force: true });
+  }
+
+  await updateManifestItem('blog', slug, null);
+  await refreshCaches(slug);
+  return true;
+}
+
+// Move a post through draft, review, scheduled and published. Throws BlogValidationError when the
+// step is not allowed or the publish time is unusable; returns null when the post does not exist.
+export async function changeBlogStatus(
+  slug: string,
+  action: BlogWorkflowAction,
+  options: { publishAt?: string; now?: Date } = {}
+): Promise<BlogSource | null> {
+  const post = await readBlogSource(slug);
+  if (!post) return null;
+
+  const current = post.frontmatter as SourceFrontmatter;
+  const status = getBlogStatus(current);
+  const next = BLOG_WORKFLOW[status][action];
+  if (!next) {
+    throw new BlogValidationError({
+      status: `${BLOG_ACTION_LABELS[action]} is not possible for a post that is ${BLOG_STATUS_LABELS[status].toLowerCase()}`,
+    });
+  }
+
+  const now = options.now || new Date();
+  const updated: SourceFrontmatter = { ...current, status: next };
+  delete updated.publishAt;
+  const today = now.toISOString().slice(0, 10);
+
+  if (next === 'scheduled') {
+    const publishAt = new Date(options.publishAt || '');
+    if (isNaN(publishAt.getTime()) || publishAt <= now) {
+      throw new BlogValidationError({ publishAt: 'Choose a publish time in the future' });
+    }
+    updated.publishAt = publishAt.toISOString();
+    updated.publishedAt = updated.publishAt.slice(0, 10);
+  } else if (next === 'published' && (!updated.publishedAt || updated.publishedAt > today)) {
+    updated.publishedAt = today;
+  }
+
+  const savedAt = now.toISOString();
+  const changed = { ...post, frontmatter: updated };
+  await writeFrontmatter(changed, updated);
+  await updateManifest(changed, savedAt);
+  await refreshCaches(slug);
+
+  return changed;
+}
+
+// Flip scheduled posts whose time has come to published; run by the job runner
+export async function publishDueBlogPosts(now: Date = new Date()): Promise<string[]> {
+  const published: string[] = [];
+
+  for (const slug of await listBlogSlugs()) {
+    const post = await readBlogSource(slug);
+    const frontmatter = post?.frontmatter as SourceFrontmatter | undefined;
+    if (!post || !frontmatter || getBlogStatus(frontmatter) !== 'scheduled') continue;
+    if (!frontmatter.publishAt || new Date(frontmatter.publishAt) > now) continue;
+
+    const updated: SourceFrontmatter = { ...frontmatter, status: 'published' };
+    delete updated.publishAt;
+    const changed = { ...post, frontmatter: updated };
+    await writeFrontmatter(changed, updated);
+    await updateManifest(changed, now.toISOString());
+    await refreshCaches(slug);
+    published.push(slug);
+  }
+
+  return published;
+}
+
+// Every post with its lifecycle and translation state, for the admin screens
+export async function listBlogPosts(): Promise<BlogPostSummary[]> {
+  const posts = await blogIndex.getPosts();
+
+  return posts
+    .map((post) => ({
+      slug: post.slug,
+      title: post.frontmatter.title || { en: post.slug },
+      excerpt: post.frontmatter.excerpt || {},
+      category: post.frontmatter.category || '',
+      tags: post.frontmatter.tags,
+      author: post.frontmatter.author || '',
+      publishedAt: String(post.publishedAt || ''),
+      status: post.status,
+      publishAt: post.publishAt,
+      translations: post.translations,
+      readingTime: post.readingTime,
+      lastModified: post.updatedAt || String(post.publishedAt || ''),
+    }))
+    .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+}
+
+// Static blog pages are rebuilt on their next request once posts change
+export function revalidateBlogPages(): void {
+  revalidatePath('/[locale]/blog', 'layout');
+}
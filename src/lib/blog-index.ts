@@ -0,0 +1,320 @@
+// Blog content index
+// Parses the MDX files once per server process and keeps the posts in memory, updated as posts are written or deleted
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import matter from 'gray-matter';
+import readingTime from 'reading-time';
+import {
+  BlogCategory,
+  BlogPostFrontmatter,
+  getBlogCategory,
+  getLocalizedBody,
+  getLocalizedContent,
+  ProcessedBlogPost,
+} from '@/lib/blog';
+import { blogFileName, getBlogTranslationStatus, isTranslationFile, TRANSLATED_LOCALES } from '@/lib/blog-translations';
+import { BlogLifecycle, getBlogStatus, isBlogPostLive } from '@/lib/blog-workflow';
+import { getContentPath } from '@/lib/content-manifest';
+import type { Locale } from '@/types';
+
+// How often reads look at file modification times for edits made outside this process
+const FRESHNESS_CHECK_MS = 5000;
+
+const blogPath = () => path.join(getContentPath(), 'blog');
+
+// "<slug>.mdx" and "<slug>.<locale>.mdx" both belong to <slug>
+function slugOf(fileName: string): string {
+  return fileName.replace(/\.mdx$/, '').split('.')[0];
+}
+
+async function readFileIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return null;
+  }
+}
+
+function byNewest(a: ProcessedBlogPost, b: ProcessedBlogPost): number {
+  return new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime();
+}
+
+export class BlogContentIndex {
+  private posts = new Map<string, ProcessedBlogPost>();
+  // Modification time per file, to spot changes made by other processes or restores
+  private fileTimes = new Map<string, number>();
+  private loaded: Promise<void> | null = null;
+  private lastCheck = 0;
+
+  // Every indexed post, drafts included
+  async getPosts(): Promise<ProcessedBlogPost[]> {
+    await this.ensureFresh();
+    return Array.from(this.posts.values());
+  }
+
+  // Re-read one post after it was written; drops it when the files are gone
+  async update(slug: string): Promise<void> {
+    await this.ensureLoaded();
+    const post = await this.parsePost(slug);
+    if (post) {
+      this.posts.set(slug, post);
+    } else {
+      this.posts.delete(slug);
+    }
+    await this.recordFileTimes(slug);
+  }
+
+  async remove(slug: string): Promise<void> {
+    await this.ensureLoaded();
+    this.posts.delete(slug);
+    await this.recordFileTimes(slug);
+  }
+
+  // Forget everything; the next read parses the directory again
+  invalidate(): void {
+    this.posts.clear();
+    this.fileTimes.clear();
+    this.loaded = null;
+    this.lastCheck = 0;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.loadAll().catch((error) => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async loadAll(): Promise<void> {
+    const times = await this.statFiles();
+    const slugs = new Set(Array.from(times.keys()).filter(name => !isTranslationFile(name)).map(slugOf));
+
+    this.posts.clear();
+    for (const slug of slugs) {
+      const post = await this.parsePost(slug);
+      if (post) this.posts.set(slug, post);
+    }
+    this.fileTimes = times;
+    this.lastCheck = Date.now();
+  }
+
+  // Reparse only the posts whose files changed since the last look
+  private async ensureFresh(): Promise<void> {
+    await this.ensureLoaded();
+    if (Date.now() - this.lastCheck < FRESHNESS_CHECK_MS) return;
+    this.lastCheck = Date.now();
+
+    const times = await this.statFiles();
+    const changed = new Set<string>();
+    for (const [name, mtime] of times) {
+      if (this.fileTimes.get(name) !== mtime) changed.add(slugOf(name));
+    }
+    for (const name of this.fileTimes.keys()) {
+      if (!times.has(name)) changed.add(slugOf(name));
+    }
+
+    for (const slug of changed) {
+      const post = await this.parsePost(slug);
+      if (post) {
+        this.posts.set(slug, post);
+      } else {
+        this.posts.delete(slug);
+      }
+    }
+    this.fileTimes = times;
+  }
+
+  private async statFiles(): Promise<Map<string, number>> {
+    const times = new Map<string, number>();
+    let files: string[];
+    try {
+      files = await fs.readdir(blogPath());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return times;
+    }
+
+    for (const file of files.filter(name => name.endsWith('.mdx'))) {
+      const stats = await fs.stat(path.join(blogPath(), file)).catch(() => null);
+      if (stats) times.set(file, stats.mtimeMs);
+    }
+    return times;
+  }
+
+  private async recordFileTimes(slug: string): Promise<void> {
+    for (const name of Array.from(this.fileTimes.keys())) {
+      if (slugOf(name) === slug) this.fileTimes.delete(name);
+    }
+    for (const locale of ['en', ...TRANSLATED_LOCALES] as Locale[]) {
+      const file = blogFileName(slug, locale);
+      const stats = await fs.stat(path.join(blogPath(), file)).catch(() => null);
+      if (stats) this.fileTimes.set(file, stats.mtimeMs);
+    }
+  }
+
+  private async parsePost(slug: string): Promise<ProcessedBlogPost | null> {
+    try {
+      const source = await readFileIfExists(path.join(blogPath(), blogFileName(slug)));
+      if (source === null) return null;
+
+      // Without options gray-matter hands out cached, shared data objects
+      const { data, content: body } = matter(source, {});
+      const frontmatter = data as BlogPostFrontmatter & BlogLifecycle & { updatedAt?: string };
+
+      // Untranslated locales are left empty so pages can fall back to English with a notice
+      const content = { en: body.trim() } as Record<Locale, string>;
+      for (const locale of TRANSLATED_LOCALES) {
+        content[locale] = (await readFileIfExists(path.join(blogPath(), blogFileName(slug, locale))))?.trim() || '';
+      }
+
+      // Unquoted YAML dates come back as Date objects
+      const publishedAt = frontmatter.publishedAt as unknown;
+      if (publishedAt instanceof Date) {
+        frontmatter.publishedAt = publishedAt.toISOString().slice(0, 10);
+      }
+
+      return {
+        slug,
+        frontmatter: { ...frontmatter, tags: frontmatter.tags || [], relatedTours: frontmatter.relatedTours || [] },
+        content,
+        translations: getBlogTranslationStatus({ ...frontmatter, content }),
+        status: getBlogStatus(frontmatter),
+        publishAt: frontmatter.publishAt,
+        readingTime: Math.ceil(readingTime(content.en).minutes),
+        publishedAt: frontmatter.publishedAt,
+        updatedAt: frontmatter.updatedAt,
+      };
+    } catch (error) {
+      console.error(`Error indexing blog post ${slug}:`, error);
+      return null;
+    }
+  }
+}
+
+// Route handlers and pages are bundled separately, so the index lives on globalThis to be one per process
+const globalForBlog = globalThis as typeof globalThis & { blogIndex?: BlogContentIndex };
+export const blogIndex = globalForBlog.blogIndex ??= new BlogContentIndex();
+
+// Published posts, plus scheduled posts whose publish time has passed
+async function getLivePosts(): Promise<ProcessedBlogPost[]> {
+  const now = new Date();
+  return (await blogIndex.getPosts()).filter(post => isBlogPostLive(post, now));
+}
+
+export async function getAllBlogPosts(): Promise<ProcessedBlogPost[]> {
+  return (await getLivePosts()).sort(byNewest);
+}
+
+export async function getBlogPostBySlug(slug: string): Promise<ProcessedBlogPost | null> {
+  return (await getLivePosts()).find(post => post.slug === slug) || null;
+}
+
+export async function getBlogPostsByCategory(category: string): Promise<ProcessedBlogPost[]> {
+  return (await getAllBlogPosts()).filter(post => post.frontmatter.category === category);
+}
+
+export async function getBlogPostsByTag(tag: string): Promise<ProcessedBlogPost[]> {
+  return (await getAllBlogPosts()).filter(post => post.frontmatter.tags.includes(tag));
+}
+
+export async function getPaginatedBlogPosts(
+  page: number = 1,
+  postsPerPage: number = 6,
+  category?: string,
+  tag?: string
+): Promise<{
+  posts: ProcessedBlogPost[];
+  totalPages: number;
+  currentPage: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  totalPosts: number;
+}> {
+  let allPosts = await getAllBlogPosts();
+
+  if (category) {
+    allPosts = await getBlogPostsByCategory(category);
+  } else if (tag) {
+    allPosts = await getBlogPostsByTag(tag);
+  }
+
+  const totalPosts = allPosts.length;
+  const totalPages = Math.ceil(totalPosts / postsPerPage);
+  const startIndex = (page - 1) * postsPerPage;
+
+  return {
+    posts: allPosts.slice(startIndex, startIndex + postsPerPage),
+    totalPages,
+    currentPage: page,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+    totalPosts,
+  };
+}
+
+export async function getRelatedBlogPosts(currentSlug: string, limit: number = 3): Promise<ProcessedBlogPost[]> {
+  const allPosts = await getAllBlogPosts();
+  const currentPost = allPosts.find(post => post.slug === currentSlug);
+  if (!currentPost) return [];
+
+  // Score posts based on shared tags and category
+  const scoredPosts = allPosts
+    .filter(post => post.slug !== currentSlug)
+    .map(post => {
+      let score = 0;
+
+      // Same category gets higher score
+      if (post.frontmatter.category === currentPost.frontmatter.category) {
+        score += 3;
+      }
+
+      // Shared tags get points
+      score += post.frontmatter.tags.filter(tag => currentPost.frontmatter.tags.includes(tag)).length;
+
+      return { post, score };
+    });
+
+  return scoredPosts
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(item => item.post);
+}
+
+export async function getAllBlogTags(): Promise<string[]> {
+  const tags = new Set<string>();
+  (await getLivePosts()).forEach(post => post.frontmatter.tags.forEach(tag => tags.add(tag)));
+  return Array.from(tags).sort();
+}
+
+export async function getAllBlogCategories(): Promise<Array<BlogCategory & { postCount: number }>> {
+  const livePosts = await getLivePosts();
+  const slugs = new Set(livePosts.map(post => post.frontmatter.category));
+
+  return Array.from(slugs)
+    .map(slug => ({
+      ...getBlogCategory(slug),
+      postCount: livePosts.filter(post => post.frontmatter.category === slug).length,
+    }))
+    .sort((a, b) => b.postCount - a.postCount);
+}
+
+export async function searchBlogPosts(query: string, locale: Locale): Promise<ProcessedBlogPost[]> {
+  const searchTerm = query.toLowerCase();
+
+  return (await getAllBlogPosts()).filter(post => {
+    const title = getLocalizedContent(post.frontmatter.title, locale).toLowerCase();
+    const excerpt = getLocalizedContent(post.frontmatter.excerpt, locale).toLowerCase();
+    const content = getLocalizedBody(post, locale).content.toLowerCase();
+    const tags = post.frontmatter.tags.join(' ').toLowerCase();
+
+    return title.includes(searchTerm) ||
+           excerpt.includes(searchTerm) ||
+           content.includes(searchTerm) ||
+           tags.includes(searchTerm);
+  });
+}
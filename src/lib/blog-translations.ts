@@ -0,0 +1,35 @@
+// Blog translations
+// Client-safe file naming and completeness, shared by the blog editor, the loaders and the content manifest
+
+import { LOCALES } from '@/lib/constants';
+import type { Locale } from '@/types';
+
+// <slug>.mdx holds the frontmatter and English body; translated bodies live beside it as <slug>.<locale>.mdx
+export const blogFileName = (slug: string, locale: Locale = 'en') =>
+  locale === 'en' ? `${slug}.mdx` : `${slug}.${locale}.mdx`;
+
+// Slugs cannot contain dots, so any dotted name is a translation file
+export const isTranslationFile = (fileName: string) => fileName.replace(/\.mdx$/, '').includes('.');
+
+export const TRANSLATED_LOCALES = LOCALES.filter(locale => locale !== 'en');
+
+export type TranslationStatus = 'complete' | 'pending';
+
+// Everything a reader sees in a given language
+export const BLOG_TRANSLATION_FIELDS = ['title', 'excerpt', 'content', 'seoTitle', 'seoDescription'] as const;
+
+export type BlogTranslationField = typeof BLOG_TRANSLATION_FIELDS[number];
+
+export type BlogTranslatableContent = Partial<Record<BlogTranslationField, Partial<Record<Locale, string>>>>;
+
+// Share of translatable fields with text in this locale, 0-1
+export function getBlogTranslationProgress(post: BlogTranslatableContent, locale: Locale): number {
+  const filled = BLOG_TRANSLATION_FIELDS.filter(field => !!post[field]?.[locale]?.trim()).length;
+  return filled / BLOG_TRANSLATION_FIELDS.length;
+}
+
+export function getBlogTranslationStatus(post: BlogTranslatableContent): Record<Locale, TranslationStatus> {
+  return Object.fromEntries(
+    LOCALES.map(locale => [locale, getBlogTranslationProgress(post, locale) === 1 ? 'complete' : 'pending'])
+  ) as Record<Locale, TranslationStatus>;
+}
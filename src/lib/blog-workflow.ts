@@ -0,0 +1,52 @@
+// Blog post lifecycle
+// Client-safe statuses and transitions, shared by the admin screens, the content files and the public blog data
+
+export const BLOG_STATUSES = ['draft', 'in-review', 'scheduled', 'published'] as const;
+
+export type BlogStatus = typeof BLOG_STATUSES[number];
+
+export type BlogWorkflowAction = 'submit' | 'return-to-draft' | 'schedule' | 'publish' | 'unpublish';
+
+export const BLOG_STATUS_LABELS: Record<BlogStatus, string> = {
+  draft: 'Draft',
+  'in-review': 'In review',
+  scheduled: 'Scheduled',
+  published: 'Published',
+};
+
+export const BLOG_ACTION_LABELS: Record<BlogWorkflowAction, string> = {
+  submit: 'Submit for review',
+  'return-to-draft': 'Back to draft',
+  schedule: 'Schedule',
+  publish: 'Publish now',
+  unpublish: 'Unpublish',
+};
+
+// What each status may move to; scheduling again changes the date
+export const BLOG_WORKFLOW: Record<BlogStatus, Partial<Record<BlogWorkflowAction, BlogStatus>>> = {
+  draft: { submit: 'in-review', schedule: 'scheduled', publish: 'published' },
+  'in-review': { 'return-to-draft': 'draft', schedule: 'scheduled', publish: 'published' },
+  scheduled: { schedule: 'scheduled', publish: 'published', unpublish: 'draft' },
+  published: { unpublish: 'draft' },
+};
+
+export interface BlogLifecycle {
+  status?: BlogStatus;
+  publishAt?: string;
+}
+
+// Posts written before the workflow existed have no status and are live
+export function getBlogStatus(post: BlogLifecycle): BlogStatus {
+  return post.status && (BLOG_STATUSES as readonly string[]).includes(post.status) ? post.status : 'published';
+}
+
+export function getBlogWorkflowActions(post: BlogLifecycle): BlogWorkflowAction[] {
+  return Object.keys(BLOG_WORKFLOW[getBlogStatus(post)]) as BlogWorkflowAction[];
+}
+
+// Scheduled posts count as live from their publish time, before the status file catches up
+export function isBlogPostLive(post: BlogLifecycle, now: Date = new Date()): boolean {
+  const status = getBlogStatus(post);
+  if (status === 'published') return true;
+  return status === 'scheduled' && !!post.publishAt && new Date(post.publishAt) <= now;
+}
@@ -1,14 +1,155 @@
+// Blog post types and helpers
+// Client-safe; the posts themselves are served by the server-side index in src/lib/blog-index.ts
+
+import type { BlogStatus } from '@/lib/blog-workflow';
+import type { TranslationStatus } from '@/lib/blog-translations';
 import type { Locale } from '@/types';
 
-// Re-export types and client-safe utilities
-export type { BlogPost, BlogCategory } from './blog-server';
-export { blogCategories } from './blog-server';
+export interface BlogPostFrontmatter {
+  title: Record<Locale, string>;
+  excerpt: Record<Locale, string>;
+  publishedAt: string;
+  category: string;
+  tags: string[];
+  featuredImage: string;
+  author: string;
+  relatedTours: string[];
+  seoTitle: Record<Locale, string>;
+  seoDescription: Record<Locale, string>;
+  seoKeywords: string[];
+}
+
+export interface ProcessedBlogPost {
+  slug: string;
+  frontmatter: BlogPostFrontmatter;
+  content: Record<Locale, string>;
+  translations: Record<Locale, TranslationStatus>;
+  status: BlogStatus;
+  publishAt?: string;
+  readingTime: number;
+  publishedAt: string;
+  updatedAt?: string;
+}
+
+export interface BlogCategory {
+  id: string;
+  name: Record<Locale, string>;
+  description: Record<Locale, string>;
+  slug: string;
+}
+
+export const blogCategories: BlogCategory[] = [
+  {
+    id: 'travel-guides',
+    slug: 'travel-guides',
+    name: {
+      en: 'Travel Guides',
+      de: 'Reiseführer',
+      fr: 'Guides de voyage',
+      cs: 'Cestovní průvodci',
+    },
+    description: {
+      en: 'Comprehensive guides to help you explore Prague like a local',
+      de: 'Umfassende Leitfäden, um Prag wie ein Einheimischer zu erkunden',
+      fr: 'Guides complets pour explorer Prague comme un local',
+      cs: 'Podrobní průvodci, se kterými Prahu poznáte jako místní',
+    },
+  },
+  {
+    id: 'food-drink',
+    slug: 'food-drink',
+    name: {
+      en: 'Food & Drink',
+      de: 'Essen & Trinken',
+      fr: 'Nourriture & Boisson',
+      cs: 'Jídlo a pití',
+    },
+    description: {
+      en: 'Discover authentic Czech cuisine and local dining experiences',
+      de: 'Entdecken Sie authentische tschechische Küche und lokale Gastronomie',
+      fr: 'Découvrez la cuisine tchèque authentique et les expériences culinaires locales',
+      cs: 'Objevte autentickou českou kuchyni a místní gastronomii',
+    },
+  },
+  {
+    id: 'history-legends',
+    slug: 'history-legends',
+    name: {
+      en: 'History & Legends',
+      de: 'Geschichte & Legenden',
+      fr: 'Histoire & Légendes',
+      cs: 'Historie a legendy',
+    },
+    description: {
+      en: 'Fascinating stories and legends from Prague\'s rich history',
+      de: 'Faszinierende Geschichten und Legenden aus Prags reicher Geschichte',
+      fr: 'Histoires fascinantes et légendes de la riche histoire de Prague',
+      cs: 'Fascinující příběhy a legendy z bohaté historie Prahy',
+    },
+  },
+  {
+    id: 'practical-tips',
+    slug: 'practical-tips',
+    name: {
+      en: 'Practical Tips',
+      de: 'Praktische Tipps',
+      fr: 'Conseils pratiques',
+      cs: 'Praktické tipy',
+    },
+    description: {
+      en: 'Essential tips and advice for visiting Prague',
+      de: 'Wichtige Tipps und Ratschläge für den Besuch in Prag',
+      fr: 'Conseils essentiels et conseils pour visiter Prague',
+      cs: 'Důležité tipy a rady pro návštěvu Prahy',
+    },
+  },
+];
+
+// Known category, or one named after its slug for categories added in the editor
+export function getBlogCategory(slug: string): BlogCategory {
+  const category = blogCategories.find(item => item.slug === slug);
+  if (category) return category;
+
+  const name = slug.replace('-', ' ');
+  return {
+    id: slug,
+    slug,
+    name: { en: name, de: name, fr: name, cs: name },
+    description: {
+      en: `Posts about ${name}`,
+      de: `Beiträge über ${name}`,
+      fr: `Articles sur ${name}`,
+      cs: `Články na téma ${name}`,
+    },
+  };
+}
+
+export function getLocalizedContent<T extends Record<Locale, string>>(
+  content: T,
+  locale: Locale
+): string {
+  return content[locale] || content.en || Object.values(content)[0] || '';
+}
+
+// Body in the requested locale, or the English original while the translation is missing
+export function getLocalizedBody(
+  post: ProcessedBlogPost,
+  locale: Locale
+): { content: string; locale: Locale; isFallback: boolean } {
+  if (post.content[locale]) {
+    return { content: post.content[locale], locale, isFallback: false };
+  }
+  return { content: post.content.en, locale: 'en', isFallback: locale !== 'en' };
+}
 
-// Client-safe utility functions
 export function getBlogPostUrl(slug: string, locale: Locale): string {
   return `/${locale}/blog/${slug}`;
 }
 
 export function getBlogCategoryUrl(categorySlug: string, locale: Locale): string {
   return `/${locale}/blog/category/${categorySlug}`;
-}
\ No newline at end of file
+}
+
+export function getBlogTagUrl(tag: string, locale: Locale): string {
+  return `/${locale}/blog?tag=${encodeURIComponent(tag)}`;
+}
@@ -0,0 +1,195 @@
+// Seat holds for checkout
+// Reserves spots on a slot while the customer pays, so two checkouts can't both take the last seats
+
+import { getJsonStore, JsonFileStore } from '@/lib/json-store';
+import { SESSION_CONFIG } from '@/lib/session-management';
+import { BookingError, BookingErrorCodes } from '@/lib/booking-validation';
+import type { TimeSlot } from '@/lib/booking-providers';
+
+export type SeatHoldStatus = 'active' | 'released' | 'converted';
+
+export interface SeatHold {
+  id: string;
+  tourId: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  groupSize: number;
+  status: SeatHoldStatus;
+  paymentIntentId?: string;
+  releaseReason?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type SeatHoldRequest = Pick<SeatHold, 'tourId' | 'date' | 'startTime' | 'groupSize'>;
+
+interface SeatHoldData {
+  holds: SeatHold[];
+}
+
+// Finished holds are kept for a day for troubleshooting, then dropped
+const FINISHED_HOLD_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Provider slots may carry a full ISO timestamp or just HH:MM
+export function getSlotTime(startTime: string): string {
+  return startTime.split('T')[1]?.slice(0, 5) || startTime;
+}
+
+function isActive(hold: SeatHold, now: number): boolean {
+  return hold.status === 'active' && new Date(hold.expiresAt).getTime() > now;
+}
+
+export class SeatHoldManager {
+  private store: JsonFileStore<SeatHoldData>;
+
+  constructor(
+    fileName: string = process.env.HOLDS_FILE || 'holds.json',
+    private durationMs: number = SESSION_CONFIG.BOOKING_SESSION_DURATION_MS
+  ) {
+    this.store = getJsonStore(fileName, () => ({ holds: [] }));
+  }
+
+  // Lock spots on a slot. availableSpots is what the provider reports, before holds.
+  async createHold(request: SeatHoldRequest, availableSpots: number): Promise<SeatHold> {
+    return this.store.update(data => {
+      const now = Date.now();
+      this.expireHolds(data, now);
+
+      const heldSpots = data.holds
+        .filter(hold => isActive(hold, now))
+        .filter(hold =>
+          hold.tourId === request.tourId &&
+          hold.date === request.date &&
+          hold.startTime === request.startTime
+        )
+        .reduce((total, hold) => total + hold.groupSize, 0);
+
+      const remaining = availableSpots - heldSpots;
+      if (remaining < request.groupSize) {
+        throw new BookingError(
+          `Only ${Math.max(remaining, 0)} spots available for this time slot`,
+          BookingErrorCodes.AVAILABILITY_ERROR,
+          409
+        );
+      }
+
+      const hold: SeatHold = {
+        ...request,
+        id: `hold_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        status: 'active',
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + this.durationMs).toISOString(),
+      };
+
+      data.holds.push(hold);
+      return hold;
+    });
+  }
+
+  async getHold(holdId: string): Promise<SeatHold | null> {
+    const data = await this.store.read();
+    return data.holds.find(hold => hold.id === holdId) || null;
+  }
+
+  // Returns the hold only while it still reserves spots
+  async getActiveHold(holdId: string): Promise<SeatHold | null> {
+    const hold = await this.getHold(holdId);
+    return hold && isActive(hold, Date.now()) ? hold : null;
+  }
+
+  // Link a hold to its payment so payment webhooks can release it
+  async attachPayment(holdId: string, paymentIntentId: string): Promise<SeatHold | null> {
+    return this.store.update(data => {
+      const hold = data.holds.find(h => h.id === holdId);
+      if (!hold) return null;
+      hold.paymentIntentId = paymentIntentId;
+      return { ...hold };
+    });
+  }
+
+  async releaseHold(holdId: string, reason: string): Promise<SeatHold | null> {
+    return this.finishHolds(hold => hold.id === holdId, 'released', reason).then(
+      holds => holds[0] || null
+    );
+  }
+
+  async releaseHoldsForPayment(paymentIntentId: string, reason: string): Promise<SeatHold[]> {
+    return this.finishHolds(hold => hold.paymentIntentId === paymentIntentId, 'released', reason);
+  }
+
+  // The booking now owns the spots - stop counting the hold
+  async convertHold(holdId: string): Promise<SeatHold | null> {
+    return this.finishHolds(hold => hold.id === holdId, 'converted').then(
+      holds => holds[0] || null
+    );
+  }
+
+  // Spots held per start time for a tour date
+  async getHeldSpots(
+    tourId: string,
+    date: string,
+    excludeHoldId?: string
+  ): Promise<Record<string, number>> {
+    const data = await this.store.read();
+    const now = Date.now();
+
+    return data.holds
+      .filter(hold => isActive(hold, now) && hold.id !== excludeHoldId)
+      .filter(hold => hold.tourId === tourId && hold.date === date)
+      .reduce<Record<string, number>>((held, hold) => {
+        held[hold.startTime] = (held[hold.startTime] || 0) + hold.groupSize;
+        return held;
+      }, {});
+  }
+
+  // Subtract active holds from provider availability
+  async applyHolds(
+    tourId: string,
+    date: string,
+    slots: TimeSlot[],
+    excludeHoldId?: string
+  ): Promise<TimeSlot[]> {
+    const held = await this.getHeldSpots(tourId, date, excludeHoldId);
+
+    return slots.map(slot => ({
+      ...slot,
+      availableSpots: Math.max(slot.availableSpots - (held[getSlotTime(slot.startTime)] || 0), 0),
+    }));
+  }
+
+  private finishHolds(
+    matches: (hold: SeatHold) => boolean,
+    status: Exclude<SeatHoldStatus, 'active'>,
+    reason?: string
+  ): Promise<SeatHold[]> {
+    return this.store.update(data => {
+      const now = Date.now();
+      this.expireHolds(data, now);
+
+      return data.holds
+        .filter(hold => hold.status === 'active' && matches(hold))
+        .map(hold => {
+          hold.status = status;
+          hold.releaseReason = reason;
+          return { ...hold };
+        });
+    });
+  }
+
+  private expireHolds(data: SeatHoldData, now: number) {
+    data.holds.forEach(hold => {
+      if (hold.status === 'active' && !isActive(hold, now)) {
+        hold.status = 'released';
+        hold.releaseReason = 'expired';
+      }
+    });
+
+    data.holds = data.holds.filter(
+      hold =>
+        hold.status === 'active' ||
+        new Date(hold.expiresAt).getTime() + FINISHED_HOLD_RETENTION_MS > now
+    );
+  }
+}
+
+export const seatHolds = new SeatHoldManager();
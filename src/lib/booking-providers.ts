@@ -1,12 +1,25 @@
 // Booking provider interfaces and implementations
 // Supporting multiple booking systems for flexibility
 
+import type { GroupDiscount } from '@/types';
+import { getTourConfig } from '@/lib/tour-catalog';
+import {
+  getTourEndTime,
+  getPricingInfo,
+  getScheduledSlots,
+} from '@/lib/tour-pricing';
+import { getJsonStore, JsonFileStore } from '@/lib/json-store';
+import { generateConfirmationCode } from '@/lib/booking-store';
+
+export type { GroupDiscount };
+
 export interface BookingProvider {
   name: string;
   checkAvailability(tourId: string, date: Date): Promise<AvailabilityResponse>;
   createBooking(bookingData: CreateBookingRequest): Promise<BookingResponse>;
   getBooking(bookingId: string): Promise<BookingResponse>;
   cancelBooking(bookingId: string): Promise<CancelBookingResponse>;
+  rescheduleBooking(bookingId: string, newSlot: RescheduleBookingRequest): Promise<BookingResponse>;
 }
 
 export interface AvailabilityResponse {
@@ -29,11 +42,6 @@ export interface PricingInfo {
   groupDiscounts?: GroupDiscount[];
 }
 
-export interface GroupDiscount {
-  minSize: number;
-  discountPercent: number;
-}
-
 export interface CreateBookingRequest {
   tourId: string;
   date: string; // ISO 8601 format
@@ -72,6 +80,12 @@ export interface BookingResponse {
   };
 }
 
+export interface RescheduleBookingRequest {
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  totalPrice: number; // price for the new date
+}
+
 export interface CancelBookingResponse {
   success: boolean;
   error?: string;
@@ -114,20 +128,22 @@ export class AcuitySchedulingProvider implements BookingProvider {
       }
 
       const data = await response.json();
+      const tour = getTourConfig(tourId);
+
+      if (!tour) {
+        throw new Error(`Unknown tour: ${tourId}`);
+      }
       
       return {
         available: data.length > 0,
         availableSlots: data.map((slot: any) => ({
           startTime: slot.time,
-          endTime: this.calculateEndTime(slot.time, tourId),
+          endTime: getTourEndTime(tour, slot.time),
           availableSpots: slot.slotsAvailable || 1,
-          price: this.getTourPrice(tourId),
+          price: tour.basePrice,
         })),
-        maxGroupSize: this.getMaxGroupSize(tourId),
-        pricing: {
-          basePrice: this.getTourPrice(tourId),
-          currency: 'EUR',
-        },
+        maxGroupSize: tour.maxGroupSize,
+        pricing: getPricingInfo(tour),
       };
     } catch (error) {
       console.error('Acuity availability check failed:', error);
@@ -265,45 +281,52 @@ export class AcuitySchedulingProvider implements BookingProvider {
     }
   }
 
-  private calculateEndTime(startTime: string, tourId: string): string {
-    // Get tour duration and calculate end time
-    const duration = this.getTourDuration(tourId);
-    const start = new Date(`2000-01-01T${startTime}`);
-    const end = new Date(start.getTime() + duration * 60000);
-    return end.toTimeString().slice(0, 5);
-  }
+  async rescheduleBooking(
+    bookingId: string,
+    newSlot: RescheduleBookingRequest
+  ): Promise<BookingResponse> {
+    try {
+      const response = await fetch(`${this.apiUrl}/appointments/${bookingId}/reschedule`, {
+        method: 'PUT',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({
+          datetime: `${newSlot.date}T${newSlot.startTime}`,
+        }),
+      });
 
-  private getTourPrice(tourId: string): number {
-    // Tour pricing configuration - in production this would come from a database
-    const tourPricing: Record<string, number> = {
-      'prague-castle': 45,
-      'old-town': 35,
-      'jewish-quarter': 40,
-      'food-tour': 65,
-    };
-    return tourPricing[tourId] || 50;
-  }
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || `Acuity reschedule failed: ${response.status}`);
+      }
 
-  private getMaxGroupSize(tourId: string): number {
-    // Maximum group sizes per tour
-    const maxSizes: Record<string, number> = {
-      'prague-castle': 8,
-      'old-town': 10,
-      'jewish-quarter': 6,
-      'food-tour': 4,
-    };
-    return maxSizes[tourId] || 6;
-  }
+      const booking = await response.json();
 
-  private getTourDuration(tourId: string): number {
-    // Tour durations in minutes
-    const durations: Record<string, number> = {
-      'prague-castle': 180,
-      'old-town': 120,
-      'jewish-quarter': 150,
-      'food-tour': 240,
-    };
-    return durations[tourId] || 120;
+      return {
+        success: true,
+        bookingId: booking.id.toString(),
+        booking: {
+          id: booking.id.toString(),
+          tourId: booking.appointmentTypeID.toString(),
+          date: newSlot.date,
+          startTime: newSlot.startTime,
+          groupSize: this.extractGroupSize(booking.forms),
+          totalPrice: newSlot.totalPrice,
+          status: booking.canceled ? 'cancelled' : 'confirmed',
+          customerInfo: {
+            firstName: booking.firstName,
+            lastName: booking.lastName,
+            email: booking.email,
+            phone: booking.phone,
+          },
+        },
+      };
+    } catch (error) {
+      console.error('Acuity booking reschedule failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Booking reschedule failed',
+      };
+    }
   }
 
   private extractGroupSize(forms: any[]): number {
@@ -346,6 +369,7 @@ export class PeekProProvider implements BookingProvider {
       }
 
       const data = await response.json();
+      const tour = getTourConfig(tourId);
       
       return {
         available: data.available_times?.length > 0,
@@ -353,10 +377,10 @@ export class PeekProProvider implements BookingProvider {
           startTime: slot.start_time,
           endTime: slot.end_time,
           availableSpots: slot.capacity,
-          price: slot.price,
+          price: slot.price ?? tour?.basePrice,
         })) || [],
-        maxGroupSize: data.max_group_size || 8,
-        pricing: {
+        maxGroupSize: data.max_group_size || tour?.maxGroupSize || 0,
+        pricing: tour ? getPricingInfo(tour) : {
           basePrice: data.base_price || 0,
           currency: data.currency || 'EUR',
         },
@@ -494,6 +518,324 @@ export class PeekProProvider implements BookingProvider {
       };
     }
   }
+
+  async rescheduleBooking(
+    bookingId: string,
+    newSlot: RescheduleBookingRequest
+  ): Promise<BookingResponse> {
+    try {
+      const response = await fetch(`${this.apiUrl}/bookings/${bookingId}/reschedule`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({
+          start_time: `${newSlot.date}T${newSlot.startTime}`,
+          total_price: newSlot.totalPrice,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || `Peek reschedule failed: ${response.status}`);
+      }
+
+      const booking = await response.json();
+
+      return {
+        success: true,
+        bookingId: booking.id,
+        confirmationCode: booking.confirmation_code,
+        booking: {
+          id: booking.id,
+          tourId: booking.product_id,
+          date: newSlot.date,
+          startTime: newSlot.startTime,
+          groupSize: booking.party_size,
+          totalPrice: newSlot.totalPrice,
+          status: booking.status,
+          customerInfo: {
+            firstName: booking.customer.first_name,
+            lastName: booking.customer.last_name,
+            email: booking.customer.email,
+            phone: booking.customer.phone,
+          },
+        },
+      };
+    } catch (error) {
+      console.error('Peek booking reschedule failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Booking reschedule failed',
+      };
+    }
+  }
+}
+
+// Local Provider Implementation (no external service)
+// Slots come from each tour's availability rules; remaining spots are tracked per slot on disk
+
+interface LocalSlotInventory {
+  tourId: string;
+  date: string;
+  startTime: string;
+  capacity: number;
+  remainingSpots: number;
+  bookingIds: string[];
+}
+
+type LocalBooking = NonNullable<BookingResponse['booking']> & {
+  confirmationCode: string;
+  createdAt: string;
+};
+
+interface LocalProviderData {
+  slots: Record<string, LocalSlotInventory>;
+  bookings: Record<string, LocalBooking>;
+}
+
+function getSlotKey(tourId: string, date: string, startTime: string): string {
+  return `${tourId}|${date}|${startTime}`;
+}
+
+// Take spots for a booking on its slot, or throw if the slot can't fit it
+function claimSpots(
+  data: LocalProviderData,
+  booking: LocalBooking,
+  capacity: number,
+  maxBookings: number
+) {
+  const key = getSlotKey(booking.tourId, booking.date, booking.startTime);
+  const slot = data.slots[key] || {
+    tourId: booking.tourId,
+    date: booking.date,
+    startTime: booking.startTime,
+    capacity,
+    remainingSpots: capacity,
+    bookingIds: [],
+  };
+
+  if (slot.bookingIds.length >= maxBookings || slot.remainingSpots < booking.groupSize) {
+    throw new Error(`Not enough spots left at ${booking.startTime} on ${booking.date}`);
+  }
+
+  slot.remainingSpots -= booking.groupSize;
+  slot.bookingIds.push(booking.id);
+  data.slots[key] = slot;
+}
+
+// Return a booking's spots to its slot
+function releaseSpots(data: LocalProviderData, booking: LocalBooking) {
+  const slot = data.slots[getSlotKey(booking.tourId, booking.date, booking.startTime)];
+  if (slot) {
+    slot.remainingSpots = Math.min(slot.capacity, slot.remainingSpots + booking.groupSize);
+    slot.bookingIds = slot.bookingIds.filter(id => id !== booking.id);
+  }
+}
+
+function toLocalBookingResponse(booking: LocalBooking): BookingResponse {
+  return {
+    success: true,
+    bookingId: booking.id,
+    confirmationCode: booking.confirmationCode,
+    booking: {
+      id: booking.id,
+      tourId: booking.tourId,
+      date: booking.date,
+      startTime: booking.startTime,
+      groupSize: booking.groupSize,
+      totalPrice: booking.totalPrice,
+      status: booking.status,
+      customerInfo: booking.customerInfo,
+    },
+  };
+}
+
+export class LocalBookingProvider implements BookingProvider {
+  name = 'Local';
+  private store: JsonFileStore<LocalProviderData>;
+
+  constructor(fileName: string = process.env.LOCAL_INVENTORY_FILE || 'local-inventory.json') {
+    this.store = getJsonStore(fileName, () => ({ slots: {}, bookings: {} }));
+  }
+
+  async checkAvailability(tourId: string, date: Date): Promise<AvailabilityResponse> {
+    const tour = getTourConfig(tourId);
+
+    if (!tour) {
+      console.error('Local availability check failed:', new Error(`Unknown tour: ${tourId}`));
+      return {
+        available: false,
+        availableSlots: [],
+        maxGroupSize: 0,
+        pricing: { basePrice: 0, currency: 'EUR' },
+      };
+    }
+
+    const dateStr = date.toISOString().split('T')[0];
+    const data = await this.store.read();
+
+    const availableSlots = getScheduledSlots(tour, dateStr)
+      .map(slot => {
+        const inventory = data.slots[getSlotKey(tourId, dateStr, slot.startTime)];
+        const bookingsFull = inventory && inventory.bookingIds.length >= slot.maxBookings;
+
+        return {
+          startTime: slot.startTime,
+          endTime: getTourEndTime(tour, slot.startTime),
+          availableSpots: bookingsFull ? 0 : inventory?.remainingSpots ?? tour.maxGroupSize,
+          price: tour.basePrice,
+        };
+      })
+      .filter(slot => slot.availableSpots > 0);
+
+    return {
+      available: availableSlots.length > 0,
+      availableSlots,
+      maxGroupSize: tour.maxGroupSize,
+      pricing: getPricingInfo(tour),
+    };
+  }
+
+  async createBooking(bookingData: CreateBookingRequest): Promise<BookingResponse> {
+    try {
+      const { tourId, date, startTime, groupSize } = bookingData;
+      const tour = getTourConfig(tourId);
+
+      if (!tour) {
+        throw new Error(`Unknown tour: ${tourId}`);
+      }
+
+      const scheduled = getScheduledSlots(tour, date).find(slot => slot.startTime === startTime);
+      if (!scheduled) {
+        throw new Error(`No departure at ${startTime} on ${date}`);
+      }
+
+      if (groupSize < 1 || groupSize > tour.maxGroupSize) {
+        throw new Error(`Group size must be between 1 and ${tour.maxGroupSize}`);
+      }
+
+      // Check and decrement inventory in one serialized update so concurrent requests can't oversell
+      const booking = await this.store.update(data => {
+        const record: LocalBooking = {
+          id: `lb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          confirmationCode: generateConfirmationCode(),
+          tourId,
+          date,
+          startTime,
+          groupSize,
+          totalPrice: bookingData.totalPrice,
+          status: 'confirmed',
+          customerInfo: {
+            firstName: bookingData.customerInfo.firstName,
+            lastName: bookingData.customerInfo.lastName,
+            email: bookingData.customerInfo.email,
+            phone: bookingData.customerInfo.phone,
+          },
+          createdAt: new Date().toISOString(),
+        };
+
+        claimSpots(data, record, tour.maxGroupSize, scheduled.maxBookings);
+        data.bookings[record.id] = record;
+
+        return record;
+      });
+
+      return toLocalBookingResponse(booking);
+    } catch (error) {
+      console.error('Local booking creation failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Booking creation failed',
+      };
+    }
+  }
+
+  async getBooking(bookingId: string): Promise<BookingResponse> {
+    const data = await this.store.read();
+    const booking = data.bookings[bookingId];
+
+    if (!booking) {
+      return {
+        success: false,
+        error: `Booking not found: ${bookingId}`,
+      };
+    }
+
+    return toLocalBookingResponse(booking);
+  }
+
+  // Cancelling returns the booking's spots to the slot inventory
+  async cancelBooking(bookingId: string): Promise<CancelBookingResponse> {
+    try {
+      return await this.store.update(data => {
+        const booking = data.bookings[bookingId];
+
+        if (!booking) {
+          throw new Error(`Booking not found: ${bookingId}`);
+        }
+
+        if (booking.status === 'cancelled') {
+          throw new Error('Booking is already cancelled');
+        }
+
+        releaseSpots(data, booking);
+        booking.status = 'cancelled';
+
+        return { success: true };
+      });
+    } catch (error) {
+      console.error('Local booking cancellation failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Booking cancellation failed',
+      };
+    }
+  }
+
+  // Moves the booking's spots to the new slot in a single update
+  async rescheduleBooking(
+    bookingId: string,
+    newSlot: RescheduleBookingRequest
+  ): Promise<BookingResponse> {
+    try {
+      const booking = await this.store.update(data => {
+        const booking = data.bookings[bookingId];
+
+        if (!booking) {
+          throw new Error(`Booking not found: ${bookingId}`);
+        }
+
+        if (booking.status === 'cancelled') {
+          throw new Error('Cancelled bookings cannot be rescheduled');
+        }
+
+        const tour = getTourConfig(booking.tourId);
+        const scheduled = tour && getScheduledSlots(tour, newSlot.date)
+          .find(slot => slot.startTime === newSlot.startTime);
+
+        if (!tour || !scheduled) {
+          throw new Error(`No departure at ${newSlot.startTime} on ${newSlot.date}`);
+        }
+
+        const moved = { ...booking, ...newSlot };
+        // Same departure: the booking keeps the spots it already holds
+        if (moved.date !== booking.date || moved.startTime !== booking.startTime) {
+          claimSpots(data, moved, tour.maxGroupSize, scheduled.maxBookings);
+          releaseSpots(data, booking);
+        }
+        data.bookings[bookingId] = moved;
+
+        return moved;
+      });
+
+      return toLocalBookingResponse(booking);
+    } catch (error) {
+      console.error('Local booking reschedule failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Booking reschedule failed',
+      };
+    }
+  }
 }
 
 // Factory function to get the configured booking provider
@@ -503,6 +845,8 @@ export function getBookingProvider(): BookingProvider {
   switch (provider.toLowerCase()) {
     case 'peek':
       return new PeekProProvider();
+    case 'local':
+      return new LocalBookingProvider();
     case 'acuity':
     default:
       return new AcuitySchedulingProvider();
@@ -0,0 +1,447 @@
+// Paid booking finalization with automatic recovery
+// Retries the provider booking after payment and refunds the customer if it never succeeds
+
+import { getBookingProvider, BookingResponse, CreateBookingRequest } from '@/lib/booking-providers';
+import {
+  getBookingRepository,
+  recordProviderBooking,
+  BookingPaymentReference,
+  StoredBooking,
+} from '@/lib/booking-store';
+import { seatHolds, getSlotTime } from '@/lib/booking-holds';
+import { BookingValidator } from '@/lib/booking-validation';
+import { getTourConfig } from '@/lib/tour-catalog';
+import { getJsonStore } from '@/lib/json-store';
+import { executeRefund } from '@/lib/refunds';
+import { sendBookingFailureEmail } from '@/lib/email-service';
+import { scheduleBookingJobs } from '@/lib/jobs';
+import type { RefundResult } from '@/types/payment';
+import type { Locale } from '@/types';
+
+export const RECOVERY_CONFIG = {
+  maxAttempts: 3,
+  baseDelayMs: 1000, // doubled after every failed attempt
+};
+
+export type PaidBookingRequest = Omit<CreateBookingRequest, 'customerInfo'> & {
+  customerInfo: StoredBooking['customerInfo'];
+  holdId?: string;
+  locale?: Locale;
+};
+
+// Incident error for a payment whose seats went to someone else after its hold expired
+export const SLOT_TAKEN_ERROR = 'The time slot filled up after the seat hold expired';
+
+export type BookingIncidentStatus = 'refunded' | 'refund_pending' | 'refund_failed' | 'resolved';
+
+// A payment that could not be turned into a booking
+export interface BookingIncident {
+  id: string;
+  payment: BookingPaymentReference;
+  bookingData: PaidBookingRequest;
+  attempts: number;
+  error: string;
+  status: BookingIncidentStatus;
+  refund?: {
+    refundId?: string;
+    status: RefundResult['status'];
+    error?: string;
+    attempts: number;
+  };
+  customerNotified: boolean;
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PaidBookingOutcome =
+  | {
+      status: 'booked';
+      booking?: BookingResponse['booking'];
+      confirmationCode?: string;
+      storedBooking?: StoredBooking;
+      duplicate: boolean; // an earlier request already created this booking
+    }
+  | {
+      status: 'failed';
+      incident: BookingIncident;
+    };
+
+const incidentStore = () =>
+  getJsonStore<{ incidents: BookingIncident[] }>(
+    process.env.INCIDENTS_FILE || 'incidents.json',
+    () => ({ incidents: [] })
+  );
+
+// Concurrent requests for the same payment share one recovery run
+const inFlight = new Map<string, Promise<PaidBookingOutcome>>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function findIncidentByPayment(transactionId: string): Promise<BookingIncident | undefined> {
+  const data = await incidentStore().read();
+  return data.incidents.find(incident => incident.payment.transactionId === transactionId);
+}
+
+async function createBookingWithRetry(bookingData: PaidBookingRequest) {
+  const provider = getBookingProvider();
+  let result: BookingResponse = { success: false, error: 'Booking was not attempted' };
+  let attempts = 0;
+
+  while (attempts < RECOVERY_CONFIG.maxAttempts) {
+    attempts++;
+
+    try {
+      result = await provider.createBooking({
+        ...bookingData,
+        customerInfo: { ...bookingData.customerInfo, country: bookingData.customerInfo.country || '' },
+      });
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Provider request failed',
+      };
+    }
+
+    if (result.success) break;
+
+    console.warn(`Booking attempt ${attempts}/${RECOVERY_CONFIG.maxAttempts} failed:`, result.error);
+    if (attempts < RECOVERY_CONFIG.maxAttempts) {
+      await sleep(RECOVERY_CONFIG.baseDelayMs * 2 ** (attempts - 1));
+    }
+  }
+
+  return { provider, result, attempts };
+}
+
+// A live hold still reserves the seats; without one, others may have booked them while the customer paid
+async function isSlotStillOpen(bookingData: PaidBookingRequest): Promise<boolean> {
+  if (bookingData.holdId && await seatHolds.getActiveHold(bookingData.holdId)) {
+    return true;
+  }
+
+  try {
+    const availability = await getBookingProvider().checkAvailability(bookingData.tourId, new Date(bookingData.date));
+    const slots = await seatHolds.applyHolds(bookingData.tourId, bookingData.date, availability.availableSlots);
+    const slot = slots.find(s => getSlotTime(s.startTime) === bookingData.startTime);
+    return !!slot && slot.availableSpots >= bookingData.groupSize;
+  } catch (error) {
+    // The provider decides when it can't report availability
+    console.error('Availability re-check failed:', error);
+    return true;
+  }
+}
+
+async function notifyCustomer(incident: BookingIncident): Promise<boolean> {
+  try {
+    await sendBookingFailureEmail({
+      customerEmail: incident.bookingData.customerInfo.email,
+      locale: incident.bookingData.locale,
+      booking: {
+        tourId: incident.bookingData.tourId,
+        date: incident.bookingData.date,
+        startTime: incident.bookingData.startTime,
+        groupSize: incident.bookingData.groupSize,
+        firstName: incident.bookingData.customerInfo.firstName,
+      },
+      amount: incident.payment.amount,
+      currency: incident.payment.currency,
+      method: incident.payment.method,
+      refunded: incident.status === 'refunded' || incident.status === 'refund_pending',
+    });
+    return true;
+  } catch (emailError) {
+    console.error('Booking failure email failed:', emailError);
+    return false;
+  }
+}
+
+function toIncidentStatus(refund: RefundResult): BookingIncidentStatus {
+  if (refund.status === 'succeeded') return 'refunded';
+  if (refund.status === 'pending') return 'refund_pending';
+  return 'refund_failed';
+}
+
+// Refund the whole payment, record the incident and tell the customer
+async function compensate(
+  bookingData: PaidBookingRequest,
+  payment: BookingPaymentReference,
+  attempts: number,
+  error: string
+): Promise<BookingIncident> {
+  const now = new Date().toISOString();
+  const incidentId = `inc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  // Record first so a crash mid-refund still leaves a trace for staff
+  const incident = await incidentStore().update(data => {
+    const existing = data.incidents.find(i => i.payment.transactionId === payment.transactionId);
+    if (existing) return { ...existing };
+
+    const created: BookingIncident = {
+      id: incidentId,
+      payment,
+      bookingData,
+      attempts,
+      error,
+      status: 'refund_failed',
+      customerNotified: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    data.incidents.push(created);
+    return { ...created };
+  });
+
+  // Another request got here first - never refund twice
+  if (incident.id !== incidentId) {
+    return incident;
+  }
+
+  if (bookingData.holdId) {
+    await seatHolds.releaseHold(bookingData.holdId, 'booking_failed');
+  }
+
+  const refund = await executeRefund(
+    payment.method,
+    {
+      paymentId: payment.transactionId,
+      reason: 'Booking could not be completed after payment',
+      bookingId: incident.id,
+    },
+    payment.currency,
+    incident.id
+  );
+
+  incident.status = toIncidentStatus(refund);
+  incident.refund = {
+    refundId: refund.refundId || undefined,
+    status: refund.status,
+    error: refund.error,
+    attempts: 1,
+  };
+  incident.customerNotified = await notifyCustomer(incident);
+
+  return saveIncident(incident);
+}
+
+async function saveIncident(incident: BookingIncident): Promise<BookingIncident> {
+  return incidentStore().update(data => {
+    const index = data.incidents.findIndex(i => i.id === incident.id);
+    const updated = { ...incident, updatedAt: new Date().toISOString() };
+    if (index === -1) {
+      data.incidents.push(updated);
+    } else {
+      data.incidents[index] = updated;
+    }
+    return updated;
+  });
+}
+
+async function runFinalization(
+  bookingData: PaidBookingRequest,
+  payment: BookingPaymentReference
+): Promise<PaidBookingOutcome> {
+  const repo = getBookingRepository();
+
+  // Redelivered confirmations return what the first one produced
+  const existingBooking = await repo.findByPaymentId(payment.transactionId);
+  if (existingBooking) {
+    const providerBooking = existingBooking.providerBookingId
+      ? await getBookingProvider().getBooking(existingBooking.providerBookingId).catch(() => null)
+      : null;
+
+    return {
+      status: 'booked',
+      booking: providerBooking?.booking,
+      confirmationCode: existingBooking.confirmationCode,
+      storedBooking: existingBooking,
+      duplicate: true,
+    };
+  }
+
+  const existingIncident = await findIncidentByPayment(payment.transactionId);
+  if (existingIncident) {
+    return { status: 'failed', incident: existingIncident };
+  }
+
+  if (!(await isSlotStillOpen(bookingData))) {
+    console.error('Payment arrived after the slot filled up, refunding', {
+      paymentId: payment.transactionId,
+      holdId: bookingData.holdId,
+    });
+
+    const incident = await compensate(bookingData, payment, 0, SLOT_TAKEN_ERROR);
+    return { status: 'failed', incident };
+  }
+
+  const { provider, result, attempts } = await createBookingWithRetry(bookingData);
+
+  if (!result.success) {
+    console.error('Critical: Payment succeeded but booking failed, refunding', {
+      paymentId: payment.transactionId,
+      attempts,
+      error: result.error,
+    });
+
+    const incident = await compensate(bookingData, payment, attempts, result.error || 'Booking failed');
+    return { status: 'failed', incident };
+  }
+
+  // The booking now owns the held seats
+  if (bookingData.holdId) {
+    await seatHolds.convertHold(bookingData.holdId);
+  }
+
+  // Persist booking together with its payment reference
+  let storedBooking: StoredBooking | undefined;
+  try {
+    storedBooking = await recordProviderBooking(provider.name, bookingData, result, payment);
+  } catch (storeError) {
+    console.error('Failed to persist booking locally:', {
+      bookingId: result.bookingId,
+      paymentId: payment.transactionId,
+      error: storeError instanceof Error ? storeError.message : storeError,
+    });
+  }
+
+  if (storedBooking) {
+    try {
+      await scheduleBookingJobs(storedBooking);
+    } catch (jobError) {
+      console.error('Failed to schedule booking reminders:', jobError);
+    }
+  }
+
+  return {
+    status: 'booked',
+    booking: result.booking,
+    confirmationCode: storedBooking?.confirmationCode || result.confirmationCode,
+    storedBooking,
+    duplicate: false,
+  };
+}
+
+// Turn a confirmed payment into a booking exactly once per payment
+export function finalizePaidBooking(
+  bookingData: PaidBookingRequest,
+  payment: BookingPaymentReference
+): Promise<PaidBookingOutcome> {
+  const key = `${payment.method}:${payment.transactionId}`;
+  const running = inFlight.get(key);
+  if (running) {
+    return running;
+  }
+
+  const run = runFinalization(bookingData, payment).finally(() => inFlight.delete(key));
+  inFlight.set(key, run);
+  return run;
+}
+
+// Why a payment cannot pay for this booking at the server-side price, or null when it can
+export function getPaymentMismatch(
+  bookingData: PaidBookingRequest,
+  payment: BookingPaymentReference
+): string | null {
+  const tour = getTourConfig(bookingData.tourId);
+  if (!tour) {
+    return 'Payment is for an unknown tour';
+  }
+
+  if (payment.currency.toUpperCase() !== tour.currency.toUpperCase()) {
+    return 'Payment currency mismatch';
+  }
+
+  const expected = BookingValidator.calculateTotalPrice(tour, bookingData.groupSize, bookingData.date);
+  if (Math.abs(payment.amount - expected) > 0.01) {
+    return 'Payment amount mismatch';
+  }
+
+  return null;
+}
+
+// Refund a payment that must not become a booking and record it for staff
+export async function rejectPaidBooking(
+  bookingData: PaidBookingRequest,
+  payment: BookingPaymentReference,
+  error: string
+): Promise<BookingIncident> {
+  return (await findIncidentByPayment(payment.transactionId))
+    || compensate(bookingData, payment, 0, error);
+}
+
+// Keep a refund that did not go through on the incidents page, where staff can retry it
+export async function recordFailedRefund(
+  bookingData: PaidBookingRequest,
+  payment: BookingPaymentReference,
+  error: string,
+  refund: RefundResult
+): Promise<BookingIncident> {
+  const now = new Date().toISOString();
+
+  return saveIncident({
+    id: `inc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    payment,
+    bookingData,
+    attempts: 1,
+    error,
+    status: 'refund_failed',
+    refund: {
+      refundId: refund.refundId || undefined,
+      status: refund.status,
+      error: refund.error,
+      attempts: 1,
+    },
+    // The caller has already told the customer what happened
+    customerNotified: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function getIncidents(): Promise<BookingIncident[]> {
+  const data = await incidentStore().read();
+  return [...data.incidents].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Retry the refund for an incident whose refund did not go through
+export async function retryIncidentRefund(incidentId: string): Promise<BookingIncident | null> {
+  const incident = (await incidentStore().read()).incidents.find(i => i.id === incidentId);
+  if (!incident || incident.status !== 'refund_failed') {
+    return incident || null;
+  }
+
+  const refund = await executeRefund(
+    incident.payment.method,
+    {
+      paymentId: incident.payment.transactionId,
+      reason: 'Booking could not be completed after payment',
+      bookingId: incident.id,
+    },
+    incident.payment.currency,
+    incident.id
+  );
+
+  incident.status = toIncidentStatus(refund);
+  incident.refund = {
+    refundId: refund.refundId || incident.refund?.refundId,
+    status: refund.status,
+    error: refund.error,
+    attempts: (incident.refund?.attempts || 0) + 1,
+  };
+
+  if (!incident.customerNotified && incident.status !== 'refund_failed') {
+    incident.customerNotified = await notifyCustomer(incident);
+  }
+
+  return saveIncident(incident);
+}
+
+// Staff handled the incident another way (e.g. rebooked the customer by hand)
+export async function resolveIncident(incidentId: string, note?: string): Promise<BookingIncident | null> {
+  const incident = (await incidentStore().read()).incidents.find(i => i.id === incidentId);
+  if (!incident) {
+    return null;
+  }
+
+  return saveIncident({ ...incident, status: 'resolved', note });
+}
@@ -0,0 +1,335 @@
+// Booking reschedules
+// Prices and applies a move to a new slot; a price difference paid for a move that does not happen is refunded
+
+import { getBookingProvider, BookingResponse } from '@/lib/booking-providers';
+import {
+  getBookingRepository,
+  findStoredBooking,
+  BookingPaymentReference,
+  BookingRefund,
+  StoredBooking,
+} from '@/lib/booking-store';
+import { sendBookingRescheduledEmail } from '@/lib/email-service';
+import { scheduleBookingJobs } from '@/lib/jobs';
+import { seatHolds, getSlotTime } from '@/lib/booking-holds';
+import {
+  BookingValidator,
+  BookingError,
+  BookingErrorCodes,
+  handleBookingError,
+} from '@/lib/booking-validation';
+import {
+  canChangeBooking,
+  getHoursUntilTour,
+  getRefundPercent,
+} from '@/lib/cancellation-policy';
+import { getCancellationPolicy, getTourConfig } from '@/lib/tour-catalog';
+import { executeRefund, refundBooking } from '@/lib/refunds';
+import { recordFailedRefund } from '@/lib/booking-recovery';
+
+export interface RescheduleRequest {
+  bookingId: string;
+  customerEmail: string;
+  newDate: string;
+  newStartTime: string;
+}
+
+export type PreparedReschedule = Awaited<ReturnType<typeof prepareReschedule>>;
+
+export interface RescheduleResult {
+  booking?: BookingResponse['booking'];
+  confirmationCode?: string;
+  refund: BookingRefund | null;
+}
+
+export type PaidRescheduleOutcome =
+  | (RescheduleResult & {
+      status: 'rescheduled';
+      quote?: PreparedReschedule['quote'];
+      duplicate: boolean; // an earlier request already applied this payment
+    })
+  | {
+      status: 'failed';
+      error: BookingError;
+      refunded: boolean;
+      incidentId?: string; // set when staff have to retry the refund
+    };
+
+// The webhook and the customer's confirmation for the same payment share one run
+const inFlight = new Map<string, Promise<PaidRescheduleOutcome>>();
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Verify ownership and the new slot, then price the change
+export async function prepareReschedule(request: RescheduleRequest) {
+  const { bookingId, customerEmail, newDate, newStartTime } = request;
+
+  const storedBooking = await findStoredBooking(bookingId);
+  const providerBookingId = storedBooking?.providerBookingId || bookingId;
+
+  const provider = getBookingProvider();
+  const bookingResult = await provider.getBooking(providerBookingId);
+
+  if (!bookingResult.success || !bookingResult.booking) {
+    throw new BookingError('Booking not found', BookingErrorCodes.VALIDATION_ERROR, 404);
+  }
+
+  const booking = bookingResult.booking;
+
+  // Same ownership check as cancellation
+  if (booking.customerInfo.email.toLowerCase() !== customerEmail.toLowerCase()) {
+    throw new BookingError('Email does not match booking records', BookingErrorCodes.VALIDATION_ERROR, 403);
+  }
+
+  if (booking.status === 'cancelled') {
+    throw new BookingError('Cancelled bookings cannot be rescheduled', BookingErrorCodes.VALIDATION_ERROR, 409);
+  }
+
+  const policy = getCancellationPolicy(booking.tourId, booking.date);
+  const hoursUntilTour = getHoursUntilTour(booking.date, booking.startTime);
+  if (!canChangeBooking(hoursUntilTour, policy)) {
+    throw new BookingError(
+      `Bookings can only be changed at least ${policy.minimumNoticeHours} hours before the tour`,
+      BookingErrorCodes.VALIDATION_ERROR,
+      409
+    );
+  }
+
+  if (booking.date === newDate && booking.startTime === newStartTime) {
+    throw new BookingError('The booking is already at this time', BookingErrorCodes.VALIDATION_ERROR, 400);
+  }
+
+  const tour = getTourConfig(booking.tourId);
+  const validations = [
+    BookingValidator.validateBookingDate(newDate),
+    BookingValidator.validateTourAvailability(tour, newDate),
+    BookingValidator.validateBookingTime(newStartTime, newDate),
+  ];
+  const failed = validations.find(validation => !validation.valid);
+  if (!tour || failed) {
+    throw new BookingError(failed?.error || 'Unknown tour', BookingErrorCodes.VALIDATION_ERROR, 400);
+  }
+
+  // The new slot must fit the whole group, after other customers' holds
+  const availability = await provider.checkAvailability(booking.tourId, new Date(newDate));
+  const slots = await seatHolds.applyHolds(booking.tourId, newDate, availability.availableSlots);
+  const newSlot = slots.find(slot => getSlotTime(slot.startTime) === newStartTime);
+
+  if (!newSlot || newSlot.availableSpots < booking.groupSize) {
+    throw new BookingError('Requested time slot not available', BookingErrorCodes.AVAILABILITY_ERROR, 409);
+  }
+
+  // Price difference: pay the full increase, get a decrease back at the cancellation refund rate
+  const newTotal = BookingValidator.calculateTotalPrice(tour, booking.groupSize, newDate);
+  const priceDifference = roundCurrency(newTotal - booking.totalPrice);
+  const refundPercent = getRefundPercent(hoursUntilTour, policy);
+
+  return {
+    provider,
+    storedBooking,
+    providerBookingId,
+    booking,
+    quote: {
+      currentTotal: booking.totalPrice,
+      newTotal,
+      priceDifference,
+      amountDue: Math.max(priceDifference, 0),
+      refund: {
+        amount: priceDifference < 0 ? roundCurrency((-priceDifference * refundPercent) / 100) : 0,
+        percent: refundPercent,
+      },
+      currency: tour.currency,
+    },
+  };
+}
+
+// Move the booking at the provider, record it locally and return part of a cheaper price.
+// Throws a BookingError when the provider refuses the move.
+export async function applyReschedule(
+  prepared: PreparedReschedule,
+  request: RescheduleRequest,
+  changePayment?: BookingPaymentReference
+): Promise<RescheduleResult> {
+  const { provider, storedBooking, providerBookingId, booking, quote } = prepared;
+  const { newDate, newStartTime } = request;
+
+  const rescheduleResult = await provider.rescheduleBooking(providerBookingId, {
+    date: newDate,
+    startTime: newStartTime,
+    totalPrice: quote.newTotal,
+  });
+
+  if (!rescheduleResult.success) {
+    throw new BookingError(rescheduleResult.error || 'Reschedule failed', BookingErrorCodes.PROVIDER_ERROR, 502);
+  }
+
+  // Record the move locally
+  if (storedBooking) {
+    const paymentNote = changePayment ? `, difference paid (${changePayment.transactionId})` : '';
+    const rescheduled = await getBookingRepository().reschedule(
+      storedBooking.id,
+      { date: newDate, startTime: newStartTime, totalPrice: quote.newTotal },
+      `Rescheduled from ${booking.date} ${booking.startTime}${paymentNote}`
+    );
+
+    if (rescheduled) {
+      // Replaces the reminders planned for the old slot
+      try {
+        await scheduleBookingJobs(rescheduled);
+      } catch (jobError) {
+        console.error('Failed to reschedule booking reminders:', jobError);
+      }
+
+      try {
+        await sendBookingRescheduledEmail(rescheduled, { date: booking.date, startTime: booking.startTime });
+      } catch (emailError) {
+        console.error('Reschedule email failed:', emailError);
+      }
+    }
+  }
+
+  // A cheaper date returns part of the difference
+  const refund = storedBooking && quote.refund.amount > 0
+    ? await refundBooking(
+        storedBooking,
+        quote.refund.amount,
+        `Rescheduled to ${newDate} ${newStartTime}`
+      )
+    : null;
+
+  console.log('Booking rescheduled successfully:', {
+    bookingId: providerBookingId,
+    from: `${booking.date} ${booking.startTime}`,
+    to: `${newDate} ${newStartTime}`,
+    priceDifference: quote.priceDifference,
+    refundAmount: quote.refund.amount,
+    refundStatus: refund?.status,
+  });
+
+  return {
+    booking: rescheduleResult.booking,
+    confirmationCode: storedBooking?.confirmationCode,
+    refund,
+  };
+}
+
+// Give back a price difference that was paid for a move that did not happen.
+// Returns the incident ID when the refund has to be retried by staff.
+async function refundChangePayment(
+  storedBooking: StoredBooking,
+  payment: BookingPaymentReference,
+  newSlot: { date: string; startTime: string },
+  error: string
+): Promise<string | undefined> {
+  const refund = await executeRefund(
+    payment.method,
+    {
+      paymentId: payment.transactionId,
+      reason: 'Reschedule could not be completed',
+      bookingId: storedBooking.id,
+    },
+    payment.currency,
+    `reschedule_${payment.transactionId}`
+  );
+
+  if (refund.success) {
+    return undefined;
+  }
+
+  const incident = await recordFailedRefund(
+    {
+      tourId: storedBooking.tourId,
+      date: newSlot.date,
+      startTime: newSlot.startTime,
+      groupSize: storedBooking.groupSize,
+      totalPrice: payment.amount,
+      customerInfo: storedBooking.customerInfo,
+      locale: storedBooking.locale,
+    },
+    payment,
+    error,
+    refund
+  );
+  return incident.id;
+}
+
+// Apply a move whose price difference has been paid, from the reschedule route or the payment webhook.
+// The payment is claimed first so it pays for one move only; once claimed, every reason the move
+// cannot happen refunds it.
+export function completePaidReschedule(
+  request: RescheduleRequest,
+  payment: BookingPaymentReference
+): Promise<PaidRescheduleOutcome> {
+  const key = `${payment.method}:${payment.transactionId}`;
+  const running = inFlight.get(key);
+  if (running) {
+    return running;
+  }
+
+  const run = runPaidReschedule(request, payment).finally(() => inFlight.delete(key));
+  inFlight.set(key, run);
+  return run;
+}
+
+async function runPaidReschedule(
+  request: RescheduleRequest,
+  payment: BookingPaymentReference
+): Promise<PaidRescheduleOutcome> {
+  const storedBooking = await findStoredBooking(request.bookingId);
+  if (!storedBooking) {
+    return {
+      status: 'failed',
+      error: new BookingError('Booking not found', BookingErrorCodes.VALIDATION_ERROR, 404),
+      refunded: false,
+    };
+  }
+
+  if (!(await getBookingRepository().claimChangePayment(storedBooking.id, payment))) {
+    // Already applied by an earlier webhook delivery or confirmation
+    const applied = !!storedBooking.changePayments?.some(p => p.transactionId === payment.transactionId)
+      && storedBooking.date === request.newDate
+      && storedBooking.startTime === request.newStartTime;
+
+    return applied
+      ? { status: 'rescheduled', confirmationCode: storedBooking.confirmationCode, refund: null, duplicate: true }
+      : {
+          status: 'failed',
+          error: new BookingError('This payment has already been used', BookingErrorCodes.PAYMENT_ERROR, 409),
+          refunded: false,
+        };
+  }
+
+  try {
+    const prepared = await prepareReschedule(request);
+    const { quote } = prepared;
+
+    if (
+      payment.currency.toUpperCase() !== quote.currency.toUpperCase() ||
+      Math.round(payment.amount * 100) < Math.round(quote.amountDue * 100)
+    ) {
+      throw new BookingError('Price difference payment not completed', BookingErrorCodes.PAYMENT_ERROR, 402);
+    }
+
+    const result = await applyReschedule(prepared, request, payment);
+    return { status: 'rescheduled', quote, duplicate: false, ...result };
+  } catch (error) {
+    const bookingError = handleBookingError(error);
+    const incidentId = await refundChangePayment(
+      storedBooking,
+      payment,
+      { date: request.newDate, startTime: request.newStartTime },
+      bookingError.message
+    );
+
+    console.error('Reschedule payment refunded, the booking could not be moved', {
+      bookingId: storedBooking.id,
+      paymentId: payment.transactionId,
+      error: bookingError.message,
+      incidentId,
+    });
+
+    return { status: 'failed', error: bookingError, refunded: true, incidentId };
+  }
+}
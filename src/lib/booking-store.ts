@@ -0,0 +1,396 @@
+// Local bookings repository
+// Persists every booking, payment reference and status change independently of the booking provider
+
+import { getJsonStore, JsonFileStore } from '@/lib/json-store';
+import type { BookingResponse, CreateBookingRequest } from '@/lib/booking-providers';
+import type { Locale } from '@/types';
+
+export type StoredBookingStatus = 'pending' | 'confirmed' | 'cancelled';
+
+export interface BookingPaymentReference {
+  method: 'stripe' | 'paypal';
+  transactionId: string;
+  amount: number;
+  currency: string;
+  receiptUrl?: string;
+}
+
+export type BookingRefundStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface BookingRefund {
+  id: string;
+  providerRefundId?: string;
+  amount: number;
+  currency: string;
+  status: BookingRefundStatus;
+  reason: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A chargeback opened by the customer's bank
+export interface BookingDispute {
+  providerDisputeId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  status: string;
+  evidenceDueBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BookingEmailStatus = 'queued' | 'sent' | 'failed' | 'bounced';
+
+// Delivery state of an email sent about this booking
+export interface BookingEmail {
+  emailId: string;
+  template: string;
+  to: string;
+  status: BookingEmailStatus;
+  error?: string;
+  updatedAt: string;
+}
+
+export interface BookingStatusChange {
+  status: StoredBookingStatus;
+  timestamp: string;
+  note?: string;
+}
+
+export interface StoredBooking {
+  id: string;
+  providerBookingId?: string;
+  provider: string;
+  confirmationCode: string;
+  tourId: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  groupSize: number;
+  totalPrice: number;
+  currency: string;
+  status: StoredBookingStatus;
+  customerInfo: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone: string;
+    country?: string;
+  };
+  specialRequests?: string;
+  locale?: Locale; // language for customer emails
+  payment?: BookingPaymentReference;
+  changePayments?: BookingPaymentReference[]; // price differences paid to reschedule
+  refunds?: BookingRefund[];
+  disputes?: BookingDispute[];
+  emails?: BookingEmail[];
+  statusHistory: BookingStatusChange[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BookingScheduleChange = Pick<StoredBooking, 'date' | 'startTime' | 'totalPrice'>;
+
+export type NewStoredBooking = Omit<
+  StoredBooking,
+  'id' | 'confirmationCode' | 'statusHistory' | 'createdAt' | 'updatedAt'
+> & {
+  confirmationCode?: string;
+};
+
+export interface BookingRepository {
+  save(booking: NewStoredBooking): Promise<StoredBooking>;
+  findById(id: string): Promise<StoredBooking | null>;
+  findByProviderBookingId(providerBookingId: string): Promise<StoredBooking | null>;
+  findByConfirmationCode(confirmationCode: string): Promise<StoredBooking | null>;
+  findByPaymentId(transactionId: string): Promise<StoredBooking | null>;
+  findByEmail(email: string): Promise<StoredBooking[]>;
+  findByDateRange(startDate: string, endDate: string): Promise<StoredBooking[]>;
+  updateStatus(id: string, status: StoredBookingStatus, note?: string): Promise<StoredBooking | null>;
+  attachPayment(id: string, payment: BookingPaymentReference): Promise<StoredBooking | null>;
+  claimChangePayment(id: string, payment: BookingPaymentReference): Promise<boolean>;
+  reschedule(id: string, change: BookingScheduleChange, note?: string): Promise<StoredBooking | null>;
+  recordRefund(id: string, refund: BookingRefund): Promise<StoredBooking | null>;
+  recordDispute(id: string, dispute: BookingDispute): Promise<StoredBooking | null>;
+  recordEmail(id: string, email: BookingEmail): Promise<StoredBooking | null>;
+}
+
+// Generate a short, human-friendly confirmation code (no ambiguous characters)
+export function generateConfirmationCode(): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  let code = '';
+  for (let i = 0; i < 8; i++) {
+    code += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return `PRG-${code}`;
+}
+
+function createRecord(booking: NewStoredBooking): StoredBooking {
+  const now = new Date().toISOString();
+
+  return {
+    ...booking,
+    id: `bk_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    confirmationCode: booking.confirmationCode || generateConfirmationCode(),
+    customerInfo: {
+      ...booking.customerInfo,
+      email: booking.customerInfo.email.toLowerCase(),
+    },
+    statusHistory: [{ status: booking.status, timestamp: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function applyStatus(booking: StoredBooking, status: StoredBookingStatus, note?: string) {
+  const now = new Date().toISOString();
+  booking.status = status;
+  booking.statusHistory.push({ status, timestamp: now, note });
+  booking.updatedAt = now;
+}
+
+function usesPayment(booking: StoredBooking, transactionId: string): boolean {
+  return booking.payment?.transactionId === transactionId
+    || !!booking.changePayments?.some(payment => payment.transactionId === transactionId);
+}
+
+function sortByTourDate(bookings: StoredBooking[]): StoredBooking[] {
+  return bookings.sort((a, b) =>
+    `${a.date}T${a.startTime}`.localeCompare(`${b.date}T${b.startTime}`)
+  );
+}
+
+// Shared query logic for any backend that can hand over the full booking list
+abstract class ListBackedBookingRepository implements BookingRepository {
+  protected abstract list(): Promise<StoredBooking[]>;
+  protected abstract mutate<R>(fn: (bookings: StoredBooking[]) => R): Promise<R>;
+
+  async save(booking: NewStoredBooking): Promise<StoredBooking> {
+    const record = createRecord(booking);
+    await this.mutate(bookings => {
+      bookings.push(record);
+    });
+    return record;
+  }
+
+  async findById(id: string): Promise<StoredBooking | null> {
+    const bookings = await this.list();
+    return bookings.find(b => b.id === id) || null;
+  }
+
+  async findByProviderBookingId(providerBookingId: string): Promise<StoredBooking | null> {
+    const bookings = await this.list();
+    return bookings.find(b => b.providerBookingId === providerBookingId) || null;
+  }
+
+  async findByConfirmationCode(confirmationCode: string): Promise<StoredBooking | null> {
+    const code = confirmationCode.trim().toUpperCase();
+    const bookings = await this.list();
+    return bookings.find(b => b.confirmationCode.toUpperCase() === code) || null;
+  }
+
+  async findByPaymentId(transactionId: string): Promise<StoredBooking | null> {
+    const bookings = await this.list();
+    return bookings.find(b => usesPayment(b, transactionId)) || null;
+  }
+
+  async findByEmail(email: string): Promise<StoredBooking[]> {
+    const normalized = email.trim().toLowerCase();
+    const bookings = await this.list();
+    return sortByTourDate(bookings.filter(b => b.customerInfo.email === normalized));
+  }
+
+  async findByDateRange(startDate: string, endDate: string): Promise<StoredBooking[]> {
+    const bookings = await this.list();
+    return sortByTourDate(bookings.filter(b => b.date >= startDate && b.date <= endDate));
+  }
+
+  async updateStatus(
+    id: string,
+    status: StoredBookingStatus,
+    note?: string
+  ): Promise<StoredBooking | null> {
+    return this.mutate(bookings => {
+      const booking = bookings.find(b => b.id === id);
+      if (!booking) return null;
+      if (booking.status !== status) {
+        applyStatus(booking, status, note);
+      }
+      return { ...booking };
+    });
+  }
+
+  async attachPayment(id: string, payment: BookingPaymentReference): Promise<StoredBooking | null> {
+    return this.mutate(bookings => {
+      const booking = bookings.find(b => b.id === id);
+      if (!booking) return null;
+      booking.payment = payment;
+      booking.updatedAt = new Date().toISOString();
+      return { ...booking };
+    });
+  }
+
+  // Record a price-difference payment; false when it was already used by any booking
+  async claimChangePayment(id: string, payment: BookingPaymentReference): Promise<boolean> {
+    return this.mutate(bookings => {
+      const booking = bookings.find(b => b.id === id);
+      if (!booking || bookings.some(b => usesPayment(b, payment.transactionId))) {
+        return false;
+      }
+
+      booking.changePayments = [...(booking.changePayments || []), payment];
+      booking.updatedAt = new Date().toISOString();
+      return true;
+    });
+  }
+
+  async reschedule(
+    id: string,
+    change: BookingScheduleChange,
+    note?: string
+  ): Promise<StoredBooking | null> {
+    return this.mutate(bookings => {
+      const booking = bookings.find(b => b.id === id);
+      if (!booking) return null;
+
+      const now = new Date().toISOString();
+      booking.statusHistory.push({
+        status: booking.status,
+        timestamp: now,
+        note: note || `Rescheduled from ${booking.date} ${booking.startTime}`,
+      });
+      Object.assign(booking, change, { updatedAt: now });
+      return { ...booking };
+    });
+  }
+
+  // Add a refund, or update it in place when retrying
+  async recordRefund(id: string, refund: BookingRefund): Promise<StoredBooking | null> {
+    return this.mutate(bookings => {
+      const booking = bookings.find(b => b.id === id);
+      if (!booking) return null;
+
+      const refunds = (booking.refunds || []).filter(r => r.id !== refund.id);
+      booking.refunds = [...refunds, refund];
+      booking.updatedAt = new Date().toISOString();
+      return { ...booking };
+    });
+  }
+
+  // Add a dispute, or update it in place as the provider reports changes
+  async recordDispute(id: string, dispute: BookingDispute): Promise<StoredBooking | null> {
+    return this.mutate(bookings => {
+      const booking = bookings.find(b => b.id === id);
+      if (!booking) return null;
+
+      const disputes = (booking.disputes || []).filter(
+        d => d.providerDisputeId !== dispute.providerDisputeId
+      );
+      booking.disputes = [...disputes, dispute];
+      booking.updatedAt = new Date().toISOString();
+      return { ...booking };
+    });
+  }
+
+  // Add an email, or update its delivery status in place
+  async recordEmail(id: string, email: BookingEmail): Promise<StoredBooking | null> {
+    return this.mutate(bookings => {
+      const booking = bookings.find(b => b.id === id);
+      if (!booking) return null;
+
+      const emails = (booking.emails || []).filter(e => e.emailId !== email.emailId);
+      booking.emails = [...emails, email];
+      booking.updatedAt = new Date().toISOString();
+      return { ...booking };
+    });
+  }
+}
+
+// JSON file repository - default backend, survives restarts
+export class FileBookingRepository extends ListBackedBookingRepository {
+  private store: JsonFileStore<{ bookings: StoredBooking[] }>;
+
+  constructor(fileName: string = process.env.BOOKINGS_FILE || 'bookings.json') {
+    super();
+    this.store = getJsonStore(fileName, () => ({ bookings: [] }));
+  }
+
+  protected async list(): Promise<StoredBooking[]> {
+    const data = await this.store.read();
+    return data.bookings;
+  }
+
+  protected mutate<R>(fn: (bookings: StoredBooking[]) => R): Promise<R> {
+    return this.store.update(data => fn(data.bookings));
+  }
+}
+
+// In-memory repository - for tests and ephemeral environments
+export class InMemoryBookingRepository extends ListBackedBookingRepository {
+  private bookings: StoredBooking[] = [];
+
+  protected async list(): Promise<StoredBooking[]> {
+    return this.bookings.map(b => ({ ...b }));
+  }
+
+  protected async mutate<R>(fn: (bookings: StoredBooking[]) => R): Promise<R> {
+    return fn(this.bookings);
+  }
+}
+
+let repository: BookingRepository | null = null;
+
+// Factory function to get the configured bookings repository
+export function getBookingRepository(): BookingRepository {
+  if (repository) {
+    return repository;
+  }
+
+  const store = process.env.BOOKING_STORE || 'file';
+
+  switch (store.toLowerCase()) {
+    case 'memory':
+      repository = new InMemoryBookingRepository();
+      break;
+    case 'file':
+    default:
+      repository = new FileBookingRepository();
+  }
+
+  return repository;
+}
+
+// Persist the outcome of a successful provider booking
+export async function recordProviderBooking(
+  providerName: string,
+  bookingData: Omit<CreateBookingRequest, 'customerInfo'> & {
+    customerInfo: StoredBooking['customerInfo'];
+    locale?: Locale;
+  },
+  bookingResult: BookingResponse,
+  payment?: BookingPaymentReference
+): Promise<StoredBooking> {
+  return getBookingRepository().save({
+    providerBookingId: bookingResult.bookingId || bookingResult.booking?.id,
+    provider: providerName,
+    confirmationCode: bookingResult.confirmationCode,
+    tourId: bookingData.tourId,
+    date: bookingData.date,
+    startTime: bookingData.startTime,
+    groupSize: bookingData.groupSize,
+    totalPrice: bookingData.totalPrice,
+    currency: payment?.currency.toUpperCase() || 'EUR',
+    status: payment ? 'confirmed' : bookingResult.booking?.status || 'pending',
+    customerInfo: bookingData.customerInfo,
+    specialRequests: bookingData.specialRequests,
+    locale: bookingData.locale,
+    payment,
+  });
+}
+
+// Look up a booking by local ID or the provider's booking ID
+export async function findStoredBooking(bookingId: string): Promise<StoredBooking | null> {
+  const repo = getBookingRepository();
+  return (await repo.findById(bookingId)) || (await repo.findByProviderBookingId(bookingId));
+}
@@ -1,6 +1,13 @@
 // Booking data validation and business logic
 
 import { z } from 'zod';
+import {
+  getOperatingDays,
+  calculateTourPrice,
+  parseTourDate,
+  DAY_NAMES,
+  PricedTour,
+} from '@/lib/tour-pricing';
 
 // Validation schemas
 export const customerInfoSchema = z.object({
@@ -19,6 +26,7 @@ export const bookingRequestSchema = z.object({
   customerInfo: customerInfoSchema,
   specialRequests: z.string().max(500, 'Special requests too long').optional(),
   totalPrice: z.number().min(0, 'Total price must be positive'),
+  holdId: z.string().optional(),
 });
 
 export const availabilityRequestSchema = z.object({
@@ -26,7 +34,8 @@ export const availabilityRequestSchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)'),
 });
 
-// Business validation functions
+// Business validation functions. Tour checks take the tour itself (undefined when the ID is unknown),
+// so the booking flow can run them in the browser; server code looks tours up in tour-catalog.ts
 export class BookingValidator {
   static validateBookingDate(date: string): { valid: boolean; error?: string } {
     const bookingDate = new Date(date);
@@ -72,43 +81,32 @@ export class BookingValidator {
     return { valid: true };
   }
 
-  static validateGroupSize(groupSize: number, tourId: string): { valid: boolean; error?: string } {
-    const maxGroupSizes: Record<string, number> = {
-      'prague-castle': 8,
-      'old-town': 10,
-      'jewish-quarter': 6,
-      'food-tour': 4,
-    };
-
-    const maxSize = maxGroupSizes[tourId] || 6;
+  static validateGroupSize(groupSize: number, tour: PricedTour | undefined): { valid: boolean; error?: string } {
+    if (!tour) {
+      return { valid: false, error: 'Unknown tour' };
+    }
 
-    if (groupSize > maxSize) {
+    if (groupSize > tour.maxGroupSize) {
       return { 
         valid: false, 
-        error: `Maximum group size for this tour is ${maxSize} people` 
+        error: `Maximum group size for this tour is ${tour.maxGroupSize} people` 
       };
     }
 
     return { valid: true };
   }
 
-  static validateTourAvailability(tourId: string, date: string): { valid: boolean; error?: string } {
-    const bookingDate = new Date(date);
-    const dayOfWeek = bookingDate.getDay();
-
-    // Tour-specific availability rules
-    const tourAvailability: Record<string, number[]> = {
-      'prague-castle': [1, 2, 3, 4, 5, 6], // Monday to Saturday
-      'old-town': [0, 1, 2, 3, 4, 5, 6], // Every day
-      'jewish-quarter': [1, 2, 3, 4, 5], // Monday to Friday
-      'food-tour': [4, 5, 6], // Thursday to Saturday
-    };
+  static validateTourAvailability(tour: PricedTour | undefined, date: string): { valid: boolean; error?: string } {
+    if (!tour) {
+      return { valid: false, error: 'Unknown tour' };
+    }
 
-    const availableDays = tourAvailability[tourId] || [1, 2, 3, 4, 5, 6];
+    // Operating days come from the tour's weekly schedule
+    const dayOfWeek = parseTourDate(date).getDay();
+    const availableDays = getOperatingDays(tour);
 
     if (!availableDays.includes(dayOfWeek)) {
-      const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      const availableDayNames = availableDays.map(day => dayNames[day]).join(', ');
+      const availableDayNames = availableDays.map(day => DAY_NAMES[day]).join(', ');
       return { 
         valid: false, 
         error: `This tour is only available on: ${availableDayNames}` 
@@ -118,35 +116,16 @@ export class BookingValidator {
     return { valid: true };
   }
 
-  static calculateTotalPrice(tourId: string, groupSize: number, date: string): number {
-    const basePrices: Record<string, number> = {
-      'prague-castle': 45,
-      'old-town': 35,
-      'jewish-quarter': 40,
-      'food-tour': 65,
-    };
-
-    const basePrice = basePrices[tourId] || 50;
-    let totalPrice = basePrice * groupSize;
-
-    // Apply group discounts
-    if (groupSize >= 6) {
-      totalPrice *= 0.9; // 10% discount for 6+ people
-    } else if (groupSize >= 4) {
-      totalPrice *= 0.95; // 5% discount for 4-5 people
+  // Returns 0 for unknown tours; validateCompleteBooking reports those separately
+  static calculateTotalPrice(tour: PricedTour | undefined, groupSize: number, date: string): number {
+    if (!tour) {
+      return 0;
     }
 
-    // Apply seasonal pricing (summer premium)
-    const bookingDate = new Date(date);
-    const month = bookingDate.getMonth();
-    if (month >= 5 && month <= 8) { // June to September
-      totalPrice *= 1.15; // 15% summer premium
-    }
-
-    return Math.round(totalPrice * 100) / 100; // Round to 2 decimal places
+    return calculateTourPrice(tour, groupSize, date).total;
   }
 
-  static validateCompleteBooking(bookingData: any): { valid: boolean; errors: string[] } {
+  static validateCompleteBooking(bookingData: any, tour: PricedTour | undefined): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     // Schema validation
@@ -172,18 +151,22 @@ export class BookingValidator {
       errors.push(timeValidation.error);
     }
 
-    const groupSizeValidation = this.validateGroupSize(bookingData.groupSize, bookingData.tourId);
+    const groupSizeValidation = this.validateGroupSize(bookingData.groupSize, tour);
     if (!groupSizeValidation.valid && groupSizeValidation.error) {
       errors.push(groupSizeValidation.error);
     }
 
-    const availabilityValidation = this.validateTourAvailability(bookingData.tourId, bookingData.date);
+    const availabilityValidation = this.validateTourAvailability(tour, bookingData.date);
     if (!availabilityValidation.valid && availabilityValidation.error) {
       errors.push(availabilityValidation.error);
     }
 
     // Validate calculated price matches provided price
-    const calculatedPrice = this.calculateTotalPrice(bookingData.tourId, bookingData.groupSize, bookingData.date);
+    if (!tour) {
+      return { valid: false, errors };
+    }
+
+    const calculatedPrice = this.calculateTotalPrice(tour, bookingData.groupSize, bookingData.date);
     if (Math.abs(calculatedPrice - bookingData.totalPrice) > 0.01) {
       errors.push('Price mismatch detected. Please refresh and try again.');
     }
@@ -0,0 +1,181 @@
+// Cancellation and change windows
+// Declarative per-tour policy shared by cancellations, reschedules, checkout copy and emails
+
+import { CancellationPolicy, CancellationTerms } from '@/types';
+import { isMonthInRule, parseTourDate } from '@/lib/tour-pricing';
+
+// Applied to tours that don't declare their own policy
+export const DEFAULT_CANCELLATION_POLICY: CancellationTerms = {
+  minimumNoticeHours: 24,
+  windows: [
+    { minHoursBefore: 48, refundPercent: 100 },
+    { minHoursBefore: 24, refundPercent: 50 },
+  ],
+};
+
+export interface RefundCalculation {
+  percent: number;
+  amount: number;
+  depositRetained: number;
+}
+
+export interface CancellationTier {
+  timeframe: string;
+  refundPercent: number;
+}
+
+// A refund band in hours before the tour; maxHours is open-ended for the earliest band
+export interface RefundTier {
+  minHours: number;
+  maxHours?: number;
+  refundPercent: number;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Terms in force for a date: the tour's policy with any matching seasonal rule on top
+export function resolveCancellationPolicy(
+  policy: CancellationPolicy | undefined,
+  date?: string
+): CancellationTerms {
+  if (!policy) {
+    return DEFAULT_CANCELLATION_POLICY;
+  }
+
+  const { seasonalRules = [], ...terms } = policy;
+  if (!date) {
+    return terms;
+  }
+
+  const month = parseTourDate(date).getMonth() + 1;
+  const season = seasonalRules.find(rule => isMonthInRule(month, rule.startMonth, rule.endMonth));
+  if (!season) {
+    return terms;
+  }
+
+  return {
+    minimumNoticeHours: season.minimumNoticeHours ?? terms.minimumNoticeHours,
+    windows: season.windows ?? terms.windows,
+    depositPercent: season.depositPercent ?? terms.depositPercent,
+    weatherRefundPercent: season.weatherRefundPercent ?? terms.weatherRefundPercent,
+  };
+}
+
+export function getHoursUntilTour(date: string, startTime: string, now: Date = new Date()): number {
+  const tourDateTime = new Date(`${date}T${startTime}`);
+  return (tourDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
+}
+
+export function canChangeBooking(
+  hoursUntilTour: number,
+  policy: CancellationTerms = DEFAULT_CANCELLATION_POLICY
+): boolean {
+  return hoursUntilTour >= policy.minimumNoticeHours;
+}
+
+// Share of the amount paid that is returned when a booking is cancelled or made cheaper
+export function getRefundPercent(
+  hoursUntilTour: number,
+  policy: CancellationTerms = DEFAULT_CANCELLATION_POLICY
+): number {
+  if (!canChangeBooking(hoursUntilTour, policy)) {
+    return 0;
+  }
+
+  const window = [...policy.windows]
+    .sort((a, b) => b.minHoursBefore - a.minHoursBefore)
+    .find(w => hoursUntilTour >= w.minHoursBefore);
+
+  return window?.refundPercent || 0;
+}
+
+// Refund for a cancellation. Weather cancellations are the operator's call and keep no deposit.
+export function calculateRefund(
+  amountPaid: number,
+  hoursUntilTour: number,
+  policy: CancellationTerms = DEFAULT_CANCELLATION_POLICY,
+  options: { weather?: boolean } = {}
+): RefundCalculation {
+  if (options.weather && policy.weatherRefundPercent !== undefined) {
+    return {
+      percent: policy.weatherRefundPercent,
+      amount: roundCurrency((amountPaid * policy.weatherRefundPercent) / 100),
+      depositRetained: 0,
+    };
+  }
+
+  const percent = getRefundPercent(hoursUntilTour, policy);
+  const depositRetained = percent > 0
+    ? roundCurrency((amountPaid * (policy.depositPercent || 0)) / 100)
+    : 0;
+
+  return {
+    percent,
+    amount: roundCurrency(((amountPaid - depositRetained) * percent) / 100),
+    depositRetained,
+  };
+}
+
+// Refund bands from earliest to latest, ending with the no-refund window
+export function getRefundTiers(policy: CancellationTerms): RefundTier[] {
+  const windows = [...policy.windows]
+    .filter(w => w.minHoursBefore >= policy.minimumNoticeHours)
+    .sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+
+  const tiers: RefundTier[] = windows.map((window, index) => ({
+    minHours: window.minHoursBefore,
+    maxHours: index === 0 ? undefined : windows[index - 1].minHoursBefore,
+    refundPercent: window.refundPercent,
+  }));
+
+  const lastWindow = windows[windows.length - 1];
+  if (!lastWindow || lastWindow.minHoursBefore > policy.minimumNoticeHours) {
+    tiers.push({
+      minHours: policy.minimumNoticeHours,
+      maxHours: lastWindow?.minHoursBefore,
+      refundPercent: 0,
+    });
+  }
+
+  tiers.push({ minHours: 0, maxHours: policy.minimumNoticeHours, refundPercent: 0 });
+
+  return tiers;
+}
+
+export function getCancellationTiers(policy: CancellationTerms): CancellationTier[] {
+  return getRefundTiers(policy).map(tier => ({
+    timeframe: tier.maxHours === undefined
+      ? `${tier.minHours}+ hours before tour`
+      : tier.minHours === 0
+        ? `Less than ${tier.maxHours} hours before tour`
+        : `${tier.minHours}-${tier.maxHours} hours before tour`,
+    refundPercent: tier.refundPercent,
+  }));
+}
+
+// Plain-language policy lines for checkout and emails
+export function describeCancellationPolicy(policy: CancellationTerms): string[] {
+  const lines = getCancellationTiers(policy).map(tier =>
+    tier.refundPercent === 100
+      ? `Full refund when you cancel ${tier.timeframe}`
+      : tier.refundPercent > 0
+        ? `${tier.refundPercent}% refund when you cancel ${tier.timeframe}`
+        : `No refund when you cancel ${tier.timeframe.charAt(0).toLowerCase()}${tier.timeframe.slice(1)}`
+  );
+
+  if (policy.depositPercent) {
+    lines.push(`A ${policy.depositPercent}% deposit is non-refundable`);
+  }
+
+  if (policy.weatherRefundPercent !== undefined) {
+    lines.push(
+      policy.weatherRefundPercent === 100
+        ? 'Full refund if the tour is called off for severe weather'
+        : `${policy.weatherRefundPercent}% refund if the tour is called off for severe weather`
+    );
+  }
+
+  return lines;
+}
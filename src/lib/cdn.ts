@@ -99,19 +99,40 @@ export function getVideoUrl(
   return videoUrl;
 }
 
+/**
+ * Default srcSet widths
+ */
+export const RESPONSIVE_WIDTHS = [320, 640, 768, 1024, 1280, 1920];
+
+/**
+ * URL of a derivative written by the media library, e.g. /media/castle-1700000000000-640.avif
+ */
+export function getDerivativeUrl(basePath: string, width: number, format: 'webp' | 'avif'): string {
+  return `${basePath.replace(/\.[^./]+$/, '')}-${width}.${format}`;
+}
+
 /**
  * Generate responsive image srcSet with CDN optimization
+ * Without a CDN, only the derivatives stored with a media upload exist, so the set is built
+ * from those and falls back to the original when there are none
  */
 export function generateResponsiveSrcSet(
   basePath: string,
-  widths: number[] = [320, 640, 768, 1024, 1280, 1920],
-  format: 'webp' | 'avif' | 'jpg' = 'webp'
+  widths: number[] = RESPONSIVE_WIDTHS,
+  format: 'webp' | 'avif' | 'jpg' = 'webp',
+  derivatives: Array<{ width: number; format: string; url: string }> = []
 ): string {
+  if (!CDN_CONFIG.enabled || !CDN_CONFIG.imagesCDN) {
+    const rendered = derivatives.filter(
+      (derivative) => derivative.format === format && widths.includes(derivative.width)
+    );
+    return rendered.length > 0
+      ? rendered.map((derivative) => `${derivative.url} ${derivative.width}w`).join(', ')
+      : basePath;
+  }
+
   return widths
-    .map((width) => {
-      const url = getImageUrl(basePath, { width, format });
-      return `${url} ${width}w`;
-    })
+    .map((width) => `${getImageUrl(basePath, { width, format })} ${width}w`)
     .join(', ');
 }
 
@@ -229,6 +250,13 @@ export const IMAGE_PRESETS = {
   },
 } as const;
 
+/**
+ * Widths rendered for every uploaded image: each preset plus the default srcSet widths
+ */
+export const MEDIA_DERIVATIVE_WIDTHS = Array.from(
+  new Set([...Object.values(IMAGE_PRESETS).map((preset) => preset.width), ...RESPONSIVE_WIDTHS])
+).sort((a, b) => a - b);
+
 /**
  * Get optimized image props for specific use cases
  */
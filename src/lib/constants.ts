@@ -1,13 +1,13 @@
 // Constants for the Prague tour guide website
 
-export const LOCALES = ['en', 'de', 'fr'] as const;
-export const DEFAULT_LOCALE = 'en';
+import { LOCALE_REGISTRY, LOCALES, type Locale } from '@/lib/i18n';
 
-export const CURRENCIES = {
-  en: 'USD',
-  de: 'EUR',
-  fr: 'EUR',
-} as const;
+// Locales are defined once in the registry in src/lib/i18n.ts
+export { LOCALES, DEFAULT_LOCALE } from '@/lib/i18n';
+
+export const CURRENCIES = Object.fromEntries(
+  LOCALES.map(locale => [locale, LOCALE_REGISTRY[locale].currency])
+) as Record<Locale, string>;
 
 export const PRAGUE_COORDINATES = {
   lat: 50.0755,
@@ -35,9 +35,9 @@ export const SOCIAL_LINKS = {
 } as const;
 
 export const TOUR_DIFFICULTIES = {
-  easy: { en: 'Easy', de: 'Einfach', fr: 'Facile' },
-  moderate: { en: 'Moderate', de: 'Mäßig', fr: 'Modéré' },
-  challenging: { en: 'Challenging', de: 'Anspruchsvoll', fr: 'Difficile' },
+  easy: { en: 'Easy', de: 'Einfach', fr: 'Facile', cs: 'Snadná' },
+  moderate: { en: 'Moderate', de: 'Mäßig', fr: 'Modéré', cs: 'Středně náročná' },
+  challenging: { en: 'Challenging', de: 'Anspruchsvoll', fr: 'Difficile', cs: 'Náročná' },
 } as const;
 
 export const BOOKING_CONFIG = {
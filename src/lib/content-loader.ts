@@ -1,12 +1,19 @@
 // Content loader and management system
 // Handles loading and caching of multilingual content
 
-import { promises as fs } from 'fs';
+import { promises as fs, readdirSync, readFileSync } from 'fs';
 import path from 'path';
+import matter from 'gray-matter';
 import { Tour, BlogPost, Review, Locale } from '@/types';
+import { blogFileName, isTranslationFile, TRANSLATED_LOCALES } from '@/lib/blog-translations';
+import { validateTour } from '@/lib/tour-schema';
+import { LOCALES } from '@/lib/i18n';
+import { getContentPath } from '@/lib/content-manifest';
 
 interface ContentCache {
   tours: Map<string, Tour>;
+  // Set once every tour file has been read, not just the ones looked up by ID
+  toursComplete: boolean;
   blogPosts: Map<string, BlogPost>;
   reviews: Map<string, Review[]>;
   lastUpdated: Date;
@@ -15,12 +22,15 @@ interface ContentCache {
 class ContentLoader {
   private cache: ContentCache = {
     tours: new Map(),
+    toursComplete: false,
     blogPosts: new Map(),
     reviews: new Map(),
     lastUpdated: new Date(),
   };
 
-  private contentPath = path.join(process.cwd(), 'content');
+  private get contentPath(): string {
+    return getContentPath();
+  }
 
   // Load all tours with multilingual content
   async loadTours(): Promise<Tour[]> {
@@ -34,7 +44,7 @@ class ContentLoader {
       for (const file of tourFiles) {
         const filePath = path.join(toursPath, file);
         const content = await fs.readFile(filePath, 'utf-8');
-        const tour = JSON.parse(content) as Tour;
+        const tour = JSON.parse(content);
         
         // Validate tour data
         if (this.validateTour(tour)) {
@@ -43,6 +53,7 @@ class ContentLoader {
         }
       }
 
+      this.cache.toursComplete = true;
       return tours.sort((a, b) => a.title.en.localeCompare(b.title.en));
     } catch (error) {
       console.error('Failed to load tours:', error);
@@ -50,6 +61,29 @@ class ContentLoader {
     }
   }
 
+  // Every valid tour, read synchronously so pricing, validation and email code can look tours up
+  // without awaiting. Served from the same cache as loadTours until clearCache() is called.
+  getTourCatalog(): Tour[] {
+    if (!this.cache.toursComplete) {
+      const toursPath = path.join(this.contentPath, 'tours');
+      const tourFiles = readdirSync(toursPath).filter(file => file.endsWith('.json'));
+
+      for (const file of tourFiles) {
+        try {
+          const tour = JSON.parse(readFileSync(path.join(toursPath, file), 'utf-8'));
+          if (this.validateTour(tour)) {
+            this.cache.tours.set(tour.id, tour);
+          }
+        } catch (error) {
+          console.error(`Failed to load tour file ${file}:`, error);
+        }
+      }
+      this.cache.toursComplete = true;
+    }
+
+    return Array.from(this.cache.tours.values()).sort((a, b) => a.title.en.localeCompare(b.title.en));
+  }
+
   // Load specific tour by ID
   async loadTour(tourId: string): Promise<Tour | null> {
     // Check cache first
@@ -60,7 +94,7 @@ class ContentLoader {
     try {
       const filePath = path.join(this.contentPath, 'tours', `${tourId}.json`);
       const content = await fs.readFile(filePath, 'utf-8');
-      const tour = JSON.parse(content) as Tour;
+      const tour = JSON.parse(content);
       
       if (this.validateTour(tour)) {
         this.cache.tours.set(tourId, tour);
@@ -78,7 +112,7 @@ class ContentLoader {
     try {
       const blogPath = path.join(this.contentPath, 'blog');
       const files = await fs.readdir(blogPath);
-      const mdxFiles = files.filter(file => file.endsWith('.mdx'));
+      const mdxFiles = files.filter(file => file.endsWith('.mdx') && !isTranslationFile(file));
 
       const blogPosts: BlogPost[] = [];
 
@@ -108,21 +142,33 @@ class ContentLoader {
     }
 
     try {
-      const filePath = path.join(this.contentPath, 'blog', `${slug}.mdx`);
+      const filePath = path.join(this.contentPath, 'blog', blogFileName(slug));
       const content = await fs.readFile(filePath, 'utf-8');
       
       // Parse frontmatter and content
-      const { frontmatter, content: mdxContent } = this.parseMDX(content);
+      const { data: frontmatter, content: mdxContent } = matter(content);
+
+      // Translated bodies are optional; a missing one stays empty
+      const bodies = { en: mdxContent } as Record<Locale, string>;
+      for (const locale of TRANSLATED_LOCALES) {
+        bodies[locale] = await this.readOptionalFile(path.join(this.contentPath, 'blog', blogFileName(slug, locale)));
+      }
       
       const blogPost: BlogPost = {
         slug,
         title: frontmatter.title,
-        content: { en: mdxContent, de: mdxContent, fr: mdxContent }, // TODO: Implement proper translation
+        content: bodies,
         excerpt: frontmatter.excerpt,
         publishedAt: new Date(frontmatter.publishedAt),
         category: frontmatter.category,
         tags: frontmatter.tags,
         featuredImage: frontmatter.featuredImage,
+        relatedTours: frontmatter.relatedTours || [],
+        seoMetadata: {
+          title: frontmatter.seoTitle || frontmatter.title,
+          description: frontmatter.seoDescription || frontmatter.excerpt,
+          keywords: frontmatter.seoKeywords || frontmatter.tags || [],
+        },
       };
 
       this.cache.blogPosts.set(slug, blogPost);
@@ -173,77 +219,23 @@ class ContentLoader {
     }
   }
 
-  // Content validation
-  private validateTour(tour: any): boolean {
-    const requiredFields = ['id', 'slug', 'title', 'description', 'duration', 'basePrice'];
-    
-    for (const field of requiredFields) {
-      if (!tour[field]) {
-        console.warn(`Tour missing required field: ${field}`);
-        return false;
-      }
-    }
-
-    // Validate multilingual content
-    const locales: Locale[] = ['en', 'de', 'fr'];
-    for (const locale of locales) {
-      if (!tour.title[locale] || !tour.description[locale]) {
-        console.warn(`Tour missing ${locale} translation`);
-        return false;
-      }
+  // Content validation against the shared tour schema; problems are logged per field
+  private validateTour(tour: unknown): tour is Tour {
+    const result = validateTour(tour);
+    if (!result.success) {
+      const id = (tour as { id?: string })?.id || 'unknown';
+      console.warn(`Skipping invalid tour ${id}:`, result.errors);
     }
-
-    return true;
+    return result.success;
   }
 
-  // Parse MDX frontmatter
-  private parseMDX(content: string): { frontmatter: any; content: string } {
-    const frontmatterRegex = /^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/;
-    const match = content.match(frontmatterRegex);
-
-    if (!match) {
-      return { frontmatter: {}, content };
-    }
-
-    const [, frontmatterStr, mdxContent] = match;
-    
-    // Simple YAML parsing for frontmatter
-    const frontmatter: any = {};
-    const lines = frontmatterStr.split('\n');
-    let currentKey = '';
-    let currentObject: any = null;
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-
-      if (trimmed.endsWith(':')) {
-        currentKey = trimmed.slice(0, -1);
-        if (currentKey.includes(' ')) {
-          // Handle nested objects like title: or excerpt:
-          frontmatter[currentKey] = {};
-          currentObject = frontmatter[currentKey];
-        } else {
-          currentObject = null;
-        }
-      } else if (currentObject && trimmed.includes(':')) {
-        const [key, ...valueParts] = trimmed.split(':');
-        const value = valueParts.join(':').trim().replace(/^["']|["']$/g, '');
-        currentObject[key.trim()] = value;
-      } else if (trimmed.includes(':')) {
-        const [key, ...valueParts] = trimmed.split(':');
-        const value = valueParts.join(':').trim().replace(/^["']|["']$/g, '');
-        
-        if (value.startsWith('[') && value.endsWith(']')) {
-          // Handle arrays
-          frontmatter[key.trim()] = value.slice(1, -1).split(',').map(v => v.trim().replace(/^["']|["']$/g, ''));
-        } else {
-          frontmatter[key.trim()] = value;
-        }
-      }
+  private async readOptionalFile(filePath: string): Promise<string> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return '';
     }
-
-    return { frontmatter, content: mdxContent };
   }
 
   // Get content statistics
@@ -257,11 +249,12 @@ class ContentLoader {
     const blogPosts = await this.loadBlogPosts();
     const reviews = await this.loadReviews();
 
-    const translations = {
-      en: tours.length + blogPosts.length,
-      de: tours.filter(t => t.title.de).length + blogPosts.filter(b => b.title.de).length,
-      fr: tours.filter(t => t.title.fr).length + blogPosts.filter(b => b.title.fr).length,
-    };
+    const translations = Object.fromEntries(
+      LOCALES.map(locale => [
+        locale,
+        tours.filter(t => t.title[locale]).length + blogPosts.filter(b => b.title[locale]).length,
+      ])
+    ) as { [key in Locale]: number };
 
     return {
       tours: tours.length,
@@ -301,6 +294,7 @@ class ContentLoader {
   clearCache(): void {
     this.cache = {
       tours: new Map(),
+      toursComplete: false,
       blogPosts: new Map(),
       reviews: new Map(),
       lastUpdated: new Date(),
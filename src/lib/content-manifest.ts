@@ -0,0 +1,110 @@
+// Content manifest
+// Keeps the per-item entries in content/content-manifest.json in step with admin edits
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { TranslationStatus } from '@/lib/blog-translations';
+import type { BlogStatus } from '@/lib/blog-workflow';
+
+export interface ManifestTourItem {
+  id: string;
+  slug: string;
+  status: 'published' | 'draft';
+  lastModified: string;
+  translations: Record<string, TranslationStatus>;
+  seoOptimized: boolean;
+  images: number;
+  reviews: number;
+}
+
+export interface ManifestBlogItem {
+  slug: string;
+  status: BlogStatus;
+  category: string;
+  lastModified: string;
+  translations: Record<string, TranslationStatus>;
+  seoOptimized: boolean;
+  wordCount: number;
+  readingTime: number;
+}
+
+interface ManifestSections {
+  tours: ManifestTourItem;
+  blog: ManifestBlogItem;
+}
+
+type ManifestSectionName = keyof ManifestSections;
+
+// Only the tour and blog sections are touched; everything else is written back unchanged
+export interface ContentManifest {
+  lastUpdated?: string;
+  content: { [S in ManifestSectionName]: { total: number; published: number; items: ManifestSections[S][] } } & {
+    [section: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export const getContentPath = () => process.env.CONTENT_PATH || path.join(process.cwd(), 'content');
+
+const manifestPath = () => path.join(getContentPath(), 'content-manifest.json');
+
+// Tours are keyed by id, blog posts by slug
+const itemKey = (item: ManifestTourItem | ManifestBlogItem) => 'id' in item ? item.id : item.slug;
+
+// Per-language completion shown under translation.status, e.g. { de: { blog: '60%' } }
+function updateTranslationProgress(
+  manifest: ContentManifest,
+  section: ManifestSectionName,
+  items: Array<ManifestTourItem | ManifestBlogItem>
+): void {
+  const status = (manifest.translation as { status?: Record<string, Record<string, string>> } | undefined)?.status;
+  if (!status || items.length === 0) return;
+
+  for (const [locale, sections] of Object.entries(status)) {
+    const complete = items.filter(item => item.translations[locale] === 'complete').length;
+    sections[section] = `${Math.round((complete / items.length) * 100)}%`;
+  }
+}
+
+export async function readContentManifest(): Promise<ContentManifest> {
+  let manifest: Partial<ContentManifest>;
+  try {
+    manifest = JSON.parse(await fs.readFile(manifestPath(), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    manifest = {};
+  }
+
+  const content = manifest.content || ({} as ContentManifest['content']);
+  content.tours ??= { total: 0, published: 0, items: [] };
+  content.blog ??= { total: 0, published: 0, items: [] };
+  return { ...manifest, content };
+}
+
+// Insert or replace one item, or remove it when item is null, and recount the section
+export async function updateManifestItem<S extends ManifestSectionName>(
+  section: S,
+  key: string,
+  item: ManifestSections[S] | null,
+  savedAt = new Date().toISOString()
+): Promise<void> {
+  const manifest = await readContentManifest();
+  const current = manifest.content[section].items as ManifestSections[S][];
+  const exists = current.some(i => itemKey(i) === key);
+
+  const items = !item
+    ? current.filter(i => itemKey(i) !== key)
+    : exists
+      ? current.map(i => itemKey(i) === key ? item : i)
+      : [...current, item];
+
+  manifest.content[section] = {
+    total: items.length,
+    published: items.filter(i => i.status === 'published').length,
+    items,
+  } as ContentManifest['content'][S];
+  manifest.lastUpdated = savedAt;
+  updateTranslationProgress(manifest, section, items);
+
+  await fs.writeFile(manifestPath(), JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+}
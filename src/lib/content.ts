@@ -1,6 +1,6 @@
-import { routing } from '@/i18n/routing';
+import type { Locale } from '@/lib/i18n';
 
-export type Locale = (typeof routing.locales)[number];
+export type { Locale };
 
 export interface LocalizedContent {
   [key: string]: string | LocalizedContent;
@@ -49,11 +49,13 @@ export const sampleTours: Tour[] = [
       en: 'Prague Castle & Lesser Town',
       de: 'Prager Burg & Kleinseite',
       fr: 'Château de Prague & Petite Ville',
+      cs: 'Pražský hrad a Malá Strana',
     },
     description: {
       en: 'Explore the magnificent Prague Castle complex and discover the charming Lesser Town with its baroque architecture and hidden courtyards.',
       de: 'Erkunden Sie die prächtige Prager Burg und entdecken Sie die charmante Kleinseite mit ihrer barocken Architektur und versteckten Innenhöfen.',
       fr: 'Explorez le magnifique complexe du château de Prague et découvrez la charmante Petite Ville avec son architecture baroque et ses cours cachées.',
+      cs: 'Prozkoumejte velkolepý areál Pražského hradu a objevte okouzlující Malou Stranu s barokní architekturou a skrytými dvorky.',
     },
     highlights: {
       en: [
@@ -77,6 +79,13 @@ export const sampleTours: Tour[] = [
         'Place de la Petite Ville',
         'Île Kampa',
       ],
+      cs: [
+        'Katedrála svatého Víta',
+        'Starý královský palác',
+        'Zlatá ulička',
+        'Malostranské náměstí',
+        'Kampa',
+      ],
     },
     duration: 180,
     maxGroupSize: 12,
@@ -92,11 +101,13 @@ export const sampleTours: Tour[] = [
       en: 'Old Town & Jewish Quarter',
       de: 'Altstadt & Jüdisches Viertel',
       fr: 'Vieille Ville & Quartier Juif',
+      cs: 'Staré Město a Židovské Město',
     },
     description: {
       en: 'Walk through medieval streets and discover the rich Jewish heritage of Prague in this comprehensive tour of the historic center.',
       de: 'Wandeln Sie durch mittelalterliche Straßen und entdecken Sie das reiche jüdische Erbe Prags bei dieser umfassenden Tour durch das historische Zentrum.',
       fr: 'Promenez-vous dans les rues médiévales et découvrez le riche patrimoine juif de Prague lors de cette visite complète du centre historique.',
+      cs: 'Projděte se středověkými uličkami a objevte bohaté židovské dědictví Prahy na této ucelené prohlídce historického centra.',
     },
     highlights: {
       en: [
@@ -120,6 +131,13 @@ export const sampleTours: Tour[] = [
         'Ancien Cimetière Juif',
         'Synagogues',
       ],
+      cs: [
+        'Staroměstské náměstí',
+        'Orloj',
+        'Židovské muzeum',
+        'Starý židovský hřbitov',
+        'Synagogy',
+      ],
     },
     duration: 150,
     maxGroupSize: 15,
@@ -138,16 +156,19 @@ export const sampleBlogPosts: BlogPost[] = [
       en: 'The Best Viewpoints in Prague',
       de: 'Die besten Aussichtspunkte in Prag',
       fr: 'Les meilleurs points de vue à Prague',
+      cs: 'Nejkrásnější vyhlídky v Praze',
     },
     content: {
       en: 'Prague offers stunning panoramic views from various elevated locations...',
       de: 'Prag bietet atemberaubende Panoramablicke von verschiedenen erhöhten Standorten...',
       fr: 'Prague offre des vues panoramiques époustouflantes depuis divers emplacements surélevés...',
+      cs: 'Praha nabízí úchvatné panoramatické výhledy z mnoha vyvýšených míst...',
     },
     excerpt: {
       en: 'Discover the most breathtaking viewpoints in Prague for perfect photos.',
       de: 'Entdecken Sie die atemberaubendsten Aussichtspunkte in Prag für perfekte Fotos.',
       fr: 'Découvrez les points de vue les plus époustouflants de Prague pour des photos parfaites.',
+      cs: 'Objevte nejúchvatnější vyhlídky v Praze pro dokonalé fotografie.',
     },
     publishedAt: new Date('2024-01-15'),
     category: 'Photography',
@@ -0,0 +1,270 @@
+// Outbound email queue
+// Messages are persisted before delivery so a failing mail server never fails the request that sent them
+
+import { getJsonStore } from '@/lib/json-store';
+import { getBookingRepository, BookingEmailStatus } from '@/lib/booking-store';
+import { getEmailTransport, OutgoingEmail, PermanentEmailError } from '@/lib/email-transport';
+
+export const OUTBOX_CONFIG = {
+  maxAttempts: 6,
+  retryBaseMs: 60 * 1000, // doubled after every failed attempt
+  lockMs: 5 * 60 * 1000, // a crashed delivery frees its message after this
+  batchSize: 50,
+  retentionDays: 90,
+};
+
+export type OutboxStatus = BookingEmailStatus | 'sending';
+
+export interface OutboxEmail extends OutgoingEmail {
+  id: string;
+  template: string; // what kind of email this is, for the delivery log
+  bookingId?: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lockedUntil?: string;
+  messageId?: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+  bouncedAt?: string;
+}
+
+export interface OutboxRunSummary {
+  processed: number;
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+const outboxStore = () =>
+  getJsonStore<{ emails: OutboxEmail[] }>(
+    process.env.EMAIL_OUTBOX_FILE || 'email-outbox.json',
+    () => ({ emails: [] })
+  );
+
+// Mirror the delivery state onto the booking it belongs to
+async function syncBooking(email: OutboxEmail): Promise<void> {
+  if (!email.bookingId || email.status === 'sending') return;
+
+  try {
+    await getBookingRepository().recordEmail(email.bookingId, {
+      emailId: email.id,
+      template: email.template,
+      to: email.to,
+      status: email.status,
+      error: email.lastError,
+      updatedAt: email.updatedAt,
+    });
+  } catch (error) {
+    console.error(`Failed to record email ${email.id} on booking ${email.bookingId}:`, error);
+  }
+}
+
+// Claim a message for delivery unless another run already holds it
+async function claim(id: string, now: Date): Promise<OutboxEmail | null> {
+  const timestamp = now.toISOString();
+
+  return outboxStore().update(data => {
+    const email = data.emails.find(entry => entry.id === id);
+    const claimable = email && (
+      email.status === 'queued' ||
+      (email.status === 'sending' && (email.lockedUntil || '') <= timestamp)
+    );
+    if (!email || !claimable) return null;
+
+    email.status = 'sending';
+    email.attempts++;
+    email.lockedUntil = new Date(now.getTime() + OUTBOX_CONFIG.lockMs).toISOString();
+    email.updatedAt = timestamp;
+    return { ...email };
+  });
+}
+
+// Make one delivery attempt and record the outcome. Never throws.
+async function deliver(id: string, now: Date = new Date()): Promise<OutboxEmail | null> {
+  const claimed = await claim(id, now);
+  if (!claimed) return null;
+
+  let messageId: string | undefined;
+  let error: unknown;
+  try {
+    ({ messageId } = await getEmailTransport().send({
+      from: claimed.from,
+      to: claimed.to,
+      replyTo: claimed.replyTo,
+      subject: claimed.subject,
+      html: claimed.html,
+      text: claimed.text,
+    }));
+  } catch (sendError) {
+    error = sendError;
+    console.error(`Email ${id} delivery failed (attempt ${claimed.attempts}):`, sendError);
+  }
+
+  try {
+    const email = await outboxStore().update(data => {
+      const entry = data.emails.find(e => e.id === id);
+      if (!entry) return null;
+
+      const timestamp = new Date().toISOString();
+      entry.lockedUntil = undefined;
+      entry.updatedAt = timestamp;
+
+      if (!error) {
+        entry.status = 'sent';
+        entry.messageId = messageId;
+        entry.sentAt = timestamp;
+        entry.lastError = undefined;
+      } else {
+        entry.lastError = error instanceof Error ? error.message : String(error);
+
+        if (error instanceof PermanentEmailError) {
+          entry.status = 'bounced';
+          entry.bouncedAt = timestamp;
+        } else if (entry.attempts < OUTBOX_CONFIG.maxAttempts) {
+          entry.status = 'queued';
+          entry.nextAttemptAt = new Date(
+            now.getTime() + OUTBOX_CONFIG.retryBaseMs * 2 ** (entry.attempts - 1)
+          ).toISOString();
+        } else {
+          entry.status = 'failed';
+        }
+      }
+
+      return { ...entry };
+    });
+
+    if (email) {
+      await syncBooking(email);
+    }
+    return email;
+  } catch (storeError) {
+    console.error(`Failed to record delivery of email ${id}:`, storeError);
+    return null;
+  }
+}
+
+// Deliveries started by enqueueEmail that have not finished yet
+const inFlight = new Set<Promise<unknown>>();
+
+// Persist a message and start delivering it without waiting, so a slow mail server never holds up
+// the request. Failed or interrupted deliveries stay queued for the worker.
+export async function enqueueEmail(
+  email: OutgoingEmail,
+  options: { template: string; bookingId?: string }
+): Promise<OutboxEmail> {
+  const timestamp = new Date().toISOString();
+  const queued: OutboxEmail = {
+    ...email,
+    id: `em_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    template: options.template,
+    bookingId: options.bookingId,
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: timestamp,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+
+  await outboxStore().update(data => {
+    data.emails.push(queued);
+  });
+  await syncBooking(queued);
+
+  const delivery = deliver(queued.id)
+    .catch(error => console.error(`Email ${queued.id} delivery failed:`, error))
+    .finally(() => inFlight.delete(delivery));
+  inFlight.add(delivery);
+
+  return queued;
+}
+
+// Wait for the deliveries enqueueEmail started
+export async function waitForDeliveries(): Promise<void> {
+  while (inFlight.size > 0) {
+    await Promise.all(inFlight);
+  }
+}
+
+// Deliver every queued message that is due, retrying failures with exponential backoff
+export async function processOutbox(now: Date = new Date()): Promise<OutboxRunSummary> {
+  const timestamp = now.toISOString();
+  const cutoff = new Date(now.getTime() - OUTBOX_CONFIG.retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const dueIds = await outboxStore().update(data => {
+    data.emails = data.emails.filter(email =>
+      email.status === 'queued' || email.status === 'sending' || email.updatedAt >= cutoff
+    );
+
+    return data.emails
+      .filter(email =>
+        (email.status === 'queued' && email.nextAttemptAt <= timestamp) ||
+        (email.status === 'sending' && (email.lockedUntil || '') <= timestamp)
+      )
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))
+      .slice(0, OUTBOX_CONFIG.batchSize)
+      .map(email => email.id);
+  });
+
+  const summary: OutboxRunSummary = { processed: 0, sent: 0, retried: 0, failed: 0 };
+
+  for (const id of dueIds) {
+    const email = await deliver(id, now);
+    if (!email) continue;
+
+    summary.processed++;
+    if (email.status === 'sent') summary.sent++;
+    else if (email.status === 'queued') summary.retried++;
+    else summary.failed++;
+  }
+
+  return summary;
+}
+
+// Record a bounce reported by the mail provider after the message was accepted
+export async function recordEmailBounce(messageId: string, reason: string): Promise<OutboxEmail | null> {
+  const email = await outboxStore().update(data => {
+    const entry = data.emails.find(e => e.messageId === messageId);
+    if (!entry) return null;
+
+    const timestamp = new Date().toISOString();
+    entry.status = 'bounced';
+    entry.lastError = reason;
+    entry.bouncedAt = timestamp;
+    entry.updatedAt = timestamp;
+    return { ...entry };
+  });
+
+  if (email) {
+    await syncBooking(email);
+  }
+  return email;
+}
+
+// Send a failed or bounced message again, e.g. after the address was corrected
+export async function retryEmail(id: string): Promise<OutboxEmail | null> {
+  const found = await outboxStore().update(data => {
+    const entry = data.emails.find(e => e.id === id);
+    if (!entry || entry.status === 'sent' || entry.status === 'sending') return false;
+
+    entry.status = 'queued';
+    entry.attempts = 0;
+    entry.nextAttemptAt = new Date().toISOString();
+    entry.updatedAt = entry.nextAttemptAt;
+    return true;
+  });
+
+  return found ? deliver(id) : null;
+}
+
+export async function getOutboxEmails(
+  filter: { status?: OutboxStatus; bookingId?: string } = {}
+): Promise<OutboxEmail[]> {
+  const data = await outboxStore().read();
+  return data.emails
+    .filter(email => !filter.status || email.status === filter.status)
+    .filter(email => !filter.bookingId || email.bookingId === filter.bookingId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -1,8 +1,20 @@
 // Email service for booking confirmations and notifications
-// Handles automated email sending with templates
+// Customer emails are rendered from the localized templates in email-templates and sent through the outbox
 
-import nodemailer from 'nodemailer';
-import { Booking } from '@/types';
+import { Booking, Locale } from '@/types';
+import type { StoredBooking } from '@/lib/booking-store';
+import type { Inquiry } from '@/lib/inquiries';
+import {
+  renderEmail,
+  renderInquiryAcknowledgement,
+  getInquiryReplySubject,
+  getEmailLocale,
+  escapeHtml,
+  EmailBooking,
+  EmailTemplateData,
+  EmailTemplateName,
+} from '@/lib/email-templates';
+import { enqueueEmail } from '@/lib/email-outbox';
 
 interface PaymentDetails {
   method: 'stripe' | 'paypal';
@@ -16,194 +28,278 @@ interface BookingConfirmationData {
   booking: Booking;
   paymentDetails: PaymentDetails;
   customerEmail: string;
+  confirmationCode?: string;
+  locale?: Locale;
+  bookingId?: string; // local booking, for the delivery log
 }
 
-// Create email transporter
-const createTransporter = () => {
-  if (process.env.NODE_ENV === 'development') {
-    // Use Ethereal for development testing
-    return nodemailer.createTransporter({
-      host: 'smtp.ethereal.email',
-      port: 587,
-      auth: {
-        user: process.env.ETHEREAL_USER,
-        pass: process.env.ETHEREAL_PASS,
-      },
-    });
-  }
-
-  // Production email configuration
-  return nodemailer.createTransporter({
-    host: process.env.SMTP_HOST,
-    port: parseInt(process.env.SMTP_PORT || '587'),
-    secure: process.env.SMTP_SECURE === 'true',
-    auth: {
-      user: process.env.SMTP_USER,
-      pass: process.env.SMTP_PASS,
+// Provider bookings carry the tour slot as date and start time strings
+type ProviderBooking = Booking & { date: string; startTime: string };
+
+const toEmailBooking = (booking: StoredBooking): EmailBooking => ({
+  confirmationCode: booking.confirmationCode,
+  tourId: booking.tourId,
+  date: booking.date,
+  startTime: booking.startTime,
+  groupSize: booking.groupSize,
+  firstName: booking.customerInfo.firstName,
+});
+
+// Render a customer template in their language and queue it
+async function sendTemplatedEmail<T extends EmailTemplateName>(
+  to: string,
+  template: T,
+  locale: string | undefined,
+  data: EmailTemplateData[T],
+  bookingId?: string
+): Promise<void> {
+  const email = renderEmail(template, getEmailLocale(locale), data);
+
+  await enqueueEmail({
+    from: {
+      name: 'Filip Kareta - Prague Tours',
+      address: process.env.FROM_EMAIL || 'noreply@guidefilip-prague.com',
     },
-  });
-};
-
-// Generate booking confirmation email HTML
-const generateConfirmationEmailHTML = (data: BookingConfirmationData): string => {
-  const { booking, paymentDetails } = data;
-  const tourDate = new Date(booking.date).toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
-
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <title>Booking Confirmation - Filip Kareta Prague Tours</title>
-      <style>
-        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-        .header { background: #8B5CF6; color: white; padding: 20px; text-align: center; }
-        .content { padding: 20px; background: #f9f9f9; }
-        .booking-details { background: white; padding: 15px; margin: 15px 0; border-radius: 5px; }
-        .footer { text-align: center; padding: 20px; font-size: 12px; color: #666; }
-        .cta-button { background: #8B5CF6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block; margin: 10px 0; }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        <div class="header">
-          <h1>Booking Confirmed!</h1>
-          <p>Your Prague tour with Filip is all set</p>
-        </div>
-        
-        <div class="content">
-          <h2>Hello ${booking.customerInfo.firstName}!</h2>
-          <p>Thank you for booking your Prague tour with me. I'm excited to share the stories and secrets of this beautiful city with you!</p>
-          
-          <div class="booking-details">
-            <h3>Your Tour Details</h3>
-            <p><strong>Tour:</strong> ${booking.tourId.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}</p>
-            <p><strong>Date:</strong> ${tourDate}</p>
-            <p><strong>Time:</strong> ${booking.startTime}</p>
-            <p><strong>Group Size:</strong> ${booking.groupSize} ${booking.groupSize === 1 ? 'person' : 'people'}</p>
-            <p><strong>Total Price:</strong> €${paymentDetails.amount.toFixed(2)}</p>
-            <p><strong>Confirmation Code:</strong> ${booking.id}</p>
-          </div>
-
-          <div class="booking-details">
-            <h3>Payment Information</h3>
-            <p><strong>Payment Method:</strong> ${paymentDetails.method === 'stripe' ? 'Credit/Debit Card' : 'PayPal'}</p>
-            <p><strong>Transaction ID:</strong> ${paymentDetails.transactionId}</p>
-            ${paymentDetails.receiptUrl ? `<p><a href="${paymentDetails.receiptUrl}" class="cta-button">View Receipt</a></p>` : ''}
-          </div>
-
-          <div class="booking-details">
-            <h3>What's Next?</h3>
-            <p>• I'll send you a reminder email 24 hours before your tour</p>
-            <p>• Meet me at the designated starting point (details will be in your reminder)</p>
-            <p>• Bring comfortable walking shoes and a camera for amazing photos!</p>
-            <p>• Check the weather forecast and dress accordingly</p>
-          </div>
-
-          <div class="booking-details">
-            <h3>Need to Make Changes?</h3>
-            <p>If you need to reschedule or cancel your tour, please contact me at least 24 hours in advance:</p>
-            <p><strong>Email:</strong> filip@guidefilip-prague.com</p>
-            <p><strong>Phone:</strong> +420 123 456 789</p>
-            <p><strong>WhatsApp:</strong> Available for quick questions</p>
-          </div>
-
-          <p>Looking forward to exploring Prague with you!</p>
-          <p>Best regards,<br>Filip Kareta<br>Your Prague Storytelling Guide</p>
-        </div>
-        
-        <div class="footer">
-          <p>Filip Kareta Prague Tours | Prague, Czech Republic</p>
-          <p>This email was sent regarding your booking confirmation ${booking.id}</p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
-};
+    to,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+  }, { template, bookingId });
+}
 
 // Send booking confirmation email
 export async function sendBookingConfirmationEmail(data: BookingConfirmationData): Promise<void> {
-  const transporter = createTransporter();
-  
+  const booking = data.booking as ProviderBooking;
+
+  await sendTemplatedEmail(data.customerEmail, 'booking-confirmation', data.locale, {
+    booking: {
+      confirmationCode: data.confirmationCode || booking.confirmationCode || booking.id,
+      tourId: booking.tourId,
+      date: booking.date,
+      startTime: booking.startTime,
+      groupSize: booking.groupSize,
+      firstName: booking.customerInfo.firstName,
+    },
+    payment: data.paymentDetails,
+  }, data.bookingId);
+}
+
+// Send booking reminder email (24 hours before tour)
+export async function sendBookingReminderEmail(booking: StoredBooking): Promise<void> {
+  await sendTemplatedEmail(booking.customerInfo.email, 'booking-reminder', booking.locale, {
+    booking: toEmailBooking(booking),
+  }, booking.id);
+}
+
+// Send the morning-of message with the meeting point
+export async function sendTourDayEmail(booking: StoredBooking): Promise<void> {
+  await sendTemplatedEmail(booking.customerInfo.email, 'tour-day', booking.locale, {
+    booking: toEmailBooking(booking),
+  }, booking.id);
+}
+
+// Confirm a cancellation and say whether a refund is coming
+export async function sendBookingCancellationEmail(
+  booking: StoredBooking,
+  refundAmount: number
+): Promise<void> {
+  await sendTemplatedEmail(booking.customerInfo.email, 'booking-cancellation', booking.locale, {
+    booking: toEmailBooking(booking),
+    refundAmount,
+    currency: booking.payment?.currency || booking.currency,
+  }, booking.id);
+}
+
+interface RefundConfirmationData {
+  booking: StoredBooking;
+  amount: number;
+  currency: string;
+  method: 'stripe' | 'paypal';
+  estimatedArrival?: string;
+}
+
+// Send refund confirmation email
+export async function sendRefundConfirmationEmail(data: RefundConfirmationData): Promise<void> {
+  await sendTemplatedEmail(data.booking.customerInfo.email, 'refund-confirmation', data.booking.locale, {
+    booking: toEmailBooking(data.booking),
+    amount: data.amount,
+    currency: data.currency,
+    method: data.method,
+    estimatedArrival: data.estimatedArrival,
+  }, data.booking.id);
+}
+
+// Send the new date and time after a reschedule
+export async function sendBookingRescheduledEmail(
+  booking: StoredBooking,
+  previous: { date: string; startTime: string }
+): Promise<void> {
+  await sendTemplatedEmail(booking.customerInfo.email, 'booking-rescheduled', booking.locale, {
+    booking: toEmailBooking(booking),
+    previousDate: previous.date,
+    previousStartTime: previous.startTime,
+  }, booking.id);
+}
+
+// Ask for a review once the tour is over
+export async function sendReviewRequestEmail(booking: StoredBooking, reviewUrl: string): Promise<void> {
+  await sendTemplatedEmail(booking.customerInfo.email, 'review-request', booking.locale, {
+    booking: toEmailBooking(booking),
+    reviewUrl,
+  }, booking.id);
+}
+
+interface BookingFailureData {
+  customerEmail: string;
+  locale?: Locale;
+  booking: EmailTemplateData['booking-failure']['booking'];
+  amount: number;
+  currency: string;
+  method: 'stripe' | 'paypal';
+  refunded: boolean;
+}
+
+// Tell the customer their payment went through but the booking couldn't be made
+export async function sendBookingFailureEmail(data: BookingFailureData): Promise<void> {
+  const { customerEmail, locale, ...templateData } = data;
+  await sendTemplatedEmail(customerEmail, 'booking-failure', locale, templateData);
+}
+
+interface DisputeAlertData {
+  confirmationCode?: string;
+  customerName?: string;
+  tourId?: string;
+  date?: string;
+  paymentId: string;
+  disputeId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  evidenceDueBy?: string;
+}
+
+// Alert the guide that a customer's bank opened a chargeback
+export async function sendDisputeAlertEmail(data: DisputeAlertData): Promise<void> {
+  const amount = `${data.currency.toUpperCase()} ${data.amount.toFixed(2)}`;
+  const booking = data.confirmationCode
+    ? `${data.confirmationCode} - ${data.customerName}, ${data.tourId} on ${data.date}`
+    : 'No matching booking found';
+  const deadline = data.evidenceDueBy
+    ? new Date(data.evidenceDueBy).toLocaleString('en-US')
+    : 'See the Stripe dashboard';
+
   const mailOptions = {
     from: {
-      name: 'Filip Kareta - Prague Tours',
+      name: 'Prague Tours Bookings',
       address: process.env.FROM_EMAIL || 'noreply@guidefilip-prague.com',
     },
-    to: data.customerEmail,
-    subject: `Booking Confirmed: Your Prague Tour on ${new Date(data.booking.date).toLocaleDateString()}`,
-    html: generateConfirmationEmailHTML(data),
+    to: process.env.ADMIN_EMAIL || 'filip@guidefilip-prague.com',
+    subject: `Payment dispute opened: ${amount}${data.confirmationCode ? ` (${data.confirmationCode})` : ''}`,
+    html: `
+      <h2>Payment Dispute Opened</h2>
+      <p>A customer's bank has disputed a card payment. Respond with evidence in Stripe before the deadline.</p>
+      <ul>
+        <li>Booking: ${escapeHtml(booking)}</li>
+        <li>Amount: ${escapeHtml(amount)}</li>
+        <li>Reason: ${escapeHtml(data.reason)}</li>
+        <li>Evidence due: ${escapeHtml(deadline)}</li>
+        <li>Payment: ${escapeHtml(data.paymentId)}</li>
+        <li>Dispute: ${escapeHtml(data.disputeId)}</li>
+      </ul>
+    `,
     text: `
-      Booking Confirmed!
-      
-      Hello ${data.booking.customerInfo.firstName},
-      
-      Your Prague tour booking has been confirmed:
-      
-      Tour: ${data.booking.tourId.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
-      Date: ${new Date(data.booking.date).toLocaleDateString()}
-      Time: ${data.booking.startTime}
-      Group Size: ${data.booking.groupSize} ${data.booking.groupSize === 1 ? 'person' : 'people'}
-      Total Price: €${data.paymentDetails.amount.toFixed(2)}
-      Confirmation Code: ${data.booking.id}
-      
-      Payment Method: ${data.paymentDetails.method === 'stripe' ? 'Credit/Debit Card' : 'PayPal'}
-      Transaction ID: ${data.paymentDetails.transactionId}
-      
-      Looking forward to exploring Prague with you!
-      
-      Best regards,
-      Filip Kareta
-      Your Prague Storytelling Guide
-      
-      Contact: filip@guidefilip-prague.com | +420 123 456 789
+      Payment Dispute Opened
+
+      A customer's bank has disputed a card payment. Respond with evidence in Stripe before the deadline.
+
+      Booking: ${booking}
+      Amount: ${amount}
+      Reason: ${data.reason}
+      Evidence due: ${deadline}
+      Payment: ${data.paymentId}
+      Dispute: ${data.disputeId}
     `,
   };
 
-  await transporter.sendMail(mailOptions);
+  await enqueueEmail(mailOptions, { template: 'dispute-alert' });
 }
 
-// Send booking reminder email (24 hours before tour)
-export async function sendBookingReminderEmail(booking: Booking): Promise<void> {
-  const transporter = createTransporter();
-  
-  const tourDate = new Date(booking.date).toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+// Let Filip know someone wrote through the contact form - replying goes straight to the visitor
+export async function sendInquiryNotificationEmail(inquiry: Inquiry): Promise<void> {
+  const details = [
+    `From: ${inquiry.name} <${inquiry.email}>`,
+    inquiry.phone && `Phone: ${inquiry.phone}`,
+    inquiry.tourId && `Tour: ${inquiry.tourId}`,
+    `Language: ${inquiry.locale}`,
+  ].filter(Boolean) as string[];
 
   const mailOptions = {
     from: {
-      name: 'Filip Kareta - Prague Tours',
+      name: 'Prague Tours Website',
       address: process.env.FROM_EMAIL || 'noreply@guidefilip-prague.com',
     },
-    to: booking.customerInfo.email,
-    subject: `Tomorrow's Tour Reminder: ${tourDate} at ${booking.startTime}`,
+    to: process.env.ADMIN_EMAIL || 'filip@guidefilip-prague.com',
+    replyTo: inquiry.email,
+    subject: `New inquiry from ${inquiry.name}`,
     html: `
-      <h2>Your Prague Tour is Tomorrow!</h2>
-      <p>Hello ${booking.customerInfo.firstName},</p>
-      <p>This is a friendly reminder that your Prague tour is scheduled for tomorrow:</p>
+      <h2>New Inquiry</h2>
       <ul>
-        <li><strong>Date:</strong> ${tourDate}</li>
-        <li><strong>Time:</strong> ${booking.startTime}</li>
-        <li><strong>Meeting Point:</strong> Old Town Square, by the Jan Hus Memorial</li>
-        <li><strong>Group Size:</strong> ${booking.groupSize} ${booking.groupSize === 1 ? 'person' : 'people'}</li>
+        ${details.map(line => `<li>${escapeHtml(line)}</li>`).join('')}
       </ul>
-      <p>Please arrive 10 minutes early. I'll be wearing a blue jacket and holding a small Prague flag.</p>
-      <p>Weather forecast: Check and dress accordingly!</p>
-      <p>See you tomorrow!</p>
+      <p>${escapeHtml(inquiry.message).replace(/\n/g, '<br>')}</p>
+    `,
+    text: `
+      New Inquiry
+
+      ${details.join('\n      ')}
+
+      ${inquiry.message}
+    `,
+  };
+
+  await enqueueEmail(mailOptions, { template: 'inquiry-notification' });
+}
+
+// Confirm receipt to the visitor in the language they wrote in. The message itself is left out,
+// so the form can't be used to send arbitrary text to any address
+export async function sendInquiryAcknowledgementEmail(inquiry: Inquiry): Promise<void> {
+  const email = renderInquiryAcknowledgement(inquiry.locale, inquiry.name);
+
+  await enqueueEmail({
+    from: {
+      name: 'Filip Kareta - Prague Tours',
+      address: process.env.FROM_EMAIL || 'noreply@guidefilip-prague.com',
+    },
+    to: inquiry.email,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+  }, { template: 'inquiry-acknowledgement' });
+}
+
+// Filip's answer from the admin inbox
+export async function sendInquiryReplyEmail(inquiry: Inquiry, reply: string): Promise<void> {
+  const mailOptions = {
+    from: {
+      name: 'Filip Kareta - Prague Tours',
+      address: process.env.FROM_EMAIL || 'noreply@guidefilip-prague.com',
+    },
+    to: inquiry.email,
+    replyTo: process.env.ADMIN_EMAIL || 'filip@guidefilip-prague.com',
+    subject: getInquiryReplySubject(inquiry.locale),
+    html: `
+      <p>${escapeHtml(reply).replace(/\n/g, '<br>')}</p>
       <p>Filip</p>
+      <blockquote>${escapeHtml(inquiry.message).replace(/\n/g, '<br>')}</blockquote>
+    `,
+    text: `
+      ${reply}
+
+      Filip
+
+      > ${inquiry.message.replace(/\n/g, '\n      > ')}
     `,
   };
 
-  await transporter.sendMail(mailOptions);
+  await enqueueEmail(mailOptions, { template: 'inquiry-reply' });
 }
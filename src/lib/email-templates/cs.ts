@@ -0,0 +1,171 @@
+// Czech email templates
+
+import type { EmailCopy } from './types';
+
+// Czech counts take one form for 1, another for 2-4 and a third from 5 up
+const plural = (count: number, one: string, few: string, many: string) =>
+  count === 1 ? one : count >= 2 && count <= 4 ? few : many;
+
+const hours = (count: number) => `${count} ${plural(count, 'hodinu', 'hodiny', 'hodin')}`;
+
+const cs: EmailCopy = {
+  intlLocale: 'cs-CZ',
+  greeting: firstName => `Dobrý den, ${firstName},`,
+  labels: {
+    bookingDetails: 'Podrobnosti o prohlídce',
+    tour: 'Prohlídka',
+    date: 'Datum',
+    time: 'Čas',
+    meetingPoint: 'Místo setkání',
+    groupSize: 'Velikost skupiny',
+    confirmationCode: 'Kód rezervace',
+  },
+  people: count => `${count} ${plural(count, 'osoba', 'osoby', 'osob')}`,
+  paymentMethod: method => (method === 'stripe' ? 'Platební karta' : 'PayPal'),
+  refundTier: ({ minHours, maxHours, refundPercent }) => {
+    const timeframe = maxHours === undefined
+      ? `${hours(minHours)} a více před prohlídkou`
+      : minHours === 0
+        ? `méně než ${hours(maxHours)} před prohlídkou`
+        : `${minHours}-${maxHours} hodin před prohlídkou`;
+
+    if (refundPercent === 100) return `Plná refundace při zrušení ${timeframe}`;
+    if (refundPercent > 0) return `Refundace ${refundPercent} % při zrušení ${timeframe}`;
+    return `Bez refundace při zrušení ${timeframe}`;
+  },
+  deposit: percent => `Záloha ve výši ${percent} % je nevratná`,
+  weatherRefund: percent => percent === 100
+    ? 'Plná refundace, pokud je prohlídka zrušena kvůli nepřízni počasí'
+    : `Refundace ${percent} %, pokud je prohlídka zrušena kvůli nepřízni počasí`,
+  signOff: ['S pozdravem', 'Filip Kareta', 'Váš pražský vypravěč'],
+  footer: code => `Filip Kareta Prague Tours | Praha, Česká republika${code ? ` | Rezervace ${code}` : ''}`,
+  inquiry: {
+    subject: 'Děkuji za vaši zprávu',
+    heading: 'Děkuji za vaši zprávu',
+    paragraphs: ['Děkuji, že jste se ozvali! Vaši zprávu jsem dostal a odpovím do 24 hodin.'],
+  },
+
+  templates: {
+    'booking-confirmation': ({ data, tour, date, formatMoney, cancellation, baseUrl, locale }) => ({
+      subject: `Rezervace potvrzena: ${tour.title}, ${date}`,
+      heading: 'Rezervace potvrzena!',
+      paragraphs: [
+        'Děkuji, že jste si prohlídku Prahy rezervovali u mě. Už se těším, až vám ukážu příběhy a tajemství tohoto krásného města!',
+      ],
+      showBookingDetails: true,
+      sections: [
+        {
+          title: 'Informace o platbě',
+          lines: [
+            `Zaplacená částka: ${formatMoney(data.payment.amount, data.payment.currency)}`,
+            `Způsob platby: ${cs.paymentMethod(data.payment.method)}`,
+            `ID transakce: ${data.payment.transactionId}`,
+          ],
+        },
+        {
+          title: 'Co dál?',
+          lines: [
+            'Den před prohlídkou vám pošlu připomínku',
+            'Vezměte si pohodlnou obuv a fotoaparát',
+            'Podívejte se na předpověď počasí a oblečte se podle ní',
+          ],
+        },
+        {
+          title: 'Potřebujete rezervaci změnit?',
+          lines: [
+            `Prohlídku si můžete sami přesunout nejpozději ${hours(cancellation.minimumNoticeHours)} předem: ${baseUrl}/${locale}/book/reschedule`,
+            ...cancellation.lines,
+            'S čímkoli dalším se ozvěte: filip@guidefilip-prague.com | +420 123 456 789',
+          ],
+        },
+      ],
+      action: data.payment.receiptUrl
+        ? { label: 'Zobrazit doklad', url: data.payment.receiptUrl }
+        : undefined,
+    }),
+
+    'booking-reminder': ({ data, date }) => ({
+      subject: `Připomínka: zítra máte prohlídku, ${date} v ${data.booking.startTime}`,
+      heading: 'Vaše prohlídka Prahy je zítra!',
+      paragraphs: [
+        'Jen krátká připomínka, že vaše prohlídka Prahy je zítra.',
+        'Přijďte prosím o 10 minut dříve. Poznáte mě podle modré bundy a malé pražské vlajky.',
+        'Podívejte se na předpověď počasí a oblečte se podle ní. Těším se na zítřek!',
+      ],
+      showBookingDetails: true,
+    }),
+
+    'tour-day': ({ data, tour }) => ({
+      subject: `Dnes v ${data.booking.startTime}: ${tour.title}`,
+      heading: 'Uvidíme se za chvíli!',
+      paragraphs: [
+        `Vaše prohlídka začíná dnes v ${data.booking.startTime}. Těším se na vás!`,
+        tour.meetingPoint
+          ? `Sraz: ${tour.meetingPoint}. Hledejte modrou bundu a malou pražskou vlajku.`
+          : 'Na místě setkání hledejte modrou bundu a malou pražskou vlajku.',
+        'Máte zpoždění nebo mě nemůžete najít? Zavolejte nebo napište na +420 123 456 789.',
+      ],
+      showBookingDetails: true,
+    }),
+
+    'booking-cancellation': ({ data, tour, date, formatMoney }) => ({
+      subject: `Rezervace zrušena: ${tour.title}, ${date}`,
+      heading: 'Vaše rezervace byla zrušena',
+      paragraphs: [
+        `Vaše rezervace ${data.booking.confirmationCode} na prohlídku ${tour.title} dne ${date} v ${data.booking.startTime} byla zrušena.`,
+        data.refundAmount > 0
+          ? `Refundace ve výši ${formatMoney(data.refundAmount, data.currency)} se zpracovává. Jakmile bude odeslána, pošlu vám zvláštní potvrzení.`
+          : 'Podle storno podmínek se na toto zrušení refundace nevztahuje.',
+        'Doufám, že vám Prahu ukážu jindy - jste vždy vítáni.',
+      ],
+    }),
+
+    'refund-confirmation': ({ data, date, formatMoney }) => ({
+      subject: `Refundace odeslána: ${formatMoney(data.amount, data.currency)}`,
+      heading: 'Vaše refundace je na cestě',
+      paragraphs: [
+        `Refundace ve výši ${formatMoney(data.amount, data.currency)} za rezervaci ${data.booking.confirmationCode} (prohlídka ${date}) byla odeslána ${data.method === 'stripe' ? 'na kartu, kterou jste platili' : 'na váš účet PayPal'}.`,
+        'V závislosti na vaší bance obvykle dorazí do 5-10 pracovních dnů.',
+        'Máte-li jakékoli dotazy, stačí odpovědět na tento e-mail.',
+      ],
+    }),
+
+    'booking-failure': ({ data, tour, date, formatMoney }) => {
+      const amount = formatMoney(data.amount, data.currency);
+      const destination = data.method === 'stripe' ? 'na kartu, kterou jste platili' : 'na váš účet PayPal';
+
+      return {
+        subject: `Rezervaci na ${date} se nepodařilo dokončit`,
+        heading: 'Vaši rezervaci se nepodařilo dokončit',
+        paragraphs: [
+          `Vaše platba proběhla, ale prohlídku ${tour.title} dne ${date} v ${data.booking.startTime} se mi nepodařilo zarezervovat. Omlouvám se za potíže.`,
+          data.refunded
+            ? `Vaše platba ve výši ${amount} byla v plné výši vrácena ${destination}. V závislosti na vaší bance obvykle dorazí do 5-10 pracovních dnů.`
+            : `Vaši platbu ve výši ${amount} vracím ${destination} a dám vám vědět, jakmile bude odeslána.`,
+          'Pokud se prohlídky chcete i tak zúčastnit, rezervujte si prosím znovu nebo odpovězte na tento e-mail a pomohu vám najít jiný termín.',
+        ],
+      };
+    },
+
+    'booking-rescheduled': ({ data, formatDate }) => ({
+      subject: `Rezervace změněna: ${data.booking.confirmationCode}`,
+      heading: 'Vaše prohlídka byla přesunuta',
+      paragraphs: [
+        `Vaše prohlídka plánovaná na ${formatDate(data.previousDate)} v ${data.previousStartTime} byla přesunuta. Nové podrobnosti:`,
+      ],
+      showBookingDetails: true,
+    }),
+
+    'review-request': ({ data, tour }) => ({
+      subject: `Jak se vám líbila prohlídka ${tour.title}?`,
+      heading: 'Děkuji, že jste přišli!',
+      paragraphs: [
+        `Doufám, že se vám prohlídka ${tour.title} líbila. Recenze cestovatelů, jako jste vy, pomáhají ostatním objevit autentickou Prahu.`,
+        'Našli byste dvě minuty a podělili se o svůj zážitek?',
+      ],
+      action: { label: 'Napsat recenzi', url: data.reviewUrl },
+    }),
+  },
+};
+
+export default cs;
@@ -0,0 +1,165 @@
+// German email templates
+
+import type { EmailCopy } from './types';
+
+const de: EmailCopy = {
+  intlLocale: 'de-DE',
+  greeting: firstName => `Hallo ${firstName},`,
+  labels: {
+    bookingDetails: 'Ihre Tourdetails',
+    tour: 'Tour',
+    date: 'Datum',
+    time: 'Uhrzeit',
+    meetingPoint: 'Treffpunkt',
+    groupSize: 'Gruppengröße',
+    confirmationCode: 'Buchungscode',
+  },
+  people: count => `${count} ${count === 1 ? 'Person' : 'Personen'}`,
+  paymentMethod: method => (method === 'stripe' ? 'Kredit-/Debitkarte' : 'PayPal'),
+  refundTier: ({ minHours, maxHours, refundPercent }) => {
+    const timeframe = maxHours === undefined
+      ? `${minHours} oder mehr Stunden vor der Tour`
+      : minHours === 0
+        ? `weniger als ${maxHours} Stunden vor der Tour`
+        : `${minHours}-${maxHours} Stunden vor der Tour`;
+
+    if (refundPercent === 100) return `Volle Erstattung bei Stornierung ${timeframe}`;
+    if (refundPercent > 0) return `${refundPercent}% Erstattung bei Stornierung ${timeframe}`;
+    return `Keine Erstattung bei Stornierung ${timeframe}`;
+  },
+  deposit: percent => `Eine Anzahlung von ${percent}% wird nicht erstattet`,
+  weatherRefund: percent => percent === 100
+    ? 'Volle Erstattung, wenn die Tour wegen Unwetter abgesagt wird'
+    : `${percent}% Erstattung, wenn die Tour wegen Unwetter abgesagt wird`,
+  signOff: ['Viele Grüße,', 'Filip Kareta', 'Ihr Prager Geschichtenerzähler'],
+  footer: code => `Filip Kareta Prague Tours | Prag, Tschechien${code ? ` | Buchung ${code}` : ''}`,
+  inquiry: {
+    subject: 'Vielen Dank für Ihre Nachricht',
+    heading: 'Danke für Ihre Nachricht',
+    paragraphs: ['Vielen Dank für Ihre Nachricht! Ich habe sie erhalten und antworte Ihnen innerhalb von 24 Stunden.'],
+  },
+
+  templates: {
+    'booking-confirmation': ({ data, tour, date, formatMoney, cancellation, baseUrl, locale }) => ({
+      subject: `Buchung bestätigt: ${tour.title} am ${date}`,
+      heading: 'Buchung bestätigt!',
+      paragraphs: [
+        'Vielen Dank für Ihre Buchung! Ich freue mich darauf, Ihnen die Geschichten und Geheimnisse dieser wunderschönen Stadt zu zeigen.',
+      ],
+      showBookingDetails: true,
+      sections: [
+        {
+          title: 'Zahlungsinformationen',
+          lines: [
+            `Bezahlt: ${formatMoney(data.payment.amount, data.payment.currency)}`,
+            `Zahlungsmethode: ${de.paymentMethod(data.payment.method)}`,
+            `Transaktions-ID: ${data.payment.transactionId}`,
+          ],
+        },
+        {
+          title: 'Wie geht es weiter?',
+          lines: [
+            'Ich schicke Ihnen 24 Stunden vor der Tour eine Erinnerung',
+            'Bringen Sie bequeme Schuhe und eine Kamera mit',
+            'Werfen Sie einen Blick auf die Wettervorhersage',
+          ],
+        },
+        {
+          title: 'Änderungen nötig?',
+          lines: [
+            `Sie können Ihre Tour bis ${cancellation.minimumNoticeHours} Stunden vorher selbst verschieben: ${baseUrl}/${locale}/book/reschedule`,
+            ...cancellation.lines,
+            'Für alles andere: filip@guidefilip-prague.com | +420 123 456 789',
+          ],
+        },
+      ],
+      action: data.payment.receiptUrl
+        ? { label: 'Beleg ansehen', url: data.payment.receiptUrl }
+        : undefined,
+    }),
+
+    'booking-reminder': ({ data, date }) => ({
+      subject: `Erinnerung an Ihre Tour morgen: ${date} um ${data.booking.startTime}`,
+      heading: 'Ihre Prag-Tour ist morgen!',
+      paragraphs: [
+        'Eine kurze Erinnerung: Ihre Prag-Tour findet morgen statt.',
+        'Bitte seien Sie 10 Minuten früher da. Ich trage eine blaue Jacke und halte eine kleine Prag-Flagge.',
+        'Schauen Sie auf die Wettervorhersage und ziehen Sie sich passend an. Bis morgen!',
+      ],
+      showBookingDetails: true,
+    }),
+
+    'tour-day': ({ data, tour }) => ({
+      subject: `Heute um ${data.booking.startTime}: ${tour.title}`,
+      heading: 'Bis heute!',
+      paragraphs: [
+        `Ihre Tour beginnt heute um ${data.booking.startTime}. Ich freue mich darauf, Sie kennenzulernen!`,
+        tour.meetingPoint
+          ? `Wir treffen uns hier: ${tour.meetingPoint}. Achten Sie auf die blaue Jacke und die kleine Prag-Flagge.`
+          : 'Achten Sie am Treffpunkt auf die blaue Jacke und die kleine Prag-Flagge.',
+        'Sie verspäten sich oder finden mich nicht? Rufen Sie an oder schreiben Sie an +420 123 456 789.',
+      ],
+      showBookingDetails: true,
+    }),
+
+    'booking-cancellation': ({ data, tour, date, formatMoney }) => ({
+      subject: `Buchung storniert: ${tour.title} am ${date}`,
+      heading: 'Ihre Buchung wurde storniert',
+      paragraphs: [
+        `Ihre Buchung ${data.booking.confirmationCode} für ${tour.title} am ${date} um ${data.booking.startTime} wurde storniert.`,
+        data.refundAmount > 0
+          ? `Eine Erstattung von ${formatMoney(data.refundAmount, data.currency)} ist unterwegs. Sobald sie bearbeitet ist, erhalten Sie eine separate Bestätigung.`
+          : 'Gemäß den Stornierungsbedingungen ist für diese Stornierung keine Erstattung möglich.',
+        'Ich hoffe, Ihnen Prag ein anderes Mal zeigen zu dürfen - Sie sind jederzeit willkommen.',
+      ],
+    }),
+
+    'refund-confirmation': ({ data, date, formatMoney }) => ({
+      subject: `Erstattung veranlasst: ${formatMoney(data.amount, data.currency)}`,
+      heading: 'Ihre Erstattung ist unterwegs',
+      paragraphs: [
+        `Ihre Erstattung von ${formatMoney(data.amount, data.currency)} für die Buchung ${data.booking.confirmationCode} (Tour am ${date}) wurde ${data.method === 'stripe' ? 'auf die verwendete Karte' : 'auf Ihr PayPal-Konto'} veranlasst.`,
+        'Je nach Bank dauert es in der Regel 5-10 Werktage, bis der Betrag ankommt.',
+        'Bei Fragen antworten Sie einfach auf diese E-Mail.',
+      ],
+    }),
+
+    'booking-failure': ({ data, tour, date, formatMoney }) => {
+      const amount = formatMoney(data.amount, data.currency);
+      const destination = data.method === 'stripe' ? 'auf die verwendete Karte' : 'auf Ihr PayPal-Konto';
+
+      return {
+        subject: `Ihre Buchung für den ${date} konnte nicht abgeschlossen werden`,
+        heading: 'Ihre Buchung konnte nicht abgeschlossen werden',
+        paragraphs: [
+          `Ihre Zahlung ist eingegangen, aber ich konnte ${tour.title} am ${date} um ${data.booking.startTime} nicht für Sie reservieren. Das tut mir leid.`,
+          data.refunded
+            ? `Ihre Zahlung von ${amount} wurde vollständig ${destination} erstattet. Je nach Bank dauert es in der Regel 5-10 Werktage, bis der Betrag ankommt.`
+            : `Ich erstatte Ihre Zahlung von ${amount} ${destination} und bestätige Ihnen, sobald die Erstattung veranlasst ist.`,
+          'Wenn Sie trotzdem an einer Tour teilnehmen möchten, buchen Sie gern erneut oder antworten Sie auf diese E-Mail - ich helfe Ihnen, einen Termin zu finden.',
+        ],
+      };
+    },
+
+    'booking-rescheduled': ({ data, formatDate }) => ({
+      subject: `Buchung geändert: ${data.booking.confirmationCode}`,
+      heading: 'Ihre Tour wurde verschoben',
+      paragraphs: [
+        `Ihre Tour wurde vom ${formatDate(data.previousDate)} um ${data.previousStartTime} verschoben. Hier sind die neuen Details:`,
+      ],
+      showBookingDetails: true,
+    }),
+
+    'review-request': ({ data, tour }) => ({
+      subject: `Wie hat Ihnen ${tour.title} gefallen?`,
+      heading: 'Danke, dass Sie dabei waren!',
+      paragraphs: [
+        `Ich hoffe, ${tour.title} hat Ihnen gefallen. Bewertungen von Gästen wie Ihnen helfen anderen Reisenden, ein authentisches Prag-Erlebnis zu finden.`,
+        'Hätten Sie zwei Minuten Zeit, um davon zu erzählen?',
+      ],
+      action: { label: 'Bewertung schreiben', url: data.reviewUrl },
+    }),
+  },
+};
+
+export default de;
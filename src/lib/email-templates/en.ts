@@ -0,0 +1,165 @@
+// English email templates
+
+import type { EmailCopy } from './types';
+
+const en: EmailCopy = {
+  intlLocale: 'en-US',
+  greeting: firstName => `Hello ${firstName},`,
+  labels: {
+    bookingDetails: 'Your Tour Details',
+    tour: 'Tour',
+    date: 'Date',
+    time: 'Time',
+    meetingPoint: 'Meeting Point',
+    groupSize: 'Group Size',
+    confirmationCode: 'Confirmation Code',
+  },
+  people: count => `${count} ${count === 1 ? 'person' : 'people'}`,
+  paymentMethod: method => (method === 'stripe' ? 'Credit/Debit Card' : 'PayPal'),
+  refundTier: ({ minHours, maxHours, refundPercent }) => {
+    const timeframe = maxHours === undefined
+      ? `${minHours}+ hours before the tour`
+      : minHours === 0
+        ? `less than ${maxHours} hours before the tour`
+        : `${minHours}-${maxHours} hours before the tour`;
+
+    if (refundPercent === 100) return `Full refund when you cancel ${timeframe}`;
+    if (refundPercent > 0) return `${refundPercent}% refund when you cancel ${timeframe}`;
+    return `No refund when you cancel ${timeframe}`;
+  },
+  deposit: percent => `A ${percent}% deposit is non-refundable`,
+  weatherRefund: percent => percent === 100
+    ? 'Full refund if the tour is called off for severe weather'
+    : `${percent}% refund if the tour is called off for severe weather`,
+  signOff: ['Best regards,', 'Filip Kareta', 'Your Prague Storytelling Guide'],
+  footer: code => `Filip Kareta Prague Tours | Prague, Czech Republic${code ? ` | Booking ${code}` : ''}`,
+  inquiry: {
+    subject: 'Thanks for your message',
+    heading: 'Thanks for Getting in Touch',
+    paragraphs: ["Thank you for getting in touch! I've received your message and will reply within 24 hours."],
+  },
+
+  templates: {
+    'booking-confirmation': ({ data, tour, date, formatMoney, cancellation, baseUrl, locale }) => ({
+      subject: `Booking Confirmed: ${tour.title} on ${date}`,
+      heading: 'Booking Confirmed!',
+      paragraphs: [
+        "Thank you for booking your Prague tour with me. I'm excited to share the stories and secrets of this beautiful city with you!",
+      ],
+      showBookingDetails: true,
+      sections: [
+        {
+          title: 'Payment Information',
+          lines: [
+            `Total paid: ${formatMoney(data.payment.amount, data.payment.currency)}`,
+            `Payment method: ${en.paymentMethod(data.payment.method)}`,
+            `Transaction ID: ${data.payment.transactionId}`,
+          ],
+        },
+        {
+          title: "What's Next?",
+          lines: [
+            "I'll send you a reminder email 24 hours before your tour",
+            'Bring comfortable walking shoes and a camera',
+            'Check the weather forecast and dress accordingly',
+          ],
+        },
+        {
+          title: 'Need to Make Changes?',
+          lines: [
+            `You can move your tour to another date yourself, up to ${cancellation.minimumNoticeHours} hours in advance: ${baseUrl}/${locale}/book/reschedule`,
+            ...cancellation.lines,
+            'For anything else: filip@guidefilip-prague.com | +420 123 456 789',
+          ],
+        },
+      ],
+      action: data.payment.receiptUrl
+        ? { label: 'View Receipt', url: data.payment.receiptUrl }
+        : undefined,
+    }),
+
+    'booking-reminder': ({ data, date }) => ({
+      subject: `Tomorrow's Tour Reminder: ${date} at ${data.booking.startTime}`,
+      heading: 'Your Prague Tour is Tomorrow!',
+      paragraphs: [
+        'This is a friendly reminder that your Prague tour is scheduled for tomorrow.',
+        "Please arrive 10 minutes early. I'll be wearing a blue jacket and holding a small Prague flag.",
+        'Check the weather forecast and dress accordingly. See you tomorrow!',
+      ],
+      showBookingDetails: true,
+    }),
+
+    'tour-day': ({ data, tour }) => ({
+      subject: `Today at ${data.booking.startTime}: ${tour.title}`,
+      heading: 'See You Today!',
+      paragraphs: [
+        `Your tour starts today at ${data.booking.startTime}. I'm looking forward to meeting you!`,
+        tour.meetingPoint
+          ? `Meet me at ${tour.meetingPoint}. Look for the blue jacket and the small Prague flag.`
+          : 'Look for the blue jacket and the small Prague flag at the meeting point.',
+        'Running late or can\'t find me? Call or message +420 123 456 789.',
+      ],
+      showBookingDetails: true,
+    }),
+
+    'booking-cancellation': ({ data, tour, date, formatMoney }) => ({
+      subject: `Booking Cancelled: ${tour.title} on ${date}`,
+      heading: 'Your Booking Has Been Cancelled',
+      paragraphs: [
+        `Your booking ${data.booking.confirmationCode} for ${tour.title} on ${date} at ${data.booking.startTime} has been cancelled.`,
+        data.refundAmount > 0
+          ? `A refund of ${formatMoney(data.refundAmount, data.currency)} is on its way. I'll send a separate confirmation once it has been processed.`
+          : 'Under the cancellation policy, this cancellation is not eligible for a refund.',
+        "I hope to show you Prague another time - you're always welcome to book again.",
+      ],
+    }),
+
+    'refund-confirmation': ({ data, date, formatMoney }) => ({
+      subject: `Refund Processed: ${formatMoney(data.amount, data.currency)}`,
+      heading: 'Your Refund is on its Way',
+      paragraphs: [
+        `Your refund of ${formatMoney(data.amount, data.currency)} for booking ${data.booking.confirmationCode} (tour on ${date}) has been issued to ${data.method === 'stripe' ? 'the card you paid with' : 'your PayPal account'}.`,
+        `It usually arrives within ${data.estimatedArrival || '5-10 business days'}, depending on your bank.`,
+        'If you have any questions, just reply to this email.',
+      ],
+    }),
+
+    'booking-failure': ({ data, tour, date, formatMoney }) => {
+      const amount = formatMoney(data.amount, data.currency);
+      const destination = data.method === 'stripe' ? 'the card you paid with' : 'your PayPal account';
+
+      return {
+        subject: `We couldn't complete your booking for ${date}`,
+        heading: 'Your Booking Could Not Be Completed',
+        paragraphs: [
+          `Your payment went through, but I couldn't reserve ${tour.title} on ${date} at ${data.booking.startTime}. I'm sorry for the trouble.`,
+          data.refunded
+            ? `Your payment of ${amount} has been refunded in full to ${destination}. It usually arrives within 5-10 business days.`
+            : `I'm refunding your payment of ${amount} to ${destination} and will confirm once it has gone through.`,
+          "If you'd still like to join a tour, please book again or reply to this email and I'll help you find a time.",
+        ],
+      };
+    },
+
+    'booking-rescheduled': ({ data, formatDate }) => ({
+      subject: `Booking Updated: ${data.booking.confirmationCode}`,
+      heading: 'Your Tour Has Been Moved',
+      paragraphs: [
+        `Your tour has been moved from ${formatDate(data.previousDate)} at ${data.previousStartTime}. Here are your new details:`,
+      ],
+      showBookingDetails: true,
+    }),
+
+    'review-request': ({ data, tour }) => ({
+      subject: `How was ${tour.title}?`,
+      heading: 'Thank You for Joining Me!',
+      paragraphs: [
+        `I hope you enjoyed ${tour.title}. Reviews from guests like you help other travelers find an authentic Prague experience.`,
+        'Would you take two minutes to share how it went?',
+      ],
+      action: { label: 'Write a Review', url: data.reviewUrl },
+    }),
+  },
+};
+
+export default en;
@@ -0,0 +1,165 @@
+// French email templates
+
+import type { EmailCopy } from './types';
+
+const fr: EmailCopy = {
+  intlLocale: 'fr-FR',
+  greeting: firstName => `Bonjour ${firstName},`,
+  labels: {
+    bookingDetails: 'Détails de votre visite',
+    tour: 'Visite',
+    date: 'Date',
+    time: 'Heure',
+    meetingPoint: 'Point de rendez-vous',
+    groupSize: 'Taille du groupe',
+    confirmationCode: 'Code de réservation',
+  },
+  people: count => `${count} ${count === 1 ? 'personne' : 'personnes'}`,
+  paymentMethod: method => (method === 'stripe' ? 'Carte bancaire' : 'PayPal'),
+  refundTier: ({ minHours, maxHours, refundPercent }) => {
+    const timeframe = maxHours === undefined
+      ? `${minHours} heures ou plus avant la visite`
+      : minHours === 0
+        ? `moins de ${maxHours} heures avant la visite`
+        : `entre ${minHours} et ${maxHours} heures avant la visite`;
+
+    if (refundPercent === 100) return `Remboursement intégral en cas d'annulation ${timeframe}`;
+    if (refundPercent > 0) return `Remboursement de ${refundPercent}% en cas d'annulation ${timeframe}`;
+    return `Aucun remboursement en cas d'annulation ${timeframe}`;
+  },
+  deposit: percent => `Un acompte de ${percent}% n'est pas remboursable`,
+  weatherRefund: percent => percent === 100
+    ? 'Remboursement intégral si la visite est annulée pour intempéries'
+    : `Remboursement de ${percent}% si la visite est annulée pour intempéries`,
+  signOff: ['Bien cordialement,', 'Filip Kareta', 'Votre conteur guide à Prague'],
+  footer: code => `Filip Kareta Prague Tours | Prague, République tchèque${code ? ` | Réservation ${code}` : ''}`,
+  inquiry: {
+    subject: 'Merci pour votre message',
+    heading: 'Merci pour votre message',
+    paragraphs: ["Merci de m'avoir contacté ! J'ai bien reçu votre message et je vous répondrai sous 24 heures."],
+  },
+
+  templates: {
+    'booking-confirmation': ({ data, tour, date, formatMoney, cancellation, baseUrl, locale }) => ({
+      subject: `Réservation confirmée : ${tour.title} le ${date}`,
+      heading: 'Réservation confirmée !',
+      paragraphs: [
+        "Merci d'avoir réservé votre visite de Prague avec moi. J'ai hâte de vous faire découvrir les histoires et les secrets de cette magnifique ville !",
+      ],
+      showBookingDetails: true,
+      sections: [
+        {
+          title: 'Informations de paiement',
+          lines: [
+            `Montant payé : ${formatMoney(data.payment.amount, data.payment.currency)}`,
+            `Moyen de paiement : ${fr.paymentMethod(data.payment.method)}`,
+            `Identifiant de transaction : ${data.payment.transactionId}`,
+          ],
+        },
+        {
+          title: 'Et ensuite ?',
+          lines: [
+            'Je vous enverrai un rappel 24 heures avant la visite',
+            'Prévoyez des chaussures confortables et un appareil photo',
+            'Consultez la météo et habillez-vous en conséquence',
+          ],
+        },
+        {
+          title: 'Besoin de modifier votre réservation ?',
+          lines: [
+            `Vous pouvez déplacer votre visite vous-même jusqu'à ${cancellation.minimumNoticeHours} heures à l'avance : ${baseUrl}/${locale}/book/reschedule`,
+            ...cancellation.lines,
+            'Pour toute autre demande : filip@guidefilip-prague.com | +420 123 456 789',
+          ],
+        },
+      ],
+      action: data.payment.receiptUrl
+        ? { label: 'Voir le reçu', url: data.payment.receiptUrl }
+        : undefined,
+    }),
+
+    'booking-reminder': ({ data, date }) => ({
+      subject: `Rappel : votre visite de demain, ${date} à ${data.booking.startTime}`,
+      heading: 'Votre visite de Prague, c\'est demain !',
+      paragraphs: [
+        'Petit rappel : votre visite de Prague a lieu demain.',
+        "Merci d'arriver 10 minutes en avance. Je porterai une veste bleue et un petit drapeau de Prague.",
+        'Consultez la météo et habillez-vous en conséquence. À demain !',
+      ],
+      showBookingDetails: true,
+    }),
+
+    'tour-day': ({ data, tour }) => ({
+      subject: `Aujourd'hui à ${data.booking.startTime} : ${tour.title}`,
+      heading: "À tout à l'heure !",
+      paragraphs: [
+        `Votre visite commence aujourd'hui à ${data.booking.startTime}. J'ai hâte de vous rencontrer !`,
+        tour.meetingPoint
+          ? `Rendez-vous : ${tour.meetingPoint}. Cherchez la veste bleue et le petit drapeau de Prague.`
+          : 'Au point de rendez-vous, cherchez la veste bleue et le petit drapeau de Prague.',
+        'Vous êtes en retard ou vous ne me trouvez pas ? Appelez ou écrivez au +420 123 456 789.',
+      ],
+      showBookingDetails: true,
+    }),
+
+    'booking-cancellation': ({ data, tour, date, formatMoney }) => ({
+      subject: `Réservation annulée : ${tour.title} le ${date}`,
+      heading: 'Votre réservation a été annulée',
+      paragraphs: [
+        `Votre réservation ${data.booking.confirmationCode} pour ${tour.title} le ${date} à ${data.booking.startTime} a été annulée.`,
+        data.refundAmount > 0
+          ? `Un remboursement de ${formatMoney(data.refundAmount, data.currency)} est en cours. Vous recevrez une confirmation séparée dès qu'il aura été traité.`
+          : "Selon les conditions d'annulation, cette annulation ne donne pas lieu à un remboursement.",
+        "J'espère vous faire découvrir Prague une autre fois - vous êtes toujours le bienvenu.",
+      ],
+    }),
+
+    'refund-confirmation': ({ data, date, formatMoney }) => ({
+      subject: `Remboursement effectué : ${formatMoney(data.amount, data.currency)}`,
+      heading: 'Votre remboursement est en route',
+      paragraphs: [
+        `Votre remboursement de ${formatMoney(data.amount, data.currency)} pour la réservation ${data.booking.confirmationCode} (visite du ${date}) a été émis ${data.method === 'stripe' ? 'sur la carte utilisée pour le paiement' : 'sur votre compte PayPal'}.`,
+        'Selon votre banque, il arrive généralement sous 5 à 10 jours ouvrés.',
+        'Pour toute question, répondez simplement à cet e-mail.',
+      ],
+    }),
+
+    'booking-failure': ({ data, tour, date, formatMoney }) => {
+      const amount = formatMoney(data.amount, data.currency);
+      const destination = data.method === 'stripe' ? 'sur la carte utilisée pour le paiement' : 'sur votre compte PayPal';
+
+      return {
+        subject: `Votre réservation du ${date} n'a pas pu être finalisée`,
+        heading: "Votre réservation n'a pas pu être finalisée",
+        paragraphs: [
+          `Votre paiement a bien été reçu, mais je n'ai pas pu réserver ${tour.title} le ${date} à ${data.booking.startTime}. Toutes mes excuses pour ce désagrément.`,
+          data.refunded
+            ? `Votre paiement de ${amount} a été intégralement remboursé ${destination}. Selon votre banque, il arrive généralement sous 5 à 10 jours ouvrés.`
+            : `Je rembourse votre paiement de ${amount} ${destination} et vous confirmerai dès que ce sera fait.`,
+          'Si vous souhaitez toujours participer à une visite, réservez à nouveau ou répondez à cet e-mail et je vous aiderai à trouver un créneau.',
+        ],
+      };
+    },
+
+    'booking-rescheduled': ({ data, formatDate }) => ({
+      subject: `Réservation modifiée : ${data.booking.confirmationCode}`,
+      heading: 'Votre visite a été déplacée',
+      paragraphs: [
+        `Votre visite prévue le ${formatDate(data.previousDate)} à ${data.previousStartTime} a été déplacée. Voici les nouveaux détails :`,
+      ],
+      showBookingDetails: true,
+    }),
+
+    'review-request': ({ data, tour }) => ({
+      subject: `Comment s'est passée la visite ${tour.title} ?`,
+      heading: "Merci d'être venu !",
+      paragraphs: [
+        `J'espère que vous avez apprécié ${tour.title}. Les avis de voyageurs comme vous aident les autres à découvrir un Prague authentique.`,
+        'Auriez-vous deux minutes pour partager votre expérience ?',
+      ],
+      action: { label: 'Laisser un avis', url: data.reviewUrl },
+    }),
+  },
+};
+
+export default fr;
@@ -0,0 +1,292 @@
+// Transactional email templates
+// Per-locale copy rendered through one layout to HTML and plain text, with tour details from content
+
+import type { Locale } from '@/types';
+import { LOCALE_ALIASES } from '@/lib/i18n';
+import { parseTourDate } from '@/lib/tour-pricing';
+import { getRefundTiers } from '@/lib/cancellation-policy';
+import { getCancellationPolicy, getTourConfig } from '@/lib/tour-catalog';
+import en from './en';
+import de from './de';
+import fr from './fr';
+import cs from './cs';
+import type {
+  EmailBody,
+  EmailCopy,
+  EmailTemplateData,
+  EmailTemplateName,
+  RenderedEmail,
+  TemplateContext,
+} from './types';
+
+export type {
+  EmailBooking,
+  EmailTemplateData,
+  EmailTemplateName,
+  RenderedEmail,
+} from './types';
+
+const EMAIL_COPY: Record<Locale, EmailCopy> = { en, de, fr, cs };
+
+export const EMAIL_TEMPLATES: EmailTemplateName[] = [
+  'booking-confirmation',
+  'booking-reminder',
+  'tour-day',
+  'booking-cancellation',
+  'refund-confirmation',
+  'booking-failure',
+  'booking-rescheduled',
+  'review-request',
+];
+
+export const EMAIL_LOCALES = Object.keys(EMAIL_COPY) as Locale[];
+
+// Aliases resolve to their locale; unknown or missing locales fall back to English
+export function getEmailLocale(locale?: string | null): Locale {
+  const resolved = locale && Object.prototype.hasOwnProperty.call(LOCALE_ALIASES, locale) ? LOCALE_ALIASES[locale] : locale;
+  return resolved && resolved in EMAIL_COPY ? (resolved as Locale) : 'en';
+}
+
+// Visitor-supplied text goes into HTML bodies
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const linkify = (html: string): string =>
+  html.replace(/https?:\/\/[^\s<]+/g, url => `<a href="${url}">${url}</a>`);
+
+function getBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_BASE_URL || 'https://guidefilip-prague.com';
+}
+
+function buildContext<T extends EmailTemplateName>(
+  copy: EmailCopy,
+  locale: Locale,
+  data: EmailTemplateData[T]
+): TemplateContext<T> {
+  const { booking } = data;
+  const tour = getTourConfig(booking.tourId);
+  const policy = getCancellationPolicy(booking.tourId, booking.date);
+
+  const formatDate = (date: string) =>
+    parseTourDate(date).toLocaleDateString(copy.intlLocale, {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+
+  return {
+    data,
+    tour: {
+      title: tour?.title[locale] || tour?.title.en || booking.tourId,
+      meetingPoint: tour?.meetingPoint?.[locale] || tour?.meetingPoint?.en,
+    },
+    date: formatDate(booking.date),
+    formatDate,
+    formatMoney: (amount, currency) =>
+      new Intl.NumberFormat(copy.intlLocale, { style: 'currency', currency: currency.toUpperCase() }).format(amount),
+    cancellation: {
+      minimumNoticeHours: policy.minimumNoticeHours,
+      lines: [
+        ...getRefundTiers(policy).map(copy.refundTier),
+        ...(policy.depositPercent ? [copy.deposit(policy.depositPercent)] : []),
+        ...(policy.weatherRefundPercent !== undefined ? [copy.weatherRefund(policy.weatherRefundPercent)] : []),
+      ],
+    },
+    baseUrl: getBaseUrl(),
+    locale,
+  };
+}
+
+function getDetailRows<T extends EmailTemplateName>(copy: EmailCopy, context: TemplateContext<T>): Array<[string, string]> {
+  const { booking } = context.data;
+
+  return [
+    [copy.labels.tour, context.tour.title],
+    [copy.labels.date, context.date],
+    [copy.labels.time, booking.startTime],
+    ...(context.tour.meetingPoint ? [[copy.labels.meetingPoint, context.tour.meetingPoint] as [string, string]] : []),
+    [copy.labels.groupSize, copy.people(booking.groupSize)],
+    ...('confirmationCode' in booking ? [[copy.labels.confirmationCode, booking.confirmationCode] as [string, string]] : []),
+  ];
+}
+
+function renderHtml(copy: EmailCopy, body: EmailBody, rows: Array<[string, string]>, firstName: string, code?: string): string {
+  const details = body.showBookingDetails
+    ? `
+          <div class="booking-details">
+            <h3>${escapeHtml(copy.labels.bookingDetails)}</h3>
+            ${rows.map(([label, value]) => `<p><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</p>`).join('\n            ')}
+          </div>`
+    : '';
+
+  const sections = (body.sections || []).map(section => `
+          <div class="booking-details">
+            <h3>${escapeHtml(section.title)}</h3>
+            ${section.lines.map(line => `<p>${linkify(escapeHtml(line))}</p>`).join('\n            ')}
+          </div>`).join('');
+
+  const action = body.action
+    ? `
+          <p><a href="${escapeHtml(body.action.url)}" class="cta-button">${escapeHtml(body.action.label)}</a></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(body.subject)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #8B5CF6; color: white; padding: 20px; text-align: center; }
+    .content { padding: 20px; background: #f9f9f9; }
+    .booking-details { background: white; padding: 15px; margin: 15px 0; border-radius: 5px; }
+    .footer { text-align: center; padding: 20px; font-size: 12px; color: #666; }
+    .cta-button { background: #8B5CF6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block; margin: 10px 0; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${escapeHtml(body.heading)}</h1>
+    </div>
+    <div class="content">
+      <p>${escapeHtml(copy.greeting(firstName))}</p>
+      ${body.paragraphs.map(paragraph => `<p>${linkify(escapeHtml(paragraph))}</p>`).join('\n      ')}${details}${sections}${action}
+      <p>${copy.signOff.map(escapeHtml).join('<br>')}</p>
+    </div>
+    <div class="footer">
+      <p>${escapeHtml(copy.footer(code))}</p>
+    </div>
+  </div>
+</body>
+</html>
+`;
+}
+
+function renderText(copy: EmailCopy, body: EmailBody, rows: Array<[string, string]>, firstName: string, code?: string): string {
+  const blocks = [
+    body.heading,
+    copy.greeting(firstName),
+    ...body.paragraphs,
+  ];
+
+  if (body.showBookingDetails) {
+    blocks.push([copy.labels.bookingDetails, ...rows.map(([label, value]) => `${label}: ${value}`)].join('\n'));
+  }
+
+  for (const section of body.sections || []) {
+    blocks.push([section.title, ...section.lines.map(line => `- ${line}`)].join('\n'));
+  }
+
+  if (body.action) {
+    blocks.push(`${body.action.label}: ${body.action.url}`);
+  }
+
+  blocks.push(copy.signOff.join('\n'), copy.footer(code));
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+// Render one template in a locale to a subject plus HTML and plain-text bodies
+export function renderEmail<T extends EmailTemplateName>(
+  template: T,
+  locale: Locale,
+  data: EmailTemplateData[T]
+): RenderedEmail {
+  const copy = EMAIL_COPY[getEmailLocale(locale)];
+  const context = buildContext<T>(copy, getEmailLocale(locale), data);
+  const body = (copy.templates[template] as (context: TemplateContext<T>) => EmailBody)(context);
+  const rows = getDetailRows(copy, context);
+  const { firstName } = data.booking;
+  const confirmationCode = 'confirmationCode' in data.booking ? data.booking.confirmationCode : undefined;
+
+  return {
+    subject: body.subject,
+    html: renderHtml(copy, body, rows, firstName, confirmationCode),
+    text: renderText(copy, body, rows, firstName, confirmationCode),
+  };
+}
+
+// Acknowledge a contact form message in the visitor's language, without repeating what they wrote
+export function renderInquiryAcknowledgement(locale: string | undefined, name: string): RenderedEmail {
+  const copy = EMAIL_COPY[getEmailLocale(locale)];
+  const body: EmailBody = copy.inquiry;
+
+  return {
+    subject: body.subject,
+    html: renderHtml(copy, body, [], name),
+    text: renderText(copy, body, [], name),
+  };
+}
+
+export function getInquiryReplySubject(locale: string | undefined): string {
+  return `Re: ${EMAIL_COPY[getEmailLocale(locale)].inquiry.subject}`;
+}
+
+// A paid slot that was never confirmed, for the failure email
+const SAMPLE_SLOT = {
+  tourId: 'prague-castle',
+  date: '2030-05-14',
+  startTime: '10:00',
+  groupSize: 2,
+  firstName: 'Jana',
+};
+
+const SAMPLE_BOOKING = {
+  confirmationCode: 'PRG-SAMPLE42',
+  ...SAMPLE_SLOT,
+};
+
+// Fixed data for admin previews and snapshot tests
+export const SAMPLE_EMAIL_DATA: EmailTemplateData = {
+  'booking-confirmation': {
+    booking: SAMPLE_BOOKING,
+    payment: {
+      method: 'stripe',
+      transactionId: 'pi_sample',
+      amount: 110,
+      currency: 'eur',
+      receiptUrl: 'https://pay.stripe.com/receipts/sample',
+    },
+  },
+  'booking-reminder': {
+    booking: SAMPLE_BOOKING,
+  },
+  'tour-day': {
+    booking: SAMPLE_BOOKING,
+  },
+  'booking-cancellation': {
+    booking: SAMPLE_BOOKING,
+    refundAmount: 55,
+    currency: 'eur',
+  },
+  'refund-confirmation': {
+    booking: SAMPLE_BOOKING,
+    amount: 55,
+    currency: 'eur',
+    method: 'paypal',
+  },
+  'booking-failure': {
+    booking: SAMPLE_SLOT,
+    amount: 110,
+    currency: 'eur',
+    method: 'stripe',
+    refunded: true,
+  },
+  'booking-rescheduled': {
+    booking: SAMPLE_BOOKING,
+    previousDate: '2030-05-12',
+    previousStartTime: '14:00',
+  },
+  'review-request': {
+    booking: SAMPLE_BOOKING,
+    reviewUrl: 'https://guidefilip-prague.com/en/reviews/write?booking=bk_sample&expires=1900000000000&signature=sample',
+  },
+};
@@ -0,0 +1,138 @@
+// Shared shapes for transactional email templates
+
+import type { Locale } from '@/types';
+import type { RefundTier } from '@/lib/cancellation-policy';
+
+export type EmailTemplateName =
+  | 'booking-confirmation'
+  | 'booking-reminder'
+  | 'tour-day'
+  | 'booking-cancellation'
+  | 'refund-confirmation'
+  | 'booking-failure'
+  | 'booking-rescheduled'
+  | 'review-request';
+
+export type PaymentMethod = 'stripe' | 'paypal';
+
+// The booking fields every template can show
+export interface EmailBooking {
+  confirmationCode: string;
+  tourId: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  groupSize: number;
+  firstName: string;
+}
+
+export interface EmailTemplateData {
+  'booking-confirmation': {
+    booking: EmailBooking;
+    payment: {
+      method: PaymentMethod;
+      transactionId: string;
+      amount: number;
+      currency: string;
+      receiptUrl?: string;
+    };
+  };
+  'booking-reminder': {
+    booking: EmailBooking;
+  };
+  'tour-day': {
+    booking: EmailBooking;
+  };
+  'booking-cancellation': {
+    booking: EmailBooking;
+    refundAmount: number;
+    currency: string;
+  };
+  'refund-confirmation': {
+    booking: EmailBooking;
+    amount: number;
+    currency: string;
+    method: PaymentMethod;
+    estimatedArrival?: string;
+  };
+  // Paid, but the slot could not be reserved, so there is no confirmation code
+  'booking-failure': {
+    booking: Omit<EmailBooking, 'confirmationCode'>;
+    amount: number;
+    currency: string;
+    method: PaymentMethod;
+    refunded: boolean;
+  };
+  'booking-rescheduled': {
+    booking: EmailBooking;
+    previousDate: string;
+    previousStartTime: string;
+  };
+  'review-request': {
+    booking: EmailBooking;
+    reviewUrl: string;
+  };
+}
+
+// Everything a locale's template needs, already resolved from content and formatted
+export interface TemplateContext<T extends EmailTemplateName> {
+  data: EmailTemplateData[T];
+  tour: {
+    title: string;
+    meetingPoint?: string;
+  };
+  date: string; // long, localized tour date
+  formatDate: (date: string) => string;
+  formatMoney: (amount: number, currency: string) => string;
+  cancellation: {
+    minimumNoticeHours: number;
+    lines: string[]; // the tour's policy in this locale
+  };
+  baseUrl: string;
+  locale: Locale;
+}
+
+// A template's own content; the shared layout adds the greeting, booking details and sign-off
+export interface EmailBody {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  sections?: Array<{ title: string; lines: string[] }>;
+  action?: { label: string; url: string };
+  showBookingDetails?: boolean;
+}
+
+export interface EmailCopy {
+  intlLocale: string;
+  greeting: (firstName: string) => string;
+  labels: {
+    bookingDetails: string;
+    tour: string;
+    date: string;
+    time: string;
+    meetingPoint: string;
+    groupSize: string;
+    confirmationCode: string;
+  };
+  people: (count: number) => string;
+  paymentMethod: (method: PaymentMethod) => string;
+  refundTier: (tier: RefundTier) => string;
+  deposit: (percent: number) => string;
+  weatherRefund: (percent: number) => string;
+  signOff: string[];
+  footer: (confirmationCode?: string) => string;
+  // The contact form acknowledgement; replies reuse its subject
+  inquiry: {
+    subject: string;
+    heading: string;
+    paragraphs: string[];
+  };
+  templates: {
+    [T in EmailTemplateName]: (context: TemplateContext<T>) => EmailBody;
+  };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
@@ -0,0 +1,129 @@
+// Email transports for the outbox
+// SMTP in production; a JSON file or memory stand-in for offline development and tests
+
+import nodemailer from 'nodemailer';
+import { getJsonStore } from '@/lib/json-store';
+
+export interface OutgoingEmail {
+  from: {
+    name: string;
+    address: string;
+  };
+  to: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface SentEmail extends OutgoingEmail {
+  messageId: string;
+  sentAt: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<{ messageId: string }>;
+}
+
+// Thrown for rejections that will never succeed on retry (unknown mailbox, blocked sender)
+export class PermanentEmailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentEmailError';
+  }
+}
+
+const createMessageId = () =>
+  `<${Date.now()}.${Math.random().toString(36).substr(2, 9)}@guidefilip-prague.com>`;
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: {
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    },
+  });
+
+  async send(email: OutgoingEmail): Promise<{ messageId: string }> {
+    try {
+      const info = await this.transporter.sendMail(email);
+      return { messageId: info.messageId };
+    } catch (error) {
+      // 5xx replies are final - the server refused the message or recipient
+      const responseCode = (error as { responseCode?: number }).responseCode;
+      if (responseCode && responseCode >= 500 && responseCode < 600) {
+        throw new PermanentEmailError(error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    }
+  }
+}
+
+// Writes every message to a JSON file in DATA_PATH so mail can be read without a network
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+  private store = getJsonStore<{ emails: SentEmail[] }>(
+    process.env.EMAIL_FILE_TRANSPORT_FILE || 'sent-mail.json',
+    () => ({ emails: [] })
+  );
+
+  async send(email: OutgoingEmail): Promise<{ messageId: string }> {
+    const messageId = createMessageId();
+    await this.store.update(data => {
+      data.emails.push({ ...email, messageId, sentAt: new Date().toISOString() });
+    });
+    return { messageId };
+  }
+
+  async list(): Promise<SentEmail[]> {
+    return (await this.store.read()).emails;
+  }
+}
+
+// Keeps sent mail in memory for assertions in tests
+export class InMemoryEmailTransport implements EmailTransport {
+  readonly name = 'memory';
+  readonly sent: SentEmail[] = [];
+
+  async send(email: OutgoingEmail): Promise<{ messageId: string }> {
+    const messageId = createMessageId();
+    this.sent.push({ ...email, messageId, sentAt: new Date().toISOString() });
+    return { messageId };
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+// Factory function to get the configured transport - SMTP only in production by default
+export function getEmailTransport(): EmailTransport {
+  if (transport) {
+    return transport;
+  }
+
+  const defaultTransport = process.env.NODE_ENV === 'production'
+    ? 'smtp'
+    : process.env.NODE_ENV === 'test' ? 'memory' : 'file';
+
+  switch ((process.env.EMAIL_TRANSPORT || defaultTransport).toLowerCase()) {
+    case 'memory':
+      transport = new InMemoryEmailTransport();
+      break;
+    case 'file':
+      transport = new FileEmailTransport();
+      break;
+    case 'smtp':
+    default:
+      transport = new SmtpEmailTransport();
+  }
+
+  return transport;
+}
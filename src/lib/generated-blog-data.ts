@@ -1,608 +0,0 @@
-// This file is auto-generated. Do not edit manually.
-// Generated at: 2025-08-30T12:21:04.938Z
-
-import type { Locale } from '@/types';
-
-export interface BlogPostFrontmatter {
-  title: Record<Locale, string>;
-  excerpt: Record<Locale, string>;
-  publishedAt: string;
-  category: string;
-  tags: string[];
-  featuredImage: string;
-  author: string;
-  relatedTours: string[];
-  seoTitle: Record<Locale, string>;
-  seoDescription: Record<Locale, string>;
-  seoKeywords: string[];
-}
-
-export interface ProcessedBlogPost {
-  slug: string;
-  frontmatter: BlogPostFrontmatter;
-  content: string;
-  readingTime: number;
-  publishedAt: string;
-  updatedAt?: string;
-}
-
-export const blogPosts: ProcessedBlogPost[] = [
-  {
-    "slug": "best-prague-viewpoints",
-    "frontmatter": {
-      "title": {
-        "en": "The Best Viewpoints in Prague: A Photographer's Guide",
-        "de": "Die besten Aussichtspunkte in Prag: Ein Fotografen-Leitfaden",
-        "fr": "Les meilleurs points de vue à Prague : Guide du photographe"
-      },
-      "excerpt": {
-        "en": "Discover the most breathtaking viewpoints in Prague for perfect photos and unforgettable memories. From hidden terraces to iconic towers, find your perfect shot.",
-        "de": "Entdecken Sie die atemberaubendsten Aussichtspunkte in Prag für perfekte Fotos und unvergessliche Erinnerungen. Von versteckten Terrassen bis zu ikonischen Türmen.",
-        "fr": "Découvrez les points de vue les plus époustouflants de Prague pour des photos parfaites et des souvenirs inoubliables. Des terrasses cachées aux tours emblématiques."
-      },
-      "publishedAt": "2024-01-15",
-      "category": "travel-guides",
-      "tags": [
-        "viewpoints",
-        "photography",
-        "sightseeing",
-        "prague-castle",
-        "old-town"
-      ],
-      "featuredImage": "/blog/prague-viewpoints-hero.jpg",
-      "author": "Filip Kareta",
-      "relatedTours": [
-        "prague-castle",
-        "old-town-jewish-quarter"
-      ],
-      "seoTitle": {
-        "en": "Best Prague Viewpoints for Photography | Hidden Gems & Iconic Views",
-        "de": "Beste Prag Aussichtspunkte für Fotografie | Versteckte Juwelen & Ikonische Aussichten",
-        "fr": "Meilleurs points de vue de Prague pour la photographie | Joyaux cachés et vues emblématiques"
-      },
-      "seoDescription": {
-        "en": "Discover Prague's most stunning viewpoints for photography. Local guide Filip reveals hidden terraces, iconic towers, and secret spots for the perfect Prague photos.",
-        "de": "Entdecken Sie Prags atemberaubendste Aussichtspunkte für die Fotografie. Lokaler Guide Filip enthüllt versteckte Terrassen, ikonische Türme und geheime Orte.",
-        "fr": "Découvrez les points de vue les plus époustouflants de Prague pour la photographie. Le guide local Filip révèle des terrasses cachées et des tours emblématiques."
-      },
-      "seoKeywords": [
-        "Prague viewpoints",
-        "Prague photography",
-        "best views Prague",
-        "Prague Castle views",
-        "Old Town Square views",
-        "Prague panorama",
-        "hidden viewpoints Prague"
-      ]
-    },
-    "content": "\r\nPrague is a photographer's dream, with its fairy-tale architecture, winding cobblestone streets, and dramatic skyline punctuated by Gothic spires and baroque domes. As someone who has been guiding visitors through this magical city for over a decade, I've discovered countless spots where the beauty of Prague reveals itself in all its glory.\r\n\r\nWhether you're a professional photographer or simply want to capture stunning memories of your visit, these viewpoints will give you the perfect shots that showcase why Prague is called the \"City of a Hundred Spires.\"\r\n\r\n## 1. Prague Castle - St. Vitus Cathedral Tower\r\n\r\n**Best time to visit:** Early morning (8-9 AM) or late afternoon (4-5 PM)\r\n**Entry fee:** Included with Prague Castle ticket\r\n**Difficulty:** Moderate (287 steps to climb)\r\n\r\nThe tower of St. Vitus Cathedral offers one of the most spectacular 360-degree views of Prague. From here, you can see the entire city spread out below you, with the Vltava River snaking through the landscape and the red-tiled roofs creating a sea of color.\r\n\r\n**Pro tip:** The climb is steep, but the reward is worth every step. Visit during golden hour for the most magical lighting.\r\n\r\n## 2. Petřín Lookout Tower\r\n\r\n**Best time to visit:** Sunset (especially in summer)\r\n**Entry fee:** Small fee for tower access\r\n**Difficulty:** Easy (accessible by funicular)\r\n\r\nOften called Prague's \"mini Eiffel Tower,\" the Petřín Lookout Tower provides stunning panoramic views across the entire city. The tower itself is 63.5 meters tall and offers breathtaking vistas in every direction.\r\n\r\n**What makes it special:** The view encompasses Prague Castle, the Old Town, New Town, and extends far into the Czech countryside on clear days.\r\n\r\n## 3. Old Town Hall Tower\r\n\r\n**Best time to visit:** Mid-morning (10-11 AM)\r\n**Entry fee:** Moderate entrance fee\r\n**Difficulty:** Easy (elevator available)\r\n\r\nLocated right in the heart of Old Town Square, this viewpoint gives you an incredible bird's-eye view of the famous Astronomical Clock, Týn Church, and the bustling square below. It's particularly magical during Christmas markets or summer festivals.\r\n\r\n**Insider secret:** Time your visit to coincide with the hourly show of the Astronomical Clock for a unique perspective of the crowds gathering below.\r\n\r\n## 4. Charles Bridge Tower (Old Town Side)\r\n\r\n**Best time to visit:** Early morning (7-8 AM) to avoid crowds\r\n**Entry fee:** Small entrance fee\r\n**Difficulty:** Easy to moderate\r\n\r\nThis Gothic tower offers a perfect view down the length of Charles Bridge, with Prague Castle as the dramatic backdrop. It's one of the most iconic views in Prague and a must-have shot for any visitor.\r\n\r\n**Photography tip:** The early morning light creates beautiful silhouettes of the bridge's statues and captures the misty atmosphere over the Vltava River.\r\n\r\n## 5. Letná Park Beer Garden\r\n\r\n**Best time to visit:** Late afternoon to evening\r\n**Entry fee:** Free (just buy a beer!)\r\n**Difficulty:** Easy\r\n\r\nThis local favorite offers a more relaxed atmosphere with stunning views across the river to Prague Castle and the Old Town. It's where locals come to unwind, making it perfect for capturing authentic Prague life alongside beautiful vistas.\r\n\r\n**Local experience:** Grab a Czech beer and enjoy the sunset while locals play table tennis and families have picnics around you.\r\n\r\n## Hidden Gems: Secret Viewpoints\r\n\r\n### Vrtba Garden Terraces\r\nA baroque garden with terraced levels offering intimate views of Lesser Town's red roofs and Prague Castle. It's often overlooked by tourists, making it perfect for peaceful photography.\r\n\r\n### Hunger Wall Pathway\r\nFollow this medieval wall up Petřín Hill for multiple viewpoints along the way. Each level offers different perspectives and is rarely crowded.\r\n\r\n### Kampa Island\r\nWhile not elevated, this island offers unique water-level views of Charles Bridge and creates beautiful reflections for photography, especially during blue hour.\r\n\r\n## Planning Your Photography Tour\r\n\r\n**Best seasons:**\r\n- **Spring (April-May):** Fresh green foliage and pleasant weather\r\n- **Summer (June-August):** Long days and vibrant atmosphere\r\n- **Autumn (September-October):** Golden colors and dramatic skies\r\n- **Winter (December-February):** Snow-covered roofs and cozy atmosphere\r\n\r\n**Essential gear:**\r\n- Wide-angle lens for panoramic shots\r\n- Telephoto lens for detailed architectural photography\r\n- Tripod for low-light and long-exposure shots\r\n- Extra batteries (cold weather drains them quickly)\r\n\r\n## Connecting Views to Stories\r\n\r\nWhat makes these viewpoints truly special isn't just their beauty—it's the stories they tell. From the Castle tower, you're seeing the same view that kings and emperors once enjoyed. From Charles Bridge Tower, you're looking down a path walked by saints, artists, and revolutionaries for over 650 years.\r\n\r\nEach viewpoint offers not just a photo opportunity, but a chance to connect with Prague's incredible history and understand how this city has evolved over the centuries.\r\n\r\n**Ready to capture Prague's magic?** Join me on a <TourLink tour=\"prague-castle\">Prague Castle and Lesser Town tour</TourLink> where I'll show you not just these famous viewpoints, but also share the stories that make each view meaningful. Or explore the heart of the city on my <TourLink tour=\"old-town-jewish-quarter\">Old Town and Jewish Quarter tour</TourLink> to discover the history behind these stunning vistas.\r\n\r\n<InfoBox type=\"tip\">\r\n**Pro Photography Tip:** Download a sunrise/sunset app to plan your visits. The golden hour light transforms these viewpoints from beautiful to absolutely magical.\r\n</InfoBox>\r\n\r\n<BlogCTA variant=\"tour-booking\" />\r\n\r\n*Have you captured any amazing shots from these viewpoints? I'd love to see your Prague photography! Share your photos and tag me on social media.*",
-    "readingTime": 5,
-    "publishedAt": "2024-01-15",
-    "updatedAt": "2025-08-28T16:35:36.888Z"
-  },
-  {
-    "slug": "charles-bridge-legends",
-    "frontmatter": {
-      "title": {
-        "en": "Legends of Charles Bridge: Stories the Stones Remember",
-        "de": "Legenden der Karlsbrücke: Geschichten, die die Steine erinnern",
-        "fr": "Légendes du pont Charles : Histoires que les pierres se souviennent"
-      },
-      "excerpt": {
-        "en": "Discover the fascinating legends and stories behind Prague's most famous bridge. From saints and alchemists to mysterious rituals, Charles Bridge holds centuries of secrets.",
-        "de": "Entdecken Sie die faszinierenden Legenden und Geschichten hinter Prags berühmtester Brücke. Von Heiligen und Alchemisten bis zu mysteriösen Ritualen.",
-        "fr": "Découvrez les légendes fascinantes et les histoires derrière le pont le plus célèbre de Prague. Des saints et alchimistes aux rituels mystérieux."
-      },
-      "publishedAt": "2024-01-28",
-      "category": "history-legends",
-      "tags": [
-        "charles-bridge",
-        "legends",
-        "history",
-        "saints",
-        "medieval-prague"
-      ],
-      "featuredImage": "/blog/charles-bridge-legends-hero.jpg",
-      "author": "Filip Kareta",
-      "relatedTours": [
-        "old-town-jewish-quarter",
-        "prague-castle"
-      ],
-      "seoTitle": {
-        "en": "Charles Bridge Legends & Stories | Hidden History of Prague's Famous Bridge",
-        "de": "Karlsbrücke Legenden & Geschichten | Versteckte Geschichte von Prags berühmter Brücke",
-        "fr": "Légendes et histoires du pont Charles | Histoire cachée du célèbre pont de Prague"
-      },
-      "seoDescription": {
-        "en": "Explore the legends and hidden stories of Charles Bridge with local guide Filip. Discover saints, alchemists, and medieval mysteries on Prague's most famous bridge.",
-        "de": "Erkunden Sie die Legenden und versteckten Geschichten der Karlsbrücke mit lokalem Guide Filip. Entdecken Sie Heilige, Alchemisten und mittelalterliche Mysterien.",
-        "fr": "Explorez les légendes et histoires cachées du pont Charles avec le guide local Filip. Découvrez saints, alchimistes et mystères médiévaux."
-      },
-      "seoKeywords": [
-        "Charles Bridge legends",
-        "Prague bridge stories",
-        "St. John of Nepomuk",
-        "Charles Bridge history",
-        "Prague medieval legends",
-        "Charles Bridge saints",
-        "Prague folklore"
-      ]
-    },
-    "content": "\r\nEvery morning as I walk across Charles Bridge with my tour groups, I'm reminded that we're not just crossing a river—we're walking through 650 years of history, legend, and mystery. Each of the 30 baroque statues has a story, every stone has witnessed centuries of drama, and the bridge itself has become the stuff of legend.\r\n\r\nAs someone who has been sharing Prague's stories for over a decade, I've collected the most fascinating legends that make Charles Bridge not just a tourist attraction, but a living museum of human drama, faith, and mystery.\r\n\r\n## The Legend of St. John of Nepomuk: The Saint Who Wouldn't Break\r\n\r\nThe most famous legend of Charles Bridge centers around its most venerated statue—St. John of Nepomuk. But the story behind this saint is far more dramatic than most visitors realize.\r\n\r\n### The Historical Drama\r\nIn 1393, John of Nepomuk was the confessor to Queen Sophie, wife of King Wenceslas IV. According to legend, the jealous king demanded that John reveal the secrets of the queen's confession. When John refused, citing the sacred seal of confession, the enraged king had him tortured and thrown from Charles Bridge into the Vltava River.\r\n\r\n### The Miraculous Signs\r\nLegend says that as John's body hit the water, five stars appeared above the spot where he drowned, marking him as a martyr. Today, you can see these five stars in the halo of his statue on the bridge.\r\n\r\n**The Ritual:** Touching the bronze plaque depicting his martyrdom is said to bring good luck and ensure your return to Prague. The plaque is worn smooth by millions of hands over the centuries.\r\n\r\n## The Master Builder's Secret\r\n\r\n### The Egg Mystery\r\nWhen Charles Bridge was built starting in 1357, the master builder faced a seemingly impossible challenge: how to make mortar strong enough to withstand the Vltava's floods and Prague's harsh winters for centuries.\r\n\r\nLegend tells us that the builder sent messengers throughout Bohemia with a strange request: bring eggs. Not just any eggs, but eggs from every village in the kingdom. The people of Velvary, fearing their eggs would break on the journey, hard-boiled them first. When the builder saw this, he was furious—until he realized the hard-boiled eggs actually made the mortar even stronger.\r\n\r\n**Modern science confirms:** Recent analysis of the bridge's mortar has indeed found traces of egg whites, which would have acted as a binding agent, making the mortar incredibly durable.\r\n\r\n## The Alchemist's Bridge\r\n\r\n### Rudolf II's Mysterious Additions\r\nDuring the reign of Emperor Rudolf II (1576-1612), Prague became the center of European alchemy and occult studies. The emperor, fascinated by the mystical arts, commissioned several statues for the bridge that contain hidden alchemical symbols.\r\n\r\n**Hidden Symbols:**\r\n- The statue of St. Ivo contains symbols representing the transformation of base metals into gold\r\n- The crucifix has Hebrew inscriptions that were added after a Jewish merchant was forced to pay for them as punishment for allegedly mocking Christianity\r\n- Several statues face specific astronomical directions, aligning with Rudolf's astrological beliefs\r\n\r\n### The Midnight Ritual\r\nLocal legend speaks of alchemists who would meet on the bridge at midnight during certain lunar phases, believing the bridge's position over flowing water created a powerful energy vortex for their experiments.\r\n\r\n## The Bridge That Chose Its Own Fate\r\n\r\n### The Numerological Foundation\r\nCharles IV, a learned man fascinated by numerology, chose the exact moment to lay the bridge's foundation stone: 9:26 AM on July 9, 1357. Written out, this creates a palindrome: 1-3-5-7-9-7-5-3-1, which medieval scholars believed would give the bridge magical protection.\r\n\r\n**The Result:** Charles Bridge has survived floods, wars, and revolutions that destroyed other bridges in Prague. Coincidence or cosmic protection?\r\n\r\n## Saints, Sinners, and Supernatural Encounters\r\n\r\n### The Statue That Moves\r\nThe statue of St. Lutgard is said to move slightly during the full moon. Local legend claims that if you see it move, you'll have prophetic dreams about Prague's future.\r\n\r\n### The Phantom Monk\r\nNight watchmen and early morning joggers have reported seeing a monk in brown robes walking the bridge just before dawn, always moving from the Old Town toward Lesser Town. He's believed to be the spirit of a medieval monk who died defending the bridge during the Hussite Wars.\r\n\r\n### The Lovers' Curse\r\nThe statue of St. John and St. Paul is said to curse unfaithful lovers. Couples who cross the bridge while one harbors thoughts of infidelity will supposedly break up within a year.\r\n\r\n## The Bridge During Dark Times\r\n\r\n### Nazi Occupation\r\nDuring World War II, the bridge became a symbol of resistance. Czechs would gather at the statue of St. John of Nepomuk to pray for liberation, and resistance fighters used the bridge's many hiding spots to pass messages.\r\n\r\n### Communist Era\r\nUnder communist rule, the bridge took on new meaning. The statue of St. John of Nepomuk, a saint who died rather than betray a secret, became an unofficial symbol of resistance to totalitarian control.\r\n\r\n## Modern Mysteries\r\n\r\n### The Artist's Vision\r\nIn the 1960s, a local artist claimed to have visions while painting on the bridge. He said the statues would \"speak\" to him, telling him stories of all the people who had passed beneath them over the centuries.\r\n\r\n### The Healing Bridge\r\nSome visitors report feeling a sense of peace and healing while walking across the bridge, particularly near sunrise or sunset. Whether this is the power of suggestion or something more mystical, the bridge continues to affect people in profound ways.\r\n\r\n## Living Legends: What I've Witnessed\r\n\r\nIn my years of guiding tours across this bridge, I've seen people have profound emotional reactions to these stories. I've watched skeptics become believers, seen couples get engaged at the statue of St. John of Nepomuk, and witnessed visitors return year after year, drawn by something they can't quite explain.\r\n\r\nThe bridge isn't just a collection of old stones and baroque statues—it's a living repository of human hopes, fears, and dreams spanning nearly seven centuries.\r\n\r\n## Experience the Legends Yourself\r\n\r\nThese stories come alive when you walk the bridge with someone who knows its secrets. On my <TourLink tour=\"old-town-jewish-quarter\">Old Town and Jewish Quarter tour</TourLink>, we spend significant time on Charles Bridge, and I share not just these famous legends, but also the lesser-known stories that locals have passed down through generations.\r\n\r\n<Highlight>\r\n**The best time to experience the bridge's mystical atmosphere?** Early morning just after sunrise, when the mist rises from the Vltava and you can almost see the ghosts of centuries past walking alongside you.\r\n</Highlight>\r\n\r\n<InfoBox type=\"tip\">\r\n**Photography Tip:** The golden hour light (just after sunrise or before sunset) creates the most dramatic shadows on the statues, making them appear almost alive. This is when the legends feel most real.\r\n</InfoBox>\r\n\r\n<BlogCTA variant=\"tour-booking\" />\r\n\r\n*Have you experienced anything unusual on Charles Bridge? Do you have a favorite statue or legend? Share your Charles Bridge stories—I love hearing how this magical place affects different people.*",
-    "readingTime": 6,
-    "publishedAt": "2024-01-28",
-    "updatedAt": "2025-08-28T16:35:06.771Z"
-  },
-  {
-    "slug": "prague-food-guide",
-    "frontmatter": {
-      "title": {
-        "en": "A Local's Guide to Prague Food: Beyond Goulash and Beer",
-        "de": "Ein Einheimischen-Guide zu Prager Essen: Jenseits von Gulasch und Bier",
-        "fr": "Guide local de la nourriture pragoise : Au-delà du goulash et de la bière"
-      },
-      "excerpt": {
-        "en": "Discover authentic Prague cuisine beyond the tourist traps. From hidden local restaurants to traditional dishes you've never heard of, eat like a true Praguer.",
-        "de": "Entdecken Sie authentische Prager Küche jenseits der Touristenfallen. Von versteckten lokalen Restaurants bis zu traditionellen Gerichten, die Sie nie gehört haben.",
-        "fr": "Découvrez la cuisine authentique de Prague au-delà des pièges à touristes. Des restaurants locaux cachés aux plats traditionnels que vous n'avez jamais entendus."
-      },
-      "publishedAt": "2024-02-03",
-      "category": "food-drink",
-      "tags": [
-        "food",
-        "restaurants",
-        "local-cuisine",
-        "traditional-dishes",
-        "beer"
-      ],
-      "featuredImage": "/blog/prague-food-hero.jpg",
-      "author": "Filip Kareta",
-      "relatedTours": [
-        "old-town-jewish-quarter"
-      ],
-      "seoTitle": {
-        "en": "Prague Food Guide: Local Restaurants & Traditional Czech Cuisine",
-        "de": "Prag Essen Guide: Lokale Restaurants & Traditionelle Tschechische Küche",
-        "fr": "Guide gastronomique de Prague : Restaurants locaux et cuisine tchèque traditionnelle"
-      },
-      "seoDescription": {
-        "en": "Discover authentic Prague food with local guide Filip. Hidden restaurants, traditional Czech dishes, and where locals really eat in Prague.",
-        "de": "Entdecken Sie authentisches Prager Essen mit lokalem Guide Filip. Versteckte Restaurants, traditionelle tschechische Gerichte und wo Einheimische wirklich essen.",
-        "fr": "Découvrez la nourriture authentique de Prague avec le guide local Filip. Restaurants cachés, plats tchèques traditionnels et où mangent vraiment les locaux."
-      },
-      "seoKeywords": [
-        "Prague food",
-        "Czech cuisine",
-        "Prague restaurants",
-        "traditional Czech food",
-        "local Prague dining",
-        "authentic Prague food",
-        "Czech beer",
-        "Prague food tour"
-      ]
-    },
-    "content": "\r\nAfter more than a decade of guiding visitors through Prague, I've noticed that most tourists leave having tried only goulash, schnitzel, and beer. While these are certainly part of Czech cuisine, they barely scratch the surface of what Prague has to offer food lovers.\r\n\r\nAs a Prague native, I want to share with you the real culinary treasures of my city—the dishes my grandmother made, the restaurants where locals celebrate special occasions, and the hidden gems that don't appear in guidebooks.\r\n\r\n## Traditional Czech Dishes You Must Try\r\n\r\n### Svíčková na smetaně (Beef Sirloin in Cream Sauce)\r\nThis is arguably the Czech national dish, and it's nothing like what most tourists experience. Real svíčková features tender beef sirloin in a rich, creamy vegetable sauce, served with bread dumplings and a dollop of cranberry sauce.\r\n\r\n**Where to find the best:** U Fleků has a decent version, but locals prefer Lokál or U Kroka for the most authentic preparation.\r\n\r\n### Kulajda (Potato and Mushroom Soup)\r\nA creamy soup made with potatoes, mushrooms, dill, and a poached egg. It's comfort food at its finest and perfect for Prague's chilly weather.\r\n\r\n**Local secret:** The best kulajda is found at small neighborhood pubs, not tourist restaurants. Try Hospůdka Na Hradčanech.\r\n\r\n### Bramboráky (Potato Pancakes)\r\nThese crispy potato pancakes are often served as a side dish or light meal, typically topped with sauerkraut or served with a meat dish.\r\n\r\n**Street food version:** Look for vendors at local markets, especially at Havelské Tržiště, where they're made fresh and served hot.\r\n\r\n## Hidden Local Restaurants\r\n\r\n### Restaurace U Parlamentu\r\n**Location:** Near Wenceslas Square (but tucked away)\r\n**Why locals love it:** Unchanged for decades, this restaurant serves traditional Czech cuisine exactly as it was meant to be. The waiters have been there for years and treat regulars like family.\r\n\r\n**Must order:** Their goulash is legendary among locals, and their beer is perfectly poured every time.\r\n\r\n### Café Savoy\r\n**Location:** Lesser Town\r\n**Why it's special:** This beautifully restored café from 1893 offers both traditional Czech dishes and international cuisine in an elegant setting that locals use for special occasions.\r\n\r\n**Insider tip:** Come for their Sunday brunch, which features traditional Czech pastries alongside international options.\r\n\r\n### Lokál\r\n**Location:** Multiple locations (Old Town, Wenceslas Square)\r\n**Local favorite because:** They serve Pilsner Urquell directly from tanks, ensuring the freshest possible beer, and their Czech classics are prepared with modern techniques while maintaining traditional flavors.\r\n\r\n## The Real Prague Beer Culture\r\n\r\nYes, Czechs drink more beer per capita than anyone else in the world, but there's so much more to Prague beer culture than most visitors realize.\r\n\r\n### Beer Etiquette Every Visitor Should Know\r\n- **Never toast with beer:** Czechs toast with beer only in very informal settings\r\n- **The foam matters:** A proper Czech beer should have a thick, creamy head\r\n- **Order correctly:** Ask for \"jedno pivo, prosím\" (one beer, please) or just hold up one finger\r\n\r\n### Beyond Pilsner: Local Beer Varieties\r\n- **Černé pivo (Dark beer):** Rich, malty, and less hoppy than pilsner\r\n- **Řezané pivo (Cut beer):** Half light, half dark beer mixed together\r\n- **Desítka:** Lower alcohol content beer (around 4%) perfect for lunch\r\n\r\n### Local Beer Halls vs. Tourist Traps\r\n**Authentic beer halls:**\r\n- U Fleků (tourist-heavy but authentic brewing)\r\n- Pivovarský dům (modern brewery with traditional methods)\r\n- U Zlatého tygra (tiny, locals-only pub where Havel used to drink)\r\n\r\n## Seasonal Specialties\r\n\r\n### Spring: Wild Garlic Season\r\nFrom April to May, Prague restaurants feature wild garlic (medvědí česnek) in everything from soups to bread. It's a brief but beloved season that locals eagerly anticipate.\r\n\r\n### Summer: Garden Restaurant Culture\r\nCzechs love their beer gardens. Letná Park, Riegrovy sady, and Petřín Hill offer outdoor dining with stunning views and a relaxed atmosphere.\r\n\r\n### Autumn: Game Season\r\nFall brings wild boar, venison, and duck to Prague menus. Traditional preparations often include juniper berries and root vegetables.\r\n\r\n### Winter: Comfort Food Season\r\nHeavy soups, roasted meats, and warming spirits like slivovice (plum brandy) help locals survive the cold Prague winters.\r\n\r\n## Sweet Treats and Desserts\r\n\r\n### Trdelník: Tourist Trap or Authentic?\r\nThe truth: Traditional trdelník is a simple pastry rolled in sugar and nuts. The ice cream-filled versions you see everywhere are a modern tourist invention, but they're still delicious!\r\n\r\n**Authentic version:** Try it at traditional Christmas markets or at Café Louvre.\r\n\r\n### Real Czech Desserts\r\n- **Palačinky:** Thin crepes filled with jam, chocolate, or fruit\r\n- **Koláče:** Sweet pastries with various fillings, perfect with coffee\r\n- **Větrník:** Cream puff pastry that's a local favorite\r\n\r\n## Food Markets and Shopping\r\n\r\n### Havelské Tržiště\r\nPrague's oldest market, perfect for fresh produce, local honey, and traditional snacks. It's where locals shop, not just a tourist attraction.\r\n\r\n### Farmers Markets\r\n- **Jiřák Farmers Market:** Saturdays at Jiřího z Poděbrad Square\r\n- **Náplavka Farmers Market:** Saturdays along the Vltava River\r\n\r\n## Connecting Food to Prague's History\r\n\r\nEvery dish tells a story of Prague's complex history. The heavy, meat-based cuisine reflects the harsh Central European climate and the need for hearty meals. The influence of Austrian and German cuisine speaks to centuries of Habsburg rule. Even the beer culture connects to medieval brewing traditions and the invention of pilsner in nearby Plzen.\r\n\r\nWhen you eat authentic Czech food, you're not just having a meal—you're experiencing centuries of tradition, adaptation, and cultural exchange.\r\n\r\n## Food Experiences on My Tours\r\n\r\nWhile my tours focus on Prague's incredible history and architecture, I always include stops at local food spots and share stories about Czech culinary traditions. On my <TourLink tour=\"old-town-jewish-quarter\">Old Town and Jewish Quarter tour</TourLink>, we often stop at traditional bakeries and I explain how Jewish culinary traditions influenced Prague's food culture.\r\n\r\n<InfoBox type=\"tip\">\r\n**Local Tip:** The best time to visit traditional Czech restaurants is during lunch (11:30 AM - 2:00 PM) when they serve their daily specials at the most authentic prices.\r\n</InfoBox>\r\n\r\n**Want to experience Prague like a local?** Join me for a tour where I'll not only show you the city's incredible sights but also share insider tips about where to find the best authentic Czech food. After all, understanding a city's cuisine is understanding its soul.\r\n\r\n<BlogCTA variant=\"tour-booking\" />\r\n\r\n*What's your favorite Czech dish? Have you discovered any hidden food gems in Prague? Share your experiences in the comments below!*",
-    "readingTime": 6,
-    "publishedAt": "2024-02-03",
-    "updatedAt": "2025-08-28T16:34:31.844Z"
-  },
-  {
-    "slug": "prague-hidden-gems",
-    "frontmatter": {
-      "title": {
-        "en": "Prague's Hidden Gems: Secret Places Only Locals Know",
-        "de": "Prags versteckte Juwelen: Geheime Orte, die nur Einheimische kennen",
-        "fr": "Joyaux cachés de Prague : Lieux secrets que seuls les locaux connaissent"
-      },
-      "excerpt": {
-        "en": "Venture beyond the tourist trails to discover Prague's best-kept secrets. From hidden courtyards to secret gardens, explore the authentic Prague that most visitors never see.",
-        "de": "Wagen Sie sich abseits der Touristenpfade, um Prags bestgehütete Geheimnisse zu entdecken. Von versteckten Innenhöfen bis zu geheimen Gärten - erkunden Sie das authentische Prag, das die meisten Besucher nie sehen.",
-        "fr": "Aventurez-vous au-delà des sentiers touristiques pour découvrir les secrets les mieux gardés de Prague. Des cours cachées aux jardins secrets, explorez le Prague authentique que la plupart des visiteurs ne voient jamais."
-      },
-      "publishedAt": "2024-03-15",
-      "category": "Hidden Gems",
-      "tags": [
-        "hidden gems",
-        "local secrets",
-        "authentic Prague",
-        "off the beaten path",
-        "local guide"
-      ],
-      "featuredImage": "/images/blog/prague-hidden-gems-hero.webp",
-      "author": "Filip Kareta",
-      "relatedTours": [
-        "prague-castle",
-        "old-town-jewish-quarter"
-      ],
-      "seoTitle": {
-        "en": "Prague Hidden Gems 2024 | Secret Places & Local Guide Tips",
-        "de": "Prag Versteckte Juwelen 2024 | Geheime Orte & Lokale Guide-Tipps",
-        "fr": "Joyaux Cachés Prague 2024 | Lieux Secrets & Conseils Guide Local"
-      },
-      "seoDescription": {
-        "en": "Discover Prague's hidden gems with local guide Filip Kareta. Secret courtyards, hidden gardens, and authentic local spots away from tourist crowds. Insider Prague travel guide.",
-        "de": "Entdecken Sie Prags versteckte Juwelen mit lokalem Guide Filip Kareta. Geheime Innenhöfe, versteckte Gärten und authentische lokale Orte abseits der Touristenmassen.",
-        "fr": "Découvrez les joyaux cachés de Prague avec le guide local Filip Kareta. Cours secrètes, jardins cachés et spots locaux authentiques loin des foules touristiques."
-      },
-      "seoKeywords": [
-        "Prague hidden gems",
-        "secret Prague",
-        "local Prague guide",
-        "authentic Prague",
-        "Prague off beaten path",
-        "hidden courtyards Prague",
-        "secret gardens Prague"
-      ]
-    },
-    "content": "\n# Prague's Hidden Gems: Secret Places Only Locals Know\n\n*After living in Prague my entire life and guiding visitors for over a decade, I've discovered countless hidden corners that even many locals don't know about. Today, I'm sharing some of my favorite secret spots—places where you can experience the authentic soul of Prague away from the crowds.*\n\n## The Secret Courtyards of Lesser Town\n\n### Wallenstein Garden: A Baroque Paradise\n\nHidden behind the imposing walls of Wallenstein Palace lies one of Prague's most beautiful baroque gardens. While the palace itself houses the Czech Senate, the gardens are open to the public—yet surprisingly few tourists find their way here.\n\n**What makes it special:**\n- Perfectly manicured baroque landscaping\n- Peacocks roaming freely among the hedges\n- The artificial grotto with stalactite decorations\n- Stunning views of Prague Castle from a unique angle\n\n**Local tip:** Visit early morning when the peacocks are most active and the light filters beautifully through the trees.\n\n### Vrtba Garden: The Hidden Terraced Wonder\n\nTucked away behind a modest entrance on Karmelitská Street, Vrtba Garden is a UNESCO-listed baroque masterpiece that most visitors walk past without noticing.\n\n**Why locals love it:**\n- Intimate terraced design perfect for quiet contemplation\n- Stunning baroque sculptures and fountains\n- Panoramic views over Prague's red rooftops\n- Often completely empty, even during peak season\n\n## The Mysterious Passages and Tunnels\n\n### Lucerna Passage: Art Nouveau Elegance\n\nWhile many tourists rush through Wenceslas Square, few discover the elegant Lucerna Passage—Prague's oldest shopping arcade, built in 1920.\n\n**Hidden treasures inside:**\n- David Černý's controversial upside-down horse statue\n- Beautiful Art Nouveau architecture and glass ceiling\n- Historic cinema still showing films\n- Traditional Czech cafés with authentic atmosphere\n\n**Story time:** The passage was built by Václav Havel's grandfather and represents the entrepreneurial spirit of early 20th-century Prague.\n\n### The Secret Tunnels of Old Town\n\nBeneath Prague's streets lies a network of medieval tunnels and cellars that once connected important buildings. While most are closed to the public, a few can still be explored.\n\n**Accessible hidden spaces:**\n- The medieval cellars beneath the Old Town Hall\n- The crypts of St. James Church with their mysterious acoustics\n- The underground spaces of Clementinum Library\n\n## Hidden Gardens and Green Spaces\n\n### Vojan Park: The Secret Island\n\nIn the heart of Lesser Town lies Vojan Park, Prague's oldest garden, hidden behind high walls and accessible through an inconspicuous gate.\n\n**What awaits inside:**\n- Ancient fruit trees and herb gardens\n- Peacocks and other exotic birds\n- Baroque chapels and religious statues\n- Complete silence despite being in the city center\n\n**Local secret:** The park is technically part of a monastery, which is why it maintains its peaceful, sacred atmosphere.\n\n### Riegrovy sady: The Local's Favorite\n\nWhile tourists flock to Petřín Hill, locals prefer Riegrovy sady for its authentic beer garden atmosphere and equally stunning views.\n\n**Why it's special:**\n- Authentic Czech beer garden experience\n- Panoramic views of Prague Castle\n- Popular with local families and students\n- Beautiful during cherry blossom season\n\n## Secret Architectural Gems\n\n### The Dancing House Interior\n\nMost people photograph the famous Dancing House from the outside, but few know about the stunning interior spaces and rooftop restaurant.\n\n**Hidden features:**\n- Unique curved interior architecture\n- Art gallery with rotating exhibitions\n- Rooftop bar with 360-degree city views\n- Frank Gehry's original design sketches on display\n\n### House of the Black Madonna: Cubist Wonder\n\nThis unique cubist building houses not just a museum but also a period café that recreates the atmosphere of 1920s Prague.\n\n**Cubist treasures:**\n- The only cubist café in the world\n- Original cubist furniture and design\n- Stunning spiral staircase\n- Views of the Powder Tower\n\n## Hidden Religious Sites\n\n### The Infant Jesus of Prague\n\nWhile the Church of Our Lady Victorious is known to pilgrims, the small museum and the story behind the miraculous statue remain hidden to most visitors.\n\n**Sacred secrets:**\n- The wardrobe of tiny royal outfits for the statue\n- Miracle stories from around the world\n- Beautiful baroque interior often overlooked\n- Peaceful atmosphere for reflection\n\n### St. James Church: The Acoustic Marvel\n\nThis baroque church hides one of Prague's most unusual features—a mummified arm hanging from the wall, along with incredible acoustics.\n\n**Hidden wonders:**\n- The legend of the thief's arm\n- Stunning baroque frescoes\n- Regular classical concerts with perfect acoustics\n- The tomb of Count Vratislav of Mitrovice\n\n## Local Neighborhoods Off the Tourist Map\n\n### Vinohrady: The Elegant District\n\nThis residential area showcases Prague's Art Nouveau architecture and authentic local life.\n\n**Authentic experiences:**\n- Traditional Czech pubs with no English menus\n- Beautiful Art Nouveau apartment buildings\n- Local markets and neighborhood cafés\n- Peace Square with its stunning church\n\n### Karlín: The Hipster Haven\n\nOnce an industrial district, Karlín has transformed into Prague's creative quarter while maintaining its authentic character.\n\n**Creative discoveries:**\n- Independent art galleries and studios\n- Craft breweries and specialty coffee shops\n- Industrial architecture converted to cultural spaces\n- Local farmers' markets\n\n## Seasonal Hidden Gems\n\n### Spring: The Secret Cherry Blossoms\n\nWhile everyone knows about Japanese cherry blossoms, Prague has its own spectacular displays in hidden locations.\n\n**Best spots:**\n- Petřín Hill's hidden paths\n- Kampa Island's quiet corners\n- The courtyards of Prague Castle\n- Riegrovy sady's secret groves\n\n### Winter: The Magical Christmas Markets\n\nBeyond the famous markets, Prague hides smaller, more authentic Christmas celebrations.\n\n**Local favorites:**\n- Náměstí Míru Christmas market (locals only)\n- The Christmas market at Kampa Island\n- Traditional advent concerts in hidden churches\n- Mulled wine stands in secret courtyards\n\n## How to Find These Hidden Gems\n\n### Follow the Locals\n- Shop where locals shop (avoid tourist-heavy areas)\n- Eat where you hear Czech being spoken\n- Look for places without English signs\n- Ask locals for recommendations\n\n### Timing is Everything\n- Visit popular spots very early or very late\n- Explore during weekdays when possible\n- Take advantage of bad weather (fewer tourists)\n- Use lunch hours when tour groups are eating\n\n### Look Beyond the Obvious\n- Enter courtyards through open gates\n- Climb stairs in historic buildings\n- Follow interesting architectural details\n- Trust your curiosity\n\n## Respectful Exploration\n\nAs you explore these hidden gems, remember that many are part of living neighborhoods where people work and live. Please:\n\n- Keep noise levels down in residential areas\n- Respect private property and \"No Entry\" signs\n- Support local businesses when you visit\n- Leave no trace and take only photographs\n\n## Experience Hidden Prague with a Local\n\nWhile this guide gives you a taste of Prague's hidden treasures, there's nothing quite like discovering them with someone who knows their stories. These places aren't just beautiful—they're repositories of Prague's soul, each with tales that span centuries.\n\n**Want to explore these hidden gems with insider knowledge?** [Join me for a Hidden Prague tour](/en/tours/hidden-prague) where I'll share not just the locations, but the stories, legends, and local insights that make each place truly special.\n\n---\n\n*Filip Kareta has been exploring Prague's hidden corners for over 30 years. As a local guide, he specializes in revealing the authentic Prague that exists beyond the guidebooks. Book a tour to discover your own hidden Prague story.*\n",
-    "readingTime": 7,
-    "publishedAt": "2024-03-15",
-    "updatedAt": "2025-08-29T22:31:39.108Z"
-  },
-  {
-    "slug": "prague-local-food-guide",
-    "frontmatter": {
-      "title": {
-        "en": "Prague Food Guide: Where Locals Actually Eat (Not Tourist Traps)",
-        "de": "Prag Essen-Guide: Wo Einheimische wirklich essen (keine Touristenfallen)",
-        "fr": "Guide gastronomique de Prague : Où mangent vraiment les locaux (pas les pièges à touristes)"
-      },
-      "excerpt": {
-        "en": "Discover authentic Prague cuisine beyond the tourist restaurants. From traditional Czech pubs to modern bistros, here's where locals go for the best food in Prague.",
-        "de": "Entdecken Sie authentische Prager Küche jenseits der Touristenrestaurants. Von traditionellen tschechischen Kneipen bis zu modernen Bistros - hier gehen Einheimische für das beste Essen in Prag hin.",
-        "fr": "Découvrez la cuisine authentique de Prague au-delà des restaurants touristiques. Des pubs tchèques traditionnels aux bistros modernes, voici où vont les locaux pour la meilleure nourriture de Prague."
-      },
-      "publishedAt": "2024-03-05",
-      "category": "Food & Culture",
-      "tags": [
-        "Prague food",
-        "local restaurants",
-        "Czech cuisine",
-        "authentic dining",
-        "food guide"
-      ],
-      "featuredImage": "/images/blog/prague-food-guide-hero.webp",
-      "author": "Filip Kareta",
-      "relatedTours": [
-        "prague-castle",
-        "old-town-jewish-quarter"
-      ],
-      "seoTitle": {
-        "en": "Prague Food Guide 2024 | Where Locals Eat - Authentic Czech Restaurants",
-        "de": "Prag Essen-Guide 2024 | Wo Einheimische essen - Authentische tschechische Restaurants",
-        "fr": "Guide gastronomique Prague 2024 | Où mangent les locaux - Restaurants tchèques authentiques"
-      },
-      "seoDescription": {
-        "en": "Discover authentic Prague restaurants where locals eat. Complete food guide with traditional Czech pubs, modern bistros, and hidden culinary gems. Avoid tourist traps!",
-        "de": "Entdecken Sie authentische Prager Restaurants, wo Einheimische essen. Vollständiger Essen-Guide mit traditionellen tschechischen Kneipen, modernen Bistros und versteckten kulinarischen Juwelen.",
-        "fr": "Découvrez les restaurants authentiques de Prague où mangent les locaux. Guide gastronomique complet avec pubs tchèques traditionnels, bistros modernes et joyaux culinaires cachés."
-      },
-      "seoKeywords": [
-        "Prague restaurants",
-        "authentic Czech food",
-        "where locals eat Prague",
-        "Prague food guide",
-        "Czech cuisine",
-        "traditional Czech restaurants",
-        "Prague dining"
-      ]
-    },
-    "content": "\n# Prague Food Guide: Where Locals Actually Eat (Not Tourist Traps)\n\n*After 30+ years of living in Prague and countless meals with visitors from around the world, I've learned that the best Prague food experiences happen where locals eat—not in the restaurants with English menus targeting tourists. Let me share my favorite authentic spots where you'll taste the real Prague.*\n\n## Understanding Czech Cuisine\n\nBefore diving into specific restaurants, it's important to understand what makes Czech cuisine special. Our food reflects our history: hearty, warming dishes designed to sustain people through long Central European winters.\n\n### Traditional Czech Staples\n- **Goulash (Guláš):** Rich beef stew with paprika and onions\n- **Schnitzel (Řízek):** Breaded and fried pork or chicken cutlet\n- **Roast Pork with Dumplings (Vepřo-knedlo-zelo):** The national dish\n- **Bread Dumplings (Knedlíky):** Essential side dish, not dessert!\n- **Sauerkraut (Zelí):** Fermented cabbage, often served warm\n\n### Czech Beer Culture\nCzech Republic consumes more beer per capita than any other country. Beer isn't just a drink here—it's a cultural institution and the perfect complement to our hearty cuisine.\n\n## Traditional Czech Pubs (Hospody)\n\n### U Fleků - The Historic Brewery\n**Location:** Křemencova 11, New Town\n**What makes it special:** Prague's oldest brewery (1499) still brewing their famous dark beer\n\nWhile technically touristy, U Fleků earns its reputation. The beer is exceptional, the atmosphere authentic, and the traditional Czech band adds to the experience.\n\n**Local tip:** Go for the beer and atmosphere, but eat elsewhere for better food value.\n\n### Lokál - Modern Traditional\n**Locations:** Multiple throughout Prague\n**What makes it special:** Modern take on traditional Czech pub culture\n\nLokál revolutionized Prague's pub scene by serving traditional Czech food with modern quality standards. The beer is perfectly poured, and the atmosphere feels authentically Czech.\n\n**Must try:** Fresh Pilsner Urquell and their excellent goulash\n**Local insight:** This is where young Czechs go for traditional food\n\n### U Zlatého Tygra - The Literary Pub\n**Location:** Husova 17, Old Town\n**What makes it special:** Former hangout of writer Bohumil Hrabal and President Václav Havel\n\nThis tiny pub serves only beer and simple snacks, but the atmosphere is pure Prague. It's where intellectuals, writers, and locals have gathered for decades.\n\n**Experience:** Order \"dvě piva\" (two beers) and soak in the authentic atmosphere\n**Warning:** No food menu, cash only, and they don't cater to tourists\n\n## Hidden Local Restaurants\n\n### Restaurace Na Kopci\n**Location:** Bořivojova 79, Vinohrady\n**Why locals love it:** Exceptional traditional Czech cuisine away from tourist areas\n\nThis family-run restaurant in the Vinohrady neighborhood serves some of the best traditional Czech food in Prague. The portions are generous, prices reasonable, and the atmosphere genuinely local.\n\n**Signature dishes:** \n- Roast duck with red cabbage and dumplings\n- Traditional beef goulash with fresh bread dumplings\n- Svíčková na smetaně (beef sirloin in cream sauce)\n\n**Local secret:** Ask for the daily special—it's usually the best value and freshest option.\n\n### Café Savoy - Elegant Tradition\n**Location:** Vítězná 5, Lesser Town\n**What makes it special:** Beautifully restored 1893 café with authentic Czech and Austrian cuisine\n\nWhile more upscale, Café Savoy maintains authentic Czech culinary traditions in an elegant setting. The interior is stunning, and the food quality exceptional.\n\n**Perfect for:** Special occasions or when you want traditional food in refined surroundings\n**Must try:** Their famous apple strudel and traditional Czech coffee\n\n### Mlejnice - Medieval Atmosphere\n**Location:** Kozí 14, Old Town\n**What makes it special:** Medieval-themed restaurant with excellent traditional food\n\nDespite being in the tourist area, Mlejnice maintains authentic Czech cuisine and reasonable prices. The medieval décor isn't just for show—the recipes are traditional too.\n\n**Atmosphere:** Candlelit medieval interior with wooden tables and benches\n**Best dishes:** Roasted meats, traditional stews, and their famous medieval feast\n\n## Modern Czech Cuisine\n\n### Eska - Contemporary Czech\n**Location:** Pernerova 49, Karlín\n**What makes it special:** Modern interpretation of Czech cuisine using local ingredients\n\nEska represents the new wave of Czech cuisine—traditional flavors with contemporary techniques. It's where young Prague chefs are reimagining our culinary heritage.\n\n**Experience:** Tasting menu featuring modern takes on Czech classics\n**Local perspective:** This is where Prague's food scene is heading\n\n### Kantýna - Casual Modern\n**Location:** Politických vězňů 5, New Town\n**What makes it special:** High-quality casual dining with Czech influences\n\nKantýna offers excellent food in a relaxed atmosphere. It's popular with Prague's creative professionals and represents the city's evolving food culture.\n\n**Perfect for:** Lunch meetings or casual dinners\n**Highlights:** Fresh ingredients, reasonable prices, modern atmosphere\n\n## Street Food and Quick Bites\n\n### Trdelník - The Tourist Trap Truth\n**Reality check:** Despite being everywhere in tourist areas, trdelník is NOT traditional Czech food. It's a modern tourist creation.\n\n**Authentic alternatives:**\n- **Chlebíčky:** Open-faced sandwiches from any local deli\n- **Klobása:** Czech sausages from street vendors\n- **Langoš:** Fried flatbread (originally Hungarian but adopted locally)\n\n### Wenceslas Square Food Stands\n**What to look for:** Stands serving locals, not just tourists\n**Best options:** \n- Grilled sausages with mustard and bread\n- Hot wine (svařák) in winter\n- Fresh pretzels (preclíky)\n\n**Local tip:** If you see Czech people in line, the food is probably good and authentic.\n\n## Neighborhood Food Scenes\n\n### Vinohrady - The Foodie District\nThis residential area offers the best concentration of authentic local restaurants.\n\n**Local favorites:**\n- **Krystal Mozaika Bistro:** Modern Czech cuisine\n- **Restaurace Rybárna:** Excellent fish and seafood\n- **Café Louvre:** Historic café with traditional atmosphere\n\n### Karlín - The Hip Quarter\nFormer industrial area now home to Prague's most innovative restaurants.\n\n**Must-visit spots:**\n- **Eska:** Modern Czech fine dining\n- **Krystal:** Contemporary European cuisine\n- **Karlín Market:** Weekend farmers market with local producers\n\n### Smíchov - The Local Secret\nResidential area with authentic neighborhood restaurants.\n\n**Hidden gems:**\n- **U Bílé kuželky:** Traditional pub with excellent food\n- **Restaurace Zlatý Klas:** Family-run restaurant with home-style cooking\n\n## Seasonal Food Experiences\n\n### Spring (March-May)\n- **Fresh asparagus season:** Look for special asparagus menus\n- **Easter specialties:** Traditional Czech Easter foods\n- **Beer garden reopening:** Outdoor dining returns\n\n### Summer (June-August)\n- **Beer garden season:** Outdoor dining at its peak\n- **Fresh fruit and vegetables:** Farmers markets in full swing\n- **Outdoor festivals:** Food trucks and street food events\n\n### Autumn (September-November)\n- **Mushroom season:** Wild mushroom dishes in restaurants\n- **Wine harvest:** New wine and harvest festivals\n- **Game season:** Traditional hunting dishes appear on menus\n\n### Winter (December-February)\n- **Christmas markets:** Traditional holiday foods and drinks\n- **Hearty stews and roasts:** Perfect for cold weather\n- **Hot drinks:** Mulled wine and hot chocolate culture\n\n## How to Eat Like a Local\n\n### Pub Etiquette\n- **Beer ordering:** Hold up fingers for number of beers\n- **Table sharing:** Common in busy pubs, don't be surprised\n- **Payment:** Usually cash, pay when leaving\n- **Tipping:** Round up to nearest 10 crowns or 10%\n\n### Restaurant Tips\n- **Lunch specials:** Many restaurants offer excellent lunch deals\n- **Bread charges:** Some places charge for bread brought to table\n- **Water:** Tap water is excellent and free, but you may need to ask\n- **Reservations:** Recommended for dinner, especially weekends\n\n### Language Help\n- **\"Dobrý den\"** (DOH-bree den) - Hello\n- **\"Děkuji\"** (DYEH-koo-yee) - Thank you\n- **\"Účet, prosím\"** (OO-chet PROH-seem) - Check, please\n- **\"Pivo\"** (PEE-voh) - Beer\n\n## Food Tour Recommendations\n\n### Traditional Czech Experience\n1. Start with beer at a traditional hospoda\n2. Try svíčková at a family restaurant\n3. End with coffee and cake at a historic café\n\n### Modern Prague Food Scene\n1. Lunch at a contemporary bistro\n2. Afternoon coffee in Karlín\n3. Dinner at a modern Czech restaurant\n\n### Market and Street Food Tour\n1. Morning at a local farmers market\n2. Street food lunch in Wenceslas Square\n3. Traditional pub dinner\n\n## Avoiding Tourist Traps\n\n### Red Flags\n- Menus in multiple languages with pictures\n- Restaurants with people in costumes outside\n- Places directly on major tourist squares\n- Overpriced \"traditional\" dishes\n\n### Green Flags\n- Menus primarily in Czech\n- Locals eating there\n- Reasonable prices (main dishes 200-400 CZK)\n- Simple, unpretentious atmosphere\n\n## Seasonal Specialties to Try\n\n### Spring\n- **Asparagus dishes:** Fresh local asparagus preparations\n- **Easter lamb:** Traditional Easter specialty\n- **Fresh herbs:** Wild garlic and spring onion dishes\n\n### Summer\n- **Cold soups:** Refreshing summer starters\n- **Grilled meats:** Beer garden barbecue specialties\n- **Fresh salads:** Light summer fare\n\n### Autumn\n- **Wild mushrooms:** Foraged mushroom dishes\n- **Game meats:** Venison and wild boar preparations\n- **New wine:** Fresh wine from Czech vineyards\n\n### Winter\n- **Hearty stews:** Warming winter comfort food\n- **Roasted meats:** Traditional holiday preparations\n- **Hot drinks:** Mulled wine and hot chocolate\n\n## Experience Authentic Prague Food\n\nFood is one of the best ways to understand Prague's culture and history. Every dish tells a story about our past, our traditions, and our way of life.\n\n**Want to experience Prague's food culture with local insights?** [Join me for a food-focused tour](/en/tours/prague-food-culture) where I'll take you to my personal favorite spots and share the stories behind Prague's culinary traditions.\n\n---\n\n*Filip Kareta has been exploring Prague's food scene his entire life. As a local guide, he loves sharing authentic culinary experiences that reveal the true character of Prague through its food and drink culture.*\n",
-    "readingTime": 8,
-    "publishedAt": "2024-03-05",
-    "updatedAt": "2025-08-29T22:40:12.125Z"
-  },
-  {
-    "slug": "prague-photography-tips",
-    "frontmatter": {
-      "title": {
-        "en": "Photography in Prague: Pro Tips for Capturing the Perfect Shot",
-        "de": "Fotografie in Prag: Profi-Tipps für den perfekten Schuss",
-        "fr": "Photographie à Prague : Conseils de pro pour capturer le cliché parfait"
-      },
-      "excerpt": {
-        "en": "Master Prague photography with insider tips from a local guide. Learn the best times, locations, and techniques for capturing Prague's stunning architecture and atmosphere.",
-        "de": "Meistern Sie die Prag-Fotografie mit Insider-Tipps von einem lokalen Guide. Lernen Sie die besten Zeiten, Orte und Techniken, um Prags atemberaubende Architektur und Atmosphäre einzufangen.",
-        "fr": "Maîtrisez la photographie de Prague avec des conseils d'initiés d'un guide local. Apprenez les meilleurs moments, lieux et techniques pour capturer l'architecture et l'atmosphère époustouflantes de Prague."
-      },
-      "publishedAt": "2024-03-20",
-      "category": "Photography",
-      "tags": [
-        "Prague photography",
-        "photography tips",
-        "travel photography",
-        "architecture photography",
-        "golden hour"
-      ],
-      "featuredImage": "/images/blog/prague-photography-tips-hero.webp",
-      "author": "Filip Kareta",
-      "relatedTours": [
-        "prague-castle",
-        "old-town-jewish-quarter",
-        "lesser-town-castle-district"
-      ],
-      "seoTitle": {
-        "en": "Prague Photography Guide 2024 | Pro Tips by Local Expert Filip Kareta",
-        "de": "Prag Fotografie-Leitfaden 2024 | Profi-Tipps vom lokalen Experten Filip Kareta",
-        "fr": "Guide Photographie Prague 2024 | Conseils Pro par l'Expert Local Filip Kareta"
-      },
-      "seoDescription": {
-        "en": "Master Prague photography with expert tips from local guide Filip Kareta. Best locations, timing, camera settings, and insider secrets for stunning Prague photos.",
-        "de": "Meistern Sie die Prag-Fotografie mit Experten-Tipps vom lokalen Guide Filip Kareta. Beste Orte, Timing, Kameraeinstellungen und Insider-Geheimnisse für atemberaubende Prag-Fotos.",
-        "fr": "Maîtrisez la photographie de Prague avec des conseils d'experts du guide local Filip Kareta. Meilleurs emplacements, timing, réglages d'appareil photo et secrets d'initiés pour des photos époustouflantes de Prague."
-      },
-      "seoKeywords": [
-        "Prague photography tips",
-        "Prague photo spots",
-        "photography guide Prague",
-        "best Prague photos",
-        "Prague camera settings",
-        "golden hour Prague"
-      ]
-    },
-    "content": "\n# Photography in Prague: Pro Tips for Capturing the Perfect Shot\n\n*As someone who has photographed Prague for over a decade and guided countless photography enthusiasts through the city, I've learned that great Prague photos aren't just about having the right camera—they're about understanding the city's rhythm, light, and hidden perspectives. Here are my insider secrets for capturing Prague's magic.*\n\n## Understanding Prague's Photographic Character\n\nPrague is a photographer's dream, but it's also challenging. The city's beauty lies in its layers—Gothic spires piercing baroque facades, medieval streets opening onto grand squares, ancient bridges reflecting in flowing water. The key is learning to see these layers and capture them in a single frame.\n\n### What Makes Prague Special for Photography\n\n**Architectural Diversity**\n- Gothic cathedrals with soaring spires\n- Baroque palaces with ornate facades\n- Art Nouveau buildings with flowing lines\n- Medieval streets with intimate scale\n- Modern architecture creating interesting contrasts\n\n**Natural Light Conditions**\n- Dramatic skies year-round\n- Golden hour magic enhanced by red rooftops\n- Blue hour perfection with illuminated monuments\n- Atmospheric fog and mist in autumn and winter\n- Snow creating fairy-tale scenes\n\n## Essential Camera Settings for Prague\n\n### Golden Hour Settings (1 hour before sunset)\n- **Aperture:** f/8-f/11 for sharp landscapes\n- **ISO:** 100-400 to maintain image quality\n- **Shutter Speed:** 1/60s or faster for handheld shots\n- **White Balance:** Daylight or slightly warm\n- **Focus:** Single-point AF on your main subject\n\n### Blue Hour Settings (30 minutes after sunset)\n- **Aperture:** f/5.6-f/8 for good depth of field\n- **ISO:** 800-1600 depending on your camera\n- **Shutter Speed:** 1-4 seconds (tripod essential)\n- **White Balance:** Auto or tungsten\n- **Focus:** Manual focus on infinity for cityscapes\n\n### Overcast Day Settings\n- **Aperture:** f/4-f/8 for flexibility\n- **ISO:** 400-800 for adequate shutter speeds\n- **Shutter Speed:** Adjust for proper exposure\n- **White Balance:** Cloudy setting\n- **Focus:** Continuous AF for moving subjects\n\n## The Best Photography Locations\n\n### 1. Charles Bridge - The Icon\n**Best Times:** Sunrise (6:30-7:30 AM) and blue hour\n**Pro Tips:**\n- Arrive early to avoid crowds\n- Use the bridge towers for elevated perspectives\n- Capture reflections in the Vltava River\n- Include the statues as foreground elements\n\n**Camera Settings:**\n- Wide-angle lens (14-24mm) for full bridge shots\n- Telephoto lens (70-200mm) for statue details\n- Polarizing filter to reduce water reflections\n\n### 2. Prague Castle - The Majestic\n**Best Times:** Golden hour from Petřín Hill or Letná Park\n**Pro Tips:**\n- Shoot from multiple viewpoints for variety\n- Include foreground elements like trees or buildings\n- Use the castle's size to show scale\n- Capture both wide shots and architectural details\n\n**Composition Ideas:**\n- Frame the castle through tree branches\n- Use the Vltava River as a leading line\n- Include red rooftops for color contrast\n- Shoot vertical for cathedral spires\n\n### 3. Old Town Square - The Heart\n**Best Times:** Early morning (7-8 AM) or evening (6-7 PM)\n**Pro Tips:**\n- Use the Astronomical Clock as your focal point\n- Capture the hourly show with burst mode\n- Include the surrounding colorful buildings\n- Shoot from the Old Town Hall tower for aerial views\n\n**Technical Challenges:**\n- Mixed lighting conditions\n- Crowds requiring patience\n- Complex architectural details\n- Wide dynamic range\n\n### 4. Lesser Town - The Elegant\n**Best Times:** Afternoon golden hour (4-6 PM)\n**Pro Tips:**\n- Focus on baroque architectural details\n- Use narrow streets for intimate compositions\n- Capture the contrast between grand palaces and small houses\n- Include cobblestone streets for texture\n\n### 5. Petřín Hill - The Panoramic\n**Best Times:** Sunset for city views, sunrise for castle shots\n**Pro Tips:**\n- Bring a tripod for sharp landscape shots\n- Use graduated neutral density filters for sky control\n- Shoot in RAW for maximum post-processing flexibility\n- Include the Petřín Tower for scale and interest\n\n## Seasonal Photography Strategies\n\n### Spring Photography (March-May)\n**What to Capture:**\n- Cherry blossoms in castle gardens\n- Fresh green foliage contrasting with stone\n- Dramatic spring skies with fast-moving clouds\n- Easter decorations and markets\n\n**Technical Considerations:**\n- Variable weather requires flexible settings\n- Longer days allow for extended shooting\n- Soft, diffused light perfect for portraits\n- Rain creates interesting reflections\n\n### Summer Photography (June-August)\n**What to Capture:**\n- Long golden hours lasting until 9 PM\n- Vibrant street life and outdoor dining\n- Festival activities and street performers\n- Lush green parks and gardens\n\n**Challenges:**\n- Harsh midday sun requiring shade or fill flash\n- Tourist crowds needing patience and timing\n- Heat haze affecting distant shots\n- Strong contrasts requiring HDR techniques\n\n### Autumn Photography (September-November)\n**What to Capture:**\n- Golden foliage in parks and along the river\n- Dramatic skies with interesting cloud formations\n- Warm light enhancing red rooftops\n- Atmospheric fog creating mood\n\n**Best Opportunities:**\n- Perfect lighting conditions\n- Comfortable temperatures for long shoots\n- Fewer tourists allowing better compositions\n- Rich colors throughout the city\n\n### Winter Photography (December-February)\n**What to Capture:**\n- Snow-covered red rooftops creating fairy-tale scenes\n- Christmas markets with warm lighting\n- Dramatic winter skies\n- Cozy interior shots of cafés and pubs\n\n**Technical Challenges:**\n- Cold weather affecting battery life\n- Snow requiring exposure compensation\n- Limited daylight hours\n- Slippery conditions requiring careful movement\n\n## Advanced Composition Techniques\n\n### Leading Lines\n- Use the Vltava River to guide the eye\n- Employ cobblestone patterns in streets\n- Utilize bridge arches for natural frames\n- Follow building lines toward vanishing points\n\n### Framing\n- Shoot through archways and doorways\n- Use tree branches to frame distant subjects\n- Employ bridge structures for natural frames\n- Create depth with foreground, middle ground, and background\n\n### Scale and Perspective\n- Include people to show architectural scale\n- Use wide-angle lenses for dramatic perspective\n- Shoot from low angles to emphasize height\n- Employ telephoto compression for layered compositions\n\n### Color Theory\n- Contrast warm building lights with cool blue skies\n- Use complementary colors (red rooftops, green copper)\n- Employ monochromatic schemes in fog or snow\n- Balance warm and cool tones for visual harmony\n\n## Equipment Recommendations\n\n### Essential Gear\n**Camera Body:**\n- Full-frame for best low-light performance\n- Weather sealing for Prague's variable conditions\n- Good high-ISO performance for blue hour shots\n\n**Lenses:**\n- 14-24mm wide-angle for architecture and landscapes\n- 24-70mm standard zoom for versatility\n- 70-200mm telephoto for details and compression\n- 50mm prime for street photography and portraits\n\n**Accessories:**\n- Sturdy tripod for long exposures\n- Polarizing filter for sky contrast and reflection control\n- Graduated neutral density filters for high contrast scenes\n- Extra batteries (cold weather drains them quickly)\n- Lens cleaning kit for Prague's dusty conditions\n\n### Smartphone Photography Tips\n**Camera App Settings:**\n- Shoot in RAW if available\n- Use manual mode for consistent exposure\n- Enable grid lines for composition\n- Turn on HDR for high contrast scenes\n\n**Accessories:**\n- Smartphone tripod for stability\n- External lenses for wide-angle shots\n- Portable battery pack for extended shooting\n- Waterproof case for weather protection\n\n## Post-Processing Prague Photos\n\n### Essential Adjustments\n**Exposure and Contrast:**\n- Lift shadows to reveal architectural details\n- Control highlights to retain sky information\n- Increase contrast for dramatic effect\n- Use graduated adjustments for skies\n\n**Color Grading:**\n- Enhance the warm tones of golden hour\n- Cool down blue hour shots for mood\n- Increase vibrance for autumn colors\n- Desaturate for moody, atmospheric shots\n\n**Sharpening and Clarity:**\n- Add clarity to enhance architectural details\n- Use masking to avoid over-sharpening skies\n- Apply lens corrections for wide-angle distortion\n- Remove chromatic aberration from high-contrast edges\n\n### Prague-Specific Techniques\n**Enhancing Red Rooftops:**\n- Selective color adjustments to boost reds\n- Luminosity masking for precise control\n- Gradient maps for color harmony\n- Local adjustments for individual buildings\n\n**Sky Replacement:**\n- Capture dramatic skies separately\n- Use luminosity masks for natural blending\n- Match lighting direction and color temperature\n- Maintain realistic proportions and perspective\n\n## Photography Etiquette in Prague\n\n### Respectful Photography\n**Religious Sites:**\n- Check photography policies before shooting\n- Avoid flash in churches and synagogues\n- Be respectful during services\n- Ask permission for interior shots\n\n**Private Property:**\n- Respect \"No Photography\" signs\n- Ask permission before photographing people\n- Don't enter private courtyards without permission\n- Be mindful of residents in residential areas\n\n**Tourist Considerations:**\n- Don't block pathways for photos\n- Be patient and courteous with other photographers\n- Share good viewpoints with fellow travelers\n- Help others with photography tips when asked\n\n## Joining Photography Tours\n\nWhile these tips will help you capture great Prague photos independently, there's nothing quite like exploring with a local photographer who knows the city's secrets.\n\n**Benefits of Photography Tours:**\n- Access to hidden viewpoints\n- Perfect timing for best light\n- Local stories that add meaning to your photos\n- Technical guidance tailored to your skill level\n- Safety in unfamiliar areas\n\n**What to Expect:**\n- Small groups for personalized attention\n- Flexible itineraries based on conditions\n- Equipment advice and settings help\n- Post-processing tips and techniques\n\n## Seasonal Photography Workshops\n\n### Spring Workshop: \"Blooms and Architecture\"\n- Focus on combining natural elements with buildings\n- Master macro photography of spring flowers\n- Learn to balance natural and artificial lighting\n\n### Summer Workshop: \"Golden Hour Mastery\"\n- Extended shooting during long summer evenings\n- Street photography techniques\n- Festival and event photography\n\n### Autumn Workshop: \"Colors and Atmosphere\"\n- Landscape photography in city parks\n- Fog and mist photography techniques\n- Color theory and seasonal palettes\n\n### Winter Workshop: \"Snow and Light\"\n- Low-light photography techniques\n- Christmas market photography\n- Indoor photography in historic venues\n\n## Ready to Capture Prague's Magic?\n\nPrague offers endless photographic opportunities, but the best shots come from understanding the city's character and rhythm. Whether you're a beginner looking to improve your travel photography or an experienced photographer seeking new perspectives, Prague will challenge and inspire you.\n\n**Want to learn photography while exploring Prague?** [Join me for a photography-focused tour](/en/tours/prague-photography) where I'll share not just the best locations, but the techniques and stories that will make your Prague photos truly special.\n\n---\n\n*Filip Kareta combines his passion for Prague with his love of photography, helping visitors capture not just beautiful images, but meaningful memories of their Prague experience. His photography tours are designed for all skill levels and focus on both technical skills and creative vision.*\n",
-    "readingTime": 9,
-    "publishedAt": "2024-03-20",
-    "updatedAt": "2025-08-29T22:45:59.026Z"
-  },
-  {
-    "slug": "prague-seasonal-guide",
-    "frontmatter": {
-      "title": {
-        "en": "Prague Through the Seasons: When to Visit for the Perfect Experience",
-        "de": "Prag durch die Jahreszeiten: Wann Sie für das perfekte Erlebnis besuchen sollten",
-        "fr": "Prague à travers les saisons : Quand visiter pour l'expérience parfaite"
-      },
-      "excerpt": {
-        "en": "Discover the magic of Prague in every season. From spring blossoms to winter snow, learn when to visit Prague for your perfect experience and what unique attractions each season offers.",
-        "de": "Entdecken Sie die Magie Prags in jeder Jahreszeit. Von Frühlingsblüten bis Winterschnee - erfahren Sie, wann Sie Prag für Ihr perfektes Erlebnis besuchen sollten und welche einzigartigen Attraktionen jede Jahreszeit bietet.",
-        "fr": "Découvrez la magie de Prague en toute saison. Des fleurs de printemps à la neige d'hiver, apprenez quand visiter Prague pour votre expérience parfaite et quelles attractions uniques chaque saison offre."
-      },
-      "publishedAt": "2024-03-10",
-      "category": "Travel Planning",
-      "tags": [
-        "Prague seasons",
-        "when to visit Prague",
-        "Prague weather",
-        "seasonal attractions",
-        "travel planning"
-      ],
-      "featuredImage": "/images/blog/prague-seasons-collage.webp",
-      "author": "Filip Kareta",
-      "relatedTours": [
-        "prague-castle",
-        "old-town-jewish-quarter"
-      ],
-      "seoTitle": {
-        "en": "Best Time to Visit Prague 2024 | Seasonal Guide by Local Expert",
-        "de": "Beste Zeit für Prag-Besuch 2024 | Saisonaler Leitfaden vom lokalen Experten",
-        "fr": "Meilleur moment pour visiter Prague 2024 | Guide saisonnier par expert local"
-      },
-      "seoDescription": {
-        "en": "Discover the best time to visit Prague with local guide Filip Kareta. Complete seasonal guide covering weather, attractions, events, and insider tips for each season.",
-        "de": "Entdecken Sie die beste Zeit für einen Prag-Besuch mit lokalem Guide Filip Kareta. Vollständiger Saisonführer mit Wetter, Attraktionen, Veranstaltungen und Insider-Tipps für jede Jahreszeit.",
-        "fr": "Découvrez le meilleur moment pour visiter Prague avec le guide local Filip Kareta. Guide saisonnier complet couvrant météo, attractions, événements et conseils d'initiés pour chaque saison."
-      },
-      "seoKeywords": [
-        "best time visit Prague",
-        "Prague seasons",
-        "Prague weather guide",
-        "when to visit Prague",
-        "Prague seasonal attractions",
-        "Prague travel planning"
-      ]
-    },
-    "content": "\n# Prague Through the Seasons: When to Visit for the Perfect Experience\n\n*As someone who has lived in Prague my entire life and guided thousands of visitors through our beautiful city, I'm often asked: \"When is the best time to visit Prague?\" The truth is, Prague is magical year-round, but each season offers its own unique character and experiences. Let me share the insider's perspective on what makes each season special.*\n\n## Spring in Prague (March - May): The City Awakens\n\n### Weather & Atmosphere\n- **Temperature:** 8-18°C (46-64°F)\n- **Rainfall:** Moderate, pack a light rain jacket\n- **Daylight:** Increasing from 12 to 16 hours\n- **Crowds:** Moderate, perfect balance\n\nSpring is when Prague shakes off winter's slumber and bursts into life. The city's numerous parks and gardens bloom with cherry blossoms, daffodils, and tulips, creating a romantic backdrop for your explorations.\n\n### Spring Highlights\n\n**🌸 Cherry Blossom Season (April)**\n- Petřín Hill transforms into a pink paradise\n- Kampa Island's hidden cherry groves\n- Castle gardens come alive with color\n- Perfect for romantic photography\n\n**🎭 Cultural Awakening**\n- Prague Spring International Music Festival (May)\n- Outdoor concerts return to castle courtyards\n- Art galleries open special spring exhibitions\n- Street performers return to Old Town Square\n\n**💡 Insider Spring Tips:**\n- Book accommodations early—spring is increasingly popular\n- Pack layers—Prague spring weather can be unpredictable\n- Visit gardens early morning for the best light and fewer crowds\n- Take advantage of longer days for extended sightseeing\n\n### Best Spring Experiences\n- **Castle Gardens Tour:** When flowers are in full bloom\n- **Photography Walks:** Perfect light and blooming backgrounds\n- **River Cruises:** Comfortable weather and beautiful reflections\n\n## Summer in Prague (June - August): Festival Season\n\n### Weather & Atmosphere\n- **Temperature:** 15-25°C (59-77°F)\n- **Rainfall:** Occasional thunderstorms\n- **Daylight:** Up to 17 hours in June\n- **Crowds:** Peak season, book early\n\nSummer brings Prague's festival season, outdoor dining, and the longest days of the year. While it's the busiest time, it's also when the city is most alive with events and activities.\n\n### Summer Highlights\n\n**🎪 Festival Season**\n- Prague Summer Festival (classical music)\n- United Islands of Prague (world music)\n- Outdoor cinema in Letná Park\n- Beer garden season in full swing\n\n**🌅 Long Days, Magic Nights**\n- Sunset at 9 PM—perfect for evening tours\n- Outdoor dining along the Vltava River\n- Night photography opportunities\n- Extended sightseeing hours\n\n**🏰 Castle at Its Best**\n- All gardens and courtyards fully accessible\n- Extended opening hours\n- Outdoor concerts in castle courtyards\n- Perfect weather for walking tours\n\n**💡 Insider Summer Tips:**\n- Start tours early (8-9 AM) to beat crowds and heat\n- Book restaurants in advance, especially those with terraces\n- Carry water—Prague summers can be surprisingly warm\n- Take advantage of long days for multiple activities\n\n### Best Summer Experiences\n- **Evening Castle Tours:** Magical golden hour lighting\n- **River Activities:** Boat tours and waterfront dining\n- **Festival Tours:** Combine sightseeing with cultural events\n\n## Autumn in Prague (September - November): Golden Beauty\n\n### Weather & Atmosphere\n- **Temperature:** 5-15°C (41-59°F)\n- **Rainfall:** Moderate, beautiful dramatic skies\n- **Daylight:** Decreasing from 14 to 9 hours\n- **Crowds:** Moderate, excellent value\n\nAutumn is my personal favorite season in Prague. The city dresses in gold and amber, creating the most photogenic conditions of the year. The crowds thin out, but the weather remains pleasant for walking.\n\n### Autumn Highlights\n\n**🍂 Golden Foliage**\n- Petřín Hill becomes a golden carpet\n- Castle gardens in autumn colors\n- Vltava River reflections at their most beautiful\n- Perfect conditions for photography\n\n**🎨 Cultural Season Returns**\n- New theater and opera seasons begin\n- Art gallery autumn exhibitions\n- Classical concert season starts\n- Cozy café culture returns\n\n**🍺 Harvest Celebrations**\n- Czech wine harvest festivals\n- New beer releases from local breweries\n- Traditional autumn markets\n- Hearty Czech cuisine season\n\n**💡 Insider Autumn Tips:**\n- September is the secret best month—warm days, cool nights, fewer crowds\n- Pack layers—temperature can vary significantly\n- Book indoor activities as backup for rainy days\n- Take advantage of lower accommodation prices\n\n### Best Autumn Experiences\n- **Photography Tours:** Unbeatable lighting and colors\n- **Cultural Tours:** Perfect weather for museum and gallery visits\n- **Food Tours:** Seasonal Czech specialties and harvest celebrations\n\n## Winter in Prague (December - February): Fairy Tale Magic\n\n### Weather & Atmosphere\n- **Temperature:** -2 to 5°C (28-41°F)\n- **Snowfall:** Regular, creating magical scenes\n- **Daylight:** 8-10 hours, cozy atmosphere\n- **Crowds:** Lowest, most authentic experience\n\nWinter transforms Prague into a fairy tale city. Snow-covered red rooftops, Christmas markets, and cozy pubs create an atmosphere that's pure magic. This is when you'll experience Prague most authentically.\n\n### Winter Highlights\n\n**❄️ Snow-Covered Beauty**\n- Castle and cathedral in winter wonderland setting\n- Charles Bridge with snow-capped statues\n- Old Town Square Christmas market\n- Cozy medieval atmosphere\n\n**🎄 Christmas Magic (December)**\n- Traditional Christmas markets\n- Mulled wine and traditional treats\n- Christmas concerts in historic churches\n- Festive decorations throughout the city\n\n**🔥 Cozy Indoor Culture**\n- Traditional Czech pubs at their coziest\n- Classical concerts in heated venues\n- Museum and gallery season\n- Hot chocolate and coffee culture\n\n**💡 Insider Winter Tips:**\n- Dress warmly in layers—Prague winters are genuinely cold\n- Waterproof boots essential for snowy cobblestones\n- Book indoor activities and heated venues\n- Take advantage of lowest prices and smallest crowds\n\n### Best Winter Experiences\n- **Christmas Market Tours:** Authentic holiday atmosphere\n- **Indoor Cultural Tours:** Museums, galleries, and historic interiors\n- **Pub Tours:** Warm up with traditional Czech hospitality\n\n## Choosing Your Perfect Season\n\n### For First-Time Visitors\n**Best choice:** **Late spring (April-May)** or **early autumn (September-October)**\n- Perfect weather for walking\n- Moderate crowds\n- All attractions open\n- Great photography conditions\n\n### For Photography Enthusiasts\n**Best choice:** **Autumn (September-November)**\n- Golden hour lighting\n- Dramatic skies\n- Colorful foliage\n- Fewer people in shots\n\n### For Budget Travelers\n**Best choice:** **Winter (January-February)**\n- Lowest accommodation prices\n- Fewer crowds\n- Authentic local experience\n- Cozy indoor attractions\n\n### For Festival Lovers\n**Best choice:** **Summer (June-August)**\n- Maximum events and festivals\n- Outdoor concerts and performances\n- Vibrant street life\n- Extended daylight hours\n\n## Seasonal Tour Recommendations\n\n### Spring Tours\n- **Castle Gardens Specialty Tour:** When flowers are blooming\n- **Photography Workshop:** Perfect light and blooming backgrounds\n- **Architecture Tour:** Comfortable weather for detailed exploration\n\n### Summer Tours\n- **Evening Castle Tour:** Take advantage of long days\n- **River and Bridges Tour:** Beautiful weather for waterfront walks\n- **Festival Culture Tour:** Combine sightseeing with events\n\n### Autumn Tours\n- **Photography Masterclass:** Unbeatable lighting conditions\n- **Hidden Gardens Tour:** Autumn colors in secret spaces\n- **Cultural Heritage Tour:** Perfect weather for comprehensive exploration\n\n### Winter Tours\n- **Christmas Markets Tour:** Festive atmosphere and traditions\n- **Indoor Treasures Tour:** Museums, galleries, and historic interiors\n- **Cozy Prague Tour:** Pubs, cafés, and warm indoor spaces\n\n## Year-Round Booking Tips\n\n### Advance Planning\n- **Spring & Summer:** Book 2-3 months ahead\n- **Autumn:** Book 1-2 months ahead\n- **Winter:** Book 2-4 weeks ahead\n\n### Flexible Dates\n- Weekdays are always less crowded\n- Avoid major holidays and festivals unless that's your goal\n- Consider shoulder seasons for best value\n\n### Weather Contingencies\n- All my tours operate rain or shine\n- Indoor alternatives available for severe weather\n- Appropriate clothing recommendations provided\n\n## My Personal Recommendation\n\nIf I had to choose one perfect time to experience Prague, it would be **late September to early October**. The weather is still warm enough for comfortable walking, the autumn colors are spectacular, the crowds have thinned out, and Prague reveals its most photogenic character.\n\nBut honestly, every season has shown me something new about my city. Prague in winter snow is pure magic. Spring brings hope and renewal. Summer pulses with life and energy. Each season tells a different story.\n\n**Ready to experience Prague in your favorite season?** [Book a tour](/en/tours) and let me show you why Prague is beautiful year-round, with stories and secrets that change with the seasons.\n\n---\n\n*Filip Kareta has been guiding visitors through Prague for over a decade, experiencing the city's beauty in all seasons. His seasonal tours are specially designed to highlight what makes each time of year unique in Prague.*\n",
-    "readingTime": 7,
-    "publishedAt": "2024-03-10",
-    "updatedAt": "2025-08-29T22:38:23.925Z"
-  }
-];
-
-export function getLocalizedContent<T extends Record<Locale, string>>(
-  content: T, 
-  locale: Locale
-): string {
-  return content[locale] || content.en || Object.values(content)[0] || '';
-}
-
-export function getAllBlogPosts(): ProcessedBlogPost[] {
-  return blogPosts.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
-}
-
-export function getBlogPostBySlug(slug: string): ProcessedBlogPost | null {
-  return blogPosts.find(post => post.slug === slug) || null;
-}
-
-export function getBlogPostsByCategory(category: string): ProcessedBlogPost[] {
-  return blogPosts.filter(post => post.frontmatter.category === category)
-    .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
-}
-
-export function getBlogPostsByTag(tag: string): ProcessedBlogPost[] {
-  return blogPosts.filter(post => post.frontmatter.tags.includes(tag))
-    .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
-}
-
-export function getPaginatedBlogPosts(
-  page: number = 1, 
-  postsPerPage: number = 6,
-  category?: string,
-  tag?: string
-): {
-  posts: ProcessedBlogPost[];
-  totalPages: number;
-  currentPage: number;
-  hasNextPage: boolean;
-  hasPrevPage: boolean;
-  totalPosts: number;
-} {
-  let allPosts = getAllBlogPosts();
-  
-  if (category) {
-    allPosts = getBlogPostsByCategory(category);
-  } else if (tag) {
-    allPosts = getBlogPostsByTag(tag);
-  }
-
-  const totalPosts = allPosts.length;
-  const totalPages = Math.ceil(totalPosts / postsPerPage);
-  const startIndex = (page - 1) * postsPerPage;
-  const endIndex = startIndex + postsPerPage;
-  const posts = allPosts.slice(startIndex, endIndex);
-
-  return {
-    posts,
-    totalPages,
-    currentPage: page,
-    hasNextPage: page < totalPages,
-    hasPrevPage: page > 1,
-    totalPosts,
-  };
-}
-
-export function getRelatedBlogPosts(currentSlug: string, limit: number = 3): ProcessedBlogPost[] {
-  const currentPost = getBlogPostBySlug(currentSlug);
-  if (!currentPost) return [];
-
-  const allPosts = getAllBlogPosts().filter(post => post.slug !== currentSlug);
-  
-  // Score posts based on shared tags and category
-  const scoredPosts = allPosts.map(post => {
-    let score = 0;
-    
-    // Same category gets higher score
-    if (post.frontmatter.category === currentPost.frontmatter.category) {
-      score += 3;
-    }
-    
-    // Shared tags get points
-    const sharedTags = post.frontmatter.tags.filter(tag => 
-      currentPost.frontmatter.tags.includes(tag)
-    );
-    score += sharedTags.length;
-    
-    return { post, score };
-  });
-
-  // Sort by score and return top posts
-  return scoredPosts
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit)
-    .map(item => item.post);
-}
-
-export function getAllBlogTags(): string[] {
-  const tags = new Set<string>();
-  
-  blogPosts.forEach(post => {
-    post.frontmatter.tags.forEach(tag => tags.add(tag));
-  });
-  
-  return Array.from(tags).sort();
-}
-
-export function getAllBlogCategories(): Array<{
-  slug: string;
-  name: Record<Locale, string>;
-  description: Record<Locale, string>;
-  postCount: number;
-}> {
-  const categoryData = {
-    'travel-guides': {
-      name: {
-        en: 'Travel Guides',
-        de: 'Reiseführer',
-        fr: 'Guides de voyage',
-      },
-      description: {
-        en: 'Comprehensive guides to help you explore Prague like a local',
-        de: 'Umfassende Leitfäden, um Prag wie ein Einheimischer zu erkunden',
-        fr: 'Guides complets pour explorer Prague comme un local',
-      },
-    },
-    'food-drink': {
-      name: {
-        en: 'Food & Drink',
-        de: 'Essen & Trinken',
-        fr: 'Nourriture & Boisson',
-      },
-      description: {
-        en: 'Discover authentic Czech cuisine and local dining experiences',
-        de: 'Entdecken Sie authentische tschechische Küche und lokale Gastronomie',
-        fr: 'Découvrez la cuisine tchèque authentique et les expériences culinaires locales',
-      },
-    },
-    'history-legends': {
-      name: {
-        en: 'History & Legends',
-        de: 'Geschichte & Legenden',
-        fr: 'Histoire & Légendes',
-      },
-      description: {
-        en: 'Fascinating stories and legends from Prague\'s rich history',
-        de: 'Faszinierende Geschichten und Legenden aus Prags reicher Geschichte',
-        fr: 'Histoires fascinantes et légendes de la riche histoire de Prague',
-      },
-    },
-    'practical-tips': {
-      name: {
-        en: 'Practical Tips',
-        de: 'Praktische Tipps',
-        fr: 'Conseils pratiques',
-      },
-      description: {
-        en: 'Essential tips and advice for visiting Prague',
-        de: 'Wichtige Tipps und Ratschläge für den Besuch in Prag',
-        fr: 'Conseils essentiels et conseils pour visiter Prague',
-      },
-    },
-  };
-
-  const categories = new Set<string>();
-  blogPosts.forEach(post => {
-    categories.add(post.frontmatter.category);
-  });
-
-  return Array.from(categories).map(slug => {
-    const categoryInfo = categoryData[slug as keyof typeof categoryData] || {
-      name: { en: slug.replace('-', ' '), de: slug.replace('-', ' '), fr: slug.replace('-', ' ') },
-      description: { en: `Posts about ${slug.replace('-', ' ')}`, de: `Beiträge über ${slug.replace('-', ' ')}`, fr: `Articles sur ${slug.replace('-', ' ')}` },
-    };
-    
-    return {
-      slug,
-      ...categoryInfo,
-      postCount: blogPosts.filter(post => post.frontmatter.category === slug).length,
-    };
-  }).sort((a, b) => b.postCount - a.postCount);
-}
-
-export function getBlogPostUrl(slug: string, locale: Locale): string {
-  return `/${locale}/blog/${slug}`;
-}
-
-export function getBlogCategoryUrl(category: string, locale: Locale): string {
-  return `/${locale}/blog/category/${category}`;
-}
-
-export function getBlogTagUrl(tag: string, locale: Locale): string {
-  return `/${locale}/blog?tag=${encodeURIComponent(tag)}`;
-}
-
-export function searchBlogPosts(query: string, locale: Locale): ProcessedBlogPost[] {
-  const allPosts = getAllBlogPosts();
-  const searchTerm = query.toLowerCase();
-
-  return allPosts.filter(post => {
-    const title = getLocalizedContent(post.frontmatter.title, locale).toLowerCase();
-    const excerpt = getLocalizedContent(post.frontmatter.excerpt, locale).toLowerCase();
-    const content = post.content.toLowerCase();
-    const tags = post.frontmatter.tags.join(' ').toLowerCase();
-    
-    return title.includes(searchTerm) || 
-           excerpt.includes(searchTerm) || 
-           content.includes(searchTerm) || 
-           tags.includes(searchTerm);
-  });
-}
@@ -0,0 +1,74 @@
+// Locale registry
+// The one list of site locales. Routing, the middleware, the language switcher, sitemaps, hreflang and content typing all read it.
+// project.inlang/settings.json must list the same locales; `npm run check:i18n` verifies that and every translation.
+
+export interface LocaleInfo {
+  name: string; // in the locale's own language
+  englishName: string; // admin screens and validation messages
+  shortName: string; // language switcher label
+  flag: string;
+  hreflang: string;
+  intlLocale: string; // dates and numbers
+  currency: string;
+}
+
+export const LOCALE_REGISTRY = {
+  en: { name: 'English', englishName: 'English', shortName: 'EN', flag: '🇺🇸', hreflang: 'en', intlLocale: 'en-US', currency: 'USD' },
+  de: { name: 'Deutsch', englishName: 'German', shortName: 'DE', flag: '🇩🇪', hreflang: 'de', intlLocale: 'de-DE', currency: 'EUR' },
+  fr: { name: 'Français', englishName: 'French', shortName: 'FR', flag: '🇫🇷', hreflang: 'fr', intlLocale: 'fr-FR', currency: 'EUR' },
+  cs: { name: 'Čeština', englishName: 'Czech', shortName: 'CZ', flag: '🇨🇿', hreflang: 'cs', intlLocale: 'cs-CZ', currency: 'CZK' },
+} as const satisfies Record<string, LocaleInfo>;
+
+export type Locale = keyof typeof LOCALE_REGISTRY;
+
+export const LOCALES = Object.keys(LOCALE_REGISTRY) as Locale[];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// URL prefixes that redirect to a registry locale. "cz" is the country code many visitors type for Czech.
+export const LOCALE_ALIASES: Record<string, Locale> = {
+  cz: 'cs',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALE_REGISTRY, value);
+}
+
+// The first supported language in an Accept-Language header, e.g. "de-AT,de;q=0.9,en;q=0.8"
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  const preferred = (acceptLanguage || '')
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.find(param => param.trim().startsWith('q='));
+      return { language: tag.split('-')[0].toLowerCase(), quality: quality ? parseFloat(quality.trim().slice(2)) : 1 };
+    })
+    .filter(({ language, quality }) => language && quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  return preferred.find(({ language }) => isLocale(language))?.language as Locale || DEFAULT_LOCALE;
+}
+
+// The locale a path starts with, e.g. "/de/tours" -> "de"
+export function getPathLocale(pathname: string): Locale | null {
+  const segment = pathname.split('/')[1];
+  return isLocale(segment) ? segment : null;
+}
+
+// "/de/tours/prague-castle" -> "/tours/prague-castle"
+export function stripLocale(pathname: string): string {
+  const locale = getPathLocale(pathname);
+  return locale ? pathname.slice(locale.length + 1) || '/' : pathname;
+}
+
+// "/cz/tours" -> "/cs/tours", or null when the path doesn't start with an alias
+export function resolveLocaleAlias(pathname: string): string | null {
+  const segment = pathname.split('/')[1];
+  if (!Object.prototype.hasOwnProperty.call(LOCALE_ALIASES, segment)) return null;
+  return `/${LOCALE_ALIASES[segment]}${pathname.slice(segment.length + 1)}`;
+}
+
+// The same page in another locale
+export function localizePath(pathname: string, locale: Locale): string {
+  const path = stripLocale(pathname);
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
@@ -0,0 +1,186 @@
+// Contact form inquiries
+// Spam checks, storage and the admin inbox workflow (answer, archive)
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getJsonStore } from '@/lib/json-store';
+import {
+  sendInquiryNotificationEmail,
+  sendInquiryAcknowledgementEmail,
+  sendInquiryReplyEmail,
+} from '@/lib/email-service';
+import type { Locale } from '@/types';
+
+// Humans take a few seconds to fill in the form; bots post immediately
+export const MIN_FORM_FILL_MS = 3000;
+
+// Older form tokens are refused, so a harvested token can't be replayed for long
+export const FORM_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type InquiryStatus = 'new' | 'answered' | 'archived';
+
+export interface InquiryReply {
+  message: string;
+  sentAt: string;
+}
+
+export interface Inquiry {
+  id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  tourId?: string;
+  message: string;
+  locale: Locale;
+  status: InquiryStatus;
+  replies: InquiryReply[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewInquiry = Pick<Inquiry, 'name' | 'email' | 'phone' | 'tourId' | 'message' | 'locale'>;
+
+export interface SpamSignals {
+  honeypot?: string;
+  formToken?: string | null; // from createFormToken when the form was rendered
+}
+
+const inquiryStore = () =>
+  getJsonStore<{ inquiries: Inquiry[] }>(
+    process.env.INQUIRIES_FILE || 'inquiries.json',
+    () => ({ inquiries: [] })
+  );
+
+function getFormSecret(): string {
+  return process.env.JWT_SECRET || 'fallback-secret-for-development-only';
+}
+
+function signFormTime(issuedAt: number): string {
+  return createHmac('sha256', getFormSecret()).update(`contact:${issuedAt}`).digest('hex');
+}
+
+// "<issuedAt>.<signature>" - the server's render time, which the client can't backdate
+export function createFormToken(now: number = Date.now()): string {
+  return `${now}.${signFormTime(now)}`;
+}
+
+// When a token we signed was issued, however long ago, or null if it is forged
+function getTokenIssuedAt(token: string | null | undefined, now: number): number | null {
+  const [issued, signature] = (token || '').split('.');
+  const issuedAt = Number(issued);
+  if (!signature || !Number.isSafeInteger(issuedAt) || issuedAt > now) {
+    return null;
+  }
+
+  const expected = Buffer.from(signFormTime(issuedAt), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? issuedAt : null;
+}
+
+// When the token was issued, or null if it is forged or expired
+export function readFormToken(token: string | null | undefined, now: number = Date.now()): number | null {
+  const issuedAt = getTokenIssuedAt(token, now);
+  return issuedAt !== null && now - issuedAt <= FORM_TOKEN_TTL_MS ? issuedAt : null;
+}
+
+// A missing or expired token means the visitor's form went stale, not that they are a bot.
+// They are asked to send again with a fresh token instead of having the message dropped.
+export function needsNewFormToken(token: string | null | undefined, now: number = Date.now()): boolean {
+  if (!token) {
+    return true;
+  }
+
+  const issuedAt = getTokenIssuedAt(token, now);
+  return issuedAt !== null && now - issuedAt > FORM_TOKEN_TTL_MS;
+}
+
+// Returns the reason a submission looks automated, or null if it looks human
+export function detectSpam(signals: SpamSignals, now: number = Date.now()): string | null {
+  if (signals.honeypot && signals.honeypot.trim() !== '') {
+    return 'honeypot';
+  }
+
+  const startedAt = readFormToken(signals.formToken, now);
+  if (startedAt === null) {
+    return 'invalid_token';
+  }
+
+  if (now - startedAt < MIN_FORM_FILL_MS) {
+    return 'too_fast';
+  }
+
+  return null;
+}
+
+// Store the inquiry, then notify Filip and acknowledge the visitor - emails never fail the submission
+export async function createInquiry(data: NewInquiry): Promise<Inquiry> {
+  const now = new Date().toISOString();
+  const inquiry: Inquiry = {
+    ...data,
+    id: `inq_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    email: data.email.toLowerCase(),
+    status: 'new',
+    replies: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await inquiryStore().update(store => {
+    store.inquiries.push(inquiry);
+  });
+
+  try {
+    await sendInquiryNotificationEmail(inquiry);
+  } catch (emailError) {
+    console.error('Inquiry notification email failed:', emailError);
+  }
+
+  try {
+    await sendInquiryAcknowledgementEmail(inquiry);
+  } catch (emailError) {
+    console.error('Inquiry acknowledgement email failed:', emailError);
+  }
+
+  return inquiry;
+}
+
+export async function getInquiries(status?: InquiryStatus): Promise<Inquiry[]> {
+  const data = await inquiryStore().read();
+  return data.inquiries
+    .filter(inquiry => !status || inquiry.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+async function updateInquiry(
+  id: string,
+  change: (inquiry: Inquiry) => void
+): Promise<Inquiry | null> {
+  return inquiryStore().update(data => {
+    const inquiry = data.inquiries.find(i => i.id === id);
+    if (!inquiry) return null;
+
+    change(inquiry);
+    inquiry.updatedAt = new Date().toISOString();
+    return { ...inquiry };
+  });
+}
+
+// Email the reply first so an inquiry is only marked answered once the visitor has it
+export async function answerInquiry(id: string, message: string): Promise<Inquiry | null> {
+  const inquiry = (await inquiryStore().read()).inquiries.find(i => i.id === id);
+  if (!inquiry) {
+    return null;
+  }
+
+  await sendInquiryReplyEmail(inquiry, message);
+
+  return updateInquiry(id, stored => {
+    stored.replies.push({ message, sentAt: new Date().toISOString() });
+    stored.status = 'answered';
+  });
+}
+
+export function archiveInquiry(id: string): Promise<Inquiry | null> {
+  return updateInquiry(id, inquiry => {
+    inquiry.status = 'archived';
+  });
+}
@@ -0,0 +1,276 @@
+// Scheduled booking jobs
+// Persistent job table for reminders and follow-ups, run in batches by a cron-triggered route
+
+import { getJsonStore } from '@/lib/json-store';
+import { findStoredBooking, StoredBooking } from '@/lib/booking-store';
+import { parseTourDate } from '@/lib/tour-pricing';
+import { getTourConfig } from '@/lib/tour-catalog';
+import { createReviewPath } from '@/lib/verified-reviews';
+import {
+  sendBookingReminderEmail,
+  sendTourDayEmail,
+  sendReviewRequestEmail,
+} from '@/lib/email-service';
+
+export const JOB_CONFIG = {
+  maxAttempts: 5,
+  retryBaseMs: 5 * 60 * 1000, // doubled after every failed attempt
+  lockMs: 10 * 60 * 1000, // a crashed run frees its jobs after this
+  batchSize: 50,
+  retentionDays: 90,
+  tourDayHour: 8, // morning-of message, or two hours before an earlier tour
+  followUpHours: 3, // thank-you after the tour ends
+};
+
+export type JobType = 'booking-reminder' | 'tour-day' | 'review-request';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string; // type, booking and slot - scheduling the same job twice is a no-op
+  type: JobType;
+  bookingId: string;
+  slot: string; // "YYYY-MM-DD HH:MM" the job was planned for
+  runAt: string;
+  status: JobStatus;
+  attempts: number;
+  lastError?: string;
+  lockedUntil?: string;
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface JobRunSummary {
+  processed: number;
+  completed: number;
+  retried: number;
+  failed: number;
+  cancelled: number;
+}
+
+const DEFAULT_TOUR_DURATION_MINUTES = 180;
+const HOUR_MS = 60 * 60 * 1000;
+
+const jobStore = () =>
+  getJsonStore<{ jobs: Job[] }>(
+    process.env.JOBS_FILE || 'jobs.json',
+    () => ({ jobs: [] })
+  );
+
+const getSlot = (booking: Pick<StoredBooking, 'date' | 'startTime'>) => `${booking.date} ${booking.startTime}`;
+
+function getTourStart(booking: Pick<StoredBooking, 'date' | 'startTime'>): Date {
+  const [hours, minutes] = booking.startTime.split(':').map(Number);
+  const start = parseTourDate(booking.date);
+  start.setHours(hours, minutes, 0, 0);
+  return start;
+}
+
+// When each job should run for a booking's current slot
+function planJobs(booking: StoredBooking): Array<{ type: JobType; runAt: Date }> {
+  const start = getTourStart(booking);
+  const duration = getTourConfig(booking.tourId)?.duration || DEFAULT_TOUR_DURATION_MINUTES;
+
+  const morning = parseTourDate(booking.date);
+  morning.setHours(JOB_CONFIG.tourDayHour, 0, 0, 0);
+
+  return [
+    { type: 'booking-reminder', runAt: new Date(start.getTime() - 24 * HOUR_MS) },
+    { type: 'tour-day', runAt: new Date(Math.min(morning.getTime(), start.getTime() - 2 * HOUR_MS)) },
+    {
+      type: 'review-request',
+      runAt: new Date(start.getTime() + duration * 60 * 1000 + JOB_CONFIG.followUpHours * HOUR_MS),
+    },
+  ];
+}
+
+// Plan the reminder, morning-of message and follow-up for a booking's current slot.
+// Pending jobs for an earlier slot are cancelled, so this also handles reschedules.
+export async function scheduleBookingJobs(booking: StoredBooking, now: Date = new Date()): Promise<Job[]> {
+  if (booking.status === 'cancelled') {
+    await cancelBookingJobs(booking.id, 'Booking cancelled');
+    return [];
+  }
+
+  const slot = getSlot(booking);
+  const timestamp = now.toISOString();
+
+  return jobStore().update(data => {
+    for (const job of data.jobs) {
+      if (job.bookingId === booking.id && job.slot !== slot && job.status === 'pending') {
+        job.status = 'cancelled';
+        job.note = `Booking moved to ${slot}`;
+        job.updatedAt = timestamp;
+      }
+    }
+
+    const scheduled: Job[] = [];
+
+    for (const { type, runAt } of planJobs(booking)) {
+      // Too late to be useful, e.g. a reminder for a tour booked the same day
+      if (runAt <= now) continue;
+
+      const id = `${type}:${booking.id}:${slot}`;
+      const existing = data.jobs.find(job => job.id === id);
+
+      if (existing && existing.status !== 'cancelled') {
+        scheduled.push(existing);
+        continue;
+      }
+
+      const job: Job = {
+        id,
+        type,
+        bookingId: booking.id,
+        slot,
+        runAt: runAt.toISOString(),
+        status: 'pending',
+        attempts: 0,
+        createdAt: existing?.createdAt || timestamp,
+        updatedAt: timestamp,
+      };
+
+      data.jobs = data.jobs.filter(entry => entry.id !== id);
+      data.jobs.push(job);
+      scheduled.push(job);
+    }
+
+    return scheduled;
+  });
+}
+
+// Stop everything still waiting for a booking
+export async function cancelBookingJobs(bookingId: string, reason: string): Promise<number> {
+  const timestamp = new Date().toISOString();
+
+  return jobStore().update(data => {
+    let cancelled = 0;
+    for (const job of data.jobs) {
+      if (job.bookingId === bookingId && job.status === 'pending') {
+        job.status = 'cancelled';
+        job.note = reason;
+        job.updatedAt = timestamp;
+        cancelled++;
+      }
+    }
+    return cancelled;
+  });
+}
+
+export async function getJobs(filter: { status?: JobStatus; bookingId?: string } = {}): Promise<Job[]> {
+  const data = await jobStore().read();
+  return data.jobs
+    .filter(job => !filter.status || job.status === filter.status)
+    .filter(job => !filter.bookingId || job.bookingId === filter.bookingId)
+    .sort((a, b) => a.runAt.localeCompare(b.runAt));
+}
+
+// Signed link to the review form, only valid for this booking
+function getReviewUrl(booking: StoredBooking, now: Date): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://guidefilip-prague.com';
+  return `${baseUrl}/${booking.locale || 'en'}${createReviewPath(booking.id, now.getTime())}`;
+}
+
+// Send one job's email. Returns a reason when the job no longer applies.
+async function executeJob(job: Job, now: Date): Promise<string | undefined> {
+  const booking = await findStoredBooking(job.bookingId);
+
+  if (!booking) return 'Booking not found';
+  if (booking.status === 'cancelled') return 'Booking cancelled';
+  if (getSlot(booking) !== job.slot) return `Booking moved to ${getSlot(booking)}`;
+  if (job.type !== 'review-request' && getTourStart(booking) <= now) return 'Tour already started';
+
+  switch (job.type) {
+    case 'booking-reminder':
+      await sendBookingReminderEmail(booking);
+      break;
+    case 'tour-day':
+      await sendTourDayEmail(booking);
+      break;
+    case 'review-request':
+      await sendReviewRequestEmail(booking, getReviewUrl(booking, now));
+      break;
+  }
+
+  return undefined;
+}
+
+// Claim due jobs so overlapping runs never send the same email twice
+async function claimDueJobs(now: Date): Promise<Job[]> {
+  const timestamp = now.toISOString();
+  const cutoff = new Date(now.getTime() - JOB_CONFIG.retentionDays * 24 * HOUR_MS).toISOString();
+
+  return jobStore().update(data => {
+    data.jobs = data.jobs.filter(job =>
+      job.status === 'pending' || job.status === 'running' || job.updatedAt >= cutoff
+    );
+
+    const due = data.jobs
+      .filter(job =>
+        job.runAt <= timestamp &&
+        (job.status === 'pending' || (job.status === 'running' && (job.lockedUntil || '') <= timestamp))
+      )
+      .sort((a, b) => a.runAt.localeCompare(b.runAt))
+      .slice(0, JOB_CONFIG.batchSize);
+
+    for (const job of due) {
+      job.status = 'running';
+      job.attempts++;
+      job.lockedUntil = new Date(now.getTime() + JOB_CONFIG.lockMs).toISOString();
+      job.updatedAt = timestamp;
+    }
+
+    return due.map(job => ({ ...job }));
+  });
+}
+
+// Run every job that is due, retrying failures with exponential backoff
+export async function runDueJobs(now: Date = new Date()): Promise<JobRunSummary> {
+  const summary: JobRunSummary = { processed: 0, completed: 0, retried: 0, failed: 0, cancelled: 0 };
+  const claimed = await claimDueJobs(now);
+
+  for (const claimedJob of claimed) {
+    summary.processed++;
+
+    let skipReason: string | undefined;
+    let error: string | undefined;
+    try {
+      skipReason = await executeJob(claimedJob, now);
+    } catch (jobError) {
+      error = jobError instanceof Error ? jobError.message : String(jobError);
+      console.error(`Job ${claimedJob.id} failed (attempt ${claimedJob.attempts}):`, error);
+    }
+
+    await jobStore().update(data => {
+      const job = data.jobs.find(entry => entry.id === claimedJob.id);
+      if (!job) return;
+
+      const timestamp = new Date().toISOString();
+      job.lockedUntil = undefined;
+      job.updatedAt = timestamp;
+
+      if (skipReason) {
+        job.status = 'cancelled';
+        job.note = skipReason;
+        summary.cancelled++;
+      } else if (!error) {
+        job.status = 'completed';
+        job.completedAt = timestamp;
+        summary.completed++;
+      } else if (job.attempts < JOB_CONFIG.maxAttempts) {
+        job.status = 'pending';
+        job.lastError = error;
+        job.runAt = new Date(now.getTime() + JOB_CONFIG.retryBaseMs * 2 ** (job.attempts - 1)).toISOString();
+        summary.retried++;
+      } else {
+        job.status = 'failed';
+        job.lastError = error;
+        summary.failed++;
+      }
+    });
+  }
+
+  return summary;
+}
@@ -0,0 +1,81 @@
+// File-backed JSON persistence for server-side records
+// Serializes writes per file so concurrent requests never clobber each other
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Root directory for runtime data (bookings, holds, queues). Not part of content/.
+export const DATA_PATH = process.env.DATA_PATH || path.join(process.cwd(), 'data');
+
+export class JsonFileStore<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private filePath: string,
+    private createEmpty: () => T
+  ) {}
+
+  // Read the current contents. Only a missing file counts as empty: an unreadable or corrupt
+  // file throws, so an update never overwrites records it could not load.
+  async read(): Promise<T> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.createEmpty();
+      }
+      console.error(`Error reading ${this.filePath}:`, error);
+      throw error;
+    }
+
+    try {
+      return JSON.parse(data) as T;
+    } catch (error) {
+      console.error(`Corrupt JSON in ${this.filePath}:`, error);
+      throw new Error(`Cannot parse ${this.filePath}; leaving it untouched`);
+    }
+  }
+
+  // Apply a read-modify-write cycle atomically with respect to other updates
+  update<R>(mutate: (data: T) => R | Promise<R>): Promise<R> {
+    const run = this.queue.then(async () => {
+      const data = await this.read();
+      const result = await mutate(data);
+      await this.write(data);
+      return result;
+    });
+
+    // Keep the chain alive even if this update fails
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Write a temp file, flush it, then rename over the original so a crash mid-write
+  // leaves either the old or the new document, never a truncated one
+  private async write(data: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(JSON.stringify(data, null, 2));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+const stores = new Map<string, JsonFileStore<unknown>>();
+
+// Shared store per file so every caller goes through the same write queue
+export function getJsonStore<T>(fileName: string, createEmpty: () => T): JsonFileStore<T> {
+  const filePath = path.isAbsolute(fileName) ? fileName : path.join(DATA_PATH, fileName);
+
+  if (!stores.has(filePath)) {
+    stores.set(filePath, new JsonFileStore<T>(filePath, createEmpty));
+  }
+
+  return stores.get(filePath) as JsonFileStore<T>;
+}
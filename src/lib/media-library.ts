@@ -0,0 +1,338 @@
+// Media library for the admin
+// Stores uploads with their responsive derivatives and per-locale text, and finds where each asset is used
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import sharp from 'sharp';
+import { z } from 'zod';
+import { getDerivativeUrl, MEDIA_DERIVATIVE_WIDTHS } from '@/lib/cdn';
+import { getContentPath } from '@/lib/content-manifest';
+import { getJsonStore } from '@/lib/json-store';
+import { LOCALES } from '@/lib/constants';
+import type { Locale } from '@/types';
+
+export type MediaType = 'image' | 'video' | 'document';
+
+export type DerivativeFormat = 'avif' | 'webp';
+
+export interface MediaDerivative {
+  width: number;
+  format: DerivativeFormat;
+  url: string;
+  size: number;
+}
+
+export interface MediaFile {
+  id: string;
+  name: string;
+  originalName: string;
+  url: string;
+  type: MediaType;
+  size: number;
+  uploadedAt: string;
+  dimensions?: {
+    width: number;
+    height: number;
+  };
+  optimized?: boolean;
+  mimeType: string;
+  alt?: Partial<Record<Locale, string>>;
+  caption?: Partial<Record<Locale, string>>;
+  derivatives?: MediaDerivative[];
+  // Tiny base64 image for blur-up loading
+  placeholder?: string;
+  dominantColor?: string;
+}
+
+export interface MediaUsage {
+  type: 'tour' | 'blog' | 'gallery';
+  id: string;
+  label: string;
+}
+
+export type MediaFileWithUsage = MediaFile & { usage: MediaUsage[] };
+
+export class MediaInUseError extends Error {
+  constructor(public usage: MediaUsage[]) {
+    super(`Media file is still used in ${usage.map(item => item.label).join(', ')}`);
+    this.name = 'MediaInUseError';
+  }
+}
+
+const localizedText = z.object(
+  Object.fromEntries(LOCALES.map(locale => [locale, z.string().trim().max(300).optional()])) as
+    Record<Locale, z.ZodOptional<z.ZodString>>
+);
+
+export const mediaTextSchema = z.object({
+  alt: localizedText.default({}),
+  caption: localizedText.default({}),
+});
+
+export type MediaText = z.infer<typeof mediaTextSchema>;
+
+const DERIVATIVE_FORMATS: DerivativeFormat[] = ['avif', 'webp'];
+const MAX_ORIGINAL_WIDTH = 2048;
+const PLACEHOLDER_WIDTH = 16;
+
+export const getMediaPath = () => process.env.MEDIA_PATH || path.join(process.cwd(), 'public', 'media');
+
+const metadataStore = () => getJsonStore<MediaFile[]>(path.join(getContentPath(), 'media-metadata.json'), () => []);
+
+const filePathFor = (url: string) => path.join(getMediaPath(), path.basename(url));
+
+export function getFileType(mimeType: string): MediaType {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  return 'document';
+}
+
+// Lowercase name with a timestamp so uploads never overwrite each other
+export function generateSafeFilename(originalName: string): string {
+  const ext = path.extname(originalName);
+  const name = path.basename(originalName, ext);
+  const safeName = name
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+
+  return `${safeName}-${Date.now()}${ext.toLowerCase()}`;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true, () => false);
+}
+
+// Drop empty locales so only real text is stored
+function compactLocalized(value: Partial<Record<Locale, string>>): Partial<Record<Locale, string>> {
+  return Object.fromEntries(Object.entries(value).filter(([, text]) => !!text)) as Partial<Record<Locale, string>>;
+}
+
+// Re-encode the original in place, capped at MAX_ORIGINAL_WIDTH
+function optimizeOriginal(input: Buffer, ext: string): sharp.Sharp {
+  let image = sharp(input).rotate().resize(MAX_ORIGINAL_WIDTH, null, { withoutEnlargement: true, fit: 'inside' });
+
+  if (ext === '.jpg' || ext === '.jpeg') {
+    image = image.jpeg({ quality: 85, progressive: true });
+  } else if (ext === '.png') {
+    image = image.png({ quality: 85, progressive: true });
+  } else if (ext === '.webp') {
+    image = image.webp({ quality: 85 });
+  }
+  return image;
+}
+
+// AVIF and WebP at every derivative width, never wider than the original
+async function renderDerivatives(source: Buffer, url: string): Promise<MediaDerivative[]> {
+  const derivatives: MediaDerivative[] = [];
+
+  for (const width of MEDIA_DERIVATIVE_WIDTHS) {
+    for (const format of DERIVATIVE_FORMATS) {
+      const derivativeUrl = getDerivativeUrl(url, width, format);
+      const image = sharp(source).resize(width, null, { withoutEnlargement: true, fit: 'inside' });
+      const info = format === 'avif'
+        ? await image.avif({ quality: 60, effort: 2 }).toFile(filePathFor(derivativeUrl))
+        : await image.webp({ quality: 80 }).toFile(filePathFor(derivativeUrl));
+      derivatives.push({ width, format, url: derivativeUrl, size: info.size });
+    }
+  }
+
+  return derivatives;
+}
+
+// Every derivative path an upload can have, whether or not it was written
+async function removeDerivatives(url: string): Promise<void> {
+  await Promise.all(MEDIA_DERIVATIVE_WIDTHS.flatMap(width =>
+    DERIVATIVE_FORMATS.map(format => fs.rm(filePathFor(getDerivativeUrl(url, width, format)), { force: true }))
+  ));
+}
+
+async function renderPlaceholder(source: Buffer): Promise<{ placeholder: string; dominantColor: string }> {
+  const blurred = await sharp(source).resize(PLACEHOLDER_WIDTH).blur().webp({ quality: 50 }).toBuffer();
+  const { dominant } = await sharp(source).stats();
+  const hex = [dominant.r, dominant.g, dominant.b].map(value => value.toString(16).padStart(2, '0')).join('');
+
+  return {
+    placeholder: `data:image/webp;base64,${blurred.toString('base64')}`,
+    dominantColor: `#${hex}`,
+  };
+}
+
+// Write an upload with its derivatives and record it in media-metadata.json
+export async function saveMediaUpload(upload: {
+  buffer: Buffer;
+  originalName: string;
+  mimeType: string;
+  optimize: boolean;
+}): Promise<MediaFile> {
+  await fs.mkdir(getMediaPath(), { recursive: true });
+
+  const name = generateSafeFilename(upload.originalName);
+  const url = `/media/${name}`;
+  const filePath = filePathFor(url);
+  const type = getFileType(upload.mimeType);
+
+  const file: MediaFile = {
+    id: uuidv4(),
+    name,
+    originalName: upload.originalName,
+    url,
+    type,
+    size: upload.buffer.length,
+    uploadedAt: new Date().toISOString(),
+    optimized: false,
+    mimeType: upload.mimeType,
+  };
+
+  // Animated GIFs would lose their frames, so they are stored as they are
+  const isStillImage = type === 'image' && upload.mimeType !== 'image/gif';
+  if (!isStillImage) {
+    await fs.writeFile(filePath, upload.buffer);
+    if (type === 'image') {
+      const metadata = await sharp(upload.buffer).metadata().catch(() => null);
+      if (metadata?.width && metadata.height) {
+        file.dimensions = { width: metadata.width, height: metadata.height };
+      }
+    }
+  } else {
+    try {
+      if (upload.optimize) {
+        const info = await optimizeOriginal(upload.buffer, path.extname(name)).toFile(filePath);
+        file.size = info.size;
+        file.dimensions = { width: info.width, height: info.height };
+        file.optimized = true;
+      } else {
+        await fs.writeFile(filePath, upload.buffer);
+        const metadata = await sharp(upload.buffer).metadata();
+        file.dimensions = { width: metadata.width || 0, height: metadata.height || 0 };
+      }
+
+      const source = await fs.readFile(filePath);
+      file.derivatives = await renderDerivatives(source, url);
+      Object.assign(file, await renderPlaceholder(source));
+    } catch (error) {
+      // Keep the upload even if sharp cannot process it, without any derivatives written before it failed
+      console.error('Error processing image:', error);
+      await removeDerivatives(url);
+      delete file.derivatives;
+      await fs.writeFile(filePath, upload.buffer);
+      file.size = upload.buffer.length;
+      file.optimized = false;
+    }
+  }
+
+  await metadataStore().update(files => {
+    files.push(file);
+  });
+  return file;
+}
+
+// Tours, blog posts and gallery images that reference the file or one of its derivatives
+export async function findMediaUsage(file: MediaFile): Promise<MediaUsage[]> {
+  const base = file.url.replace(/\.[^./]+$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`${base}(?:-\\d+)?\\.[a-z0-9]+`, 'i');
+  const usage: MediaUsage[] = [];
+
+  const toursDir = path.join(getContentPath(), 'tours');
+  for (const fileName of await fs.readdir(toursDir).catch(() => [] as string[])) {
+    if (!fileName.endsWith('.json')) continue;
+    const source = await fs.readFile(path.join(toursDir, fileName), 'utf-8');
+    if (!pattern.test(source)) continue;
+
+    const id = fileName.replace(/\.json$/, '');
+    let label = id;
+    try {
+      label = JSON.parse(source).title?.en || id;
+    } catch {
+      // Label with the file name when the JSON is broken
+    }
+    usage.push({ type: 'tour', id, label: `Tour: ${label}` });
+  }
+
+  const blogDir = path.join(getContentPath(), 'blog');
+  const blogSlugs = new Set<string>();
+  for (const fileName of await fs.readdir(blogDir).catch(() => [] as string[])) {
+    if (!fileName.endsWith('.mdx')) continue;
+    if (pattern.test(await fs.readFile(path.join(blogDir, fileName), 'utf-8'))) {
+      blogSlugs.add(fileName.split('.')[0]);
+    }
+  }
+  blogSlugs.forEach(slug => usage.push({ type: 'blog', id: slug, label: `Blog post: ${slug}` }));
+
+  const gallery = await fs.readFile(path.join(getContentPath(), 'media', 'photo-gallery.json'), 'utf-8').catch(() => null);
+  if (gallery) {
+    const collections: Record<string, { images?: Array<{ id: string; url?: string; filename?: string }> }> =
+      JSON.parse(gallery).collections || {};
+    for (const [collectionId, collection] of Object.entries(collections)) {
+      for (const image of collection.images || []) {
+        if (pattern.test(image.url || '') || image.filename === file.name) {
+          usage.push({ type: 'gallery', id: `${collectionId}/${image.id}`, label: `Photo gallery: ${image.id}` });
+        }
+      }
+    }
+  }
+
+  return usage;
+}
+
+// Files that still exist on disk, newest first, with where each is used
+export async function listMediaFiles(): Promise<MediaFileWithUsage[]> {
+  const store = metadataStore();
+  const files = await store.read();
+
+  const existing: MediaFile[] = [];
+  for (const file of files) {
+    if (await fileExists(filePathFor(file.url))) existing.push(file);
+  }
+
+  // Forget records whose file was removed by hand
+  if (existing.length !== files.length) {
+    const ids = new Set(existing.map(file => file.id));
+    await store.update(data => {
+      data.splice(0, data.length, ...data.filter(file => ids.has(file.id)));
+    });
+  }
+
+  const withUsage: MediaFileWithUsage[] = [];
+  for (const file of existing) {
+    withUsage.push({ ...file, usage: await findMediaUsage(file) });
+  }
+
+  return withUsage.sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
+}
+
+// Replace the alt text and caption; null when the file does not exist
+export async function updateMediaText(id: string, text: MediaText): Promise<MediaFile | null> {
+  return metadataStore().update(files => {
+    const file = files.find(item => item.id === id);
+    if (!file) return null;
+
+    file.alt = compactLocalized(text.alt);
+    file.caption = compactLocalized(text.caption);
+    return file;
+  });
+}
+
+// Delete a file with its derivatives. Throws MediaInUseError while content still references it;
+// returns false when the file does not exist.
+export async function deleteMediaFile(id: string): Promise<boolean> {
+  const file = (await metadataStore().read()).find(item => item.id === id);
+  if (!file) return false;
+
+  const usage = await findMediaUsage(file);
+  if (usage.length > 0) {
+    throw new MediaInUseError(usage);
+  }
+
+  for (const url of [file.url, ...(file.derivatives || []).map(derivative => derivative.url)]) {
+    await fs.rm(filePathFor(url), { force: true });
+  }
+
+  await metadataStore().update(files => {
+    const index = files.findIndex(item => item.id === id);
+    if (index !== -1) files.splice(index, 1);
+  });
+  return true;
+}
@@ -0,0 +1,34 @@
+// PayPal checkouts awaiting capture
+// Keeps the booking request behind each PayPal order, so the capture webhook can book it when the customer never returns
+
+import { getJsonStore } from '@/lib/json-store';
+import type { PaidBookingRequest } from '@/lib/booking-recovery';
+
+export interface PayPalCheckout {
+  orderId: string;
+  bookingData: PaidBookingRequest;
+  createdAt: string;
+}
+
+// PayPal orders can only be captured for a few days, so older checkouts are dropped
+const CHECKOUT_RETENTION_DAYS = 7;
+
+const checkoutStore = () =>
+  getJsonStore<{ checkouts: PayPalCheckout[] }>(
+    process.env.PAYPAL_CHECKOUTS_FILE || 'paypal-checkouts.json',
+    () => ({ checkouts: [] })
+  );
+
+export async function savePayPalCheckout(orderId: string, bookingData: PaidBookingRequest): Promise<void> {
+  const cutoff = new Date(Date.now() - CHECKOUT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  await checkoutStore().update(data => {
+    data.checkouts = data.checkouts.filter(checkout => checkout.createdAt >= cutoff && checkout.orderId !== orderId);
+    data.checkouts.push({ orderId, bookingData, createdAt: new Date().toISOString() });
+  });
+}
+
+export async function findPayPalCheckout(orderId: string): Promise<PayPalCheckout | null> {
+  const data = await checkoutStore().read();
+  return data.checkouts.find(checkout => checkout.orderId === orderId) || null;
+}
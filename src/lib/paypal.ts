@@ -0,0 +1,233 @@
+// PayPal REST API helpers
+// Shared OAuth, order verification and webhook signature checks for orders, captures and refunds
+
+import { BookingValidator } from '@/lib/booking-validation';
+import { getTourConfig } from '@/lib/tour-catalog';
+
+// PAYPAL_API_BASE_URL points the integration at a mock server (see scripts/mock-paypal-server.js)
+export function getPayPalBaseUrl(): string {
+  if (process.env.PAYPAL_API_BASE_URL) {
+    return process.env.PAYPAL_API_BASE_URL;
+  }
+
+  return process.env.NODE_ENV === 'production'
+    ? 'https://api-m.paypal.com'
+    : 'https://api-m.sandbox.paypal.com';
+}
+
+// Get PayPal access token
+export async function getPayPalAccessToken(): Promise<string> {
+  const clientId = process.env.PAYPAL_CLIENT_ID!;
+  const clientSecret = process.env.PAYPAL_CLIENT_SECRET!;
+
+  const response = await fetch(`${getPayPalBaseUrl()}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+    },
+    body: 'grant_type=client_credentials',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to get PayPal access token');
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+export interface PayPalMoney {
+  currency_code: string;
+  value: string;
+}
+
+export interface PayPalCapture {
+  id: string;
+  status: 'COMPLETED' | 'DECLINED' | 'PARTIALLY_REFUNDED' | 'PENDING' | 'REFUNDED' | 'FAILED';
+  amount: PayPalMoney;
+}
+
+export interface PayPalOrder {
+  id: string;
+  status: 'CREATED' | 'SAVED' | 'APPROVED' | 'VOIDED' | 'COMPLETED' | 'PAYER_ACTION_REQUIRED';
+  purchase_units: Array<{
+    reference_id?: string;
+    custom_id?: string;
+    amount: PayPalMoney;
+    payments?: {
+      captures?: PayPalCapture[];
+    };
+  }>;
+}
+
+export interface PayPalOrderExpectation {
+  amount: number;
+  currency: string;
+  referenceId: string;
+}
+
+export interface PayPalVerification {
+  valid: boolean;
+  capture?: PayPalCapture;
+  error?: string;
+}
+
+// Our reference for the slot being paid for, stored on the order's purchase unit
+export function getPayPalReferenceId(booking: {
+  tourId: string;
+  date: string;
+  startTime: string;
+  groupSize: number;
+}): string {
+  return `${booking.tourId}_${booking.date}_${booking.startTime}_${booking.groupSize}`;
+}
+
+// What a PayPal order for this booking must contain, priced on the server
+export function getPayPalExpectation(booking: {
+  tourId: string;
+  date: string;
+  startTime: string;
+  groupSize: number;
+}): PayPalOrderExpectation {
+  const tour = getTourConfig(booking.tourId);
+  return {
+    amount: BookingValidator.calculateTotalPrice(tour, booking.groupSize, booking.date),
+    currency: tour?.currency || 'EUR',
+    referenceId: getPayPalReferenceId(booking),
+  };
+}
+
+async function callPayPal<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const accessToken = await getPayPalAccessToken();
+
+  const response = await fetch(`${getPayPalBaseUrl()}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `PayPal request failed: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export function getPayPalOrder(orderId: string): Promise<PayPalOrder> {
+  return callPayPal<PayPalOrder>(`/v2/checkout/orders/${encodeURIComponent(orderId)}`);
+}
+
+export function getPayPalCapture(captureId: string): Promise<PayPalCapture & {
+  supplementary_data?: { related_ids?: { order_id?: string } };
+}> {
+  return callPayPal(`/v2/payments/captures/${encodeURIComponent(captureId)}`);
+}
+
+// Capturing twice with the same request ID returns the original capture
+export function capturePayPalOrder(orderId: string): Promise<PayPalOrder> {
+  return callPayPal<PayPalOrder>(`/v2/checkout/orders/${encodeURIComponent(orderId)}/capture`, {
+    method: 'POST',
+    headers: { 'PayPal-Request-Id': `capture_${orderId}` },
+  });
+}
+
+// Why an order's reference and amount do not pay for this booking, or null when they do
+function getPayPalOrderMismatch(
+  referenceId: string | undefined,
+  amount: PayPalMoney | undefined,
+  expected: PayPalOrderExpectation
+): string | null {
+  if (referenceId !== expected.referenceId) {
+    return 'PayPal order does not match this booking';
+  }
+
+  if (amount?.currency_code.toUpperCase() !== expected.currency.toUpperCase()) {
+    return 'PayPal payment currency mismatch';
+  }
+
+  if (Math.abs(parseFloat(amount.value) - expected.amount) > 0.01) {
+    return 'PayPal payment amount mismatch';
+  }
+
+  return null;
+}
+
+// Check a captured order against what we expect to have been paid
+export function verifyPayPalOrder(
+  order: PayPalOrder,
+  expected: PayPalOrderExpectation
+): PayPalVerification {
+  const unit = order.purchase_units?.[0];
+  const capture = unit?.payments?.captures?.[0];
+
+  if (order.status !== 'COMPLETED' || !capture || capture.status !== 'COMPLETED') {
+    return { valid: false, error: 'PayPal payment not completed' };
+  }
+
+  const error = getPayPalOrderMismatch(unit.reference_id, capture.amount, expected);
+  return error ? { valid: false, error } : { valid: true, capture };
+}
+
+// Fetch the order, capture it if the buyer approved but it wasn't captured yet, then verify.
+// An approved order that doesn't match the booking is never captured, so no money is taken.
+export async function confirmPayPalOrder(
+  orderId: string,
+  expected: PayPalOrderExpectation
+): Promise<PayPalVerification> {
+  let order = await getPayPalOrder(orderId);
+
+  if (order.status === 'APPROVED') {
+    const unit = order.purchase_units?.[0];
+    const error = getPayPalOrderMismatch(unit?.reference_id, unit?.amount, expected);
+    if (error) {
+      return { valid: false, error };
+    }
+
+    order = await capturePayPalOrder(orderId);
+  }
+
+  return verifyPayPalOrder(order, expected);
+}
+
+// Ask PayPal to verify a webhook delivery against our webhook ID
+export async function verifyPayPalWebhookSignature(
+  headers: Headers,
+  webhookEvent: unknown
+): Promise<boolean> {
+  const webhookId = process.env.PAYPAL_WEBHOOK_ID;
+  if (!webhookId) {
+    console.error('PAYPAL_WEBHOOK_ID is not configured');
+    return false;
+  }
+
+  const transmission = {
+    auth_algo: headers.get('paypal-auth-algo'),
+    cert_url: headers.get('paypal-cert-url'),
+    transmission_id: headers.get('paypal-transmission-id'),
+    transmission_sig: headers.get('paypal-transmission-sig'),
+    transmission_time: headers.get('paypal-transmission-time'),
+  };
+
+  if (Object.values(transmission).some(value => !value)) {
+    return false;
+  }
+
+  const result = await callPayPal<{ verification_status: string }>(
+    '/v1/notifications/verify-webhook-signature',
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        ...transmission,
+        webhook_id: webhookId,
+        webhook_event: webhookEvent,
+      }),
+    }
+  );
+
+  return result.verification_status === 'SUCCESS';
+}
@@ -0,0 +1,38 @@
+// Signed preview links
+// Let editors share unpublished blog posts under /admin/preview without opening them to the public
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const PREVIEW_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function getPreviewSecret(): string {
+  return process.env.PREVIEW_SECRET || process.env.JWT_SECRET || 'fallback-secret-for-development-only';
+}
+
+function sign(slug: string, expires: number): string {
+  return createHmac('sha256', getPreviewSecret()).update(`blog:${slug}:${expires}`).digest('hex');
+}
+
+// Path below /[locale], e.g. "/admin/preview/blog/my-post?expires=...&signature=..."
+export function createBlogPreviewPath(slug: string, now: number = Date.now()): { path: string; expiresAt: string } {
+  const expires = now + PREVIEW_LINK_TTL_MS;
+  const query = new URLSearchParams({ expires: String(expires), signature: sign(slug, expires) });
+  return {
+    path: `/admin/preview/blog/${slug}?${query}`,
+    expiresAt: new Date(expires).toISOString(),
+  };
+}
+
+export function verifyBlogPreviewSignature(
+  slug: string,
+  expires: string | undefined,
+  signature: string | undefined,
+  now: number = Date.now()
+): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < now) return false;
+
+  const expected = Buffer.from(sign(slug, expiresAt), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
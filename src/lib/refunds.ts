@@ -0,0 +1,340 @@
+// Refund processing for cancelled and repriced bookings
+// Refunds go back through the original payment method; failures wait in an admin retry queue
+
+import Stripe from 'stripe';
+import type { RefundRequest, RefundResult } from '@/types/payment';
+import {
+  getBookingRepository,
+  BookingPaymentReference,
+  BookingRefund,
+  StoredBooking,
+} from '@/lib/booking-store';
+import { getJsonStore } from '@/lib/json-store';
+import { getPayPalAccessToken, getPayPalBaseUrl } from '@/lib/paypal';
+import { sendRefundConfirmationEmail } from '@/lib/email-service';
+
+export const REFUND_ESTIMATED_ARRIVAL = '5-10 business days';
+
+// 'processing' while one retry holds the entry
+export type RefundQueueStatus = 'failed' | 'processing' | 'succeeded';
+
+// A retry that never finished (e.g. the process died) can be claimed again after this
+const RETRY_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface RefundQueueEntry {
+  id: string; // also the provider idempotency key for every attempt
+  refundId: string; // BookingRefund.id on the booking
+  bookingId: string;
+  confirmationCode: string;
+  method: BookingPaymentReference['method'];
+  currency: string;
+  request: RefundRequest;
+  status: RefundQueueStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const refundQueue = () =>
+  getJsonStore<{ entries: RefundQueueEntry[] }>(
+    process.env.REFUND_QUEUE_FILE || 'refund-queue.json',
+    () => ({ entries: [] })
+  );
+
+let stripeClient: Stripe | null = null;
+
+function getStripe(): Stripe {
+  if (!stripeClient) {
+    stripeClient = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: '2024-12-18.acacia',
+    });
+  }
+  return stripeClient;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function failedResult(request: RefundRequest, currency: string, error: unknown): RefundResult {
+  return {
+    success: false,
+    refundId: '',
+    amount: request.amount || 0,
+    currency,
+    status: 'failed',
+    error: error instanceof Error ? error.message : 'Refund failed',
+  };
+}
+
+async function refundStripePayment(request: RefundRequest, idempotencyKey: string): Promise<RefundResult> {
+  const refund = await getStripe().refunds.create({
+    payment_intent: request.paymentId,
+    ...(request.amount !== undefined && { amount: Math.round(request.amount * 100) }),
+    reason: 'requested_by_customer',
+    metadata: {
+      bookingId: request.bookingId,
+      reason: request.reason,
+    },
+  }, { idempotencyKey });
+
+  const status = refund.status === 'succeeded' || refund.status === 'pending'
+    ? refund.status
+    : 'failed';
+
+  return {
+    success: status !== 'failed',
+    refundId: refund.id,
+    amount: refund.amount / 100,
+    currency: refund.currency,
+    status,
+    estimatedArrival: REFUND_ESTIMATED_ARRIVAL,
+    error: status === 'failed' ? `Stripe refund ${refund.status}` : undefined,
+  };
+}
+
+// Payments may be recorded by order ID - refunds need the capture
+async function resolvePayPalCaptureId(paymentId: string, accessToken: string): Promise<string> {
+  const response = await fetch(`${getPayPalBaseUrl()}/v2/checkout/orders/${paymentId}`, {
+    headers: { 'Authorization': `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    return paymentId;
+  }
+
+  const order = await response.json();
+  return order.purchase_units?.[0]?.payments?.captures?.[0]?.id || paymentId;
+}
+
+async function refundPayPalPayment(
+  request: RefundRequest,
+  currency: string,
+  idempotencyKey: string
+): Promise<RefundResult> {
+  const accessToken = await getPayPalAccessToken();
+  const captureId = await resolvePayPalCaptureId(request.paymentId, accessToken);
+
+  const response = await fetch(`${getPayPalBaseUrl()}/v2/payments/captures/${captureId}/refund`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+      'PayPal-Request-Id': idempotencyKey,
+    },
+    body: JSON.stringify({
+      ...(request.amount !== undefined && {
+        amount: {
+          value: request.amount.toFixed(2),
+          currency_code: currency.toUpperCase(),
+        },
+      }),
+      note_to_payer: request.reason.slice(0, 255),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `PayPal refund failed: ${response.status}`);
+  }
+
+  const refund = await response.json();
+  const status = refund.status === 'COMPLETED'
+    ? 'succeeded'
+    : refund.status === 'PENDING' ? 'pending' : 'failed';
+
+  return {
+    success: status !== 'failed',
+    refundId: refund.id,
+    amount: refund.amount ? parseFloat(refund.amount.value) : request.amount || 0,
+    currency: refund.amount?.currency_code || currency,
+    status,
+    estimatedArrival: REFUND_ESTIMATED_ARRIVAL,
+    error: status === 'failed' ? `PayPal refund ${refund.status}` : undefined,
+  };
+}
+
+// Issue a refund through the payment provider. Never throws.
+// Attempts with the same idempotency key refund at most once.
+export async function executeRefund(
+  method: BookingPaymentReference['method'],
+  request: RefundRequest,
+  currency: string,
+  idempotencyKey: string
+): Promise<RefundResult> {
+  try {
+    return method === 'stripe'
+      ? await refundStripePayment(request, idempotencyKey)
+      : await refundPayPalPayment(request, currency, idempotencyKey);
+  } catch (error) {
+    console.error(`${method} refund failed:`, {
+      bookingId: request.bookingId,
+      paymentId: request.paymentId,
+      error: error instanceof Error ? error.message : error,
+    });
+    return failedResult(request, currency, error);
+  }
+}
+
+// What is still refundable after earlier refunds
+export function getRefundableAmount(booking: StoredBooking): number {
+  if (!booking.payment) return 0;
+
+  const refunded = (booking.refunds || [])
+    .filter(refund => refund.status !== 'failed')
+    .reduce((total, refund) => total + refund.amount, 0);
+
+  return roundCurrency(Math.max(booking.payment.amount - refunded, 0));
+}
+
+async function notifyCustomer(booking: StoredBooking, refund: BookingRefund) {
+  try {
+    await sendRefundConfirmationEmail({
+      booking,
+      amount: refund.amount,
+      currency: refund.currency,
+      method: booking.payment!.method,
+      estimatedArrival: REFUND_ESTIMATED_ARRIVAL,
+    });
+  } catch (emailError) {
+    console.error('Refund confirmation email failed:', emailError);
+    // Don't fail the refund if email fails
+  }
+}
+
+async function enqueueFailedRefund(
+  entryId: string,
+  booking: StoredBooking,
+  refund: BookingRefund,
+  request: RefundRequest
+) {
+  const now = new Date().toISOString();
+
+  await refundQueue().update(data => {
+    data.entries.push({
+      id: entryId,
+      refundId: refund.id,
+      bookingId: booking.id,
+      confirmationCode: booking.confirmationCode,
+      method: booking.payment!.method,
+      currency: refund.currency,
+      request,
+      status: 'failed',
+      attempts: 1,
+      lastError: refund.error,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+}
+
+// Refund part or all of a booking's payment, record it and tell the customer.
+// Returns null when there is no payment to refund.
+export async function refundBooking(
+  booking: StoredBooking,
+  amount: number,
+  reason: string
+): Promise<BookingRefund | null> {
+  const refundAmount = roundCurrency(Math.min(amount, getRefundableAmount(booking)));
+  if (!booking.payment || refundAmount <= 0) {
+    return null;
+  }
+
+  const request: RefundRequest = {
+    paymentId: booking.payment.transactionId,
+    amount: refundAmount,
+    reason,
+    bookingId: booking.id,
+  };
+
+  // Retries from the queue reuse this ID, so the provider never refunds twice
+  const entryId = `rq_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const result = await executeRefund(booking.payment.method, request, booking.payment.currency, entryId);
+  const now = new Date().toISOString();
+
+  const refund: BookingRefund = {
+    id: `rf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    providerRefundId: result.refundId || undefined,
+    amount: refundAmount,
+    currency: booking.payment.currency,
+    status: result.status,
+    reason,
+    error: result.error,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getBookingRepository().recordRefund(booking.id, refund);
+
+  if (result.success) {
+    await notifyCustomer(booking, refund);
+  } else {
+    await enqueueFailedRefund(entryId, booking, refund, request);
+  }
+
+  return refund;
+}
+
+export async function getRefundQueue(): Promise<RefundQueueEntry[]> {
+  const data = await refundQueue().read();
+  return [...data.entries].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Retry a failed refund from the admin queue. Concurrent retries of one entry call the provider once.
+export async function retryQueuedRefund(entryId: string): Promise<RefundQueueEntry | null> {
+  const claim = await refundQueue().update(data => {
+    const current = data.entries.find(e => e.id === entryId);
+    if (!current) return null;
+
+    const claimExpired = current.status === 'processing'
+      && Date.now() - new Date(current.updatedAt).getTime() > RETRY_CLAIM_TIMEOUT_MS;
+    if (current.status !== 'failed' && !claimExpired) {
+      return { entry: { ...current }, claimed: false };
+    }
+
+    current.status = 'processing';
+    current.updatedAt = new Date().toISOString();
+    return { entry: { ...current }, claimed: true };
+  });
+
+  if (!claim || !claim.claimed) {
+    return claim?.entry || null;
+  }
+
+  const { entry } = claim;
+  const result = await executeRefund(entry.method, entry.request, entry.currency, entry.id);
+  const now = new Date().toISOString();
+
+  const updated = await refundQueue().update(data => {
+    const current = data.entries.find(e => e.id === entryId);
+    if (!current) return null;
+
+    current.attempts += 1;
+    current.status = result.success ? 'succeeded' : 'failed';
+    current.lastError = result.error;
+    current.updatedAt = now;
+    return { ...current };
+  });
+
+  const repo = getBookingRepository();
+  const booking = await repo.findById(entry.bookingId);
+  const refund = booking?.refunds?.find(r => r.id === entry.refundId);
+
+  if (booking && refund) {
+    const retried: BookingRefund = {
+      ...refund,
+      providerRefundId: result.refundId || refund.providerRefundId,
+      status: result.status,
+      error: result.error,
+      updatedAt: now,
+    };
+    await repo.recordRefund(booking.id, retried);
+
+    if (result.success) {
+      await notifyCustomer(booking, retried);
+    }
+  }
+
+  return updated;
+}
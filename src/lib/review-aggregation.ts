@@ -1,13 +1,77 @@
+// Review aggregation
+// Syncs Google and TripAdvisor reviews into a persistent cache and merges them with approved guest reviews
+
+import { getJsonStore } from '@/lib/json-store';
+import {
+  ExternalReviewSource,
+  getConfiguredReviewSources,
+  getMockReviews,
+  REVIEW_PROVIDERS,
+} from '@/lib/review-providers';
+import { getApprovedReviews } from '@/lib/verified-reviews';
 import type { Review } from '@/types';
 
-// In-memory cache for development (in production, use Redis or similar)
-const reviewCache = new Map<string, {
+export const REVIEW_SYNC_CONFIG = {
+  intervalMs: 6 * 60 * 60 * 1000, // scheduled sync from the jobs route
+  minIntervalMs: 5 * 60 * 1000, // floor for on-demand refreshes (cache=false)
+  maxPageSize: 50,
+};
+
+// Phrases that tie a review of the whole business to one tour
+export const TOUR_REVIEW_KEYWORDS: Record<string, string[]> = {
+  'prague-castle': [
+    'prague castle', 'castle tour', 'st. vitus', 'st vitus', 'golden lane',
+    'prager burg', 'veitsdom', 'goldenes gässchen', 'château de prague', 'ruelle d\'or',
+  ],
+  'old-town-jewish-quarter': [
+    'old town', 'jewish quarter', 'astronomical clock', 'synagogue', 'josefov',
+    'altstadt', 'jüdische', 'synagoge', 'vieille ville', 'quartier juif', 'horloge astronomique',
+  ],
+  'lesser-town-castle-district': [
+    'lesser town', 'mala strana', 'malá strana', 'kampa', 'lennon wall', 'nerudova',
+    'kleinseite', 'lennon-mauer', 'petit côté', 'mur de john lennon',
+  ],
+};
+
+export interface ReviewSourceSync {
+  syncedAt: string;
+  count: number;
+  error?: string;
+}
+
+export interface ReviewSyncSummary {
+  syncedAt: string;
+  sources: Partial<Record<ExternalReviewSource, ReviewSourceSync>>;
+  totalReviews: number;
+}
+
+interface ReviewCache {
   reviews: Review[];
-  timestamp: number;
-  expiresAt: number;
-}>();
+  sources: Partial<Record<ExternalReviewSource, ReviewSourceSync>>;
+  syncedAt?: string;
+}
+
+export interface ReviewQuery {
+  source?: Review['source'];
+  rating?: number;
+  minRating?: number;
+  language?: string;
+  page?: number;
+  limit?: number;
+}
 
-const CACHE_DURATION = 60 * 60 * 1000; // 1 hour in milliseconds
+export interface ReviewPage {
+  reviews: Review[];
+  totalCount: number;
+  page: number;
+  totalPages: number;
+}
+
+const reviewCacheStore = () =>
+  getJsonStore<ReviewCache>(
+    process.env.REVIEW_CACHE_FILE || 'review-cache.json',
+    () => ({ reviews: [], sources: {} })
+  );
 
 export interface ReviewStats {
   totalReviews: number;
@@ -67,53 +131,134 @@ export function calculateReviewStats(reviews: Review[]): ReviewStats {
   };
 }
 
-export async function cacheReviews(
-  tourId: string | null, 
-  source: string | null, 
-  reviews: Review[]
-): Promise<void> {
-  const cacheKey = getCacheKey(tourId, source);
-  const now = Date.now();
-  
-  reviewCache.set(cacheKey, {
-    reviews,
-    timestamp: now,
-    expiresAt: now + CACHE_DURATION
-  });
+// The tour a review talks about, or 'general' when it names none or several equally
+export function attributeReviewToTour(comment: string): string {
+  const text = comment.toLowerCase();
+  let best = 'general';
+  let bestMatches = 0;
+  let tied = false;
+
+  for (const [tourId, keywords] of Object.entries(TOUR_REVIEW_KEYWORDS)) {
+    const matches = keywords.filter(keyword => text.includes(keyword)).length;
+    if (matches > bestMatches) {
+      best = tourId;
+      bestMatches = matches;
+      tied = false;
+    } else if (matches > 0 && matches === bestMatches) {
+      tied = true;
+    }
+  }
+
+  return tied ? 'general' : best;
 }
 
-export async function getCachedReviews(
-  tourId: string | null, 
-  source: string | null
-): Promise<Review[] | null> {
-  const cacheKey = getCacheKey(tourId, source);
-  const cached = reviewCache.get(cacheKey);
-  
-  if (!cached) {
-    return null;
+// Dates come back from JSON as strings
+function reviveReview(review: Review): Review {
+  return {
+    ...review,
+    date: new Date(review.date),
+    reply: review.reply ? { ...review.reply, date: new Date(review.reply.date) } : undefined,
+  };
+}
+
+// Pull every configured source into the persistent cache. Providers only return their newest
+// reviews, so each sync is merged into what earlier syncs collected. A failing source keeps
+// its cached reviews; sources that are no longer configured are dropped.
+export async function syncReviews(now: Date = new Date()): Promise<ReviewSyncSummary> {
+  const syncedAt = now.toISOString();
+  const configured = getConfiguredReviewSources();
+  const fetched = new Map<ExternalReviewSource, Review[]>();
+  const errors = new Map<ExternalReviewSource, string>();
+
+  for (const source of configured) {
+    try {
+      const reviews = await REVIEW_PROVIDERS[source].fetchReviews();
+      fetched.set(source, reviews.map(review => ({ ...review, tourId: attributeReviewToTour(review.comment) })));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Review sync from ${source} failed:`, message);
+      errors.set(source, message);
+    }
   }
-  
-  // Check if cache has expired
-  if (Date.now() > cached.expiresAt) {
-    reviewCache.delete(cacheKey);
+
+  return reviewCacheStore().update(cache => {
+    const byId = new Map<string, Review>();
+    for (const review of cache.reviews) {
+      if ((configured as string[]).includes(review.source)) byId.set(review.id, review);
+    }
+    fetched.forEach(reviews => reviews.forEach(review => byId.set(review.id, review)));
+
+    // aggregateReviews also drops the same text posted twice under one name
+    cache.reviews = aggregateReviews(Array.from(byId.values()).map(reviveReview));
+
+    const sources: ReviewCache['sources'] = {};
+    for (const source of configured) {
+      const previous = cache.sources[source];
+      const count = cache.reviews.filter(review => review.source === source).length;
+      sources[source] = errors.has(source)
+        ? { syncedAt: previous?.syncedAt || syncedAt, count, error: errors.get(source) }
+        : { syncedAt, count };
+    }
+    cache.sources = sources;
+    cache.syncedAt = syncedAt;
+
+    return { syncedAt, sources, totalReviews: cache.reviews.length };
+  });
+}
+
+// Sync only when the last sync is older than maxAgeMs; null when the cache is fresh enough
+export async function syncReviewsIfDue(
+  maxAgeMs: number = REVIEW_SYNC_CONFIG.intervalMs,
+  now: Date = new Date()
+): Promise<ReviewSyncSummary | null> {
+  if (getConfiguredReviewSources().length === 0) return null;
+
+  const { syncedAt } = await reviewCacheStore().read();
+  if (syncedAt && now.getTime() - new Date(syncedAt).getTime() < maxAgeMs) {
     return null;
   }
-  
-  return cached.reviews;
+  return syncReviews(now);
 }
 
-export function clearReviewCache(tourId?: string | null, source?: string | null): void {
-  if (tourId || source) {
-    const cacheKey = getCacheKey(tourId, source);
-    reviewCache.delete(cacheKey);
-  } else {
-    // Clear all cache
-    reviewCache.clear();
-  }
+export async function getReviewSyncStatus(): Promise<Pick<ReviewCache, 'sources' | 'syncedAt'>> {
+  const { sources, syncedAt } = await reviewCacheStore().read();
+  return { sources, syncedAt };
+}
+
+// Approved guest reviews plus the synced external ones, newest first. Outside production, mock
+// reviews stand in for the external sources while none is configured; production never shows them.
+export async function getReviews(tourId?: string | null): Promise<Review[]> {
+  const direct = await getApprovedReviews(tourId);
+
+  const external = getConfiguredReviewSources().length > 0
+    ? (await reviewCacheStore().read()).reviews
+        .map(reviveReview)
+        .filter(review => !tourId || review.tourId === tourId)
+    : process.env.NODE_ENV !== 'production' ? getMockReviews(tourId) : [];
+
+  return aggregateReviews([...direct, ...external]);
 }
 
-function getCacheKey(tourId: string | null, source: string | null): string {
-  return `reviews:${tourId || 'all'}:${source || 'all'}`;
+// Filter by source, rating and language, then cut out one page
+export function queryReviews(reviews: Review[], query: ReviewQuery = {}): ReviewPage {
+  const limit = Math.min(Math.max(query.limit || 10, 1), REVIEW_SYNC_CONFIG.maxPageSize);
+
+  const matching = reviews.filter(review =>
+    (!query.source || review.source === query.source) &&
+    (!query.rating || review.rating === query.rating) &&
+    (!query.minRating || review.rating >= query.minRating) &&
+    (!query.language || review.language === query.language)
+  );
+
+  const totalPages = Math.max(Math.ceil(matching.length / limit), 1);
+  const page = Math.min(Math.max(query.page || 1, 1), totalPages);
+
+  return {
+    reviews: matching.slice((page - 1) * limit, page * limit),
+    totalCount: matching.length,
+    page,
+    totalPages,
+  };
 }
 
 function removeDuplicateReviews(reviews: Review[]): Review[] {
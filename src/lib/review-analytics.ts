@@ -0,0 +1,310 @@
+// Review analytics
+// Rating trends per tour and source, local lexicon-based sentiment, recurring themes and low-rating alerts
+
+import type { Review } from '@/types';
+
+export const REVIEW_ANALYTICS_CONFIG = {
+  rollingWindow: 10, // most recent reviews behind a rolling average
+  minReviewsForAlert: 3,
+  alertThreshold: 4.2,
+  minPhraseMentions: 2,
+  maxPhrases: 10,
+};
+
+export type Sentiment = 'positive' | 'neutral' | 'negative';
+
+export interface RatingTrendPoint {
+  period: string; // YYYY-MM
+  count: number;
+  averageRating: number;
+  rollingAverage: number; // over the last rollingWindow reviews up to the end of the period
+}
+
+export interface RatingTrends {
+  overall: RatingTrendPoint[];
+  byTour: Record<string, RatingTrendPoint[]>;
+  bySource: Partial<Record<Review['source'], RatingTrendPoint[]>>;
+}
+
+export interface SentimentSummary {
+  positive: number;
+  neutral: number;
+  negative: number;
+  averageScore: number; // -1 (negative) to 1 (positive)
+}
+
+export interface ReviewTheme {
+  id: string;
+  label: string;
+  kind: 'praise' | 'complaint';
+  mentions: number;
+  averageRating: number;
+  byTour: Record<string, number>;
+  reviewIds: string[];
+}
+
+export interface KeyPhrase {
+  phrase: string;
+  mentions: number;
+}
+
+export interface RatingAlert {
+  tourId: string;
+  rollingAverage: number;
+  reviewCount: number;
+  threshold: number;
+  latestReviewAt: string;
+}
+
+export interface ReviewAnalytics {
+  trends: RatingTrends;
+  sentiment: SentimentSummary;
+  themes: { praise: ReviewTheme[]; complaints: ReviewTheme[] };
+  phrases: { positive: KeyPhrase[]; negative: KeyPhrase[] };
+  alerts: RatingAlert[];
+}
+
+// Word weights for the languages reviews are written in (en, de, fr)
+const SENTIMENT_LEXICON: Record<string, number> = {
+  amazing: 2, awesome: 2, best: 2, brilliant: 2, enjoyed: 1, excellent: 2, exceptional: 2,
+  fantastic: 2, fascinating: 2, friendly: 1, fun: 1, great: 1, helpful: 1, highlight: 1,
+  incredible: 2, interesting: 1, knowledgeable: 1, love: 2, loved: 2, magical: 2, passionate: 1,
+  perfect: 2, recommend: 1, wonderful: 2,
+  boring: -2, confusing: -1, crowded: -1, disappointed: -2, disappointing: -2, expensive: -1,
+  late: -1, overpriced: -2, poor: -2, rude: -2, rushed: -1, terrible: -2, unfortunately: -1,
+  waste: -2, worst: -2,
+  ausgezeichnet: 2, begeistert: 2, empfehlen: 1, empfehlenswert: 2, fantastisch: 2, freundlich: 1,
+  großartig: 2, interessant: 1, spannend: 2, super: 1, toll: 2, wunderbar: 2,
+  enttäuscht: -2, enttäuschend: -2, langweilig: -2, leider: -1, schlecht: -2, teuer: -1, unfreundlich: -2,
+  formidable: 2, génial: 2, intéressant: 1, magnifique: 2, merveilleux: 2, passionnant: 2, recommande: 1,
+  décevant: -2, déçu: -2, dommage: -1, ennuyeux: -2, malheureusement: -1, mauvais: -2,
+};
+
+// Flip the polarity of the next couple of words
+const NEGATIONS = new Set(['not', 'never', 'no', "wasn't", "didn't", "isn't", 'nicht', 'kein', 'keine', 'nie', 'pas', 'jamais']);
+const NEGATION_REACH = 2;
+
+// Word stems matched at the start of a word, so "storytelling" counts and "history" does not
+const THEMES: Array<Pick<ReviewTheme, 'id' | 'label' | 'kind'> & { stems: string[] }> = [
+  { id: 'great-stories', label: 'Great stories', kind: 'praise', stems: ['stories', 'story', 'storytell', 'geschichten', 'erzähl', 'histoires', 'anecdote', 'conteur'] },
+  { id: 'knowledgeable', label: 'Knowledgeable guide', kind: 'praise', stems: ['knowledge', 'expert', 'kenntnis', 'wissen', 'connaissance', 'érudit', 'cultivé'] },
+  { id: 'passionate', label: 'Passion and enthusiasm', kind: 'praise', stems: ['passion', 'enthusias', 'leidenschaft', 'begeister', 'passionn'] },
+  { id: 'hidden-gems', label: 'Hidden gems', kind: 'praise', stems: ['hidden gem', 'off the beaten', 'secret', 'geheim', 'versteckt', 'caché'] },
+  { id: 'friendly', label: 'Friendly and personal', kind: 'praise', stems: ['friendly', 'personal', 'freundlich', 'herzlich', 'persönlich', 'sympathique', 'chaleureu'] },
+  { id: 'value', label: 'Good value', kind: 'praise', stems: ['worth every', 'good value', 'great value', 'preis-leistung', 'jeden euro', 'vaut le', 'rapport qualité'] },
+  { id: 'too-long', label: 'Too long', kind: 'complaint', stems: ['too long', 'dragged', 'drag on', 'zu lang', 'langatmig', 'trop long', 'longueurs'] },
+  { id: 'rushed', label: 'Too rushed', kind: 'complaint', stems: ['rushed', 'too fast', 'hurried', 'zu schnell', 'gehetzt', 'trop rapide', 'pressé'] },
+  { id: 'group-size', label: 'Group too large', kind: 'complaint', stems: ['large group', 'big group', 'larger than', 'too many people', 'crowded', 'große gruppe', 'zu viele', 'grand groupe', 'trop de monde', 'bondé'] },
+  { id: 'meeting-point', label: 'Hard to find the meeting point', kind: 'complaint', stems: ['meeting point', 'hard to find', "couldn't find", 'treffpunkt', 'point de rendez-vous'] },
+  { id: 'late-start', label: 'Late start or waiting', kind: 'complaint', stems: ['started late', 'was late', 'arrived late', 'waited', 'verspät', 'gewartet', 'en retard'] },
+  { id: 'price', label: 'Too expensive', kind: 'complaint', stems: ['expensive', 'overpriced', 'pricey', 'teuer', 'trop cher', 'coûteu'] },
+  { id: 'hard-to-hear', label: 'Hard to hear or follow', kind: 'complaint', stems: ['hard to hear', "couldn't hear", 'could not hear', 'hard to follow', 'schwer zu verstehen', 'entendre'] },
+];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had', 'has', 'have', 'he', 'his',
+  'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'this',
+  'to', 'us', 'very', 'was', 'we', 'were', 'with', 'you', 'your', 'filip', 'tour', 'prague',
+  'aber', 'auch', 'auf', 'das', 'dem', 'den', 'der', 'die', 'ein', 'eine', 'es', 'für', 'hat', 'ich', 'im',
+  'in', 'ist', 'mit', 'sehr', 'sich', 'sie', 'und', 'uns', 'von', 'war', 'wir', 'zu', 'prag', 'führung',
+  'au', 'avec', 'ce', 'dans', 'de', 'des', 'du', 'en', 'est', 'et', 'il', 'la', 'le', 'les', 'nous', 'on',
+  'par', 'pour', 'que', 'qui', 'sur', 'un', 'une', 'très', 'visite', 'prague',
+]);
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const average = (reviews: Review[]) =>
+  reviews.length > 0 ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length : 0;
+
+const byDate = (a: Review, b: Review) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}'’-]+/gu)?.map(token => token.replace(/’/g, "'")) || [];
+}
+
+const getPeriod = (date: Date | string) => new Date(date).toISOString().slice(0, 7);
+
+// Monthly points, oldest first, with the rolling average as it stood at the end of each month
+export function calculateRatingTrend(reviews: Review[]): RatingTrendPoint[] {
+  const sorted = [...reviews].sort(byDate);
+  const points: RatingTrendPoint[] = [];
+
+  sorted.forEach((review, index) => {
+    const period = getPeriod(review.date);
+    let point = points[points.length - 1];
+    if (!point || point.period !== period) {
+      point = { period, count: 0, averageRating: 0, rollingAverage: 0 };
+      points.push(point);
+    }
+
+    point.averageRating = (point.averageRating * point.count + review.rating) / (point.count + 1);
+    point.count++;
+    point.rollingAverage = average(sorted.slice(Math.max(0, index + 1 - REVIEW_ANALYTICS_CONFIG.rollingWindow), index + 1));
+  });
+
+  return points.map(point => ({
+    ...point,
+    averageRating: round(point.averageRating),
+    rollingAverage: round(point.rollingAverage),
+  }));
+}
+
+function groupBy<K extends string>(reviews: Review[], key: (review: Review) => K): Partial<Record<K, Review[]>> {
+  const groups: Partial<Record<K, Review[]>> = {};
+  for (const review of reviews) {
+    (groups[key(review)] ||= []).push(review);
+  }
+  return groups;
+}
+
+function trendsFor<K extends string>(groups: Partial<Record<K, Review[]>>): Partial<Record<K, RatingTrendPoint[]>> {
+  return Object.fromEntries(
+    Object.entries(groups).map(([key, reviews]) => [key, calculateRatingTrend(reviews as Review[])])
+  ) as Partial<Record<K, RatingTrendPoint[]>>;
+}
+
+// Sentiment of the review text from -1 to 1; reviews without opinion words score 0
+export function scoreSentiment(text: string): number {
+  const tokens = tokenize(text);
+  let positive = 0;
+  let negative = 0;
+  let negatedUntil = -1;
+
+  tokens.forEach((token, index) => {
+    if (NEGATIONS.has(token)) {
+      negatedUntil = index + NEGATION_REACH;
+      return;
+    }
+
+    const weight = (SENTIMENT_LEXICON[token] || 0) * (index <= negatedUntil ? -1 : 1);
+    if (weight > 0) positive += weight;
+    if (weight < 0) negative -= weight;
+  });
+
+  return positive + negative === 0 ? 0 : (positive - negative) / (positive + negative);
+}
+
+export function classifySentiment(score: number): Sentiment {
+  if (score > 0.2) return 'positive';
+  if (score < -0.2) return 'negative';
+  return 'neutral';
+}
+
+export function summarizeSentiment(reviews: Review[]): SentimentSummary {
+  const summary: SentimentSummary = { positive: 0, neutral: 0, negative: 0, averageScore: 0 };
+  if (reviews.length === 0) return summary;
+
+  let total = 0;
+  for (const review of reviews) {
+    const score = scoreSentiment(review.comment);
+    summary[classifySentiment(score)]++;
+    total += score;
+  }
+  summary.averageScore = Math.round((total / reviews.length) * 100) / 100;
+  return summary;
+}
+
+const themePatterns = THEMES.map(theme => ({
+  ...theme,
+  pattern: new RegExp(`(?<!\\p{L})(?:${theme.stems.map(stem => stem.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'iu'),
+}));
+
+// Curated praise and complaint themes, most mentioned first
+export function findReviewThemes(reviews: Review[]): { praise: ReviewTheme[]; complaints: ReviewTheme[] } {
+  const themes: ReviewTheme[] = [];
+
+  for (const { id, label, kind, pattern } of themePatterns) {
+    const matching = reviews.filter(review => pattern.test(review.comment));
+    if (matching.length === 0) continue;
+
+    const byTour: Record<string, number> = {};
+    matching.forEach(review => {
+      byTour[review.tourId] = (byTour[review.tourId] || 0) + 1;
+    });
+
+    themes.push({
+      id,
+      label,
+      kind,
+      mentions: matching.length,
+      averageRating: round(average(matching)),
+      byTour,
+      reviewIds: matching.map(review => review.id),
+    });
+  }
+
+  themes.sort((a, b) => b.mentions - a.mentions);
+  return {
+    praise: themes.filter(theme => theme.kind === 'praise'),
+    complaints: themes.filter(theme => theme.kind === 'complaint'),
+  };
+}
+
+// Two-word phrases that recur across reviews, counted once per review
+export function extractKeyPhrases(reviews: Review[]): KeyPhrase[] {
+  const counts = new Map<string, number>();
+
+  for (const review of reviews) {
+    const tokens = tokenize(review.comment);
+    const phrases = new Set<string>();
+    for (let i = 0; i < tokens.length - 1; i++) {
+      if (STOP_WORDS.has(tokens[i]) || STOP_WORDS.has(tokens[i + 1])) continue;
+      if (tokens[i].length < 3 || tokens[i + 1].length < 3) continue;
+      phrases.add(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+    phrases.forEach(phrase => counts.set(phrase, (counts.get(phrase) || 0) + 1));
+  }
+
+  return Array.from(counts.entries())
+    .filter(([, mentions]) => mentions >= REVIEW_ANALYTICS_CONFIG.minPhraseMentions)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, REVIEW_ANALYTICS_CONFIG.maxPhrases)
+    .map(([phrase, mentions]) => ({ phrase, mentions }));
+}
+
+// Tours whose recent reviews average below the threshold. Reviews not tied to a tour are skipped.
+export function findRatingAlerts(
+  reviews: Review[],
+  threshold: number = REVIEW_ANALYTICS_CONFIG.alertThreshold
+): RatingAlert[] {
+  const alerts: RatingAlert[] = [];
+
+  for (const [tourId, tourReviews] of Object.entries(groupBy(reviews, review => review.tourId))) {
+    if (tourId === 'general' || !tourReviews) continue;
+
+    const recent = [...tourReviews].sort(byDate).slice(-REVIEW_ANALYTICS_CONFIG.rollingWindow);
+    if (recent.length < REVIEW_ANALYTICS_CONFIG.minReviewsForAlert) continue;
+
+    const rollingAverage = round(average(recent));
+    if (rollingAverage < threshold) {
+      alerts.push({
+        tourId,
+        rollingAverage,
+        reviewCount: recent.length,
+        threshold,
+        latestReviewAt: new Date(recent[recent.length - 1].date).toISOString(),
+      });
+    }
+  }
+
+  return alerts.sort((a, b) => a.rollingAverage - b.rollingAverage);
+}
+
+export function buildReviewAnalytics(reviews: Review[]): ReviewAnalytics {
+  const scored = reviews.map(review => ({ review, sentiment: classifySentiment(scoreSentiment(review.comment)) }));
+
+  return {
+    trends: {
+      overall: calculateRatingTrend(reviews),
+      byTour: trendsFor(groupBy(reviews, review => review.tourId)) as Record<string, RatingTrendPoint[]>,
+      bySource: trendsFor(groupBy(reviews, review => review.source)),
+    },
+    sentiment: summarizeSentiment(reviews),
+    themes: findReviewThemes(reviews),
+    phrases: {
+      positive: extractKeyPhrases(scored.filter(({ sentiment }) => sentiment === 'positive').map(({ review }) => review)),
+      negative: extractKeyPhrases(scored.filter(({ sentiment }) => sentiment === 'negative').map(({ review }) => review)),
+    },
+    alerts: findRatingAlerts(reviews),
+  };
+}
@@ -1,5 +1,14 @@
+import { LOCALES } from '@/lib/constants';
 import type { Review } from '@/types';
 
+export type ExternalReviewSource = 'google' | 'tripadvisor';
+
+export interface ReviewProvider {
+  isConfigured: () => boolean;
+  // Throws when the API fails so a sync can keep the reviews it already has
+  fetchReviews: () => Promise<Review[]>;
+}
+
 // Google Reviews API integration
 export async function getGoogleReviews(tourId?: string | null): Promise<Review[]> {
   const placeId = process.env.GOOGLE_PLACE_ID;
@@ -10,43 +19,40 @@ export async function getGoogleReviews(tourId?: string | null): Promise<Review[]
     return [];
   }
 
-  try {
-    const response = await fetch(
-      `https://maps.googleapis.com/maps/api/place/details/json?place_id=${placeId}&fields=reviews&key=${apiKey}`,
-      {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        next: { revalidate: 3600 } // Cache for 1 hour
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Google Places API error: ${response.status}`);
+  // Newest reviews in the language they were written in
+  const response = await fetch(
+    `https://maps.googleapis.com/maps/api/place/details/json?place_id=${placeId}&fields=reviews&reviews_sort=newest&reviews_no_translations=true&key=${apiKey}`,
+    {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      cache: 'no-store'
     }
+  );
 
-    const data = await response.json();
-    
-    if (!data.result?.reviews) {
-      return [];
-    }
+  if (!response.ok) {
+    throw new Error(`Google Places API error: ${response.status}`);
+  }
 
-    return data.result.reviews.map((review: any, index: number): Review => ({
-      id: `google-${review.time}-${index}`,
-      tourId: tourId || 'general',
-      customerName: review.author_name || 'Anonymous',
-      rating: review.rating,
-      comment: review.text || '',
-      date: new Date(review.time * 1000),
-      source: 'google',
-      verified: true,
-      photos: review.profile_photo_url ? [review.profile_photo_url] : undefined
-    }));
+  const data = await response.json();
 
-  } catch (error) {
-    console.error('Error fetching Google reviews:', error);
+  if (!data.result?.reviews) {
     return [];
   }
+
+  return data.result.reviews.map((review: any): Review => ({
+    // Google has no review ID; the author and time are stable across syncs
+    id: `google-${review.time}-${String(review.author_name || 'anonymous').toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    tourId: tourId || 'general',
+    customerName: review.author_name || 'Anonymous',
+    rating: review.rating,
+    comment: review.text || '',
+    date: new Date(review.time * 1000),
+    source: 'google',
+    verified: true,
+    photos: review.profile_photo_url ? [review.profile_photo_url] : undefined,
+    language: review.original_language || review.language
+  }));
 }
 
 // TripAdvisor API integration
@@ -59,14 +65,17 @@ export async function getTripAdvisorReviews(tourId?: string | null): Promise<Rev
     return [];
   }
 
-  try {
+  const reviews: Review[] = [];
+
+  // TripAdvisor returns one language per request, so ask for each site language
+  for (const locale of LOCALES) {
     const response = await fetch(
-      `https://api.content.tripadvisor.com/api/v1/location/${locationId}/reviews?key=${apiKey}&language=en`,
+      `https://api.content.tripadvisor.com/api/v1/location/${locationId}/reviews?key=${apiKey}&language=${locale}`,
       {
         headers: {
           'Accept': 'application/json',
         },
-        next: { revalidate: 3600 } // Cache for 1 hour
+        cache: 'no-store'
       }
     );
 
@@ -75,30 +84,43 @@ export async function getTripAdvisorReviews(tourId?: string | null): Promise<Rev
     }
 
     const data = await response.json();
-    
-    if (!data.data) {
-      return [];
+
+    for (const review of data.data || []) {
+      reviews.push({
+        id: `tripadvisor-${review.id}`,
+        tourId: tourId || 'general',
+        customerName: review.user?.username || 'Anonymous',
+        rating: review.rating,
+        comment: review.text || '',
+        date: new Date(review.published_date),
+        source: 'tripadvisor',
+        verified: true,
+        photos: review.user?.avatar?.large ? [review.user.avatar.large] : undefined,
+        language: review.lang || locale
+      });
     }
+  }
 
-    return data.data.map((review: any): Review => ({
-      id: `tripadvisor-${review.id}`,
-      tourId: tourId || 'general',
-      customerName: review.user?.username || 'Anonymous',
-      rating: review.rating,
-      comment: review.text || '',
-      date: new Date(review.published_date),
-      source: 'tripadvisor',
-      verified: true,
-      photos: review.user?.avatar?.large ? [review.user.avatar.large] : undefined
-    }));
+  return reviews;
+}
 
-  } catch (error) {
-    console.error('Error fetching TripAdvisor reviews:', error);
-    return [];
-  }
+export const REVIEW_PROVIDERS: Record<ExternalReviewSource, ReviewProvider> = {
+  google: {
+    isConfigured: () => !!(process.env.GOOGLE_PLACE_ID && process.env.GOOGLE_PLACES_API_KEY),
+    fetchReviews: () => getGoogleReviews(),
+  },
+  tripadvisor: {
+    isConfigured: () => !!(process.env.TRIPADVISOR_LOCATION_ID && process.env.TRIPADVISOR_API_KEY),
+    fetchReviews: () => getTripAdvisorReviews(),
+  },
+};
+
+export function getConfiguredReviewSources(): ExternalReviewSource[] {
+  return (Object.keys(REVIEW_PROVIDERS) as ExternalReviewSource[])
+    .filter(source => REVIEW_PROVIDERS[source].isConfigured());
 }
 
-// Fallback mock reviews for development/testing
+// Fallback mock reviews for development/testing, used while no review source is configured
 export function getMockReviews(tourId?: string | null): Review[] {
   const baseReviews: Review[] = [
     {
@@ -112,7 +134,8 @@ export function getMockReviews(tourId?: string | null): Review[] {
       verified: true,
       photos: ['/images/reviews/sarah-m.jpg'],
       country: 'GB',
-      countryName: 'United Kingdom'
+      countryName: 'United Kingdom',
+      language: 'en'
     },
     {
       id: 'mock-2',
@@ -125,7 +148,8 @@ export function getMockReviews(tourId?: string | null): Review[] {
       verified: true,
       photos: ['/images/reviews/michael-k.jpg'],
       country: 'DE',
-      countryName: 'Germany'
+      countryName: 'Germany',
+      language: 'en'
     },
     {
       id: 'mock-3',
@@ -138,7 +162,8 @@ export function getMockReviews(tourId?: string | null): Review[] {
       verified: true,
       photos: ['/images/reviews/emma-l.jpg'],
       country: 'US',
-      countryName: 'United States'
+      countryName: 'United States',
+      language: 'en'
     },
     {
       id: 'mock-4',
@@ -150,7 +175,8 @@ export function getMockReviews(tourId?: string | null): Review[] {
       source: 'tripadvisor',
       verified: true,
       country: 'FR',
-      countryName: 'France'
+      countryName: 'France',
+      language: 'en'
     },
     {
       id: 'mock-5',
@@ -163,7 +189,8 @@ export function getMockReviews(tourId?: string | null): Review[] {
       verified: true,
       photos: ['/images/reviews/lisa-t.jpg'],
       country: 'NL',
-      countryName: 'Netherlands'
+      countryName: 'Netherlands',
+      language: 'en'
     },
     {
       id: 'mock-6',
@@ -176,7 +203,8 @@ export function getMockReviews(tourId?: string | null): Review[] {
       verified: true,
       photos: ['/images/reviews/thomas-b.jpg'],
       country: 'AT',
-      countryName: 'Austria'
+      countryName: 'Austria',
+      language: 'en'
     }
   ];
 
@@ -38,6 +38,11 @@ export const RATE_LIMIT_CONFIGS = {
     windowMs: 15 * 60 * 1000, // 15 minutes
     maxRequests: 5,
   },
+  // Admin sign-in attempts
+  adminLogin: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 5,
+  },
 } as const;
 
 // Security headers configuration
@@ -1,5 +1,5 @@
 import type { Metadata } from 'next';
-import { locales } from '@/paraglide/runtime';
+import { DEFAULT_LOCALE, isLocale, LOCALE_REGISTRY, LOCALES } from '@/lib/i18n';
 
 export interface SEOData {
   title: string;
@@ -51,7 +51,8 @@ export function generateMetadata(seoData: SEOData): Metadata {
           alt: title,
         },
       ],
-      locale,
+      // Open Graph wants language_TERRITORY, e.g. cs_CZ
+      locale: isLocale(locale) ? LOCALE_REGISTRY[locale].intlLocale.replace('-', '_') : locale,
       type: type === 'product' ? 'website' : type,
     },
 
@@ -98,8 +99,8 @@ export function generateAlternateUrls(path: string): Record<string, string> {
   const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://guidefilip-prague.com';
   const alternates: Record<string, string> = {};
   
-  locales.forEach((locale) => {
-    alternates[locale] = `${baseUrl}/${locale}${path}`;
+  LOCALES.forEach((locale) => {
+    alternates[LOCALE_REGISTRY[locale].hreflang] = `${baseUrl}/${locale}${path}`;
   });
   
   return alternates;
@@ -110,18 +111,18 @@ export function generateHreflangTags(path: string): Array<{ rel: string; href: s
   const hreflangTags: Array<{ rel: string; href: string; hrefLang: string }> = [];
   
   // Add hreflang for each locale
-  locales.forEach((locale) => {
+  LOCALES.forEach((locale) => {
     hreflangTags.push({
       rel: 'alternate',
       href: `${baseUrl}/${locale}${path}`,
-      hrefLang: locale,
+      hrefLang: LOCALE_REGISTRY[locale].hreflang,
     });
   });
   
   // Add x-default
   hreflangTags.push({
     rel: 'alternate',
-    href: `${baseUrl}/en${path}`,
+    href: `${baseUrl}/${DEFAULT_LOCALE}${path}`,
     hrefLang: 'x-default',
   });
   
@@ -8,6 +8,8 @@ export interface SessionData {
   sessionId: string;
   userId?: string;
   email?: string;
+  name?: string;
+  role?: string; // admin sessions only
   bookingData?: any;
   csrfToken: string;
   createdAt: Date;
@@ -35,10 +37,12 @@ export const SESSION_CONFIG = {
   // Session duration
   DURATION_MS: 24 * 60 * 60 * 1000, // 24 hours
   BOOKING_SESSION_DURATION_MS: 30 * 60 * 1000, // 30 minutes for booking flow
+  ADMIN_SESSION_DURATION_MS: 12 * 60 * 60 * 1000, // 12 hours for the admin area
   
   // Security settings
   COOKIE_NAME: 'session-token',
   BOOKING_COOKIE_NAME: 'booking-session',
+  ADMIN_COOKIE_NAME: 'admin-session',
   CSRF_COOKIE_NAME: 'csrf-token',
   
   // Cookie options
@@ -234,6 +238,30 @@ export class SessionManager {
     response.cookies.delete(SESSION_CONFIG.BOOKING_COOKIE_NAME);
   }
 
+  // Set admin session cookie
+  static setAdminSessionCookie(response: NextResponse, sessionToken: string): void {
+    response.cookies.set(SESSION_CONFIG.ADMIN_COOKIE_NAME, sessionToken, {
+      ...SESSION_CONFIG.COOKIE_OPTIONS,
+      maxAge: SESSION_CONFIG.ADMIN_SESSION_DURATION_MS / 1000,
+    });
+  }
+
+  // Clear admin session cookie
+  static clearAdminSessionCookie(response: NextResponse): void {
+    response.cookies.delete(SESSION_CONFIG.ADMIN_COOKIE_NAME);
+  }
+
+  // Get admin session from request - only sessions issued by the admin login carry a role
+  static async getAdminSessionFromRequest(request: NextRequest): Promise<SessionData | null> {
+    const sessionToken = request.cookies.get(SESSION_CONFIG.ADMIN_COOKIE_NAME)?.value;
+    if (!sessionToken) {
+      return null;
+    }
+
+    const sessionData = await this.validateSession(sessionToken);
+    return sessionData?.role ? sessionData : null;
+  }
+
   // Validate session security
   static validateSessionSecurity(
     sessionData: SessionData,
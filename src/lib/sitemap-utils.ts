@@ -1,4 +1,5 @@
-import { routing } from '@/i18n/routing';
+import { DEFAULT_LOCALE, LOCALE_REGISTRY, LOCALES } from '@/lib/i18n';
+import { getAllBlogPosts } from '@/lib/blog-index';
 
 export interface SitemapEntry {
   url: string;
@@ -10,6 +11,19 @@ export interface SitemapEntry {
   };
 }
 
+// hreflang -> URL of the page in every locale, plus x-default
+export function generateAlternateLanguages(path: string): Record<string, string> {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://guidefilip-prague.com';
+  const alternates: Record<string, string> = {};
+
+  LOCALES.forEach((locale) => {
+    alternates[LOCALE_REGISTRY[locale].hreflang] = `${baseUrl}/${locale}${path}`;
+  });
+  alternates['x-default'] = `${baseUrl}/${DEFAULT_LOCALE}${path}`;
+
+  return alternates;
+}
+
 export function generateSitemapEntry(
   path: string,
   options: {
@@ -27,23 +41,14 @@ export function generateSitemapEntry(
 
   const entries: SitemapEntry[] = [];
 
-  routing.locales.forEach((locale) => {
-    const url = `${baseUrl}/${locale}${path}`;
-    const alternates: Record<string, string> = {};
-    
-    // Generate alternate language URLs
-    routing.locales.forEach((altLocale) => {
-      alternates[altLocale] = `${baseUrl}/${altLocale}${path}`;
-    });
-    alternates['x-default'] = `${baseUrl}/en${path}`;
-
+  LOCALES.forEach((locale) => {
     entries.push({
-      url,
+      url: `${baseUrl}/${locale}${path}`,
       lastModified,
       changeFrequency,
       priority,
       alternates: {
-        languages: alternates,
+        languages: generateAlternateLanguages(path),
       },
     });
   });
@@ -84,12 +89,10 @@ export async function getToursSitemapData() {
   ];
 }
 
-// This function would typically fetch from your CMS or database
+// Live posts only; drafts, posts in review and future scheduled posts stay out of the sitemap
 export async function getBlogPostsSitemapData() {
-  // Mock data - replace with actual data fetching
-  return [
-    { slug: 'best-prague-restaurants', lastModified: '2024-01-20' },
-    { slug: 'prague-castle-history', lastModified: '2024-01-18' },
-    { slug: 'hidden-gems-prague', lastModified: '2024-01-22' },
-  ];
+  return (await getAllBlogPosts()).map((post) => ({
+    slug: post.slug,
+    lastModified: post.updatedAt || post.publishedAt,
+  }));
 }
\ No newline at end of file
@@ -0,0 +1,18 @@
+// Tour catalog lookups for server code
+// Read from content/tours/*.json through the content loader's cache, so tours saved in the admin editor are bookable straight away
+
+import { CancellationTerms, Tour } from '@/types';
+import { contentLoader } from '@/lib/content-loader';
+import { resolveCancellationPolicy } from '@/lib/cancellation-policy';
+
+export function getTourConfig(tourId: string): Tour | undefined {
+  return getTourCatalog().find(tour => tour.id === tourId);
+}
+
+export function getTourCatalog(): Tour[] {
+  return contentLoader.getTourCatalog();
+}
+
+export function getCancellationPolicy(tourId: string, date?: string): CancellationTerms {
+  return resolveCancellationPolicy(getTourConfig(tourId)?.cancellationPolicy, date);
+}
@@ -0,0 +1,159 @@
+// Tour content files for the admin editor
+// Reads and writes content/tours/*.json, backing up each file before it changes and keeping content-manifest.json in step
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LOCALES } from '@/lib/constants';
+import { contentLoader } from '@/lib/content-loader';
+import { getContentPath, readContentManifest, updateManifestItem } from '@/lib/content-manifest';
+import { validateTour, TourFieldErrors } from '@/lib/tour-schema';
+import type { Locale, Tour } from '@/types';
+
+const MAX_BACKUPS_PER_TOUR = 10;
+
+// The same placeholder in every locale
+const perLocale = <T>(value: () => T) =>
+  Object.fromEntries(LOCALES.map(locale => [locale, value()])) as Record<Locale, T>;
+
+export interface TourSummary {
+  id: string;
+  slug: string;
+  title: Tour['title'];
+  description: Tour['description'];
+  highlights: Tour['highlights'];
+  difficulty: Tour['difficulty'];
+  duration: number;
+  maxGroupSize: number;
+  basePrice: number;
+  currency: string;
+  status: 'published' | 'draft';
+  lastModified: string;
+  valid: boolean;
+}
+
+export class TourValidationError extends Error {
+  constructor(public fieldErrors: TourFieldErrors) {
+    super('Tour content is invalid');
+    this.name = 'TourValidationError';
+  }
+}
+
+const toursPath = () => path.join(getContentPath(), 'tours');
+const backupPath = () => path.join(getContentPath(), 'backups', 'tours');
+
+const tourFile = (id: string) => path.join(toursPath(), `${id}.json`);
+
+// Copy the current file aside, keeping the newest backups only
+async function createBackup(id: string): Promise<void> {
+  const originalPath = tourFile(id);
+  try {
+    await fs.access(originalPath);
+  } catch {
+    return;
+  }
+
+  await fs.mkdir(backupPath(), { recursive: true });
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  await fs.copyFile(originalPath, path.join(backupPath(), `${id}-${timestamp}.json`));
+
+  const backups = (await fs.readdir(backupPath()))
+    .filter(file => file.startsWith(`${id}-`) && file.endsWith('.json'))
+    .sort()
+    .reverse();
+
+  for (const file of backups.slice(MAX_BACKUPS_PER_TOUR)) {
+    await fs.unlink(path.join(backupPath(), file));
+  }
+}
+
+async function updateManifest(tour: Tour, savedAt: string): Promise<void> {
+  const manifest = await readContentManifest();
+  const existing = manifest.content.tours.items.find(item => item.id === tour.id);
+
+  await updateManifestItem('tours', tour.id, {
+    id: tour.id,
+    slug: tour.slug,
+    // A saved tour is in the booking catalog as soon as the content cache is cleared
+    status: existing?.status || 'published',
+    lastModified: savedAt,
+    // The schema only accepts tours with every locale filled in
+    translations: Object.fromEntries(LOCALES.map(locale => [locale, 'complete'])),
+    seoOptimized: tour.seoMetadata.keywords.length > 0,
+    images: tour.images.length,
+    reviews: tour.reviews.length,
+  }, savedAt);
+}
+
+export async function listTourContent(): Promise<TourSummary[]> {
+  const manifest = await readContentManifest();
+  const files = (await fs.readdir(toursPath())).filter(file => file.endsWith('.json'));
+
+  const summaries: TourSummary[] = [];
+  for (const file of files) {
+    const filePath = path.join(toursPath(), file);
+    const [content, stats] = await Promise.all([fs.readFile(filePath, 'utf-8'), fs.stat(filePath)]);
+    const data = JSON.parse(content);
+    const entry = manifest.content.tours.items.find(item => item.id === data.id);
+
+    summaries.push({
+      id: data.id,
+      slug: data.slug,
+      // Invalid files are still listed so they can be opened and fixed
+      title: data.title || perLocale(() => data.id),
+      description: data.description || perLocale(() => ''),
+      highlights: data.highlights || perLocale((): string[] => []),
+      difficulty: data.difficulty,
+      duration: data.duration,
+      maxGroupSize: data.maxGroupSize,
+      basePrice: data.basePrice,
+      currency: data.currency,
+      status: entry?.status || 'draft',
+      lastModified: entry?.lastModified || stats.mtime.toISOString(),
+      valid: validateTour(data).success,
+    });
+  }
+
+  return summaries.sort((a, b) => String(a.title.en).localeCompare(String(b.title.en)));
+}
+
+// Raw file contents, so the editor can open and fix a tour that no longer validates
+export async function readTourContent(id: string): Promise<Record<string, unknown> | null> {
+  if (!/^[a-z0-9-]+$/.test(id)) return null;
+
+  try {
+    return JSON.parse(await fs.readFile(tourFile(id), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return null;
+  }
+}
+
+// Validate and write a tour. Throws TourValidationError with per-field messages;
+// returns null when updating a tour that does not exist.
+export async function saveTourContent(
+  data: unknown,
+  options: { isNew: boolean }
+): Promise<{ tour: Tour; isUpdate: boolean } | null> {
+  const result = validateTour(data);
+  if (!result.success) {
+    throw new TourValidationError(result.errors);
+  }
+
+  const tour = result.tour;
+  const existing = await readTourContent(tour.id);
+  if (options.isNew && existing) {
+    throw new TourValidationError({ id: 'A tour with this ID already exists' });
+  }
+  if (!options.isNew && !existing) {
+    return null;
+  }
+
+  await fs.mkdir(toursPath(), { recursive: true });
+  await createBackup(tour.id);
+  await fs.writeFile(tourFile(tour.id), JSON.stringify(tour, null, 2) + '\n', 'utf-8');
+
+  await updateManifest(tour, new Date().toISOString());
+  contentLoader.clearCache();
+
+  return { tour, isUpdate: !!existing };
+}
@@ -0,0 +1,158 @@
+// Tour pricing and schedule engine
+// Single source of truth for prices, capacity and operating hours; takes tour objects from tour-catalog.ts so client components can import it
+
+import { Tour, TourPricing, AvailabilityRule } from '@/types';
+
+// Fields the engine needs - lets callers pass partial tour objects
+export type PricedTour = Pick<Tour, 'basePrice' | 'currency' | 'maxGroupSize' | 'duration' | 'availability'> & {
+  pricing?: TourPricing;
+};
+
+export interface PriceQuote {
+  basePrice: number;
+  groupSize: number;
+  currency: string;
+  subtotal: number;
+  groupDiscountPercent: number;
+  groupDiscountAmount: number;
+  seasonalRule?: string;
+  seasonalAdjustmentPercent: number;
+  seasonalAdjustmentAmount: number;
+  total: number;
+  pricePerPerson: number;
+}
+
+export interface ScheduledSlot {
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  maxBookings: number;
+}
+
+// Applied to tours that don't declare their own pricing rules
+export const DEFAULT_TOUR_PRICING: TourPricing = {
+  groupDiscounts: [
+    { minSize: 4, discountPercent: 5 },
+    { minSize: 6, discountPercent: 10 },
+  ],
+  seasonalRules: [
+    { name: 'summer', startMonth: 6, endMonth: 9, adjustmentPercent: 15 },
+  ],
+};
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Parse YYYY-MM-DD as a local calendar date (avoids UTC day shifts)
+export function parseTourDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function isMonthInRule(month: number, startMonth: number, endMonth: number): boolean {
+  return startMonth <= endMonth
+    ? month >= startMonth && month <= endMonth
+    : month >= startMonth || month <= endMonth;
+}
+
+export function getGroupDiscountPercent(tour: PricedTour, groupSize: number): number {
+  const discounts = (tour.pricing || DEFAULT_TOUR_PRICING).groupDiscounts;
+  const applicable = discounts
+    .filter(discount => groupSize >= discount.minSize)
+    .sort((a, b) => b.minSize - a.minSize);
+
+  return applicable[0]?.discountPercent || 0;
+}
+
+export function getSeasonalRule(tour: PricedTour, date: string) {
+  if (!date) return undefined;
+
+  const month = parseTourDate(date).getMonth() + 1;
+  return (tour.pricing || DEFAULT_TOUR_PRICING).seasonalRules.find(rule =>
+    isMonthInRule(month, rule.startMonth, rule.endMonth)
+  );
+}
+
+// Full price breakdown for a group on a given date
+export function calculateTourPrice(tour: PricedTour, groupSize: number, date: string): PriceQuote {
+  const subtotal = tour.basePrice * groupSize;
+
+  const groupDiscountPercent = getGroupDiscountPercent(tour, groupSize);
+  const groupDiscountAmount = subtotal * (groupDiscountPercent / 100);
+  const afterDiscount = subtotal - groupDiscountAmount;
+
+  const seasonalRule = getSeasonalRule(tour, date);
+  const seasonalAdjustmentPercent = seasonalRule?.adjustmentPercent || 0;
+  const seasonalAdjustmentAmount = afterDiscount * (seasonalAdjustmentPercent / 100);
+
+  const total = roundCurrency(afterDiscount + seasonalAdjustmentAmount);
+
+  return {
+    basePrice: tour.basePrice,
+    groupSize,
+    currency: tour.currency,
+    subtotal: roundCurrency(subtotal),
+    groupDiscountPercent,
+    groupDiscountAmount: roundCurrency(groupDiscountAmount),
+    seasonalRule: seasonalRule?.name,
+    seasonalAdjustmentPercent,
+    seasonalAdjustmentAmount: roundCurrency(seasonalAdjustmentAmount),
+    total,
+    pricePerPerson: groupSize > 0 ? roundCurrency(total / groupSize) : 0,
+  };
+}
+
+// Schedule helpers
+export function getOperatingDays(tour: PricedTour): number[] {
+  return Array.from(new Set(tour.availability.map(rule => rule.dayOfWeek))).sort();
+}
+
+export function getRulesForDate(tour: PricedTour, date: string): AvailabilityRule[] {
+  const dayOfWeek = parseTourDate(date).getDay();
+  return tour.availability.filter(rule => rule.dayOfWeek === dayOfWeek);
+}
+
+export function getTourEndTime(tour: PricedTour, startTime: string): string {
+  const [hours, minutes] = startTime.split(':').map(Number);
+  const endMinutes = hours * 60 + minutes + tour.duration;
+  const endHours = Math.floor(endMinutes / 60) % 24;
+  return `${String(endHours).padStart(2, '0')}:${String(endMinutes % 60).padStart(2, '0')}`;
+}
+
+export function getScheduledSlots(tour: PricedTour, date: string): ScheduledSlot[] {
+  return getRulesForDate(tour, date)
+    .map(rule => ({
+      startTime: rule.startTime,
+      endTime: rule.endTime,
+      maxBookings: rule.maxBookings,
+    }))
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+// Pricing summary in the shape booking providers report
+export function getPricingInfo(tour: PricedTour) {
+  return {
+    basePrice: tour.basePrice,
+    currency: tour.currency,
+    groupDiscounts: (tour.pricing || DEFAULT_TOUR_PRICING).groupDiscounts,
+  };
+}
+
+// Group sizes worth quoting: the usual sizes plus every discount threshold
+export function getPricingOptions(tour: PricedTour, date: string) {
+  const discountSizes = (tour.pricing || DEFAULT_TOUR_PRICING).groupDiscounts.map(d => d.minSize);
+  const sizes = Array.from(new Set([1, 2, ...discountSizes, tour.maxGroupSize]))
+    .filter(size => size <= tour.maxGroupSize)
+    .sort((a, b) => a - b);
+
+  return sizes.map(groupSize => {
+    const quote = calculateTourPrice(tour, groupSize, date);
+    return {
+      groupSize,
+      totalPrice: quote.total,
+      pricePerPerson: quote.pricePerPerson,
+    };
+  });
+}
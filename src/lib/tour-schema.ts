@@ -0,0 +1,124 @@
+// Tour content schema
+// Shared by the content loader, the admin tour API and the tour editor so all three agree on what a valid tour is
+
+import { z } from 'zod';
+import { LOCALE_REGISTRY, LOCALES } from '@/lib/i18n';
+import type { Locale, Tour } from '@/types';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// One required field per locale in the registry
+function perLocale<T extends z.ZodType>(field: (locale: Locale) => T) {
+  return z.object(Object.fromEntries(LOCALES.map(locale => [locale, field(locale)])) as Record<Locale, T>);
+}
+
+const localizedText = perLocale(locale =>
+  z.string().trim().min(1, `${LOCALE_REGISTRY[locale].englishName} text is required`)
+);
+
+const localizedList = perLocale(() =>
+  z.array(z.string().trim().min(1, 'Item cannot be empty')).min(1, 'Add at least one item')
+);
+
+const month = z.number().int().min(1, 'Month must be 1-12').max(12, 'Month must be 1-12');
+
+export const tourImageSchema = z.object({
+  id: z.string().trim().min(1, 'Image ID is required'),
+  url: z.string().trim().regex(/^(\/|https:\/\/)/, 'Use a site path or https URL'),
+  alt: localizedText,
+  caption: localizedText.optional(),
+  width: z.number().int().positive('Width must be positive'),
+  height: z.number().int().positive('Height must be positive'),
+});
+
+export const geoLocationSchema = z.object({
+  lat: z.number().min(-90, 'Latitude must be between -90 and 90').max(90, 'Latitude must be between -90 and 90'),
+  lng: z.number().min(-180, 'Longitude must be between -180 and 180').max(180, 'Longitude must be between -180 and 180'),
+  name: localizedText,
+});
+
+export const availabilityRuleSchema = z.object({
+  dayOfWeek: z.number().int().min(0, 'Day must be 0-6').max(6, 'Day must be 0-6'),
+  startTime: z.string().regex(TIME_PATTERN, 'Use HH:MM'),
+  endTime: z.string().regex(TIME_PATTERN, 'Use HH:MM'),
+  maxBookings: z.number().int().min(1, 'At least one booking per slot'),
+}).refine(rule => rule.startTime < rule.endTime, {
+  message: 'End time must be after start time',
+  path: ['endTime'],
+});
+
+export const seoMetadataSchema = z.object({
+  title: localizedText,
+  description: localizedText,
+  keywords: z.array(z.string().trim().min(1)),
+  ogImage: z.string().optional(),
+  canonicalUrl: z.string().optional(),
+});
+
+const tourPricingSchema = z.object({
+  groupDiscounts: z.array(z.object({
+    minSize: z.number().int().min(1),
+    discountPercent: z.number().min(0).max(100),
+  })),
+  seasonalRules: z.array(z.object({
+    name: z.string().trim().min(1),
+    startMonth: month,
+    endMonth: month,
+    adjustmentPercent: z.number().min(-100),
+  })),
+});
+
+const cancellationWindowSchema = z.object({
+  minHoursBefore: z.number().min(0),
+  refundPercent: z.number().min(0).max(100),
+});
+
+const cancellationPolicySchema = z.looseObject({
+  minimumNoticeHours: z.number().min(0),
+  windows: z.array(cancellationWindowSchema),
+  depositPercent: z.number().min(0).max(100).optional(),
+  weatherRefundPercent: z.number().min(0).max(100).optional(),
+});
+
+// Fields the site does not model yet (itineraries, included services, notes) are kept as they are
+export const tourSchema = z.looseObject({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Use only lowercase letters, numbers, and hyphens'),
+  slug: z.string().regex(/^[a-z0-9-]+$/, 'Use only lowercase letters, numbers, and hyphens'),
+  title: localizedText,
+  description: localizedText,
+  highlights: localizedList,
+  duration: z.number().int().positive('Duration must be positive'),
+  maxGroupSize: z.number().int().min(1, 'Group size must be at least 1'),
+  basePrice: z.number().positive('Price must be positive'),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Use a 3-letter currency code'),
+  difficulty: z.enum(['easy', 'moderate', 'challenging']),
+  images: z.array(tourImageSchema).min(1, 'Add at least one image'),
+  route: z.array(geoLocationSchema).min(1, 'Add at least one route stop'),
+  availability: z.array(availabilityRuleSchema),
+  pricing: tourPricingSchema.optional(),
+  cancellationPolicy: cancellationPolicySchema.optional(),
+  meetingPoint: localizedText.optional(),
+  reviews: z.array(z.looseObject({ id: z.string(), rating: z.number().min(1).max(5) })),
+  seoMetadata: seoMetadataSchema,
+});
+
+// Field path (e.g. "route.2.name.de") to the first problem found there
+export type TourFieldErrors = Record<string, string>;
+
+export type TourValidationResult =
+  | { success: true; tour: Tour; errors?: undefined }
+  | { success: false; tour?: undefined; errors: TourFieldErrors };
+
+export function validateTour(data: unknown): TourValidationResult {
+  const result = tourSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, tour: result.data as unknown as Tour };
+  }
+
+  const errors: TourFieldErrors = {};
+  for (const issue of result.error.issues) {
+    const key = issue.path.join('.') || 'tour';
+    if (!errors[key]) errors[key] = issue.message;
+  }
+  return { success: false, errors };
+}
@@ -0,0 +1,276 @@
+// Verified guest reviews
+// Signed one-time review links for completed bookings, review storage and the admin moderation queue
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { z } from 'zod';
+import { getJsonStore } from '@/lib/json-store';
+import { findStoredBooking, StoredBooking } from '@/lib/booking-store';
+import { getMediaPath } from '@/lib/media-library';
+import { parseTourDate } from '@/lib/tour-pricing';
+import type { Locale, Review } from '@/types';
+
+export const REVIEW_LINK_TTL_MS = 60 * 24 * 60 * 60 * 1000;
+export const MAX_REVIEW_PHOTOS = 3;
+export const MAX_REVIEW_PHOTO_BYTES = 8 * 1024 * 1024;
+const REVIEW_PHOTO_WIDTH = 1280;
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ReviewReply {
+  message: string;
+  repliedAt: string;
+}
+
+export interface StoredReview {
+  id: string;
+  bookingId: string;
+  tourId: string;
+  customerName: string;
+  email: string;
+  rating: number;
+  comment: string;
+  country?: string;
+  photos: string[];
+  locale: Locale;
+  status: ReviewStatus;
+  reply?: ReviewReply;
+  moderatedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Query parameters carried by a review link
+export interface ReviewLink {
+  booking?: string;
+  expires?: string;
+  signature?: string;
+}
+
+export type ReviewLinkProblem = 'invalid' | 'not-found' | 'cancelled' | 'too-early' | 'already-reviewed';
+
+const REVIEW_LINK_MESSAGES: Record<ReviewLinkProblem, string> = {
+  invalid: 'This review link is invalid or has expired',
+  'not-found': 'The booking for this review link no longer exists',
+  cancelled: 'This booking was cancelled',
+  'too-early': 'Reviews can be left once the tour has taken place',
+  'already-reviewed': 'A review has already been submitted for this booking',
+};
+
+export class ReviewLinkError extends Error {
+  constructor(public problem: ReviewLinkProblem) {
+    super(REVIEW_LINK_MESSAGES[problem]);
+    this.name = 'ReviewLinkError';
+  }
+}
+
+export const reviewSubmissionSchema = z.object({
+  rating: z.coerce.number().int().min(1, 'Please choose a rating').max(5),
+  comment: z.string().trim().min(20, 'Please write at least a couple of sentences').max(3000),
+  country: z.string().trim().regex(/^[A-Za-z]{2}$/, 'Invalid country code').optional(),
+});
+
+export type ReviewSubmission = z.infer<typeof reviewSubmissionSchema>;
+
+export interface ReviewPhotoUpload {
+  buffer: Buffer;
+  mimeType: string;
+}
+
+const reviewStore = () =>
+  getJsonStore<{ reviews: StoredReview[] }>(
+    process.env.REVIEWS_FILE || 'reviews.json',
+    () => ({ reviews: [] })
+  );
+
+function getReviewSecret(): string {
+  return process.env.REVIEW_LINK_SECRET || process.env.JWT_SECRET || 'fallback-secret-for-development-only';
+}
+
+function sign(bookingId: string, expires: number): string {
+  return createHmac('sha256', getReviewSecret()).update(`review:${bookingId}:${expires}`).digest('hex');
+}
+
+// Path below /[locale], e.g. "/reviews/write?booking=...&expires=...&signature=..."
+export function createReviewPath(bookingId: string, now: number = Date.now()): string {
+  const expires = now + REVIEW_LINK_TTL_MS;
+  const query = new URLSearchParams({ booking: bookingId, expires: String(expires), signature: sign(bookingId, expires) });
+  return `/reviews/write?${query}`;
+}
+
+function hasValidSignature(link: ReviewLink, now: number): boolean {
+  const expiresAt = Number(link.expires);
+  if (!link.booking || !link.signature || !Number.isFinite(expiresAt) || expiresAt < now) return false;
+
+  const expected = Buffer.from(sign(link.booking, expiresAt), 'hex');
+  const actual = Buffer.from(link.signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function hasTourStarted(booking: StoredBooking, now: number): boolean {
+  const [hours, minutes] = booking.startTime.split(':').map(Number);
+  const start = parseTourDate(booking.date);
+  start.setHours(hours, minutes, 0, 0);
+  return start.getTime() <= now;
+}
+
+// The booking a review link belongs to. Throws ReviewLinkError when the link cannot be used,
+// including once a review has been submitted, which makes every link single-use.
+export async function verifyReviewLink(link: ReviewLink, now: number = Date.now()): Promise<StoredBooking> {
+  if (!hasValidSignature(link, now)) {
+    throw new ReviewLinkError('invalid');
+  }
+
+  const booking = await findStoredBooking(link.booking!);
+  if (!booking) throw new ReviewLinkError('not-found');
+  if (booking.status === 'cancelled') throw new ReviewLinkError('cancelled');
+  if (!hasTourStarted(booking, now)) throw new ReviewLinkError('too-early');
+
+  const { reviews } = await reviewStore().read();
+  if (reviews.some(review => review.bookingId === booking.id)) {
+    throw new ReviewLinkError('already-reviewed');
+  }
+
+  return booking;
+}
+
+// "Sarah M." - reviews never show a guest's full surname
+function getDisplayName(booking: StoredBooking): string {
+  const { firstName, lastName } = booking.customerInfo;
+  const initial = lastName.trim().charAt(0).toUpperCase();
+  return initial ? `${firstName.trim()} ${initial}.` : firstName.trim();
+}
+
+// The declared type only says what the browser claims; sharp has to be able to read the file as that kind of image
+export async function isReadableReviewPhoto(photo: ReviewPhotoUpload): Promise<boolean> {
+  const metadata = await sharp(photo.buffer).metadata().catch(() => null);
+  const format = metadata?.format === 'jpeg' ? 'image/jpeg' : `image/${metadata?.format}`;
+  return !!metadata?.width && !!metadata.height && format === photo.mimeType;
+}
+
+async function saveReviewPhotos(reviewId: string, photos: ReviewPhotoUpload[]): Promise<string[]> {
+  const directory = path.join(getMediaPath(), 'reviews');
+  await fs.mkdir(directory, { recursive: true });
+
+  const urls: string[] = [];
+  for (const [index, photo] of photos.entries()) {
+    const fileName = `${reviewId}-${index + 1}.webp`;
+    await sharp(photo.buffer)
+      .rotate()
+      .resize(REVIEW_PHOTO_WIDTH, null, { withoutEnlargement: true, fit: 'inside' })
+      .webp({ quality: 80 })
+      .toFile(path.join(directory, fileName));
+    urls.push(`/media/reviews/${fileName}`);
+  }
+  return urls;
+}
+
+// Store a review from a signed link. It waits in the moderation queue until approved.
+export async function submitReview(
+  link: ReviewLink,
+  submission: ReviewSubmission,
+  photos: ReviewPhotoUpload[] = [],
+  now: number = Date.now()
+): Promise<StoredReview> {
+  const booking = await verifyReviewLink(link, now);
+  const id = `rev_${now}_${Math.random().toString(36).substr(2, 9)}`;
+  const timestamp = new Date(now).toISOString();
+
+  const review: StoredReview = {
+    id,
+    bookingId: booking.id,
+    tourId: booking.tourId,
+    customerName: getDisplayName(booking),
+    email: booking.customerInfo.email,
+    rating: submission.rating,
+    comment: submission.comment,
+    country: (submission.country || booking.customerInfo.country)?.toUpperCase(),
+    photos: [],
+    locale: booking.locale || 'en',
+    status: 'pending',
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+
+  return reviewStore().update(async data => {
+    // Two tabs submitting the same link at once
+    if (data.reviews.some(existing => existing.bookingId === booking.id)) {
+      throw new ReviewLinkError('already-reviewed');
+    }
+    // Written only once the review is certain to be stored, so a rejected duplicate leaves no files
+    review.photos = await saveReviewPhotos(id, photos.slice(0, MAX_REVIEW_PHOTOS));
+    data.reviews.push(review);
+    return review;
+  });
+}
+
+export async function getStoredReviews(status?: ReviewStatus): Promise<StoredReview[]> {
+  const data = await reviewStore().read();
+  return data.reviews
+    .filter(review => !status || review.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function getCountryName(code: string): string | undefined {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'region' }).of(code);
+  } catch {
+    return undefined;
+  }
+}
+
+function toPublicReview(review: StoredReview): Review {
+  return {
+    id: review.id,
+    tourId: review.tourId,
+    customerName: review.customerName,
+    rating: review.rating,
+    comment: review.comment,
+    date: new Date(review.createdAt),
+    source: 'direct',
+    verified: true,
+    photos: review.photos.length > 0 ? review.photos : undefined,
+    country: review.country,
+    countryName: review.country ? getCountryName(review.country) : undefined,
+    language: review.locale,
+    reply: review.reply ? { message: review.reply.message, date: new Date(review.reply.repliedAt) } : undefined,
+  };
+}
+
+// Approved reviews as the public components show them, optionally for one tour
+export async function getApprovedReviews(tourId?: string | null): Promise<Review[]> {
+  const reviews = await getStoredReviews('approved');
+  return reviews
+    .filter(review => !tourId || review.tourId === tourId)
+    .map(toPublicReview);
+}
+
+async function updateReview(
+  id: string,
+  change: (review: StoredReview) => void
+): Promise<StoredReview | null> {
+  return reviewStore().update(data => {
+    const review = data.reviews.find(r => r.id === id);
+    if (!review) return null;
+
+    change(review);
+    review.updatedAt = new Date().toISOString();
+    return { ...review };
+  });
+}
+
+export function moderateReview(id: string, status: 'approved' | 'rejected'): Promise<StoredReview | null> {
+  return updateReview(id, review => {
+    review.status = status;
+    review.moderatedAt = new Date().toISOString();
+  });
+}
+
+// Filip's public answer, shown under the review once it is approved
+export function replyToReview(id: string, message: string): Promise<StoredReview | null> {
+  return updateReview(id, review => {
+    review.reply = { message, repliedAt: new Date().toISOString() };
+  });
+}
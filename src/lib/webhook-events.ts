@@ -0,0 +1,43 @@
+// Processed webhook event log
+// Lets webhook routes acknowledge redelivered events without handling them twice
+
+import { getJsonStore } from '@/lib/json-store';
+
+export type WebhookSource = 'stripe' | 'paypal';
+
+export interface ProcessedWebhookEvent {
+  source: WebhookSource;
+  eventId: string;
+  type: string;
+  processedAt: string;
+}
+
+// Providers stop redelivering after a few days, so older IDs can be forgotten
+const RETENTION_DAYS = 30;
+
+const eventStore = () =>
+  getJsonStore<{ events: ProcessedWebhookEvent[] }>(
+    process.env.WEBHOOK_EVENTS_FILE || 'webhook-events.json',
+    () => ({ events: [] })
+  );
+
+export async function isWebhookEventProcessed(source: WebhookSource, eventId: string): Promise<boolean> {
+  const data = await eventStore().read();
+  return data.events.some(event => event.source === source && event.eventId === eventId);
+}
+
+// Called once an event was handled successfully - failed events stay retryable
+export async function markWebhookEventProcessed(
+  source: WebhookSource,
+  eventId: string,
+  type: string
+): Promise<void> {
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  await eventStore().update(data => {
+    data.events = data.events.filter(event => event.processedAt >= cutoff);
+    if (!data.events.some(event => event.source === source && event.eventId === eventId)) {
+      data.events.push({ source, eventId, type, processedAt: new Date().toISOString() });
+    }
+  });
+}
@@ -1,38 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { locales, baseLocale } from './paraglide/runtime';
 import { securityMiddleware } from './lib/security-middleware';
-
-const defaultLocale = baseLocale;
-
-function getLocale(request: NextRequest): string {
-  // Check if there is any supported locale in the pathname
-  const pathname = request.nextUrl.pathname;
-  const pathnameIsMissingLocale = locales.every(
-    (locale) => !pathname.startsWith(`/${locale}/`) && pathname !== `/${locale}`
-  );
-
-  // Redirect if there is no locale
-  if (pathnameIsMissingLocale) {
-    // Try to get locale from Accept-Language header
-    const acceptLanguage = request.headers.get('accept-language');
-    let locale = defaultLocale;
-
-    if (acceptLanguage) {
-      const preferredLocale = acceptLanguage
-        .split(',')[0]
-        .split('-')[0]
-        .toLowerCase();
-
-      if (locales.includes(preferredLocale)) {
-        locale = preferredLocale;
-      }
-    }
-
-    return locale;
-  }
-
-  return pathname.split('/')[1];
-}
+import { SessionManager } from './lib/session-management';
+import { canAccess, getAdminPageArea, isAdminRole } from './lib/admin-access';
+import { getPathLocale, negotiateLocale, resolveLocaleAlias } from './lib/i18n';
 
 export default async function middleware(request: NextRequest) {
   // Apply security middleware first
@@ -56,27 +26,50 @@ export default async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
-  // Check if there is any supported locale in the pathname
-  const pathnameIsMissingLocale = locales.every(
-    (locale) => !pathname.startsWith(`/${locale}/`) && pathname !== `/${locale}`
-  );
+  // Locale aliases such as "/cz" permanently redirect to the canonical locale
+  const canonicalPath = resolveLocaleAlias(pathname);
+  if (canonicalPath) {
+    const url = request.nextUrl.clone();
+    url.pathname = canonicalPath;
+    return NextResponse.redirect(url, 308);
+  }
 
-  // Redirect if there is no locale
-  if (pathnameIsMissingLocale) {
-    const locale = getLocale(request);
+  // Redirect to the visitor's preferred language if there is no locale
+  if (!getPathLocale(pathname)) {
+    const locale = negotiateLocale(request.headers.get('accept-language'));
     return NextResponse.redirect(
       new URL(`/${locale}${pathname.startsWith('/') ? '' : '/'}${pathname}`, request.url)
     );
   }
 
+  // Admin pages need a signed-in user whose role covers the page. Signed blog preview
+  // links are checked by the preview page itself so they can be shared with reviewers.
+  const adminMatch = pathname.match(/^\/([^/]+)\/admin(?:\/(.*))?$/);
+  const isSignedPreview = /^preview\/blog\/[^/]+$/.test(adminMatch?.[2] || '') &&
+    request.nextUrl.searchParams.has('signature');
+  if (adminMatch && adminMatch[2] !== 'login' && !isSignedPreview) {
+    const [, locale, adminPath = ''] = adminMatch;
+    const session = await SessionManager.getAdminSessionFromRequest(request);
+
+    if (!session || !isAdminRole(session.role)) {
+      const loginUrl = new URL(`/${locale}/admin/login`, request.url);
+      loginUrl.searchParams.set('next', pathname);
+      return NextResponse.redirect(loginUrl);
+    }
+
+    if (!canAccess(session.role, getAdminPageArea(adminPath))) {
+      return NextResponse.redirect(new URL(`/${locale}/admin`, request.url));
+    }
+  }
+
   return NextResponse.next();
 }
 
 export const config = {
-  // Match all routes for security, but exclude API routes and static files from i18n
+  // Match all routes for security, but exclude API routes and static files from i18n.
+  // Locale prefixes are recognised in code from the registry in lib/i18n.ts, not listed here.
   matcher: [
     '/((?!api|_next/static|_next/image|favicon.ico|robots.txt|sitemap.xml).*)',
-    '/',
-    '/(cz|fr|en)/:path*'
+    '/'
   ]
 };
\ No newline at end of file
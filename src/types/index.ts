@@ -1,12 +1,11 @@
 // Core types for the Prague tour guide website
 
-export type Locale = 'en' | 'de' | 'fr';
+import type { Locale } from '@/lib/i18n';
 
-export interface LocalizedContent {
-  en: string;
-  de: string;
-  fr: string;
-}
+export type { Locale };
+
+// Text in every locale of the registry
+export type LocalizedContent = Record<Locale, string>;
 
 export interface SEOMetadata {
   title: LocalizedContent;
@@ -38,6 +37,45 @@ export interface AvailabilityRule {
   maxBookings: number;
 }
 
+export interface GroupDiscount {
+  minSize: number;
+  discountPercent: number;
+}
+
+export interface SeasonalPricingRule {
+  name: string;
+  startMonth: number; // 1-12, inclusive
+  endMonth: number; // 1-12, inclusive (may wrap past December)
+  adjustmentPercent: number; // positive = premium, negative = discount
+}
+
+export interface TourPricing {
+  groupDiscounts: GroupDiscount[];
+  seasonalRules: SeasonalPricingRule[];
+}
+
+export interface CancellationWindow {
+  minHoursBefore: number; // applies to cancellations at least this long before the start
+  refundPercent: number;
+}
+
+export interface CancellationTerms {
+  minimumNoticeHours: number; // no self-service changes inside this window
+  windows: CancellationWindow[];
+  depositPercent?: number; // share of the price kept on customer cancellations
+  weatherRefundPercent?: number; // tours called off for severe weather
+}
+
+export interface SeasonalCancellationRule extends Partial<CancellationTerms> {
+  name: string;
+  startMonth: number; // 1-12, inclusive
+  endMonth: number; // 1-12, inclusive (may wrap past December)
+}
+
+export interface CancellationPolicy extends CancellationTerms {
+  seasonalRules?: SeasonalCancellationRule[];
+}
+
 export interface Review {
   id: string;
   tourId: string;
@@ -50,6 +88,8 @@ export interface Review {
   photos?: string[];
   country?: string; // ISO country code (e.g., 'US', 'DE', 'FR')
   countryName?: string; // Full country name for display
+  language?: string; // ISO 639-1 code of the review text
+  reply?: { message: string; date: Date }; // Filip's public answer
 }
 
 export interface Tour {
@@ -66,6 +106,9 @@ export interface Tour {
   images: TourImage[];
   route: GeoLocation[];
   availability: AvailabilityRule[];
+  pricing?: TourPricing;
+  cancellationPolicy?: CancellationPolicy;
+  meetingPoint?: LocalizedContent;
   reviews: Review[];
   seoMetadata: SEOMetadata;
 }
@@ -3,6 +3,7 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import type { Locale } from '@/types';
+import { DEFAULT_LOCALE, getPathLocale, LOCALE_REGISTRY, stripLocale } from '@/lib/i18n';
 
 /**
  * Utility function to merge Tailwind CSS classes
@@ -19,13 +20,7 @@ export function formatCurrency(
   currency: string,
   locale: Locale = 'en'
 ): string {
-  const localeMap = {
-    en: 'en-US',
-    de: 'de-DE',
-    fr: 'fr-FR',
-  };
-
-  return new Intl.NumberFormat(localeMap[locale], {
+  return new Intl.NumberFormat(LOCALE_REGISTRY[locale].intlLocale, {
     style: 'currency',
     currency,
   }).format(amount);
@@ -35,13 +30,7 @@ export function formatCurrency(
  * Format date based on locale
  */
 export function formatDate(date: Date, locale: Locale = 'en'): string {
-  const localeMap = {
-    en: 'en-US',
-    de: 'de-DE',
-    fr: 'fr-FR',
-  };
-
-  return new Intl.DateTimeFormat(localeMap[locale], {
+  return new Intl.DateTimeFormat(LOCALE_REGISTRY[locale].intlLocale, {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
@@ -85,7 +74,8 @@ export function formatDuration(minutes: number, locale: Locale = 'en'): string {
     en: { hour: 'hour', hours: 'hours', minute: 'minute', minutes: 'minutes' },
     de: { hour: 'Stunde', hours: 'Stunden', minute: 'Minute', minutes: 'Minuten' },
     fr: { hour: 'heure', hours: 'heures', minute: 'minute', minutes: 'minutes' },
-  };
+    cs: { hour: 'h', hours: 'h', minute: 'min', minutes: 'min' },
+  } satisfies Record<Locale, Record<string, string>>;
 
   const t = translations[locale];
 
@@ -112,32 +102,21 @@ export function truncateText(text: string, maxLength: number): string {
  * Get locale from pathname
  */
 export function getLocaleFromPathname(pathname: string): Locale {
-  const segments = pathname.split('/');
-  const localeSegment = segments[1];
-  
-  if (localeSegment === 'de' || localeSegment === 'fr') {
-    return localeSegment;
-  }
-  
-  return 'en';
+  return getPathLocale(pathname) ?? DEFAULT_LOCALE;
 }
 
 /**
  * Remove locale from pathname
  */
 export function removeLocaleFromPathname(pathname: string): string {
-  const segments = pathname.split('/');
-  if (segments[1] === 'de' || segments[1] === 'fr') {
-    return '/' + segments.slice(2).join('/');
-  }
-  return pathname;
+  return stripLocale(pathname);
 }
 
 /**
  * Add locale to pathname
  */
 export function addLocaleToPathname(pathname: string, locale: Locale): string {
-  if (locale === 'en') return pathname;
+  if (locale === DEFAULT_LOCALE) return pathname;
   
   const cleanPath = removeLocaleFromPathname(pathname);
   return `/${locale}${cleanPath}`;